@@ -0,0 +1,31 @@
+-- =============================================
+-- Term Ladder Configuration Migration
+-- =============================================
+-- Purpose: Add configuration for the optimizer's notice/fixed term ladder
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 005
+
+-- The ladder funds locked tiers towards liquidity_allocation_config targets using
+-- surplus easy access money or accounts maturing inside this window
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('ladder_maturity_window_days', '30', 'number', 'optimization', 'Days ahead in which a maturing fixed term or notice account is treated as available for reinvestment');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify configuration was added
+SELECT config_key, config_value, category FROM unified_config WHERE config_key = 'ladder_maturity_window_days';
+
+-- Verify tier targets the ladder will fund
+SELECT liquidity_tier, target_percentage, tier_order FROM liquidity_allocation_config WHERE is_active = 1 ORDER BY tier_order;
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Treat anything maturing in the next 60 days as reinvestable
+-- UPDATE unified_config
+-- SET config_value = '60'
+-- WHERE config_key = 'ladder_maturity_window_days';
@@ -0,0 +1,57 @@
+-- =============================================
+-- FSCS Limit Regime Migration
+-- =============================================
+-- Purpose: Replace the single fscs_standard_limit value with an effective-dated
+--          table of statutory deposit protection limits, so that a compliance
+--          report for any date uses the limit that was in force on that date.
+--          Each regime carries its own near-limit warning level, so the
+--          warning moves with the limit rather than staying at £80,000
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 006
+
+-- Create FSCS Limit Regime Table
+CREATE TABLE IF NOT EXISTS fscs_limit_regime (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  effective_from DATE NOT NULL UNIQUE,        -- First day the limit applies (inclusive)
+  regulatory_limit REAL NOT NULL CHECK (regulatory_limit > 0),
+  joint_multiplier REAL NOT NULL DEFAULT 2 CHECK (joint_multiplier >= 1),
+  near_limit_threshold REAL NOT NULL,         -- Exposure from which an institution is reported as near the limit
+  source TEXT,                                -- Regulator publication / policy statement
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (near_limit_threshold > 0 AND near_limit_threshold <= regulatory_limit)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fscs_limit_regime_effective_from
+  ON fscs_limit_regime(effective_from);
+
+-- Seed known regimes
+INSERT OR IGNORE INTO fscs_limit_regime (effective_from, regulatory_limit, joint_multiplier, near_limit_threshold, source, notes) VALUES
+  ('2017-01-30', 85000, 2, 80000, 'PRA PS16/16', 'Limit raised from £75,000'),
+  ('2025-12-01', 120000, 2, 115000, 'PRA PS8/25', 'Limit raised from £85,000');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE type='table' AND name='fscs_limit_regime';
+
+-- Verify seeded regimes
+SELECT effective_from, regulatory_limit, joint_multiplier, near_limit_threshold FROM fscs_limit_regime ORDER BY effective_from;
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Limit in force on a given date
+-- SELECT regulatory_limit, joint_multiplier, near_limit_threshold, effective_from
+-- FROM fscs_limit_regime
+-- WHERE effective_from <= '2025-06-30'
+-- ORDER BY effective_from DESC
+-- LIMIT 1;
+
+-- Example: Record a future limit change (no code change required)
+-- INSERT INTO fscs_limit_regime (effective_from, regulatory_limit, joint_multiplier, near_limit_threshold, source)
+-- VALUES ('2030-01-01', 150000, 2, 145000, 'PRA policy statement');
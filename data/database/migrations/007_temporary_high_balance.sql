@@ -0,0 +1,73 @@
+-- =============================================
+-- Temporary High Balance Migration
+-- =============================================
+-- Purpose: Record temporary high balance (THB) events - lump sums such as a
+--          house sale or inheritance that FSCS protects above the standard
+--          limit for a limited window - so that compliance reporting treats
+--          them as protected until the window expires and reminders can be
+--          raised before protection lapses
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 007
+
+-- Create Temporary High Balance Table
+CREATE TABLE IF NOT EXISTS temporary_high_balances (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  deposit_id INTEGER,                         -- Account holding the lump sum
+  pending_deposit_id INTEGER,                 -- ...or the pending deposit that will hold it
+  reason TEXT NOT NULL CHECK (reason IN (
+    'property_sale', 'inheritance', 'insurance_payout', 'compensation',
+    'pension_lump_sum', 'redundancy', 'marriage_divorce', 'other'
+  )),
+  start_date DATE NOT NULL,                   -- Date the funds were received (protection starts)
+  expiry_date DATE NOT NULL,                  -- Last day of protection (exclusive end of window)
+  protected_amount REAL NOT NULL CHECK (protected_amount > 0), -- Cap on the amount covered above the standard limit
+  notes TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,       -- 0 once ended early or the funds have been moved
+  expiry_reminder_id INTEGER,                 -- Reminder raised before protection lapses
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (deposit_id) REFERENCES my_deposits(id),
+  FOREIGN KEY (pending_deposit_id) REFERENCES my_pending_deposits(id),
+  FOREIGN KEY (expiry_reminder_id) REFERENCES reminders(id),
+  CHECK ((deposit_id IS NULL) <> (pending_deposit_id IS NULL)),
+  CHECK (expiry_date > start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_temporary_high_balances_deposit
+  ON temporary_high_balances(deposit_id);
+
+CREATE INDEX IF NOT EXISTS idx_temporary_high_balances_pending
+  ON temporary_high_balances(pending_deposit_id);
+
+CREATE INDEX IF NOT EXISTS idx_temporary_high_balances_window
+  ON temporary_high_balances(is_active, start_date, expiry_date);
+
+-- Add THB configuration
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('thb_protection_months', '6', 'number', 'compliance', 'Length of FSCS temporary high balance protection window in months'),
+  ('thb_expiry_days_before', '30', 'number', 'events', 'Days before temporary high balance protection lapses to raise a reminder');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE type='table' AND name='temporary_high_balances';
+
+-- Verify configuration
+SELECT config_key, config_value FROM unified_config WHERE config_key LIKE 'thb_%';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Record a house sale completion held in deposit 12
+-- INSERT INTO temporary_high_balances (deposit_id, reason, start_date, expiry_date, protected_amount)
+-- VALUES (12, 'property_sale', '2026-03-01', date('2026-03-01', '+6 months'), 450000);
+
+-- Example: THB events protecting funds on a report date
+-- SELECT * FROM temporary_high_balances
+-- WHERE is_active = 1
+--   AND start_date <= '2026-06-30'
+--   AND expiry_date > '2026-06-30';
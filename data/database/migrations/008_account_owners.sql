@@ -0,0 +1,127 @@
+-- =============================================
+-- Account Owners Migration
+-- =============================================
+-- Purpose: Record who owns each deposit and pending deposit so that a
+--          household's accounts are no longer treated as one person.
+--          Joint accounts link to several owners and each owner is treated
+--          as holding an equal share (FSCS splits joint funds equally).
+--          Portfolio summaries, allocation analysis and FSCS compliance
+--          can then be produced per owner as well as for the household
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 008
+
+-- Create Account Owners Table
+CREATE TABLE IF NOT EXISTS account_owners (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,                  -- Display name, also used as the optimizer's holder key
+  is_primary INTEGER NOT NULL DEFAULT 0,      -- Default owner for new deposits
+  notes TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Owners of each deposit (one row per owner; several rows for joint accounts)
+CREATE TABLE IF NOT EXISTS deposit_owners (
+  deposit_id INTEGER NOT NULL,
+  owner_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (deposit_id, owner_id),
+  FOREIGN KEY (deposit_id) REFERENCES my_deposits(id) ON DELETE CASCADE,
+  FOREIGN KEY (owner_id) REFERENCES account_owners(id)
+);
+
+-- Owners of each pending deposit
+CREATE TABLE IF NOT EXISTS pending_deposit_owners (
+  pending_deposit_id INTEGER NOT NULL,
+  owner_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (pending_deposit_id, owner_id),
+  FOREIGN KEY (pending_deposit_id) REFERENCES my_pending_deposits(id) ON DELETE CASCADE,
+  FOREIGN KEY (owner_id) REFERENCES account_owners(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_owners_owner
+  ON deposit_owners(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_pending_deposit_owners_owner
+  ON pending_deposit_owners(owner_id);
+
+-- Each owner's share of a deposit (joint balances split equally)
+CREATE VIEW IF NOT EXISTS deposit_owner_shares AS
+SELECT
+  dwo.deposit_id,
+  dwo.owner_id,
+  1.0 / (SELECT COUNT(*) FROM deposit_owners x WHERE x.deposit_id = dwo.deposit_id) AS ownership_share
+FROM deposit_owners dwo;
+
+CREATE VIEW IF NOT EXISTS pending_deposit_owner_shares AS
+SELECT
+  pwo.pending_deposit_id,
+  pwo.owner_id,
+  1.0 / (SELECT COUNT(*) FROM pending_deposit_owners x WHERE x.pending_deposit_id = pwo.pending_deposit_id) AS ownership_share
+FROM pending_deposit_owners pwo;
+
+-- Seed owners for existing data: every account belongs to the primary owner
+-- and joint accounts also belong to a placeholder joint owner (rename in Configuration)
+INSERT OR IGNORE INTO account_owners (name, is_primary, notes) VALUES
+  ('Primary Owner', 1, 'Created by migration 008 - rename to the account holder''s name');
+
+INSERT OR IGNORE INTO account_owners (name, is_primary, notes)
+SELECT 'Joint Owner', 0, 'Created by migration 008 for existing joint accounts - rename to the second holder''s name'
+WHERE EXISTS (SELECT 1 FROM my_deposits WHERE is_joint_account = 1)
+   OR EXISTS (SELECT 1 FROM my_pending_deposits WHERE is_joint_account = 1);
+
+INSERT OR IGNORE INTO deposit_owners (deposit_id, owner_id)
+SELECT d.id, o.id
+FROM my_deposits d
+CROSS JOIN account_owners o
+WHERE o.name = 'Primary Owner'
+  AND NOT EXISTS (SELECT 1 FROM deposit_owners x WHERE x.deposit_id = d.id);
+
+INSERT OR IGNORE INTO deposit_owners (deposit_id, owner_id)
+SELECT d.id, o.id
+FROM my_deposits d
+CROSS JOIN account_owners o
+WHERE o.name = 'Joint Owner' AND d.is_joint_account = 1;
+
+INSERT OR IGNORE INTO pending_deposit_owners (pending_deposit_id, owner_id)
+SELECT p.id, o.id
+FROM my_pending_deposits p
+CROSS JOIN account_owners o
+WHERE o.name = 'Primary Owner'
+  AND NOT EXISTS (SELECT 1 FROM pending_deposit_owners x WHERE x.pending_deposit_id = p.id);
+
+INSERT OR IGNORE INTO pending_deposit_owners (pending_deposit_id, owner_id)
+SELECT p.id, o.id
+FROM my_pending_deposits p
+CROSS JOIN account_owners o
+WHERE o.name = 'Joint Owner' AND p.is_joint_account = 1;
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE type='table' AND name IN ('account_owners', 'deposit_owners', 'pending_deposit_owners');
+
+-- Verify every deposit has an owner
+SELECT COUNT(*) AS deposits_without_owner
+FROM my_deposits d
+WHERE NOT EXISTS (SELECT 1 FROM deposit_owners x WHERE x.deposit_id = d.id);
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Each owner's share of the active portfolio
+-- SELECT o.name, SUM(d.balance * s.ownership_share) AS owned_balance
+-- FROM my_deposits d
+-- JOIN deposit_owner_shares s ON s.deposit_id = d.id
+-- JOIN account_owners o ON o.id = s.owner_id
+-- WHERE d.is_active = 1
+-- GROUP BY o.name;
+
+-- Example: Make deposit 12 a joint account of owners 1 and 2
+-- INSERT OR IGNORE INTO deposit_owners (deposit_id, owner_id) VALUES (12, 1), (12, 2);
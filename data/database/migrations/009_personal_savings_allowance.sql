@@ -0,0 +1,62 @@
+-- =============================================
+-- Personal Savings Allowance Migration
+-- =============================================
+-- Purpose: Record each account owner's income tax band so that interest can
+--          be split into tax-free (ISA or covered by the Personal Savings
+--          Allowance / starting rate for savings) and taxable amounts.
+--          The optimizer compares moves on their net-of-tax benefit, which
+--          favours ISAs once an owner's allowance is used up
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 009
+
+-- Create Owner Tax Profiles Table (one row per account owner)
+CREATE TABLE IF NOT EXISTS owner_tax_profiles (
+  owner_id INTEGER PRIMARY KEY,
+  tax_band TEXT NOT NULL DEFAULT 'basic'
+    CHECK (tax_band IN ('non_taxpayer', 'basic', 'higher', 'additional')),
+  personal_savings_allowance REAL,             -- Override; NULL uses the allowance for the band
+  starting_rate_band REAL NOT NULL DEFAULT 0,  -- Unused starting rate for savings (0 to 5,000)
+  notes TEXT,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (owner_id) REFERENCES account_owners(id) ON DELETE CASCADE
+);
+
+-- Allowances and rates by band (2024/25 onwards)
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('tax_default_band', 'basic', 'string', 'tax', 'Tax band assumed for owners without a tax profile'),
+  ('tax_psa_basic', '1000', 'number', 'tax', 'Personal Savings Allowance for basic rate taxpayers'),
+  ('tax_psa_higher', '500', 'number', 'tax', 'Personal Savings Allowance for higher rate taxpayers'),
+  ('tax_psa_additional', '0', 'number', 'tax', 'Personal Savings Allowance for additional rate taxpayers'),
+  ('tax_rate_basic', '20', 'number', 'tax', 'Income tax rate on savings interest for basic rate taxpayers (%)'),
+  ('tax_rate_higher', '40', 'number', 'tax', 'Income tax rate on savings interest for higher rate taxpayers (%)'),
+  ('tax_rate_additional', '45', 'number', 'tax', 'Income tax rate on savings interest for additional rate taxpayers (%)');
+
+-- Seed a profile for every existing owner at the default band
+INSERT OR IGNORE INTO owner_tax_profiles (owner_id, tax_band)
+SELECT id, 'basic' FROM account_owners;
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE type='table' AND name = 'owner_tax_profiles';
+
+-- Verify tax configuration
+SELECT config_key, config_value FROM unified_config WHERE category = 'tax' ORDER BY config_key;
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Make owner 2 a higher rate taxpayer
+-- UPDATE owner_tax_profiles SET tax_band = 'higher', updated_at = CURRENT_TIMESTAMP WHERE owner_id = 2;
+
+-- Example: Each owner's projected taxable interest (ISAs excluded)
+-- SELECT o.name, SUM(d.balance * s.ownership_share * d.aer / 100) AS taxable_interest
+-- FROM my_deposits d
+-- JOIN deposit_owner_shares s ON s.deposit_id = d.id
+-- JOIN account_owners o ON o.id = s.owner_id
+-- WHERE d.is_active = 1 AND COALESCE(d.is_isa, 0) = 0
+-- GROUP BY o.name;
@@ -0,0 +1,83 @@
+-- =============================================
+-- ISA Subscription Allowance Migration
+-- =============================================
+-- Purpose: Track how much of each owner's annual ISA subscription allowance
+--          has been used in a tax year (6 April to 5 April). The ledger is
+--          derived from deposit transactions on ISA accounts:
+--            - money paid in from outside an ISA is a subscription
+--            - money moved in from another ISA by a pending move is a
+--              transfer and does not use allowance
+--            - withdrawals from a flexible ISA can be replaced in the same
+--              tax year without using allowance
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 010
+
+-- Create ISA Account Settings Table (flexible ISA flag per deposit)
+CREATE TABLE IF NOT EXISTS isa_account_settings (
+  deposit_id INTEGER PRIMARY KEY,
+  is_flexible INTEGER NOT NULL DEFAULT 0,      -- Withdrawals can be replaced in the same tax year
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (deposit_id) REFERENCES my_deposits(id) ON DELETE CASCADE
+);
+
+-- ISA credits and debits classified for the subscription allowance
+-- Pending moves are matched through the MOVE-<id> reference on their transactions
+CREATE VIEW IF NOT EXISTS isa_allowance_entries AS
+SELECT
+  t.id AS transaction_id,
+  t.account_id,
+  t.bank_date,
+  COALESCE(f.is_flexible, 0) AS is_flexible,
+  CASE
+    WHEN t.transaction_type IN ('deposit', 'account_opened') THEN
+      CASE WHEN src.is_isa = 1 THEN 'transfer_in' ELSE 'subscription' END
+    ELSE
+      CASE
+        WHEN COALESCE(dest.is_isa, pm.is_isa) = 1 THEN 'transfer_out'
+        WHEN COALESCE(f.is_flexible, 0) = 1 THEN 'flexible_withdrawal'
+        ELSE 'withdrawal'
+      END
+  END AS entry_type,
+  CASE
+    WHEN t.transaction_type IN ('deposit', 'account_opened') THEN COALESCE(t.credit, 0)
+    ELSE COALESCE(t.debit, 0)
+  END AS amount
+FROM account_transactions t
+JOIN my_deposits d ON d.id = t.account_id AND d.is_isa = 1
+LEFT JOIN isa_account_settings f ON f.deposit_id = d.id
+LEFT JOIN my_pending_deposits pm ON t.reference = 'MOVE-' || pm.id
+LEFT JOIN my_deposits src ON src.id = pm.source_account_id AND src.id <> t.account_id
+LEFT JOIN my_deposits dest ON dest.id = pm.destination_account_id AND dest.id <> t.account_id
+WHERE (t.transaction_type IN ('deposit', 'account_opened') AND COALESCE(t.credit, 0) > 0)
+   OR (t.transaction_type = 'withdrawal' AND COALESCE(t.debit, 0) > 0);
+
+-- Add ISA allowance configuration
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('isa_annual_allowance', '20000', 'number', 'tax', 'Annual ISA subscription allowance per person');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE name IN ('isa_account_settings', 'isa_allowance_entries');
+
+-- Verify configuration
+SELECT config_key, config_value FROM unified_config WHERE config_key = 'isa_annual_allowance';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Mark deposit 7 as a flexible ISA
+-- INSERT OR REPLACE INTO isa_account_settings (deposit_id, is_flexible) VALUES (7, 1);
+
+-- Example: Subscriptions per owner in the 2026/27 tax year
+-- SELECT o.name, SUM(e.amount * s.ownership_share) AS subscribed
+-- FROM isa_allowance_entries e
+-- JOIN deposit_owner_shares s ON s.deposit_id = e.account_id
+-- JOIN account_owners o ON o.id = s.owner_id
+-- WHERE e.entry_type = 'subscription'
+--   AND e.bank_date BETWEEN '2026-04-06' AND '2027-04-05'
+-- GROUP BY o.name;
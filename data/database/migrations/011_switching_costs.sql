@@ -0,0 +1,68 @@
+-- =============================================
+-- Switching Cost Migration
+-- =============================================
+-- Purpose: Let the optimizer value a move net of what switching costs and
+--          over a planning horizon rather than on its headline annual rate:
+--            - interest lost while money is in transit between platforms
+--            - interest forfeited to leave a notice or fixed term account
+--              early (or the gain given up by waiting instead)
+--            - introductory bonus rates that fall back to a lower
+--              underlying rate after a number of months
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 011
+
+-- Create Platform Transfer Days Table (working days money is in transit)
+CREATE TABLE IF NOT EXISTS platform_transfer_days (
+  platform TEXT PRIMARY KEY,                   -- Matches available_products.platform / my_deposits.platform
+  transfer_days INTEGER NOT NULL CHECK (transfer_days >= 0),
+  notes TEXT,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create Product Promotions Table (bonus rates that expire)
+-- Matched to available products by FRN, or by bank name when the FRN is not known
+CREATE TABLE IF NOT EXISTS product_promotions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  frn TEXT,
+  bank_name TEXT,
+  platform TEXT,                               -- NULL applies to the product on every platform
+  bonus_months INTEGER NOT NULL CHECK (bonus_months > 0),
+  underlying_rate REAL NOT NULL,               -- AER paid once the bonus ends
+  notes TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (frn IS NOT NULL OR bank_name IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_promotions_frn ON product_promotions(frn);
+
+-- Add switching cost configuration
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('switching_horizon_months', '12', 'number', 'optimization', 'Months over which recommendations are valued net of switching costs'),
+  ('switching_default_transfer_days', '1', 'number', 'optimization', 'Days money is in transit for platforms without an entry in platform_transfer_days'),
+  ('switching_early_closure_penalty_days', '90', 'number', 'optimization', 'Days of interest forfeited to close a fixed term account before it matures');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE name IN ('platform_transfer_days', 'product_promotions');
+
+-- Verify configuration
+SELECT config_key, config_value FROM unified_config WHERE config_key LIKE 'switching_%';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Hargreaves Lansdown transfers take 3 days
+-- INSERT OR REPLACE INTO platform_transfer_days (platform, transfer_days) VALUES ('Hargreaves Lansdown', 3);
+
+-- Example: 5.10% including a 12 month bonus, 3.60% afterwards
+-- INSERT INTO product_promotions (frn, bonus_months, underlying_rate, notes)
+-- VALUES ('123456', 12, 3.60, 'Includes 1.50% bonus for 12 months');
+
+-- Example: Value recommendations over two years
+-- UPDATE unified_config SET config_value = '24' WHERE config_key = 'switching_horizon_months';
@@ -0,0 +1,82 @@
+-- =============================================
+-- Product History Migration
+-- =============================================
+-- Purpose: Keep the market's history across pipeline runs. available_products
+--          is still replaced on each run with the current market; alongside
+--          it each product (business key and platform) keeps the date it was
+--          first and last seen, when it was withdrawn, and every rate it has
+--          been listed at. A daily best-buy snapshot per account type gives
+--          the market-wide trend
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 012
+
+-- Create Product History Table (one row per product ever seen)
+CREATE TABLE IF NOT EXISTS product_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_key TEXT NOT NULL,                  -- Deduplication business key (bank, type, term/notice)
+  platform TEXT NOT NULL,
+  bank_name TEXT NOT NULL,
+  frn TEXT,
+  account_type TEXT,
+  term_months INTEGER,
+  notice_period_days INTEGER,
+  current_rate REAL NOT NULL,                  -- Latest listed AER
+  first_seen DATE NOT NULL,
+  last_seen DATE NOT NULL,
+  withdrawn_on DATE,                           -- First run it was missing from; NULL while on sale
+  UNIQUE (business_key, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_history_frn ON product_history(frn);
+CREATE INDEX IF NOT EXISTS idx_product_history_first_seen ON product_history(first_seen);
+CREATE INDEX IF NOT EXISTS idx_product_history_withdrawn ON product_history(withdrawn_on);
+
+-- Create Product Rate Changes Table (first listing has no previous rate)
+CREATE TABLE IF NOT EXISTS product_rate_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_history_id INTEGER NOT NULL,
+  change_date DATE NOT NULL,
+  previous_rate REAL,
+  new_rate REAL NOT NULL,
+  FOREIGN KEY (product_history_id) REFERENCES product_history(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_rate_changes_product ON product_rate_changes(product_history_id, change_date);
+
+-- Create Market Rate Snapshots Table (best buy per account type per run date)
+CREATE TABLE IF NOT EXISTS market_rate_snapshots (
+  snapshot_date DATE NOT NULL,
+  account_type TEXT NOT NULL,
+  best_rate REAL NOT NULL,
+  average_rate REAL NOT NULL,
+  product_count INTEGER NOT NULL,
+  PRIMARY KEY (snapshot_date, account_type)
+);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE name IN ('product_history', 'product_rate_changes', 'market_rate_snapshots');
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Rate history for one product
+-- SELECT c.change_date, c.previous_rate, c.new_rate
+-- FROM product_rate_changes c
+-- JOIN product_history h ON h.id = c.product_history_id
+-- WHERE h.business_key = 'example_bank|easy_access' AND h.platform = 'direct'
+-- ORDER BY c.change_date;
+
+-- Example: New to market in the last 7 days
+-- SELECT bank_name, platform, account_type, current_rate, first_seen
+-- FROM product_history
+-- WHERE first_seen >= date('now', '-7 days') AND withdrawn_on IS NULL;
+
+-- Example: Easy access best buy trend
+-- SELECT snapshot_date, best_rate FROM market_rate_snapshots
+-- WHERE account_type = 'easy_access' ORDER BY snapshot_date;
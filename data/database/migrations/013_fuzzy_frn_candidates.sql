@@ -0,0 +1,36 @@
+-- =============================================
+-- Fuzzy FRN Candidates Migration
+-- =============================================
+-- Purpose: Fuzzy FRN matching now ranks the closest institutions from an
+--          in-memory index instead of scanning frn_lookup_helper for every
+--          product. The top candidates are kept on the research queue so a
+--          bank that missed the threshold shows who it most resembles
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 013
+
+-- Closest institutions by similarity, JSON array of {frn, name, score}
+ALTER TABLE frn_research_queue ADD COLUMN candidate_matches TEXT;
+
+-- Add candidate configuration
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description) VALUES
+  ('frn_matching_fuzzy_candidate_count', '3', 'number', 'frn_matching', 'Closest institutions kept as candidates for each fuzzy lookup and shown on the research queue');
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify column added
+SELECT name FROM pragma_table_info('frn_research_queue') WHERE name = 'candidate_matches';
+
+-- Verify configuration
+SELECT config_key, config_value FROM unified_config WHERE config_key = 'frn_matching_fuzzy_candidate_count';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Pending research items with their closest candidate
+-- SELECT bank_name, json_extract(candidate_matches, '$[0].name') AS closest,
+--        json_extract(candidate_matches, '$[0].score') AS score
+-- FROM frn_research_queue WHERE status = 'pending';
@@ -0,0 +1,74 @@
+-- =============================================
+-- BoE Register Imports Migration
+-- =============================================
+-- Purpose: Record each import of a newer Bank of England / PRA list of
+--          deposit takers. An import diffs the list against boe_institutions
+--          and, when applied, keeps one row per change (new, removed or
+--          renamed firm, FRN change, trading name added or removed) so the
+--          register's history can be traced back to the file it came from.
+--          A removed firm's shared brands and preferences are deleted with
+--          it and kept on its change row
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 014
+
+-- Create Register Imports Table (one row per applied import)
+CREATE TABLE IF NOT EXISTS boe_register_imports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_file TEXT NOT NULL,
+  imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  firms_in_file INTEGER NOT NULL,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  removed_count INTEGER NOT NULL DEFAULT 0,
+  renamed_count INTEGER NOT NULL DEFAULT 0,
+  frn_changed_count INTEGER NOT NULL DEFAULT 0,
+  trading_name_changes INTEGER NOT NULL DEFAULT 0,
+  flagged_deposits INTEGER NOT NULL DEFAULT 0      -- Active deposits whose FRN was removed or changed
+);
+
+-- Create Register Changes Table (one row per change applied)
+CREATE TABLE IF NOT EXISTS boe_register_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  import_id INTEGER NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN (
+    'added', 'removed', 'renamed', 'frn_changed', 'trading_name_added', 'trading_name_removed'
+  )),
+  frn TEXT NOT NULL,                               -- FRN after the change (the removed FRN for removals)
+  previous_frn TEXT,                               -- Set for frn_changed
+  firm_name TEXT,
+  previous_firm_name TEXT,                         -- Set for renamed and frn_changed
+  trading_name TEXT,                               -- Set for trading name changes
+  removed_rows TEXT,                               -- Removals: JSON of the shared brands and preferences deleted with the firm
+  FOREIGN KEY (import_id) REFERENCES boe_register_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_boe_register_changes_import ON boe_register_changes(import_id);
+CREATE INDEX IF NOT EXISTS idx_boe_register_changes_frn ON boe_register_changes(frn);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify tables created
+SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('boe_register_imports', 'boe_register_changes');
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Changes made by the latest import
+-- SELECT change_type, frn, previous_frn, firm_name, previous_firm_name, trading_name
+-- FROM boe_register_changes
+-- WHERE import_id = (SELECT MAX(id) FROM boe_register_imports)
+-- ORDER BY change_type, firm_name;
+
+-- Example: Preferences deleted with removed firms
+-- SELECT c.frn, c.firm_name, json_extract(c.removed_rows, '$.preferences') AS preferences
+-- FROM boe_register_changes c
+-- WHERE c.change_type = 'removed' AND json_array_length(c.removed_rows, '$.preferences') > 0;
+
+-- Example: Register history of one firm
+-- SELECT i.imported_at, c.change_type, c.firm_name, c.previous_firm_name
+-- FROM boe_register_changes c JOIN boe_register_imports i ON c.import_id = i.id
+-- WHERE c.frn = '123456' OR c.previous_frn = '123456'
+-- ORDER BY i.imported_at;
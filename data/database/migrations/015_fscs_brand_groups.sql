@@ -0,0 +1,41 @@
+-- =============================================
+-- FSCS Brand Groups Migration
+-- =============================================
+-- Purpose: Make boe_shared_brands the brand-group model for FSCS limits.
+--          Trading names under an FRN share that firm's licence, and so one
+--          FSCS limit per person. Some brands belong to a group but are
+--          authorised in their own right; these are flagged as a separate
+--          licence, with their own FRN when known, and have their own limit
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 015
+
+-- Shared: the brand is covered by the primary FRN's licence and limit
+-- Separate: the brand is part of the group but holds its own licence (licence_frn)
+ALTER TABLE boe_shared_brands ADD COLUMN licence_type TEXT NOT NULL DEFAULT 'shared'
+  CHECK (licence_type IN ('shared', 'separate'));
+ALTER TABLE boe_shared_brands ADD COLUMN licence_frn TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_boe_shared_brands_licence_frn ON boe_shared_brands(licence_frn);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify columns added
+SELECT name FROM pragma_table_info('boe_shared_brands') WHERE name IN ('licence_type', 'licence_frn');
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Brands sharing each licence
+-- SELECT bi.frn, bi.firm_name, GROUP_CONCAT(sb.trading_name, ' + ') AS brands
+-- FROM boe_institutions bi
+-- JOIN boe_shared_brands sb ON sb.primary_frn = bi.frn AND sb.licence_type = 'shared'
+-- GROUP BY bi.frn
+-- HAVING COUNT(*) > 1;
+
+-- Example: Flag a group brand that is separately authorised
+-- UPDATE boe_shared_brands SET licence_type = 'separate', licence_frn = '123456'
+-- WHERE primary_frn = '654321' AND trading_name = 'Example Brand';
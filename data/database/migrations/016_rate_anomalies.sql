@@ -0,0 +1,93 @@
+-- =============================================
+-- Rate Anomaly Detection Migration
+-- =============================================
+-- Purpose: Statistical anomaly checks on each pipeline run, before the final
+--          products are persisted: a product's rate against its own history,
+--          the same bank and term across platforms, each platform's product
+--          count against its recent batches, and term-structure inversions
+--          against the market curve. Anomalies are stored per batch with the
+--          data quality report; high severity product anomalies can optionally
+--          be quarantined (kept out of available_products)
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 016
+
+-- Add Anomaly Detection Configuration Parameters
+INSERT OR IGNORE INTO unified_config (config_key, config_value, category, description) VALUES
+  ('data_quality_rate_jump_threshold', '1.0', 'data_quality', 'Minimum rate change (percentage points) from a product''s last listed rate to flag'),
+  ('data_quality_rate_jump_z_score', '3', 'data_quality', 'Standard deviations from a product''s rate history required when it has 3+ rates'),
+  ('data_quality_rate_history_window', '10', 'data_quality', 'Number of recent rates per product used as its baseline'),
+  ('data_quality_cross_platform_threshold', '1.0', 'data_quality', 'Maximum gap (percentage points) from the same bank and term on other platforms'),
+  ('data_quality_count_collapse_threshold', '0.5', 'data_quality', 'Fractional drop in a platform''s product count versus its recent batches to flag (0.0-1.0)'),
+  ('data_quality_count_history_batches', '5', 'data_quality', 'Number of previous batches a platform''s product count is compared with'),
+  ('data_quality_term_inversion_tolerance', '0.75', 'data_quality', 'How far (percentage points) a bank''s longer term may fall below its shorter term beyond the market curve'),
+  ('data_quality_quarantine_anomalies', 'false', 'data_quality', 'Keep products with high severity anomalies out of available_products');
+
+-- Create Data Quality Anomalies Table (one row per anomaly per batch)
+CREATE TABLE IF NOT EXISTS data_quality_anomalies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  batch_id TEXT NOT NULL,
+  anomaly_type TEXT NOT NULL CHECK (anomaly_type IN ('rate_jump', 'cross_platform_spread', 'product_count_collapse', 'term_inversion')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  platform TEXT NOT NULL,
+  bank_name TEXT,                              -- NULL for platform-level anomalies
+  business_key TEXT,
+  frn TEXT,
+  actual_value REAL NOT NULL,                  -- Rate, or product count for a collapse
+  baseline_value REAL NOT NULL,                -- What the actual value was compared with
+  description TEXT NOT NULL,
+  quarantined INTEGER NOT NULL DEFAULT 0,      -- 1 when the product was kept out of available_products
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_anomalies_batch ON data_quality_anomalies(batch_id);
+CREATE INDEX IF NOT EXISTS idx_quality_anomalies_type ON data_quality_anomalies(anomaly_type, created_at);
+
+-- Create Platform Product Counts Table (baseline for product count collapses)
+CREATE TABLE IF NOT EXISTS platform_product_counts (
+  batch_id TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  product_count INTEGER NOT NULL,
+  recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (batch_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_product_counts_platform ON platform_product_counts(platform, recorded_at);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify configuration parameters were added (expected: 8)
+SELECT COUNT(*) as anomaly_config_count
+FROM unified_config
+WHERE config_key IN (
+  'data_quality_rate_jump_threshold', 'data_quality_rate_jump_z_score', 'data_quality_rate_history_window',
+  'data_quality_cross_platform_threshold', 'data_quality_count_collapse_threshold',
+  'data_quality_count_history_batches', 'data_quality_term_inversion_tolerance',
+  'data_quality_quarantine_anomalies'
+);
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE name IN ('data_quality_anomalies', 'platform_product_counts');
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Quarantine high severity product anomalies
+-- UPDATE unified_config
+-- SET config_value = 'true'
+-- WHERE config_key = 'data_quality_quarantine_anomalies';
+
+-- Example: Anomalies from the latest batch
+-- SELECT anomaly_type, severity, platform, bank_name, actual_value, baseline_value, quarantined, description
+-- FROM data_quality_anomalies
+-- WHERE batch_id = (SELECT batch_id FROM data_quality_reports ORDER BY created_at DESC LIMIT 1)
+-- ORDER BY severity, anomaly_type;
+
+-- Example: Platforms whose product counts have collapsed recently
+-- SELECT created_at, platform, actual_value AS products, baseline_value AS recent_average
+-- FROM data_quality_anomalies
+-- WHERE anomaly_type = 'product_count_collapse'
+-- ORDER BY created_at DESC;
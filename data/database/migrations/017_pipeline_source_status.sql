@@ -0,0 +1,59 @@
+-- =============================================
+-- Pipeline Source Status Migration
+-- =============================================
+-- Purpose: Track the freshness of each scraper source across incremental
+--          pipeline runs. available_products_raw already keeps each source's
+--          products until that source is re-ingested, and the rebuild
+--          deduplicates the merged set, so a run covering one scrape keeps
+--          the others. This table records when each source was last
+--          ingested and how many products it contributes, so sources that
+--          have not been refreshed recently can be flagged as stale
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 017
+
+-- Add Stale Source Threshold
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description, is_active) VALUES
+  ('orchestrator_source_stale_hours', '48', 'number', 'orchestrator', 'Hours since a source was last ingested before it is reported as stale', 1);
+
+-- Create Pipeline Source Status Table (one row per scraper source)
+CREATE TABLE IF NOT EXISTS pipeline_source_status (
+  source TEXT PRIMARY KEY,                     -- Scraper source, as in available_products_raw.source
+  platforms TEXT,                              -- Comma separated platforms the source lists
+  last_batch_id TEXT,                          -- Batch that last ingested the source
+  last_ingested_at TIMESTAMP,
+  last_scrape_date TEXT,                       -- Latest scrape_date among its raw products
+  raw_product_count INTEGER NOT NULL DEFAULT 0,
+  final_product_count INTEGER NOT NULL DEFAULT 0,  -- Products it has in available_products after deduplication
+  carried_forward INTEGER NOT NULL DEFAULT 0,  -- 1 when kept from available_products with no raw products to rebuild from
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_source_status_ingested ON pipeline_source_status(last_ingested_at);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify configuration parameter was added (expected: 1)
+SELECT COUNT(*) as source_status_config_count
+FROM unified_config
+WHERE config_key = 'orchestrator_source_stale_hours';
+
+-- Verify table structure
+SELECT sql FROM sqlite_master WHERE name = 'pipeline_source_status';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Sources by age
+-- SELECT source, platforms, raw_product_count, final_product_count, last_ingested_at,
+--        ROUND((julianday('now') - julianday(last_ingested_at)) * 24, 1) AS age_hours
+-- FROM pipeline_source_status
+-- ORDER BY last_ingested_at;
+
+-- Example: Treat sources as stale after a week
+-- UPDATE unified_config
+-- SET config_value = '168'
+-- WHERE config_key = 'orchestrator_source_stale_hours';
@@ -0,0 +1,48 @@
+-- =============================================
+-- JSON Ingestion Adapters Migration
+-- =============================================
+-- Purpose: Configure third-party JSON sources for the ingestion adapter
+--          registry. Scraper output, CSV exports and saved best buy tables
+--          have built-in adapters; other JSON schemas are mapped field by
+--          field to ProductData by the entries of this parameter, so a new
+--          feed can be ingested without code changes
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 018
+
+-- Add Custom Adapter Mappings (none by default)
+INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category, description, is_active) VALUES
+  ('json_ingestion_custom_adapters', '[]', 'json', 'json_ingestion', 'Third-party JSON schemas mapped to products: [{name, source, method, filePattern, productsPath, platform, fields}]', 1);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify configuration parameter was added (expected: 1)
+SELECT COUNT(*) as adapter_config_count
+FROM unified_config
+WHERE config_key = 'json_ingestion_custom_adapters';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Ingest a partner feed saved as partnerbank-rates-*.json
+-- ({"data": {"offers": [{"provider": {"name": ...}, "rates": {"aer": ...}, ...}]}})
+-- UPDATE unified_config
+-- SET config_value = '[{
+--   "name": "partnerbank-feed",
+--   "source": "partnerbank",
+--   "method": "partnerbank-api",
+--   "filePattern": "^partnerbank-rates-.*\\.json$",
+--   "productsPath": "data.offers",
+--   "platform": "direct",
+--   "fields": {
+--     "bankName": "provider.name",
+--     "accountType": "product.category",
+--     "aerRate": "rates.aer",
+--     "termMonths": "product.termMonths",
+--     "minDeposit": "limits.minimum"
+--   }
+-- }]'
+-- WHERE config_key = 'json_ingestion_custom_adapters';
@@ -0,0 +1,45 @@
+-- =============================================
+-- Interest Accrual Migration
+-- =============================================
+-- Purpose: Record how each account compounds interest and the day-count basis
+--          its daily interest uses, so that expected interest can be accrued
+--          day by day from the transaction ledger and the dated rates in
+--          rate_changes instead of today's balance and AER over the period
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 019
+
+-- How often accrued interest is added to the balance it earns on
+-- (NULL is treated as At_Payment: compounding only when interest is paid)
+ALTER TABLE my_deposits ADD COLUMN interest_compounding TEXT
+  CHECK (interest_compounding IN ('Daily', 'Monthly', 'Quarterly', 'Annually', 'At_Payment'));
+
+-- Days in the year the annual rate is divided by (NULL is treated as ACT/365)
+ALTER TABLE my_deposits ADD COLUMN interest_day_count TEXT
+  CHECK (interest_day_count IN ('ACT/365', 'ACT/ACT', 'ACT/360'));
+
+-- The rate schedule is read per account in effective date order
+CREATE INDEX IF NOT EXISTS idx_rate_changes_deposit_effective
+  ON rate_changes(deposit_id, effective_date);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify the new columns
+SELECT name, type FROM pragma_table_info('my_deposits')
+WHERE name IN ('interest_compounding', 'interest_day_count');
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: An easy access account compounding daily, paid monthly
+-- UPDATE my_deposits
+-- SET interest_compounding = 'Daily', interest_day_count = 'ACT/365'
+-- WHERE id = 12;
+
+-- Example: Dated rate schedule the accrual applies for deposit 12
+-- SELECT effective_date, current_rate, new_rate FROM rate_changes
+-- WHERE deposit_id = 12 AND new_rate IS NOT NULL
+-- ORDER BY effective_date;
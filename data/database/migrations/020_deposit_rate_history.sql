@@ -0,0 +1,86 @@
+-- =============================================
+-- Deposit Rate History Migration
+-- =============================================
+-- Purpose: Keep every rate an account has paid with the date it took effect,
+--          where it came from (bank letter, uploaded document, manual entry or
+--          a scheduled rate change) and the document confirming it, so that
+--          my_deposits.aer is only the latest entry rather than the only record
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 020
+
+CREATE TABLE IF NOT EXISTS deposit_rate_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  deposit_id INTEGER NOT NULL,
+  aer REAL NOT NULL,
+  effective_from DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('bank_letter', 'document', 'manual', 'rate_change')),
+  document_id INTEGER,
+  rate_change_id INTEGER,
+  notes TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (deposit_id) REFERENCES my_deposits(id) ON DELETE CASCADE,
+  FOREIGN KEY (document_id) REFERENCES account_documents(id) ON DELETE SET NULL,
+  FOREIGN KEY (rate_change_id) REFERENCES rate_changes(id) ON DELETE SET NULL
+);
+
+-- Rates are read per account in effective date order
+CREATE INDEX IF NOT EXISTS idx_deposit_rate_history_deposit_effective
+  ON deposit_rate_history(deposit_id, effective_from);
+
+-- A rate change is applied to the history at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposit_rate_history_rate_change
+  ON deposit_rate_history(rate_change_id) WHERE rate_change_id IS NOT NULL;
+
+-- Opening rate for each account: the rate the earliest recorded change
+-- replaced, otherwise today's AER, from the date the deposit was opened
+INSERT INTO deposit_rate_history (deposit_id, aer, effective_from, source, notes)
+SELECT
+  md.id,
+  COALESCE(
+    (SELECT rc.current_rate FROM rate_changes rc
+     WHERE rc.deposit_id = md.id AND rc.new_rate IS NOT NULL AND rc.current_rate IS NOT NULL
+     ORDER BY rc.effective_date, rc.id LIMIT 1),
+    md.aer
+  ),
+  COALESCE(md.deposit_date, date(md.created_at), date('now')),
+  'manual',
+  'Rate held when rate history began'
+FROM my_deposits md
+WHERE md.aer IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM deposit_rate_history h WHERE h.deposit_id = md.id);
+
+-- Rate changes already applied; pending ones are applied by the application
+-- once their effective date is reached
+INSERT OR IGNORE INTO deposit_rate_history (deposit_id, aer, effective_from, source, rate_change_id, notes)
+SELECT rc.deposit_id, rc.new_rate, rc.effective_date, 'rate_change', rc.id, rc.notification_source
+FROM rate_changes rc
+JOIN my_deposits md ON md.id = rc.deposit_id
+WHERE rc.status = 'applied' AND rc.new_rate IS NOT NULL;
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify the table and indexes were created
+SELECT name FROM sqlite_master
+WHERE name IN ('deposit_rate_history', 'idx_deposit_rate_history_deposit_effective', 'idx_deposit_rate_history_rate_change');
+
+-- Accounts with an AER but no rate history (should be none)
+SELECT md.id, md.bank, md.aer FROM my_deposits md
+WHERE md.aer IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM deposit_rate_history h WHERE h.deposit_id = md.id);
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Record a rate from a bank letter uploaded as document 7
+-- INSERT INTO deposit_rate_history (deposit_id, aer, effective_from, source, document_id)
+-- VALUES (12, 4.35, '2026-11-01', 'bank_letter', 7);
+
+-- Example: Rate in force for deposit 12 on a given date
+-- SELECT aer FROM deposit_rate_history
+-- WHERE deposit_id = 12 AND effective_from <= '2026-06-30'
+-- ORDER BY effective_from DESC, id DESC LIMIT 1;
@@ -0,0 +1,52 @@
+-- =============================================
+-- Transaction Categorisation Rules Migration
+-- =============================================
+-- Purpose: User-defined rules that give new and imported transactions a
+--          transaction type and notes from their reference, amount and account
+-- Author: Development Team
+-- Date: 2026-10-19
+-- Version: 021
+
+CREATE TABLE IF NOT EXISTS transaction_categorisation_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  account_id INTEGER,                 -- NULL applies the rule to every account
+  reference_pattern TEXT,             -- Regular expression, case-insensitive
+  min_amount REAL CHECK (min_amount IS NULL OR min_amount >= 0),
+  max_amount REAL CHECK (max_amount IS NULL OR max_amount >= 0),
+  direction TEXT CHECK (direction IN ('credit', 'debit')),
+  transaction_type TEXT CHECK (transaction_type IN (
+    'account_opened', 'deposit', 'withdrawal', 'interest', 'fee', 'adjustment', 'account_closed'
+  )),
+  notes TEXT,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (account_id) REFERENCES my_deposits(id) ON DELETE CASCADE,
+  CHECK (transaction_type IS NOT NULL OR notes IS NOT NULL),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+-- Active rules are read in priority order for every new transaction
+CREATE INDEX IF NOT EXISTS idx_categorisation_rules_active_priority
+  ON transaction_categorisation_rules(is_active, priority, id);
+
+-- =============================================
+-- Verification Queries
+-- =============================================
+
+-- Verify the table was created
+SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'transaction_categorisation_rules';
+
+-- =============================================
+-- Usage Examples
+-- =============================================
+
+-- Example: Credits referencing "GROSS INT" are interest
+-- INSERT INTO transaction_categorisation_rules (name, reference_pattern, direction, transaction_type, notes, priority)
+-- VALUES ('Gross interest', 'GROSS\s+INT', 'credit', 'interest', 'Interest paid', 10);
+
+-- Example: Small debits on account 12 are fees
+-- INSERT INTO transaction_categorisation_rules (name, account_id, max_amount, direction, transaction_type)
+-- VALUES ('Account 12 charges', 12, 10, 'debit', 'fee');
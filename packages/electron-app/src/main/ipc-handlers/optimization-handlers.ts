@@ -6,7 +6,7 @@ import { ipcMain, IpcMainInvokeEvent } from 'electron';
 import { FSCSComplianceService } from '../services/FSCSComplianceService';
 import { RateOptimizerService } from '../services/RateOptimizerService';
 import { ModuleResult } from '../services/SubprocessService';
-import { FSCSOptions, OptimizationOptions, ActionItemUpdate } from '@cash-mgmt/shared';
+import { FSCSOptions, OptimizationOptions, ActionItemUpdate, ScenarioOverlay } from '@cash-mgmt/shared';
 import { DatabaseValidator } from '@cash-mgmt/shared';
 
 // Service instances
@@ -155,6 +155,30 @@ export function registerOptimizationHandlers() {
     }
   });
   
+  ipcMain.handle('optimize:scenario', async (
+    event: IpcMainInvokeEvent,
+    overlay: ScenarioOverlay,
+    options: OptimizationOptions
+  ) => {
+    try {
+      if (!optimizerService) {
+        optimizerService = new RateOptimizerService();
+      }
+      
+      const result = await optimizerService.simulate(overlay, {
+        database: getDatabasePath(),
+        format: 'json',
+        silent: true,
+        ...options
+      });
+      
+      return { success: true, data: result };
+    } catch (error) {
+      console.error('Scenario simulation failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  
   ipcMain.handle('optimize:cancel', async () => {
     if (optimizerService) {
       optimizerService.cancel();
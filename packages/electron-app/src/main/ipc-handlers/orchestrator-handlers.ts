@@ -1,5 +1,5 @@
 import { ipcMain, BrowserWindow } from 'electron';
-import { OrchestrationService } from '@cash-mgmt/pipeline';
+import { OrchestrationService, ElectronIpcProgressSink } from '@cash-mgmt/pipeline';
 
 /**
  * Register orchestrator IPC handlers for UI integration
@@ -10,8 +10,8 @@ export function registerOrchestratorHandlers(
   mainWindow: BrowserWindow
 ): void {
 
-  // Core pipeline execution
-  ipcMain.handle('orchestrator:execute-pipeline', async (event, inputFiles: string[]) => {
+  // Core pipeline execution (dry run stages the result for review instead of persisting it)
+  ipcMain.handle('orchestrator:execute-pipeline', async (event, inputFiles: string[], options?: { dryRun?: boolean }) => {
     try {
       // Input validation
       if (!Array.isArray(inputFiles) || inputFiles.length === 0) {
@@ -38,7 +38,7 @@ export function registerOrchestratorHandlers(
         };
       }
 
-      const result = await orchestratorService.executePipelineWithUI(inputFiles, mainWindow);
+      const result = await orchestratorService.executePipeline(inputFiles, { dryRun: !!options?.dryRun });
       return { success: true, result };
     } catch (error) {
       return {
@@ -48,6 +48,60 @@ export function registerOrchestratorHandlers(
     }
   });
 
+  // Staged dry run review
+  ipcMain.handle('orchestrator:get-staged-run', async () => {
+    try {
+      return { success: true, data: orchestratorService.getStagedRun() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
+  ipcMain.handle('orchestrator:commit-staged-run', async () => {
+    try {
+      if (await orchestratorService.isPipelineRunning()) {
+        return {
+          success: false,
+          error: 'Pipeline already running'
+        };
+      }
+
+      const result = await orchestratorService.commitStagedRun();
+      return { success: true, result };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
+  ipcMain.handle('orchestrator:discard-staged-run', async () => {
+    try {
+      return { success: orchestratorService.discardStagedRun() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
+  // Product counts and age of each source in the merged product set
+  ipcMain.handle('orchestrator:get-source-status', async () => {
+    try {
+      return { success: true, data: orchestratorService.getSourceStatus() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
   // Configuration management (blocked during pipeline execution)
   ipcMain.handle('orchestrator:update-config', async (event, configUpdates: Record<string, string | number | boolean>) => {
     try {
@@ -121,30 +175,8 @@ export function registerOrchestratorHandlers(
     }
   });
 
-  // Simple event forwarding (no complex progress tracking)
-  orchestratorService.on('pipeline:started', (data) => {
-    mainWindow.webContents.send('orchestrator:pipeline-started', data);
-  });
-
-  orchestratorService.on('pipeline:stage-started', (data) => {
-    mainWindow.webContents.send('orchestrator:stage-started', data);
-  });
-
-  orchestratorService.on('pipeline:stage-completed', (data) => {
-    mainWindow.webContents.send('orchestrator:stage-completed', data);
-  });
-
-  orchestratorService.on('pipeline:completed', (data) => {
-    mainWindow.webContents.send('orchestrator:pipeline-completed', data);
-  });
-
-  orchestratorService.on('pipeline:failed', (data) => {
-    mainWindow.webContents.send('orchestrator:pipeline-failed', data);
-  });
-
-  orchestratorService.on('progress', (data) => {
-    mainWindow.webContents.send('orchestrator:progress', data);
-  });
+  // Pipeline events go to the renderer on the orchestrator:* channels
+  orchestratorService.setProgressSink(new ElectronIpcProgressSink(mainWindow));
 
   console.log('✅ Orchestrator IPC handlers registered successfully');
 }
@@ -154,6 +186,9 @@ export function registerOrchestratorHandlers(
  */
 export function unregisterOrchestratorHandlers(): void {
   ipcMain.removeHandler('orchestrator:execute-pipeline');
+  ipcMain.removeHandler('orchestrator:get-staged-run');
+  ipcMain.removeHandler('orchestrator:commit-staged-run');
+  ipcMain.removeHandler('orchestrator:discard-staged-run');
   ipcMain.removeHandler('orchestrator:update-config');
   ipcMain.removeHandler('orchestrator:get-status');
   ipcMain.removeHandler('orchestrator:get-health');
@@ -1,16 +1,26 @@
-import { ipcMain } from 'electron';
+import { ipcMain, dialog } from 'electron';
 import { Database } from 'sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
 import { TransactionService } from '@cash-mgmt/shared';
 import { ReconciliationService } from '@cash-mgmt/shared';
 import { InterestPaymentService } from '@cash-mgmt/shared';
 import { InterestEventService } from '@cash-mgmt/shared';
+import { StatementImportService } from '@cash-mgmt/shared';
+import { CategorisationRuleService } from '@cash-mgmt/shared';
 import {
   Transaction,
   TransactionForm,
   TransactionFilters,
   ReconciliationSession,
   InterestConfiguration,
-  InterestEventConfig
+  InterestEventConfig,
+  StatementImportRequest,
+  StatementImportRow,
+  StatementReconciliationRequest,
+  StatementReconciliationResult,
+  BulkTransactionRequest,
+  TransactionCategorisationRule
 } from '@cash-mgmt/shared';
 
 /**
@@ -21,6 +31,8 @@ export function registerTransactionHandlers(db: Database): void {
   const reconciliationService = new ReconciliationService(db);
   const interestPaymentService = new InterestPaymentService(db);
   const interestEventService = new InterestEventService(db);
+  const statementImportService = new StatementImportService(db);
+  const categorisationRuleService = new CategorisationRuleService(db);
 
   // ============================================
   // TRANSACTION HANDLERS
@@ -151,6 +163,143 @@ export function registerTransactionHandlers(db: Database): void {
     }
   });
 
+  /**
+   * Reclassify, reconcile, unreconcile or delete many transactions at once
+   */
+  ipcMain.handle('bulk-update-transactions', async (_, request: BulkTransactionRequest) => {
+    try {
+      return await transactionService.bulkUpdate(request);
+    } catch (error: any) {
+      console.error('Error applying bulk transaction update:', error);
+      throw error;
+    }
+  });
+
+  // ============================================
+  // CATEGORISATION RULE HANDLERS
+  // ============================================
+
+  /**
+   * Get categorisation rules in priority order
+   */
+  ipcMain.handle('get-categorisation-rules', async () => {
+    try {
+      return await categorisationRuleService.getRules();
+    } catch (error: any) {
+      console.error('Error getting categorisation rules:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Create a categorisation rule
+   */
+  ipcMain.handle('create-categorisation-rule', async (_, rule: TransactionCategorisationRule) => {
+    try {
+      return await categorisationRuleService.createRule(rule);
+    } catch (error: any) {
+      console.error('Error creating categorisation rule:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Update a categorisation rule
+   */
+  ipcMain.handle('update-categorisation-rule', async (_, id: number, rule: TransactionCategorisationRule) => {
+    try {
+      return await categorisationRuleService.updateRule(id, rule);
+    } catch (error: any) {
+      console.error('Error updating categorisation rule:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Delete a categorisation rule
+   */
+  ipcMain.handle('delete-categorisation-rule', async (_, id: number) => {
+    try {
+      return await categorisationRuleService.deleteRule(id);
+    } catch (error: any) {
+      console.error('Error deleting categorisation rule:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Type and notes the categorisation rules would give a transaction
+   */
+  ipcMain.handle('suggest-transaction-category', async (_, transaction: Partial<Transaction>) => {
+    try {
+      return await transactionService.applyCategorisationRules(transaction);
+    } catch (error: any) {
+      console.error('Error applying categorisation rules:', error);
+      throw error;
+    }
+  });
+
+  // ============================================
+  // STATEMENT IMPORT HANDLERS
+  // ============================================
+
+  /**
+   * Get the CSV column profiles for statement import
+   */
+  ipcMain.handle('get-statement-import-profiles', async () => {
+    return statementImportService.getCsvProfiles();
+  });
+
+  /**
+   * Select a statement file and read its content
+   */
+  ipcMain.handle('select-statement-file', async () => {
+    try {
+      const result = await dialog.showOpenDialog({
+        properties: ['openFile'],
+        filters: [
+          { name: 'Bank Statements', extensions: ['csv', 'ofx', 'qfx', 'qif'] }
+        ],
+        title: 'Select Bank Statement'
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false };
+      }
+
+      const filePath = result.filePaths[0];
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      return { success: true, file_name: path.basename(filePath), content };
+    } catch (error: any) {
+      console.error('Error selecting statement file:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  /**
+   * Preview the transactions a statement would create
+   */
+  ipcMain.handle('preview-statement-import', async (_, request: StatementImportRequest) => {
+    try {
+      return await statementImportService.previewImport(request);
+    } catch (error: any) {
+      console.error('Error previewing statement import:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Import the included rows of a statement preview
+   */
+  ipcMain.handle('commit-statement-import', async (_, rows: StatementImportRow[]) => {
+    try {
+      return await statementImportService.commitImport(rows);
+    } catch (error: any) {
+      console.error('Error importing statement:', error);
+      throw error;
+    }
+  });
+
   /**
    * Get unreconciled transactions
    */
@@ -291,6 +440,30 @@ export function registerTransactionHandlers(db: Database): void {
     }
   });
 
+  /**
+   * Match statement lines (imported or pasted) against the ledger
+   */
+  ipcMain.handle('match-statement-lines', async (_, sessionId: number, request: StatementReconciliationRequest) => {
+    try {
+      return await reconciliationService.matchStatementLines(sessionId, request);
+    } catch (error: any) {
+      console.error('Error matching statement lines:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Apply accepted statement matches and proposals
+   */
+  ipcMain.handle('apply-statement-matches', async (_, sessionId: number, result: StatementReconciliationResult) => {
+    try {
+      return await reconciliationService.applyStatementMatches(sessionId, result);
+    } catch (error: any) {
+      console.error('Error applying statement matches:', error);
+      throw error;
+    }
+  });
+
   // ============================================
   // INTEREST PAYMENT HANDLERS
   // ============================================
@@ -300,13 +473,25 @@ export function registerTransactionHandlers(db: Database): void {
    */
   ipcMain.handle('calculate-estimated-interest', async (_, account: any) => {
     try {
-      return interestPaymentService.calculateEstimatedInterest(account);
+      return await interestPaymentService.calculateExpectedInterest(account);
     } catch (error: any) {
       console.error('Error calculating estimated interest:', error);
       throw error;
     }
   });
 
+  /**
+   * Get the daily interest accrual for a period
+   */
+  ipcMain.handle('get-interest-accrual', async (_, accountId: number, periodStart: string, periodEnd: string) => {
+    try {
+      return await interestPaymentService.getInterestAccrual(accountId, periodStart, periodEnd);
+    } catch (error: any) {
+      console.error('Error calculating interest accrual:', error);
+      throw error;
+    }
+  });
+
   /**
    * Calculate next payment date
    */
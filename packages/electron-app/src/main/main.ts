@@ -29,6 +29,7 @@ class CashManagementApp {
   private frnMatchingService: FRNMatchingService | null = null;
   private scraperManager: ScraperProcessManager | null = null;
   private documentCleanupService: DocumentCleanupService | null = null;
+  private rateChangeIntervalId: NodeJS.Timeout | null = null;
 
   constructor() {
     this.initializeApp();
@@ -61,6 +62,7 @@ class CashManagementApp {
       console.log('\n🛠️ Background Services');
       this.initializeScraperManager();
       this.initializeDocumentCleanup();
+      this.initializeRateChangeSchedule();
 
       console.log('\n🔌 IPC Handlers');
       this.setupIpcHandlers();
@@ -245,6 +247,29 @@ class CashManagementApp {
     }
   }
 
+  /**
+   * Apply rate changes on their effective date: once at startup, then every
+   * few hours so an app left open picks up changes taking effect overnight
+   */
+  private initializeRateChangeSchedule(): void {
+    const applyDueRateChanges = async () => {
+      try {
+        const result = await this.databaseService?.applyDueRateChanges();
+        if (result && (result.applied > 0 || result.updated_deposit_ids.length > 0)) {
+          console.log(`✅ Rate changes: applied ${result.applied}, updated ${result.updated_deposit_ids.length} account rate${result.updated_deposit_ids.length === 1 ? '' : 's'}`);
+        }
+        if (result && result.errors.length > 0) {
+          console.error('⚠️ Rate changes not applied:', result.errors.join('; '));
+        }
+      } catch (error) {
+        console.error('Failed to apply due rate changes:', error);
+      }
+    };
+
+    applyDueRateChanges();
+    this.rateChangeIntervalId = setInterval(applyDueRateChanges, 6 * 60 * 60 * 1000);
+  }
+
   private setupIpcHandlers(): void {
     // Register optimization handlers (FSCS and Rate Optimizer)
     registerOptimizationHandlers();
@@ -272,9 +297,9 @@ class CashManagementApp {
     console.log('✅ All handlers registered');
 
     // Portfolio data handlers
-    ipcMain.handle('get-portfolio-summary', async () => {
+    ipcMain.handle('get-portfolio-summary', async (_, ownerId?: number) => {
       try {
-        return await this.databaseService?.getPortfolioSummary();
+        return await this.databaseService?.getPortfolioSummary(ownerId);
       } catch (error) {
         console.error('Error getting portfolio summary:', error);
         throw error;
@@ -328,15 +353,99 @@ class CashManagementApp {
       }
     });
 
-    ipcMain.handle('get-allocation-analysis', async () => {
+    ipcMain.handle('get-fscs-brand-groups', async () => {
       try {
-        return await this.databaseService?.getAllocationAnalysis();
+        return await this.databaseService?.getFSCSBrandGroups();
+      } catch (error) {
+        console.error('Error getting FSCS brand groups:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('get-allocation-analysis', async (_, ownerId?: number) => {
+      try {
+        return await this.databaseService?.getAllocationAnalysis(ownerId);
       } catch (error) {
         console.error('Error getting allocation analysis:', error);
         throw error;
       }
     });
 
+    // Household owner handlers
+    ipcMain.handle('get-account-owners', async (_, includeInactive?: boolean) => {
+      try {
+        return await this.databaseService?.getAccountOwners(includeInactive);
+      } catch (error) {
+        console.error('Error getting account owners:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('create-account-owner', async (_, owner: any) => {
+      try {
+        return await this.databaseService?.createAccountOwner(owner);
+      } catch (error) {
+        console.error('Error creating account owner:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('update-account-owner', async (_, owner: any) => {
+      try {
+        return await this.databaseService?.updateAccountOwner(owner);
+      } catch (error) {
+        console.error('Error updating account owner:', error);
+        throw error;
+      }
+    });
+
+    // Savings tax handlers
+    ipcMain.handle('get-owner-tax-profiles', async () => {
+      try {
+        return await this.databaseService?.getOwnerTaxProfiles();
+      } catch (error) {
+        console.error('Error getting owner tax profiles:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('update-owner-tax-profile', async (_, profile: any) => {
+      try {
+        return await this.databaseService?.updateOwnerTaxProfile(profile);
+      } catch (error) {
+        console.error('Error updating owner tax profile:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('get-interest-tax-summary', async (_, basis?: 'projected' | 'received', date?: string) => {
+      try {
+        return await this.databaseService?.getInterestTaxSummary(basis, date);
+      } catch (error) {
+        console.error('Error getting interest tax summary:', error);
+        throw error;
+      }
+    });
+
+    // ISA allowance handlers
+    ipcMain.handle('get-isa-allowance-ledger', async (_, date?: string) => {
+      try {
+        return await this.databaseService?.getIsaAllowanceLedger(date);
+      } catch (error) {
+        console.error('Error getting ISA allowance ledger:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('check-isa-allowance', async (_, request: any) => {
+      try {
+        return await this.databaseService?.checkIsaAllowance(request);
+      } catch (error) {
+        console.error('Error checking ISA allowance:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('get-projected-allocation-analysis', async () => {
       try {
         return await this.databaseService?.getProjectedAllocationAnalysis();
@@ -704,6 +813,43 @@ class CashManagementApp {
       }
     });
 
+    // Deposit rate history handlers
+    ipcMain.handle('get-deposit-rate-history', async (_, depositId: number) => {
+      try {
+        return await this.databaseService?.getDepositRateHistory(depositId);
+      } catch (error) {
+        console.error('Error getting deposit rate history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('get-all-deposit-rate-history', async () => {
+      try {
+        return await this.databaseService?.getAllDepositRateHistory();
+      } catch (error) {
+        console.error('Error getting rate history for all deposits:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('record-deposit-rate', async (_, entry: any) => {
+      try {
+        return await this.databaseService?.recordDepositRate(entry);
+      } catch (error) {
+        console.error('Error recording deposit rate:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('delete-deposit-rate', async (_, id: number) => {
+      try {
+        return await this.databaseService?.deleteDepositRate(id);
+      } catch (error) {
+        console.error('Error deleting deposit rate:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('create-notice-event', async (_, noticeEvent: any) => {
       try {
         return await this.databaseService?.createNoticeEvent(noticeEvent);
@@ -722,6 +868,33 @@ class CashManagementApp {
       }
     });
 
+    ipcMain.handle('get-temporary-high-balances', async (_, includeInactive?: boolean) => {
+      try {
+        return await this.databaseService?.getTemporaryHighBalances(includeInactive);
+      } catch (error) {
+        console.error('Error getting temporary high balances:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('create-temporary-high-balance', async (_, thb: any) => {
+      try {
+        return await this.databaseService?.createTemporaryHighBalance(thb);
+      } catch (error) {
+        console.error('Error creating temporary high balance:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('end-temporary-high-balance', async (_, id: number) => {
+      try {
+        return await this.databaseService?.endTemporaryHighBalance(id);
+      } catch (error) {
+        console.error('Error ending temporary high balance:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('get-notice-account-status', async () => {
       try {
         return await this.databaseService?.getNoticeAccountStatus();
@@ -1097,6 +1270,34 @@ class CashManagementApp {
       }
     });
 
+    // Market history handlers (product history recorded by the pipeline)
+    ipcMain.handle('market:get-history', async (_, days?: number, accountType?: string) => {
+      try {
+        return await this.databaseService?.getMarketHistory(days, accountType);
+      } catch (error) {
+        console.error('Error getting market history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('market:get-product-rate-history', async (_, productHistoryId: number) => {
+      try {
+        return await this.databaseService?.getProductRateHistory(productHistoryId);
+      } catch (error) {
+        console.error('Error getting product rate history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('market:search-products', async (_, searchTerm: string, limit?: number) => {
+      try {
+        return await this.databaseService?.searchMarketProducts(searchTerm, limit);
+      } catch (error) {
+        console.error('Error searching market products:', error);
+        throw error;
+      }
+    });
+
     // Scraper management handlers
     ipcMain.handle('scraper:trigger', async (_, platform: string, options?: any) => {
       try {
@@ -1305,6 +1506,12 @@ class CashManagementApp {
     // Stop document cleanup service
     this.documentCleanupService?.stop();
 
+    // Stop the rate change schedule
+    if (this.rateChangeIntervalId) {
+      clearInterval(this.rateChangeIntervalId);
+      this.rateChangeIntervalId = null;
+    }
+
     // Reset orchestration service state
     this.orchestrationService?.reset();
 
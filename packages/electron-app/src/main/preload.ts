@@ -3,9 +3,24 @@ import { contextBridge, ipcRenderer } from 'electron';
 // Define the API that will be exposed to the renderer process
 const electronAPI = {
   // Portfolio data methods
-  getPortfolioSummary: () => ipcRenderer.invoke('get-portfolio-summary'),
+  getPortfolioSummary: (ownerId?: number) => ipcRenderer.invoke('get-portfolio-summary', ownerId),
   getPortfolioHoldings: () => ipcRenderer.invoke('get-portfolio-holdings'),
-  getAllocationAnalysis: () => ipcRenderer.invoke('get-allocation-analysis'),
+  getFSCSBrandGroups: () => ipcRenderer.invoke('get-fscs-brand-groups'),
+  getAllocationAnalysis: (ownerId?: number) => ipcRenderer.invoke('get-allocation-analysis', ownerId),
+
+  // Household owner methods
+  getAccountOwners: (includeInactive?: boolean) => ipcRenderer.invoke('get-account-owners', includeInactive),
+  createAccountOwner: (owner: any) => ipcRenderer.invoke('create-account-owner', owner),
+  updateAccountOwner: (owner: any) => ipcRenderer.invoke('update-account-owner', owner),
+
+  // Savings tax methods
+  getOwnerTaxProfiles: () => ipcRenderer.invoke('get-owner-tax-profiles'),
+  updateOwnerTaxProfile: (profile: any) => ipcRenderer.invoke('update-owner-tax-profile', profile),
+  getInterestTaxSummary: (basis?: 'projected' | 'received', date?: string) => ipcRenderer.invoke('get-interest-tax-summary', basis, date),
+
+  // ISA allowance methods
+  getIsaAllowanceLedger: (date?: string) => ipcRenderer.invoke('get-isa-allowance-ledger', date),
+  checkIsaAllowance: (request: any) => ipcRenderer.invoke('check-isa-allowance', request),
   
   // Income history methods
   getIncomeHistory: (period?: number, unit?: 'days' | 'weeks' | 'months') => ipcRenderer.invoke('get-income-history', period, unit),
@@ -54,8 +69,15 @@ const electronAPI = {
   getUpcomingActions: () => ipcRenderer.invoke('get-upcoming-actions'),
   getCalendarSummary: () => ipcRenderer.invoke('get-calendar-summary'),
   createRateChange: (rateChange: any) => ipcRenderer.invoke('create-rate-change', rateChange),
+  getDepositRateHistory: (depositId: number) => ipcRenderer.invoke('get-deposit-rate-history', depositId),
+  getAllDepositRateHistory: () => ipcRenderer.invoke('get-all-deposit-rate-history'),
+  recordDepositRate: (entry: any) => ipcRenderer.invoke('record-deposit-rate', entry),
+  deleteDepositRate: (id: number) => ipcRenderer.invoke('delete-deposit-rate', id),
   createNoticeEvent: (noticeEvent: any) => ipcRenderer.invoke('create-notice-event', noticeEvent),
   createReminder: (reminder: any) => ipcRenderer.invoke('create-reminder', reminder),
+  getTemporaryHighBalances: (includeInactive?: boolean) => ipcRenderer.invoke('get-temporary-high-balances', includeInactive),
+  createTemporaryHighBalance: (thb: any) => ipcRenderer.invoke('create-temporary-high-balance', thb),
+  endTemporaryHighBalance: (id: number) => ipcRenderer.invoke('end-temporary-high-balance', id),
   getNoticeAccountStatus: () => ipcRenderer.invoke('get-notice-account-status'),
   updateReminderStatus: (reminderId: number, updates: any) => ipcRenderer.invoke('update-reminder-status', reminderId, updates),
   markRateChangeReminderCompleted: (rateChangeId: number) => ipcRenderer.invoke('mark-rate-change-reminder-completed', rateChangeId),
@@ -73,6 +95,7 @@ const electronAPI = {
   checkFSCSCompliance: (options?: any) => ipcRenderer.invoke('fscs:check', options),
   generateFSCSDiversification: (options?: any) => ipcRenderer.invoke('fscs:diversify', options),
   runRateOptimization: (options?: any) => ipcRenderer.invoke('optimize:generate', options),
+  runOptimizationScenario: (overlay: any, options?: any) => ipcRenderer.invoke('optimize:scenario', overlay, options),
   approveOptimization: (recommendationIds: string[]) => ipcRenderer.invoke('optimization:approve', recommendationIds),
   rejectOptimization: (recommendationId: string, reason?: string) => ipcRenderer.invoke('optimization:reject', recommendationId, reason),
   getActionItems: (filter?: { module?: string; status?: string }) => ipcRenderer.invoke('get-action-items', filter),
@@ -141,8 +164,16 @@ const electronAPI = {
     ipcRenderer.invoke('scraper:get-available-json-files'),
 
   // Pipeline/Orchestrator methods
-  executePipeline: (inputFiles: string[]) =>
-    ipcRenderer.invoke('orchestrator:execute-pipeline', inputFiles),
+  executePipeline: (inputFiles: string[], options?: { dryRun?: boolean }) =>
+    ipcRenderer.invoke('orchestrator:execute-pipeline', inputFiles, options),
+  getStagedPipelineRun: () =>
+    ipcRenderer.invoke('orchestrator:get-staged-run'),
+  commitStagedPipelineRun: () =>
+    ipcRenderer.invoke('orchestrator:commit-staged-run'),
+  discardStagedPipelineRun: () =>
+    ipcRenderer.invoke('orchestrator:discard-staged-run'),
+  getPipelineSourceStatus: () =>
+    ipcRenderer.invoke('orchestrator:get-source-status'),
   getPipelineStatus: () =>
     ipcRenderer.invoke('orchestrator:get-status'),
   getOrchestratorHealth: () =>
@@ -262,6 +293,11 @@ const electronAPI = {
   getBOEInstitutions: (filters?: any) => ipcRenderer.invoke('frn:get-boe-institutions', filters),
   getBankStatsByName: (bankName: string) => ipcRenderer.invoke('frn:get-bank-stats', bankName),
 
+  // Market history methods
+  getMarketHistory: (days?: number, accountType?: string) => ipcRenderer.invoke('market:get-history', days, accountType),
+  getProductRateHistory: (productHistoryId: number) => ipcRenderer.invoke('market:get-product-rate-history', productHistoryId),
+  searchMarketProducts: (searchTerm: string, limit?: number) => ipcRenderer.invoke('market:search-products', searchTerm, limit),
+
   // Transaction Management methods
   getAccountTransactions: (accountId: number, filters?: any) => 
     ipcRenderer.invoke('get-account-transactions', accountId, filters),
@@ -283,8 +319,28 @@ const electronAPI = {
     ipcRenderer.invoke('create-transaction-from-audit', auditEntry),
   seedTransactionsFromAudit: () => 
     ipcRenderer.invoke('seed-transactions-from-audit'),
+  bulkUpdateTransactions: (request: any) =>
+    ipcRenderer.invoke('bulk-update-transactions', request),
+  getCategorisationRules: () =>
+    ipcRenderer.invoke('get-categorisation-rules'),
+  createCategorisationRule: (rule: any) =>
+    ipcRenderer.invoke('create-categorisation-rule', rule),
+  updateCategorisationRule: (id: number, rule: any) =>
+    ipcRenderer.invoke('update-categorisation-rule', id, rule),
+  deleteCategorisationRule: (id: number) =>
+    ipcRenderer.invoke('delete-categorisation-rule', id),
+  suggestTransactionCategory: (transaction: any) =>
+    ipcRenderer.invoke('suggest-transaction-category', transaction),
   getUnreconciledTransactions: (accountId: number) => 
     ipcRenderer.invoke('get-unreconciled-transactions', accountId),
+  getStatementImportProfiles: () =>
+    ipcRenderer.invoke('get-statement-import-profiles'),
+  selectStatementFile: () =>
+    ipcRenderer.invoke('select-statement-file'),
+  previewStatementImport: (request: any) =>
+    ipcRenderer.invoke('preview-statement-import', request),
+  commitStatementImport: (rows: any[]) =>
+    ipcRenderer.invoke('commit-statement-import', rows),
 
   // Reconciliation methods
   startReconciliation: (accountId: number, statementDate: string, statementBalance: number, createdBy?: string) =>
@@ -307,10 +363,16 @@ const electronAPI = {
     ipcRenderer.invoke('add-reconciliation-adjustment', sessionId, adjustment),
   autoMatchTransactions: (sessionId: number, tolerance?: number) => 
     ipcRenderer.invoke('auto-match-transactions', sessionId, tolerance),
+  matchStatementLines: (sessionId: number, request: any) =>
+    ipcRenderer.invoke('match-statement-lines', sessionId, request),
+  applyStatementMatches: (sessionId: number, result: any) =>
+    ipcRenderer.invoke('apply-statement-matches', sessionId, result),
 
   // Interest Payment methods
   calculateEstimatedInterest: (account: any) => 
     ipcRenderer.invoke('calculate-estimated-interest', account),
+  getInterestAccrual: (accountId: number, periodStart: string, periodEnd: string) =>
+    ipcRenderer.invoke('get-interest-accrual', accountId, periodStart, periodEnd),
   calculateNextPaymentDate: (account: any) => 
     ipcRenderer.invoke('calculate-next-payment-date', account),
   processInterestPayment: (account: any, interestAmount: number) => 
@@ -11,6 +11,7 @@ export interface FSCSOptions extends SubprocessOptions {
   warningThreshold?: number;
   excludeFrns?: string[];
   accountType?: 'easy_access' | 'notice' | 'fixed_term';
+  asOfDate?: string; // YYYY-MM-DD, selects the FSCS limit in force on that date
 }
 
 export class FSCSComplianceService extends SubprocessService {
@@ -56,6 +57,10 @@ export class FSCSComplianceService extends SubprocessService {
       args.push('--account-type', options.accountType);
     }
     
+    if (options.asOfDate) {
+      args.push('--as-of', options.asOfDate);
+    }
+    
     return args;
   }
   
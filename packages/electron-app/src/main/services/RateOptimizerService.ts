@@ -3,6 +3,7 @@
  */
 
 import { SubprocessService, SubprocessOptions, ModuleResult } from './SubprocessService';
+import { ScenarioOverlay } from '@cash-mgmt/shared';
 
 export interface OptimizationOptions extends SubprocessOptions {
   excludeShariaBanks?: boolean;
@@ -11,6 +12,8 @@ export interface OptimizationOptions extends SubprocessOptions {
   minimumBalance?: number;
   minMoveAmount?: number;
   minBenefit?: number;
+  horizonMonths?: number;
+  analyzeOnly?: boolean;
 }
 
 export class RateOptimizerService extends SubprocessService {
@@ -29,10 +32,19 @@ export class RateOptimizerService extends SubprocessService {
    * Analyze portfolio without generating recommendations
    */
   async analyze(options: OptimizationOptions): Promise<ModuleResult> {
-    const args = [...this.buildModuleArgs(options), '--analyze-only'];
+    const args = this.buildModuleArgs({ ...options, analyzeOnly: true });
     return this.runCommand('analyze', args, options);
   }
   
+  /**
+   * Compare a what-if scenario with the current portfolio; nothing is saved
+   */
+  async simulate(overlay: ScenarioOverlay, options: OptimizationOptions): Promise<ModuleResult> {
+    const args = this.buildModuleArgs(options);
+    args.push('--scenario', JSON.stringify(overlay));
+    return this.runCommand('scenario', args, options);
+  }
+  
   private buildModuleArgs(options: OptimizationOptions): string[] {
     const args: string[] = [];
     
@@ -63,6 +75,14 @@ export class RateOptimizerService extends SubprocessService {
       args.push('--min-benefit', options.minBenefit.toString());
     }
     
+    if (options.horizonMonths !== undefined) {
+      args.push('--horizon-months', options.horizonMonths.toString());
+    }
+    
+    if (options.analyzeOnly) {
+      args.push('--analyze-only');
+    }
+    
     return args;
   }
   
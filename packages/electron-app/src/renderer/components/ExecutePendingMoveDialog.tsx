@@ -156,9 +156,12 @@ export const ExecutePendingMoveDialog: React.FC<ExecutePendingMoveDialogProps> =
   const [loading, setLoading] = useState(false);
   const [loadingAccount, setLoadingAccount] = useState(false);
   const [validation, setValidation] = useState<ValidationResult>({ valid: true });
+  const [isaCheck, setIsaCheck] = useState<any>(null);
 
   useEffect(() => {
     if (open && pendingMove) {
+      loadIsaCheck();
+      
       if (pendingMove.source_account_id) {
         loadSourceAccount();
       } else {
@@ -177,6 +180,17 @@ export const ExecutePendingMoveDialog: React.FC<ExecutePendingMoveDialogProps> =
     }
   }, [open, pendingMove]);
 
+  const loadIsaCheck = async () => {
+    if (!pendingMove?.id) return;
+
+    try {
+      setIsaCheck(await window.electronAPI.checkIsaAllowance({ pending_deposit_id: pendingMove.id }));
+    } catch (error) {
+      console.error('Error checking ISA allowance:', error);
+      setIsaCheck(null);
+    }
+  };
+
   const loadSourceAccount = async () => {
     if (!pendingMove?.source_account_id) return;
     
@@ -419,6 +433,17 @@ export const ExecutePendingMoveDialog: React.FC<ExecutePendingMoveDialogProps> =
             </Alert>
           )}
 
+          {isaCheck?.exceeds && (
+            <Alert severity="warning" icon={<WarningIcon />}>
+              <Typography variant="body2" fontWeight="medium">
+                ISA Allowance Exceeded
+              </Typography>
+              <Typography variant="body2">
+                This subscription is {formatCurrency(isaCheck.excess)} over {isaCheck.owner_name ? `${isaCheck.owner_name}'s` : 'the'} remaining {isaCheck.tax_year} ISA allowance of {formatCurrency(isaCheck.remaining)}.
+              </Typography>
+            </Alert>
+          )}
+
           {/* Action Summary */}
           <Paper sx={{ p: 2, border: 1, borderColor: 'divider' }}>
             <Typography variant="subtitle1" fontWeight="medium" gutterBottom>
@@ -54,7 +54,7 @@ export const IncomeHistoryChart: React.FC<IncomeHistoryChartProps> = ({
       setHistoryData(data || []);
       
       if (!data || data.length === 0) {
-        setError('No historical data available yet. Start by capturing some snapshots!');
+        setError('No historical data available yet. Record account rates or capture some snapshots!');
       }
     } catch (err) {
       console.error('Failed to load income history:', err);
@@ -104,14 +104,17 @@ export const IncomeHistoryChart: React.FC<IncomeHistoryChartProps> = ({
     }
   };
 
+  // Income at the rates in force on each date; snapshots alone before rate history existed
+  const rateIncome = (point: IncomeHistoryPoint): number => point.rateIncome ?? point.currentIncome;
+
   const calculateTrend = () => {
     if (historyData.length < 2) return null;
     
     const first = historyData[0];
     const last = historyData[historyData.length - 1];
     
-    const change = last.currentIncome - first.currentIncome;
-    const changePercentage = first.currentIncome > 0 ? (change / first.currentIncome) * 100 : 0;
+    const change = rateIncome(last) - rateIncome(first);
+    const changePercentage = rateIncome(first) > 0 ? (change / rateIncome(first)) * 100 : 0;
     
     return {
       change,
@@ -206,14 +209,21 @@ export const IncomeHistoryChart: React.FC<IncomeHistoryChartProps> = ({
               height={height}
               series={[
                 {
-                  data: historyData.map(point => point.currentIncome),
-                  label: 'Current Income',
+                  data: historyData.map(point => rateIncome(point)),
+                  label: 'Income at Actual Rates',
                   color: '#1976d2'
                 },
                 {
-                  data: historyData.map(point => point.projectedIncome),
+                  data: historyData.map(point => (point.snapshot === false ? null : point.currentIncome)),
+                  label: 'Snapshot Income',
+                  color: '#9c27b0',
+                  connectNulls: true
+                },
+                {
+                  data: historyData.map(point => (point.snapshot === false ? null : point.projectedIncome)),
                   label: 'Projected Income',
-                  color: '#ed6c02'
+                  color: '#ed6c02',
+                  connectNulls: true
                 }
               ]}
               xAxis={[{
@@ -241,13 +251,13 @@ export const IncomeHistoryChart: React.FC<IncomeHistoryChartProps> = ({
             
             <Box mt={2} display="flex" justifyContent="space-between" alignItems="center">
               <Typography variant="body2" color="text.secondary">
-                {historyData.length} data points over {timeRangeConfigs[timeRange as keyof typeof timeRangeConfigs].label.toLowerCase()}
+                {historyData.filter(point => point.snapshot !== false).length} snapshots and rebuilt rates over {timeRangeConfigs[timeRange as keyof typeof timeRangeConfigs].label.toLowerCase()}
               </Typography>
               
               {historyData.length > 0 && (
                 <Box display="flex" gap={2}>
                   <Typography variant="body2" color="text.secondary">
-                    Latest: <strong>{formatCurrency(historyData[historyData.length - 1].currentIncome)}</strong>
+                    Latest: <strong>{formatCurrency(rateIncome(historyData[historyData.length - 1]))}</strong>
                   </Typography>
                   {historyData[historyData.length - 1].projectedIncome !== historyData[historyData.length - 1].currentIncome && (
                     <Typography variant="body2" color="warning.main">
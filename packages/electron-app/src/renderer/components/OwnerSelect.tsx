@@ -0,0 +1,68 @@
+import React from 'react';
+import { Box, Chip, FormControl, FormHelperText, InputLabel, MenuItem, Select } from '@mui/material';
+import { AccountOwner } from '@cash-mgmt/shared';
+
+interface OwnerSelectProps {
+  value?: number[];
+  onChange: (ownerIds: number[]) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Multi-select for the owners of an account
+ * Selecting more than one owner makes the account joint
+ */
+export const OwnerSelect: React.FC<OwnerSelectProps> = ({
+  value = [],
+  onChange,
+  label = 'Owners',
+  disabled = false,
+}) => {
+  const [owners, setOwners] = React.useState<AccountOwner[]>([]);
+
+  React.useEffect(() => {
+    const loadOwners = async () => {
+      try {
+        const result = await window.electronAPI.getAccountOwners();
+        setOwners(result || []);
+      } catch (error) {
+        console.error('Error loading account owners:', error);
+      }
+    };
+
+    loadOwners();
+  }, []);
+
+  const ownerName = (id: number) => owners.find(owner => owner.id === id)?.name || `Owner ${id}`;
+
+  return (
+    <FormControl fullWidth>
+      <InputLabel id="owner-select-label">{label}</InputLabel>
+      <Select
+        labelId="owner-select-label"
+        label={label}
+        multiple
+        value={value}
+        onChange={(e) => onChange(e.target.value as number[])}
+        disabled={disabled}
+        renderValue={(selected) => (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {selected.map(id => (
+              <Chip key={id} label={ownerName(id)} size="small" />
+            ))}
+          </Box>
+        )}
+      >
+        {owners.map(owner => (
+          <MenuItem key={owner.id} value={owner.id}>
+            {owner.name}
+          </MenuItem>
+        ))}
+      </Select>
+      {value.length > 1 && (
+        <FormHelperText>Joint account - each owner holds an equal share</FormHelperText>
+      )}
+    </FormControl>
+  );
+};
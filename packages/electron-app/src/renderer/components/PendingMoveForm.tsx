@@ -25,6 +25,7 @@ import {
   Autocomplete,
   CircularProgress,
   Switch,
+  Alert,
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
@@ -37,6 +38,7 @@ import {
   Add as AddIcon,
 } from '@mui/icons-material';
 import { DuplicateDetectionDialog } from './DuplicateDetectionDialog';
+import { OwnerSelect } from './OwnerSelect';
 
 interface PendingMove {
   id?: number;
@@ -60,6 +62,7 @@ interface PendingMove {
   term_months?: number;
   notice_period_days?: number;
   metadata?: string | null;
+  owner_ids?: number[];
 }
 
 interface PendingMoveFormProps {
@@ -853,6 +856,30 @@ export const PendingMoveForm: React.FC<PendingMoveFormProps> = ({
     }
   }, [formData]);
 
+  // Check the move against the owners' ISA allowance for the tax year
+  const [isaCheck, setIsaCheck] = React.useState<any>(null);
+  React.useEffect(() => {
+    const isIsaMove = formData.is_isa || formData.destination_account_id;
+    if (!open || !isIsaMove || !formData.balance || formData.balance <= 0) {
+      setIsaCheck(null);
+      return;
+    }
+
+    window.electronAPI.checkIsaAllowance({
+      amount: Number(formData.balance),
+      is_isa: Boolean(formData.is_isa),
+      source_account_id: formData.source_account_id,
+      destination_account_id: formData.destination_account_id,
+      ...(formData.owner_ids ? { owner_ids: formData.owner_ids } : {}),
+      ...(editingMove?.id ? { pending_deposit_id: editingMove.id } : {})
+    })
+      .then(setIsaCheck)
+      .catch((error: any) => {
+        console.error('Error checking ISA allowance:', error);
+        setIsaCheck(null);
+      });
+  }, [open, formData.balance, formData.is_isa, formData.source_account_id, formData.destination_account_id, formData.owner_ids]);
+
   // Trigger validation when form reaches completion step
   React.useEffect(() => {
     if (formStep === 'form-completion' && isCreateMode) {
@@ -1234,6 +1261,13 @@ export const PendingMoveForm: React.FC<PendingMoveFormProps> = ({
                         InputProps={{ readOnly: viewMode === 'view' }}
                       />
                     </Grid>
+                    <Grid item xs={12} md={6}>
+                      <OwnerSelect
+                        value={formData.owner_ids || []}
+                        onChange={(ownerIds) => handleFieldChange('owner_ids', ownerIds)}
+                        disabled={viewMode === 'view'}
+                      />
+                    </Grid>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth required={!isReadOnly} error={!!validationErrors.platform}>
                     <InputLabel id="platform-label" shrink>Platform</InputLabel>
@@ -1450,6 +1484,23 @@ export const PendingMoveForm: React.FC<PendingMoveFormProps> = ({
                     label="Active"
                   />
                 </Grid>
+                {isaCheck && (isaCheck.consumes_allowance || isaCheck.is_transfer) && (
+                  <Grid item xs={12}>
+                    {isaCheck.exceeds ? (
+                      <Alert severity="warning">
+                        This subscription is £{isaCheck.excess.toLocaleString()} over {isaCheck.owner_name ? `${isaCheck.owner_name}'s` : 'the'} remaining {isaCheck.tax_year} ISA allowance of £{isaCheck.remaining.toLocaleString()}.
+                      </Alert>
+                    ) : isaCheck.is_transfer ? (
+                      <Alert severity="info">
+                        ISA to ISA transfer - does not use ISA allowance.
+                      </Alert>
+                    ) : (
+                      <Alert severity="info">
+                        Uses £{isaCheck.amount.toLocaleString()} of {isaCheck.owner_name ? `${isaCheck.owner_name}'s` : 'the'} {isaCheck.tax_year} ISA allowance (£{isaCheck.remaining.toLocaleString()} left).
+                      </Alert>
+                    )}
+                  </Grid>
+                )}
               </Grid>
             </AccordionDetails>
           </Accordion>
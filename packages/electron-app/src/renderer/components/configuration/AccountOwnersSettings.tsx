@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Alert,
+  Tooltip,
+  CircularProgress,
+  Chip,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import {
+  People as PeopleIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Check as CheckIcon,
+  Star as PrimaryIcon,
+  StarBorder as NotPrimaryIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { AccountOwner, InterestTaxSummary, OwnerTaxProfile, TaxBand } from '@cash-mgmt/shared';
+
+const TAX_BAND_LABELS: Record<TaxBand, string> = {
+  non_taxpayer: 'Non-taxpayer',
+  basic: 'Basic rate',
+  higher: 'Higher rate',
+  additional: 'Additional rate',
+};
+
+export const AccountOwnersSettings: React.FC = () => {
+  const [owners, setOwners] = useState<AccountOwner[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newOwnerName, setNewOwnerName] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [taxProfiles, setTaxProfiles] = useState<OwnerTaxProfile[]>([]);
+  const [projectedTax, setProjectedTax] = useState<InterestTaxSummary | null>(null);
+  const [receivedTax, setReceivedTax] = useState<InterestTaxSummary | null>(null);
+
+  useEffect(() => {
+    loadOwners();
+    loadTaxProfiles();
+  }, []);
+
+  const loadTaxProfiles = async () => {
+    try {
+      const [profiles, projected, received] = await Promise.all([
+        window.electronAPI.getOwnerTaxProfiles(),
+        window.electronAPI.getInterestTaxSummary('projected'),
+        window.electronAPI.getInterestTaxSummary('received'),
+      ]);
+      setTaxProfiles(profiles || []);
+      setProjectedTax(projected || null);
+      setReceivedTax(received || null);
+    } catch (err) {
+      // Tax profiles need migration 009; the owner list still works without them
+      console.error('Error loading owner tax profiles:', err);
+    }
+  };
+
+  const updateTaxProfile = (ownerId: number, updates: Partial<OwnerTaxProfile>) => {
+    setTaxProfiles(prev => prev.map(profile => profile.owner_id === ownerId ? { ...profile, ...updates } : profile));
+  };
+
+  const handleSaveTaxProfile = async (profile: OwnerTaxProfile) => {
+    try {
+      await window.electronAPI.updateOwnerTaxProfile(profile);
+      await loadTaxProfiles();
+    } catch (err) {
+      console.error('Error updating owner tax profile:', err);
+      setError('Failed to save tax profile');
+    }
+  };
+
+  const ownerInterest = (summary: InterestTaxSummary | null, ownerId: number) =>
+    summary?.owners.find(owner => owner.owner_id === ownerId);
+
+  const loadOwners = async () => {
+    try {
+      setLoading(true);
+      const result = await window.electronAPI.getAccountOwners();
+      setOwners(result || []);
+    } catch (err) {
+      console.error('Error loading account owners:', err);
+      setError('Failed to load account owners');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const handleAdd = async () => {
+    try {
+      await window.electronAPI.createAccountOwner({
+        name: newOwnerName,
+        is_primary: owners.length === 0,
+      });
+      setNewOwnerName('');
+      await loadOwners();
+      await loadTaxProfiles();
+    } catch (err) {
+      console.error('Error creating account owner:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add owner');
+    }
+  };
+
+  const handleUpdate = async (owner: AccountOwner, updates: Partial<AccountOwner>) => {
+    try {
+      await window.electronAPI.updateAccountOwner({ ...owner, ...updates });
+      setEditingId(null);
+      await loadOwners();
+      await loadTaxProfiles();
+    } catch (err) {
+      console.error('Error updating account owner:', err);
+      setError('Failed to update owner');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <PeopleIcon />
+          Household Owners
+        </Typography>
+
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Each member of the household has their own FSCS limit. Accounts with more than one
+          owner are joint and each owner holds an equal share. The primary owner is assigned
+          to new accounts by default.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={2}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <List dense>
+            {owners.map(owner => (
+              <ListItem key={owner.id}>
+                {editingId === owner.id ? (
+                  <TextField
+                    size="small"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    sx={{ mr: 2 }}
+                  />
+                ) : (
+                  <ListItemText
+                    primary={owner.name}
+                    secondary={`${owner.account_count || 0} accounts • ${formatCurrency(owner.owned_balance || 0)}`}
+                  />
+                )}
+                <ListItemSecondaryAction>
+                  {owner.is_primary && <Chip label="Primary" size="small" color="primary" sx={{ mr: 1 }} />}
+                  {editingId === owner.id ? (
+                    <IconButton
+                      edge="end"
+                      onClick={() => handleUpdate(owner, { name: editingName })}
+                      disabled={!editingName.trim()}
+                    >
+                      <CheckIcon />
+                    </IconButton>
+                  ) : (
+                    <>
+                      <Tooltip title="Make primary owner">
+                        <span>
+                          <IconButton onClick={() => handleUpdate(owner, { is_primary: true })} disabled={owner.is_primary}>
+                            {owner.is_primary ? <PrimaryIcon /> : <NotPrimaryIcon />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Rename">
+                        <IconButton
+                          edge="end"
+                          onClick={() => {
+                            setEditingId(owner.id!);
+                            setEditingName(owner.name);
+                          }}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                </ListItemSecondaryAction>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Box display="flex" gap={2} mt={2}>
+          <TextField
+            size="small"
+            label="New owner name"
+            value={newOwnerName}
+            onChange={(e) => setNewOwnerName(e.target.value)}
+          />
+          <Button
+            variant="outlined"
+            startIcon={<AddIcon />}
+            onClick={handleAdd}
+            disabled={!newOwnerName.trim()}
+          >
+            Add Owner
+          </Button>
+        </Box>
+
+        {taxProfiles.length > 0 && (
+          <>
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="subtitle1" gutterBottom>
+              Savings Tax
+            </Typography>
+            <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+              Interest outside ISAs is tax free up to each owner's Personal Savings Allowance, plus any
+              unused starting rate for savings. Leave the allowance blank to use the amount for the band.
+              The optimizer compares moves after tax.
+            </Typography>
+
+            {taxProfiles.map(profile => {
+              const projected = ownerInterest(projectedTax, profile.owner_id);
+              const received = ownerInterest(receivedTax, profile.owner_id);
+              return (
+                <Box key={profile.owner_id} sx={{ mb: 2 }}>
+                  <Box display="flex" gap={2} alignItems="center">
+                    <Typography sx={{ minWidth: 140 }}>{profile.owner_name}</Typography>
+                    <FormControl size="small" sx={{ minWidth: 160 }}>
+                      <InputLabel id={`tax-band-${profile.owner_id}`}>Tax band</InputLabel>
+                      <Select
+                        labelId={`tax-band-${profile.owner_id}`}
+                        label="Tax band"
+                        value={profile.tax_band}
+                        onChange={(e) => updateTaxProfile(profile.owner_id, { tax_band: e.target.value as TaxBand })}
+                      >
+                        {(Object.keys(TAX_BAND_LABELS) as TaxBand[]).map(band => (
+                          <MenuItem key={band} value={band}>{TAX_BAND_LABELS[band]}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Savings allowance"
+                      value={profile.personal_savings_allowance ?? ''}
+                      onChange={(e) => updateTaxProfile(profile.owner_id, {
+                        personal_savings_allowance: e.target.value === '' ? null : parseFloat(e.target.value),
+                      })}
+                      sx={{ width: 150 }}
+                    />
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Starting rate band"
+                      value={profile.starting_rate_band || 0}
+                      onChange={(e) => updateTaxProfile(profile.owner_id, {
+                        starting_rate_band: parseFloat(e.target.value) || 0,
+                      })}
+                      sx={{ width: 150 }}
+                    />
+                    <Tooltip title="Save tax profile">
+                      <IconButton onClick={() => handleSaveTaxProfile(profile)}>
+                        <SaveIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                  {projected && (
+                    <Typography variant="caption" color="textSecondary">
+                      Projected {projectedTax?.tax_year}: {formatCurrency(projected.gross_interest)} interest,{' '}
+                      {formatCurrency(projected.tax_free_interest)} tax free,{' '}
+                      {formatCurrency(projected.taxable_interest)} taxable (est. tax {formatCurrency(projected.estimated_tax)})
+                      {received && ` • Received so far: ${formatCurrency(received.gross_interest)}, ${formatCurrency(received.taxable_interest)} taxable`}
+                    </Typography>
+                  )}
+                </Box>
+              );
+            })}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Alert,
+  Tooltip,
+  CircularProgress,
+  Switch,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import {
+  Category as CategoryIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import {
+  CategorisationRuleDirection,
+  Deposit,
+  TransactionCategorisationRule,
+  TransactionType,
+  formatTransactionType,
+} from '@cash-mgmt/shared';
+
+const RULE_TYPES: TransactionType[] = [
+  'deposit', 'withdrawal', 'interest', 'fee', 'adjustment', 'account_opened', 'account_closed',
+];
+
+interface RuleForm {
+  name: string;
+  reference_pattern: string;
+  account_id: number | '';
+  direction: CategorisationRuleDirection | '';
+  min_amount: string;
+  max_amount: string;
+  transaction_type: TransactionType | '';
+  notes: string;
+  priority: string;
+}
+
+const emptyForm: RuleForm = {
+  name: '',
+  reference_pattern: '',
+  account_id: '',
+  direction: '',
+  min_amount: '',
+  max_amount: '',
+  transaction_type: '',
+  notes: '',
+  priority: '100',
+};
+
+export const CategorisationRulesSettings: React.FC = () => {
+  const [rules, setRules] = useState<TransactionCategorisationRule[]>([]);
+  const [accounts, setAccounts] = useState<Deposit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadRules();
+    loadAccounts();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setRules(await window.electronAPI.getCategorisationRules() || []);
+    } catch (err) {
+      // Rules need migration 021
+      console.error('Error loading categorisation rules:', err);
+      setError('Failed to load categorisation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await window.electronAPI.getAllDeposits() || []);
+    } catch (err) {
+      console.error('Error loading accounts:', err);
+    }
+  };
+
+  const accountLabel = (accountId: number) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account ? `${account.bank} ${account.account_name || account.sub_type}` : `Account ${accountId}`;
+  };
+
+  const describeRule = (rule: TransactionCategorisationRule) => {
+    const conditions: string[] = [];
+    if (rule.reference_pattern) conditions.push(`reference /${rule.reference_pattern}/`);
+    if (rule.direction) conditions.push(rule.direction === 'credit' ? 'credits' : 'debits');
+    if (rule.min_amount !== null && rule.min_amount !== undefined) conditions.push(`≥ £${rule.min_amount}`);
+    if (rule.max_amount !== null && rule.max_amount !== undefined) conditions.push(`≤ £${rule.max_amount}`);
+    if (rule.account_id) conditions.push(accountLabel(rule.account_id));
+
+    const outcome = [
+      rule.transaction_type ? formatTransactionType(rule.transaction_type) : null,
+      rule.notes ? `notes "${rule.notes}"` : null,
+    ].filter(Boolean).join(', ');
+
+    return `${conditions.join(', ') || 'Every transaction'} → ${outcome} • priority ${rule.priority}`;
+  };
+
+  const toRule = (values: RuleForm, isActive: boolean): TransactionCategorisationRule => ({
+    name: values.name,
+    reference_pattern: values.reference_pattern || null,
+    account_id: values.account_id === '' ? null : values.account_id,
+    direction: values.direction || null,
+    min_amount: values.min_amount === '' ? null : parseFloat(values.min_amount),
+    max_amount: values.max_amount === '' ? null : parseFloat(values.max_amount),
+    transaction_type: values.transaction_type || null,
+    notes: values.notes || null,
+    priority: parseInt(values.priority, 10) || 100,
+    is_active: isActive,
+  });
+
+  const handleSave = async () => {
+    try {
+      if (editingId !== null) {
+        const existing = rules.find(rule => rule.id === editingId);
+        await window.electronAPI.updateCategorisationRule(editingId, toRule(form, existing?.is_active ?? true));
+      } else {
+        await window.electronAPI.createCategorisationRule(toRule(form, true));
+      }
+      setForm(emptyForm);
+      setEditingId(null);
+      await loadRules();
+    } catch (err) {
+      console.error('Error saving categorisation rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    }
+  };
+
+  const handleEdit = (rule: TransactionCategorisationRule) => {
+    setEditingId(rule.id!);
+    setForm({
+      name: rule.name,
+      reference_pattern: rule.reference_pattern || '',
+      account_id: rule.account_id || '',
+      direction: rule.direction || '',
+      min_amount: rule.min_amount?.toString() ?? '',
+      max_amount: rule.max_amount?.toString() ?? '',
+      transaction_type: rule.transaction_type || '',
+      notes: rule.notes || '',
+      priority: rule.priority.toString(),
+    });
+  };
+
+  const handleToggle = async (rule: TransactionCategorisationRule) => {
+    try {
+      await window.electronAPI.updateCategorisationRule(rule.id!, { ...rule, is_active: !rule.is_active });
+      await loadRules();
+    } catch (err) {
+      console.error('Error updating categorisation rule:', err);
+      setError('Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: TransactionCategorisationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Transactions it has already categorised are unchanged.`)) {
+      return;
+    }
+    try {
+      await window.electronAPI.deleteCategorisationRule(rule.id!);
+      if (editingId === rule.id) {
+        setEditingId(null);
+        setForm(emptyForm);
+      }
+      await loadRules();
+    } catch (err) {
+      console.error('Error deleting categorisation rule:', err);
+      setError('Failed to delete rule');
+    }
+  };
+
+  const updateForm = (updates: Partial<RuleForm>) => setForm(prev => ({ ...prev, ...updates }));
+  const canSave = form.name.trim() !== '' && (form.transaction_type !== '' || form.notes.trim() !== '');
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CategoryIcon />
+          Transaction Categorisation Rules
+        </Typography>
+
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Imported and statement transactions take their type and notes from the first active rule they
+          match, lowest priority first. A rule only sets a type the account allows; the pattern is a
+          case-insensitive regular expression tested against the reference and notes.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={2}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : rules.length === 0 ? (
+          <Typography variant="body2" color="textSecondary">No rules defined.</Typography>
+        ) : (
+          <List dense>
+            {rules.map(rule => (
+              <ListItem key={rule.id} sx={{ opacity: rule.is_active ? 1 : 0.6, pr: 16 }}>
+                <ListItemText primary={rule.name} secondary={describeRule(rule)} />
+                <ListItemSecondaryAction>
+                  <Tooltip title={rule.is_active ? 'Active' : 'Inactive'}>
+                    <Switch size="small" checked={rule.is_active} onChange={() => handleToggle(rule)} />
+                  </Tooltip>
+                  <Tooltip title="Edit">
+                    <IconButton onClick={() => handleEdit(rule)}>
+                      <EditIcon />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton edge="end" onClick={() => handleDelete(rule)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Tooltip>
+                </ListItemSecondaryAction>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={2} mt={2}>
+          <TextField
+            size="small"
+            label="Rule name"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Reference pattern"
+            placeholder="e.g. GROSS\s+INT"
+            value={form.reference_pattern}
+            onChange={(e) => updateForm({ reference_pattern: e.target.value })}
+          />
+          <FormControl size="small">
+            <InputLabel>Account</InputLabel>
+            <Select
+              label="Account"
+              value={form.account_id}
+              onChange={(e) => updateForm({ account_id: e.target.value === '' ? '' : Number(e.target.value) })}
+            >
+              <MenuItem value="">Any account</MenuItem>
+              {accounts.map(account => (
+                <MenuItem key={account.id} value={account.id}>{accountLabel(account.id!)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small">
+            <InputLabel>Direction</InputLabel>
+            <Select
+              label="Direction"
+              value={form.direction}
+              onChange={(e) => updateForm({ direction: e.target.value as CategorisationRuleDirection | '' })}
+            >
+              <MenuItem value="">Credits and debits</MenuItem>
+              <MenuItem value="credit">Credits</MenuItem>
+              <MenuItem value="debit">Debits</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label="Minimum amount"
+            value={form.min_amount}
+            onChange={(e) => updateForm({ min_amount: e.target.value })}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Maximum amount"
+            value={form.max_amount}
+            onChange={(e) => updateForm({ max_amount: e.target.value })}
+          />
+          <FormControl size="small">
+            <InputLabel>Set type</InputLabel>
+            <Select
+              label="Set type"
+              value={form.transaction_type}
+              onChange={(e) => updateForm({ transaction_type: e.target.value as TransactionType | '' })}
+            >
+              <MenuItem value="">Leave unchanged</MenuItem>
+              {RULE_TYPES.map(type => (
+                <MenuItem key={type} value={type}>{formatTransactionType(type)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label="Set notes"
+            value={form.notes}
+            onChange={(e) => updateForm({ notes: e.target.value })}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Priority"
+            value={form.priority}
+            onChange={(e) => updateForm({ priority: e.target.value })}
+          />
+        </Box>
+
+        <Box display="flex" gap={2} mt={2}>
+          <Button
+            variant="outlined"
+            startIcon={editingId !== null ? <SaveIcon /> : <AddIcon />}
+            onClick={handleSave}
+            disabled={!canSave}
+          >
+            {editingId !== null ? 'Save Rule' : 'Add Rule'}
+          </Button>
+          {editingId !== null && (
+            <Button
+              onClick={() => {
+                setEditingId(null);
+                setForm(emptyForm);
+              }}
+            >
+              Cancel
+            </Button>
+          )}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
@@ -14,6 +14,7 @@ import {
   Badge,
   Stack,
   Button,
+  LinearProgress,
 } from '@mui/material';
 import {
   Warning as WarningIcon,
@@ -26,6 +27,7 @@ import {
   EventNote as ReminderIcon,
   CheckCircle as CompleteIcon,
   FileUpload as ImportIcon,
+  Shield as ProtectionIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 
@@ -59,6 +61,15 @@ interface DashboardNotifications {
     date: string;
     description?: string;
   }>;
+  thb_protections?: Array<{
+    id: number;
+    bank: string;
+    reason: string;
+    protected_amount: number;
+    start_date: string;
+    expiry_date: string;
+    days_remaining: number;
+  }>;
   summary_counts: {
     overdue_actions: number;
     urgent_actions: number;
@@ -119,6 +130,20 @@ export const NotificationCards: React.FC<NotificationCardsProps> = ({ notificati
     navigate('/calendar');
   };
 
+  const getProtectionElapsed = (startDate: string, expiryDate: string): number => {
+    const start = new Date(startDate).getTime();
+    const windowLength = new Date(expiryDate).getTime() - start;
+    if (windowLength <= 0) return 100;
+    return Math.min(100, Math.max(0, ((Date.now() - start) / windowLength) * 100));
+  };
+
+  const formatReason = (reason: string): string => {
+    const label = reason.replace(/_/g, ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
+  const thbProtections = notifications.thb_protections || [];
+
   const handleNavigateToReports = () => {
     navigate('/calendar?tab=reports');
   };
@@ -411,6 +436,56 @@ export const NotificationCards: React.FC<NotificationCardsProps> = ({ notificati
             )}
           </CardContent>
         </Card>
+
+        {/* Temporary High Balance Countdown Card */}
+        {thbProtections.length > 0 && (
+          <Card sx={{ height: 'fit-content', gridColumn: '1 / -1' }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                  <Badge
+                    badgeContent={thbProtections.length}
+                    color="info"
+                    sx={{ mr: 1 }}
+                  >
+                    <ProtectionIcon color="info" />
+                  </Badge>
+                  <Typography variant="h6">
+                    Temporary High Balance Protection
+                  </Typography>
+                </Box>
+                <IconButton size="small" onClick={handleNavigateToCalendar}>
+                  <ChevronRightIcon />
+                </IconButton>
+              </Box>
+
+              <Stack spacing={2}>
+                {thbProtections.map((thb) => (
+                  <Box key={thb.id}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 0.5 }}>
+                      <Typography variant="body2">
+                        {thb.bank} • {formatReason(thb.reason)} • {formatCurrency(thb.protected_amount)}
+                      </Typography>
+                      <Chip
+                        label={`${thb.days_remaining}d left`}
+                        color={thb.days_remaining <= 14 ? 'error' : thb.days_remaining <= 30 ? 'warning' : 'info'}
+                        size="small"
+                      />
+                    </Box>
+                    <LinearProgress
+                      variant="determinate"
+                      value={getProtectionElapsed(thb.start_date, thb.expiry_date)}
+                      color={thb.days_remaining <= 30 ? 'warning' : 'primary'}
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                      Protected until {formatDate(thb.expiry_date)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
       </Box>
     </Box>
   );
@@ -31,9 +31,10 @@ import {
   CheckCircle as CompleteIcon,
   Close as DismissIcon,
   Warning as OverdueIcon,
-  MonetizationOn as MaturityIcon
+  MonetizationOn as MaturityIcon,
+  Shield as ProtectionIcon
 } from '@mui/icons-material';
-import { RateChange, NoticeEvent, Reminder } from '@cash-mgmt/shared';
+import { RateChange, NoticeEvent, Reminder, TemporaryHighBalance, TemporaryHighBalanceReason } from '@cash-mgmt/shared';
 
 // Rate Change Dialog Component
 interface RateChangeDialogProps {
@@ -657,6 +658,215 @@ export const CustomReminderDialog: React.FC<CustomReminderDialogProps> = ({
   );
 };
 
+// Temporary High Balance Dialog Component
+interface TemporaryHighBalanceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (thb: Omit<TemporaryHighBalance, 'id' | 'created_at'>) => Promise<void>;
+  accounts?: Array<{id: number, bank: string, account_name?: string, type: string, balance: number}>;
+  pendingDeposits?: Array<{id: number, bank: string, account_name?: string, type?: string, balance: number}>;
+  selectedDate?: string;
+}
+
+const THB_REASONS: Array<{ value: TemporaryHighBalanceReason, label: string }> = [
+  { value: 'property_sale', label: 'Property Sale' },
+  { value: 'inheritance', label: 'Inheritance' },
+  { value: 'insurance_payout', label: 'Insurance Payout' },
+  { value: 'compensation', label: 'Compensation' },
+  { value: 'pension_lump_sum', label: 'Pension Lump Sum' },
+  { value: 'redundancy', label: 'Redundancy' },
+  { value: 'marriage_divorce', label: 'Marriage / Divorce' },
+  { value: 'other', label: 'Other Life Event' }
+];
+
+export const TemporaryHighBalanceDialog: React.FC<TemporaryHighBalanceDialogProps> = ({
+  open,
+  onClose,
+  onSubmit,
+  accounts = [],
+  pendingDeposits = [],
+  selectedDate
+}) => {
+  const [formData, setFormData] = useState({
+    reason: 'property_sale' as TemporaryHighBalanceReason,
+    start_date: selectedDate || new Date().toISOString().split('T')[0],
+    expiry_date: '',
+    protected_amount: '',
+    notes: ''
+  });
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<any>(null);
+
+  const accountOptions = [
+    ...accounts.map(acc => ({ ...acc, kind: 'deposit' as const })),
+    ...pendingDeposits.map(pd => ({ ...pd, kind: 'pending' as const }))
+  ];
+
+  const handleSubmit = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!selectedAccount) {
+        setError('Please select an account or pending deposit');
+        return;
+      }
+
+      const protectedAmount = parseFloat(formData.protected_amount);
+      if (!protectedAmount || protectedAmount <= 0) {
+        setError('Please enter the amount to protect');
+        return;
+      }
+
+      await onSubmit({
+        deposit_id: selectedAccount.kind === 'deposit' ? selectedAccount.id : null,
+        pending_deposit_id: selectedAccount.kind === 'pending' ? selectedAccount.id : null,
+        reason: formData.reason,
+        start_date: formData.start_date,
+        ...(formData.expiry_date ? { expiry_date: formData.expiry_date } : {}),
+        protected_amount: protectedAmount,
+        notes: formData.notes || null
+      });
+
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record temporary high balance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData({
+      reason: 'property_sale',
+      start_date: selectedDate || new Date().toISOString().split('T')[0],
+      expiry_date: '',
+      protected_amount: '',
+      notes: ''
+    });
+    setSelectedAccount(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleAccountChange = (account: any) => {
+    setSelectedAccount(account);
+    setFormData(prev => ({
+      ...prev,
+      protected_amount: account?.balance?.toString() || ''
+    }));
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ProtectionIcon color="primary" />
+          Record Temporary High Balance
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Alert severity="info">
+            FSCS protects qualifying lump sums above the standard limit for a limited period
+            after they are received. The balance is treated as protected until the window ends.
+          </Alert>
+
+          <Autocomplete
+            options={accountOptions}
+            groupBy={(option) => option.kind === 'deposit' ? 'Accounts' : 'Pending Deposits'}
+            getOptionLabel={(option) => `${option.bank} - ${option.account_name || option.type || 'Pending'} (£${option.balance?.toLocaleString()})`}
+            isOptionEqualToValue={(option, value) => option.kind === value.kind && option.id === value.id}
+            value={selectedAccount}
+            onChange={(_, newValue) => handleAccountChange(newValue)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Account Holding the Funds"
+                required
+                fullWidth
+              />
+            )}
+          />
+
+          <FormControl fullWidth>
+            <InputLabel>Reason</InputLabel>
+            <Select
+              value={formData.reason}
+              onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value as TemporaryHighBalanceReason }))}
+              label="Reason"
+            >
+              {THB_REASONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Funds Received"
+            type="date"
+            value={formData.start_date}
+            onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+            InputLabelProps={{ shrink: true }}
+            required
+            fullWidth
+          />
+
+          <TextField
+            label="Protection Ends"
+            type="date"
+            value={formData.expiry_date}
+            onChange={(e) => setFormData(prev => ({ ...prev, expiry_date: e.target.value }))}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            helperText="Leave blank to use the configured protection window"
+          />
+
+          <TextField
+            label="Protected Amount"
+            type="number"
+            inputProps={{ step: 0.01, min: 0 }}
+            InputProps={{
+              startAdornment: <InputAdornment position="start">£</InputAdornment>
+            }}
+            value={formData.protected_amount}
+            onChange={(e) => setFormData(prev => ({ ...prev, protected_amount: e.target.value }))}
+            required
+            fullWidth
+            helperText="Cap on the amount covered above the standard FSCS limit"
+          />
+
+          <TextField
+            label="Notes"
+            multiline
+            rows={3}
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="e.g. completion statement reference..."
+            fullWidth
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading || !selectedAccount}
+        >
+          {loading ? 'Saving...' : 'Record Protection'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
 // Event Details Dialog Component - for viewing events from Month view
 interface CalendarEvent {
   id: string;
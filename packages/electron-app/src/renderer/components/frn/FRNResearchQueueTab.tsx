@@ -31,6 +31,12 @@ import {
   Info as InfoIcon,
 } from '@mui/icons-material';
 
+interface CandidateMatch {
+  frn: string;
+  name: string;
+  score: number;
+}
+
 interface ResearchItem {
   rowid: number;
   bank_name: string;
@@ -49,6 +55,7 @@ interface ResearchItem {
   research_status: string | null;
   research_date: string | null;
   applied_date: string | null;
+  candidates: CandidateMatch[]; // Closest institutions from fuzzy matching
 }
 
 interface CompleteFormData {
@@ -206,6 +213,32 @@ const FRNResearchQueueTab: React.FC = () => {
     },
   ];
 
+  // Runner-up candidates for items still being researched
+  if (status === 'pending') {
+    columns.push({
+      field: 'candidates',
+      headerName: 'Closest Matches',
+      flex: 1,
+      minWidth: 220,
+      sortable: false,
+      renderCell: (params: GridRenderCellParams) => {
+        const candidates: CandidateMatch[] = params.value || [];
+        if (candidates.length === 0) {
+          return <Typography variant="body2" color="text.secondary">No match</Typography>;
+        }
+        return (
+          <Box sx={{ display: 'flex', gap: 0.5, overflow: 'hidden' }}>
+            {candidates.map(candidate => (
+              <Tooltip key={candidate.frn} title={`FRN ${candidate.frn}`}>
+                <Chip size="small" variant="outlined" label={`${candidate.name} ${Math.round(candidate.score * 100)}%`} />
+              </Tooltip>
+            ))}
+          </Box>
+        );
+      },
+    });
+  }
+
   // Additional columns for completed items
   if (status === 'completed') {
     columns.push(
@@ -360,6 +393,26 @@ const FRNResearchQueueTab: React.FC = () => {
               </Alert>
             )}
             
+            {/* Closest institutions - selecting one fills in the form */}
+            {selectedItem && selectedItem.candidates?.length > 0 && (
+              <Box>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Closest matches
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {selectedItem.candidates.map(candidate => (
+                    <Chip
+                      key={candidate.frn}
+                      label={`${candidate.name} (${candidate.frn}) ${Math.round(candidate.score * 100)}%`}
+                      onClick={() => setFormData({ ...formData, frn: candidate.frn, firmName: candidate.name })}
+                      color={formData.frn === candidate.frn ? 'primary' : 'default'}
+                      variant={formData.frn === candidate.frn ? 'filled' : 'outlined'}
+                    />
+                  ))}
+                </Box>
+              </Box>
+            )}
+
             <TextField
               label="FRN"
               value={formData.frn}
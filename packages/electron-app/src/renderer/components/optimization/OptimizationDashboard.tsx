@@ -49,6 +49,7 @@ import { useOptimization } from '../../contexts/OptimizationContext';
 import ProgressBar from './ProgressBar';
 import ResultsDisplay from './ResultsDisplay';
 import ActionItemsList from './ActionItemsList';
+import ScenarioEditor from './ScenarioEditor';
 import OptimizationConflictDialog from './OptimizationConflictDialog';
 import { OptimizationConflictService } from '../../services/optimizationConflictService';
 import { OptimizationConflict } from '@cash-mgmt/shared';
@@ -118,6 +119,7 @@ const OptimizationDashboard: React.FC = () => {
     excludeShariaBanks: false,
     minBenefit: 100,
     minMoveAmount: 1000,
+    horizonMonths: 12,
   });
   
   // FRN Products configuration state
@@ -547,6 +549,7 @@ const OptimizationDashboard: React.FC = () => {
               <Tab label="Results" />
               <Tab label="Action Items" />
               <Tab label="History" />
+              <Tab label="What-If" />
             </Tabs>
             
             <TabPanel value={activeTab} index={0}>
@@ -592,6 +595,12 @@ const OptimizationDashboard: React.FC = () => {
                 </Alert>
               </Box>
             </TabPanel>
+            
+            <TabPanel value={activeTab} index={3}>
+              <Box p={2}>
+                <ScenarioEditor optimizerOptions={optimizerOptions} />
+              </Box>
+            </TabPanel>
           </Card>
         </Grid>
       </Grid>
@@ -667,6 +676,22 @@ const OptimizationDashboard: React.FC = () => {
                 marks
               />
             </Box>
+            <Box mt={2}>
+              <Typography gutterBottom>
+                Benefit Horizon: {optimizerOptions.horizonMonths} months
+              </Typography>
+              <Slider
+                value={optimizerOptions.horizonMonths}
+                onChange={(e, value) => setOptimizerOptions({ ...optimizerOptions, horizonMonths: value as number })}
+                min={3}
+                max={36}
+                step={3}
+                marks
+              />
+              <Typography variant="caption" color="text.secondary">
+                Recommendations are ranked on their gain over this period, after transfer time, exit penalties and bonus rates ending
+              </Typography>
+            </Box>
           </Box>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,412 @@
+/**
+ * ScenarioEditor Component - What-if scenarios for the rate optimizer
+ *
+ * Builds an overlay of hypothetical deposits, withdrawals, rate changes and
+ * excluded institutions, runs the optimizer and FSCS check against it and
+ * compares the result with the current portfolio. Nothing is saved.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Grid,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Alert,
+  Chip,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  PlayArrow as RunIcon,
+} from '@mui/icons-material';
+import { Deposit, ScenarioOverlay } from '@cash-mgmt/shared';
+
+interface DepositRow {
+  bankName: string;
+  frn: string;
+  amount: string;
+  rate: string;
+}
+
+interface WithdrawalRow {
+  accountId: string;
+  amount: string; // Blank withdraws the whole balance
+}
+
+interface RateChangeRow {
+  target: 'frn' | 'bankName' | 'accountId';
+  value: string;
+  newRate: string;
+}
+
+interface ScenarioSnapshot {
+  accountCount: number;
+  totalValue: number;
+  weightedAverageRate: number;
+  annualInterest: number;
+  recommendations: any[];
+  totalBenefit: number;
+  compliance: {
+    status: 'COMPLIANT' | 'WARNING' | 'BREACH';
+    breachCount: number;
+    warningCount: number;
+    totalAtRisk: number;
+    breachedFRNs: string[];
+  };
+}
+
+interface ScenarioResult {
+  baseline: ScenarioSnapshot;
+  scenario: ScenarioSnapshot;
+  diff: {
+    addedRecommendations: any[];
+    removedRecommendations: any[];
+    newBreaches: string[];
+    resolvedBreaches: string[];
+  };
+  warnings: string[];
+}
+
+interface ScenarioEditorProps {
+  optimizerOptions: Record<string, any>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ optimizerOptions }) => {
+  const [accounts, setAccounts] = useState<Deposit[]>([]);
+  const [name, setName] = useState('');
+  const [deposits, setDeposits] = useState<DepositRow[]>([]);
+  const [withdrawals, setWithdrawals] = useState<WithdrawalRow[]>([]);
+  const [rateChanges, setRateChanges] = useState<RateChangeRow[]>([]);
+  const [excludedFRNs, setExcludedFRNs] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+
+  useEffect(() => {
+    const loadAccounts = async () => {
+      try {
+        const depositsData: Deposit[] = await window.electronAPI.getAllDeposits();
+        setAccounts(depositsData.filter(d => d.is_active && (d.balance || 0) > 0));
+      } catch (err) {
+        console.error('Failed to load deposits for scenarios:', err);
+      }
+    };
+    loadAccounts();
+  }, []);
+
+  const buildOverlay = (): ScenarioOverlay => {
+    const overlay: ScenarioOverlay = {};
+    if (name.trim()) overlay.name = name.trim();
+
+    const validDeposits = deposits.filter(d => d.bankName && d.frn && Number(d.amount) > 0);
+    if (validDeposits.length > 0) {
+      overlay.deposits = validDeposits.map(d => ({
+        bankName: d.bankName,
+        frn: d.frn,
+        amount: Number(d.amount),
+        rate: Number(d.rate) || 0,
+      }));
+    }
+
+    const validWithdrawals = withdrawals.filter(w => w.accountId);
+    if (validWithdrawals.length > 0) {
+      overlay.withdrawals = validWithdrawals.map(w => ({
+        accountId: w.accountId,
+        ...(w.amount ? { amount: Number(w.amount) } : {}),
+      }));
+    }
+
+    const validRateChanges = rateChanges.filter(r => r.value && r.newRate !== '');
+    if (validRateChanges.length > 0) {
+      overlay.rateChanges = validRateChanges.map(r => ({
+        [r.target]: r.value,
+        newRate: Number(r.newRate),
+      }));
+    }
+
+    const frns = excludedFRNs.split(',').map(frn => frn.trim()).filter(frn => frn);
+    if (frns.length > 0) overlay.excludedFRNs = frns;
+
+    return overlay;
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await window.electronAPI.runOptimizationScenario(buildOverlay(), optimizerOptions);
+      if (response.success && response.data?.metadata?.scenario) {
+        setResult(response.data.metadata.scenario);
+      } else {
+        throw new Error(response.error || 'Scenario simulation failed');
+      }
+    } catch (err: any) {
+      setError(err.message);
+      setResult(null);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const updateRow = <T,>(rows: T[], index: number, changes: Partial<T>): T[] =>
+    rows.map((row, i) => (i === index ? { ...row, ...changes } : row));
+
+  const accountLabel = (accountId: string) => {
+    const account = accounts.find(a => String(a.id) === accountId);
+    return account ? `${account.bank} (${formatCurrency(account.balance || 0)})` : accountId;
+  };
+
+  const renderComparisonRow = (label: string, baseline: number, scenario: number, format: (value: number) => string) => {
+    const change = scenario - baseline;
+    return (
+      <TableRow key={label}>
+        <TableCell>{label}</TableCell>
+        <TableCell align="right">{format(baseline)}</TableCell>
+        <TableCell align="right">{format(scenario)}</TableCell>
+        <TableCell align="right" sx={{ color: change > 0 ? 'success.main' : change < 0 ? 'error.main' : undefined }}>
+          {change > 0 ? '+' : ''}{format(change)}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Try out changes to your portfolio and see how recommendations and FSCS compliance would change. Nothing is saved.
+      </Typography>
+
+      <TextField
+        label="Scenario name"
+        size="small"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        sx={{ mt: 1, mb: 2, minWidth: 300 }}
+      />
+
+      {/* Deposits */}
+      <Typography variant="subtitle1" fontWeight="bold">New Deposits</Typography>
+      {deposits.map((row, index) => (
+        <Grid container spacing={1} key={`deposit-${index}`} alignItems="center" sx={{ mb: 1 }}>
+          <Grid item xs={3}>
+            <TextField fullWidth size="small" label="Bank" value={row.bankName}
+              onChange={(e) => setDeposits(updateRow(deposits, index, { bankName: e.target.value }))} />
+          </Grid>
+          <Grid item xs={3}>
+            <TextField fullWidth size="small" label="FRN" value={row.frn}
+              onChange={(e) => setDeposits(updateRow(deposits, index, { frn: e.target.value }))} />
+          </Grid>
+          <Grid item xs={3}>
+            <TextField fullWidth size="small" type="number" label="Amount (£)" value={row.amount}
+              onChange={(e) => setDeposits(updateRow(deposits, index, { amount: e.target.value }))} />
+          </Grid>
+          <Grid item xs={2}>
+            <TextField fullWidth size="small" type="number" label="Rate (%)" value={row.rate}
+              onChange={(e) => setDeposits(updateRow(deposits, index, { rate: e.target.value }))} />
+          </Grid>
+          <Grid item xs={1}>
+            <IconButton size="small" onClick={() => setDeposits(deposits.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        </Grid>
+      ))}
+      <Button size="small" startIcon={<AddIcon />} sx={{ mb: 2 }}
+        onClick={() => setDeposits([...deposits, { bankName: '', frn: '', amount: '', rate: '' }])}>
+        Add Deposit
+      </Button>
+
+      {/* Withdrawals */}
+      <Typography variant="subtitle1" fontWeight="bold">Withdrawals</Typography>
+      {withdrawals.map((row, index) => (
+        <Grid container spacing={1} key={`withdrawal-${index}`} alignItems="center" sx={{ mb: 1 }}>
+          <Grid item xs={6}>
+            <TextField select fullWidth size="small" label="Account" value={row.accountId}
+              onChange={(e) => setWithdrawals(updateRow(withdrawals, index, { accountId: e.target.value }))}>
+              {accounts.map(account => (
+                <MenuItem key={account.id} value={String(account.id)}>
+                  {accountLabel(String(account.id))}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={5}>
+            <TextField fullWidth size="small" type="number" label="Amount (£)" value={row.amount}
+              helperText="Leave blank to withdraw the whole balance"
+              onChange={(e) => setWithdrawals(updateRow(withdrawals, index, { amount: e.target.value }))} />
+          </Grid>
+          <Grid item xs={1}>
+            <IconButton size="small" onClick={() => setWithdrawals(withdrawals.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        </Grid>
+      ))}
+      <Button size="small" startIcon={<AddIcon />} sx={{ mb: 2 }}
+        onClick={() => setWithdrawals([...withdrawals, { accountId: '', amount: '' }])}>
+        Add Withdrawal
+      </Button>
+
+      {/* Rate changes */}
+      <Typography variant="subtitle1" fontWeight="bold">Rate Changes</Typography>
+      {rateChanges.map((row, index) => (
+        <Grid container spacing={1} key={`rate-${index}`} alignItems="center" sx={{ mb: 1 }}>
+          <Grid item xs={3}>
+            <TextField select fullWidth size="small" label="Applies to" value={row.target}
+              onChange={(e) => setRateChanges(updateRow(rateChanges, index, {
+                target: e.target.value as RateChangeRow['target'],
+                value: '',
+              }))}>
+              <MenuItem value="frn">Institution (FRN)</MenuItem>
+              <MenuItem value="bankName">Bank name</MenuItem>
+              <MenuItem value="accountId">One of my accounts</MenuItem>
+            </TextField>
+          </Grid>
+          <Grid item xs={5}>
+            {row.target === 'accountId' ? (
+              <TextField select fullWidth size="small" label="Account" value={row.value}
+                onChange={(e) => setRateChanges(updateRow(rateChanges, index, { value: e.target.value }))}>
+                {accounts.map(account => (
+                  <MenuItem key={account.id} value={String(account.id)}>
+                    {accountLabel(String(account.id))}
+                  </MenuItem>
+                ))}
+              </TextField>
+            ) : (
+              <TextField fullWidth size="small" label={row.target === 'frn' ? 'FRN' : 'Bank'} value={row.value}
+                onChange={(e) => setRateChanges(updateRow(rateChanges, index, { value: e.target.value }))} />
+            )}
+          </Grid>
+          <Grid item xs={3}>
+            <TextField fullWidth size="small" type="number" label="New rate (%)" value={row.newRate}
+              onChange={(e) => setRateChanges(updateRow(rateChanges, index, { newRate: e.target.value }))} />
+          </Grid>
+          <Grid item xs={1}>
+            <IconButton size="small" onClick={() => setRateChanges(rateChanges.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        </Grid>
+      ))}
+      <Button size="small" startIcon={<AddIcon />} sx={{ mb: 2 }}
+        onClick={() => setRateChanges([...rateChanges, { target: 'frn', value: '', newRate: '' }])}>
+        Add Rate Change
+      </Button>
+
+      <TextField
+        fullWidth
+        size="small"
+        label="Exclude institutions (FRNs, comma-separated)"
+        value={excludedFRNs}
+        onChange={(e) => setExcludedFRNs(e.target.value)}
+        sx={{ mb: 2 }}
+      />
+
+      <Button
+        variant="contained"
+        startIcon={running ? <CircularProgress size={16} /> : <RunIcon />}
+        onClick={handleRun}
+        disabled={running}
+      >
+        {running ? 'Running Scenario...' : 'Run Scenario'}
+      </Button>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {result && (
+        <Box mt={3}>
+          <Divider sx={{ mb: 2 }} />
+          {result.warnings.map((warning, index) => (
+            <Alert severity="warning" key={index} sx={{ mb: 1 }}>
+              {warning}
+            </Alert>
+          ))}
+
+          <Paper variant="outlined" sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell align="right">Current</TableCell>
+                  <TableCell align="right">Scenario</TableCell>
+                  <TableCell align="right">Change</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {renderComparisonRow('Portfolio value', result.baseline.totalValue, result.scenario.totalValue, formatCurrency)}
+                {renderComparisonRow('Weighted average rate', result.baseline.weightedAverageRate, result.scenario.weightedAverageRate, v => `${v.toFixed(2)}%`)}
+                {renderComparisonRow('Annual interest', result.baseline.annualInterest, result.scenario.annualInterest, formatCurrency)}
+                {renderComparisonRow('Recommendations', result.baseline.recommendations.length, result.scenario.recommendations.length, v => String(v))}
+                {renderComparisonRow('Recommendation benefit (per year)', result.baseline.totalBenefit, result.scenario.totalBenefit, formatCurrency)}
+                {renderComparisonRow('FSCS breaches', result.baseline.compliance.breachCount, result.scenario.compliance.breachCount, v => String(v))}
+                {renderComparisonRow('Amount at risk', result.baseline.compliance.totalAtRisk, result.scenario.compliance.totalAtRisk, formatCurrency)}
+              </TableBody>
+            </Table>
+          </Paper>
+
+          <Typography variant="subtitle2" gutterBottom>Recommendation changes</Typography>
+          {result.diff.addedRecommendations.length === 0 && result.diff.removedRecommendations.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              The scenario makes the same recommendations as the current portfolio.
+            </Typography>
+          ) : (
+            <Box mb={2}>
+              {result.diff.addedRecommendations.map((rec, index) => (
+                <Typography variant="body2" key={`added-${index}`} color="success.main">
+                  + {rec.source.bankName} → {rec.target.bankName}: {formatCurrency(rec.source.amount)} ({formatCurrency(rec.benefits.annualBenefit)}/year)
+                </Typography>
+              ))}
+              {result.diff.removedRecommendations.map((rec, index) => (
+                <Typography variant="body2" key={`removed-${index}`} color="error.main">
+                  − {rec.source.bankName} → {rec.target.bankName}: {formatCurrency(rec.source.amount)}
+                </Typography>
+              ))}
+            </Box>
+          )}
+
+          <Typography variant="subtitle2" gutterBottom>FSCS compliance</Typography>
+          <Box display="flex" gap={1} flexWrap="wrap">
+            <Chip size="small" label={`Current: ${result.baseline.compliance.status}`} />
+            <Chip
+              size="small"
+              label={`Scenario: ${result.scenario.compliance.status}`}
+              color={result.scenario.compliance.status === 'BREACH' ? 'error' : result.scenario.compliance.status === 'WARNING' ? 'warning' : 'success'}
+            />
+            {result.diff.newBreaches.map(frn => (
+              <Chip key={`new-${frn}`} size="small" color="error" variant="outlined" label={`New breach: FRN ${frn}`} />
+            ))}
+            {result.diff.resolvedBreaches.map(frn => (
+              <Chip key={`resolved-${frn}`} size="small" color="success" variant="outlined" label={`Resolved: FRN ${frn}`} />
+            ))}
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  Link,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { AccountDocument, Deposit, DepositRateHistoryEntry, DepositRateSource } from '@cash-mgmt/shared';
+
+interface RateHistoryPanelProps {
+  account: Deposit;
+  onChanged?: () => void;
+}
+
+const sourceLabels: Record<DepositRateSource, string> = {
+  bank_letter: 'Bank letter',
+  document: 'Document',
+  manual: 'Manual',
+  rate_change: 'Rate change',
+};
+
+const entrySources: DepositRateSource[] = ['bank_letter', 'document', 'manual'];
+
+/**
+ * Every rate the account has paid with its effective date and source, and a
+ * form to record a rate from a letter or uploaded document
+ */
+export const RateHistoryPanel: React.FC<RateHistoryPanelProps> = ({ account, onChanged }) => {
+  const [history, setHistory] = useState<DepositRateHistoryEntry[]>([]);
+  const [documents, setDocuments] = useState<AccountDocument[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [aer, setAer] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(new Date().toISOString().split('T')[0]);
+  const [source, setSource] = useState<DepositRateSource>('bank_letter');
+  const [documentId, setDocumentId] = useState<number | ''>('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    loadHistory();
+    loadDocuments();
+  }, [account.id]);
+
+  const loadHistory = async () => {
+    if (account.id === undefined) return;
+    try {
+      setHistory(await window.electronAPI.getDepositRateHistory(account.id) || []);
+    } catch (err) {
+      console.error('Failed to load rate history:', err);
+      setError('Failed to load rate history');
+    }
+  };
+
+  const loadDocuments = async () => {
+    if (account.id === undefined) return;
+    try {
+      const result = await window.electronAPI.documents.list(account.id);
+      setDocuments(result.success ? result.data || [] : []);
+    } catch (err) {
+      console.error('Failed to load account documents:', err);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (account.id === undefined) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await window.electronAPI.recordDepositRate({
+        deposit_id: account.id,
+        aer: parseFloat(aer),
+        effective_from: effectiveFrom,
+        source,
+        document_id: documentId === '' ? null : documentId,
+        notes: notes || null,
+      });
+      setAer('');
+      setNotes('');
+      setDocumentId('');
+      await loadHistory();
+      onChanged?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to record rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    try {
+      await window.electronAPI.deleteDepositRate(id);
+      await loadHistory();
+      onChanged?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete rate');
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const rateValid = aer !== '' && !isNaN(parseFloat(aer));
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="subtitle1">Rate History</Typography>
+
+      {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+
+      {history.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No rates recorded for this account yet.</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Effective From</TableCell>
+              <TableCell align="right">AER</TableCell>
+              <TableCell>Source</TableCell>
+              <TableCell>Document</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {[...history].reverse().map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  {new Date(entry.effective_from).toLocaleDateString('en-GB')}
+                  {entry.effective_from > today && (
+                    <Chip label="Scheduled" size="small" color="info" variant="outlined" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell align="right">{entry.aer.toFixed(2)}%</TableCell>
+                <TableCell>
+                  <Chip label={sourceLabels[entry.source] || entry.source} size="small" variant="outlined" />
+                </TableCell>
+                <TableCell>
+                  {entry.document_id ? (
+                    <Link component="button" variant="body2" onClick={() => window.electronAPI.documents.view(entry.document_id!)}>
+                      {entry.document_title || 'View document'}
+                    </Link>
+                  ) : (
+                    ''
+                  )}
+                </TableCell>
+                <TableCell>{entry.notes}</TableCell>
+                <TableCell align="right">
+                  {entry.source !== 'rate_change' && entry.id !== undefined && (
+                    <IconButton size="small" onClick={() => handleDelete(entry.id!)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Box display="grid" gridTemplateColumns="repeat(4, 1fr)" gap={2}>
+        <TextField
+          label="AER (%)"
+          type="number"
+          size="small"
+          value={aer}
+          onChange={(e) => setAer(e.target.value)}
+          inputProps={{ step: 0.01 }}
+        />
+        <TextField
+          label="Effective From"
+          type="date"
+          size="small"
+          value={effectiveFrom}
+          onChange={(e) => setEffectiveFrom(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <FormControl size="small">
+          <InputLabel>Source</InputLabel>
+          <Select value={source} label="Source" onChange={(e) => setSource(e.target.value as DepositRateSource)}>
+            {entrySources.map(option => (
+              <MenuItem key={option} value={option}>{sourceLabels[option]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small">
+          <InputLabel>Document</InputLabel>
+          <Select
+            value={documentId}
+            label="Document"
+            onChange={(e) => setDocumentId(e.target.value === '' ? '' : Number(e.target.value))}
+          >
+            <MenuItem value="">None</MenuItem>
+            {documents.map(document => (
+              <MenuItem key={document.id} value={document.id}>{document.document_title}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <Stack direction="row" spacing={2} alignItems="center">
+        <TextField
+          label="Notes"
+          size="small"
+          fullWidth
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <Button variant="contained" onClick={handleAdd} disabled={!rateValid || !effectiveFrom || saving}>
+          Record Rate
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
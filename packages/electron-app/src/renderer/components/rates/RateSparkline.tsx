@@ -0,0 +1,57 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { SparkLineChart } from '@mui/x-charts/SparkLineChart';
+import { DepositRateHistoryEntry } from '@cash-mgmt/shared';
+
+interface RateSparklineProps {
+  history: DepositRateHistoryEntry[];
+  currentRate: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Step line of an account's rates from its first recorded rate to today,
+ * spaced by effective date
+ */
+export const RateSparkline: React.FC<RateSparklineProps> = ({
+  history,
+  currentRate,
+  width = 90,
+  height = 28
+}) => {
+  const today = new Date().toISOString().split('T')[0];
+  const entries = history.filter(entry => entry.effective_from <= today);
+
+  if (entries.length < 2) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        {entries.length === 0 ? 'No history' : `Since ${new Date(entries[0].effective_from).toLocaleDateString('en-GB')}`}
+      </Typography>
+    );
+  }
+
+  const dates = [...entries.map(entry => new Date(entry.effective_from)), new Date(today)];
+  const rates = [...entries.map(entry => entry.aer), currentRate];
+  const first = entries[0].aer;
+  const trendColor = currentRate > first ? '#2e7d32' : currentRate < first ? '#d32f2f' : '#1976d2';
+
+  return (
+    <Tooltip
+      title={entries
+        .map(entry => `${new Date(entry.effective_from).toLocaleDateString('en-GB')}: ${entry.aer.toFixed(2)}%`)
+        .join(' → ')}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+        <SparkLineChart
+          data={rates}
+          xAxis={{ data: dates, scaleType: 'time' }}
+          curve="stepAfter"
+          width={width}
+          height={height}
+          colors={[trendColor]}
+        />
+      </Box>
+    </Tooltip>
+  );
+};
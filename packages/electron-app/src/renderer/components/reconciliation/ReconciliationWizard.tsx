@@ -16,11 +16,13 @@ import {
   CircularProgress,
   Chip
 } from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
 import { format } from 'date-fns';
 import { Deposit } from '@cash-mgmt/shared';
 import { ReconciliationSession } from '@cash-mgmt/shared';
 import { TransactionMatching } from './TransactionMatching';
 import { StatementEntry, StatementTransaction } from './StatementEntry';
+import { StatementMatching, StatementSource } from './StatementMatching';
 
 interface ReconciliationWizardState {
   currentSession?: ReconciliationSession;
@@ -54,6 +56,8 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
   // Step 1: Statement details
   const [statementDate, setStatementDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [statementBalance, setStatementBalance] = useState('');
+  const [statement, setStatement] = useState<StatementSource | null>(null);
+  const [pastedLines, setPastedLines] = useState('');
   
   // Load wizard state when opening or when refresh trigger changes
   useEffect(() => {
@@ -66,7 +70,12 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const state = await window.electronAPI.getReconciliationWizardState(account.id!);
+      const currentSession = await window.electronAPI.getCurrentReconciliation(account.id!);
+      const history: ReconciliationSession[] = await window.electronAPI.getReconciliationHistory(account.id!);
+      const state: ReconciliationWizardState = {
+        currentSession: currentSession || undefined,
+        lastReconciliation: history.find(session => session.status === 'completed')
+      };
       setWizardState(state);
       
       // Load last reconciliation info
@@ -91,11 +100,20 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const sessionId = await window.electronAPI.startReconciliation(
+      const response = await window.electronAPI.startReconciliation(
         account.id!,
         statementDate,
         parseFloat(statementBalance)
       );
+      if (!response.success) {
+        setError(response.error || 'Failed to start reconciliation session');
+        return;
+      }
+
+      // Statement lines pasted rather than loaded from a file
+      if (!statement && pastedLines.trim()) {
+        setStatement({ content: pastedLines });
+      }
       
       // Reload wizard state with new session
       await loadWizardState();
@@ -108,6 +126,17 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
     }
   };
 
+  const handleSelectStatement = async () => {
+    setError(null);
+    const selected = await window.electronAPI.selectStatementFile();
+    if (selected.success) {
+      setStatement({ content: selected.content, file_name: selected.file_name });
+      setPastedLines('');
+    } else if (selected.error) {
+      setError(selected.error);
+    }
+  };
+
   const handleMarkReconciled = async (transactionIds: number[]) => {
     if (!wizardState?.currentSession) return;
 
@@ -158,6 +187,8 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
     setActiveStep(0);
     setStatementDate(format(new Date(), 'yyyy-MM-dd'));
     setStatementBalance('');
+    setStatement(null);
+    setPastedLines('');
     setWizardState(null);
     setError(null);
     onClose();
@@ -228,6 +259,36 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
                 </Typography>
               )}
             </Box>
+
+            <Divider sx={{ my: 3 }} />
+
+            <Typography variant="subtitle2" gutterBottom>
+              Statement Lines (optional)
+            </Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Load the statement or paste its rows, heading row included, to match each line against your transactions
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+              <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={handleSelectStatement}>
+                Load Statement File
+              </Button>
+              {statement?.file_name && (
+                <Chip label={statement.file_name} size="small" onDelete={() => setStatement(null)} />
+              )}
+            </Box>
+            {!statement && (
+              <TextField
+                label="Paste statement rows"
+                value={pastedLines}
+                onChange={(e) => setPastedLines(e.target.value)}
+                fullWidth
+                multiline
+                minRows={3}
+                maxRows={8}
+                margin="normal"
+                placeholder={'Date\tDescription\tAmount\n30/09/2026\tInterest\t12.34'}
+              />
+            )}
           </Box>
         );
 
@@ -235,7 +296,17 @@ export const ReconciliationWizard: React.FC<ReconciliationWizardProps> = ({
         // Step 2: Match Transactions
         return (
           <Box sx={{ mt: 2 }}>
-            {wizardState?.currentSession ? (
+            {wizardState?.currentSession && statement ? (
+              <StatementMatching
+                sessionId={wizardState.currentSession.id || 0}
+                statement={statement}
+                onApplied={async () => {
+                  // Refresh the session's discrepancy without leaving the matches
+                  const currentSession = await window.electronAPI.getCurrentReconciliation(account.id!);
+                  setWizardState(prev => ({ ...prev, currentSession: currentSession || undefined }));
+                }}
+              />
+            ) : wizardState?.currentSession ? (
               <TransactionMatching
                 accountId={account.id || 0}
                 sessionId={wizardState.currentSession?.id || 0}
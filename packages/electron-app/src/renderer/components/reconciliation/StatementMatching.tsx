@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Checkbox,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Grid,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  ReconciliationProposal,
+  StatementLineMatch,
+  StatementReconciliationResult,
+  TransactionType,
+  formatTransactionType
+} from '@cash-mgmt/shared';
+
+export interface StatementSource {
+  content: string;
+  file_name?: string;
+}
+
+interface StatementMatchingProps {
+  sessionId: number;
+  statement: StatementSource;
+  onApplied?: () => void;
+}
+
+const proposalTypes: TransactionType[] = ['deposit', 'withdrawal', 'interest', 'fee', 'adjustment'];
+
+/**
+ * Pairs the statement's lines with ledger transactions and proposes what is
+ * missing; the accepted matches and proposals are applied to the session
+ */
+export const StatementMatching: React.FC<StatementMatchingProps> = ({
+  sessionId,
+  statement,
+  onApplied
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<StatementReconciliationResult | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  useEffect(() => {
+    loadMatches();
+  }, [sessionId, statement]);
+
+  const loadMatches = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const matched: StatementReconciliationResult = await window.electronAPI.matchStatementLines(sessionId, {
+        content: statement.content,
+        file_name: statement.file_name
+      });
+      setResult(matched);
+      setApplied(false);
+    } catch (err) {
+      setError('Failed to match statement lines');
+      console.error('Error matching statement lines:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateMatch = (index: number, changes: Partial<StatementLineMatch>) => {
+    if (!result) return;
+    const matches = result.matches.map((match, i) => (i === index ? { ...match, ...changes } : match));
+    setResult({ ...result, matches });
+  };
+
+  const updateProposal = (index: number, changes: Partial<ReconciliationProposal>) => {
+    if (!result) return;
+    const proposals = result.proposals.map((proposal, i) => (i === index ? { ...proposal, ...changes } : proposal));
+    setResult({ ...result, proposals });
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.electronAPI.applyStatementMatches(sessionId, result);
+      if (!response.success) {
+        setError(response.error || 'Some statement matches could not be applied');
+      }
+      setApplied(true);
+      if (onApplied) {
+        onApplied();
+      }
+    } catch (err) {
+      setError('Failed to apply statement matches');
+      console.error('Error applying statement matches:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP'
+    }).format(amount);
+  };
+
+  const formatDate = (date?: string): string => {
+    if (!date) return '';
+    return format(new Date(date), 'dd/MM/yyyy');
+  };
+
+  const proposalAmount = (proposal: ReconciliationProposal): number =>
+    (proposal.transaction.credit || 0) - (proposal.transaction.debit || 0);
+
+  if (loading && !result) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!result) {
+    return error ? <Alert severity="error">{error}</Alert> : null;
+  }
+
+  const matchedCount = result.matches.filter(match => match.status === 'matched').length;
+  const alreadyReconciledCount = result.matches.filter(match => match.status === 'already_reconciled').length;
+  const missingCount = result.matches.filter(match => match.status === 'missing').length;
+  const acceptedCount =
+    result.matches.filter(match => match.status === 'matched' && match.accept).length +
+    result.proposals.filter(proposal => proposal.accept).length;
+
+  return (
+    <Box>
+      {/* Summary Section */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={3}>
+            <Typography variant="body2" color="text.secondary">
+              Statement Balance
+            </Typography>
+            <Typography variant="h6">{formatCurrency(result.statement_balance)}</Typography>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Typography variant="body2" color="text.secondary">
+              Ledger Balance
+            </Typography>
+            <Typography variant="h6">{formatCurrency(result.ledger_balance)}</Typography>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Typography variant="body2" color="text.secondary">
+              Gap
+            </Typography>
+            <Typography variant="h6" color={Math.abs(result.gap) < 0.01 ? 'success.main' : 'error.main'}>
+              {formatCurrency(result.gap)}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Typography variant="body2" color="text.secondary">
+              Unexplained by Statement
+            </Typography>
+            <Typography variant="h6" color={Math.abs(result.remaining_gap) < 0.01 ? 'success.main' : 'warning.main'}>
+              {formatCurrency(result.remaining_gap)}
+            </Typography>
+          </Grid>
+        </Grid>
+        <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+          <Chip label={`${matchedCount} matched`} color="success" size="small" />
+          {alreadyReconciledCount > 0 && (
+            <Chip label={`${alreadyReconciledCount} already reconciled`} size="small" />
+          )}
+          <Chip label={`${missingCount} missing from ledger`} color={missingCount > 0 ? 'warning' : 'default'} size="small" />
+          <Chip
+            label={`${result.unmatched_transactions.length} not on statement`}
+            color={result.unmatched_transactions.length > 0 ? 'warning' : 'default'}
+            size="small"
+          />
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {result.parse_errors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {result.parse_errors.slice(0, 5).map(e => `${e.field}: ${e.message}`).join('; ')}
+          {result.parse_errors.length > 5 && ` and ${result.parse_errors.length - 5} more`}
+        </Alert>
+      )}
+
+      {/* Statement Lines */}
+      <Paper sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ p: 2 }}>
+          Statement Lines ({result.matches.length})
+        </Typography>
+        <TableContainer sx={{ maxHeight: 300 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Date</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Ledger Match</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {result.matches.map((match, index) => (
+                <TableRow key={`${match.line.line_number}-${index}`} hover>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={match.status === 'matched' && match.accept}
+                      disabled={match.status !== 'matched' || applied}
+                      onChange={(e) => updateMatch(index, { accept: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>{formatDate(match.line.bank_date)}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{match.line.description}</Typography>
+                    {match.line.reference && (
+                      <Typography variant="caption" color="text.secondary">{match.line.reference}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: match.line.amount < 0 ? 'error.main' : 'success.main' }}>
+                    {formatCurrency(match.line.amount)}
+                  </TableCell>
+                  <TableCell>
+                    {match.status === 'matched' && match.transaction ? (
+                      <Tooltip title={match.transaction.optional_notes || match.transaction.reference || ''}>
+                        <Chip
+                          label={`${formatDate(match.transaction.bank_date || match.transaction.transaction_date)} · ${match.confidence}%`}
+                          color={match.confidence >= 80 ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </Tooltip>
+                    ) : match.status === 'already_reconciled' && match.transaction ? (
+                      <Tooltip title={`Reconciled on ${formatDate(match.transaction.reconciled_date)} in an earlier session`}>
+                        <Chip label="Already reconciled" size="small" variant="outlined" />
+                      </Tooltip>
+                    ) : (
+                      <Chip label="Missing" color="warning" size="small" variant="outlined" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Proposals */}
+      {result.proposals.length > 0 && (
+        <Paper sx={{ mb: 2 }}>
+          <Typography variant="h6" sx={{ p: 2 }}>
+            Proposed Transactions
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Date</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Reason</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {result.proposals.map((proposal, index) => (
+                  <TableRow key={`${proposal.kind}-${proposal.line_number ?? index}`} hover>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        checked={proposal.accept}
+                        disabled={applied}
+                        onChange={(e) => updateProposal(index, { accept: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell>{formatDate(proposal.transaction.bank_date)}</TableCell>
+                    <TableCell>
+                      {proposal.kind === 'missing_transaction' ? (
+                        <Select
+                          size="small"
+                          variant="standard"
+                          value={proposal.transaction.transaction_type}
+                          disabled={applied}
+                          onChange={(e) => updateProposal(index, {
+                            transaction: { ...proposal.transaction, transaction_type: e.target.value as TransactionType }
+                          })}
+                        >
+                          {proposalTypes.map(type => (
+                            <MenuItem key={type} value={type}>{formatTransactionType(type)}</MenuItem>
+                          ))}
+                        </Select>
+                      ) : (
+                        formatTransactionType('adjustment')
+                      )}
+                    </TableCell>
+                    <TableCell align="right" sx={{ color: proposalAmount(proposal) < 0 ? 'error.main' : 'success.main' }}>
+                      {formatCurrency(proposalAmount(proposal))}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">{proposal.reason}</Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      {result.unmatched_transactions.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="body2" gutterBottom>
+            <strong>In the ledger but not on the statement:</strong>
+          </Typography>
+          <ul style={{ margin: 0, paddingLeft: 20 }}>
+            {result.unmatched_transactions.map(transaction => (
+              <li key={transaction.id}>
+                {formatDate(transaction.bank_date || transaction.transaction_date)}{' '}
+                {formatTransactionType(transaction.transaction_type)}{' '}
+                {formatCurrency((transaction.credit || 0) - (transaction.debit || 0))}
+                {transaction.optional_notes ? ` – ${transaction.optional_notes}` : ''}
+              </li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      {applied ? (
+        <Alert severity="success" action={<Button onClick={loadMatches}>Match Again</Button>}>
+          Statement matches applied to this reconciliation.
+        </Alert>
+      ) : (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button variant="contained" onClick={handleApply} disabled={acceptedCount === 0 || loading}>
+            Apply {acceptedCount} Decision{acceptedCount === 1 ? '' : 's'}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
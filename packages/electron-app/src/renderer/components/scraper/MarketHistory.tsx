@@ -0,0 +1,289 @@
+/**
+ * MarketHistory Component - What has changed in the market across pipeline runs
+ *
+ * Shows products new to market, rate changes and withdrawals over a chosen
+ * period, the best-buy trend per account type, and the full rate history of
+ * any product. Data comes from the product history the pipeline records on
+ * each run (migration 012).
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  MenuItem,
+  Alert,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import {
+  NewReleases as NewIcon,
+  TrendingUp as UpIcon,
+  TrendingDown as DownIcon,
+  RemoveCircleOutline as WithdrawnIcon,
+} from '@mui/icons-material';
+import { MarketHistorySummary, MarketProduct, ProductRateChange } from '@cash-mgmt/shared';
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' },
+];
+
+const formatRate = (rate: number | null | undefined) =>
+  rate === null || rate === undefined ? '—' : `${rate.toFixed(2)}%`;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
+const describeProduct = (product: MarketProduct) => {
+  if (product.term_months) return `${product.term_months}m fixed`;
+  if (product.notice_period_days) return `${product.notice_period_days}d notice`;
+  return product.account_type?.replace(/_/g, ' ') || '';
+};
+
+export const MarketHistory: React.FC = () => {
+  const [days, setDays] = useState<number>(30);
+  const [accountType, setAccountType] = useState<string>('');
+  const [history, setHistory] = useState<MarketHistorySummary | null>(null);
+  const [accountTypes, setAccountTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedProduct, setSelectedProduct] = useState<MarketProduct | null>(null);
+  const [rateHistory, setRateHistory] = useState<ProductRateChange[]>([]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [days, accountType]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data: MarketHistorySummary = await window.electronAPI.getMarketHistory(days, accountType || undefined);
+      setHistory(data);
+      if (!accountType) {
+        setAccountTypes(Array.from(new Set(data.bestBuyTrend.map(s => s.account_type))).sort());
+      }
+    } catch (err) {
+      console.error('Failed to load market history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load market history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRateHistory = async (product: MarketProduct) => {
+    setSelectedProduct(product);
+    setRateHistory([]);
+    try {
+      setRateHistory(await window.electronAPI.getProductRateHistory(product.id));
+    } catch (err) {
+      console.error('Failed to load product rate history:', err);
+    }
+  };
+
+  // One chart series per account type in the trend
+  const trendTypes = Array.from(new Set((history?.bestBuyTrend || []).map(s => s.account_type))).sort();
+  const snapshotDates = Array.from(new Set((history?.bestBuyTrend || []).map(s => s.snapshot_date))).sort();
+  const trendSeries = trendTypes.map(type => ({
+    label: type.replace(/_/g, ' '),
+    data: snapshotDates.map(date =>
+      history?.bestBuyTrend.find(s => s.snapshot_date === date && s.account_type === type)?.best_rate ?? null
+    ),
+  }));
+
+  const renderProductTable = (
+    products: MarketProduct[],
+    dateColumn: { label: string; value: (p: MarketProduct) => string | null | undefined },
+    showPreviousRate = false
+  ) => (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Bank</TableCell>
+          <TableCell>Product</TableCell>
+          <TableCell>Platform</TableCell>
+          {showPreviousRate && <TableCell align="right">Was</TableCell>}
+          <TableCell align="right">Rate</TableCell>
+          <TableCell>{dateColumn.label}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {products.map((product, index) => (
+          <TableRow
+            key={`${product.id}-${index}`}
+            hover
+            sx={{ cursor: 'pointer' }}
+            onClick={() => openRateHistory(product)}
+          >
+            <TableCell>{product.bank_name}</TableCell>
+            <TableCell>{describeProduct(product)}</TableCell>
+            <TableCell>{product.platform}</TableCell>
+            {showPreviousRate && <TableCell align="right">{formatRate(product.previous_rate)}</TableCell>}
+            <TableCell align="right">
+              {showPreviousRate && product.previous_rate !== null && product.previous_rate !== undefined && (
+                product.current_rate >= product.previous_rate
+                  ? <UpIcon fontSize="inherit" color="success" sx={{ mr: 0.5, verticalAlign: 'middle' }} />
+                  : <DownIcon fontSize="inherit" color="error" sx={{ mr: 0.5, verticalAlign: 'middle' }} />
+              )}
+              {formatRate(product.current_rate)}
+            </TableCell>
+            <TableCell>{dateColumn.value(product) ? formatDate(dateColumn.value(product)!) : '—'}</TableCell>
+          </TableRow>
+        ))}
+        {products.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={showPreviousRate ? 6 : 5} align="center">
+              <Typography variant="body2" color="text.secondary">None in this period</Typography>
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, mb: 3, alignItems: 'center' }}>
+        <TextField
+          select
+          size="small"
+          label="Period"
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          sx={{ minWidth: 160 }}
+        >
+          {PERIODS.map(period => (
+            <MenuItem key={period.days} value={period.days}>{period.label}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Account Type"
+          value={accountType}
+          onChange={(e) => setAccountType(e.target.value)}
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">All</MenuItem>
+          {accountTypes.map(type => (
+            <MenuItem key={type} value={type}>{type.replace(/_/g, ' ')}</MenuItem>
+          ))}
+        </TextField>
+        {loading && <CircularProgress size={24} />}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {history && (
+        <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Chip icon={<NewIcon />} label={`${history.newToMarket.length} new to market`} color="success" variant="outlined" />
+              <Chip icon={<UpIcon />} label={`${history.rateChanges.length} rate changes`} color="primary" variant="outlined" />
+              <Chip icon={<WithdrawnIcon />} label={`${history.withdrawn.length} withdrawn`} color="warning" variant="outlined" />
+            </Box>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>Best Buy Trend</Typography>
+                {snapshotDates.length > 1 ? (
+                  <LineChart
+                    height={300}
+                    series={trendSeries}
+                    xAxis={[{
+                      data: snapshotDates.map(date => new Date(date)),
+                      scaleType: 'time',
+                      valueFormatter: (value) => new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+                    }]}
+                    yAxis={[{ valueFormatter: (value: number) => `${value.toFixed(2)}%` }]}
+                  />
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    The trend appears once the pipeline has run on more than one day.
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>New to Market</Typography>
+              {renderProductTable(history.newToMarket, { label: 'First Seen', value: p => p.first_seen })}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>Withdrawn</Typography>
+              {renderProductTable(history.withdrawn, { label: 'Withdrawn', value: p => p.withdrawn_on })}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>Rate Changes</Typography>
+              {renderProductTable(history.rateChanges, { label: 'Changed', value: p => p.change_date }, true)}
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+
+      <Dialog open={!!selectedProduct} onClose={() => setSelectedProduct(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {selectedProduct?.bank_name} – {selectedProduct && describeProduct(selectedProduct)} ({selectedProduct?.platform})
+        </DialogTitle>
+        <DialogContent>
+          {selectedProduct && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              First seen {formatDate(selectedProduct.first_seen)}, last seen {formatDate(selectedProduct.last_seen)}
+              {selectedProduct.withdrawn_on ? `, withdrawn ${formatDate(selectedProduct.withdrawn_on)}` : ''}
+            </Typography>
+          )}
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell align="right">Previous Rate</TableCell>
+                <TableCell align="right">New Rate</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rateHistory.map(change => (
+                <TableRow key={change.id}>
+                  <TableCell>{formatDate(change.change_date)}</TableCell>
+                  <TableCell align="right">{change.previous_rate === null ? 'First listed' : formatRate(change.previous_rate)}</TableCell>
+                  <TableCell align="right">{formatRate(change.new_rate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedProduct(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,290 @@
+/**
+ * PipelineReview Component - Review a dry run before it replaces the live products
+ *
+ * A dry run executes ingestion, FRN matching and deduplication but stops
+ * before persistence. Its result is staged in the main process and compared
+ * with available_products: products added, removed, rate up, rate down and
+ * FRN changed. Committing writes the staged result; discarding drops it and
+ * leaves the live products and the scraped files as they were.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Chip,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import {
+  NewReleases as AddedIcon,
+  RemoveCircleOutline as RemovedIcon,
+  TrendingUp as UpIcon,
+  TrendingDown as DownIcon,
+  SwapHoriz as FRNIcon,
+  CheckCircle as CommitIcon,
+  Delete as DiscardIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import { ProductDiffEntry, StagedPipelineRun } from '@cash-mgmt/shared';
+
+type DiffSection = 'added' | 'removed' | 'rateUp' | 'rateDown' | 'frnChanged';
+
+const SECTIONS: Array<{ key: DiffSection; label: string; icon: React.ReactElement; color: 'success' | 'error' | 'primary' | 'warning' }> = [
+  { key: 'added', label: 'Added', icon: <AddedIcon />, color: 'success' },
+  { key: 'removed', label: 'Removed', icon: <RemovedIcon />, color: 'error' },
+  { key: 'rateUp', label: 'Rate Up', icon: <UpIcon />, color: 'primary' },
+  { key: 'rateDown', label: 'Rate Down', icon: <DownIcon />, color: 'warning' },
+  { key: 'frnChanged', label: 'FRN Changed', icon: <FRNIcon />, color: 'warning' },
+];
+
+const formatRate = (rate: number | null | undefined) =>
+  rate === null || rate === undefined ? '—' : `${rate.toFixed(2)}%`;
+
+const describeProduct = (entry: ProductDiffEntry) => {
+  if (entry.termMonths) return `${entry.termMonths}m fixed`;
+  if (entry.noticePeriodDays) return `${entry.noticePeriodDays}d notice`;
+  return entry.accountType?.replace(/_/g, ' ') || '';
+};
+
+export const PipelineReview: React.FC = () => {
+  const [staged, setStaged] = useState<StagedPipelineRun | null>(null);
+  const [section, setSection] = useState<DiffSection>('added');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [confirmCommit, setConfirmCommit] = useState(false);
+
+  useEffect(() => {
+    loadStagedRun();
+  }, []);
+
+  const loadStagedRun = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await window.electronAPI.getStagedPipelineRun();
+      if (!response.success) {
+        setError(response.error || 'Failed to load staged pipeline run');
+        return;
+      }
+      setStaged(response.data);
+      // Open the first section with changes
+      const firstChanged = SECTIONS.find(s => response.data?.diff[s.key].length > 0);
+      setSection(firstChanged?.key || 'added');
+    } catch (err) {
+      console.error('Failed to load staged pipeline run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load staged pipeline run');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setConfirmCommit(false);
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await window.electronAPI.commitStagedPipelineRun();
+      if (!response.success) {
+        setError(response.error || 'Failed to commit staged pipeline run');
+        return;
+      }
+      setStaged(null);
+      setMessage(`Committed ${response.result.productCount} products to the live product list`);
+    } catch (err) {
+      console.error('Failed to commit staged pipeline run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to commit staged pipeline run');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      await window.electronAPI.discardStagedPipelineRun();
+      setStaged(null);
+      setMessage('Dry run discarded - live products unchanged');
+    } catch (err) {
+      console.error('Failed to discard staged pipeline run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to discard staged pipeline run');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderEntries = (entries: ProductDiffEntry[]) => (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Bank</TableCell>
+          <TableCell>Product</TableCell>
+          <TableCell>Platform</TableCell>
+          {section === 'frnChanged' ? (
+            <>
+              <TableCell>Live FRN</TableCell>
+              <TableCell>Staged FRN</TableCell>
+            </>
+          ) : (
+            <>
+              {(section === 'rateUp' || section === 'rateDown') && <TableCell align="right">Live Rate</TableCell>}
+              <TableCell align="right">{section === 'removed' ? 'Live Rate' : 'Staged Rate'}</TableCell>
+              <TableCell>FRN</TableCell>
+            </>
+          )}
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {entries.map((entry, index) => (
+          <TableRow key={`${entry.businessKey}-${entry.platform}-${index}`}>
+            <TableCell>{entry.bankName}</TableCell>
+            <TableCell>{describeProduct(entry)}</TableCell>
+            <TableCell>{entry.platform}</TableCell>
+            {section === 'frnChanged' ? (
+              <>
+                <TableCell>{entry.previousFrn || '—'}</TableCell>
+                <TableCell>{entry.frn || '—'}</TableCell>
+              </>
+            ) : (
+              <>
+                {(section === 'rateUp' || section === 'rateDown') && (
+                  <TableCell align="right">{formatRate(entry.previousRate)}</TableCell>
+                )}
+                <TableCell align="right">{formatRate(entry.aerRate)}</TableCell>
+                <TableCell>{entry.frn || '—'}</TableCell>
+              </>
+            )}
+          </TableRow>
+        ))}
+        {entries.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={6} align="center">
+              <Typography variant="body2" color="text.secondary">No changes</Typography>
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {message && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message}</Alert>}
+
+      {!staged ? (
+        <Card>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>No Dry Run Awaiting Review</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Use Dry Run on the Scrapers tab to process the latest scrapes without replacing the live products.
+              The changes it would make appear here to commit or discard.
+            </Typography>
+            <Button startIcon={<RefreshIcon />} onClick={loadStagedRun}>Refresh</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent>
+            <Box display="flex" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 2 }}>
+              <Box>
+                <Typography variant="h6">Staged Pipeline Run</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {new Date(staged.stagedAt).toLocaleString('en-GB')} · {staged.inputFiles.length} file(s) ·{' '}
+                  {staged.diff.liveCount} live → {staged.diff.stagedCount} staged products, {staged.diff.unchanged} unchanged
+                </Typography>
+              </Box>
+              <Box display="flex" gap={1}>
+                <Button
+                  variant="outlined"
+                  color="inherit"
+                  startIcon={<DiscardIcon />}
+                  onClick={handleDiscard}
+                  disabled={working}
+                >
+                  Discard
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={working ? <CircularProgress size={16} /> : <CommitIcon />}
+                  onClick={() => setConfirmCommit(true)}
+                  disabled={working}
+                >
+                  Commit
+                </Button>
+              </Box>
+            </Box>
+
+            {staged.diff.stagedCount === 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                The dry run selected no products. Committing would empty the live product list.
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              {SECTIONS.map(s => (
+                <Chip
+                  key={s.key}
+                  icon={s.icon}
+                  label={`${staged.diff[s.key].length} ${s.label.toLowerCase()}`}
+                  color={s.color}
+                  variant={section === s.key ? 'filled' : 'outlined'}
+                  onClick={() => setSection(s.key)}
+                />
+              ))}
+            </Box>
+
+            <Tabs value={section} onChange={(_, value: DiffSection) => setSection(value)} sx={{ mb: 1 }}>
+              {SECTIONS.map(s => (
+                <Tab key={s.key} value={s.key} label={`${s.label} (${staged.diff[s.key].length})`} />
+              ))}
+            </Tabs>
+            {renderEntries(staged.diff[section])}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={confirmCommit} onClose={() => setConfirmCommit(false)}>
+        <DialogTitle>Commit Staged Run?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The live product list will be replaced with the {staged?.diff.stagedCount} staged products
+            ({staged?.diff.added.length} added, {staged?.diff.removed.length} removed,{' '}
+            {(staged?.diff.rateUp.length || 0) + (staged?.diff.rateDown.length || 0)} rate changes) and the
+            processed scrape files cleaned up.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmCommit(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCommit}>Commit</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -43,6 +43,7 @@ import {
   ExpandLess as ExpandLessIcon,
   Storage as DataIcon,
   Schedule as ScheduleIcon,
+  Preview as PreviewIcon,
 } from '@mui/icons-material';
 import { 
   Platform, 
@@ -90,7 +91,11 @@ interface ScraperDashboardState {
   pipelineError: string | null;
 }
 
-export const ScraperDashboard: React.FC = () => {
+interface ScraperDashboardProps {
+  onDryRunStaged?: () => void; // Called when a dry run's result is ready for review
+}
+
+export const ScraperDashboard: React.FC<ScraperDashboardProps> = ({ onDryRunStaged }) => {
   const [state, setState] = useState<ScraperDashboardState>({
     platforms: [],
     processes: [],
@@ -226,11 +231,13 @@ export const ScraperDashboard: React.FC = () => {
       setState(prev => ({ ...prev, pipelineProgress: `Stage completed: ${data.stage || 'Unknown'}` }));
     });
 
-    window.electronAPI.onPipelineCompleted(() => {
+    window.electronAPI.onPipelineCompleted((data: any) => {
       setState(prev => ({
         ...prev,
         pipelineRunning: false,
-        pipelineProgress: 'Pipeline completed successfully!',
+        pipelineProgress: data?.dryRun
+          ? 'Dry run completed - review the staged changes before committing'
+          : 'Pipeline completed successfully!',
         pipelineError: null
       }));
       // Clear success message after 5 seconds
@@ -250,8 +257,14 @@ export const ScraperDashboard: React.FC = () => {
   };
 
   // Run pipeline with all available JSON files
-  const handleRunPipeline = async () => {
-    setState(prev => ({ ...prev, pipelineRunning: true, pipelineProgress: 'Starting pipeline...', pipelineError: null }));
+  // A dry run stages the result for review on the Pipeline Review tab instead of replacing products
+  const handleRunPipeline = async (dryRun: boolean = false) => {
+    setState(prev => ({
+      ...prev,
+      pipelineRunning: true,
+      pipelineProgress: dryRun ? 'Starting dry run...' : 'Starting pipeline...',
+      pipelineError: null
+    }));
 
     try {
       // Get all available normalized JSON files from filesystem
@@ -281,7 +294,7 @@ export const ScraperDashboard: React.FC = () => {
 
       console.log(`Found ${jsonFiles.length} normalized JSON files for pipeline:`, jsonFiles);
 
-      const result = await window.electronAPI.executePipeline(jsonFiles);
+      const result = await window.electronAPI.executePipeline(jsonFiles, { dryRun });
 
       if (!result.success) {
         setState(prev => ({
@@ -290,6 +303,8 @@ export const ScraperDashboard: React.FC = () => {
           pipelineProgress: null,
           pipelineError: result.error || 'Failed to start pipeline'
         }));
+      } else if (dryRun && result.result?.productDiff) {
+        onDryRunStaged?.();
       }
     } catch (error) {
       console.error('Error starting pipeline:', error);
@@ -533,12 +548,25 @@ export const ScraperDashboard: React.FC = () => {
               variant="contained"
               color="primary"
               startIcon={<DataIcon />}
-              onClick={handleRunPipeline}
+              onClick={() => handleRunPipeline()}
               disabled={state.pipelineRunning}
               size="large"
             >
               {state.pipelineRunning ? 'Processing...' : 'Run Pipeline'}
             </Button>
+            <Tooltip title="Run through deduplication and review the changes before they replace the live products">
+              <span>
+                <Button
+                  variant="outlined"
+                  startIcon={<PreviewIcon />}
+                  onClick={() => handleRunPipeline(true)}
+                  disabled={state.pipelineRunning}
+                  size="large"
+                >
+                  Dry Run
+                </Button>
+              </span>
+            </Tooltip>
             <Typography variant="body2" color="text.secondary">
               {state.processes.filter(p => p.status === 'completed').length} completed scraper run(s) available
             </Typography>
@@ -0,0 +1,144 @@
+/**
+ * SourceStatus Component - Product counts and age of each scraper source
+ *
+ * Each pipeline run replaces only the sources it ingested; the others are
+ * kept from earlier runs and deduplicated with them. This shows how many
+ * products each source holds (raw, and after deduplication) and when it was
+ * last ingested, flagging sources older than the stale threshold
+ * (orchestrator_source_stale_hours) so they can be re-scraped.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import { Refresh as RefreshIcon, Schedule as StaleIcon } from '@mui/icons-material';
+import { PipelineSourceStatus } from '@cash-mgmt/shared';
+
+const formatAge = (hours: number | null) => {
+  if (hours === null) return 'Unknown';
+  if (hours < 1) return 'Under an hour';
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+export const SourceStatus: React.FC = () => {
+  const [sources, setSources] = useState<PipelineSourceStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSources();
+
+    // Counts change whenever a run persists
+    const remove = window.electronAPI.onPipelineCompleted(() => loadSources());
+    return () => remove();
+  }, []);
+
+  const loadSources = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await window.electronAPI.getPipelineSourceStatus();
+      if (!response.success) {
+        setError(response.error || 'Failed to load source status');
+        return;
+      }
+      setSources(response.data || []);
+    } catch (err) {
+      console.error('Failed to load source status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load source status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const staleCount = sources.filter(s => s.stale).length;
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Typography variant="h6">Sources</Typography>
+            {staleCount > 0 && (
+              <Chip size="small" color="warning" icon={<StaleIcon />} label={`${staleCount} stale`} />
+            )}
+          </Box>
+          <Tooltip title="Refresh">
+            <IconButton size="small" onClick={loadSources} disabled={loading}>
+              {loading ? <CircularProgress size={18} /> : <RefreshIcon />}
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {!loading && sources.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No sources recorded yet. Counts appear after the next pipeline run.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Source</TableCell>
+                <TableCell>Platforms</TableCell>
+                <TableCell align="right">Scraped</TableCell>
+                <TableCell align="right">After Deduplication</TableCell>
+                <TableCell>Last Ingested</TableCell>
+                <TableCell>Age</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sources.map(source => (
+                <TableRow key={source.source}>
+                  <TableCell>{source.source}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {source.platforms.length > 3
+                        ? `${source.platforms.slice(0, 3).join(', ')} +${source.platforms.length - 3}`
+                        : source.platforms.join(', ')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{source.rawProductCount}</TableCell>
+                  <TableCell align="right">{source.finalProductCount}</TableCell>
+                  <TableCell>
+                    {source.lastIngestedAt ? new Date(source.lastIngestedAt).toLocaleString('en-GB') : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {formatAge(source.ageHours)}
+                      {source.stale && (
+                        <Tooltip
+                          title={source.carriedForward
+                            ? 'No scraped products to rebuild from - kept from the live product list'
+                            : 'Not ingested within the stale threshold - re-run this scraper'}
+                        >
+                          <Chip size="small" color="warning" variant="outlined" label={source.carriedForward ? 'Carried forward' : 'Stale'} />
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -19,6 +19,8 @@ import {
   InterestConfiguration as IInterestConfiguration,
   InterestPaymentType,
   InterestPaymentDestination,
+  InterestCompounding,
+  InterestDayCount,
 } from '@cash-mgmt/shared';
 import { Deposit } from '@cash-mgmt/shared';
 
@@ -42,6 +44,20 @@ const paymentDestinations: { value: InterestPaymentDestination; label: string; d
   { value: 'Designated_Account', label: 'Designated current account', description: 'Interest transferred to a designated current account' },
 ];
 
+const compoundingOptions: { value: InterestCompounding; label: string }[] = [
+  { value: 'At_Payment', label: 'When interest is paid' },
+  { value: 'Daily', label: 'Daily' },
+  { value: 'Monthly', label: 'Monthly' },
+  { value: 'Quarterly', label: 'Quarterly' },
+  { value: 'Annually', label: 'Annually' },
+];
+
+const dayCountOptions: { value: InterestDayCount; label: string }[] = [
+  { value: 'ACT/365', label: 'Actual/365 (UK standard)' },
+  { value: 'ACT/ACT', label: 'Actual/Actual (366 in leap years)' },
+  { value: 'ACT/360', label: 'Actual/360' },
+];
+
 const monthOptions = [
   { value: 1, label: 'January' },
   { value: 2, label: 'February' },
@@ -70,6 +86,8 @@ export const InterestConfiguration: React.FC<InterestConfigurationProps> = ({
     interest_payment_destination: account.interest_payment_destination || 'Same_Account',
     interest_payment_account_id: account.interest_payment_account_id || undefined,
     designated_account_id: account.designated_account_id || undefined,
+    interest_compounding: account.interest_compounding || 'At_Payment',
+    interest_day_count: account.interest_day_count || 'ACT/365',
   });
 
   const [saving, setSaving] = useState(false);
@@ -118,7 +136,7 @@ export const InterestConfiguration: React.FC<InterestConfigurationProps> = ({
     };
 
     calculateEstimates();
-  }, [config.interest_payment_type, config.interest_next_payment_date, config.interest_fixed_payment_day, config.interest_fixed_payment_month]);
+  }, [config.interest_payment_type, config.interest_next_payment_date, config.interest_fixed_payment_day, config.interest_fixed_payment_month, config.interest_compounding, config.interest_day_count]);
 
   // Handle configuration changes
   const handleChange = (field: keyof IInterestConfiguration, value: any) => {
@@ -296,6 +314,40 @@ export const InterestConfiguration: React.FC<InterestConfigurationProps> = ({
           </Alert>
         )}
 
+        <Stack direction="row" spacing={2}>
+          <FormControl fullWidth>
+            <InputLabel>Compounding</InputLabel>
+            <Select
+              value={config.interest_compounding || 'At_Payment'}
+              onChange={(e) => handleChange('interest_compounding', e.target.value)}
+              label="Compounding"
+            >
+              {compoundingOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>How often interest earns interest</FormHelperText>
+          </FormControl>
+
+          <FormControl fullWidth>
+            <InputLabel>Day Count</InputLabel>
+            <Select
+              value={config.interest_day_count || 'ACT/365'}
+              onChange={(e) => handleChange('interest_day_count', e.target.value)}
+              label="Day Count"
+            >
+              {dayCountOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>Days in the year daily interest divides by</FormHelperText>
+          </FormControl>
+        </Stack>
+
         <Divider />
 
         <FormControl fullWidth>
@@ -0,0 +1,318 @@
+/**
+ * StatementImport Component - Import a bank statement (CSV, OFX or QIF) as transactions
+ *
+ * The statement is previewed first: lines already recorded are marked as
+ * duplicates and interest credits are classified, and each new line can be
+ * excluded or have its type changed before the import is committed.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Stack,
+  Stepper,
+  Step,
+  StepLabel,
+  Typography,
+  Alert,
+  Chip,
+  Checkbox,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import {
+  StatementCsvProfile,
+  StatementFormat,
+  StatementDateOrder,
+  StatementImportPreview,
+  StatementImportRow,
+  TransactionImportResult,
+  TransactionType,
+  formatTransactionType,
+} from '@cash-mgmt/shared';
+
+interface StatementImportProps {
+  accountId: number;
+  onCancel: () => void;
+  onImported: (result: TransactionImportResult) => void;
+}
+
+const steps = ['Select Statement', 'Review', 'Import'];
+
+const importTypes: TransactionType[] = ['deposit', 'withdrawal', 'interest', 'fee', 'adjustment'];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(value);
+
+export const StatementImport: React.FC<StatementImportProps> = ({ accountId, onCancel, onImported }) => {
+  const [activeStep, setActiveStep] = useState(0);
+  const [profiles, setProfiles] = useState<StatementCsvProfile[]>([]);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [format, setFormat] = useState<StatementFormat | 'auto'>('auto');
+  const [profileId, setProfileId] = useState<string>('auto');
+  const [dateOrder, setDateOrder] = useState<StatementDateOrder>('DMY');
+  const [preview, setPreview] = useState<StatementImportPreview | null>(null);
+  const [result, setResult] = useState<TransactionImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getStatementImportProfiles()
+      .then((loaded: StatementCsvProfile[]) => setProfiles(loaded || []))
+      .catch((err: any) => console.error('Failed to load statement profiles:', err));
+  }, []);
+
+  const handleSelectFile = async () => {
+    setError(null);
+    const selected = await window.electronAPI.selectStatementFile();
+    if (selected.success) {
+      setFile({ name: selected.file_name, content: selected.content });
+    } else if (selected.error) {
+      setError(selected.error);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded: StatementImportPreview = await window.electronAPI.previewStatementImport({
+        account_id: accountId,
+        content: file.content,
+        file_name: file.name,
+        format: format === 'auto' ? undefined : format,
+        profile_id: profileId === 'auto' ? undefined : profileId,
+        date_order: dateOrder,
+      });
+      setPreview(loaded);
+      setActiveStep(1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to read statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<StatementImportRow>) => {
+    if (!preview) return;
+    const rows = preview.rows.map((row, i) => (i === index ? { ...row, ...changes } : row));
+    setPreview({ ...preview, rows });
+  };
+
+  const changeType = (index: number, type: TransactionType) => {
+    const row = preview!.rows[index];
+    updateRow(index, { transaction: { ...row.transaction, transaction_type: type } });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const imported: TransactionImportResult = await window.electronAPI.commitStatementImport(preview.rows);
+      setResult(imported);
+      setActiveStep(2);
+    } catch (err: any) {
+      setError(err.message || 'Failed to import statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedCount = preview?.rows.filter(row => row.status === 'new' && row.include).length || 0;
+
+  return (
+    <Stack spacing={3} sx={{ mt: 2 }}>
+      <Stepper activeStep={activeStep}>
+        {steps.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+
+      {activeStep === 0 && (
+        <Stack spacing={2}>
+          <Box display="flex" alignItems="center" gap={2}>
+            <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={handleSelectFile}>
+              Choose Statement
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {file ? file.name : 'CSV, OFX/QFX or QIF export from your bank'}
+            </Typography>
+          </Box>
+
+          <Stack direction="row" spacing={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Format</InputLabel>
+              <Select value={format} label="Format" onChange={(e) => setFormat(e.target.value as StatementFormat | 'auto')}>
+                <MenuItem value="auto">Detect</MenuItem>
+                <MenuItem value="csv">CSV</MenuItem>
+                <MenuItem value="ofx">OFX / QFX</MenuItem>
+                <MenuItem value="qif">QIF</MenuItem>
+              </Select>
+            </FormControl>
+
+            {format !== 'ofx' && format !== 'qif' && (
+              <FormControl fullWidth size="small">
+                <InputLabel>CSV Layout</InputLabel>
+                <Select value={profileId} label="CSV Layout" onChange={(e) => setProfileId(e.target.value)}>
+                  <MenuItem value="auto">Detect from headings</MenuItem>
+                  {profiles.map(profile => (
+                    <MenuItem key={profile.id} value={profile.id}>{profile.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+
+            {format === 'qif' && (
+              <FormControl fullWidth size="small">
+                <InputLabel>Date Order</InputLabel>
+                <Select value={dateOrder} label="Date Order" onChange={(e) => setDateOrder(e.target.value as StatementDateOrder)}>
+                  <MenuItem value="DMY">Day / Month / Year</MenuItem>
+                  <MenuItem value="MDY">Month / Day / Year</MenuItem>
+                </Select>
+              </FormControl>
+            )}
+          </Stack>
+
+          <Box display="flex" justifyContent="flex-end" gap={1}>
+            <Button onClick={onCancel}>Cancel</Button>
+            <Button variant="contained" onClick={handlePreview} disabled={!file || loading}>
+              {loading ? <CircularProgress size={20} /> : 'Preview'}
+            </Button>
+          </Box>
+        </Stack>
+      )}
+
+      {activeStep === 1 && preview && (
+        <Stack spacing={2}>
+          <Box display="flex" gap={1} flexWrap="wrap">
+            <Chip label={`${preview.summary.new} new`} color="primary" size="small" />
+            <Chip label={`${preview.summary.duplicates} already recorded`} size="small" />
+            <Chip label={`${preview.summary.interest} interest`} color="secondary" size="small" />
+            {preview.summary.invalid > 0 && <Chip label={`${preview.summary.invalid} unreadable`} color="warning" size="small" />}
+          </Box>
+
+          {preview.parse_errors.length > 0 && (
+            <Alert severity="warning">
+              {preview.parse_errors.slice(0, 5).map(e => `${e.field}: ${e.message}`).join('; ')}
+              {preview.parse_errors.length > 5 && ` and ${preview.parse_errors.length - 5} more`}
+            </Alert>
+          )}
+
+          <TableContainer sx={{ maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Date</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.rows.map((row, index) => (
+                  <TableRow key={`${row.line.line_number}-${index}`} sx={{ opacity: row.status === 'duplicate' ? 0.5 : 1 }}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        checked={row.status === 'new' && row.include}
+                        disabled={row.status !== 'new'}
+                        onChange={(e) => updateRow(index, { include: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell>{new Date(row.line.bank_date).toLocaleDateString('en-GB')}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{row.line.description}</Typography>
+                      {row.line.reference && (
+                        <Typography variant="caption" color="text.secondary">{row.line.reference}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right" sx={{ color: row.line.amount < 0 ? 'error.main' : 'success.main' }}>
+                      {formatCurrency(row.line.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        value={row.transaction.transaction_type}
+                        disabled={row.status !== 'new'}
+                        onChange={(e) => changeType(index, e.target.value as TransactionType)}
+                      >
+                        {(importTypes.includes(row.transaction.transaction_type!)
+                          ? importTypes
+                          : [...importTypes, row.transaction.transaction_type!]
+                        ).map(type => (
+                          <MenuItem key={type} value={type}>{formatTransactionType(type)}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {row.status === 'duplicate' ? (
+                        <Chip label="Already recorded" size="small" variant="outlined" />
+                      ) : row.detected_interest ? (
+                        <Chip label="Interest detected" size="small" color="secondary" variant="outlined" />
+                      ) : (
+                        <Chip label="New" size="small" color="primary" variant="outlined" />
+                      )}
+                      {row.rule_name && (
+                        <Tooltip title={row.errors.map(e => e.message).join('; ') || 'Type and notes set by this rule'}>
+                          <Chip
+                            label={`Rule: ${row.rule_name}`}
+                            size="small"
+                            color={row.errors.length > 0 ? 'warning' : 'info'}
+                            variant="outlined"
+                            sx={{ ml: 0.5 }}
+                          />
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box display="flex" justifyContent="flex-end" gap={1}>
+            <Button onClick={() => setActiveStep(0)} disabled={loading}>Back</Button>
+            <Button variant="contained" onClick={handleImport} disabled={selectedCount === 0 || loading}>
+              {loading ? <CircularProgress size={20} /> : `Import ${selectedCount} Transaction${selectedCount === 1 ? '' : 's'}`}
+            </Button>
+          </Box>
+        </Stack>
+      )}
+
+      {activeStep === 2 && result && (
+        <Stack spacing={2}>
+          <Alert severity={result.errors.length > 0 ? 'warning' : 'success'}>
+            Imported {result.imported} transaction{result.imported === 1 ? '' : 's'}; {result.skipped} skipped.
+          </Alert>
+          {result.errors.map((e, i) => (
+            <Typography key={i} variant="body2" color="error">{e.field}: {e.message}</Typography>
+          ))}
+          <Box display="flex" justifyContent="flex-end">
+            <Button variant="contained" onClick={() => onImported(result)}>Done</Button>
+          </Box>
+        </Stack>
+      )}
+    </Stack>
+  );
+};
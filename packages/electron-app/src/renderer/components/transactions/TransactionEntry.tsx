@@ -15,8 +15,17 @@ import {
   InputLabel,
   Select,
   InputAdornment,
+  Tabs,
+  Tab,
 } from '@mui/material';
-import { Transaction, TransactionType, TransactionForm } from '@cash-mgmt/shared';
+import {
+  CategorisationResult,
+  Transaction,
+  TransactionType,
+  TransactionForm,
+  TransactionImportResult,
+} from '@cash-mgmt/shared';
+import { StatementImport } from './StatementImport';
 
 interface TransactionEntryProps {
   open: boolean;
@@ -25,6 +34,7 @@ interface TransactionEntryProps {
   transaction?: Transaction | null;
   accountId: number;
   currentBalance: number;
+  onImported?: (result: TransactionImportResult) => void;
 }
 
 const transactionTypes: { value: TransactionType; label: string }[] = [
@@ -44,7 +54,9 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
   transaction,
   accountId,
   currentBalance,
+  onImported,
 }) => {
+  const [mode, setMode] = useState<'single' | 'import'>('single');
   const [form, setForm] = useState<TransactionForm>({
     account_id: accountId,
     transaction_date: new Date(),
@@ -61,6 +73,7 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [balancePreview, setBalancePreview] = useState<number>(currentBalance);
+  const [suggestion, setSuggestion] = useState<CategorisationResult | null>(null);
 
   // Initialize form when dialog opens or transaction changes
   useEffect(() => {
@@ -95,7 +108,8 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
       setEstimatedAmount(undefined);
       setVarianceNotes('');
     }
-  }, [transaction, accountId]);
+    setMode('single');
+  }, [transaction, accountId, open]);
 
   // Calculate balance preview
   useEffect(() => {
@@ -108,6 +122,45 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
     setBalancePreview(newBalance);
   }, [form.amount, form.is_debit, currentBalance]);
 
+  // Offer the categorisation rule matching a new transaction's reference and amount
+  useEffect(() => {
+    if (transaction || !open || !form.reference) {
+      setSuggestion(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const result: CategorisationResult = await window.electronAPI.suggestTransactionCategory({
+          account_id: form.account_id,
+          transaction_type: form.transaction_type,
+          reference: form.reference,
+          optional_notes: form.optional_notes,
+          ...(form.is_debit ? { debit: form.amount } : { credit: form.amount }),
+        });
+        const changesSomething = result.rule && (
+          result.transaction.transaction_type !== form.transaction_type ||
+          (result.transaction.optional_notes || '') !== (form.optional_notes || '')
+        );
+        setSuggestion(changesSomething ? result : null);
+      } catch (err) {
+        console.error('Failed to check categorisation rules:', err);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [transaction, open, form.account_id, form.reference, form.amount, form.is_debit, form.transaction_type, form.optional_notes]);
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    setForm((prev) => ({
+      ...prev,
+      transaction_type: suggestion.transaction.transaction_type || prev.transaction_type,
+      optional_notes: suggestion.transaction.optional_notes ?? prev.optional_notes,
+    }));
+    setSuggestion(null);
+  };
+
   // Handle form field changes
   const handleChange = (field: keyof TransactionForm, value: any) => {
     setForm((prev) => ({
@@ -217,11 +270,32 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
   };
 
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth data-testid="transaction-dialog">
+    <Dialog open={open} onClose={onClose} maxWidth={mode === 'import' ? 'md' : 'sm'} fullWidth data-testid="transaction-dialog">
       <DialogTitle>
         {transaction ? 'Edit Transaction' : 'Add Transaction'}
       </DialogTitle>
-      
+
+      {/* Adding can also import a bank statement */}
+      {!transaction && (
+        <Tabs value={mode} onChange={(_, value) => setMode(value)} sx={{ px: 3 }}>
+          <Tab value="single" label="Single Transaction" />
+          <Tab value="import" label="Import Statement" data-testid="import-statement-tab" />
+        </Tabs>
+      )}
+
+      {mode === 'import' ? (
+        <DialogContent>
+          <StatementImport
+            accountId={accountId}
+            onCancel={onClose}
+            onImported={(result) => {
+              onImported?.(result);
+              onClose();
+            }}
+          />
+        </DialogContent>
+      ) : (
+      <>
       <DialogContent>
         <Stack spacing={3} sx={{ mt: 2 }}>
           {error && (
@@ -330,6 +404,18 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
             data-testid="reference-input"
           />
 
+          {suggestion?.rule && (
+            <Alert
+              severity={suggestion.warnings.length > 0 ? 'warning' : 'info'}
+              action={<Button color="inherit" size="small" onClick={applySuggestion}>Apply</Button>}
+            >
+              Rule "{suggestion.rule.name}" suggests{' '}
+              {transactionTypes.find(t => t.value === suggestion.transaction.transaction_type)?.label}
+              {suggestion.transaction.optional_notes ? ` with notes "${suggestion.transaction.optional_notes}"` : ''}
+              {suggestion.warnings.length > 0 && ` (${suggestion.warnings.join('; ')})`}
+            </Alert>
+          )}
+
           <TextField
             label="Notes"
             value={form.optional_notes}
@@ -384,6 +470,8 @@ export const TransactionEntry: React.FC<TransactionEntryProps> = ({
           {saving ? 'Saving...' : 'Save Transaction'}
         </Button>
       </DialogActions>
+      </>
+      )}
     </Dialog>
   );
 };
\ No newline at end of file
@@ -18,6 +18,7 @@ import {
   GridColDef,
   GridRowsProp,
   GridRenderCellParams,
+  GridRowSelectionModel,
 } from '@mui/x-data-grid';
 import {
   Add as AddIcon,
@@ -25,8 +26,25 @@ import {
   Refresh as RefreshIcon,
   CheckCircle as ReconciledIcon,
   Warning as VarianceIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
-import { Transaction, TransactionFilters, TransactionType } from '@cash-mgmt/shared';
+import {
+  BulkTransactionOperation,
+  BulkTransactionResult,
+  Transaction,
+  TransactionFilters,
+  TransactionType,
+} from '@cash-mgmt/shared';
+
+const transactionTypeLabels: Record<TransactionType, string> = {
+  account_opened: 'Account Opened',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  interest: 'Interest',
+  fee: 'Fee',
+  adjustment: 'Adjustment',
+  account_closed: 'Account Closed',
+};
 
 interface TransactionListProps {
   accountId: number;
@@ -59,6 +77,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({
   const [lastReconciled, setLastReconciled] = useState<string | null>(null);
   const [totalBalance, setTotalBalance] = useState<number>(0);
   const [internalRefreshTrigger, setInternalRefreshTrigger] = useState(0);
+  const [selectionModel, setSelectionModel] = useState<GridRowSelectionModel>({ type: 'include', ids: new Set() });
+  const [bulkType, setBulkType] = useState<TransactionType | ''>('');
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<{ severity: 'success' | 'warning'; text: string } | null>(null);
 
   // Local state for date inputs to prevent immediate re-renders
   const [startDateInput, setStartDateInput] = useState<string>('');
@@ -262,6 +284,44 @@ export const TransactionList: React.FC<TransactionListProps> = ({
     id: transaction.id,
   }));
 
+  // Selected transaction ids; selecting all makes the model list exclusions
+  const selectedIds = rows
+    .map(row => row.id as number)
+    .filter(id => (selectionModel.type === 'include') === selectionModel.ids.has(id));
+
+  // Apply a bulk operation to the selected transactions
+  const handleBulkOperation = async (operation: BulkTransactionOperation) => {
+    if (selectedIds.length === 0) return;
+    if (operation === 'delete' &&
+        !window.confirm(`Delete ${selectedIds.length} transaction(s)? Reconciled and system-generated transactions are kept.`)) {
+      return;
+    }
+
+    setBulkRunning(true);
+    setBulkMessage(null);
+    try {
+      const result: BulkTransactionResult = await window.electronAPI.bulkUpdateTransactions({
+        operation,
+        transaction_ids: selectedIds,
+        transaction_type: operation === 'reclassify' ? bulkType || undefined : undefined,
+      });
+
+      const failures = result.failed.map(f => `#${f.transaction_id}: ${f.error}`).join('; ');
+      setBulkMessage({
+        severity: result.failed.length > 0 ? 'warning' : 'success',
+        text: `${result.succeeded.length} of ${result.requested} transaction(s) updated` +
+          (failures ? `. Not changed - ${failures}` : ''),
+      });
+      setSelectionModel({ type: 'include', ids: new Set() });
+      setInternalRefreshTrigger(prev => prev + 1);
+    } catch (err: any) {
+      console.error('Bulk transaction update failed:', err);
+      setError(err.message || 'Bulk transaction update failed.');
+    } finally {
+      setBulkRunning(false);
+    }
+  };
+
   // Handle filter changes
   const handleFilterChange = (field: keyof TransactionFilters, value: any) => {
     setFilters((prev) => ({
@@ -340,13 +400,9 @@ export const TransactionList: React.FC<TransactionListProps> = ({
             sx={{ minWidth: 150 }}
           >
             <MenuItem value="">All</MenuItem>
-            <MenuItem value="account_opened">Account Opened</MenuItem>
-            <MenuItem value="deposit">Deposit</MenuItem>
-            <MenuItem value="withdrawal">Withdrawal</MenuItem>
-            <MenuItem value="interest">Interest</MenuItem>
-            <MenuItem value="fee">Fee</MenuItem>
-            <MenuItem value="adjustment">Adjustment</MenuItem>
-            <MenuItem value="account_closed">Account Closed</MenuItem>
+            {Object.entries(transactionTypeLabels).map(([value, label]) => (
+              <MenuItem key={value} value={value}>{label}</MenuItem>
+            ))}
           </TextField>
 
           <TextField
@@ -383,6 +439,64 @@ export const TransactionList: React.FC<TransactionListProps> = ({
           />
         </Stack>
 
+        {bulkMessage && (
+          <Alert severity={bulkMessage.severity} onClose={() => setBulkMessage(null)} sx={{ mb: 2 }}>
+            {bulkMessage.text}
+          </Alert>
+        )}
+
+        {selectedIds.length > 0 && (
+          <Stack
+            direction="row"
+            spacing={1}
+            alignItems="center"
+            mb={2}
+            p={1}
+            sx={{ bgcolor: 'action.selected', borderRadius: 1 }}
+            data-testid="bulk-actions"
+          >
+            <Typography variant="body2" sx={{ mr: 1 }}>
+              {selectedIds.length} selected
+            </Typography>
+            <TextField
+              select
+              label="New Type"
+              size="small"
+              value={bulkType}
+              onChange={(e) => setBulkType(e.target.value as TransactionType)}
+              sx={{ minWidth: 160 }}
+            >
+              {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </TextField>
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={!bulkType || bulkRunning}
+              onClick={() => handleBulkOperation('reclassify')}
+            >
+              Reclassify
+            </Button>
+            <Button size="small" variant="outlined" disabled={bulkRunning} onClick={() => handleBulkOperation('reconcile')}>
+              Reconcile
+            </Button>
+            <Button size="small" variant="outlined" disabled={bulkRunning} onClick={() => handleBulkOperation('unreconcile')}>
+              Unreconcile
+            </Button>
+            <Button
+              size="small"
+              variant="outlined"
+              color="error"
+              startIcon={<DeleteIcon />}
+              disabled={bulkRunning}
+              onClick={() => handleBulkOperation('delete')}
+            >
+              Delete
+            </Button>
+          </Stack>
+        )}
+
         <DataGrid
           rows={rows}
           columns={columns}
@@ -395,7 +509,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({
           }}
           pageSizeOptions={[25, 50, 100]}
           autoHeight
+          checkboxSelection
           disableRowSelectionOnClick
+          rowSelectionModel={selectionModel}
+          onRowSelectionModelChange={setSelectionModel}
           data-testid="transaction-grid"
           onCellEditStop={(params: any) => {
             if (params.field === 'bank_date' && params.value !== params.row.bank_date) {
@@ -9,9 +9,24 @@ declare global {
   interface Window {
     electronAPI: {
       // Portfolio data methods
-      getPortfolioSummary: () => Promise<any>;
+      getPortfolioSummary: (ownerId?: number) => Promise<any>;
       getPortfolioHoldings: () => Promise<any>;
-      getAllocationAnalysis: () => Promise<any>;
+      getFSCSBrandGroups: () => Promise<any>;
+      getAllocationAnalysis: (ownerId?: number) => Promise<any>;
+
+      // Household owner methods
+      getAccountOwners: (includeInactive?: boolean) => Promise<any>;
+      createAccountOwner: (owner: any) => Promise<any>;
+      updateAccountOwner: (owner: any) => Promise<any>;
+
+      // Savings tax methods
+      getOwnerTaxProfiles: () => Promise<any[]>;
+      updateOwnerTaxProfile: (profile: any) => Promise<boolean>;
+      getInterestTaxSummary: (basis?: 'projected' | 'received', date?: string) => Promise<any>;
+
+      // ISA allowance methods
+      getIsaAllowanceLedger: (date?: string) => Promise<any>;
+      checkIsaAllowance: (request: any) => Promise<any>;
 
       // Income history methods
       getIncomeHistory: (period?: number, unit?: 'days' | 'weeks' | 'months') => Promise<any>;
@@ -56,8 +71,15 @@ declare global {
       getUpcomingActions: () => Promise<any>;
       getCalendarSummary: () => Promise<any>;
       createRateChange: (rateChange: any) => Promise<any>;
+      getDepositRateHistory: (depositId: number) => Promise<any>;
+      getAllDepositRateHistory: () => Promise<any>;
+      recordDepositRate: (entry: any) => Promise<any>;
+      deleteDepositRate: (id: number) => Promise<any>;
       createNoticeEvent: (noticeEvent: any) => Promise<any>;
       createReminder: (reminder: any) => Promise<any>;
+      getTemporaryHighBalances: (includeInactive?: boolean) => Promise<any>;
+      createTemporaryHighBalance: (thb: any) => Promise<any>;
+      endTemporaryHighBalance: (id: number) => Promise<any>;
       getNoticeAccountStatus: () => Promise<any>;
       updateReminderStatus: (reminderId: number, updates: any) => Promise<any>;
       markRateChangeReminderCompleted: (rateChangeId: number) => Promise<any>;
@@ -72,6 +94,7 @@ declare global {
       checkFSCSCompliance: (options?: any) => Promise<any>;
       generateFSCSDiversification: (options?: any) => Promise<any>;
       runRateOptimization: (options?: any) => Promise<any>;
+      runOptimizationScenario: (overlay: any, options?: any) => Promise<any>;
       approveOptimization: (recommendationIds: string[]) => Promise<any>;
       rejectOptimization: (recommendationId: string, reason?: string) => Promise<any>;
       getActionItems: (filter?: { module?: string; status?: string }) => Promise<any>;
@@ -115,7 +138,11 @@ declare global {
       getAvailableJsonFiles: () => Promise<{ success: boolean; data: string[]; error?: string }>;
 
       // Pipeline/Orchestrator methods
-      executePipeline: (inputFiles: string[]) => Promise<any>;
+      executePipeline: (inputFiles: string[], options?: { dryRun?: boolean }) => Promise<any>;
+      getStagedPipelineRun: () => Promise<any>;
+      commitStagedPipelineRun: () => Promise<any>;
+      discardStagedPipelineRun: () => Promise<any>;
+      getPipelineSourceStatus: () => Promise<any>;
       getPipelineStatus: () => Promise<any>;
       getOrchestratorHealth: () => Promise<any>;
       updatePipelineConfig: (configUpdates: Record<string, string | number | boolean>) => Promise<any>;
@@ -171,6 +198,11 @@ declare global {
       getBOEInstitutions: (filters?: any) => Promise<any>;
       getBankStatsByName: (bankName: string) => Promise<any>;
 
+      // Market history methods
+      getMarketHistory: (days?: number, accountType?: string) => Promise<any>;
+      getProductRateHistory: (productHistoryId: number) => Promise<any>;
+      searchMarketProducts: (searchTerm: string, limit?: number) => Promise<any>;
+
       // Transaction Management methods
       getAccountTransactions: (accountId: number, filters?: any) => Promise<any>;
       createTransaction: (transaction: any) => Promise<any>;
@@ -182,7 +214,17 @@ declare global {
       createTransactionFromBalanceChange: (accountId: number, oldBalance: number, newBalance: number, context: string, notes?: string) => Promise<any>;
       createTransactionFromAudit: (auditEntry: any) => Promise<any>;
       seedTransactionsFromAudit: () => Promise<any>;
+      bulkUpdateTransactions: (request: any) => Promise<any>;
+      getCategorisationRules: () => Promise<any>;
+      createCategorisationRule: (rule: any) => Promise<any>;
+      updateCategorisationRule: (id: number, rule: any) => Promise<any>;
+      deleteCategorisationRule: (id: number) => Promise<any>;
+      suggestTransactionCategory: (transaction: any) => Promise<any>;
       getUnreconciledTransactions: (accountId: number) => Promise<any>;
+      getStatementImportProfiles: () => Promise<any>;
+      selectStatementFile: () => Promise<any>;
+      previewStatementImport: (request: any) => Promise<any>;
+      commitStatementImport: (rows: any[]) => Promise<any>;
 
       // Reconciliation methods
       startReconciliation: (accountId: number, statementDate: string, statementBalance: number, createdBy?: string) => Promise<any>;
@@ -195,9 +237,12 @@ declare global {
       getReconciliationWizardState: (sessionId: number) => Promise<any>;
       addReconciliationAdjustment: (sessionId: number, adjustment: any) => Promise<any>;
       autoMatchTransactions: (sessionId: number, tolerance?: number) => Promise<any>;
+      matchStatementLines: (sessionId: number, request: any) => Promise<any>;
+      applyStatementMatches: (sessionId: number, result: any) => Promise<any>;
 
       // Interest Payment methods
       calculateEstimatedInterest: (account: any) => Promise<any>;
+      getInterestAccrual: (accountId: number, periodStart: string, periodEnd: string) => Promise<any>;
       calculateNextPaymentDate: (account: any) => Promise<any>;
       processInterestPayment: (account: any, interestAmount: number) => Promise<any>;
       getInterestPaymentAnalysis: (accountId: number) => Promise<any>;
@@ -31,12 +31,13 @@ import {
   Schedule as SnoozeIcon,
   Close as DismissIcon,
   ExpandLess as ExpandLessIcon,
+  Shield as ProtectionIcon,
 } from '@mui/icons-material';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import interactionPlugin, { DateClickArg } from '@fullcalendar/interaction';
 import { EventInput, EventClickArg } from '@fullcalendar/core';
-import { RateChangeDialog, NoticeGivenDialog, CustomReminderDialog, EventDetailsDialog } from '../components/dialogs/EventDialogs';
+import { RateChangeDialog, NoticeGivenDialog, CustomReminderDialog, TemporaryHighBalanceDialog, EventDetailsDialog } from '../components/dialogs/EventDialogs';
 import { SnoozeDialog } from '../components/dialogs/SnoozeDialog';
 
 interface CalendarEvent {
@@ -71,6 +72,7 @@ export const Calendar: React.FC<CalendarProps> = () => {
   const [rateChangeDialogOpen, setRateChangeDialogOpen] = useState(false);
   const [noticeDialogOpen, setNoticeDialogOpen] = useState(false);
   const [reminderDialogOpen, setReminderDialogOpen] = useState(false);
+  const [thbDialogOpen, setThbDialogOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string | undefined>();
   
   // Event details dialog state
@@ -88,19 +90,22 @@ export const Calendar: React.FC<CalendarProps> = () => {
   
   // Account data for dialogs
   const [accounts, setAccounts] = useState<any[]>([]);
+  const [pendingDeposits, setPendingDeposits] = useState<any[]>([]);
 
   // Load calendar events, accounts, and snooze config from database
   useEffect(() => {
     const loadData = async () => {
       try {
         setLoading(true);
-        const [eventsResult, accountsResult, configResult] = await Promise.all([
+        const [eventsResult, accountsResult, pendingResult, configResult] = await Promise.all([
           window.electronAPI.getUpcomingActions(),
           window.electronAPI.getAllAccounts(),
+          window.electronAPI.getAllPendingDeposits(),
           window.electronAPI.getSnoozeConfig()
         ]);
         setEvents(eventsResult);
         setAccounts(accountsResult);
+        setPendingDeposits((pendingResult || []).filter((pd: any) => pd.is_active && ['PENDING', 'APPROVED', 'FUNDED'].includes(pd.status)));
         setSnoozeConfig(configResult || {});
         setError(null);
       } catch (err) {
@@ -184,6 +189,19 @@ export const Calendar: React.FC<CalendarProps> = () => {
     }
   };
 
+  const handleCreateTemporaryHighBalance = async (thb: any) => {
+    try {
+      await window.electronAPI.createTemporaryHighBalance(thb);
+      // Raise the expiry reminder straight away so it shows in the calendar
+      await window.electronAPI.processInterestEvents();
+      const eventsResult = await window.electronAPI.getUpcomingActions();
+      setEvents(eventsResult);
+    } catch (error) {
+      console.error('Failed to record temporary high balance:', error);
+      throw error;
+    }
+  };
+
   const openRateChangeDialog = (date?: string) => {
     setSelectedDate(date);
     setRateChangeDialogOpen(true);
@@ -199,6 +217,11 @@ export const Calendar: React.FC<CalendarProps> = () => {
     setReminderDialogOpen(true);
   };
 
+  const openThbDialog = (date?: string) => {
+    setSelectedDate(date);
+    setThbDialogOpen(true);
+  };
+
   const handleEventClickFromMonthView = (event: CalendarEvent) => {
     setSelectedEvent(event);
     setEventDetailsDialogOpen(true);
@@ -511,6 +534,33 @@ export const Calendar: React.FC<CalendarProps> = () => {
                 <ReminderIcon />
               </Fab>
             </Tooltip>
+            
+            <Tooltip title="Record Temporary High Balance" placement="left">
+              <Fab
+                color="info"
+                size="small"
+                aria-label="temporary high balance"
+                onClick={() => {
+                  openThbDialog();
+                  setFabMenuOpen(false);
+                }}
+                sx={{
+                  animation: 'slideInUp 0.05s ease-out',
+                  '@keyframes slideInUp': {
+                    from: {
+                      opacity: 0,
+                      transform: 'translateY(20px) scale(0.8)',
+                    },
+                    to: {
+                      opacity: 1,
+                      transform: 'translateY(0) scale(1)',
+                    },
+                  },
+                }}
+              >
+                <ProtectionIcon />
+              </Fab>
+            </Tooltip>
           </>
         )}
         
@@ -554,6 +604,15 @@ export const Calendar: React.FC<CalendarProps> = () => {
         selectedDate={selectedDate}
       />
       
+      <TemporaryHighBalanceDialog
+        open={thbDialogOpen}
+        onClose={() => setThbDialogOpen(false)}
+        onSubmit={handleCreateTemporaryHighBalance}
+        accounts={accounts}
+        pendingDeposits={pendingDeposits}
+        selectedDate={selectedDate}
+      />
+      
       <EventDetailsDialog
         open={eventDetailsDialogOpen}
         onClose={() => setEventDetailsDialogOpen(false)}
@@ -26,6 +26,8 @@ import {
 import { Configuration as ConfigurationType, AppState } from '@cash-mgmt/shared';
 import { ScraperConfigSettings } from '../components/configuration/ScraperConfigSettings';
 import { FRNNormalizationSettings } from '../components/configuration/FRNNormalizationSettings';
+import { AccountOwnersSettings } from '../components/configuration/AccountOwnersSettings';
+import { CategorisationRulesSettings } from '../components/configuration/CategorisationRulesSettings';
 
 interface ConfigurationProps {
   appState: AppState;
@@ -528,6 +530,16 @@ export const Configuration: React.FC<ConfigurationProps> = ({ appState }) => {
           </Card>
         </Grid>
 
+        {/* Household Owners */}
+        <Grid item xs={12}>
+          <AccountOwnersSettings />
+        </Grid>
+
+        {/* Transaction Categorisation Rules */}
+        <Grid item xs={12}>
+          <CategorisationRulesSettings />
+        </Grid>
+
         {/* Data Collection Settings */}
         <Grid item xs={12}>
           <ScraperConfigSettings />
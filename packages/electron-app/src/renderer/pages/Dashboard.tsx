@@ -12,6 +12,7 @@ import {
   Tooltip,
   Tabs,
   Tab,
+  LinearProgress,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -28,7 +29,7 @@ import {
 } from '@mui/icons-material';
 import { PieChart } from '@mui/x-charts/PieChart';
 import { BarChart } from '@mui/x-charts/BarChart';
-import { PortfolioSummary, AllocationAnalysis, AppState } from '@cash-mgmt/shared';
+import { PortfolioSummary, AllocationAnalysis, AppState, IsaAllowanceLedger } from '@cash-mgmt/shared';
 import { ActionSummaryCards } from '../components/dashboard/ActionSummaryCards';
 import { IncomeHistoryChart } from '../components/IncomeHistoryChart';
 
@@ -53,6 +54,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ appState }) => {
     internalValue: number;
     internalCount: number;
   } | null>(null);
+  const [isaLedger, setIsaLedger] = useState<IsaAllowanceLedger | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState(0);
@@ -103,6 +105,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ appState }) => {
         if (hasPending && results[4]) {
           setPendingMovesSummary(results[4]);
         }
+
+        // ISA allowance is informational - don't fail the dashboard without it
+        try {
+          setIsaLedger(await window.electronAPI.getIsaAllowanceLedger());
+        } catch (isaError) {
+          console.warn('ISA allowance ledger unavailable:', isaError);
+        }
       } catch (err) {
         console.error('Failed to load dashboard data:', err);
         setError('Failed to load portfolio data. Please check your database connection.');
@@ -300,7 +309,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ appState }) => {
                         {formatCurrency(portfolioSummary.annualIncome)}
                       </Typography>
                       <Typography variant="body2" color="textSecondary">
-                        Current deposits
+                        {portfolioSummary.netAnnualIncome !== undefined
+                          ? `${formatCurrency(portfolioSummary.netAnnualIncome)} after tax`
+                          : 'Current deposits'}
                       </Typography>
                     </Box>
                     <TrendingUp color="primary" fontSize="large" />
@@ -449,6 +460,46 @@ export const Dashboard: React.FC<DashboardProps> = ({ appState }) => {
               </Grid>
             </>
           )}
+
+          {/* ISA Allowance (Row 3) */}
+          {isaLedger && isaLedger.owners.length > 0 && (
+            <>
+              <Typography variant="h6" sx={{ mb: 2, mt: 3, color: 'primary.main' }}>
+                ISA Allowance {isaLedger.tax_year}
+              </Typography>
+              <Grid container spacing={3} sx={{ mb: 3 }}>
+                {isaLedger.owners.map(owner => {
+                  const usedPercentage = isaLedger.annual_allowance > 0
+                    ? Math.min(100, (owner.allowance_used + owner.pending_subscriptions) / isaLedger.annual_allowance * 100)
+                    : 100;
+                  return (
+                    <Grid item xs={12} sm={6} md={3} key={owner.owner_id}>
+                      <Card sx={{ height: 140, borderLeft: '4px solid', borderLeftColor: 'primary.main' }}>
+                        <CardContent>
+                          <Typography color="textSecondary" gutterBottom variant="body2">
+                            {owner.owner_name}
+                          </Typography>
+                          <Typography variant="h5">
+                            {formatCurrency(owner.remaining)}
+                          </Typography>
+                          <LinearProgress
+                            variant="determinate"
+                            value={usedPercentage}
+                            color={owner.remaining <= 0 ? 'error' : 'primary'}
+                            sx={{ my: 1 }}
+                          />
+                          <Typography variant="body2" color="textSecondary">
+                            Left of {formatCurrency(isaLedger.annual_allowance)}
+                            {owner.pending_subscriptions > 0 && ` (${formatCurrency(owner.pending_subscriptions)} pending)`}
+                          </Typography>
+                        </CardContent>
+                      </Card>
+                    </Grid>
+                  );
+                })}
+              </Grid>
+            </>
+          )}
         </Box>
       )}
 
@@ -1,9 +1,14 @@
-import React from 'react';
-import { Box, Container, Typography, Breadcrumbs, Link } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Container, Typography, Breadcrumbs, Link, Tabs, Tab } from '@mui/material';
 import { Home as HomeIcon, Storage as DataIcon } from '@mui/icons-material';
 import { ScraperDashboard } from '../components/scraper/ScraperDashboard';
+import { MarketHistory } from '../components/scraper/MarketHistory';
+import { PipelineReview } from '../components/scraper/PipelineReview';
+import { SourceStatus } from '../components/scraper/SourceStatus';
 
 export const DataCollection: React.FC = () => {
+  const [activeTab, setActiveTab] = useState(0);
+
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       {/* Breadcrumb Navigation */}
@@ -29,8 +34,20 @@ export const DataCollection: React.FC = () => {
         </Breadcrumbs>
       </Box>
 
+      <SourceStatus />
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+        <Tabs value={activeTab} onChange={(_, value) => setActiveTab(value)}>
+          <Tab label="Scrapers" />
+          <Tab label="Market History" />
+          <Tab label="Pipeline Review" />
+        </Tabs>
+      </Box>
+
       {/* Main Content */}
-      <ScraperDashboard />
+      {activeTab === 0 && <ScraperDashboard onDryRunStaged={() => setActiveTab(2)} />}
+      {activeTab === 1 && <MarketHistory />}
+      {activeTab === 2 && <PipelineReview />}
       
       {/* Footer Info */}
       <Box sx={{ mt: 4, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
@@ -16,23 +16,52 @@ import {
   IconButton,
   Stack,
   Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Collapse,
 } from '@mui/material';
 import { DataGrid, GridColDef, GridRowsProp, GridRenderCellParams } from '@mui/x-data-grid';
 import {
   Close as CloseIcon,
   AccountBalance as TransactionsIcon,
   Settings as SettingsIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
 } from '@mui/icons-material';
-import { PortfolioHolding, AppState, Deposit } from '@cash-mgmt/shared';
+import { PortfolioHolding, PortfolioSummary, AppState, Deposit, AccountOwner, FSCSBrandGroup, DepositRateHistoryEntry } from '@cash-mgmt/shared';
 import { Transaction, TransactionForm } from '@cash-mgmt/shared';
 import { TransactionList } from '../components/transactions/TransactionList';
 import { TransactionEntry } from '../components/transactions/TransactionEntry';
 import { ReconciliationWizard } from '../components/reconciliation/ReconciliationWizard';
+import { RateSparkline } from '../components/rates/RateSparkline';
+import { RateHistoryPanel } from '../components/rates/RateHistoryPanel';
 
 interface HoldingsProps {
   appState: AppState;
 }
 
+type GroupBy = 'account' | 'brand' | 'licence';
+
+interface HoldingGroup {
+  key: string;
+  name: string;
+  detail?: string; // FRN for brands; brands sharing the limit for licences
+  note?: string;   // Brands in the licence group not held, or held separately
+  holdings: PortfolioHolding[];
+  balance: number;
+  weightedRate: number;
+  brandCount: number;
+}
+
 interface TabPanelProps {
   children?: React.ReactNode;
   index: number;
@@ -61,6 +90,19 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
+  // Owner filter state (household view when 'all')
+  const [owners, setOwners] = useState<AccountOwner[]>([]);
+  const [ownerFilter, setOwnerFilter] = useState<number | 'all'>('all');
+  const [ownerSummary, setOwnerSummary] = useState<PortfolioSummary | null>(null);
+
+  // Grouping: one row per account, per brand or per FSCS licence (FRN)
+  const [groupBy, setGroupBy] = useState<GroupBy>('account');
+  const [brandGroups, setBrandGroups] = useState<FSCSBrandGroup[]>([]);
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+
+  // Rate history per deposit, for the rate sparklines
+  const [rateHistory, setRateHistory] = useState<Record<number, DepositRateHistoryEntry[]>>({});
+  
   // Account detail dialog state
   const [selectedAccount, setSelectedAccount] = useState<Deposit | null>(null);
   const [accountDetailOpen, setAccountDetailOpen] = useState(false);
@@ -90,6 +132,28 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
         // Load full deposit details for transactions
         const depositsData = await window.electronAPI.getAllDeposits();
         setDeposits(depositsData);
+
+        // Brand groups only add detail to the licence view
+        try {
+          setBrandGroups(await window.electronAPI.getFSCSBrandGroups() || []);
+        } catch (groupError) {
+          console.error('Failed to load FSCS brand groups:', groupError);
+        }
+
+        // Rate history only adds the sparklines
+        try {
+          setRateHistory(await window.electronAPI.getAllDepositRateHistory() || {});
+        } catch (historyError) {
+          console.error('Failed to load rate history:', historyError);
+        }
+
+        // Owners are optional - a single-person household has none to filter by
+        try {
+          const ownerList = await window.electronAPI.getAccountOwners();
+          setOwners(ownerList || []);
+        } catch (ownerError) {
+          console.error('Failed to load account owners:', ownerError);
+        }
       } catch (err) {
         console.error('Failed to load data:', err);
         setError('Failed to load portfolio data.');
@@ -101,6 +165,24 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
     loadData();
   }, [appState.lastRefresh]);
 
+  useEffect(() => {
+    const loadOwnerSummary = async () => {
+      if (ownerFilter === 'all') {
+        setOwnerSummary(null);
+        return;
+      }
+
+      try {
+        setOwnerSummary(await window.electronAPI.getPortfolioSummary(ownerFilter));
+      } catch (err) {
+        console.error('Failed to load owner summary:', err);
+        setOwnerSummary(null);
+      }
+    };
+
+    loadOwnerSummary();
+  }, [ownerFilter, appState.lastRefresh]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-GB', {
       style: 'currency',
@@ -142,6 +224,20 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
     }
   };
 
+  // Reload rates after one is recorded or removed in the account dialog
+  const handleRatesChanged = async () => {
+    try {
+      setRateHistory(await window.electronAPI.getAllDepositRateHistory() || {});
+      setHoldings(await window.electronAPI.getPortfolioHoldings());
+      const depositsData: Deposit[] = await window.electronAPI.getAllDeposits();
+      setDeposits(depositsData);
+      const refreshed = depositsData.find(d => d.id === selectedAccount?.id);
+      if (refreshed) setSelectedAccount(refreshed);
+    } catch (err) {
+      console.error('Failed to refresh rates:', err);
+    }
+  };
+
   // Handle opening reconciliation
   const handleOpenReconciliation = () => {
     if (!selectedAccount) return;
@@ -151,6 +247,13 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
 
   const columns: GridColDef[] = [
     { field: 'bank', headerName: 'Bank', width: 150 },
+    {
+      field: 'ownerIds',
+      headerName: 'Owners',
+      width: 130,
+      valueGetter: (value: number[] | undefined) =>
+        (value || []).map(id => owners.find(owner => owner.id === id)?.name || `Owner ${id}`).join(' & '),
+    },
     { field: 'accountType', headerName: 'Account Type', width: 150 },
     { 
       field: 'balance', 
@@ -164,6 +267,18 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
       width: 80,
       valueFormatter: (value) => formatPercentage(value),
     },
+    {
+      field: 'rateHistory',
+      headerName: 'Rate History',
+      width: 110,
+      sortable: false,
+      renderCell: (params: GridRenderCellParams) => (
+        <RateSparkline
+          history={params.row.depositId !== undefined ? rateHistory[params.row.depositId] || [] : []}
+          currentRate={params.row.rate}
+        />
+      ),
+    },
     { field: 'platform', headerName: 'Platform', width: 120 },
     { field: 'liquidityTier', headerName: 'Tier', width: 80 },
     { 
@@ -201,10 +316,54 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
     },
   ];
 
-  const rows: GridRowsProp = holdings.map((holding, index) => ({
-    id: index,
-    ...holding,
-  }));
+  // Row ids index into holdings, so filter after numbering
+  const rows: GridRowsProp = holdings
+    .map((holding, index) => ({
+      id: index,
+      ...holding,
+    }))
+    .filter(row => ownerFilter === 'all' || (row.ownerIds || []).includes(ownerFilter));
+
+  const groupHoldings = (holdingsToGroup: PortfolioHolding[], by: 'brand' | 'licence'): HoldingGroup[] => {
+    const byKey = new Map<string, PortfolioHolding[]>();
+    for (const holding of holdingsToGroup) {
+      const key = by === 'brand' ? holding.bank : holding.frn || `no-frn:${holding.bank}`;
+      byKey.set(key, [...(byKey.get(key) || []), holding]);
+    }
+
+    return Array.from(byKey, ([key, members]) => {
+      const balance = members.reduce((sum, h) => sum + h.balance, 0);
+      const weightedRate = balance > 0 ? members.reduce((sum, h) => sum + h.balance * h.rate, 0) / balance : 0;
+      const brands = Array.from(new Set(members.map(h => h.bank)));
+      const group: HoldingGroup = { key, name: members[0].bank, holdings: members, balance, weightedRate, brandCount: brands.length };
+
+      if (by === 'brand') {
+        const frns = Array.from(new Set(members.map(h => h.frn).filter(Boolean)));
+        group.detail = frns.length > 0 ? `FRN ${frns.join(', ')}` : 'No FRN';
+        return group;
+      }
+
+      const licence = brandGroups.find(g => g.frn === members[0].frn);
+      group.name = licence?.firmName || members[0].bank;
+      group.detail = members[0].frn
+        ? `FRN ${members[0].frn}${brands.length > 1 ? ` · ${brands.join(' + ')} share one FSCS limit` : ''}`
+        : 'No FRN - FSCS cover unknown';
+
+      const heldKeys = new Set(brands.map(b => b.toUpperCase()));
+      const otherBrands = (licence?.sharedBrands || []).filter(b => !heldKeys.has(b.toUpperCase()));
+      const notes: string[] = [];
+      if (otherBrands.length > 0) {
+        notes.push(`Limit also covers ${otherBrands.join(', ')}`);
+      }
+      if (licence && licence.separateLicences.length > 0) {
+        notes.push(`Separately licensed: ${licence.separateLicences.map(s => s.tradingName).join(', ')}`);
+      }
+      if (notes.length > 0) group.note = notes.join(' · ');
+      return group;
+    }).sort((a, b) => b.balance - a.balance);
+  };
+
+  const groups = groupBy === 'account' ? [] : groupHoldings(rows as unknown as PortfolioHolding[], groupBy);
 
   if (loading) {
     return (
@@ -224,10 +383,132 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Portfolio Holdings
-      </Typography>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h4">
+          Portfolio Holdings
+        </Typography>
+        {owners.length > 1 && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            {ownerSummary && (
+              <>
+                <Chip label={`Share of balances: ${formatCurrency(ownerSummary.totalValue)}`} />
+                <Chip label={`Annual income: ${formatCurrency(ownerSummary.annualIncome)}`} />
+                {ownerSummary.netAnnualIncome !== undefined && (
+                  <Chip label={`After tax: ${formatCurrency(ownerSummary.netAnnualIncome)}`} />
+                )}
+              </>
+            )}
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel id="holdings-owner-filter-label">Owner</InputLabel>
+              <Select
+                labelId="holdings-owner-filter-label"
+                label="Owner"
+                value={ownerFilter}
+                onChange={(e) => setOwnerFilter(e.target.value as number | 'all')}
+              >
+                <MenuItem value="all">Household</MenuItem>
+                {owners.map(owner => (
+                  <MenuItem key={owner.id} value={owner.id}>{owner.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        )}
+      </Stack>
       
+      <Stack direction="row" justifyContent="flex-end" sx={{ mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={groupBy}
+          onChange={(_, value: GroupBy | null) => value && setGroupBy(value)}
+        >
+          <ToggleButton value="account">Accounts</ToggleButton>
+          <ToggleButton value="brand">By Brand</ToggleButton>
+          <ToggleButton value="licence">By FSCS Licence</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {groupBy !== 'account' ? (
+        <Card>
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>{groupBy === 'brand' ? 'Brand' : 'Licence (Authorised Firm)'}</TableCell>
+                  <TableCell align="right">Accounts</TableCell>
+                  <TableCell align="right">Balance</TableCell>
+                  <TableCell align="right">Avg Rate</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {groups.map(group => (
+                  <React.Fragment key={group.key}>
+                    <TableRow hover>
+                      <TableCell padding="checkbox">
+                        <IconButton
+                          size="small"
+                          onClick={() => setExpandedGroup(expandedGroup === group.key ? null : group.key)}
+                        >
+                          {expandedGroup === group.key ? <CollapseIcon /> : <ExpandIcon />}
+                        </IconButton>
+                      </TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="body2" fontWeight="medium">{group.name}</Typography>
+                          {groupBy === 'licence' && group.brandCount > 1 && (
+                            <Chip size="small" color="warning" variant="outlined" label={`${group.brandCount} brands, one limit`} />
+                          )}
+                        </Stack>
+                        {group.detail && (
+                          <Typography variant="caption" color="text.secondary" display="block">{group.detail}</Typography>
+                        )}
+                        {group.note && (
+                          <Typography variant="caption" color="text.secondary" display="block">{group.note}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{group.holdings.length}</TableCell>
+                      <TableCell align="right">{formatCurrency(group.balance)}</TableCell>
+                      <TableCell align="right">{formatPercentage(group.weightedRate)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={5} sx={{ py: 0, borderBottom: expandedGroup === group.key ? undefined : 'none' }}>
+                        <Collapse in={expandedGroup === group.key} unmountOnExit>
+                          <Table size="small" sx={{ my: 1 }}>
+                            <TableBody>
+                              {group.holdings.map((holding, index) => (
+                                <TableRow key={`${group.key}-${index}`}>
+                                  <TableCell>{holding.bank}</TableCell>
+                                  <TableCell>{holding.accountType}</TableCell>
+                                  <TableCell>{holding.platform}</TableCell>
+                                  <TableCell align="right">{formatCurrency(holding.balance)}</TableCell>
+                                  <TableCell align="right">{formatPercentage(holding.rate)}</TableCell>
+                                  <TableCell align="right">
+                                    {holding.depositId !== undefined && (
+                                      <Button
+                                        size="small"
+                                        startIcon={<TransactionsIcon />}
+                                        onClick={() => handleOpenAccountDetail(holding.depositId!)}
+                                      >
+                                        Transactions
+                                      </Button>
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
       <Card>
         <CardContent>
           <Box sx={{ height: 600, width: '100%' }}>
@@ -247,6 +528,7 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
           </Box>
         </CardContent>
       </Card>
+      )}
 
       {/* Account Detail Dialog */}
       <Dialog
@@ -346,6 +628,8 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
                       <Typography variant="body1">{selectedAccount.notes}</Typography>
                     </Box>
                   )}
+
+                  <RateHistoryPanel account={selectedAccount} onChanged={handleRatesChanged} />
                 </Stack>
               </TabPanel>
 
@@ -385,6 +669,7 @@ export const Holdings: React.FC<HoldingsProps> = ({ appState }) => {
           transaction={editingTransaction}
           accountId={selectedAccount.id}
           currentBalance={selectedAccount.balance || 0}
+          onImported={() => setTransactionRefreshTrigger(prev => prev + 1)}
         />
       )}
 
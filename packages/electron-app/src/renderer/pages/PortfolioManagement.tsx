@@ -61,9 +61,10 @@ import {
   Description as DocumentsIcon,
   AttachMoney as AttachMoneyIcon,
 } from '@mui/icons-material';
-import { Deposit } from '@cash-mgmt/shared';
+import { Deposit, AccountOwner } from '@cash-mgmt/shared';
 import { Transaction, TransactionForm, InterestConfiguration } from '@cash-mgmt/shared';
 import { PendingMoveForm } from '../components/PendingMoveForm';
+import { OwnerSelect } from '../components/OwnerSelect';
 import { ExecutePendingMoveDialog } from '../components/ExecutePendingMoveDialog';
 import { AuditViewer } from '../components/AuditViewer';
 import { ViewModeProvider } from '../components/ViewModeContext';
@@ -139,6 +140,8 @@ export const PortfolioManagement: React.FC = () => {
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [hasAttemptedSave, setHasAttemptedSave] = useState(false);
   const [showPending, setShowPending] = useState(false); // Toggle for current vs pending deposits
+  const [owners, setOwners] = useState<AccountOwner[]>([]);
+  const [ownerFilter, setOwnerFilter] = useState<number | 'all'>('all');
   const [liquidityTiers, setLiquidityTiers] = useState<any[]>([]);
   const [tiersLoaded, setTiersLoaded] = useState(false);
   const [platforms, setPlatforms] = useState<any[]>([]);
@@ -373,6 +376,15 @@ export const PortfolioManagement: React.FC = () => {
       minWidth: 150,
       flex: 0
     },
+    {
+      field: 'owner_ids',
+      headerName: 'Owners',
+      width: 130,
+      minWidth: 130,
+      flex: 0,
+      valueGetter: (value: number[] | undefined) =>
+        (value || []).map(id => owners.find(owner => owner.id === id)?.name || `Owner ${id}`).join(' & '),
+    },
     { 
       field: 'sub_type', 
       headerName: 'Type', 
@@ -505,6 +517,7 @@ export const PortfolioManagement: React.FC = () => {
     loadDeposits();
     loadLiquidityTiers();
     loadPlatforms();
+    loadOwners();
   }, []);
 
   useEffect(() => {
@@ -522,6 +535,20 @@ export const PortfolioManagement: React.FC = () => {
     }
   };
 
+  const loadOwners = async () => {
+    try {
+      const ownerList = await window.electronAPI.getAccountOwners();
+      setOwners(ownerList || []);
+    } catch (error) {
+      console.error('Error loading account owners:', error);
+    }
+  };
+
+  // Deposits owned (solely or jointly) by the selected owner
+  const visibleDeposits = ownerFilter === 'all'
+    ? deposits
+    : deposits.filter((d: any) => (d.owner_ids || []).includes(ownerFilter));
+
   const loadPlatforms = async () => {
     try {
       const platformList = await window.electronAPI.getPlatformsForDropdown();
@@ -1027,8 +1054,26 @@ export const PortfolioManagement: React.FC = () => {
             />
           </Box>
           
+          {owners.length > 1 && (
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel id="owner-filter-label">Owner</InputLabel>
+              <Select
+                labelId="owner-filter-label"
+                label="Owner"
+                value={ownerFilter}
+                onChange={(e) => setOwnerFilter(e.target.value as number | 'all')}
+                data-testid="owner-filter"
+              >
+                <MenuItem value="all">Household</MenuItem>
+                {owners.map(owner => (
+                  <MenuItem key={owner.id} value={owner.id}>{owner.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          
           <Typography variant="body2" color="text.secondary">
-            {deposits.length} {showPending ? 'pending moves' : 'deposits'} • £{deposits.reduce((sum, d: any) => {
+            {visibleDeposits.length} {showPending ? 'pending moves' : 'deposits'} • £{visibleDeposits.reduce((sum, d: any) => {
               const amount = d.balance || 0;
               return sum + amount;
             }, 0).toLocaleString()} total
@@ -1057,7 +1102,7 @@ export const PortfolioManagement: React.FC = () => {
 
       <div style={{ height: 700, width: '100%' }}>
         <DataGrid
-          rows={deposits}
+          rows={visibleDeposits}
           columns={columns}
           loading={loading}
           checkboxSelection
@@ -1192,6 +1237,13 @@ export const PortfolioManagement: React.FC = () => {
                       <FormHelperText error>{validationErrors.sub_type}</FormHelperText>
                     )}
                   </Grid>
+                  <Grid item xs={12} md={6}>
+                    <OwnerSelect
+                      value={formData.owner_ids || []}
+                      onChange={(ownerIds) => handleInputChange('owner_ids', ownerIds)}
+                      disabled={viewMode === 'view'}
+                    />
+                  </Grid>
                   <Grid item xs={12} md={6}>
                     <SmartSelect
                       label="Liquidity Tier"
@@ -1254,6 +1306,17 @@ export const PortfolioManagement: React.FC = () => {
                       }}
                     />
                   </Grid>
+                  {formData.is_isa && (
+                    <Grid item xs={12} md={6}>
+                      <SmartCheckbox
+                        label="Flexible ISA"
+                        checkboxProps={{
+                          checked: Boolean(formData.is_flexible_isa),
+                          onChange: (e) => handleInputChange('is_flexible_isa', e.target.checked),
+                        }}
+                      />
+                    </Grid>
+                  )}
                   <Grid item xs={12} md={6}>
                     <SmartCheckbox
                       label="Active Account"
@@ -1971,6 +2034,7 @@ export const PortfolioManagement: React.FC = () => {
           transaction={editingTransaction}
           accountId={selectedAccountForTransactions.id}
           currentBalance={selectedAccountForTransactions.balance || 0}
+          onImported={() => setTransactionRefreshTrigger(prev => prev + 1)}
         />
       )}
       
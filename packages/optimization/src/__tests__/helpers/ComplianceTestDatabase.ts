@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+
+/**
+ * Compliance Test Database Helper
+ *
+ * Builds a throwaway database file with the tables the FSCS compliance engine
+ * reads, applies the named migrations and then the test's own rows, so suites
+ * do not need the Phase 4 template database that FSCSTestDatabase copies.
+ */
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../../data/database/migrations');
+
+const BASE_SCHEMA = `
+  CREATE TABLE unified_config (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    config_key TEXT NOT NULL UNIQUE,
+    config_value TEXT NOT NULL,
+    config_type TEXT NOT NULL DEFAULT 'string',
+    category TEXT NOT NULL,
+    description TEXT,
+    is_active INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE compliance_config (
+    config_key TEXT PRIMARY KEY,
+    config_value TEXT NOT NULL,
+    config_type TEXT NOT NULL DEFAULT 'string'
+  );
+
+  CREATE TABLE institution_preferences (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    frn TEXT NOT NULL,
+    bank_name TEXT NOT NULL,
+    personal_limit INTEGER DEFAULT 85000,
+    easy_access_required_above_fscs NUMERIC DEFAULT TRUE,
+    risk_notes TEXT,
+    trust_level TEXT DEFAULT 'medium'
+  );
+
+  CREATE TABLE my_deposits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bank TEXT NOT NULL,
+    frn TEXT,
+    type TEXT NOT NULL DEFAULT 'Savings',
+    sub_type TEXT NOT NULL DEFAULT 'Easy Access',
+    balance REAL DEFAULT 0,
+    is_joint_account INTEGER DEFAULT 0,
+    num_account_holders INTEGER DEFAULT 1,
+    is_active INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE my_pending_deposits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bank TEXT NOT NULL,
+    frn TEXT,
+    type TEXT NOT NULL DEFAULT 'Savings',
+    sub_type TEXT NOT NULL DEFAULT 'Easy Access',
+    balance REAL DEFAULT 0,
+    is_joint_account INTEGER DEFAULT 0,
+    num_account_holders INTEGER DEFAULT 1,
+    is_active INTEGER DEFAULT 1,
+    status TEXT DEFAULT 'PENDING'
+  );
+
+  CREATE TABLE boe_institutions (
+    frn TEXT PRIMARY KEY,
+    firm_name TEXT NOT NULL
+  );
+
+  CREATE TABLE boe_shared_brands (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    primary_frn TEXT NOT NULL REFERENCES boe_institutions(frn),
+    primary_firm_name TEXT NOT NULL,
+    trading_name TEXT NOT NULL,
+    brand_type TEXT NOT NULL DEFAULT 'trading_name'
+  );
+
+  INSERT INTO compliance_config (config_key, config_value, config_type) VALUES ('fscs_standard_limit', '85000', 'number');
+`;
+
+export function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => db.exec(sql, err => err ? reject(err) : resolve()));
+}
+
+export function closeDatabase(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close(err => err ? reject(err) : resolve()));
+}
+
+/**
+ * Create a database file with the base tables, the named migrations and the given rows
+ * @returns Path to pass to FSCSComplianceEngine
+ */
+export async function createComplianceTestDatabase(migrations: string[], seed: string): Promise<string> {
+  const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'fscs-compliance-')), 'test.db');
+  const db = new sqlite3.Database(dbPath);
+  try {
+    await exec(db, BASE_SCHEMA);
+    for (const migration of migrations) {
+      await exec(db, fs.readFileSync(path.join(MIGRATIONS_DIR, migration), 'utf8'));
+    }
+    await exec(db, seed);
+  } finally {
+    await closeDatabase(db);
+  }
+  return dbPath;
+}
+
+export function removeComplianceTestDatabase(dbPath: string): void {
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+}
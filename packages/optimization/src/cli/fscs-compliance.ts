@@ -9,7 +9,7 @@
  */
 
 import { Command } from 'commander';
-import { FSCSComplianceEngine, ComplianceReport, ComplianceBreach } from '../compliance/fscs';
+import { FSCSComplianceEngine, ComplianceReport, ComplianceBreach, ComplianceOptions } from '../compliance/fscs';
 import { DiversificationEngine, DiversificationRecommendation } from '../compliance/diversification';
 import { CalendarEvent, ActionItem } from '../types/shared';
 import { SQLiteConnection } from '../database/connection';
@@ -26,6 +26,9 @@ interface CLIOptions {
   warningThreshold?: string;
   excludeFrns?: string;
   accountType?: 'easy_access' | 'notice' | 'fixed_term';
+  asOf?: string;
+  owner?: string;
+  byOwner?: boolean;
   // New integration flags
   includeCalendarEvents?: boolean;
   includeActionItems?: boolean;
@@ -36,6 +39,7 @@ interface CLIOptions {
 
 interface FullComplianceReport extends ComplianceReport {
   diversificationRecommendations?: DiversificationRecommendation[];
+  ownerReports?: ComplianceReport[];
 }
 
 // Default output directory configuration
@@ -122,6 +126,9 @@ program
   .option('--warning-threshold <percent>', 'warning threshold as percentage of limit', '0.9')
   .option('--exclude-frns <frns>', 'comma-separated FRNs to exclude from diversification targets')
   .option('--account-type <type>', 'account type for diversification', 'easy_access')
+  .option('--as-of <date>', 'report date (YYYY-MM-DD) used to select the FSCS limit in force')
+  .option('--owner <id>', 'report on one account owner\'s share of the portfolio')
+  .option('--by-owner', 'add a report per account owner to the household report', false)
   .option('-o, --output [file]', 'output to file (if no file specified, uses timestamp in default directory)')
   .option('--auto-save', 'automatically save to default directory with timestamp', false)
   .option('--include-calendar-events', 'generate calendar events for breaches', false)
@@ -159,10 +166,24 @@ program
       }
       
       // Generate compliance report
-      const report = await complianceEngine.generateComplianceReport({
+      if (options.asOf && !/^\d{4}-\d{2}-\d{2}$/.test(options.asOf)) {
+        throw new Error(`Invalid --as-of date: ${options.asOf} (expected YYYY-MM-DD)`);
+      }
+      
+      const complianceOptions: ComplianceOptions = {
         includePendingDeposits: options.includePending || false,
         warningThreshold: parseFloat(options.warningThreshold || '0.9')
-      });
+      };
+      if (options.asOf) complianceOptions.asOfDate = options.asOf;
+      if (options.owner !== undefined) {
+        const ownerId = parseInt(options.owner, 10);
+        if (isNaN(ownerId)) {
+          throw new Error(`Invalid --owner id: ${options.owner}`);
+        }
+        complianceOptions.ownerId = ownerId;
+      }
+      
+      const report = await complianceEngine.generateComplianceReport(complianceOptions);
       
       // Progress: Checking breaches
       if (options.progress) {
@@ -172,6 +193,10 @@ program
       // Cast to full report type
       const fullReport: FullComplianceReport = report;
       
+      if (options.byOwner && complianceOptions.ownerId === undefined) {
+        fullReport.ownerReports = await complianceEngine.generateOwnerReports(complianceOptions);
+      }
+      
       // Add diversification recommendations if requested and needed
       let diversifications: DiversificationRecommendation[] = [];
       if (options.diversify && report.breaches.length > 0) {
@@ -188,7 +213,8 @@ program
           {
             maxAcceptableRateLoss: parseFloat(options.maxRateLoss || '0.5'),
             excludeFRNs,
-            accountType: options.accountType || 'easy_access'
+            accountType: options.accountType || 'easy_access',
+            asOfDate: report.asOfDate
           }
         );
         fullReport.diversificationRecommendations = diversifications;
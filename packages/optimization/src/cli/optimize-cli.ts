@@ -11,6 +11,8 @@ import { ProductLoader } from '../products/loader';
 import { PortfolioLoader } from '../portfolio/loader';
 import { OptimizationRulesEngine } from '../rules/engine';
 import { Optimizer } from '../optimization/optimizer';
+import { RecommendationServiceImpl } from '../services/recommendation-service-impl';
+import { OptimizationOptions, ScenarioResult } from '../services/recommendation-service';
 import { getLogger } from '../utils/logger';
 import { 
   ModuleResult, 
@@ -18,10 +20,9 @@ import {
   CalendarEvent, 
   ActionItem 
 } from '../types/integration';
-import { Recommendation } from '../types';
+import { Recommendation, OptimizationOverrides, PortfolioAnalysis, Portfolio, ScenarioOverlay } from '../types';
 
-// Parse command line arguments
-function parseArgs(args: string[]): {
+interface CliOptions {
   format: 'json' | 'text';
   includeCalendarEvents: boolean;
   includeActionItems: boolean;
@@ -30,36 +31,87 @@ function parseArgs(args: string[]): {
   progress: boolean;
   debug: boolean;
   database?: string;
-} {
-  const options: {
-    format: 'json' | 'text';
-    includeCalendarEvents: boolean;
-    includeActionItems: boolean;
-    outputFile?: string;
-    silent: boolean;
-    progress: boolean;
-    debug: boolean;
-    database?: string;
-  } = {
+  analyzeOnly: boolean;
+  scenarioCommand: boolean;
+  scenario?: ScenarioOverlay;
+  overrides: OptimizationOverrides;
+}
+
+// Value following a flag; the next flag is never taken as a value
+function flagValue(flag: string, value: string | undefined): string {
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`${flag} requires a value`);
+  }
+  return value;
+}
+
+function flagAmount(flag: string, value: string | undefined): number {
+  const amount = Number(flagValue(flag, value));
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`${flag} must be a non-negative number, got "${value}"`);
+  }
+  return amount;
+}
+
+function flagList(flag: string, value: string | undefined): string[] {
+  return flagValue(flag, value).split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function flagScenario(flag: string, value: string | undefined): ScenarioOverlay {
+  const json = flagValue(flag, value);
+  let overlay: unknown;
+  try {
+    overlay = JSON.parse(json);
+  } catch {
+    throw new Error(`${flag} must be a JSON scenario overlay`);
+  }
+  if (!overlay || typeof overlay !== 'object' || Array.isArray(overlay)) {
+    throw new Error(`${flag} must be a JSON object`);
+  }
+  return overlay as ScenarioOverlay;
+}
+
+// Parse command line arguments
+// Throws on unknown flags so options the caller expects are never silently ignored
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
     format: 'text',
     includeCalendarEvents: false,
     includeActionItems: false,
     silent: false,
     progress: false,
-    debug: false
+    debug: false,
+    analyzeOnly: false,
+    scenarioCommand: false,
+    overrides: {}
   };
 
   for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+    const arg = args[i]!;
     const nextArg = args[i + 1];
 
     switch (arg) {
-      case '--format':
-        if (nextArg === 'json' || nextArg === 'text') {
-          options.format = nextArg;
-          i++;
+      // Subcommand sent first by the Electron subprocess service
+      case 'optimize':
+        if (i !== 0) throw new Error(`Unexpected argument: ${arg}`);
+        break;
+      case 'analyze':
+        if (i !== 0) throw new Error(`Unexpected argument: ${arg}`);
+        options.analyzeOnly = true;
+        break;
+      case 'scenario':
+        if (i !== 0) throw new Error(`Unexpected argument: ${arg}`);
+        options.scenarioCommand = true;
+        break;
+      case '--format': {
+        const format = flagValue(arg, nextArg);
+        if (format !== 'json' && format !== 'text') {
+          throw new Error(`--format must be json or text, got "${format}"`);
         }
+        options.format = format;
+        i++;
         break;
+      }
       case '--json':
         options.format = 'json';
         break;
@@ -70,10 +122,8 @@ function parseArgs(args: string[]): {
         options.includeActionItems = true;
         break;
       case '--output':
-        if (nextArg) {
-          options.outputFile = nextArg;
-          i++;
-        }
+        options.outputFile = flagValue(arg, nextArg);
+        i++;
         break;
       case '--silent':
         options.silent = true;
@@ -85,19 +135,61 @@ function parseArgs(args: string[]): {
         options.debug = true;
         break;
       case '--database':
-        if (nextArg) {
-          options.database = nextArg;
-          i++;
-        }
+        options.database = flagValue(arg, nextArg);
+        i++;
+        break;
+      case '--no-sharia':
+      case '--exclude-sharia':
+        options.overrides.allowShariaBanks = false;
         break;
+      case '--exclude-products':
+        options.overrides.excludedProducts = flagList(arg, nextArg);
+        i++;
+        break;
+      case '--preferred-platforms':
+        options.overrides.preferredPlatforms = flagList(arg, nextArg);
+        i++;
+        break;
+      case '--minimum-balance':
+        options.overrides.minimumBalance = flagAmount(arg, nextArg);
+        i++;
+        break;
+      case '--min-move-amount':
+        options.overrides.minMoveAmount = flagAmount(arg, nextArg);
+        i++;
+        break;
+      case '--min-benefit':
+        options.overrides.minBenefit = flagAmount(arg, nextArg);
+        i++;
+        break;
+      case '--horizon-months': {
+        const months = flagAmount(arg, nextArg);
+        if (months === 0) throw new Error(`${arg} must be at least 1`);
+        options.overrides.horizonMonths = months;
+        i++;
+        break;
+      }
+      case '--analyze-only':
+        options.analyzeOnly = true;
+        break;
+      case '--scenario':
+        options.scenario = flagScenario(arg, nextArg);
+        i++;
+        break;
+      default:
+        throw new Error(arg.startsWith('-') ? `Unknown option: ${arg}` : `Unexpected argument: ${arg}`);
     }
   }
 
+  if (options.scenarioCommand && !options.scenario) {
+    throw new Error('scenario requires --scenario <json>');
+  }
+
   return options;
 }
 
 // Report progress to stderr
-function reportProgress(percent: number, message: string, options: ReturnType<typeof parseArgs>) {
+function reportProgress(percent: number, message: string, options: CliOptions) {
   if (options.progress) {
     process.stderr.write(`PROGRESS:${percent}:${message}\n`);
   }
@@ -192,6 +284,7 @@ function generateActionItems(recommendations: Recommendation[]): ActionItem[] {
           annualBenefit: r.benefits.annualBenefit.amount,
           platform: r.target.platform,
           institutionFRN: r.target.institutionFRN,
+          accountHolder: r.target.accountHolder,
           reason: r.recommendationReason,
           confidence: r.confidence,
           compliance: r.compliance,
@@ -208,6 +301,148 @@ function generateActionItems(recommendations: Recommendation[]): ActionItem[] {
   return items;
 }
 
+// Output a read-only portfolio analysis
+async function outputAnalysis(
+  analysis: PortfolioAnalysis,
+  portfolio: Portfolio,
+  run: { executionTime: number; productsEvaluated: number },
+  options: CliOptions,
+  logger: ReturnType<typeof getLogger>
+): Promise<void> {
+  if (options.format === 'json') {
+    const result: ModuleResult = {
+      version: '1.0.0',
+      timestamp: new Date().toISOString(),
+      status: 'SUCCESS',
+      module: 'rate-optimizer',
+      summary: {
+        totalAccounts: portfolio.accounts.length,
+        totalValue: portfolio.totalValue.amount,
+        recommendationCount: 0,
+        urgentActions: 0,
+        totalBenefit: analysis.potentialAnnualGain.amount
+      },
+      recommendations: [],
+      calendarEvents: [],
+      actionItems: [],
+      metadata: {
+        executionTime: run.executionTime,
+        configVersion: '1.0.0',
+        accountsProcessed: portfolio.accounts.length,
+        productsEvaluated: run.productsEvaluated,
+        analyzeOnly: true,
+        analysis
+      }
+    };
+    const output = JSON.stringify(result, null, 2);
+
+    if (options.outputFile) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(options.outputFile, output);
+      if (!options.silent) {
+        logger.info(`Output saved to ${options.outputFile}`);
+      }
+    } else {
+      console.log(output);
+    }
+    return;
+  }
+
+  if (options.silent) return;
+
+  logger.info(`\nPortfolio value: £${analysis.totalValue.amount.toLocaleString()} at ${analysis.weightedAverageRate.toFixed(2)}% weighted average`);
+  for (const tier of analysis.tiers) {
+    const best = tier.bestAvailableRate !== undefined ? `${tier.bestAvailableRate.toFixed(2)}%` : 'no products';
+    logger.info(`  ${tier.liquidityTier}: ${tier.accountCount} accounts, £${tier.totalBalance.amount.toLocaleString()} at ${tier.weightedAverageRate.toFixed(2)}% (best available ${best})`);
+  }
+  logger.info(`\n${analysis.underperformingAccounts.length} accounts below the best available rate`);
+  for (const gap of analysis.underperformingAccounts) {
+    logger.info(`  ${gap.bankName}: £${gap.balance.amount.toLocaleString()} at ${gap.currentRate.toFixed(2)}% vs ${gap.bestAvailableRate.toFixed(2)}% at ${gap.bestAvailableBank} (+£${gap.annualGain.amount.toFixed(0)}/year)`);
+  }
+  logger.info(`Potential annual gain before FSCS limits and tax: £${analysis.potentialAnnualGain.amount.toFixed(2)}`);
+}
+
+// Output a what-if scenario compared with the current portfolio
+async function outputScenario(
+  result: ScenarioResult,
+  run: { executionTime: number },
+  options: CliOptions,
+  logger: ReturnType<typeof getLogger>
+): Promise<void> {
+  if (options.format === 'json') {
+    const output: ModuleResult = {
+      version: '1.0.0',
+      timestamp: new Date().toISOString(),
+      status: result.warnings.length > 0 ? 'WARNING' : 'SUCCESS',
+      module: 'rate-optimizer',
+      summary: {
+        totalAccounts: result.scenario.accountCount,
+        totalValue: result.scenario.totalValue,
+        recommendationCount: result.scenario.recommendations.length,
+        urgentActions: 0,
+        totalBenefit: result.scenario.totalBenefit
+      },
+      recommendations: [],
+      calendarEvents: [],
+      actionItems: [],
+      metadata: {
+        executionTime: run.executionTime,
+        configVersion: '1.0.0',
+        scenario: result
+      }
+    };
+    const text = JSON.stringify(output, null, 2);
+
+    if (options.outputFile) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(options.outputFile, text);
+      if (!options.silent) {
+        logger.info(`Output saved to ${options.outputFile}`);
+      }
+    } else {
+      console.log(text);
+    }
+    return;
+  }
+
+  if (options.silent) return;
+
+  const { baseline, scenario, diff } = result;
+  logger.info(`\nScenario${result.overlay.name ? `: ${result.overlay.name}` : ''}`);
+  for (const warning of result.warnings) {
+    logger.warning(`  ${warning}`);
+  }
+  logger.info(`  Portfolio value: £${baseline.totalValue.toLocaleString()} → £${scenario.totalValue.toLocaleString()}`);
+  logger.info(`  Weighted average rate: ${baseline.weightedAverageRate.toFixed(2)}% → ${scenario.weightedAverageRate.toFixed(2)}%`);
+  logger.info(`  Annual interest: £${baseline.annualInterest.toFixed(0)} → £${scenario.annualInterest.toFixed(0)}`);
+  logger.info(`  Recommendation benefit: £${baseline.totalBenefit.toFixed(0)} → £${scenario.totalBenefit.toFixed(0)} per year`);
+  logger.info(`  FSCS status: ${baseline.compliance.status} → ${scenario.compliance.status}`);
+  for (const rec of diff.addedRecommendations) {
+    logger.info(`  + ${rec.source.bankName} → ${rec.target.bankName}: £${rec.source.amount.amount.toLocaleString()} (+£${rec.benefits.annualBenefit.amount.toFixed(0)}/year)`);
+  }
+  for (const rec of diff.removedRecommendations) {
+    logger.info(`  - ${rec.source.bankName} → ${rec.target.bankName}: £${rec.source.amount.amount.toLocaleString()}`);
+  }
+  if (diff.newBreaches.length > 0) logger.info(`  New FSCS breaches: ${diff.newBreaches.join(', ')}`);
+  if (diff.resolvedBreaches.length > 0) logger.info(`  Resolved FSCS breaches: ${diff.resolvedBreaches.join(', ')}`);
+}
+
+// Recommendation service options equivalent to the run overrides
+function serviceOptions(options: CliOptions): OptimizationOptions {
+  const { overrides } = options;
+  const serviceOptions: OptimizationOptions = {
+    includeShariaBanks: overrides.allowShariaBanks ?? true,
+    progressCallback: (percent, message) => reportProgress(percent, message, options)
+  };
+  if (overrides.excludedProducts) serviceOptions.excludedProducts = overrides.excludedProducts;
+  if (overrides.preferredPlatforms) serviceOptions.preferredPlatforms = overrides.preferredPlatforms;
+  if (overrides.minimumBalance !== undefined) serviceOptions.minimumBalance = overrides.minimumBalance;
+  if (overrides.minMoveAmount !== undefined) serviceOptions.minMoveAmount = overrides.minMoveAmount;
+  if (overrides.minBenefit !== undefined) serviceOptions.minBenefit = overrides.minBenefit;
+  if (overrides.horizonMonths !== undefined) serviceOptions.horizonMonths = overrides.horizonMonths;
+  return serviceOptions;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   
@@ -223,6 +458,16 @@ Options:
   --silent                Suppress console output
   --output <file>         Save output to file
   --database <path>       Database path
+  --no-sharia             Exclude Sharia banks (alias: --exclude-sharia)
+  --exclude-products <list>    Comma-separated product ids, FRNs or bank names to exclude
+  --preferred-platforms <list> Comma-separated platforms, replacing the configured list
+  --minimum-balance <amount>   Ignore accounts with a smaller balance (default: 1000)
+  --min-move-amount <amount>   Smallest amount worth moving
+  --min-benefit <amount>       Minimum annual benefit per recommendation
+  --horizon-months <months>    Value moves over this many months, net of switching costs (default: 12)
+  --analyze-only          Report rate gaps without generating or saving anything
+  --scenario <json>       Compare a what-if overlay with the current portfolio (nothing is saved)
+                          e.g. '{"withdrawals":[{"accountId":"12"}],"rateChanges":[{"frn":"123456","newRate":3.1}]}'
   --help                  Show this help message
 
 Example:
@@ -231,7 +476,14 @@ Example:
     process.exit(0);
   }
   
-  const options = parseArgs(args);
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error('Run with --help for usage');
+    process.exit(2);
+  }
   
   // Set up logger
   const logger = getLogger({ 
@@ -248,16 +500,28 @@ Example:
       throw new Error('Database path is required. Use --database flag or set DATABASE_PATH environment variable.');
     }
     const dbPath = options.database || process.env.DATABASE_PATH!;
+    
+    if (options.scenario) {
+      const service = new RecommendationServiceImpl(dbPath);
+      try {
+        const result = await service.runScenario(options.scenario, serviceOptions(options));
+        await outputScenario(result, { executionTime: Date.now() - startTime }, options, logger);
+      } finally {
+        await service.close();
+      }
+      process.exit(0);
+    }
+    
     const db = new SQLiteConnection(dbPath);
     
     reportProgress(10, 'Connecting to database', options);
     await db.connect();
     
-    // Clear previous optimizer data to avoid accumulation
-    if (options.includeCalendarEvents) {
+    // Clear previous optimizer data to avoid accumulation (analysis is read-only)
+    if (options.includeCalendarEvents && !options.analyzeOnly) {
       await db.query(`DELETE FROM calendar_events WHERE module = 'rate-optimizer'`);
     }
-    if (options.includeActionItems) {
+    if (options.includeActionItems && !options.analyzeOnly) {
       await db.query(`DELETE FROM action_items WHERE module = 'rate-optimizer'`);
     }
     
@@ -282,10 +546,25 @@ Example:
 
     // Create and run optimizer
     reportProgress(50, 'Analyzing opportunities', options);
-    const optimizer = new Optimizer(rulesEngine, configLoader, productLoader);
+    const optimizer = new Optimizer(rulesEngine, configLoader, productLoader, options.overrides);
+    
+    if (options.analyzeOnly) {
+      const analysis = await optimizer.analyzePortfolio(portfolio);
+      reportProgress(95, 'Preparing output', options);
+      await outputAnalysis(
+        analysis,
+        portfolio,
+        { executionTime: Date.now() - startTime, productsEvaluated: await productLoader.getProductCount() },
+        options,
+        logger
+      );
+      reportProgress(100, 'Complete', options);
+      await db.close();
+      process.exit(0);
+    }
     
     reportProgress(70, 'Generating recommendations', options);
-    const recommendations = await optimizer.optimize(portfolio);
+    const { recommendations, maturityLadder } = await optimizer.optimizeWithLadder(portfolio);
 
     // Generate calendar events if requested
     let calendarEvents: CalendarEvent[] = [];
@@ -383,7 +662,10 @@ Example:
         JSON.stringify({
           displayMode: rec.displayMode,
           compliance: rec.compliance,
-          implementationNotes: rec.implementationNotes
+          implementationNotes: rec.implementationNotes,
+          targetLiquidityTier: rec.target.liquidityTier,
+          maturityDate: rec.target.maturityDate,
+          accountHolder: rec.target.accountHolder
         })
       ]);
     }
@@ -420,7 +702,8 @@ Example:
         executionTime: Date.now() - startTime,
         configVersion: '1.0.0',
         accountsProcessed: portfolio.accounts.length,
-        productsEvaluated: await productLoader.getProductCount()
+        productsEvaluated: await productLoader.getProductCount(),
+        maturityLadder
       }
     };
 
@@ -443,6 +726,7 @@ Example:
         logger.info(`\nGenerated ${recommendations.length} recommendations`);
         logger.info(`Total annual benefit: £${totalBenefit.toFixed(2)}`);
         logger.info(`Average rate improvement: ${avgImprovement.toFixed(2)}%`);
+        logger.info(`Emergency liquidity after ladder: £${maturityLadder.emergencyLiquidity.amount.toFixed(2)} (target £${maturityLadder.emergencyLiquidityTarget.amount.toFixed(2)})`);
         
         if (options.includeCalendarEvents) {
           logger.info(`Created ${calendarEvents.length} calendar events`);
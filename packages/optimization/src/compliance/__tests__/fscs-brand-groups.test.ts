@@ -0,0 +1,66 @@
+/**
+ * Shared FSCS licence tests
+ * Brands trading under one FRN share a limit; separately licensed group brands do not
+ */
+
+import { FSCSComplianceEngine } from '../fscs';
+import { buildBrandGroups, describeSharedLicence, sharesLicence } from '../brand-groups';
+import { createComplianceTestDatabase, removeComplianceTestDatabase } from '../../__tests__/helpers/ComplianceTestDatabase';
+
+const SEED = `
+  INSERT INTO boe_institutions VALUES ('300', 'Group Bank PLC'), ('400', 'Sister Bank Ltd');
+  INSERT INTO boe_shared_brands (primary_frn, primary_firm_name, trading_name, licence_type, licence_frn) VALUES
+    ('300', 'Group Bank PLC', 'Brand A', 'shared', NULL),
+    ('300', 'Group Bank PLC', 'Brand B', 'shared', NULL),
+    ('300', 'Group Bank PLC', 'Sister Bank', 'separate', '400');
+  -- Neither account breaches alone, together they exceed the shared limit
+  INSERT INTO my_deposits (id, frn, bank, balance) VALUES
+    (1, '300', 'Brand A', 60000),
+    (2, '300', 'Brand B', 50000),
+    (3, '400', 'Sister Bank', 50000);
+`;
+
+describe('Shared FSCS licences', () => {
+  let dbPath: string;
+
+  beforeAll(async () => {
+    dbPath = await createComplianceTestDatabase(['015_fscs_brand_groups.sql'], SEED);
+  });
+
+  afterAll(() => {
+    removeComplianceTestDatabase(dbPath);
+  });
+
+  it('explains a breach across brands that share one licence', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const report = await engine.generateComplianceReport();
+    engine.close();
+
+    expect(report.breaches.map(b => b.frn)).toEqual(['300']);
+    expect(report.breaches[0]!.sharedLicence).toBe(
+      'Brand A + Brand B share £85,000 (FRN 300, Group Bank PLC); ' +
+      'Sister Bank (FRN 400) is in the same group but separately licensed, with its own limit'
+    );
+
+    const group = report.exposures.find(e => e.frn === '300')!.sharedLicence!;
+    expect(group.firmName).toBe('Group Bank PLC');
+    expect(group.brands).toEqual(['Brand A', 'Brand B']);
+    expect(group.separateLicences).toEqual([{ tradingName: 'Sister Bank', frn: '400' }]);
+
+    // The separately licensed brand is measured against its own limit
+    expect(report.exposures.find(e => e.frn === '400')!.sharedLicence).toBeUndefined();
+  });
+
+  it('names brands in the group that are not held and summarises long lists', () => {
+    const groups = buildBrandGroups(['One', 'Two', 'Three', 'Four', 'Five'].map(name => ({
+      frn: '500', firm_name: 'Big Bank PLC', trading_name: name, licence_type: 'shared', licence_frn: null
+    })));
+    const group = groups.get('500');
+
+    expect(describeSharedLicence('500', group, ['Five'], 85000))
+      .toBe('Five + One + Two + Three and 1 more share £85,000 (FRN 500, Big Bank PLC)');
+    expect(describeSharedLicence('600', undefined, ['Solo Bank'], 85000)).toBeUndefined();
+    expect(sharesLicence(group, 'big bank plc')).toBe(true);
+    expect(sharesLicence(group, 'Other Bank')).toBe(false);
+  });
+});
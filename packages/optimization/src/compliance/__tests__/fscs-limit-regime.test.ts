@@ -0,0 +1,47 @@
+/**
+ * FSCS limit regime tests
+ * Builds a throwaway database from the migrations so no test fixture is required
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { loadFSCSLimitRegime } from '../fscs';
+import { closeDatabase, createComplianceTestDatabase, removeComplianceTestDatabase } from '../../__tests__/helpers/ComplianceTestDatabase';
+
+describe('loadFSCSLimitRegime', () => {
+  let dbPath: string;
+  let db: sqlite3.Database;
+
+  beforeAll(async () => {
+    dbPath = await createComplianceTestDatabase(['006_fscs_limit_regime.sql'], '');
+    db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+  });
+
+  afterAll(async () => {
+    await closeDatabase(db);
+    removeComplianceTestDatabase(dbPath);
+  });
+
+  it('uses the limit in force on the report date', async () => {
+    const regime = await loadFSCSLimitRegime(db, '2025-11-30');
+    expect(regime?.regulatoryLimit.amount).toBe(85000);
+    expect(regime?.nearLimitThreshold.amount).toBe(80000);
+    expect(regime?.effectiveFrom).toEqual(new Date('2017-01-30'));
+  });
+
+  it('applies a new limit and near-limit level from its effective date', async () => {
+    const regime = await loadFSCSLimitRegime(db, '2025-12-01');
+    expect(regime?.regulatoryLimit.amount).toBe(120000);
+    expect(regime?.nearLimitThreshold.amount).toBe(115000);
+    expect(regime?.jointMultiplier).toBe(2);
+  });
+
+  it('returns null before the first regime', async () => {
+    expect(await loadFSCSLimitRegime(db, '2010-01-01')).toBeNull();
+  });
+
+  it('returns null when the table does not exist', async () => {
+    const emptyDb = new sqlite3.Database(':memory:');
+    expect(await loadFSCSLimitRegime(emptyDb, '2025-12-01')).toBeNull();
+    emptyDb.close();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Per-owner FSCS compliance tests
+ * Builds a throwaway database from the migrations so no test fixture is required
+ */
+
+import { FSCSComplianceEngine } from '../fscs';
+import { createComplianceTestDatabase, removeComplianceTestDatabase } from '../../__tests__/helpers/ComplianceTestDatabase';
+
+// Migration 008 creates the primary owner, renamed here as it would be in the app
+const SEED = `
+  UPDATE account_owners SET name = 'Alex' WHERE is_primary = 1;
+  INSERT INTO account_owners (id, name, is_primary) VALUES (2, 'Sam', 0);
+  -- Two sole accounts at the same bank: a breach for one person, but not for the household
+  INSERT INTO my_deposits (id, frn, bank, balance, is_joint_account) VALUES
+    (1, '100', 'Shared Bank', 80000, 0),
+    (2, '100', 'Shared Bank', 80000, 0),
+    (3, '200', 'Joint Bank', 120000, 1),
+    (4, '200', 'Joint Bank', 40000, 0);
+  INSERT INTO deposit_owners (deposit_id, owner_id) VALUES (1, 1), (2, 2), (3, 1), (3, 2), (4, 1);
+`;
+
+describe('Per-owner FSCS compliance', () => {
+  let dbPath: string;
+
+  beforeAll(async () => {
+    dbPath = await createComplianceTestDatabase(['008_account_owners.sql'], SEED);
+  });
+
+  afterAll(() => {
+    removeComplianceTestDatabase(dbPath);
+  });
+
+  it('measures each owner against their own limit with joint funds split equally', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const alex = await engine.generateComplianceReport({ ownerId: 1 });
+    const sam = await engine.generateComplianceReport({ ownerId: 2 });
+    engine.close();
+
+    expect(alex.owner).toEqual({ id: 1, name: 'Alex' });
+    expect(alex.summary.totalValue).toBe(80000 + 60000 + 40000);
+    expect(alex.breaches.map(b => b.frn)).toEqual(['200']);
+    expect(alex.breaches[0]!.effectiveLimit).toBe(85000);
+
+    expect(sam.summary.totalValue).toBe(80000 + 60000);
+    expect(sam.breaches).toHaveLength(0);
+  });
+
+  it('produces one report per active owner alongside the household view', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const household = await engine.generateComplianceReport();
+    const owners = await engine.generateOwnerReports();
+    engine.close();
+
+    expect(household.owner).toBeUndefined();
+    expect(household.summary.totalValue).toBe(320000);
+    expect(owners.map(r => r.owner!.name)).toEqual(['Alex', 'Sam']);
+  });
+
+  it('rejects an unknown owner', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    await expect(engine.generateComplianceReport({ ownerId: 99 })).rejects.toThrow('Account owner not found: 99');
+    engine.close();
+  });
+});
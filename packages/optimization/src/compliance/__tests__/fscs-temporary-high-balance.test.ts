@@ -0,0 +1,71 @@
+/**
+ * Temporary high balance (THB) protection tests
+ * Builds a throwaway database from the migrations so no test fixture is required
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { FSCSComplianceEngine, loadTemporaryHighBalances } from '../fscs';
+import { closeDatabase, createComplianceTestDatabase, removeComplianceTestDatabase } from '../../__tests__/helpers/ComplianceTestDatabase';
+
+const SEED = `
+  INSERT INTO my_deposits (id, frn, bank, balance) VALUES (1, '100', 'House Sale Bank', 400000);
+  INSERT INTO my_pending_deposits (id, frn, bank, balance, status) VALUES (7, '200', 'Inheritance Bank', 150000, 'PENDING');
+  INSERT INTO temporary_high_balances (deposit_id, pending_deposit_id, reason, start_date, expiry_date, protected_amount) VALUES
+    (1, NULL, 'property_sale', '2026-03-01', '2026-09-01', 500000),
+    (NULL, 7, 'inheritance', '2026-04-01', '2026-10-01', 50000);
+`;
+
+describe('Temporary high balance protection', () => {
+  let dbPath: string;
+
+  beforeAll(async () => {
+    dbPath = await createComplianceTestDatabase(['007_temporary_high_balance.sql'], SEED);
+  });
+
+  afterAll(() => {
+    removeComplianceTestDatabase(dbPath);
+  });
+
+  it('loads only events whose window covers the report date', async () => {
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+    const before = await loadTemporaryHighBalances(db, '2026-02-28');
+    const during = await loadTemporaryHighBalances(db, '2026-05-01');
+    const lapsed = await loadTemporaryHighBalances(db, '2026-09-01');
+    await closeDatabase(db);
+
+    expect(before).toHaveLength(0);
+    expect(during.map(thb => thb.accountId)).toEqual(['1', 'pending_7']);
+    expect(lapsed.map(thb => thb.accountId)).toEqual(['pending_7']);
+  });
+
+  it('treats a lump sum as protected until the window expires', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const report = await engine.generateComplianceReport({ asOfDate: '2026-08-02' });
+    engine.close();
+
+    const exposure = report.exposures.find(e => e.frn === '100')!;
+    expect(report.breaches).toHaveLength(0);
+    expect(exposure.protectionType).toBe('temporary_high_balance');
+    expect(exposure.effectiveLimit).toBe(485000); // Standard limit plus THB cover capped at the balance
+    expect(exposure.temporaryHighBalance).toEqual({ protectedAmount: 400000, expiryDate: '2026-09-01', daysRemaining: 30 });
+  });
+
+  it('flags the balance as a breach once protection lapses', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const report = await engine.generateComplianceReport({ asOfDate: '2026-09-01' });
+    engine.close();
+
+    expect(report.breaches.map(b => b.frn)).toEqual(['100']);
+    expect(report.breaches[0]!.excessAmount).toBe(400000 - 85000 - 500);
+  });
+
+  it('caps cover for pending deposits at the recorded amount', async () => {
+    const engine = new FSCSComplianceEngine(dbPath);
+    const report = await engine.generateComplianceReport({ asOfDate: '2026-05-01', includePendingDeposits: true });
+    engine.close();
+
+    const breach = report.breaches.find(b => b.frn === '200')!;
+    expect(breach.effectiveLimit).toBe(135000);
+    expect(breach.protectionType).toBe('temporary_high_balance');
+  });
+});
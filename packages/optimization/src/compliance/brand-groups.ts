@@ -0,0 +1,131 @@
+/**
+ * FSCS Brand Groups
+ *
+ * FSCS protection is per authorised firm (FRN), not per brand, so every
+ * brand trading under one licence shares a single limit per person.
+ * boe_shared_brands maps each FRN to its trading names. A brand flagged as
+ * a separate licence (migration 015) belongs to the group but is authorised
+ * in its own right, with its own FRN and limit.
+ */
+
+import * as sqlite3 from 'sqlite3';
+
+export interface SeparateLicenceBrand {
+  tradingName: string;
+  frn: string | null; // The brand's own FRN, when known
+}
+
+export interface BrandGroup {
+  frn: string;
+  firmName: string;
+  sharedBrands: string[]; // Trading names covered by this FRN's limit
+  separateLicences: SeparateLicenceBrand[];
+}
+
+export interface BrandGroupRow {
+  frn: string;
+  firm_name: string;
+  trading_name: string;
+  licence_type: string;
+  licence_frn: string | null;
+}
+
+export const BRAND_GROUP_QUERY = `
+  SELECT bi.frn, bi.firm_name, sb.trading_name, sb.licence_type, sb.licence_frn
+  FROM boe_shared_brands sb
+  JOIN boe_institutions bi ON bi.frn = sb.primary_frn
+  WHERE UPPER(sb.trading_name) != UPPER(bi.firm_name)
+  ORDER BY bi.frn, sb.trading_name
+`;
+
+// Brands named in an explanation before the rest are summarised
+const MAX_NAMED_BRANDS = 4;
+
+/**
+ * Group brand rows by FRN
+ */
+export function buildBrandGroups(rows: BrandGroupRow[]): Map<string, BrandGroup> {
+  const groups = new Map<string, BrandGroup>();
+
+  for (const row of rows) {
+    let group = groups.get(row.frn);
+    if (!group) {
+      group = { frn: row.frn, firmName: row.firm_name, sharedBrands: [], separateLicences: [] };
+      groups.set(row.frn, group);
+    }
+
+    if (row.licence_type === 'separate') {
+      group.separateLicences.push({ tradingName: row.trading_name, frn: row.licence_frn });
+    } else if (!containsBrand(group.sharedBrands, row.trading_name)) {
+      group.sharedBrands.push(row.trading_name);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Load brand groups keyed by FRN
+ * Resolves an empty map when boe_shared_brands predates migration 015
+ */
+export function loadBrandGroups(db: sqlite3.Database): Promise<Map<string, BrandGroup>> {
+  return new Promise((resolve) => {
+    db.all(BRAND_GROUP_QUERY, [], (err, rows: BrandGroupRow[]) => {
+      resolve(err || !rows ? new Map() : buildBrandGroups(rows));
+    });
+  });
+}
+
+/**
+ * Brands sharing one licence: those held or offered first, then the rest of the group
+ */
+export function licenceBrands(group: BrandGroup | undefined, knownBrands: Iterable<string>): string[] {
+  const brands: string[] = [];
+  for (const brand of [...knownBrands, ...(group?.sharedBrands || [])]) {
+    if (brand && !containsBrand(brands, brand)) {
+      brands.push(brand);
+    }
+  }
+  return brands;
+}
+
+/**
+ * Explain a limit shared across brands, e.g.
+ * "Bank A + Bank B share £85,000 (FRN 123456, Bank A plc)"
+ * Undefined when only one brand uses the licence and none of the group is separately licensed
+ */
+export function describeSharedLicence(
+  frn: string,
+  group: BrandGroup | undefined,
+  knownBrands: Iterable<string>,
+  limit: number
+): string | undefined {
+  const brands = licenceBrands(group, knownBrands);
+  const separate = group?.separateLicences || [];
+  if (brands.length < 2 && separate.length === 0) return undefined;
+
+  const parts: string[] = [];
+  if (brands.length >= 2) {
+    const named = brands.slice(0, MAX_NAMED_BRANDS).join(' + ');
+    const more = brands.length > MAX_NAMED_BRANDS ? ` and ${brands.length - MAX_NAMED_BRANDS} more` : '';
+    parts.push(`${named}${more} share £${Math.round(limit).toLocaleString('en-GB')} (FRN ${frn}${group ? `, ${group.firmName}` : ''})`);
+  }
+  if (separate.length > 0) {
+    const names = separate.map(s => s.frn ? `${s.tradingName} (FRN ${s.frn})` : s.tradingName).join(', ');
+    parts.push(`${names} ${separate.length === 1 ? 'is' : 'are'} in the same group but separately licensed, with ${separate.length === 1 ? 'its' : 'their'} own limit`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Whether a brand trades under a group's licence
+ */
+export function sharesLicence(group: BrandGroup | undefined, brand: string): boolean {
+  if (!group) return false;
+  return containsBrand([group.firmName, ...group.sharedBrands], brand);
+}
+
+function containsBrand(brands: string[], brand: string): boolean {
+  const key = brand.trim().toUpperCase();
+  return brands.some(b => b.trim().toUpperCase() === key);
+}
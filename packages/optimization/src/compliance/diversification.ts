@@ -11,10 +11,13 @@
  * - Handles easy_access_required_above_fscs constraints
  * - Single optimal diversification plan based on rate loss tolerance
  * - Priority algorithm: Amount at risk (largest first)
+ * - Brand groups: brands sharing the breached licence are never targets,
+ *   and limits shared across brands are explained
  */
 
 import * as sqlite3 from 'sqlite3';
-import { ComplianceBreach, InstitutionPreference, ComplianceConfig } from './fscs';
+import { ComplianceBreach, InstitutionPreference, ComplianceConfig, loadFSCSLimitRegime } from './fscs';
+import { BrandGroup, describeSharedLicence, loadBrandGroups, sharesLicence } from './brand-groups';
 import { getLogger } from '../utils/logger';
 
 export interface AvailableProduct {
@@ -39,6 +42,7 @@ export interface TargetAllocation {
   rateDifference: number;
   recommendedAmount: number;
   requiresEasyAccess: boolean;
+  sharedLicence?: string; // Other brands whose balances use the same headroom
 }
 
 export interface DiversificationRecommendation {
@@ -56,12 +60,14 @@ export interface DiversificationOptions {
   maxAcceptableRateLoss?: number; // Default from config
   excludeFRNs?: string[]; // FRNs to exclude from targets
   accountType?: 'easy_access' | 'notice' | 'fixed_term'; // Default 'easy_access'
+  asOfDate?: string; // YYYY-MM-DD, selects the FSCS limit regime in force (default today)
 }
 
 export class DiversificationEngine {
   private db: sqlite3.Database;
   private config: ComplianceConfig | null = null;
   private institutionPreferences: Map<string, InstitutionPreference> = new Map();
+  private brandGroups: Map<string, BrandGroup> = new Map();
   private logger = getLogger({ component: 'fscs-diversification' });
   
   constructor(dbPath: string) {
@@ -77,8 +83,9 @@ export class DiversificationEngine {
     options: DiversificationOptions = {}
   ): Promise<DiversificationRecommendation[]> {
     // Load configuration and preferences
-    await this.loadConfiguration();
+    await this.loadConfiguration(options.asOfDate || new Date().toISOString().split('T')[0]!);
     await this.loadInstitutionPreferences();
+    this.brandGroups = await loadBrandGroups(this.db);
     
     const { 
       maxAcceptableRateLoss = await this.getDefaultRateLoss(),
@@ -131,6 +138,13 @@ export class DiversificationEngine {
         notes = 'Moving funds from government-protected institution';
       } else if (breach.protectionType === 'personal_override') {
         notes = breach.riskNotes || 'Moving funds from institution with personal override limit';
+      } else if (breach.protectionType === 'temporary_high_balance') {
+        notes = 'Excess is above temporary high balance protection';
+      }
+      
+      // The whole group's balances count towards the breach, not just the brand named
+      if (breach.sharedLicence) {
+        notes = notes ? `${notes}. ${breach.sharedLicence}` : breach.sharedLicence;
       }
       
       const recommendation: DiversificationRecommendation = {
@@ -153,7 +167,7 @@ export class DiversificationEngine {
     return recommendations;
   }
   
-  private async loadConfiguration(): Promise<void> {
+  private async loadConfiguration(asOfDate: string): Promise<void> {
     const query = `
       SELECT config_key, config_value, config_type
       FROM compliance_config
@@ -166,7 +180,7 @@ export class DiversificationEngine {
       )
     `;
     
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       this.db.all(query, [], (err, rows: any[]) => {
         if (err) {
           reject(err);
@@ -198,6 +212,14 @@ export class DiversificationEngine {
         resolve();
       });
     });
+    
+    // The dated regime takes precedence over the single compliance_config value
+    const regime = await loadFSCSLimitRegime(this.db, asOfDate);
+    if (regime) {
+      this.config!.fscsStandardLimit = regime.regulatoryLimit.amount;
+      this.config!.fscsJointMultiplier = regime.jointMultiplier;
+      this.config!.fscsNearLimitThreshold = regime.nearLimitThreshold.amount;
+    }
   }
   
   private async loadInstitutionPreferences(): Promise<void> {
@@ -351,9 +373,14 @@ export class DiversificationEngine {
     // Group products by FRN and find best rate for each FRN
     const bestProductsByFRN = new Map<string, AvailableProduct>();
     
+    const breachGroup = this.brandGroups.get(breach.frn);
+    
     for (const product of products) {
       if (!product.frn || product.frn === breach.frn) continue;
       
+      // A brand trading under the breached licence adds to the same exposure
+      if (sharesLicence(breachGroup, product.bankName)) continue;
+      
       const existing = bestProductsByFRN.get(product.frn);
       if (!existing || product.aerRate > existing.aerRate) {
         bestProductsByFRN.set(product.frn, product);
@@ -382,6 +409,7 @@ export class DiversificationEngine {
       const institutionPref = this.institutionPreferences.get(frn);
       const effectiveLimit = institutionPref?.personalLimit || this.config!.fscsStandardLimit;
       const requiresEasyAccess = institutionPref?.easyAccessRequiredAboveFSCS || false;
+      const sharedLicence = describeSharedLicence(frn, this.brandGroups.get(frn), [product.bankName], effectiveLimit);
       
       targets.push({
         frn: product.frn,
@@ -392,7 +420,8 @@ export class DiversificationEngine {
         effectiveLimit,
         rateDifference: -rateLoss, // Negative because it's a loss
         recommendedAmount: 0, // Will be set by optimizeAllocation
-        requiresEasyAccess
+        requiresEasyAccess,
+        ...(sharedLicence && { sharedLicence })
       });
     }
     
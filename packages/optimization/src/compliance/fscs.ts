@@ -8,11 +8,18 @@
  * - Uses institution_preferences for personal/override limits
  * - Respects easy_access_required_above_fscs field
  * - All configuration from compliance_config table (no hardcoded values)
+ * - Effective-dated statutory limits from fscs_limit_regime (reports are reproducible for any date)
+ * - Temporary high balance (THB) events protect lump sums above the limit until their window expires
+ * - Per-owner reports measure each household member's share (joint funds split equally) against their own limit
+ * - Brand groups explain limits shared by brands trading under one licence
  * - Government institution support (e.g., NS&I with £2M limit)
  * - JSON output for subprocess integration
  */
 
 import * as sqlite3 from 'sqlite3';
+import { FSCSLimitRegime } from '../types';
+import { Money } from '../utils/money';
+import { BrandGroup, SeparateLicenceBrand, describeSharedLicence, licenceBrands, loadBrandGroups } from './brand-groups';
 
 // Types
 export interface Account {
@@ -43,6 +50,15 @@ export interface ComplianceConfig {
   personalFSCSOverrideEnabled: boolean;
 }
 
+export interface TemporaryHighBalance {
+  id: number;
+  accountId: string; // Matches Account.id ('pending_' prefix for pending deposits)
+  reason: string;
+  startDate: string;
+  expiryDate: string;
+  protectedAmount: number; // Cap on the amount covered above the standard limit
+}
+
 export interface FRNExposure {
   frn: string;
   institutions: Set<string>;
@@ -54,6 +70,16 @@ export interface FRNExposure {
   effectiveExposure: number;
   isJointAccount: boolean;
   institutionPreference?: InstitutionPreference;
+  thbProtectedAmount: number;
+  temporaryHighBalances: TemporaryHighBalance[];
+  brandGroup?: BrandGroup;
+}
+
+export interface SharedLicence {
+  firmName: string | null;
+  brands: string[]; // Held brands first, then the rest of the group
+  separateLicences: SeparateLicenceBrand[];
+  explanation: string; // e.g. "Bank A + Bank B share £85,000 (FRN 123456, Bank A plc)"
 }
 
 export interface ComplianceBreach {
@@ -67,6 +93,7 @@ export interface ComplianceBreach {
   accountIds: string[];
   protectionType: string;
   riskNotes?: string;
+  sharedLicence?: string;
 }
 
 export interface ComplianceWarning {
@@ -76,6 +103,7 @@ export interface ComplianceWarning {
   effectiveLimit: number;
   percentageOfLimit: number;
   message: string;
+  sharedLicence?: string;
 }
 
 export interface RiskMetrics {
@@ -93,9 +121,17 @@ export interface RiskMetrics {
   };
 }
 
+export interface AccountOwnerRef {
+  id: number;
+  name: string;
+}
+
 export interface ComplianceReport {
   version: string;
   timestamp: string;
+  asOfDate: string;
+  limitRegime: FSCSLimitRegime;
+  owner?: AccountOwnerRef; // Set for per-owner reports; household report otherwise
   status: 'COMPLIANT' | 'WARNING' | 'BREACH';
   summary: {
     totalAccounts: number;
@@ -117,20 +153,103 @@ export interface ComplianceReport {
     protectionType: string;
     complianceStatus: 'VIOLATION' | 'TOLERANCE' | 'WARNING' | 'NEAR_LIMIT' | 'COMPLIANT';
     amountOverLimit?: number;
+    temporaryHighBalance?: {
+      protectedAmount: number;
+      expiryDate: string; // Earliest expiry across the FRN's THB events
+      daysRemaining: number;
+    };
+    sharedLicence?: SharedLicence;
   }>;
+  temporaryHighBalances: Array<TemporaryHighBalance & { daysRemaining: number }>;
   riskMetrics: RiskMetrics;
 }
 
 export interface ComplianceOptions {
   includePendingDeposits?: boolean;
   warningThreshold?: number; // Default from config
+  asOfDate?: string; // YYYY-MM-DD, selects the limit regime in force (default today)
+  ownerId?: number; // Report on one owner's share of each account instead of the household
+  accounts?: Account[]; // Evaluate these accounts instead of the stored deposits (what-if scenarios)
+}
+
+/**
+ * Load the FSCS limit regime in force on a date
+ * Resolves null when fscs_limit_regime is missing or has no regime for the date
+ */
+export function loadFSCSLimitRegime(db: sqlite3.Database, asOfDate: string): Promise<FSCSLimitRegime | null> {
+  const query = `
+    SELECT effective_from, regulatory_limit, joint_multiplier, near_limit_threshold, source
+    FROM fscs_limit_regime
+    WHERE effective_from <= ?
+    ORDER BY effective_from DESC
+    LIMIT 1
+  `;
+
+  return new Promise((resolve) => {
+    db.get(query, [asOfDate], (err, row: any) => {
+      if (err || !row) {
+        resolve(null);
+        return;
+      }
+
+      resolve({
+        regulatoryLimit: new Money(row.regulatory_limit),
+        jointMultiplier: row.joint_multiplier,
+        nearLimitThreshold: new Money(row.near_limit_threshold),
+        effectiveFrom: new Date(row.effective_from),
+        source: row.source || undefined
+      });
+    });
+  });
+}
+
+/**
+ * Load temporary high balance events protecting funds on a date
+ * Resolves an empty list when temporary_high_balances is missing
+ */
+export function loadTemporaryHighBalances(db: sqlite3.Database, asOfDate: string): Promise<TemporaryHighBalance[]> {
+  const query = `
+    SELECT id, deposit_id, pending_deposit_id, reason, start_date, expiry_date, protected_amount
+    FROM temporary_high_balances
+    WHERE is_active = 1
+      AND start_date <= ?
+      AND expiry_date > ?
+    ORDER BY expiry_date ASC
+  `;
+
+  return new Promise((resolve) => {
+    db.all(query, [asOfDate, asOfDate], (err, rows: any[]) => {
+      if (err || !rows) {
+        resolve([]);
+        return;
+      }
+
+      resolve(rows.map(row => ({
+        id: row.id,
+        accountId: row.deposit_id !== null ? String(row.deposit_id) : 'pending_' + row.pending_deposit_id,
+        reason: row.reason,
+        startDate: row.start_date,
+        expiryDate: row.expiry_date,
+        protectedAmount: row.protected_amount
+      })));
+    });
+  });
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(toDate) - Date.parse(fromDate)) / (24 * 60 * 60 * 1000));
 }
 
 export class FSCSComplianceEngine {
   private db: sqlite3.Database;
   private config: ComplianceConfig | null = null;
+  private limitRegime: FSCSLimitRegime | null = null;
   private institutionPreferences: Map<string, InstitutionPreference> = new Map();
-  private readonly VERSION = '2.0.0'; // Updated version with institution preferences
+  private brandGroups: Map<string, BrandGroup> = new Map();
+  private readonly VERSION = '2.4.0'; // Shared licence explanations
   
   constructor(dbPath: string) {
     this.db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
@@ -140,14 +259,19 @@ export class FSCSComplianceEngine {
    * Generate compliance report using institution_preferences for override limits
    */
   async generateComplianceReport(options: ComplianceOptions = {}): Promise<ComplianceReport> {
+    const asOfDate = options.asOfDate || new Date().toISOString().split('T')[0]!;
+    
     // Load configuration and preferences
-    await this.loadConfiguration();
+    await this.loadConfiguration(asOfDate);
     await this.loadInstitutionPreferences();
+    this.brandGroups = await loadBrandGroups(this.db);
     
-    const accounts = await this.loadAccounts();
-    const pendingDeposits = options.includePendingDeposits ? await this.loadPendingDeposits() : [];
+    const owner = options.ownerId !== undefined ? await this.loadOwner(options.ownerId) : undefined;
+    const accounts = options.accounts || await this.loadAccounts(owner);
+    const pendingDeposits = options.includePendingDeposits ? await this.loadPendingDeposits(owner) : [];
+    const temporaryHighBalances = await loadTemporaryHighBalances(this.db, asOfDate);
     
-    const frnExposures = await this.calculateFRNExposures(accounts, pendingDeposits);
+    const frnExposures = await this.calculateFRNExposures(accounts, pendingDeposits, temporaryHighBalances);
     const breaches = this.detectBreaches(frnExposures);
     const warnings = this.detectWarnings(
       frnExposures, 
@@ -161,6 +285,9 @@ export class FSCSComplianceEngine {
     return {
       version: this.VERSION,
       timestamp: new Date().toISOString(),
+      asOfDate,
+      limitRegime: this.limitRegime!,
+      ...(owner && { owner }),
       status: this.determineOverallStatus(breaches, warnings),
       summary: {
         totalAccounts: accounts.length,
@@ -188,13 +315,79 @@ export class FSCSComplianceEngine {
           result.amountOverLimit = exp.effectiveExposure - exp.effectiveLimit;
         }
         
+        if (exp.thbProtectedAmount > 0) {
+          const expiryDate = exp.temporaryHighBalances
+            .map(thb => thb.expiryDate)
+            .reduce((earliest, date) => date < earliest ? date : earliest);
+          result.temporaryHighBalance = {
+            protectedAmount: exp.thbProtectedAmount,
+            expiryDate,
+            daysRemaining: daysBetween(asOfDate, expiryDate)
+          };
+        }
+        
+        const sharedLicence = this.describeLicence(exp);
+        if (sharedLicence) {
+          result.sharedLicence = {
+            firmName: exp.brandGroup?.firmName || null,
+            brands: licenceBrands(exp.brandGroup, exp.institutions),
+            separateLicences: exp.brandGroup?.separateLicences || [],
+            explanation: sharedLicence
+          };
+        }
+        
         return result;
       }),
+      temporaryHighBalances: Array.from(frnExposures.values())
+        .flatMap(exp => exp.temporaryHighBalances)
+        .map(thb => ({ ...thb, daysRemaining: daysBetween(asOfDate, thb.expiryDate) })),
       riskMetrics
     };
   }
   
-  private async loadConfiguration(): Promise<void> {
+  /**
+   * Generate one report per active account owner
+   * Each owner's share of an account (joint funds split equally) is measured
+   * against their own FSCS limit, which the household report cannot do
+   */
+  async generateOwnerReports(options: ComplianceOptions = {}): Promise<ComplianceReport[]> {
+    const owners = await this.loadOwners();
+    const reports: ComplianceReport[] = [];
+    
+    for (const owner of owners) {
+      reports.push(await this.generateComplianceReport({ ...options, ownerId: owner.id }));
+    }
+    
+    return reports;
+  }
+  
+  private async loadOwners(): Promise<AccountOwnerRef[]> {
+    const query = `
+      SELECT id, name
+      FROM account_owners
+      WHERE is_active = 1
+      ORDER BY is_primary DESC, name ASC
+    `;
+    
+    return new Promise((resolve) => {
+      this.db.all(query, [], (err, rows: any[]) => {
+        // No owners table means a single-person household
+        resolve(err ? [] : rows.map(row => ({ id: row.id, name: row.name })));
+      });
+    });
+  }
+  
+  private async loadOwner(ownerId: number): Promise<AccountOwnerRef> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT id, name FROM account_owners WHERE id = ?', [ownerId], (err, row: any) => {
+        if (err) reject(err);
+        else if (!row) reject(new Error(`Account owner not found: ${ownerId}`));
+        else resolve({ id: row.id, name: row.name });
+      });
+    });
+  }
+  
+  private async loadConfiguration(asOfDate: string): Promise<void> {
     const query = `
       SELECT config_key, config_value, config_type
       FROM compliance_config
@@ -208,7 +401,7 @@ export class FSCSComplianceEngine {
       )
     `;
     
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       this.db.all(query, [], (err, rows: any[]) => {
         if (err) {
           reject(err);
@@ -240,6 +433,24 @@ export class FSCSComplianceEngine {
         resolve();
       });
     });
+    
+    // The dated regime takes precedence over the single compliance_config value
+    const regime = await loadFSCSLimitRegime(this.db, asOfDate);
+    const config = this.config!;
+    
+    if (regime) {
+      config.fscsStandardLimit = regime.regulatoryLimit.amount;
+      config.fscsJointMultiplier = regime.jointMultiplier;
+      config.fscsNearLimitThreshold = regime.nearLimitThreshold.amount;
+    }
+    
+    this.limitRegime = regime || {
+      regulatoryLimit: new Money(config.fscsStandardLimit),
+      jointMultiplier: config.fscsJointMultiplier,
+      nearLimitThreshold: new Money(config.fscsNearLimitThreshold),
+      effectiveFrom: new Date(0),
+      source: 'compliance_config'
+    };
   }
   
   private async loadInstitutionPreferences(): Promise<void> {
@@ -278,8 +489,21 @@ export class FSCSComplianceEngine {
     });
   }
   
-  private async loadAccounts(): Promise<Account[]> {
-    const query = `
+  private async loadAccounts(owner?: AccountOwnerRef): Promise<Account[]> {
+    // An owner's share of a joint account is theirs alone, so it is measured as a sole balance
+    const query = owner ? `
+      SELECT 
+        d.id,
+        d.frn as institutionFRN,
+        d.bank as bankName,
+        d.balance * s.ownership_share as balance,
+        d.sub_type as accountType,
+        0 as isJointAccount,
+        d.is_active as isActive
+      FROM my_deposits d
+      JOIN deposit_owner_shares s ON s.deposit_id = d.id
+      WHERE d.is_active = 1 AND d.balance > 0 AND s.owner_id = ?
+    ` : `
       SELECT 
         id,
         frn as institutionFRN,
@@ -293,7 +517,7 @@ export class FSCSComplianceEngine {
     `;
     
     return new Promise((resolve, reject) => {
-      this.db.all(query, [], (err, rows: any[]) => {
+      this.db.all(query, owner ? [owner.id] : [], (err, rows: any[]) => {
         if (err) reject(err);
         else resolve(rows.map(row => ({
           id: row.id,
@@ -308,8 +532,20 @@ export class FSCSComplianceEngine {
     });
   }
   
-  private async loadPendingDeposits(): Promise<Account[]> {
-    const query = `
+  private async loadPendingDeposits(owner?: AccountOwnerRef): Promise<Account[]> {
+    const query = owner ? `
+      SELECT 
+        p.id,
+        p.frn as institutionFRN,
+        p.bank as bankName,
+        p.balance * s.ownership_share as balance,
+        p.sub_type as accountType,
+        0 as isJointAccount,
+        p.is_active as isActive
+      FROM my_pending_deposits p
+      JOIN pending_deposit_owner_shares s ON s.pending_deposit_id = p.id
+      WHERE p.is_active = 1 AND p.status IN ('PENDING', 'APPROVED', 'FUNDED') AND s.owner_id = ?
+    ` : `
       SELECT 
         id,
         frn as institutionFRN,
@@ -323,7 +559,7 @@ export class FSCSComplianceEngine {
     `;
     
     return new Promise((resolve, reject) => {
-      this.db.all(query, [], (err, rows: any[]) => {
+      this.db.all(query, owner ? [owner.id] : [], (err, rows: any[]) => {
         if (err) reject(err);
         else resolve(rows.map(row => ({
           id: 'pending_' + row.id,
@@ -340,11 +576,19 @@ export class FSCSComplianceEngine {
   
   private async calculateFRNExposures(
     accounts: Account[],
-    pendingDeposits: Account[]
+    pendingDeposits: Account[],
+    temporaryHighBalances: TemporaryHighBalance[] = []
   ): Promise<Map<string, FRNExposure>> {
     const exposureMap = new Map<string, FRNExposure>();
     const allAccounts = [...accounts, ...pendingDeposits];
     
+    const thbByAccount = new Map<string, TemporaryHighBalance[]>();
+    for (const thb of temporaryHighBalances) {
+      const events = thbByAccount.get(thb.accountId) || [];
+      events.push(thb);
+      thbByAccount.set(thb.accountId, events);
+    }
+    
     // Aggregate accounts by FRN
     for (const account of allAccounts) {
       if (!account.institutionFRN) continue;
@@ -361,13 +605,20 @@ export class FSCSComplianceEngine {
           accounts: [],
           effectiveLimit: 0, // Will be calculated later
           effectiveExposure: 0, // Will be calculated later
-          isJointAccount: false
+          isJointAccount: false,
+          thbProtectedAmount: 0,
+          temporaryHighBalances: []
         };
         
         if (institutionPref) {
           newExposure.institutionPreference = institutionPref;
         }
         
+        const brandGroup = this.brandGroups.get(account.institutionFRN);
+        if (brandGroup) {
+          newExposure.brandGroup = brandGroup;
+        }
+        
         exposureMap.set(account.institutionFRN, newExposure);
       }
       
@@ -384,6 +635,14 @@ export class FSCSComplianceEngine {
       
       exposure.accounts.push(account.id);
       
+      // THB cover is capped per event and can never exceed the account balance
+      const thbEvents = thbByAccount.get(String(account.id));
+      if (thbEvents) {
+        const cap = thbEvents.reduce((sum, thb) => sum + thb.protectedAmount, 0);
+        exposure.thbProtectedAmount += Math.min(cap, account.balance);
+        exposure.temporaryHighBalances.push(...thbEvents);
+      }
+      
       // Update joint account status
       if (account.isJointAccount) {
         exposure.isJointAccount = true;
@@ -451,6 +710,9 @@ export class FSCSComplianceEngine {
       exposure.effectiveLimit = baseLimit;
       exposure.effectiveExposure = exposure.totalExposure;
     }
+    
+    // Temporary high balances are protected on top of the limit until their window expires
+    exposure.effectiveLimit += exposure.thbProtectedAmount;
   }
   
   private detectBreaches(exposures: Map<string, FRNExposure>): ComplianceBreach[] {
@@ -480,6 +742,11 @@ export class FSCSComplianceEngine {
           breach.riskNotes = exposure.institutionPreference.riskNotes;
         }
         
+        const sharedLicence = this.describeLicence(exposure);
+        if (sharedLicence) {
+          breach.sharedLicence = sharedLicence;
+        }
+        
         breaches.push(breach);
       }
     }
@@ -504,6 +771,8 @@ export class FSCSComplianceEngine {
     const config = this.config!;
     
     for (const exposure of exposures.values()) {
+      const sharedLicence = this.describeLicence(exposure);
+      
       const utilizationPercentage = exposure.effectiveLimit > 0 
         ? (exposure.effectiveExposure / exposure.effectiveLimit) * 100 
         : 0;
@@ -519,7 +788,8 @@ export class FSCSComplianceEngine {
           totalExposure: exposure.totalExposure,
           effectiveLimit: exposure.effectiveLimit,
           percentageOfLimit: utilizationPercentage,
-          message: `Within tolerance threshold (£${config.fscsTolerance})`
+          message: `Within tolerance threshold (£${config.fscsTolerance})`,
+          ...(sharedLicence && { sharedLicence })
         });
       }
       // Warning if approaching limit
@@ -530,7 +800,8 @@ export class FSCSComplianceEngine {
           totalExposure: exposure.totalExposure,
           effectiveLimit: exposure.effectiveLimit,
           percentageOfLimit: utilizationPercentage,
-          message: `Exposure at ${utilizationPercentage.toFixed(1)}% of limit`
+          message: `Exposure at ${utilizationPercentage.toFixed(1)}% of limit`,
+          ...(sharedLicence && { sharedLicence })
         });
       }
     }
@@ -538,7 +809,18 @@ export class FSCSComplianceEngine {
     return warnings;
   }
   
+  /**
+   * Explain a limit shared by the brands held at an FRN and the rest of its group
+   */
+  private describeLicence(exposure: FRNExposure): string | undefined {
+    return describeSharedLicence(exposure.frn, exposure.brandGroup, exposure.institutions, exposure.effectiveLimit);
+  }
+  
   private getProtectionType(exposure: FRNExposure): string {
+    if (exposure.thbProtectedAmount > 0) {
+      return 'temporary_high_balance';
+    }
+    
     if (!exposure.institutionPreference) {
       return 'standard_fscs';
     }
@@ -12,6 +12,13 @@ import {
   ShariaBankRegistry,
   PreferredPlatform,
   OptimizationRule,
+  FSCSLimitRegime,
+  SavingsTaxConfig,
+  IsaAllowanceStatus,
+  SwitchingCostConfig,
+  ProductPromotion,
+  OptimizationOverrides,
+  TaxBand,
   DatabaseConnection,
   ConfigurationError 
 } from '../types';
@@ -63,6 +70,35 @@ interface RawRateOutlookConfig {
   updated_at: string;
 }
 
+interface RawOwnerTaxProfile {
+  name: string;
+  tax_band: TaxBand | null;
+  personal_savings_allowance: number | null;
+  starting_rate_band: number | null;
+}
+
+interface RawFSCSLimitRegime {
+  effective_from: string;
+  regulatory_limit: number;
+  joint_multiplier: number;
+  near_limit_threshold: number;
+  source: string | null;
+}
+
+/**
+ * Risk tolerance config with a run's move and benefit thresholds applied
+ */
+export function applyRiskOverrides(
+  riskConfig: RiskToleranceConfig,
+  overrides: OptimizationOverrides
+): RiskToleranceConfig {
+  return {
+    ...riskConfig,
+    ...(overrides.minMoveAmount !== undefined ? { minMoveAmount: new Money(overrides.minMoveAmount) } : {}),
+    ...(overrides.minBenefit !== undefined ? { minRebalancingBenefit: new Money(overrides.minBenefit) } : {})
+  };
+}
+
 export class ConfigurationLoader {
   private cache = new Map<string, CachedConfig>();
   private readonly defaultTTL = 300; // 5 minutes
@@ -107,11 +143,12 @@ export class ConfigurationLoader {
         configMap.set(config.config_key, value);
       }
 
-      // Build typed configuration with defaults
+      // Build typed configuration with defaults (limits are the regime in force today)
+      const regime = await this.loadFSCSLimitRegime();
       const complianceConfig: ComplianceConfig = {
-        fscsStandardLimit: new Money(configMap.get('fscs_standard_limit') || 85000),
+        fscsStandardLimit: regime.regulatoryLimit,
         fscsToleranceThreshold: new Money(configMap.get('fscs_tolerance_threshold') || 500),
-        fscsNearLimitThreshold: new Money(configMap.get('fscs_near_limit_threshold') || 80000),
+        fscsNearLimitThreshold: regime.nearLimitThreshold,
         meaningfulRateThreshold: new Percentage(configMap.get('meaningful_rate_threshold') || 0.2),
         personalFSCSOverrideEnabled: configMap.get('personal_fscs_override_enabled') ?? true,
         personalFSCSMaxExposure: new Money(configMap.get('personal_fscs_max_exposure') || 120000),
@@ -474,33 +511,300 @@ export class ConfigurationLoader {
   }
 
   /**
-   * Load FSCS standard limit from configuration
+   * Load FSCS standard limit in force on a given date
+   */
+  public async loadFSCSLimit(asOf: Date = new Date()): Promise<number> {
+    const regime = await this.loadFSCSLimitRegime(asOf);
+    return regime.regulatoryLimit.amount;
+  }
+
+  /**
+   * Load the FSCS limit regime (limit, joint multiplier and near-limit level) in force on a given date
+   * Falls back to compliance_config for databases without fscs_limit_regime
    */
-  public async loadFSCSLimit(): Promise<number> {
-    const cacheKey = 'fscs_limit';
-    const cached = this.getFromCache<number>(cacheKey);
+  public async loadFSCSLimitRegime(asOf: Date = new Date()): Promise<FSCSLimitRegime> {
+    const asOfDate = asOf.toISOString().split('T')[0];
+    const cacheKey = `fscs_limit_regime_${asOfDate}`;
+    const cached = this.getFromCache<FSCSLimitRegime>(cacheKey);
     if (cached) return cached;
 
+    let row: RawFSCSLimitRegime | null = null;
     try {
-      const result = await this.db.query<{config_value: string}>(`
-        SELECT config_value
-        FROM compliance_config
-        WHERE config_key = 'fscs_standard_limit'
-      `);
+      row = await this.db.queryOne<RawFSCSLimitRegime>(`
+        SELECT effective_from, regulatory_limit, joint_multiplier, near_limit_threshold, source
+        FROM fscs_limit_regime
+        WHERE effective_from <= ?
+        ORDER BY effective_from DESC
+        LIMIT 1
+      `, [asOfDate]);
+    } catch (error) {
+      // Table might not exist yet - fall back to compliance_config below
+      row = null;
+    }
 
-      if (result.length === 0) {
-        throw new Error('FSCS standard limit not found in configuration');
+    try {
+      let regime: FSCSLimitRegime;
+
+      if (row) {
+        regime = {
+          regulatoryLimit: new Money(row.regulatory_limit),
+          jointMultiplier: row.joint_multiplier,
+          nearLimitThreshold: new Money(row.near_limit_threshold),
+          effectiveFrom: new Date(row.effective_from),
+          source: row.source || undefined
+        };
+      } else {
+        const result = await this.db.query<{config_key: string; config_value: string}>(`
+          SELECT config_key, config_value
+          FROM compliance_config
+          WHERE config_key IN ('fscs_standard_limit', 'fscs_joint_multiplier', 'fscs_near_limit_threshold')
+        `);
+        const configMap = new Map(result.map(r => [r.config_key, r.config_value]));
+
+        if (!configMap.has('fscs_standard_limit')) {
+          throw new Error(`No FSCS limit regime in force on ${asOfDate} and no fscs_standard_limit configured`);
+        }
+
+        regime = {
+          regulatoryLimit: new Money(parseFloat(configMap.get('fscs_standard_limit')!)),
+          jointMultiplier: parseFloat(configMap.get('fscs_joint_multiplier') || '2'),
+          nearLimitThreshold: new Money(parseFloat(configMap.get('fscs_near_limit_threshold') || '80000')),
+          effectiveFrom: new Date(0),
+          source: 'compliance_config'
+        };
       }
 
-      const fscsLimit = parseFloat(result[0]?.config_value || '85000');
-      this.setCache(cacheKey, fscsLimit);
-      return fscsLimit;
+      this.setCache(cacheKey, regime);
+      return regime;
 
     } catch (error) {
       throw new ConfigurationError(`Failed to load FSCS limit: ${error}`, cacheKey);
     }
   }
 
+  /**
+   * Load each account owner's savings tax band, keyed by owner name
+   * Falls back to basic rate defaults when the tax tables have not been migrated
+   */
+  public async loadSavingsTaxConfig(): Promise<SavingsTaxConfig> {
+    const cacheKey = 'savings_tax_config';
+    const cached = this.getFromCache<SavingsTaxConfig>(cacheKey);
+    if (cached) return cached;
+
+    const configMap = new Map<string, string>();
+    try {
+      const rows = await this.db.query<{config_key: string; config_value: string}>(`
+        SELECT config_key, config_value
+        FROM unified_config
+        WHERE category = 'tax' AND is_active = 1
+      `);
+      for (const row of rows) {
+        configMap.set(row.config_key, row.config_value);
+      }
+    } catch (error) {
+      // unified_config might not have tax settings yet - use defaults below
+    }
+
+    const bandRates: Record<TaxBand, { allowance: number; rate: number }> = {
+      non_taxpayer: { allowance: 0, rate: 0 },
+      basic: {
+        allowance: parseFloat(configMap.get('tax_psa_basic') || '1000'),
+        rate: parseFloat(configMap.get('tax_rate_basic') || '20')
+      },
+      higher: {
+        allowance: parseFloat(configMap.get('tax_psa_higher') || '500'),
+        rate: parseFloat(configMap.get('tax_rate_higher') || '40')
+      },
+      additional: {
+        allowance: parseFloat(configMap.get('tax_psa_additional') || '0'),
+        rate: parseFloat(configMap.get('tax_rate_additional') || '45')
+      }
+    };
+    const configuredBand = configMap.get('tax_default_band') as TaxBand | undefined;
+    const defaultBand: TaxBand = configuredBand && bandRates[configuredBand] ? configuredBand : 'basic';
+
+    let rows: RawOwnerTaxProfile[] = [];
+    try {
+      rows = await this.db.query<RawOwnerTaxProfile>(`
+        SELECT o.name, p.tax_band, p.personal_savings_allowance, p.starting_rate_band
+        FROM account_owners o
+        LEFT JOIN owner_tax_profiles p ON p.owner_id = o.id
+        WHERE o.is_active = 1
+      `);
+    } catch (error) {
+      // Owner or tax profile tables might not exist yet
+      rows = [];
+    }
+
+    const result: SavingsTaxConfig = {
+      defaultProfile: {
+        taxBand: defaultBand,
+        allowance: new Money(bandRates[defaultBand].allowance),
+        taxRate: bandRates[defaultBand].rate
+      },
+      profiles: rows.map(row => {
+        const taxBand = row.tax_band && bandRates[row.tax_band] ? row.tax_band : defaultBand;
+        const allowance = row.personal_savings_allowance ?? bandRates[taxBand].allowance;
+        return {
+          holder: row.name,
+          taxBand,
+          allowance: new Money(allowance + (row.starting_rate_band || 0)),
+          taxRate: bandRates[taxBand].rate
+        };
+      })
+    };
+
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Load the ISA subscription allowance each owner has left in the tax year
+   * containing asOf, keyed by owner name. Mirrors the ledger in the shared
+   * DatabaseService: ISA transfers use no allowance, flexible ISA withdrawals
+   * can be replaced, and pending moves into an ISA are already reserved
+   * Falls back to the full allowance when the ISA tables have not been migrated
+   */
+  public async loadIsaAllowanceStatus(asOf: Date = new Date()): Promise<IsaAllowanceStatus> {
+    const beforeStart = asOf.getMonth() < 3 || (asOf.getMonth() === 3 && asOf.getDate() < 6);
+    const startYear = beforeStart ? asOf.getFullYear() - 1 : asOf.getFullYear();
+    const startDate = `${startYear}-04-06`;
+    const endDate = `${startYear + 1}-04-05`;
+    const cacheKey = `isa_allowance_${startDate}`;
+    const cached = this.getFromCache<IsaAllowanceStatus>(cacheKey);
+    if (cached) return cached;
+
+    let annualAllowance = 20000;
+    const usedByHolder = new Map<string, number>();
+    try {
+      const config = await this.db.queryOne<{config_value: string}>(`
+        SELECT config_value FROM unified_config WHERE config_key = 'isa_annual_allowance' AND is_active = 1
+      `);
+      if (config && !isNaN(parseFloat(config.config_value))) {
+        annualAllowance = parseFloat(config.config_value);
+      }
+
+      // Used per ISA: subscriptions, less replaced withdrawals for flexible ISAs
+      const accounts = await this.db.query<{holder: string; is_flexible: number; subscribed: number; withdrawn: number}>(`
+        SELECT o.name AS holder, e.account_id, MAX(e.is_flexible) AS is_flexible,
+               SUM(CASE WHEN e.entry_type = 'subscription' THEN e.amount * s.ownership_share ELSE 0 END) AS subscribed,
+               SUM(CASE WHEN e.entry_type = 'flexible_withdrawal' THEN e.amount * s.ownership_share ELSE 0 END) AS withdrawn
+        FROM isa_allowance_entries e
+        JOIN deposit_owner_shares s ON s.deposit_id = e.account_id
+        JOIN account_owners o ON o.id = s.owner_id
+        WHERE e.bank_date >= ? AND e.bank_date <= ?
+        GROUP BY o.name, e.account_id
+      `, [startDate, endDate]);
+      for (const account of accounts) {
+        const used = account.subscribed - (account.is_flexible ? Math.min(account.subscribed, account.withdrawn) : 0);
+        usedByHolder.set(account.holder, (usedByHolder.get(account.holder) || 0) + used);
+      }
+
+      const pending = await this.db.query<{holder: string; amount: number}>(`
+        SELECT o.name AS holder, SUM(p.balance * s.ownership_share) AS amount
+        FROM my_pending_deposits p
+        JOIN pending_deposit_owner_shares s ON s.pending_deposit_id = p.id
+        JOIN account_owners o ON o.id = s.owner_id
+        LEFT JOIN my_deposits src ON src.id = p.source_account_id
+        LEFT JOIN my_deposits dest ON dest.id = p.destination_account_id
+        WHERE p.status IN ('PENDING', 'APPROVED')
+          AND p.is_active = 1
+          AND COALESCE(dest.is_isa, p.is_isa) = 1
+          AND COALESCE(src.is_isa, 0) = 0
+        GROUP BY o.name
+      `);
+      for (const row of pending) {
+        usedByHolder.set(row.holder, (usedByHolder.get(row.holder) || 0) + (row.amount || 0));
+      }
+    } catch (error) {
+      // ISA or owner tables might not exist yet - every holder has the full allowance
+      usedByHolder.clear();
+    }
+
+    const remainingByHolder = new Map<string, number>();
+    for (const [holder, used] of usedByHolder) {
+      remainingByHolder.set(holder, Math.max(0, annualAllowance - used));
+    }
+
+    const status: IsaAllowanceStatus = {
+      taxYear: `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`,
+      annualAllowance: new Money(annualAllowance),
+      remainingByHolder
+    };
+
+    this.setCache(cacheKey, status);
+    return status;
+  }
+
+  /**
+   * Load transfer times, early exit penalties and bonus rate expiries used to
+   * value moves over the switching horizon
+   * Falls back to the configured defaults when the switching tables have not been migrated
+   */
+  public async loadSwitchingCostConfig(): Promise<SwitchingCostConfig> {
+    const cacheKey = 'switching_cost_config';
+    const cached = this.getFromCache<SwitchingCostConfig>(cacheKey);
+    if (cached) return cached;
+
+    const configMap = new Map<string, string>();
+    try {
+      const rows = await this.db.query<{config_key: string; config_value: string}>(`
+        SELECT config_key, config_value
+        FROM unified_config
+        WHERE config_key LIKE 'switching_%' AND is_active = 1
+      `);
+      for (const row of rows) {
+        configMap.set(row.config_key, row.config_value);
+      }
+    } catch (error) {
+      // unified_config might not have switching settings yet - use defaults below
+    }
+
+    const transferDaysByPlatform = new Map<string, number>();
+    try {
+      const rows = await this.db.query<{platform: string; transfer_days: number}>(`
+        SELECT platform, transfer_days FROM platform_transfer_days
+      `);
+      for (const row of rows) {
+        transferDaysByPlatform.set(row.platform, row.transfer_days);
+      }
+    } catch (error) {
+      // platform_transfer_days might not exist yet - every platform uses the default
+    }
+
+    let promotions: ProductPromotion[] = [];
+    try {
+      const rows = await this.db.query<{frn: string | null; bank_name: string | null; platform: string | null; bonus_months: number; underlying_rate: number}>(`
+        SELECT frn, bank_name, platform, bonus_months, underlying_rate
+        FROM product_promotions
+        WHERE is_active = 1
+      `);
+      promotions = rows.map(row => {
+        const promotion: ProductPromotion = {
+          bonusMonths: row.bonus_months,
+          underlyingRate: row.underlying_rate
+        };
+        if (row.frn) promotion.frn = row.frn;
+        if (row.bank_name) promotion.bankName = row.bank_name;
+        if (row.platform) promotion.platform = row.platform;
+        return promotion;
+      });
+    } catch (error) {
+      // product_promotions might not exist yet - advertised rates are assumed to last
+    }
+
+    const result: SwitchingCostConfig = {
+      horizonMonths: parseFloat(configMap.get('switching_horizon_months') || '12'),
+      defaultTransferDays: parseFloat(configMap.get('switching_default_transfer_days') || '1'),
+      transferDaysByPlatform,
+      earlyClosurePenaltyDays: parseFloat(configMap.get('switching_early_closure_penalty_days') || '90'),
+      promotions
+    };
+
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
   /**
    * Load excluded products configuration
    */
@@ -131,14 +131,16 @@ export class UnifiedConfigurationLoader {
 
   /**
    * Load compliance configuration (backward compatibility)
+   * The limit and near-limit level are the FSCS limit regime in force today
    */
   public async loadComplianceConfig(): Promise<ComplianceConfig> {
     const config = await this.loadUnifiedConfig();
+    const regime = await this.loadFSCSLimitRegime();
 
     const complianceConfig: ComplianceConfig = {
-      fscsStandardLimit: new Money(config.get('fscs_limit') || 85000),
+      fscsStandardLimit: new Money(regime?.regulatory_limit ?? (config.get('fscs_limit') || 85000)),
       fscsToleranceThreshold: new Money(config.get('fscs_tolerance_threshold') || 500),
-      fscsNearLimitThreshold: new Money(config.get('fscs_near_limit_threshold') || 80000),
+      fscsNearLimitThreshold: new Money(regime?.near_limit_threshold ?? (config.get('fscs_near_limit_threshold') || 80000)),
       meaningfulRateThreshold: new Percentage(config.get('meaningful_rate_threshold') || 0.2),
       personalFSCSOverrideEnabled: config.get('personal_fscs_override_enabled') ?? true,
       personalFSCSMaxExposure: new Money(config.get('personal_fscs_max_exposure') || 120000),
@@ -151,6 +153,24 @@ export class UnifiedConfigurationLoader {
     return complianceConfig;
   }
 
+  /**
+   * FSCS limit regime in force today, or null for databases without fscs_limit_regime
+   */
+  private async loadFSCSLimitRegime(): Promise<{ regulatory_limit: number; near_limit_threshold: number } | null> {
+    try {
+      return await this.db.queryOne<{ regulatory_limit: number; near_limit_threshold: number }>(`
+        SELECT regulatory_limit, near_limit_threshold
+        FROM fscs_limit_regime
+        WHERE effective_from <= ?
+        ORDER BY effective_from DESC
+        LIMIT 1
+      `, [new Date().toISOString().split('T')[0]]);
+    } catch (error) {
+      // Table might not exist yet - fall back to unified_config
+      return null;
+    }
+  }
+
   /**
    * Load risk tolerance configuration (backward compatibility)
    */
@@ -0,0 +1,100 @@
+/**
+ * FRN headroom manager tests - per holder FSCS exposure
+ */
+
+import { FRNHeadroomManager, getAccountHolders, PRIMARY_HOLDER } from '../frn-headroom-manager';
+import { Account } from '../../types/index';
+import { Money } from '../../utils/money';
+
+function account(id: string, frn: string, balance: number, isJointAccount = false, accountHolders?: string[]): Account {
+  const result: Account = {
+    id,
+    institutionFRN: frn,
+    bankName: `Bank ${frn}`,
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    balance: new Money(balance),
+    rate: 2.0,
+    liquidityTier: 'easy_access',
+    canWithdrawImmediately: true,
+    isJointAccount,
+    isActive: true,
+    isISA: false,
+    lastUpdated: new Date('2025-06-01')
+  };
+  if (accountHolders) result.accountHolders = accountHolders;
+  return result;
+}
+
+describe('getAccountHolders', () => {
+  it('assigns sole accounts to the primary holder', () => {
+    expect(getAccountHolders(account('1', '100', 1000))).toEqual([PRIMARY_HOLDER]);
+  });
+
+  it('shares joint accounts between the number of holders', () => {
+    const joint = { ...account('1', '100', 1000, true), numAccountHolders: 3 };
+    expect(getAccountHolders(joint)).toEqual([PRIMARY_HOLDER, 'joint_holder_2', 'joint_holder_3']);
+  });
+
+  it('prefers explicit holders', () => {
+    expect(getAccountHolders(account('1', '100', 1000, true, ['alex', 'sam']))).toEqual(['alex', 'sam']);
+  });
+
+  it('names the primary holder when the household has one', () => {
+    expect(getAccountHolders(account('1', '100', 1000), 'alex')).toEqual(['alex']);
+    expect(getAccountHolders(account('1', '100', 1000, true), 'alex')).toEqual(['alex', 'joint_holder_2']);
+  });
+});
+
+describe('FRNHeadroomManager', () => {
+  it('measures sole funds against one holder only', () => {
+    const manager = new FRNHeadroomManager([account('1', '100', 80000)], [], [], 85000);
+
+    expect(manager.getAvailableHeadroom('100')).toBe(5000);
+    expect(manager.getHolders()).toEqual([PRIMARY_HOLDER]);
+  });
+
+  it('splits joint funds between holders', () => {
+    const manager = new FRNHeadroomManager([account('1', '100', 120000, true)], [], [], 85000);
+
+    expect(manager.getCurrentExposure('100', PRIMARY_HOLDER)).toBe(60000);
+    expect(manager.getCurrentExposure('100', 'joint_holder_2')).toBe(60000);
+    expect(manager.getAvailableHeadroom('100', PRIMARY_HOLDER)).toBe(25000);
+    expect(manager.getAvailableHeadroom('100', 'joint_holder_2')).toBe(25000);
+  });
+
+  it('targets whichever holder has room', () => {
+    const manager = new FRNHeadroomManager([
+      account('1', '100', 80000),
+      account('2', '100', 20000, true),
+      account('3', '200', 10000)
+    ], [], [], 85000);
+
+    // Primary: 80,000 sole + 10,000 joint share; second holder: 10,000 joint share
+    expect(manager.getAvailableHeadroom('100', PRIMARY_HOLDER)).toBe(0);
+    expect(manager.getBestHolder('100')).toEqual({ holder: 'joint_holder_2', headroom: 75000 });
+
+    // Holders with no exposure at an FRN still have the full limit there
+    expect(manager.getBestHolder('200')).toEqual({ holder: 'joint_holder_2', headroom: 85000 });
+  });
+
+  it('reserves headroom against the chosen holder', () => {
+    const manager = new FRNHeadroomManager([account('1', '100', 50000, true)], [], [], 85000);
+
+    expect(manager.reserveHeadroom('100', 60000, PRIMARY_HOLDER)).toBe(true);
+    expect(manager.getAvailableHeadroom('100', PRIMARY_HOLDER)).toBe(0);
+    expect(manager.getAvailableHeadroom('100')).toBe(60000);
+    expect(manager.reserveHeadroom('100', 70000)).toBe(false);
+  });
+
+  it('only offers headroom to the named owners', () => {
+    const manager = new FRNHeadroomManager([
+      account('1', '100', 84000, false, ['alex']),
+      account('2', '100', 168000, true, ['alex', 'sam'])
+    ], [], [], 85000);
+
+    expect(manager.getHolders()).toEqual(['alex', 'sam']);
+    expect(manager.getAvailableHeadroom('100')).toBe(1000);
+    expect(manager.getBestHolder('100')).toEqual({ holder: 'sam', headroom: 1000 });
+  });
+});
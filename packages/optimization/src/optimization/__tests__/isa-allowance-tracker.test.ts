@@ -0,0 +1,78 @@
+/**
+ * ISA allowance tracker tests - subscriptions against each holder's annual allowance
+ */
+
+import { IsaAllowanceTracker } from '../isa-allowance-tracker';
+import { Account, AvailableProduct, IsaAllowanceStatus } from '../../types/index';
+import { Money } from '../../utils/money';
+
+function account(isISA: boolean): Account {
+  return {
+    id: '1',
+    institutionFRN: 'FRN1',
+    bankName: 'Bank 1',
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    balance: new Money(30000),
+    rate: 3.0,
+    liquidityTier: 'easy_access',
+    canWithdrawImmediately: true,
+    isJointAccount: false,
+    isActive: true,
+    isISA,
+    lastUpdated: new Date('2026-06-01')
+  };
+}
+
+function product(isISA: boolean): AvailableProduct {
+  const result: AvailableProduct = {
+    id: 'p1',
+    platform: 'Direct',
+    source: 'test',
+    bankName: 'Target Bank',
+    frn: '999',
+    accountType: isISA ? 'cash_isa' : 'easy_access',
+    aerRate: 4.5,
+    grossRate: 4.5,
+    fscsProtected: true,
+    liquidityTier: 'easy_access',
+    confidenceScore: 1,
+    scrapeDate: new Date('2026-06-01')
+  };
+  if (isISA) result.isISA = true;
+  return result;
+}
+
+const status: IsaAllowanceStatus = {
+  taxYear: '2026/27',
+  annualAllowance: new Money(20000),
+  remainingByHolder: new Map([['alex', 5000]])
+};
+
+describe('IsaAllowanceTracker', () => {
+  it('only counts moves into an ISA from outside one', () => {
+    const tracker = new IsaAllowanceTracker(status);
+
+    expect(tracker.consumesAllowance(account(false), product(true))).toBe(true);
+    expect(tracker.consumesAllowance(account(true), product(true))).toBe(false);
+    expect(tracker.consumesAllowance(account(false), product(false))).toBe(false);
+  });
+
+  it('gives holders without subscriptions the full allowance', () => {
+    const tracker = new IsaAllowanceTracker(status);
+
+    expect(tracker.getRemaining('alex')).toBe(5000);
+    expect(tracker.getRemaining('sam')).toBe(20000);
+    expect(tracker.getTaxYear()).toBe('2026/27');
+  });
+
+  it('reduces the allowance for later recommendations without going negative', () => {
+    const tracker = new IsaAllowanceTracker(status);
+
+    tracker.reserve('alex', 3000);
+    expect(tracker.getRemaining('alex')).toBe(2000);
+    tracker.reserve('alex', 3000);
+    expect(tracker.getRemaining('alex')).toBe(0);
+    expect(status.remainingByHolder.get('alex')).toBe(5000);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Optimizer run override and read-only analysis tests
+ */
+
+import { Optimizer } from '../optimizer';
+import { ConfigurationLoader } from '../../configuration/loader';
+import { ProductLoader } from '../../products/loader';
+import { OptimizationRulesEngine } from '../../rules/engine';
+import {
+  Account,
+  AvailableProduct,
+  LiquidityTier,
+  OptimizationOverrides,
+  Portfolio,
+  RiskToleranceConfig
+} from '../../types/index';
+import { Money, Percentage } from '../../utils/money';
+
+function account(id: string, balance: number, rate: number): Account {
+  return {
+    id,
+    institutionFRN: `FRN${id}`,
+    bankName: `Bank ${id}`,
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    balance: new Money(balance),
+    rate,
+    liquidityTier: 'easy_access',
+    canWithdrawImmediately: true,
+    isJointAccount: false,
+    isActive: true,
+    isISA: false,
+    lastUpdated: new Date('2026-06-01')
+  };
+}
+
+function product(id: string, bankName: string, frn: string, aerRate: number): AvailableProduct {
+  return {
+    id,
+    platform: 'Direct',
+    source: 'test',
+    bankName,
+    frn,
+    accountType: 'easy_access',
+    aerRate,
+    grossRate: aerRate,
+    fscsProtected: true,
+    liquidityTier: 'easy_access',
+    confidenceScore: 1,
+    scrapeDate: new Date('2026-06-01')
+  };
+}
+
+const riskConfig: RiskToleranceConfig = {
+  meaningfulRateThreshold: new Percentage(0.1),
+  minMoveAmount: new Money(1000),
+  minRebalancingBenefit: new Money(50),
+  rebalancingMinTransferSize: new Money(5000),
+  rebalancingMaxTransferSize: new Money(100000),
+  crossTierThreshold: new Percentage(0.25),
+  maxAccountsPreference: 15,
+  allocationTolerance: new Percentage(5),
+  fscsToleranceThreshold: new Money(1000),
+  maxRecommendationsPerAccount: 3
+};
+
+const products = [
+  product('p1', 'Sharia Bank', 'SHARIA', 5.0),
+  product('p2', 'Best Bank', 'BEST', 4.5),
+  product('p3', 'Other Bank', 'OTHER', 4.0)
+];
+
+const portfolio = {
+  accounts: [account('1', 50000, 3.0), account('2', 20000, 4.4), account('3', 500, 1.0)],
+  pendingDeposits: [],
+  totalValue: new Money(70500),
+  lastUpdated: new Date('2026-06-01'),
+  institutionCount: 3,
+  averageRate: 3.3
+} as unknown as Portfolio;
+
+function optimizer(overrides: OptimizationOverrides = {}): Optimizer {
+  const config = {
+    loadRiskToleranceConfig: async () => riskConfig,
+    loadLiquidityAllocationConfig: async () => [],
+    loadExcludedProducts: async () => [],
+    loadShariaBanks: async () => [{ frn: 'SHARIA', isShariaCompliant: true }],
+    getDatabaseConnection: () => ({ query: async () => [], queryOne: async () => null })
+  } as unknown as ConfigurationLoader;
+  const productLoader = {
+    getProductsByTier: async (tiers: LiquidityTier[]) =>
+      new Map(tiers.map(tier => [tier, products.filter(p => p.liquidityTier === tier)]))
+  } as unknown as ProductLoader;
+
+  return new Optimizer({} as OptimizationRulesEngine, config, productLoader, overrides);
+}
+
+describe('Optimizer.analyzePortfolio', () => {
+  it('compares each account with the best eligible rate in its tier', async () => {
+    const analysis = await optimizer().analyzePortfolio(portfolio);
+
+    expect(analysis.tiers).toHaveLength(1);
+    expect(analysis.tiers[0]!.bestAvailableRate).toBe(5.0);
+    expect(analysis.underperformingAccounts.map(gap => gap.accountId)).toEqual(['1', '2']);
+    expect(analysis.potentialAnnualGain.amount).toBeCloseTo(1000 + 120);
+  });
+
+  it('applies the run exclusions, Sharia filter and thresholds', async () => {
+    const analysis = await optimizer({
+      allowShariaBanks: false,
+      excludedProducts: ['Best Bank'],
+      minBenefit: 100
+    }).analyzePortfolio(portfolio);
+
+    expect(analysis.tiers[0]!.bestAvailableRate).toBe(4.0);
+    // Account 2 already earns more than 4.0%
+    expect(analysis.underperformingAccounts).toHaveLength(1);
+    expect(analysis.underperformingAccounts[0]!.bestAvailableBank).toBe('Other Bank');
+    expect(analysis.potentialAnnualGain.amount).toBeCloseTo(500);
+  });
+
+  it('ignores accounts below the minimum balance', async () => {
+    const analysis = await optimizer({ minimumBalance: 30000 }).analyzePortfolio(portfolio);
+
+    expect(analysis.underperformingAccounts.map(gap => gap.accountId)).toEqual(['1']);
+    expect(analysis.tiers[0]!.accountCount).toBe(3);
+  });
+});
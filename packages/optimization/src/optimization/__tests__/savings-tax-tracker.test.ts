@@ -0,0 +1,96 @@
+/**
+ * Savings tax tracker tests - Personal Savings Allowance and net-of-tax benefit
+ */
+
+import { SavingsTaxTracker } from '../savings-tax-tracker';
+import { Account, AvailableProduct, SavingsTaxConfig } from '../../types/index';
+import { Money } from '../../utils/money';
+
+function account(id: string, balance: number, rate: number, isISA = false, accountHolders?: string[]): Account {
+  const result: Account = {
+    id,
+    institutionFRN: `FRN${id}`,
+    bankName: `Bank ${id}`,
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    balance: new Money(balance),
+    rate,
+    liquidityTier: 'easy_access',
+    canWithdrawImmediately: true,
+    isJointAccount: !!accountHolders && accountHolders.length > 1,
+    isActive: true,
+    isISA,
+    lastUpdated: new Date('2025-06-01')
+  };
+  if (accountHolders) result.accountHolders = accountHolders;
+  return result;
+}
+
+function product(aerRate: number, isISA = false): AvailableProduct {
+  const result: AvailableProduct = {
+    id: 'p1',
+    platform: 'Direct',
+    source: 'test',
+    bankName: 'Target Bank',
+    frn: '999',
+    accountType: isISA ? 'cash_isa' : 'easy_access',
+    aerRate,
+    grossRate: aerRate,
+    fscsProtected: true,
+    liquidityTier: 'easy_access',
+    confidenceScore: 1,
+    scrapeDate: new Date('2025-06-01')
+  };
+  if (isISA) result.isISA = true;
+  return result;
+}
+
+const taxConfig: SavingsTaxConfig = {
+  defaultProfile: { taxBand: 'basic', allowance: new Money(1000), taxRate: 20 },
+  profiles: [
+    { holder: 'alex', taxBand: 'higher', allowance: new Money(500), taxRate: 40 },
+    { holder: 'sam', taxBand: 'basic', allowance: new Money(1000), taxRate: 20 }
+  ]
+};
+
+describe('SavingsTaxTracker', () => {
+  it('taxes only interest above the allowance and ignores ISAs', () => {
+    const tracker = new SavingsTaxTracker([
+      account('1', 50000, 4.0, false, ['alex']),
+      account('2', 20000, 4.0, true, ['alex'])
+    ], taxConfig);
+
+    expect(tracker.getTaxableInterest('alex')).toBe(2000);
+    expect(tracker.getUnusedAllowance('alex')).toBe(0);
+    expect(tracker.taxFor('alex')).toBe(600);
+  });
+
+  it('splits joint interest between holders and uses the default band for unknown holders', () => {
+    const tracker = new SavingsTaxTracker([account('1', 40000, 5.0, false, ['alex', 'sam'])], taxConfig);
+
+    expect(tracker.getTaxableInterest('alex')).toBe(1000);
+    expect(tracker.getTaxableInterest('sam')).toBe(1000);
+    expect(tracker.getProfile('primary').taxRate).toBe(20);
+  });
+
+  it('prefers an ISA over a higher gross rate once the allowance is used', () => {
+    const tracker = new SavingsTaxTracker([account('1', 50000, 4.0, false, ['alex'])], taxConfig);
+    const source = account('1', 50000, 4.0, false, ['alex']);
+
+    // 10,000 at 4.5% taxable: +£50 gross, +£20 tax
+    expect(tracker.netAnnualBenefit(source, product(4.5), 10000, 'alex')).toBeCloseTo(30);
+    // 10,000 at 4.0% in an ISA: no gross gain, but £160 of tax removed
+    expect(tracker.netAnnualBenefit(source, product(4.0, true), 10000, 'alex')).toBeCloseTo(160);
+  });
+
+  it('counts recorded moves against the target holder allowance', () => {
+    const tracker = new SavingsTaxTracker([account('1', 10000, 4.0, true, ['sam'])], taxConfig);
+    const source = account('1', 10000, 4.0, true, ['sam']);
+
+    expect(tracker.netAnnualBenefit(source, product(5.0), 10000, 'sam')).toBeCloseTo(100);
+
+    tracker.recordMove(source, product(5.0), 10000, 'sam');
+    expect(tracker.getTaxableInterest('sam')).toBe(500);
+    expect(tracker.netAnnualBenefit(source, product(5.0), 20000, 'sam')).toBeCloseTo(200 - 100);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * What-if scenario tests - overlay application and baseline comparison
+ */
+
+import { applyScenario, summarizeScenario, diffScenario } from '../scenario';
+import { PortfolioLoader } from '../../portfolio/loader';
+import { Account, DatabaseConnection, Recommendation, ScenarioCompliance } from '../../types/index';
+import { Money } from '../../utils/money';
+
+// buildPortfolio() does not touch the database
+const portfolioLoader = new PortfolioLoader({} as DatabaseConnection);
+
+function account(id: string, frn: string, balance: number, rate: number): Account {
+  return {
+    id,
+    institutionFRN: frn,
+    bankName: `Bank ${frn}`,
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    balance: new Money(balance),
+    rate,
+    liquidityTier: 'easy_access',
+    canWithdrawImmediately: true,
+    isJointAccount: false,
+    isActive: true,
+    isISA: false,
+    lastUpdated: new Date('2025-06-01')
+  };
+}
+
+function recommendation(accountId: string, targetFRN: string, annualBenefit: number): Recommendation {
+  return {
+    source: { accountId, bankName: `Bank ${accountId}`, amount: new Money(10000), currentRate: 3.0 },
+    target: { bankName: `Bank ${targetFRN}`, institutionFRN: targetFRN, targetRate: 4.5 },
+    benefits: { annualBenefit: new Money(annualBenefit), rateImprovement: { value: 1.5 } }
+  } as unknown as Recommendation;
+}
+
+function compliance(breachedFRNs: string[]): ScenarioCompliance {
+  return {
+    status: breachedFRNs.length > 0 ? 'BREACH' : 'COMPLIANT',
+    breachCount: breachedFRNs.length,
+    warningCount: 0,
+    totalAtRisk: 0,
+    breachedFRNs
+  };
+}
+
+const portfolio = portfolioLoader.buildPortfolio([
+  account('1', '100', 50000, 4.0),
+  account('2', '200', 30000, 3.0)
+], []);
+
+describe('applyScenario', () => {
+  it('applies withdrawals, deposits and rate changes to a copy of the portfolio', () => {
+    const { portfolio: scenario, warnings } = applyScenario(portfolio, {
+      withdrawals: [{ accountId: '1', amount: 20000 }, { accountId: '2' }],
+      deposits: [{ bankName: 'New Bank', frn: '300', amount: 40000, rate: 5.0 }],
+      rateChanges: [{ frn: '100', newRate: 3.5 }]
+    }, portfolioLoader);
+
+    expect(warnings).toEqual([]);
+    expect(scenario.accounts.map(a => a.id)).toEqual(['1', 'scenario-deposit-1']);
+    expect(scenario.accounts[0]!.balance.amount).toBe(30000);
+    expect(scenario.accounts[0]!.rate).toBe(3.5);
+    expect(scenario.totalValue.amount).toBe(70000);
+    expect(scenario.institutionCount).toBe(2);
+    expect(scenario.averageRate).toBeCloseTo((30000 * 3.5 + 40000 * 5.0) / 70000);
+
+    // Baseline untouched
+    expect(portfolio.accounts[0]!.balance.amount).toBe(50000);
+    expect(portfolio.accounts[0]!.rate).toBe(4.0);
+  });
+
+  it('warns about parts of the overlay it cannot apply', () => {
+    const { portfolio: scenario, warnings } = applyScenario(portfolio, {
+      withdrawals: [{ accountId: '9' }, { accountId: '2', amount: 35000 }],
+      rateChanges: [{ accountId: '9', newRate: 1.0 }]
+    }, portfolioLoader);
+
+    expect(warnings).toHaveLength(3);
+    expect(scenario.accounts.map(a => a.id)).toEqual(['1']);
+  });
+});
+
+describe('diffScenario', () => {
+  it('reports changed totals, recommendations and breaches', () => {
+    const baseline = summarizeScenario(
+      portfolio,
+      [recommendation('1', '500', 300), recommendation('2', '600', 200)],
+      compliance(['100'])
+    );
+    const scenario = summarizeScenario(
+      portfolioLoader.buildPortfolio([account('1', '100', 50000, 4.0)], []),
+      [recommendation('1', '500', 300), recommendation('1', '700', 100)],
+      compliance(['700'])
+    );
+
+    const diff = diffScenario(baseline, scenario);
+
+    expect(diff.totalValueChange).toBe(-30000);
+    expect(diff.annualInterestChange).toBeCloseTo(-900);
+    expect(diff.totalBenefitChange).toBe(-100);
+    expect(diff.addedRecommendations.map(r => r.target.institutionFRN)).toEqual(['700']);
+    expect(diff.removedRecommendations.map(r => r.target.institutionFRN)).toEqual(['600']);
+    expect(diff.newBreaches).toEqual(['700']);
+    expect(diff.resolvedBreaches).toEqual(['100']);
+  });
+});
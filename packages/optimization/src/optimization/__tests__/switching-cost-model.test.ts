@@ -0,0 +1,112 @@
+/**
+ * Switching cost model tests - transfer days, exit costs and bonus expiry over the horizon
+ */
+
+import { SwitchingCostModel } from '../switching-cost-model';
+import { Account, AvailableProduct, LiquidityTier, SwitchingCostConfig } from '../../types/index';
+import { Money } from '../../utils/money';
+
+const asOf = new Date('2026-01-01');
+
+function account(rate: number, liquidityTier: LiquidityTier = 'easy_access', extra: Partial<Account> = {}): Account {
+  return {
+    id: '1',
+    institutionFRN: '100',
+    bankName: 'Source Bank',
+    accountType: 'Savings',
+    accountSubType: 'Easy Access',
+    platform: 'Direct',
+    balance: new Money(10000),
+    rate,
+    liquidityTier,
+    canWithdrawImmediately: liquidityTier === 'easy_access',
+    isJointAccount: false,
+    isActive: true,
+    isISA: false,
+    lastUpdated: asOf,
+    ...extra
+  };
+}
+
+function product(aerRate: number, platform = 'Direct'): AvailableProduct {
+  return {
+    id: 'p1',
+    platform,
+    source: 'test',
+    bankName: 'Target Bank',
+    frn: '999',
+    accountType: 'easy_access',
+    aerRate,
+    grossRate: aerRate,
+    fscsProtected: true,
+    liquidityTier: 'easy_access',
+    confidenceScore: 1,
+    scrapeDate: asOf
+  };
+}
+
+function config(overrides: Partial<SwitchingCostConfig> = {}): SwitchingCostConfig {
+  return {
+    horizonMonths: 12,
+    defaultTransferDays: 0,
+    transferDaysByPlatform: new Map(),
+    earlyClosurePenaltyDays: 90,
+    promotions: [],
+    ...overrides
+  };
+}
+
+describe('SwitchingCostModel', () => {
+  it('values a plain easy access move as the rate gain less tax', () => {
+    const cost = new SwitchingCostModel(config(), asOf).evaluate(account(3.0), product(5.0), 10000, 40);
+
+    expect(cost.horizonGain).toBeCloseTo(200);
+    expect(cost.exitMethod).toBe('none');
+    expect(cost.netHorizonBenefit).toBeCloseTo(160);
+  });
+
+  it('uses the slower platform for transfer days', () => {
+    const model = new SwitchingCostModel(config({
+      defaultTransferDays: 1,
+      transferDaysByPlatform: new Map([['Hargreaves Lansdown', 3]])
+    }), asOf);
+
+    const cost = model.evaluate(account(3.0), product(3.65, 'Hargreaves Lansdown'), 10000);
+
+    expect(cost.transferDays).toBe(3);
+    expect(cost.transferCost).toBeCloseTo(3);
+    expect(cost.netHorizonBenefit).toBeCloseTo(65 - 3);
+  });
+
+  it('falls back to the underlying rate when a bonus ends inside the horizon', () => {
+    const model = new SwitchingCostModel(config({
+      horizonMonths: 24,
+      promotions: [{ frn: '999', bonusMonths: 6, underlyingRate: 2.5 }]
+    }), asOf);
+
+    const cost = model.evaluate(account(3.5), product(5.5), 10000);
+
+    // 6 months at 5.5% and 18 at 2.5%, against 24 months at 3.5%
+    expect(cost.horizonGain).toBeCloseTo(275 + 375 - 700);
+    expect(cost.netHorizonBenefit).toBeLessThan(0);
+    expect(cost.promotion?.underlyingRate).toBe(2.5);
+  });
+
+  it('takes the cheaper of an exit penalty and waiting out the notice or term', () => {
+    const model = new SwitchingCostModel(config(), asOf);
+
+    // 30 days notice: waiting gives up 30 days of a 2% gain (£16), less than 30 days at 3% (£25)
+    const notice = model.evaluate(account(3.0, 'notice_1_30', { noticePeriodDays: 30 }), product(5.0), 10000);
+    expect(notice.exitMethod).toBe('wait');
+    expect(notice.exitCost).toBeCloseTo(10000 * 0.02 * 30 / 365);
+
+    // A year left on a 1% term: 90 days' interest (£25) beats waiting a year (£400)
+    const fixed = model.evaluate(
+      account(1.0, 'fixed_12m', { termEnds: new Date('2027-01-01') }),
+      product(5.0),
+      10000
+    );
+    expect(fixed.exitMethod).toBe('penalty');
+    expect(fixed.exitCost).toBeCloseTo(10000 * 0.01 * 90 / 365);
+  });
+});
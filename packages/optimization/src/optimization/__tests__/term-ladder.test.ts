@@ -0,0 +1,142 @@
+/**
+ * Term ladder planner tests
+ */
+
+import { TermLadderPlanner } from '../term-ladder';
+import { FRNHeadroomManager } from '../frn-headroom-manager';
+import { Account, AvailableProduct, LiquidityAllocationConfig, LiquidityTier } from '../../types/index';
+import { Money, Percentage } from '../../utils/money';
+
+const AS_OF = new Date('2025-06-01');
+
+function account(id: string, frn: string, balance: number, rate: number, tier: LiquidityTier, termEnds?: Date): Account {
+  const result: Account = {
+    id,
+    institutionFRN: frn,
+    bankName: `Bank ${frn}`,
+    accountType: 'Savings',
+    accountSubType: tier === 'easy_access' ? 'Easy Access' : 'Term',
+    balance: new Money(balance),
+    rate,
+    liquidityTier: tier,
+    canWithdrawImmediately: tier === 'easy_access',
+    isJointAccount: false,
+    isActive: true,
+    isISA: false,
+    lastUpdated: AS_OF
+  };
+  if (termEnds) result.termEnds = termEnds;
+  return result;
+}
+
+function product(id: string, frn: string, rate: number, tier: LiquidityTier, termMonths?: number): AvailableProduct {
+  const result: AvailableProduct = {
+    id,
+    platform: 'Direct',
+    source: 'test',
+    bankName: `Bank ${frn}`,
+    frn,
+    accountType: termMonths ? 'fixed_term' : 'easy_access',
+    aerRate: rate,
+    grossRate: rate,
+    fscsProtected: true,
+    liquidityTier: tier,
+    confidenceScore: 100,
+    scrapeDate: AS_OF
+  };
+  if (termMonths) result.termMonths = termMonths;
+  return result;
+}
+
+function tierConfig(tier: LiquidityTier, target: number, order: number): LiquidityAllocationConfig {
+  return {
+    liquidityTier: tier,
+    targetPercentage: new Percentage(target),
+    tierDescription: tier,
+    tierShortName: tier,
+    tierOrder: order,
+    isActive: true
+  };
+}
+
+describe('TermLadderPlanner', () => {
+  const configs = [tierConfig('easy_access', 50, 1), tierConfig('fixed_12m', 50, 2)];
+  const settings = { minMoveAmount: 1000, minRebalancingBenefit: 0, maturityWindowDays: 30, asOf: AS_OF };
+
+  it('funds a locked tier only from easy access money above the emergency target', () => {
+    const accounts = [account('1', '100', 100000, 2.0, 'easy_access')];
+    const products = [product('p1', '200', 4.5, 'fixed_12m', 12)];
+    const frnManager = new FRNHeadroomManager(accounts, [], products, 85000);
+
+    const plan = new TermLadderPlanner(configs, frnManager, settings)
+      .plan(accounts, [], new Map([['fixed_12m', products]]));
+
+    expect(plan.recommendations).toHaveLength(1);
+    expect(plan.recommendations[0]!.source.amount.amount).toBe(50000);
+    expect(plan.recommendations[0]!.target.liquidityTier).toBe('fixed_12m');
+    expect(plan.recommendations[0]!.target.maturityDate).toEqual(new Date('2026-06-01'));
+    expect(plan.maturityLadder.emergencyLiquidity.amount).toBe(50000);
+    expect(plan.maturityLadder.emergencyLiquidityTarget.amount).toBe(50000);
+  });
+
+  it('never moves money from locked accounts that are not maturing', () => {
+    const accounts = [
+      account('1', '100', 50000, 2.0, 'easy_access'),
+      account('2', '300', 50000, 1.0, 'fixed_24m', new Date('2026-01-01'))
+    ];
+    const products = [product('p1', '200', 4.5, 'fixed_12m', 12)];
+    const frnManager = new FRNHeadroomManager(accounts, [], products, 85000);
+
+    const plan = new TermLadderPlanner(configs, frnManager, settings)
+      .plan(accounts, [], new Map([['fixed_12m', products]]));
+
+    expect(plan.recommendations).toHaveLength(0);
+    expect(plan.maturityLadder.rungs.map(r => r.status)).toEqual(['held']);
+  });
+
+  it('reinvests maturing money first and starts the new term at maturity', () => {
+    const accounts = [
+      account('1', '100', 50000, 2.0, 'easy_access'),
+      account('2', '300', 50000, 4.0, 'fixed_12m', new Date('2025-06-15'))
+    ];
+    const products = [product('p1', '200', 4.5, 'fixed_12m', 12)];
+    const frnManager = new FRNHeadroomManager(accounts, [], products, 85000);
+
+    const plan = new TermLadderPlanner(configs, frnManager, settings)
+      .plan(accounts, [], new Map([['fixed_12m', products]]));
+
+    expect(plan.recommendations).toHaveLength(1);
+    expect(plan.recommendations[0]!.source.accountId).toBe('2');
+    expect(plan.recommendations[0]!.target.maturityDate).toEqual(new Date('2026-06-15'));
+    expect(plan.committedBySource.get('1')).toBeUndefined();
+  });
+
+  it('respects FSCS headroom at the target institution', () => {
+    const accounts = [
+      account('1', '100', 200000, 2.0, 'easy_access'),
+      account('2', '200', 70000, 2.0, 'easy_access')
+    ];
+    const products = [product('p1', '200', 4.5, 'fixed_12m', 12)];
+    const frnManager = new FRNHeadroomManager(accounts, [], products, 85000);
+
+    const plan = new TermLadderPlanner(configs, frnManager, settings)
+      .plan(accounts, [], new Map([['fixed_12m', products]]));
+
+    expect(plan.recommendations).toHaveLength(1);
+    expect(plan.recommendations[0]!.source.amount.amount).toBe(15000);
+  });
+
+  it('recommends nothing when every named owner is near the limit at the target', () => {
+    const accounts = [
+      { ...account('1', '100', 100000, 2.0, 'easy_access'), accountHolders: ['alex'] },
+      { ...account('2', '200', 84500, 2.0, 'easy_access'), accountHolders: ['alex'] }
+    ];
+    const products = [product('p1', '200', 4.5, 'fixed_12m', 12)];
+    const frnManager = new FRNHeadroomManager(accounts, [], products, 85000);
+
+    const plan = new TermLadderPlanner(configs, frnManager, settings)
+      .plan(accounts, [], new Map([['fixed_12m', products]]));
+
+    expect(plan.recommendations).toHaveLength(0);
+  });
+});
@@ -11,11 +11,16 @@ import {
   AvailableProduct, 
   Recommendation,
   RuleFacts,
-  Priority
+  Priority,
+  OptimizationOverrides,
+  SwitchingCost
 } from '../types/index';
-import { FRNHeadroomManager } from './frn-headroom-manager';
+import { FRNHeadroomManager, PRIMARY_HOLDER, getAccountHolders } from './frn-headroom-manager';
+import { SavingsTaxTracker } from './savings-tax-tracker';
+import { IsaAllowanceTracker } from './isa-allowance-tracker';
+import { SwitchingCostModel } from './switching-cost-model';
 import { OptimizationRulesEngine } from '../rules/engine';
-import { ConfigurationLoader } from '../configuration/loader';
+import { ConfigurationLoader, applyRiskOverrides } from '../configuration/loader';
 import { UnifiedConfigurationLoader } from '../configuration/unified-loader';
 import { Money as MoneyImpl, Percentage as PercentageImpl } from '../utils/money';
 import { getLogger } from '../utils/logger';
@@ -23,10 +28,14 @@ import { getLogger } from '../utils/logger';
 export interface DynamicOpportunity {
   account: Account;
   product: AvailableProduct;
-  marginalBenefit: number;
-  effectiveBenefit: number;
+  targetHolder?: string; // Holder with FSCS room at the target FRN
+  marginalBenefit: number; // Gross rate improvement
+  effectiveBenefit: number; // Net-of-tax rate improvement (annualised over the switching horizon) plus convenience bonus
   transferAmount: number;
   annualBenefit: number;
+  netAnnualBenefit: number; // After income tax on interest (gross without a tax tracker)
+  switchingCost?: SwitchingCost; // Horizon valuation, when a switching cost model is loaded
+  isaAllowanceUsed?: number; // Subscription into an ISA from outside one
   convenienceBonus: number;
   bonusType: 'none' | 'existing' | 'platform';
 }
@@ -37,7 +46,11 @@ export class DynamicAllocator {
   constructor(
     private rulesEngine: OptimizationRulesEngine,
     private config: ConfigurationLoader,
-    private frnManager: FRNHeadroomManager
+    private frnManager: FRNHeadroomManager,
+    private taxTracker?: SavingsTaxTracker,
+    private isaTracker?: IsaAllowanceTracker,
+    private switchingModel?: SwitchingCostModel,
+    private overrides: OptimizationOverrides = {}
   ) {}
 
   /**
@@ -53,8 +66,7 @@ export class DynamicAllocator {
     const recommendations: Recommendation[] = [];
     const accountBalances = new Map<string, number>();
     const accountRecommendations = new Map<string, Recommendation[]>();
-    const riskConfig = await this.config.loadRiskToleranceConfig();
-    const complianceConfig = await this.config.loadComplianceConfig();
+    const riskConfig = applyRiskOverrides(await this.config.loadRiskToleranceConfig(), this.overrides);
     
     // Initialize account balances
     for (const account of accounts) {
@@ -101,7 +113,7 @@ export class DynamicAllocator {
       const recommendation = await this.createRecommendation(
         bestOpp,
         accountBalances.get(bestOpp.account.id) || 0,
-        complianceConfig.fscsStandardLimit.amount
+        this.frnManager.getFSCSLimit()
       );
       
       if (recommendation) {
@@ -117,12 +129,23 @@ export class DynamicAllocator {
         accountBalances.set(bestOpp.account.id, currentBalance - bestOpp.transferAmount);
         
         if (bestOpp.product.frn) {
-          this.frnManager.reserveHeadroom(bestOpp.product.frn, bestOpp.transferAmount);
+          this.frnManager.reserveHeadroom(bestOpp.product.frn, bestOpp.transferAmount, bestOpp.targetHolder);
+        }
+        
+        if (this.taxTracker) {
+          this.taxTracker.recordMove(bestOpp.account, bestOpp.product, bestOpp.transferAmount, bestOpp.targetHolder);
+        }
+        
+        if (this.isaTracker && bestOpp.isaAllowanceUsed) {
+          this.isaTracker.reserve(this.subscriptionHolder(bestOpp.account, bestOpp.targetHolder), bestOpp.isaAllowanceUsed);
         }
       }
     }
     
-    return recommendations;
+    // Allocation order follows the best rate per pound; present the biggest net gains first
+    return recommendations.sort(
+      (a, b) => b.benefits.cumulativeBenefit.amount - a.benefits.cumulativeBenefit.amount
+    );
   }
 
   /**
@@ -178,29 +201,44 @@ export class DynamicAllocator {
         }
         
         // Check available headroom (skip for products without FRN)
+        // Headroom is per person, so target whichever holder has most room
         let headroom = Infinity; // No FSCS limit for non-FRN products
+        let targetHolder: string | undefined;
         if (product.frn) {
-          headroom = this.frnManager.getAvailableHeadroom(product.frn);
+          const bestHolder = this.frnManager.getBestHolder(product.frn);
+          headroom = bestHolder?.headroom || 0;
           if (headroom < riskConfig.minMoveAmount.amount) {
             continue;
           }
+          targetHolder = bestHolder!.holder;
         }
         
+        // Subscriptions into an ISA are limited by the holder's unused allowance
+        const usesIsaAllowance = !!this.isaTracker?.consumesAllowance(account, product);
+        const isaAllowance = usesIsaAllowance
+          ? this.isaTracker!.getRemaining(this.subscriptionHolder(account, targetHolder))
+          : Infinity;
+        
         // Calculate transfer amount
         const transferAmount = Math.min(
           balance,
           headroom,
           product.maxDeposit?.amount || Infinity,
-          balance
+          isaAllowance
         );
         
         if (transferAmount < riskConfig.minMoveAmount.amount) {
           continue;
         }
         
-        // Calculate marginal benefit
+        // Calculate marginal benefit, net of tax when tax profiles are loaded
+        // (an ISA can beat a taxable account paying a higher gross rate)
         const baseMarginalBenefit = product.aerRate - (account.rate || 0);
-        if (baseMarginalBenefit <= 0) {
+        const netAnnualBenefit = this.taxTracker
+          ? this.taxTracker.netAnnualBenefit(account, product, transferAmount, targetHolder)
+          : transferAmount * baseMarginalBenefit / 100;
+        const netMarginalBenefit = netAnnualBenefit / transferAmount * 100;
+        if (netMarginalBenefit <= 0) {
           // Track the best product that was skipped due to no rate improvement
           if (!skippedReasons.has(account.bankName)) {
             skippedReasons.set(account.bankName, `No rate improvement available (current: ${account.rate}%, best: ${product.aerRate}%)`);
@@ -214,11 +252,11 @@ export class DynamicAllocator {
         
         const ruleFacts: RuleFacts = {
           transferAmount,
-          annualBenefit: transferAmount * baseMarginalBenefit / 100,
+          annualBenefit: netAnnualBenefit,
           currentRate: account.rate || 0,
           targetRate: product.aerRate,
-          marginalBenefit: baseMarginalBenefit,
-          effectiveMarginalBenefit: baseMarginalBenefit,
+          marginalBenefit: netMarginalBenefit,
+          effectiveMarginalBenefit: netMarginalBenefit,
           isExistingAccount: isExisting,
           isPreferredPlatform: isPlatform && !isExisting,
           hasHeadroom: headroom,
@@ -228,13 +266,13 @@ export class DynamicAllocator {
           targetInstitutionFRN: product.frn || '', // Empty string for non-FRN products
           rateImprovement: baseMarginalBenefit,
           institutionConcentration: 0,
-          cumulativeExposure: product.frn ? this.frnManager.getCurrentExposure(product.frn) : 0,
+          cumulativeExposure: product.frn ? this.frnManager.getCurrentExposure(product.frn, targetHolder) : 0,
           hasMultipleOpportunities: products.length > 1,
           useCumulativeTracking: true,
           productFRN: product.frn || '',
           productRate: product.aerRate,
           fscsCompliant: true,
-          shariaBankAllowed: true,
+          shariaBankAllowed: this.overrides.allowShariaBanks ?? true,
           rateWithinPlatformTolerance: true,
           rateGapFromBest: 0
         };
@@ -254,24 +292,43 @@ export class DynamicAllocator {
           bonusType = 'platform';
         }
         
-        const effectiveBenefit = baseMarginalBenefit + convenienceBonus;
         const annualBenefit = transferAmount * baseMarginalBenefit / 100;
         
         // Skip if below minimum benefit threshold
-        if (annualBenefit < riskConfig.minRebalancingBenefit.amount) {
+        if (netAnnualBenefit < riskConfig.minRebalancingBenefit.amount) {
           continue;
         }
         
+        // Value the move over the switching horizon: transfer days, exit
+        // penalties and bonus expiry can wipe out a headline rate gain
+        const switchingCost = this.switchingModel?.evaluate(
+          account, product, transferAmount, annualBenefit - netAnnualBenefit
+        );
+        if (switchingCost && switchingCost.netHorizonBenefit <= 0) {
+          if (!skippedReasons.has(account.bankName)) {
+            skippedReasons.set(account.bankName, `Switching costs outweigh the gain over ${switchingCost.horizonMonths} months`);
+          }
+          continue;
+        }
+        const rankingBenefit = switchingCost
+          ? switchingCost.netHorizonBenefit / transferAmount * 100 * 12 / switchingCost.horizonMonths
+          : netMarginalBenefit;
+        const effectiveBenefit = rankingBenefit + convenienceBonus;
+        
         // Track if this is the best opportunity
         if (effectiveBenefit > bestMarginalBenefit) {
           bestMarginalBenefit = effectiveBenefit;
           bestOpp = {
             account,
             product,
+            ...(targetHolder ? { targetHolder } : {}),
             marginalBenefit: baseMarginalBenefit,
             effectiveBenefit,
             transferAmount,
             annualBenefit,
+            netAnnualBenefit,
+            ...(switchingCost ? { switchingCost } : {}),
+            ...(usesIsaAllowance ? { isaAllowanceUsed: transferAmount } : {}),
             convenienceBonus,
             bonusType
           };
@@ -312,12 +369,16 @@ export class DynamicAllocator {
     const recommendation: Recommendation = {
       id: `rec-${Date.now()}-${Math.random()}`,
       type: 'rate_optimization',
-      priority: this.calculatePriority(opp.annualBenefit),
+      priority: this.calculatePriority(
+        opp.switchingCost
+          ? opp.switchingCost.netHorizonBenefit * 12 / opp.switchingCost.horizonMonths
+          : opp.netAnnualBenefit
+      ),
       
       source: {
         accountId: opp.account.id,
         bankName: opp.account.bankName,
-        accountName: (opp.account as any).accountName,
+        accountName: opp.account.accountName,
         amount: new MoneyImpl(opp.transferAmount),
         originalAccountBalance: new MoneyImpl(originalBalance),
         currentRate: opp.account.rate || 0,
@@ -332,20 +393,24 @@ export class DynamicAllocator {
         accountSubType: 'Easy Access',
         platform: opp.product.platform || 'Direct',
         targetRate: opp.product.aerRate,
-        liquidityTier: 'easy_access'
+        liquidityTier: 'easy_access',
+        ...(opp.targetHolder ? { accountHolder: opp.targetHolder } : {}),
+        ...(opp.isaAllowanceUsed ? { isaAllowanceUsed: new MoneyImpl(opp.isaAllowanceUsed) } : {})
       },
       
       benefits: {
         rateImprovement: new PercentageImpl(opp.marginalBenefit),
         annualBenefit: new MoneyImpl(opp.annualBenefit),
-        cumulativeBenefit: new MoneyImpl(opp.annualBenefit)
+        cumulativeBenefit: new MoneyImpl(opp.switchingCost ? opp.switchingCost.netHorizonBenefit : opp.annualBenefit),
+        ...(this.taxTracker ? { netAnnualBenefit: new MoneyImpl(opp.netAnnualBenefit) } : {}),
+        ...(opp.switchingCost ? { switchingCost: opp.switchingCost } : {})
       },
       
       compliance: {
-        fscsImpact: opp.product.frn ? 'Headroom verified' : 'No FSCS protection',
-        resultingExposure: new MoneyImpl(opp.product.frn ? this.frnManager.getCurrentExposure(opp.product.frn) : 0),
+        fscsImpact: this.frnManager.describeFSCSImpact(opp.product.frn),
+        resultingExposure: new MoneyImpl(opp.product.frn ? this.frnManager.getCurrentExposure(opp.product.frn, opp.targetHolder) + opp.transferAmount : 0),
         resultingStatus: 'COMPLIANT',
-        jointAccountConsidered: false,
+        jointAccountConsidered: true,
         pendingDepositsConsidered: true
       },
       
@@ -364,9 +429,59 @@ export class DynamicAllocator {
       displayNotes: []
     };
     
+    if (opp.targetHolder && opp.targetHolder !== PRIMARY_HOLDER) {
+      recommendation.implementationNotes.push(`Open in the name of ${opp.targetHolder} - FSCS headroom is per person`);
+    }
+    
+    const taxTreatment = this.taxTracker?.describeTaxTreatment(opp.account, opp.product);
+    if (taxTreatment) {
+      recommendation.implementationNotes.push(taxTreatment);
+    }
+    
+    if (opp.isaAllowanceUsed && this.isaTracker) {
+      const holder = this.subscriptionHolder(opp.account, opp.targetHolder);
+      recommendation.implementationNotes.push(
+        `Uses £${opp.isaAllowanceUsed.toLocaleString()} of ${holder === PRIMARY_HOLDER ? 'the' : `${holder}'s`} ${this.isaTracker.getTaxYear()} ISA allowance`
+      );
+    }
+    
+    if (opp.switchingCost) {
+      recommendation.implementationNotes.push(...this.describeSwitchingCost(opp.switchingCost));
+    }
+    
     return recommendation;
   }
 
+  /**
+   * Implementation notes for the costs and bonus expiry behind a horizon valuation
+   */
+  private describeSwitchingCost(cost: SwitchingCost): string[] {
+    const notes: string[] = [];
+    
+    if (cost.promotion) {
+      notes.push(`Bonus rate lasts ${cost.promotion.bonusMonths} months, then ${cost.promotion.underlyingRate.toFixed(2)}%`);
+    }
+    if (cost.exitMethod === 'penalty') {
+      notes.push(`Close early and forfeit about £${cost.exitCost.toFixed(0)} interest - cheaper than waiting`);
+    } else if (cost.exitMethod === 'wait') {
+      notes.push(`Give notice or wait for maturity - about £${cost.exitCost.toFixed(0)} less than moving now would gain`);
+    }
+    if (cost.transferDays > 0) {
+      notes.push(`Allow ${cost.transferDays} day${cost.transferDays === 1 ? '' : 's'} in transit (about £${cost.transferCost.toFixed(0)} interest)`);
+    }
+    notes.push(`Net gain over ${cost.horizonMonths} months: £${cost.netHorizonBenefit.toFixed(0)}`);
+    
+    return notes;
+  }
+
+  /**
+   * Person whose ISA allowance a subscription uses: the holder the account is
+   * opened for, or the source account's first holder
+   */
+  private subscriptionHolder(account: Account, targetHolder?: string): string {
+    return targetHolder || getAccountHolders(account)[0]!;
+  }
+
   /**
    * Calculate priority based on annual benefit
    */
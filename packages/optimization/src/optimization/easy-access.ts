@@ -72,7 +72,11 @@ export class EasyAccessOptimizer {
     const missingFRNAlerts = await this.detectMissingFRNOpportunities(easyAccessAccounts);
 
     // PHASE 2: FSCS-Aware Optimization  
-    const fscsTracker = new FSCSTracker(portfolio.accounts, portfolio.pendingDeposits);
+    const fscsTracker = new FSCSTracker(
+      portfolio.accounts,
+      portfolio.pendingDeposits,
+      await this.config.loadFSCSLimitRegime()
+    );
     const optimizedRecommendations = await this.optimizeWithFSCSTracking(
       allOpportunities, 
       fscsTracker
@@ -444,11 +448,11 @@ export class EasyAccessOptimizer {
 
   /**
    * Apply dual-mode logic for recommendation display
-   * OR mode: Accounts ≤ £85k - show alternatives (user picks ONE)
-   * AND mode: Accounts > £85k - show complementary moves (user executes ALL)
+   * OR mode: Accounts ≤ FSCS limit - show alternatives (user picks ONE)
+   * AND mode: Accounts > FSCS limit - show complementary moves (user executes ALL)
    */
   private async applyDualModeLogic(recommendations: Recommendation[]): Promise<Recommendation[]> {
-    const FSCS_LIMIT = 85000; // Standard FSCS protection limit
+    const FSCS_LIMIT = await this.config.loadFSCSLimit(); // Limit in force today
     const riskConfig = await this.config.loadRiskToleranceConfig();
     const maxRecommendationsPerAccount = riskConfig.maxRecommendationsPerAccount || 3;
 
@@ -475,7 +479,7 @@ export class EasyAccessOptimizer {
       const sourceAmount = firstRec.source.originalAccountBalance?.amount || firstRec.source.amount.amount;
       
       if (sourceAmount <= FSCS_LIMIT) {
-        // OR MODE: Account ≤ £85k - show alternatives (user picks ONE)
+        // OR MODE: Account ≤ FSCS limit - show alternatives (user picks ONE)
         // Limit to maxRecommendationsPerAccount best alternatives
         const limitedRecommendations = accountRecommendations
           .sort((a, b) => b.benefits.annualBenefit.amount - a.benefits.annualBenefit.amount)
@@ -488,7 +492,7 @@ export class EasyAccessOptimizer {
         
         finalRecommendations.push(...limitedRecommendations);
       } else {
-        // AND MODE: Account > £85k - show complementary moves (user executes ALL)
+        // AND MODE: Account > FSCS limit - show complementary moves (user executes ALL)
         // Show all valid recommendations as they work together
         const complementaryRecommendations = accountRecommendations.map(rec => ({
           ...rec,
@@ -774,6 +778,7 @@ export class EasyAccessOptimizer {
   ): Promise<MissingFRNAlert[]> {
     const alerts: MissingFRNAlert[] = [];
     const riskConfig = await this.config.loadRiskToleranceConfig();
+    const fscsLimit = await this.config.loadFSCSLimit();
 
     try {
       // Find high-rate products without FRNs
@@ -810,7 +815,7 @@ export class EasyAccessOptimizer {
         );
         
         const rateImprovement = product.aerRate - smallestAccount.rate;
-        const transferAmount = Math.min(smallestAccount.balance.amount * 0.8, 85000);
+        const transferAmount = Math.min(smallestAccount.balance.amount * 0.8, fscsLimit);
         const potentialBenefit = (transferAmount * rateImprovement) / 100;
 
         const alert: MissingFRNAlert = {
@@ -3,31 +3,79 @@
  * 
  * Groups products by FRN to properly track shared FSCS limits and
  * manages dynamic headroom allocation during optimization.
+ * 
+ * FSCS protection is per person, so exposure is tracked per holder:
+ * sole funds count against one holder, joint funds are split equally
+ * between the holders. Only holders of the household's accounts and pending
+ * deposits can receive money, so a named owner's full FRN is never offered
+ * to a placeholder holder.
+ *
+ * Every brand trading under an FRN shares its headroom. Brand groups name
+ * the brands sharing each licence so the shared limit can be explained.
  */
 
 import { Account, PendingDeposit, AvailableProduct } from '../types';
+import { BrandGroup, describeSharedLicence, licenceBrands } from '../compliance/brand-groups';
+
+export const PRIMARY_HOLDER = 'primary';
 
 interface FRNInfo {
   frn: string;
   firmName: string;
   currentExposure: number;
-  availableHeadroom: number;
+  holderExposure: Map<string, number>;
+  availableHeadroom: number; // Unreserved headroom of the holder with most room
   products: AvailableProduct[];
   isExistingAccount: boolean;
+  brands: Set<string>; // Brands held, pending or offered at this FRN
+}
+
+/**
+ * Holders of an account or pending deposit
+ * Without explicit holders, sole funds belong to the primary holder and
+ * joint funds are shared with numAccountHolders - 1 further holders
+ * @param primaryHolder The household's primary owner, when owners are recorded
+ */
+export function getAccountHolders(
+  account: Pick<Account, 'isJointAccount' | 'numAccountHolders' | 'accountHolders'>,
+  primaryHolder: string = PRIMARY_HOLDER
+): string[] {
+  if (account.accountHolders && account.accountHolders.length > 0) {
+    return account.accountHolders;
+  }
+  
+  if (!account.isJointAccount) {
+    return [primaryHolder];
+  }
+  
+  const holderCount = Math.max(2, account.numAccountHolders || 2);
+  const holders = [primaryHolder];
+  for (let i = 2; i <= holderCount; i++) {
+    holders.push(`joint_holder_${i}`);
+  }
+  return holders;
 }
 
 export class FRNHeadroomManager {
   private readonly fscsLimit: number;
   private frnInfo: Map<string, FRNInfo> = new Map();
-  private reservedHeadroom: Map<string, number> = new Map();
+  private holders: Set<string> = new Set();
+  private reservedHeadroom: Map<string, Map<string, number>> = new Map();
+  private brandGroups: Map<string, BrandGroup>;
 
+  /**
+   * @param fscsLimit Statutory limit in force, from ConfigurationLoader.loadFSCSLimit()
+   * @param brandGroups Brands sharing each FRN's licence, from ProductLoader.getBrandGroups()
+   */
   constructor(
     accounts: Account[],
-    pendingDeposits: PendingDeposit[] = [],
-    availableProducts: AvailableProduct[] = [],
-    fscsLimit: number = 85000
+    pendingDeposits: PendingDeposit[],
+    availableProducts: AvailableProduct[],
+    fscsLimit: number,
+    brandGroups: Map<string, BrandGroup> = new Map()
   ) {
     this.fscsLimit = fscsLimit;
+    this.brandGroups = brandGroups;
     this.initialize(accounts, pendingDeposits, availableProducts);
   }
 
@@ -45,36 +93,43 @@ export class FRNHeadroomManager {
       
       const existing = this.frnInfo.get(account.institutionFRN);
       if (existing) {
-        existing.currentExposure += account.balance.amount;
+        existing.isExistingAccount = true;
       } else {
         this.frnInfo.set(account.institutionFRN, {
           frn: account.institutionFRN,
           firmName: account.bankName,
-          currentExposure: account.balance.amount,
+          currentExposure: 0,
+          holderExposure: new Map(),
           availableHeadroom: 0, // Will calculate after
           products: [],
-          isExistingAccount: true
+          isExistingAccount: true,
+          brands: new Set()
         });
       }
+      
+      this.frnInfo.get(account.institutionFRN)!.brands.add(account.bankName);
+      this.addExposure(this.frnInfo.get(account.institutionFRN)!, account.balance.amount, getAccountHolders(account));
     }
 
     // Step 2: Add pending deposits to exposure
     for (const pending of pendingDeposits) {
       if (!pending.institutionFRN) continue;
       
-      const existing = this.frnInfo.get(pending.institutionFRN);
-      if (existing) {
-        existing.currentExposure += pending.balance.amount;
-      } else {
+      if (!this.frnInfo.has(pending.institutionFRN)) {
         this.frnInfo.set(pending.institutionFRN, {
           frn: pending.institutionFRN,
           firmName: pending.bankName,
-          currentExposure: pending.balance.amount,
+          currentExposure: 0,
+          holderExposure: new Map(),
           availableHeadroom: 0,
           products: [],
-          isExistingAccount: false
+          isExistingAccount: false,
+          brands: new Set()
         });
       }
+      
+      this.frnInfo.get(pending.institutionFRN)!.brands.add(pending.bankName);
+      this.addExposure(this.frnInfo.get(pending.institutionFRN)!, pending.balance.amount, getAccountHolders(pending));
     }
 
     // Step 3: Group available products by FRN
@@ -84,56 +139,157 @@ export class FRNHeadroomManager {
       const existing = this.frnInfo.get(product.frn);
       if (existing) {
         existing.products.push(product);
+        existing.brands.add(product.bankName);
       } else {
         this.frnInfo.set(product.frn, {
           frn: product.frn,
           firmName: product.bankName,
           currentExposure: 0,
+          holderExposure: new Map(),
           availableHeadroom: 0,
           products: [product],
-          isExistingAccount: false
+          isExistingAccount: false,
+          brands: new Set([product.bankName])
         });
       }
     }
 
+    // A household with nothing held yet is one person
+    if (this.holders.size === 0) {
+      this.holders.add(PRIMARY_HOLDER);
+    }
+
     // Step 4: Calculate available headroom for each FRN
     for (const info of this.frnInfo.values()) {
-      info.availableHeadroom = Math.max(0, this.fscsLimit - info.currentExposure);
+      info.availableHeadroom = Math.max(
+        ...Array.from(this.holders).map(holder => this.fscsLimit - (info.holderExposure.get(holder) || 0)),
+        0
+      );
       
       // Sort products within each FRN by rate (best first)
       info.products.sort((a, b) => b.aerRate - a.aerRate);
     }
   }
 
+  /**
+   * Split a balance equally between its holders
+   */
+  private addExposure(info: FRNInfo, amount: number, holders: string[]): void {
+    info.currentExposure += amount;
+    
+    const share = amount / holders.length;
+    for (const holder of holders) {
+      this.holders.add(holder);
+      info.holderExposure.set(holder, (info.holderExposure.get(holder) || 0) + share);
+    }
+  }
+
+  /**
+   * Statutory per-person limit the headroom is measured against
+   */
+  public getFSCSLimit(): number {
+    return this.fscsLimit;
+  }
+
+  /**
+   * Get all holders known to the household
+   */
+  public getHolders(): string[] {
+    return Array.from(this.holders);
+  }
+
   /**
    * Get available headroom for a specific FRN
+   * For a holder when given, otherwise for the holder with most room
    */
-  public getAvailableHeadroom(frn: string): number {
-    const info = this.frnInfo.get(frn);
-    if (!info) return 0;
+  public getAvailableHeadroom(frn: string, holder?: string): number {
+    if (holder) {
+      return this.getHolderHeadroom(frn, holder);
+    }
+    
+    return this.getBestHolder(frn)?.headroom || 0;
+  }
+
+  /**
+   * Get the holder with most remaining headroom at an FRN
+   */
+  public getBestHolder(frn: string): { holder: string; headroom: number } | null {
+    if (!this.frnInfo.has(frn)) return null;
+    
+    let best: { holder: string; headroom: number } | null = null;
+    for (const holder of this.holders) {
+      const headroom = this.getHolderHeadroom(frn, holder);
+      if (!best || headroom > best.headroom) {
+        best = { holder, headroom };
+      }
+    }
     
-    const reserved = this.reservedHeadroom.get(frn) || 0;
-    return Math.max(0, info.availableHeadroom - reserved);
+    return best;
   }
 
   /**
    * Reserve headroom for a recommendation
+   * Reserved against the given holder, or the holder with most room
    */
-  public reserveHeadroom(frn: string, amount: number): boolean {
-    const available = this.getAvailableHeadroom(frn);
+  public reserveHeadroom(frn: string, amount: number, holder?: string): boolean {
+    const target = holder || this.getBestHolder(frn)?.holder;
+    if (!target) return false;
+    
+    const available = this.getHolderHeadroom(frn, target);
     if (amount > available) return false;
     
-    const currentReserved = this.reservedHeadroom.get(frn) || 0;
-    this.reservedHeadroom.set(frn, currentReserved + amount);
+    const reservations = this.reservedHeadroom.get(frn) || new Map<string, number>();
+    reservations.set(target, (reservations.get(target) || 0) + amount);
+    this.reservedHeadroom.set(frn, reservations);
     return true;
   }
 
   /**
-   * Get current exposure for an FRN
+   * Get current exposure for an FRN, in total or for one holder
    */
-  public getCurrentExposure(frn: string): number {
+  public getCurrentExposure(frn: string, holder?: string): number {
     const info = this.frnInfo.get(frn);
-    return info?.currentExposure || 0;
+    if (!info) return 0;
+    
+    return holder ? info.holderExposure.get(holder) || 0 : info.currentExposure;
+  }
+
+  /**
+   * Unreserved headroom for one holder at an FRN
+   */
+  private getHolderHeadroom(frn: string, holder: string): number {
+    const info = this.frnInfo.get(frn);
+    if (!info) return 0;
+    
+    const exposure = info.holderExposure.get(holder) || 0;
+    const reserved = this.reservedHeadroom.get(frn)?.get(holder) || 0;
+    return Math.max(0, this.fscsLimit - exposure - reserved);
+  }
+
+  /**
+   * Brands sharing an FRN's headroom: those held, pending or offered first,
+   * then the rest of its brand group
+   */
+  public getLicenceBrands(frn: string): string[] {
+    return licenceBrands(this.brandGroups.get(frn), this.frnInfo.get(frn)?.brands || []);
+  }
+
+  /**
+   * Explain a limit shared across brands, e.g. "Bank A + Bank B share £85,000 (FRN 123456, Bank A plc)"
+   * Undefined when the FRN's licence is used by one brand only
+   */
+  public describeSharedLicence(frn: string): string | undefined {
+    return describeSharedLicence(frn, this.brandGroups.get(frn), this.frnInfo.get(frn)?.brands || [], this.fscsLimit);
+  }
+
+  /**
+   * FSCS impact of a recommendation into an FRN, naming any brands that share its limit
+   */
+  public describeFSCSImpact(frn: string | null | undefined): string {
+    if (!frn) return 'No FSCS protection';
+    
+    const sharedLicence = this.describeSharedLicence(frn);
+    return sharedLicence ? `Headroom verified - ${sharedLicence}` : 'Headroom verified';
   }
 
   /**
@@ -195,15 +351,24 @@ export class FRNHeadroomManager {
     availableHeadroom: number;
     reservedHeadroom: number;
     remainingHeadroom: number;
+    holderHeadroom: Record<string, number>;
     isExistingAccount: boolean;
     productCount: number;
     bestRate: number | null;
+    licenceBrands: string[];
+    sharedLicence?: string;
   }> {
     const summary = [];
     
     for (const [frn, info] of this.frnInfo) {
-      const reserved = this.reservedHeadroom.get(frn) || 0;
+      const reserved = Array.from(this.reservedHeadroom.get(frn)?.values() || []).reduce((sum, r) => sum + r, 0);
       const bestRate = info.products.length > 0 ? info.products[0]?.aerRate || null : null;
+      const sharedLicence = this.describeSharedLicence(frn);
+      
+      const holderHeadroom: Record<string, number> = {};
+      for (const holder of this.holders) {
+        holderHeadroom[holder] = this.getHolderHeadroom(frn, holder);
+      }
       
       summary.push({
         frn,
@@ -212,9 +377,12 @@ export class FRNHeadroomManager {
         availableHeadroom: info.availableHeadroom,
         reservedHeadroom: reserved,
         remainingHeadroom: this.getAvailableHeadroom(frn),
+        holderHeadroom,
         isExistingAccount: info.isExistingAccount,
         productCount: info.products.length,
-        bestRate
+        bestRate,
+        licenceBrands: this.getLicenceBrands(frn),
+        ...(sharedLicence && { sharedLicence })
       });
     }
     
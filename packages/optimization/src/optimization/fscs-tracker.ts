@@ -4,11 +4,12 @@
  * to ensure no institution exceeds protection limits
  */
 
-import { Account, PendingDeposit } from '../types';
+import { Account, PendingDeposit, FSCSLimitRegime } from '../types';
 
 interface FSCSExposure {
   frn: string;
   institutionName: string;
+  limit: number;                 // Regulatory limit, multiplied for joint holdings
   currentExposure: number;
   pendingRecommendations: number;
   totalExposure: number;
@@ -26,17 +27,22 @@ interface RecommendationEntry {
 }
 
 export class FSCSTracker {
-  private readonly fscsLimit: number = 85000; // Standard FSCS protection limit
+  private readonly fscsLimit: number;
+  private readonly jointMultiplier: number;
   private exposures: Map<string, FSCSExposure> = new Map();
   private recommendationQueue: RecommendationEntry[] = [];
   private nextRecommendationId = 1;
 
+  /**
+   * @param regime Limit regime in force, from ConfigurationLoader.loadFSCSLimitRegime()
+   */
   constructor(
     accounts: Account[],
-    pendingDeposits: PendingDeposit[] = [],
-    fscsLimit: number = 85000
+    pendingDeposits: PendingDeposit[],
+    regime: FSCSLimitRegime
   ) {
-    this.fscsLimit = fscsLimit;
+    this.fscsLimit = regime.regulatoryLimit.amount;
+    this.jointMultiplier = regime.jointMultiplier;
     this.initialize(accounts, pendingDeposits);
   }
 
@@ -51,7 +57,8 @@ export class FSCSTracker {
       this.addExposure(
         account.institutionFRN,
         account.bankName,
-        account.balance.amount
+        account.balance.amount,
+        account.isJointAccount
       );
     }
 
@@ -62,30 +69,35 @@ export class FSCSTracker {
       this.addExposure(
         pending.institutionFRN,
         pending.bankName,
-        pending.balance.amount
+        pending.balance.amount,
+        pending.isJointAccount
       );
     }
   }
 
   /**
    * Add or update exposure for an institution
+   * As in the compliance engine, any joint holding raises the FRN's limit by the joint multiplier
    */
-  private addExposure(frn: string, institutionName: string, amount: number): void {
+  private addExposure(frn: string, institutionName: string, amount: number, isJointAccount: boolean): void {
     const existing = this.exposures.get(frn);
+    const limit = isJointAccount ? this.fscsLimit * this.jointMultiplier : this.fscsLimit;
     
     if (existing) {
       existing.currentExposure += amount;
+      existing.limit = Math.max(existing.limit, limit);
       this.recalculateExposure(existing);
     } else {
       const exposure: FSCSExposure = {
         frn,
         institutionName,
+        limit,
         currentExposure: amount,
         pendingRecommendations: 0,
         totalExposure: amount,
-        availableHeadroom: this.fscsLimit - amount,
-        isAtLimit: amount >= this.fscsLimit,
-        isOverLimit: amount > this.fscsLimit
+        availableHeadroom: limit - amount,
+        isAtLimit: amount >= limit,
+        isOverLimit: amount > limit
       };
       
       this.exposures.set(frn, exposure);
@@ -97,9 +109,9 @@ export class FSCSTracker {
    */
   private recalculateExposure(exposure: FSCSExposure): void {
     exposure.totalExposure = exposure.currentExposure + exposure.pendingRecommendations;
-    exposure.availableHeadroom = Math.max(0, this.fscsLimit - exposure.totalExposure);
-    exposure.isAtLimit = exposure.totalExposure >= this.fscsLimit;
-    exposure.isOverLimit = exposure.totalExposure > this.fscsLimit;
+    exposure.availableHeadroom = Math.max(0, exposure.limit - exposure.totalExposure);
+    exposure.isAtLimit = exposure.totalExposure >= exposure.limit;
+    exposure.isOverLimit = exposure.totalExposure > exposure.limit;
   }
 
   /**
@@ -114,7 +126,7 @@ export class FSCSTracker {
       return amount > this.fscsLimit;
     }
     
-    return (exposure.totalExposure + amount) > this.fscsLimit;
+    return (exposure.totalExposure + amount) > exposure.limit;
   }
 
   /**
@@ -179,6 +191,7 @@ export class FSCSTracker {
       const exposure: FSCSExposure = {
         frn: targetFRN,
         institutionName,
+        limit: this.fscsLimit,
         currentExposure: 0,
         pendingRecommendations: amount,
         totalExposure: amount,
@@ -0,0 +1,46 @@
+/**
+ * ISA Allowance Tracker - Tracks unused ISA subscription allowance per holder
+ *
+ * Moving money into an ISA from outside one is a subscription and uses the
+ * holder's annual allowance; moving between ISAs is a transfer and does not.
+ * Recommendations that subscribe are capped at the allowance left, and each
+ * one reduces it for later recommendations in the same run.
+ */
+
+import { Account, AvailableProduct, IsaAllowanceStatus } from '../types';
+
+export class IsaAllowanceTracker {
+  private remaining: Map<string, number>;
+
+  /**
+   * @param status Allowance left per holder, from ConfigurationLoader.loadIsaAllowanceStatus()
+   */
+  constructor(private status: IsaAllowanceStatus) {
+    this.remaining = new Map(status.remainingByHolder);
+  }
+
+  /**
+   * Whether moving from an account into a product would use ISA allowance
+   */
+  public consumesAllowance(account: Account, product: AvailableProduct): boolean {
+    return !!product.isISA && !account.isISA;
+  }
+
+  /**
+   * Allowance a holder has left this tax year
+   */
+  public getRemaining(holder: string): number {
+    return this.remaining.get(holder) ?? this.status.annualAllowance.amount;
+  }
+
+  public getTaxYear(): string {
+    return this.status.taxYear;
+  }
+
+  /**
+   * Record a subscription made by a recommendation
+   */
+  public reserve(holder: string, amount: number): void {
+    this.remaining.set(holder, Math.max(0, this.getRemaining(holder) - amount));
+  }
+}
@@ -6,47 +6,297 @@
  * - Calculates marginal benefit (rate improvement per pound)
  * - Applies convenience bonuses for existing accounts and preferred platforms
  * - Dynamically allocates based on available headroom
+ * - Funds notice and fixed term tiers towards their allocation targets
+ *   as a maturity ladder, keeping the emergency easy access target intact
  */
 
 import {
   Portfolio,
-  Recommendation
+  Recommendation,
+  AvailableProduct,
+  LiquidityTier,
+  OptimizationResult,
+  OptimizationOverrides,
+  PortfolioAnalysis,
+  TierAnalysis,
+  AccountRateGap,
+  Account
 } from '../types/index';
 import { FRNHeadroomManager } from './frn-headroom-manager';
 import { OptimizationRulesEngine } from '../rules/engine';
-import { ConfigurationLoader } from '../configuration/loader';
+import { ConfigurationLoader, applyRiskOverrides } from '../configuration/loader';
 import { ProductLoader } from '../products/loader';
 import { DynamicAllocator } from './dynamic-allocator';
+import { SavingsTaxTracker } from './savings-tax-tracker';
+import { IsaAllowanceTracker } from './isa-allowance-tracker';
+import { SwitchingCostModel } from './switching-cost-model';
+import { TermLadderPlanner } from './term-ladder';
+import { UnifiedConfigurationLoader } from '../configuration/unified-loader';
+import { Money as MoneyImpl } from '../utils/money';
 
 // OpportunityWithBenefit interface moved to dynamic-allocator.ts
 
+// Accounts below this balance are not worth moving unless a run says otherwise
+const DEFAULT_MINIMUM_BALANCE = 1000;
+
 export class Optimizer {
   private rulesEngine: OptimizationRulesEngine;
   private config: ConfigurationLoader;
   private productLoader: ProductLoader;
+  private overrides: OptimizationOverrides;
 
+  /**
+   * @param overrides Per-run settings (e.g. from optimize-cli flags) applied over the stored configuration
+   */
   constructor(
     rulesEngine: OptimizationRulesEngine,
     config: ConfigurationLoader,
-    productLoader: ProductLoader
+    productLoader: ProductLoader,
+    overrides: OptimizationOverrides = {}
   ) {
     this.rulesEngine = rulesEngine;
     this.config = config;
     this.productLoader = productLoader;
+    this.overrides = overrides;
   }
 
   /**
    * Main optimization entry point using marginal benefit approach
    */
   public async optimize(portfolio: Portfolio): Promise<Recommendation[]> {
-    // Step 1: Load exclusions
-    const exclusions = await this.config.loadExcludedProducts();
+    const result = await this.optimizeWithLadder(portfolio);
+    return result.recommendations;
+  }
+
+  /**
+   * Optimize across every liquidity tier and return the resulting maturity ladder
+   *
+   * Locked tiers are funded first from maturing or surplus liquid money, then
+   * whatever remains is optimized within easy access.
+   */
+  public async optimizeWithLadder(portfolio: Portfolio): Promise<OptimizationResult> {
+    // Step 1: Load tier targets
+    const tierConfigs = await this.config.loadLiquidityAllocationConfig();
+    const lockedTiers = tierConfigs
+      .filter(c => c.isActive && c.liquidityTier !== 'easy_access' && c.targetPercentage.value > 0)
+      .map(c => c.liquidityTier);
+
+    // Step 2: Load eligible products for every tier with a target
+    const easyAccessProducts = await this.filterEligible(
+      await this.productLoader.getProductsBetterThan(0, 'easy_access')
+    );
+    const productsByTier = new Map<LiquidityTier, AvailableProduct[]>();
+    for (const [tier, products] of await this.productLoader.getProductsByTier(lockedTiers)) {
+      productsByTier.set(tier, await this.filterEligible(products));
+    }
+
+    // Step 3: Initialize FRN headroom tracking across all candidate products
+    const frnManager = new FRNHeadroomManager(
+      portfolio.accounts,
+      portfolio.pendingDeposits || [],
+      [...easyAccessProducts, ...Array.from(productsByTier.values()).flat()],
+      await this.config.loadFSCSLimit(),
+      await this.productLoader.getBrandGroups()
+    );
+
+    // Step 4: Build the term ladder from maturing and surplus liquid money
+    const riskConfig = applyRiskOverrides(await this.config.loadRiskToleranceConfig(), this.overrides);
+    const unifiedConfig = new UnifiedConfigurationLoader(this.config.getDatabaseConnection());
+    const ladderPlanner = new TermLadderPlanner(tierConfigs, frnManager, {
+      minMoveAmount: riskConfig.minMoveAmount.amount,
+      minRebalancingBenefit: riskConfig.minRebalancingBenefit.amount,
+      maturityWindowDays: await unifiedConfig.getNumber('ladder_maturity_window_days', 30)
+    });
+    const ladderPlan = ladderPlanner.plan(
+      portfolio.accounts,
+      portfolio.pendingDeposits || [],
+      productsByTier
+    );
+
+    // Step 5: Use dynamic allocation for comprehensive recommendations
+    // Moves are compared net of tax on interest, per holder
+    // and ISA subscriptions are limited by each holder's unused allowance.
+    // Opportunities are ranked on their net gain over the switching horizon
+    const taxTracker = new SavingsTaxTracker(portfolio.accounts, await this.config.loadSavingsTaxConfig());
+    const isaTracker = new IsaAllowanceTracker(await this.config.loadIsaAllowanceStatus());
+    const switchingConfig = await this.config.loadSwitchingCostConfig();
+    const switchingModel = new SwitchingCostModel({
+      ...switchingConfig,
+      horizonMonths: this.overrides.horizonMonths ?? switchingConfig.horizonMonths
+    });
+    const dynamicAllocator = new DynamicAllocator(
+      this.rulesEngine,
+      this.config,
+      frnManager,
+      taxTracker,
+      isaTracker,
+      switchingModel,
+      this.overrides
+    );
     
-    // Step 2: Initialize FRN headroom tracking with filtered products
-    let availableProducts = await this.productLoader.getProductsBetterThan(0, 'easy_access');
+    // Build existing accounts set (accounts we already have)
+    const existingAccounts = new Set<string>();
+    for (const account of portfolio.accounts) {
+      existingAccounts.add(`${account.bankName}-${account.accountType}`);
+    }
     
-    // Filter out excluded products
-    availableProducts = availableProducts.filter(product => {
+    // Load preferred platforms (a run may supply its own list)
+    const preferredPlatforms = new Set(
+      this.overrides.preferredPlatforms ??
+      (await this.config.loadPreferredPlatforms()).map(p => p.platformName)
+    );
+
+    // Only liquid or maturing money can move, less whatever the ladder already committed
+    const movableAccounts = portfolio.accounts
+      .filter(acc => TermLadderPlanner.isLiquid(acc) ||
+        TermLadderPlanner.isMaturing(acc, ladderPlan.maturityLadder.maturityWindowDays))
+      .map(acc => {
+        const committed = ladderPlan.committedBySource.get(acc.id) || 0;
+        return committed > 0 ? { ...acc, balance: new MoneyImpl(acc.balance.amount - committed) } : acc;
+      });
+    
+    // Use dynamic allocation strategy
+    const easyAccessRecommendations = await dynamicAllocator.allocateDynamically(
+      movableAccounts.filter(acc => acc.balance.amount >= this.minimumBalance()), // Only accounts with meaningful balance
+      easyAccessProducts,
+      existingAccounts,
+      preferredPlatforms
+    );
+
+    return {
+      recommendations: [...ladderPlan.recommendations, ...easyAccessRecommendations],
+      maturityLadder: ladderPlan.maturityLadder
+    };
+  }
+
+  /**
+   * Read-only comparison of each liquidity tier with the best eligible product
+   *
+   * Accounts that could move now (liquid or maturing) and would gain at least
+   * the minimum benefit are listed as underperforming. Nothing is recommended
+   * or saved.
+   */
+  public async analyzePortfolio(portfolio: Portfolio): Promise<PortfolioAnalysis> {
+    const riskConfig = applyRiskOverrides(await this.config.loadRiskToleranceConfig(), this.overrides);
+    const unifiedConfig = new UnifiedConfigurationLoader(this.config.getDatabaseConnection());
+    const maturityWindowDays = await unifiedConfig.getNumber('ladder_maturity_window_days', 30);
+    const tierOrder = new Map(
+      (await this.config.loadLiquidityAllocationConfig()).map(c => [c.liquidityTier, c.tierOrder])
+    );
+
+    const accounts = portfolio.accounts.filter(acc => acc.isActive);
+    const tiers = Array.from(new Set(accounts.map(acc => acc.liquidityTier)))
+      .sort((a, b) => (tierOrder.get(a) ?? Infinity) - (tierOrder.get(b) ?? Infinity));
+
+    const bestByTier = new Map<LiquidityTier, AvailableProduct>();
+    for (const [tier, products] of await this.productLoader.getProductsByTier(tiers)) {
+      for (const product of await this.filterEligible(products)) {
+        const best = bestByTier.get(tier);
+        if (!best || product.aerRate > best.aerRate) {
+          bestByTier.set(tier, product);
+        }
+      }
+    }
+
+    const underperformingAccounts: AccountRateGap[] = [];
+    const tierAnalyses: TierAnalysis[] = tiers.map(tier => {
+      const tierAccounts = accounts.filter(acc => acc.liquidityTier === tier);
+      const best = bestByTier.get(tier);
+      let potentialAnnualGain = 0;
+
+      for (const account of tierAccounts) {
+        const canMove = TermLadderPlanner.isLiquid(account) ||
+          TermLadderPlanner.isMaturing(account, maturityWindowDays);
+        if (!best || !canMove || account.balance.amount < this.minimumBalance()) continue;
+
+        const rateGap = best.aerRate - (account.rate || 0);
+        const annualGain = account.balance.amount * rateGap / 100;
+        if (rateGap < riskConfig.meaningfulRateThreshold.value ||
+            annualGain < riskConfig.minRebalancingBenefit.amount) {
+          continue;
+        }
+
+        potentialAnnualGain += annualGain;
+        underperformingAccounts.push({
+          accountId: account.id,
+          bankName: account.bankName,
+          liquidityTier: tier,
+          balance: account.balance,
+          currentRate: account.rate || 0,
+          bestAvailableRate: best.aerRate,
+          bestAvailableBank: best.bankName,
+          annualGain: new MoneyImpl(annualGain)
+        });
+      }
+
+      return {
+        liquidityTier: tier,
+        accountCount: tierAccounts.length,
+        totalBalance: new MoneyImpl(tierAccounts.reduce((sum, acc) => sum + acc.balance.amount, 0)),
+        weightedAverageRate: this.weightedAverageRate(tierAccounts),
+        ...(best ? { bestAvailableRate: best.aerRate } : {}),
+        potentialAnnualGain: new MoneyImpl(potentialAnnualGain)
+      };
+    });
+
+    underperformingAccounts.sort((a, b) => b.annualGain.amount - a.annualGain.amount);
+
+    return {
+      totalValue: new MoneyImpl(accounts.reduce((sum, acc) => sum + acc.balance.amount, 0)),
+      weightedAverageRate: this.weightedAverageRate(accounts),
+      tiers: tierAnalyses,
+      underperformingAccounts,
+      potentialAnnualGain: new MoneyImpl(
+        underperformingAccounts.reduce((sum, gap) => sum + gap.annualGain.amount, 0)
+      ),
+      generatedAt: new Date()
+    };
+  }
+
+  private minimumBalance(): number {
+    return this.overrides.minimumBalance ?? DEFAULT_MINIMUM_BALANCE;
+  }
+
+  private weightedAverageRate(accounts: Account[]): number {
+    const total = accounts.reduce((sum, acc) => sum + acc.balance.amount, 0);
+    if (total === 0) return 0;
+    return accounts.reduce((sum, acc) => sum + acc.balance.amount * (acc.rate || 0), 0) / total;
+  }
+
+  /**
+   * Products a run may recommend: configured and run exclusions removed,
+   * and Sharia banks removed when the run does not allow them
+   */
+  private async filterEligible(products: AvailableProduct[]): Promise<AvailableProduct[]> {
+    let eligible = this.applyExclusions(products, await this.config.loadExcludedProducts());
+
+    const runExclusions = new Set(this.overrides.excludedProducts || []);
+    if (runExclusions.size > 0) {
+      eligible = eligible.filter(product =>
+        !runExclusions.has(product.id) &&
+        !runExclusions.has(product.bankName) &&
+        !(product.frn && runExclusions.has(product.frn))
+      );
+    }
+
+    if (this.overrides.allowShariaBanks === false) {
+      const shariaFRNs = new Set(
+        (await this.config.loadShariaBanks()).filter(bank => bank.isShariaCompliant).map(bank => bank.frn)
+      );
+      eligible = eligible.filter(product => !product.frn || !shariaFRNs.has(product.frn));
+    }
+
+    return eligible;
+  }
+
+  /**
+   * Remove products matching the configured exclusions
+   */
+  private applyExclusions(
+    products: AvailableProduct[],
+    exclusions: Array<{ frn?: string; bankName?: string; accountType?: string }>
+  ): AvailableProduct[] {
+    return products.filter(product => {
       // Check if product is excluded
       for (const exclusion of exclusions) {
         // FRN-level exclusion
@@ -72,41 +322,5 @@ export class Optimizer {
       }
       return true;
     });
-    
-    const frnManager = new FRNHeadroomManager(
-      portfolio.accounts,
-      portfolio.pendingDeposits || [],
-      availableProducts,
-      await this.config.loadFSCSLimit()
-    );
-
-    // Step 2: Use dynamic allocation for comprehensive recommendations
-    const dynamicAllocator = new DynamicAllocator(
-      this.rulesEngine,
-      this.config,
-      frnManager
-    );
-    
-    // Build existing accounts set (accounts we already have)
-    const existingAccounts = new Set<string>();
-    for (const account of portfolio.accounts) {
-      existingAccounts.add(`${account.bankName}-${account.accountType}`);
-    }
-    
-    // Load preferred platforms
-    const preferredPlatformsList = await this.config.loadPreferredPlatforms();
-    const preferredPlatforms = new Set(preferredPlatformsList.map(p => p.platformName));
-    
-    // Use dynamic allocation strategy
-    return await dynamicAllocator.allocateDynamically(
-      portfolio.accounts.filter(acc => acc.balance.amount >= 1000), // Only accounts with meaningful balance
-      availableProducts,
-      existingAccounts,
-      preferredPlatforms
-    );
   }
-
-
-
-
 }
@@ -0,0 +1,139 @@
+/**
+ * Savings Tax Tracker - Tracks projected taxable interest per holder
+ *
+ * Interest on non-ISA accounts is tax free up to each holder's Personal
+ * Savings Allowance and taxed at their marginal rate above it; ISA interest
+ * is always tax free. Joint account interest is split equally between the
+ * holders. Moves are valued net of the tax they add or remove, so an ISA
+ * can beat a taxable account paying a higher gross rate once the holder's
+ * allowance is used up.
+ */
+
+import { Account, AvailableProduct, SavingsTaxConfig, SavingsTaxProfile } from '../types';
+import { getAccountHolders } from './frn-headroom-manager';
+
+export class SavingsTaxTracker {
+  private taxableInterest: Map<string, number> = new Map();
+  private profiles: Map<string, SavingsTaxProfile>;
+
+  /**
+   * @param taxConfig Holder tax bands, from ConfigurationLoader.loadSavingsTaxConfig()
+   */
+  constructor(accounts: Account[], private taxConfig: SavingsTaxConfig) {
+    this.profiles = new Map(taxConfig.profiles.map(profile => [profile.holder, profile]));
+
+    for (const account of accounts) {
+      if (account.isISA || !account.isActive) continue;
+      this.addInterest(getAccountHolders(account), account.balance.amount * (account.rate || 0) / 100);
+    }
+  }
+
+  /**
+   * Tax profile for a holder, or the default band when none is configured
+   */
+  public getProfile(holder: string): SavingsTaxProfile {
+    return this.profiles.get(holder) || { holder, ...this.taxConfig.defaultProfile };
+  }
+
+  /**
+   * Projected annual non-ISA interest for a holder
+   */
+  public getTaxableInterest(holder: string): number {
+    return this.taxableInterest.get(holder) || 0;
+  }
+
+  /**
+   * Allowance a holder has left before further interest is taxed
+   */
+  public getUnusedAllowance(holder: string): number {
+    return Math.max(0, this.getProfile(holder).allowance.amount - this.getTaxableInterest(holder));
+  }
+
+  /**
+   * Tax due on a year's non-ISA interest for a holder
+   */
+  public taxFor(holder: string, interest: number = this.getTaxableInterest(holder)): number {
+    const profile = this.getProfile(holder);
+    return Math.max(0, interest - profile.allowance.amount) * profile.taxRate / 100;
+  }
+
+  /**
+   * Annual gain from moving money, after tax
+   * Gross interest gained less the change in tax across the source and target holders
+   */
+  public netAnnualBenefit(
+    account: Account,
+    product: AvailableProduct,
+    amount: number,
+    targetHolder?: string
+  ): number {
+    const sourceInterest = amount * (account.rate || 0) / 100;
+    const targetInterest = amount * product.aerRate / 100;
+
+    const changes = this.interestChanges(account, product, amount, targetHolder);
+    let taxChange = 0;
+    for (const [holder, change] of changes) {
+      const current = this.getTaxableInterest(holder);
+      taxChange += this.taxFor(holder, current + change) - this.taxFor(holder, current);
+    }
+
+    return targetInterest - sourceInterest - taxChange;
+  }
+
+  /**
+   * Record a recommended move so later opportunities see the allowance it uses
+   */
+  public recordMove(
+    account: Account,
+    product: AvailableProduct,
+    amount: number,
+    targetHolder?: string
+  ): void {
+    for (const [holder, change] of this.interestChanges(account, product, amount, targetHolder)) {
+      this.taxableInterest.set(holder, this.getTaxableInterest(holder) + change);
+    }
+  }
+
+  /**
+   * Whether a move would take interest outside an ISA or into one
+   */
+  public describeTaxTreatment(account: Account, product: AvailableProduct): string | null {
+    if (product.isISA && !account.isISA) return 'Cash ISA - interest is tax free';
+    if (account.isISA && !product.isISA) return 'Moving out of an ISA - interest becomes taxable';
+    return null;
+  }
+
+  /**
+   * Change in each holder's taxable interest caused by a move
+   */
+  private interestChanges(
+    account: Account,
+    product: AvailableProduct,
+    amount: number,
+    targetHolder?: string
+  ): Map<string, number> {
+    const changes = new Map<string, number>();
+    const sourceHolders = getAccountHolders(account);
+
+    if (!account.isISA) {
+      const share = amount * (account.rate || 0) / 100 / sourceHolders.length;
+      for (const holder of sourceHolders) {
+        changes.set(holder, (changes.get(holder) || 0) - share);
+      }
+    }
+
+    if (!product.isISA) {
+      const holder = targetHolder || sourceHolders[0]!;
+      changes.set(holder, (changes.get(holder) || 0) + amount * product.aerRate / 100);
+    }
+
+    return changes;
+  }
+
+  private addInterest(holders: string[], interest: number): void {
+    const share = interest / holders.length;
+    for (const holder of holders) {
+      this.taxableInterest.set(holder, this.getTaxableInterest(holder) + share);
+    }
+  }
+}
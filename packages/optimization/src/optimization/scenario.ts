@@ -0,0 +1,192 @@
+/**
+ * What-If Scenarios - Hypothetical changes applied over the loaded portfolio
+ *
+ * A scenario overlay adds deposits, withdraws from accounts, changes rates
+ * and excludes institutions. The overlay is applied to a copy of the
+ * portfolio and to the products the optimizer sees, so a run can be compared
+ * against the baseline without writing anything to the database.
+ */
+
+import {
+  Account,
+  AvailableProduct,
+  LiquidityTier,
+  AccountSubType,
+  Portfolio,
+  Recommendation,
+  ScenarioOverlay,
+  ScenarioRateChange,
+  ScenarioCompliance,
+  ScenarioSnapshot,
+  ScenarioDiff,
+  DatabaseConnection
+} from '../types/index';
+import { PortfolioLoader } from '../portfolio/loader';
+import { ProductLoader } from '../products/loader';
+import { Money as MoneyImpl } from '../utils/money';
+
+export interface AppliedScenario {
+  portfolio: Portfolio;
+  warnings: string[];
+}
+
+/**
+ * Apply a scenario overlay to a portfolio
+ * The original portfolio is left unchanged
+ */
+export function applyScenario(
+  portfolio: Portfolio,
+  overlay: ScenarioOverlay,
+  portfolioLoader: PortfolioLoader
+): AppliedScenario {
+  const warnings: string[] = [];
+  let accounts: Account[] = portfolio.accounts.map(account => ({ ...account }));
+
+  for (const withdrawal of overlay.withdrawals || []) {
+    const account = accounts.find(a => a.id === withdrawal.accountId);
+    if (!account) {
+      warnings.push(`Withdrawal skipped: account ${withdrawal.accountId} not found`);
+      continue;
+    }
+
+    const amount = withdrawal.amount ?? account.balance.amount;
+    if (amount > account.balance.amount) {
+      warnings.push(`Withdrawal of £${amount.toLocaleString()} from ${account.bankName} capped at the £${account.balance.amount.toLocaleString()} balance`);
+    }
+    account.balance = new MoneyImpl(Math.max(0, account.balance.amount - amount));
+  }
+  accounts = accounts.filter(account => account.balance.amount > 0);
+
+  (overlay.deposits || []).forEach((deposit, index) => {
+    if (deposit.amount <= 0) {
+      warnings.push(`Deposit into ${deposit.bankName} skipped: amount must be positive`);
+      return;
+    }
+
+    const liquidityTier = deposit.liquidityTier || 'easy_access';
+    const holders = deposit.accountHolders || [];
+    const account: Account = {
+      id: `scenario-deposit-${index + 1}`,
+      institutionFRN: deposit.frn,
+      bankName: deposit.bankName,
+      accountType: 'Savings',
+      accountSubType: subTypeForTier(liquidityTier),
+      balance: new MoneyImpl(deposit.amount),
+      rate: deposit.rate,
+      liquidityTier,
+      canWithdrawImmediately: liquidityTier === 'easy_access',
+      isJointAccount: holders.length > 1,
+      isActive: true,
+      isISA: !!deposit.isISA,
+      lastUpdated: new Date(),
+      notes: 'What-if scenario deposit'
+    };
+    if (holders.length > 0) account.accountHolders = holders;
+    accounts.push(account);
+  });
+
+  for (const change of overlay.rateChanges || []) {
+    const matched = accounts.filter(account => rateChangeMatchesAccount(change, account));
+    if (change.accountId && matched.length === 0) {
+      warnings.push(`Rate change skipped: account ${change.accountId} not found`);
+    }
+    for (const account of matched) {
+      account.rate = change.newRate;
+    }
+  }
+
+  return {
+    portfolio: portfolioLoader.buildPortfolio(accounts, portfolio.pendingDeposits),
+    warnings
+  };
+}
+
+/**
+ * Product loader that reports products at their scenario rates
+ * getProductsByTier() goes through getProductsBetterThan(), so both are covered
+ */
+export class ScenarioProductLoader extends ProductLoader {
+  constructor(db: DatabaseConnection, private rateChanges: ScenarioRateChange[]) {
+    super(db);
+  }
+
+  public async getProductsBetterThan(
+    minRate: number,
+    liquidityTier: LiquidityTier = 'easy_access'
+  ): Promise<AvailableProduct[]> {
+    const products = await super.getProductsBetterThan(0, liquidityTier);
+
+    return products
+      .map(product => {
+        const change = this.rateChanges.find(c => rateChangeMatchesProduct(c, product));
+        return change ? { ...product, aerRate: change.newRate, grossRate: change.newRate } : product;
+      })
+      .filter(product => product.aerRate > minRate)
+      .sort((a, b) => b.aerRate - a.aerRate);
+  }
+}
+
+/**
+ * Summarise a portfolio, its recommendations and its compliance for comparison
+ */
+export function summarizeScenario(
+  portfolio: Portfolio,
+  recommendations: Recommendation[],
+  compliance: ScenarioCompliance
+): ScenarioSnapshot {
+  return {
+    accountCount: portfolio.accounts.length,
+    totalValue: portfolio.totalValue.amount,
+    weightedAverageRate: portfolio.averageRate,
+    annualInterest: portfolio.accounts.reduce(
+      (sum, account) => sum + account.balance.amount * (account.rate || 0) / 100,
+      0
+    ),
+    recommendations,
+    totalBenefit: recommendations.reduce((sum, rec) => sum + rec.benefits.annualBenefit.amount, 0),
+    compliance
+  };
+}
+
+/**
+ * Compare a scenario run against the baseline run
+ */
+export function diffScenario(baseline: ScenarioSnapshot, scenario: ScenarioSnapshot): ScenarioDiff {
+  const baselineKeys = new Set(baseline.recommendations.map(recommendationKey));
+  const scenarioKeys = new Set(scenario.recommendations.map(recommendationKey));
+  const baselineBreaches = new Set(baseline.compliance.breachedFRNs);
+  const scenarioBreaches = new Set(scenario.compliance.breachedFRNs);
+
+  return {
+    totalValueChange: scenario.totalValue - baseline.totalValue,
+    weightedAverageRateChange: scenario.weightedAverageRate - baseline.weightedAverageRate,
+    annualInterestChange: scenario.annualInterest - baseline.annualInterest,
+    totalBenefitChange: scenario.totalBenefit - baseline.totalBenefit,
+    addedRecommendations: scenario.recommendations.filter(rec => !baselineKeys.has(recommendationKey(rec))),
+    removedRecommendations: baseline.recommendations.filter(rec => !scenarioKeys.has(recommendationKey(rec))),
+    newBreaches: [...scenarioBreaches].filter(frn => !baselineBreaches.has(frn)),
+    resolvedBreaches: [...baselineBreaches].filter(frn => !scenarioBreaches.has(frn))
+  };
+}
+
+function recommendationKey(rec: Recommendation): string {
+  return `${rec.source.accountId}->${rec.target.institutionFRN || rec.target.bankName}`;
+}
+
+function rateChangeMatchesAccount(change: ScenarioRateChange, account: Account): boolean {
+  if (change.accountId) return change.accountId === account.id;
+  if (change.frn) return change.frn === account.institutionFRN;
+  return !!change.bankName && change.bankName.toLowerCase() === account.bankName.toLowerCase();
+}
+
+function rateChangeMatchesProduct(change: ScenarioRateChange, product: AvailableProduct): boolean {
+  if (change.accountId) return false;
+  if (change.frn) return change.frn === product.frn;
+  return !!change.bankName && change.bankName.toLowerCase() === product.bankName.toLowerCase();
+}
+
+function subTypeForTier(tier: LiquidityTier): AccountSubType {
+  if (tier === 'easy_access') return 'Easy Access';
+  if (tier.startsWith('notice')) return 'Notice';
+  return 'Term';
+}
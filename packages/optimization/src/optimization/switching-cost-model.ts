@@ -0,0 +1,124 @@
+/**
+ * Switching Cost Model - Values a move over a horizon, net of what it costs
+ *
+ * A headline rate improvement overstates a move when money earns nothing in
+ * transit, when leaving a notice or fixed term account forfeits interest, or
+ * when the target's advertised rate includes a bonus that ends. Each move is
+ * valued over the configured horizon: interest gained at the target (falling
+ * to the underlying rate once any bonus ends) less the interest the source
+ * would have paid, less tax on the extra interest, transfer days and the
+ * cheaper of paying an exit penalty or waiting out the notice or term.
+ */
+
+import { Account, AvailableProduct, ProductPromotion, SwitchingCost, SwitchingCostConfig } from '../types';
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class SwitchingCostModel {
+  /**
+   * @param config Transfer days, penalties and promotions, from ConfigurationLoader.loadSwitchingCostConfig()
+   */
+  constructor(private config: SwitchingCostConfig, private asOf: Date = new Date()) {}
+
+  public getHorizonMonths(): number {
+    return this.config.horizonMonths;
+  }
+
+  /**
+   * Days money is in transit, set by the slower of the two platforms
+   */
+  public getTransferDays(account: Account, product: AvailableProduct): number {
+    return Math.max(this.platformDays(account.platform), this.platformDays(product.platform));
+  }
+
+  /**
+   * Bonus rate terms for a product, if its advertised rate is promotional
+   */
+  public findPromotion(product: AvailableProduct): ProductPromotion | undefined {
+    return this.config.promotions.find(promotion => {
+      if (promotion.platform && promotion.platform !== product.platform) return false;
+      if (promotion.frn) return promotion.frn === product.frn;
+      return !!promotion.bankName && promotion.bankName.toLowerCase() === product.bankName.toLowerCase();
+    });
+  }
+
+  /**
+   * Value moving an amount from an account into a product over the horizon
+   * @param annualTaxChange Extra tax a year on the move's interest (negative when it saves tax)
+   */
+  public evaluate(
+    account: Account,
+    product: AvailableProduct,
+    amount: number,
+    annualTaxChange: number = 0
+  ): SwitchingCost {
+    const horizonMonths = this.config.horizonMonths;
+    const currentRate = account.rate || 0;
+    const promotion = this.findPromotion(product);
+
+    const bonusMonths = promotion ? Math.min(promotion.bonusMonths, horizonMonths) : horizonMonths;
+    const underlyingMonths = horizonMonths - bonusMonths;
+    const targetInterest = amount * (
+      product.aerRate * bonusMonths + (promotion ? promotion.underlyingRate * underlyingMonths : 0)
+    ) / 1200;
+    const sourceInterest = amount * currentRate * horizonMonths / 1200;
+    const horizonGain = targetInterest - sourceInterest;
+
+    // Nothing is earned between leaving the source and arriving at the target
+    const transferDays = this.getTransferDays(account, product);
+    const transferCost = amount * product.aerRate / 100 * transferDays / DAYS_PER_YEAR;
+
+    const { exitCost, exitMethod } = this.exitCost(account, product, amount);
+    const horizonTax = annualTaxChange * horizonMonths / 12;
+
+    const cost: SwitchingCost = {
+      transferDays,
+      transferCost,
+      exitCost,
+      exitMethod,
+      horizonMonths,
+      horizonGain,
+      netHorizonBenefit: horizonGain - horizonTax - transferCost - exitCost
+    };
+    if (promotion) cost.promotion = promotion;
+    return cost;
+  }
+
+  /**
+   * Cost of leaving a notice or fixed term account: forfeit interest as a
+   * penalty, or wait out the notice or remaining term and give up the gain
+   * for that long, whichever is cheaper
+   */
+  private exitCost(
+    account: Account,
+    product: AvailableProduct,
+    amount: number
+  ): { exitCost: number; exitMethod: SwitchingCost['exitMethod'] } {
+    const currentRate = account.rate || 0;
+    let penaltyDays = 0;
+    let waitDays = 0;
+
+    if (account.termEnds && account.termEnds.getTime() > this.asOf.getTime()) {
+      penaltyDays = this.config.earlyClosurePenaltyDays;
+      waitDays = Math.ceil((account.termEnds.getTime() - this.asOf.getTime()) / MS_PER_DAY);
+    } else if (account.liquidityTier.startsWith('notice') && account.noticePeriodDays) {
+      penaltyDays = account.noticePeriodDays;
+      waitDays = account.noticePeriodDays;
+    }
+
+    if (penaltyDays === 0 && waitDays === 0) {
+      return { exitCost: 0, exitMethod: 'none' };
+    }
+
+    const penaltyCost = amount * currentRate / 100 * penaltyDays / DAYS_PER_YEAR;
+    const waitCost = Math.max(0, amount * (product.aerRate - currentRate) / 100 * waitDays / DAYS_PER_YEAR);
+    return waitCost <= penaltyCost
+      ? { exitCost: waitCost, exitMethod: 'wait' }
+      : { exitCost: penaltyCost, exitMethod: 'penalty' };
+  }
+
+  private platformDays(platform?: string): number {
+    return this.config.transferDaysByPlatform.get(platform || 'Direct') ?? this.config.defaultTransferDays;
+  }
+}
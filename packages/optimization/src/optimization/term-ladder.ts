@@ -0,0 +1,375 @@
+/**
+ * Term Ladder Planner
+ *
+ * Extends optimization beyond easy access by funding notice and fixed term
+ * tiers up to their liquidity_allocation_config targets. Only money that is
+ * either liquid (above the emergency easy access target) or maturing inside
+ * the planning window is ever moved into a locked product, and the result is
+ * returned as a maturity ladder alongside the recommendations.
+ */
+
+import {
+  Account,
+  PendingDeposit,
+  AvailableProduct,
+  LiquidityTier,
+  LiquidityAllocationConfig,
+  Recommendation,
+  MaturityLadder,
+  MaturityLadderRung,
+  TierPosition,
+  Priority
+} from '../types/index';
+import { FRNHeadroomManager, PRIMARY_HOLDER } from './frn-headroom-manager';
+import { Money as MoneyImpl, Percentage as PercentageImpl } from '../utils/money';
+import { getLogger } from '../utils/logger';
+
+export interface TermLadderSettings {
+  minMoveAmount: number;
+  minRebalancingBenefit: number;
+  maturityWindowDays: number;
+  asOf?: Date;
+}
+
+export interface TermLadderPlan {
+  recommendations: Recommendation[];
+  maturityLadder: MaturityLadder;
+  // Amount committed from each source account, so later stages do not reuse it
+  committedBySource: Map<string, number>;
+}
+
+interface LadderSource {
+  account: Account;
+  available: number;
+  isMaturing: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class TermLadderPlanner {
+  private logger = getLogger({ component: 'term-ladder' });
+
+  constructor(
+    private tierConfigs: LiquidityAllocationConfig[],
+    private frnManager: FRNHeadroomManager,
+    private settings: TermLadderSettings
+  ) {}
+
+  /**
+   * Whether an account's money can be moved today without penalty
+   */
+  public static isLiquid(account: Account): boolean {
+    return account.liquidityTier === 'easy_access';
+  }
+
+  /**
+   * Whether a locked account reaches maturity (or its earliest withdrawal date)
+   * within the planning window
+   */
+  public static isMaturing(account: Account, windowDays: number, asOf: Date = new Date()): boolean {
+    if (TermLadderPlanner.isLiquid(account)) return false;
+
+    const releaseDate = account.termEnds || account.earliestWithdrawalDate;
+    if (!releaseDate) return false;
+
+    const daysUntil = (releaseDate.getTime() - asOf.getTime()) / MS_PER_DAY;
+    return daysUntil <= windowDays;
+  }
+
+  /**
+   * Build ladder recommendations for every under-allocated locked tier
+   */
+  public plan(
+    accounts: Account[],
+    pendingDeposits: PendingDeposit[],
+    productsByTier: Map<LiquidityTier, AvailableProduct[]>
+  ): TermLadderPlan {
+    const asOf = this.settings.asOf || new Date();
+    const recommendations: Recommendation[] = [];
+    const committedBySource = new Map<string, number>();
+
+    const totalValue = accounts.reduce((sum, a) => sum + a.balance.amount, 0)
+      + pendingDeposits.reduce((sum, p) => sum + p.balance.amount, 0);
+
+    // Current allocation per tier, excluding money that is about to mature
+    const currentByTier = new Map<LiquidityTier, number>();
+    for (const account of accounts) {
+      if (TermLadderPlanner.isMaturing(account, this.settings.maturityWindowDays, asOf)) continue;
+      currentByTier.set(account.liquidityTier, (currentByTier.get(account.liquidityTier) || 0) + account.balance.amount);
+    }
+    for (const pending of pendingDeposits) {
+      currentByTier.set(pending.liquidityTier, (currentByTier.get(pending.liquidityTier) || 0) + pending.balance.amount);
+    }
+    const projectedByTier = new Map(currentByTier);
+
+    // Emergency liquidity: the easy access target is never drawn down
+    const easyAccessConfig = this.tierConfigs.find(c => c.liquidityTier === 'easy_access');
+    const emergencyTarget = totalValue * (easyAccessConfig?.targetPercentage.value || 0) / 100;
+    let liquidSurplus = Math.max(0, (currentByTier.get('easy_access') || 0) - emergencyTarget);
+
+    // Maturing money is used first (it has to go somewhere), then the lowest paying liquid money
+    const sources: LadderSource[] = [
+      ...accounts
+        .filter(a => TermLadderPlanner.isMaturing(a, this.settings.maturityWindowDays, asOf))
+        .sort((a, b) => this.releaseTime(a) - this.releaseTime(b))
+        .map(account => ({ account, available: account.balance.amount, isMaturing: true })),
+      ...accounts
+        .filter(a => TermLadderPlanner.isLiquid(a))
+        .sort((a, b) => a.rate - b.rate)
+        .map(account => ({
+          account,
+          available: Math.max(0, account.balance.amount - (account.minimumBalance || 0)),
+          isMaturing: false
+        }))
+    ];
+
+    const lockedTiers = this.tierConfigs
+      .filter(c => c.isActive && c.liquidityTier !== 'easy_access' && c.targetPercentage.value > 0)
+      .sort((a, b) => a.tierOrder - b.tierOrder);
+
+    for (const tierConfig of lockedTiers) {
+      const tier = tierConfig.liquidityTier;
+      const products = [...(productsByTier.get(tier) || [])].sort((a, b) => b.aerRate - a.aerRate);
+      if (products.length === 0) {
+        this.logger.debug(`No products available for ${tier}`);
+        continue;
+      }
+
+      const tierTarget = totalValue * tierConfig.targetPercentage.value / 100;
+
+      for (const source of sources) {
+        const shortfall = tierTarget - (projectedByTier.get(tier) || 0);
+        if (shortfall < this.settings.minMoveAmount) break;
+
+        const sourceLimit = source.isMaturing ? source.available : Math.min(source.available, liquidSurplus);
+        if (sourceLimit < this.settings.minMoveAmount) continue;
+
+        const product = this.selectProduct(products, source, Math.min(shortfall, sourceLimit));
+        if (!product) continue;
+
+        // FSCS headroom is per person, so the new account goes to the holder with most room
+        const holder = product.frn ? this.frnManager.getBestHolder(product.frn) : null;
+        const headroom = holder ? holder.headroom : Infinity;
+        const amount = Math.min(shortfall, sourceLimit, headroom, product.maxDeposit?.amount || Infinity);
+        const annualBenefit = amount * (product.aerRate - source.account.rate) / 100;
+
+        // Maturing money has to be reinvested anyway, so only liquid moves must clear the benefit bar
+        if (!source.isMaturing && annualBenefit < this.settings.minRebalancingBenefit) continue;
+
+        recommendations.push(this.createRecommendation(source, product, amount, annualBenefit, asOf, holder?.holder));
+
+        source.available -= amount;
+        if (!source.isMaturing) liquidSurplus -= amount;
+        committedBySource.set(source.account.id, (committedBySource.get(source.account.id) || 0) + amount);
+        projectedByTier.set(tier, (projectedByTier.get(tier) || 0) + amount);
+        projectedByTier.set(source.account.liquidityTier, (projectedByTier.get(source.account.liquidityTier) || 0) - (source.isMaturing ? 0 : amount));
+        if (product.frn) this.frnManager.reserveHeadroom(product.frn, amount, holder?.holder);
+      }
+    }
+
+    const tiers: TierPosition[] = this.tierConfigs
+      .filter(c => c.isActive)
+      .sort((a, b) => a.tierOrder - b.tierOrder)
+      .map(c => ({
+        liquidityTier: c.liquidityTier,
+        targetPercentage: c.targetPercentage.value,
+        targetAmount: new MoneyImpl(totalValue * c.targetPercentage.value / 100),
+        currentAmount: new MoneyImpl(currentByTier.get(c.liquidityTier) || 0),
+        projectedAmount: new MoneyImpl(projectedByTier.get(c.liquidityTier) || 0)
+      }));
+
+    return {
+      recommendations,
+      committedBySource,
+      maturityLadder: {
+        rungs: this.buildRungs(accounts, recommendations, asOf),
+        tiers,
+        emergencyLiquidity: new MoneyImpl(projectedByTier.get('easy_access') || 0),
+        emergencyLiquidityTarget: new MoneyImpl(emergencyTarget),
+        maturityWindowDays: this.settings.maturityWindowDays,
+        generatedAt: asOf
+      }
+    };
+  }
+
+  /**
+   * Pick the best paying product in a tier that beats the source rate and has headroom
+   */
+  private selectProduct(
+    products: AvailableProduct[],
+    source: LadderSource,
+    wanted: number
+  ): AvailableProduct | null {
+    for (const product of products) {
+      if (product.frn && product.frn === source.account.institutionFRN) continue;
+      if (product.aerRate <= source.account.rate) continue;
+      if (product.minDeposit && product.minDeposit.amount > wanted) continue;
+
+      const headroom = product.frn ? this.frnManager.getAvailableHeadroom(product.frn) : Infinity;
+      if (headroom < this.settings.minMoveAmount) continue;
+
+      return product;
+    }
+    return null;
+  }
+
+  /**
+   * Create a recommendation that moves money into a locked product
+   */
+  private createRecommendation(
+    source: LadderSource,
+    product: AvailableProduct,
+    amount: number,
+    annualBenefit: number,
+    asOf: Date,
+    accountHolder?: string
+  ): Recommendation {
+    const account = source.account;
+    const isNotice = !product.termMonths && !!product.noticePeriodDays;
+    const startDate = source.isMaturing && this.releaseTime(account) > asOf.getTime()
+      ? new Date(this.releaseTime(account))
+      : asOf;
+    const maturityDate = this.calculateMaturityDate(product, startDate);
+
+    const implementationNotes = [
+      source.isMaturing
+        ? `Reinvest maturing funds on ${startDate.toISOString().split('T')[0]}`
+        : 'Funded from easy access surplus above the emergency liquidity target'
+    ];
+    if (maturityDate) {
+      implementationNotes.push(`Funds locked until ${maturityDate.toISOString().split('T')[0]}`);
+    } else if (isNotice) {
+      implementationNotes.push(`${product.noticePeriodDays} days notice required to withdraw`);
+    }
+    if (accountHolder && accountHolder !== PRIMARY_HOLDER) {
+      implementationNotes.push(`Open in the name of ${accountHolder} - FSCS headroom is per person`);
+    }
+
+    const recommendation: Recommendation = {
+      id: `rec-${Date.now()}-${Math.random()}`,
+      type: 'rebalancing',
+      priority: this.calculatePriority(annualBenefit),
+
+      source: {
+        accountId: account.id,
+        bankName: account.bankName,
+        accountName: account.accountName,
+        amount: new MoneyImpl(amount),
+        originalAccountBalance: account.balance,
+        currentRate: account.rate || 0,
+        liquidityTier: account.liquidityTier,
+        canWithdrawImmediately: account.canWithdrawImmediately
+      },
+
+      target: {
+        institutionFRN: product.frn || '',
+        bankName: product.bankName,
+        accountType: 'Savings',
+        accountSubType: isNotice ? 'Notice' : 'Term',
+        platform: product.platform || 'Direct',
+        targetRate: product.aerRate,
+        liquidityTier: product.liquidityTier
+      },
+
+      benefits: {
+        rateImprovement: new PercentageImpl(product.aerRate - (account.rate || 0)),
+        annualBenefit: new MoneyImpl(Math.max(0, annualBenefit)),
+        cumulativeBenefit: new MoneyImpl(Math.max(0, annualBenefit) * Math.max(1, (product.termMonths || 12) / 12))
+      },
+
+      compliance: {
+        fscsImpact: this.frnManager.describeFSCSImpact(product.frn),
+        resultingExposure: new MoneyImpl(product.frn ? this.frnManager.getCurrentExposure(product.frn, accountHolder) + amount : 0),
+        resultingStatus: 'COMPLIANT',
+        jointAccountConsidered: true,
+        pendingDepositsConsidered: true
+      },
+
+      confidence: 90,
+      implementationNotes,
+      risks: isNotice ? [] : ['Early withdrawal is not possible before maturity'],
+      generatedAt: new Date(),
+
+      recommendationReason: `Fund ${product.liquidityTier} tier towards its allocation target`,
+      displayMode: 'AND',
+      displayNotes: []
+    };
+
+    if (product.termMonths) recommendation.target.termMonths = product.termMonths;
+    if (product.noticePeriodDays) recommendation.target.noticePeriodDays = product.noticePeriodDays;
+    if (maturityDate) recommendation.target.maturityDate = maturityDate;
+    if (accountHolder) recommendation.target.accountHolder = accountHolder;
+    if (product.minDeposit) recommendation.target.minimumDeposit = product.minDeposit;
+    if (product.maxDeposit) recommendation.target.maximumDeposit = product.maxDeposit;
+    if (product.missingFRN) recommendation.missingFRN = true;
+
+    return recommendation;
+  }
+
+  /**
+   * Combine held locked accounts and new recommendations into ladder rungs ordered by maturity
+   */
+  private buildRungs(accounts: Account[], recommendations: Recommendation[], asOf: Date): MaturityLadderRung[] {
+    const rungs: MaturityLadderRung[] = [];
+
+    for (const account of accounts) {
+      if (TermLadderPlanner.isLiquid(account)) continue;
+
+      const rung: MaturityLadderRung = {
+        liquidityTier: account.liquidityTier,
+        bankName: account.bankName,
+        amount: account.balance,
+        rate: account.rate,
+        accountId: account.id,
+        status: TermLadderPlanner.isMaturing(account, this.settings.maturityWindowDays, asOf) ? 'maturing' : 'held'
+      };
+      const releaseDate = account.termEnds || account.earliestWithdrawalDate;
+      if (releaseDate) rung.maturityDate = releaseDate;
+      rungs.push(rung);
+    }
+
+    for (const rec of recommendations) {
+      const rung: MaturityLadderRung = {
+        liquidityTier: rec.target.liquidityTier,
+        bankName: rec.target.bankName,
+        amount: rec.source.amount,
+        rate: rec.target.targetRate,
+        recommendationId: rec.id,
+        status: 'recommended'
+      };
+      if (rec.target.maturityDate) rung.maturityDate = rec.target.maturityDate;
+      rungs.push(rung);
+    }
+
+    // Undated notice rungs sort last
+    return rungs.sort((a, b) =>
+      (a.maturityDate?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.maturityDate?.getTime() ?? Number.MAX_SAFE_INTEGER)
+    );
+  }
+
+  /**
+   * Fixed terms mature a set number of months after funding; notice accounts have no
+   * maturity date until notice is given
+   */
+  private calculateMaturityDate(product: AvailableProduct, startDate: Date): Date | undefined {
+    if (!product.termMonths) return undefined;
+
+    const maturity = new Date(startDate);
+    maturity.setMonth(maturity.getMonth() + product.termMonths);
+    return maturity;
+  }
+
+  private releaseTime(account: Account): number {
+    return (account.termEnds || account.earliestWithdrawalDate)?.getTime() || 0;
+  }
+
+  /**
+   * Calculate priority based on annual benefit
+   */
+  private calculatePriority(annualBenefit: number): Priority {
+    if (annualBenefit >= 10000) return 'URGENT';
+    if (annualBenefit >= 5000) return 'HIGH';
+    if (annualBenefit >= 1000) return 'MEDIUM';
+    return 'LOW';
+  }
+}
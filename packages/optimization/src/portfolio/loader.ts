@@ -1,6 +1,7 @@
 import { Portfolio, Account, PendingDeposit, LiquidityTier, AccountType, AccountSubType } from '../types/index';
 import { DatabaseConnection } from '../types/index';
 import { Money as MoneyImpl } from '../utils/money';
+import { getAccountHolders } from '../optimization/frn-headroom-manager';
 
 /**
  * Portfolio Loader
@@ -16,6 +17,14 @@ export class PortfolioLoader {
     const accounts = await this.loadAccounts();
     const pendingDeposits = await this.loadPendingDeposits();
     
+    return this.buildPortfolio(accounts, pendingDeposits);
+  }
+
+  /**
+   * Assemble a portfolio and its calculated totals from accounts
+   * Also used for hypothetical portfolios (what-if scenarios)
+   */
+  public buildPortfolio(accounts: Account[], pendingDeposits: PendingDeposit[]): Portfolio {
     const totalValue = this.calculateTotalValue(accounts, pendingDeposits);
     const liquidityBreakdown = this.calculateLiquidityBreakdown(accounts);
     const institutionCount = this.calculateInstitutionCount(accounts);
@@ -40,6 +49,7 @@ export class PortfolioLoader {
       SELECT 
         id,
         bank,
+        account_name,
         type,
         sub_type,
         frn,
@@ -49,6 +59,9 @@ export class PortfolioLoader {
         liquidity_tier,
         can_withdraw_immediately,
         earliest_withdrawal_date,
+        term_months,
+        notice_period_days,
+        term_ends,
         is_joint_account,
         num_account_holders,
         is_active,
@@ -60,6 +73,8 @@ export class PortfolioLoader {
     `;
 
     const rows = await this.db.query(query);
+    const owners = await this.loadOwnerNames('deposit');
+    const primaryOwner = await this.loadPrimaryOwnerName();
     
     return rows.map(row => {
       const account: Account = {
@@ -81,7 +96,13 @@ export class PortfolioLoader {
       };
       
       // Add optional fields only if they exist
+      if (row.account_name) account.accountName = row.account_name;
       if (row.earliest_withdrawal_date) account.earliestWithdrawalDate = new Date(row.earliest_withdrawal_date);
+      if (row.term_months) account.termMonths = row.term_months;
+      if (row.notice_period_days) account.noticePeriodDays = row.notice_period_days;
+      if (row.term_ends) account.termEnds = new Date(row.term_ends);
+      const holders = this.resolveHolders(account, owners.get(row.id), primaryOwner);
+      if (holders) account.accountHolders = holders;
       
       return account;
     });
@@ -116,6 +137,8 @@ export class PortfolioLoader {
     `;
 
     const rows = await this.db.query(query);
+    const owners = await this.loadOwnerNames('pending_deposit');
+    const primaryOwner = await this.loadPrimaryOwnerName();
     
     return rows.map(row => {
       const pendingDeposit: PendingDeposit = {
@@ -139,11 +162,75 @@ export class PortfolioLoader {
       // Add optional fields only if they exist
       if (row.expected_funding_date) pendingDeposit.expectedFundingDate = new Date(row.expected_funding_date);
       if (row.source_account_id) pendingDeposit.sourceAccountId = row.source_account_id.toString();
+      const holders = this.resolveHolders(pendingDeposit, owners.get(row.id), primaryOwner);
+      if (holders) pendingDeposit.accountHolders = holders;
       
       return pendingDeposit;
     });
   }
 
+  /**
+   * Load owner names per deposit or pending deposit (used as FSCS account holders)
+   * Returns an empty map when the owner tables have not been migrated yet
+   */
+  private async loadOwnerNames(kind: 'deposit' | 'pending_deposit'): Promise<Map<number, string[]>> {
+    const query = kind === 'deposit' ? `
+      SELECT dwo.deposit_id as record_id, o.name
+      FROM deposit_owners dwo
+      JOIN account_owners o ON o.id = dwo.owner_id
+      ORDER BY o.is_primary DESC, o.name
+    ` : `
+      SELECT pwo.pending_deposit_id as record_id, o.name
+      FROM pending_deposit_owners pwo
+      JOIN account_owners o ON o.id = pwo.owner_id
+      ORDER BY o.is_primary DESC, o.name
+    `;
+
+    const owners = new Map<number, string[]>();
+    try {
+      const rows = await this.db.query(query);
+      for (const row of rows) {
+        const names = owners.get(row.record_id) || [];
+        names.push(row.name);
+        owners.set(row.record_id, names);
+      }
+    } catch {
+      // No owner tables: holders are derived from the joint account flags
+    }
+    return owners;
+  }
+
+  /**
+   * Name of the household's primary owner, or null without owner tables
+   */
+  private async loadPrimaryOwnerName(): Promise<string | null> {
+    try {
+      const row = await this.db.queryOne<{ name: string }>(`
+        SELECT name FROM account_owners
+        WHERE is_primary = 1 AND is_active = 1
+        ORDER BY id
+        LIMIT 1
+      `);
+      return row?.name || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Holders of a deposit, by owner name
+   * A deposit with no owners recorded belongs to the primary owner, so the FSCS,
+   * tax and ISA trackers all see the same names
+   */
+  private resolveHolders(
+    deposit: Pick<Account, 'isJointAccount' | 'numAccountHolders'>,
+    owners: string[] | undefined,
+    primaryOwner: string | null
+  ): string[] | undefined {
+    if (owners && owners.length > 0) return owners;
+    return primaryOwner ? getAccountHolders(deposit, primaryOwner) : undefined;
+  }
+
   /**
    * Calculate total portfolio value
    */
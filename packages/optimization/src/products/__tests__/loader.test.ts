@@ -0,0 +1,53 @@
+/**
+ * Product loader tests - liquidity tier filters
+ * Uses an in-memory database so no test fixture is required
+ */
+
+import { ProductLoader } from '../loader';
+import { SQLiteConnection } from '../../database/connection';
+
+describe('ProductLoader.getProductsBetterThan', () => {
+  let connection: SQLiteConnection;
+  let loader: ProductLoader;
+
+  beforeAll(async () => {
+    connection = new SQLiteConnection(':memory:');
+    await connection.execute(`
+      CREATE TABLE available_products (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        platform TEXT, source TEXT, bank_name TEXT, frn TEXT, account_type TEXT,
+        aer_rate REAL, gross_rate REAL, term_months INTEGER, notice_period_days INTEGER,
+        min_deposit REAL, max_deposit REAL, fscs_protected INTEGER, interest_payment_frequency TEXT,
+        apply_by_date TEXT, special_features TEXT, scrape_date TEXT, confidence_score REAL
+      )
+    `);
+    for (const termMonths of [9, 10, 11, 12, 13]) {
+      await connection.execute(`
+        INSERT INTO available_products (bank_name, frn, account_type, aer_rate, term_months, scrape_date, confidence_score)
+        VALUES (?, ?, 'fixed_term', ?, ?, '2025-06-01', 0.9)
+      `, [`${termMonths} Month Bank`, String(100 + termMonths), 4 + termMonths / 100, termMonths]);
+    }
+    loader = new ProductLoader(connection);
+  });
+
+  afterAll(async () => {
+    await connection.close();
+  });
+
+  it('keeps the fixed term bands contiguous, with 10-12 months in the 12 month tier', async () => {
+    const nineMonth = await loader.getProductsBetterThan(0, 'fixed_9m');
+    const twelveMonth = await loader.getProductsBetterThan(0, 'fixed_12m');
+    const twentyFourMonth = await loader.getProductsBetterThan(0, 'fixed_24m');
+
+    expect(nineMonth.map(p => p.termMonths)).toEqual([9]);
+    expect(twelveMonth.map(p => p.termMonths)).toEqual([12, 11, 10]);
+    expect(twentyFourMonth.map(p => p.termMonths)).toEqual([13]);
+  });
+
+  it('returns an 11 month bond in the tier determineLiquidityTier() gives it', async () => {
+    const [elevenMonth] = (await loader.getProductsBetterThan(0, 'fixed_12m')).filter(p => p.termMonths === 11);
+
+    expect(elevenMonth!.bankName).toBe('11 Month Bank');
+    expect(elevenMonth!.liquidityTier).toBe('fixed_12m');
+  });
+});
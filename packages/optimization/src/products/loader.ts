@@ -1,6 +1,7 @@
-import { AvailableProduct, LiquidityTier } from '../types/index';
+import { AvailableProduct, LiquidityTier, MarketRatePoint, ProductRateHistory } from '../types/index';
 import { DatabaseConnection } from '../types/index';
 import { Money as MoneyImpl } from '../utils/money';
+import { BRAND_GROUP_QUERY, BrandGroup, BrandGroupRow, buildBrandGroups } from '../compliance/brand-groups';
 
 /**
  * Product Loader
@@ -63,6 +64,9 @@ export class ProductLoader {
       if (row.max_deposit !== null && row.max_deposit !== undefined) {
         product.maxDeposit = new MoneyImpl(row.max_deposit);
       }
+      if (row.account_type === 'cash_isa') {
+        product.isISA = true;
+      }
       
       return product;
     });
@@ -127,6 +131,7 @@ export class ProductLoader {
       if (row.interest_payment_frequency) product.interestPaymentFrequency = row.interest_payment_frequency;
       if (row.apply_by_date) product.applyByDate = new Date(row.apply_by_date);
       if (row.special_features) product.specialFeatures = row.special_features.split(',');
+      if (row.account_type === 'cash_isa') product.isISA = true;
       
       return product;
     });
@@ -192,6 +197,7 @@ export class ProductLoader {
       if (row.interest_payment_frequency) product.interestPaymentFrequency = row.interest_payment_frequency;
       if (row.apply_by_date) product.applyByDate = new Date(row.apply_by_date);
       if (row.special_features) product.specialFeatures = row.special_features.split(',');
+      if (row.account_type === 'cash_isa') product.isISA = true;
       
       return product;
     });
@@ -241,12 +247,37 @@ export class ProductLoader {
         noticeFilter = 'AND (notice_period_days IS NULL OR notice_period_days = 0)';
         break;
       case 'notice_1_30':
+        termFilter = 'AND (term_months IS NULL OR term_months = 0)';
         noticeFilter = 'AND notice_period_days BETWEEN 1 AND 30';
         break;
+      case 'notice_31_60':
+        termFilter = 'AND (term_months IS NULL OR term_months = 0)';
+        noticeFilter = 'AND notice_period_days BETWEEN 31 AND 60';
+        break;
+      case 'notice_61_90':
+        termFilter = 'AND (term_months IS NULL OR term_months = 0)';
+        noticeFilter = 'AND notice_period_days BETWEEN 61 AND 90';
+        break;
+      case 'notice_90+':
+        termFilter = 'AND (term_months IS NULL OR term_months = 0)';
+        noticeFilter = 'AND notice_period_days > 90';
+        break;
+      // Fixed term bands mirror determineLiquidityTier()
+      case 'fixed_9m':
+        termFilter = 'AND term_months BETWEEN 1 AND 9';
+        break;
       case 'fixed_12m':
-        termFilter = 'AND term_months = 12';
+        termFilter = 'AND term_months BETWEEN 10 AND 12';
+        break;
+      case 'fixed_24m':
+        termFilter = 'AND term_months BETWEEN 13 AND 24';
+        break;
+      case 'fixed_36m':
+        termFilter = 'AND term_months BETWEEN 25 AND 36';
+        break;
+      case 'fixed_60m':
+        termFilter = 'AND term_months > 36';
         break;
-      // Add more cases as needed
     }
 
     const query = `
@@ -305,11 +336,113 @@ export class ProductLoader {
       if (row.interest_payment_frequency) product.interestPaymentFrequency = row.interest_payment_frequency;
       if (row.apply_by_date) product.applyByDate = new Date(row.apply_by_date);
       if (row.special_features) product.specialFeatures = row.special_features.split(',');
+      if (row.account_type === 'cash_isa') product.isISA = true;
       
       return product;
     });
   }
 
+  /**
+   * Get products better than a given rate for several liquidity tiers at once
+   * Used by the term ladder, which needs candidates for every locked tier
+   */
+  public async getProductsByTier(
+    liquidityTiers: LiquidityTier[],
+    minRate: number = 0
+  ): Promise<Map<LiquidityTier, AvailableProduct[]>> {
+    const productsByTier = new Map<LiquidityTier, AvailableProduct[]>();
+
+    for (const tier of liquidityTiers) {
+      productsByTier.set(tier, await this.getProductsBetterThan(minRate, tier));
+    }
+
+    return productsByTier;
+  }
+
+  /**
+   * Rate history of every product listed for an institution, current products first
+   * Empty when the pipeline has not recorded any history
+   */
+  public async getRateHistory(frn: string): Promise<ProductRateHistory[]> {
+    let products: any[];
+    let changes: any[];
+    try {
+      products = await this.db.query(`
+        SELECT id, bank_name, platform, frn, account_type, first_seen, last_seen, withdrawn_on
+        FROM product_history
+        WHERE frn = ?
+        ORDER BY withdrawn_on IS NOT NULL, current_rate DESC
+      `, [frn]);
+      changes = await this.db.query(`
+        SELECT c.product_history_id, c.change_date, c.previous_rate, c.new_rate
+        FROM product_rate_changes c
+        JOIN product_history h ON h.id = c.product_history_id
+        WHERE h.frn = ?
+        ORDER BY c.change_date, c.id
+      `, [frn]);
+    } catch (error) {
+      // Product history tables might not exist yet - no history to report
+      return [];
+    }
+
+    return products.map(row => {
+      const history: ProductRateHistory = {
+        bankName: row.bank_name,
+        platform: row.platform,
+        frn: row.frn,
+        accountType: row.account_type,
+        firstSeen: new Date(row.first_seen),
+        lastSeen: new Date(row.last_seen),
+        changes: changes
+          .filter(change => change.product_history_id === row.id)
+          .map(change => ({
+            date: new Date(change.change_date),
+            ...(change.previous_rate !== null ? { previousRate: change.previous_rate } : {}),
+            rate: change.new_rate
+          }))
+      };
+      if (row.withdrawn_on) history.withdrawnOn = new Date(row.withdrawn_on);
+      return history;
+    });
+  }
+
+  /**
+   * Best and average market rate for an account type on each pipeline run date
+   */
+  public async getBestRateTrend(accountType: string, days: number = 90): Promise<MarketRatePoint[]> {
+    try {
+      const rows = await this.db.query(`
+        SELECT snapshot_date, account_type, best_rate, average_rate, product_count
+        FROM market_rate_snapshots
+        WHERE account_type = ? AND snapshot_date >= date('now', ?)
+        ORDER BY snapshot_date
+      `, [accountType, `-${days} days`]);
+
+      return rows.map((row: any) => ({
+        date: new Date(row.snapshot_date),
+        accountType: row.account_type,
+        bestRate: row.best_rate,
+        averageRate: row.average_rate,
+        productCount: row.product_count
+      }));
+    } catch (error) {
+      // Market snapshots table might not exist yet
+      return [];
+    }
+  }
+
+  /**
+   * Brand groups keyed by FRN, for explaining limits shared across brands
+   */
+  public async getBrandGroups(): Promise<Map<string, BrandGroup>> {
+    try {
+      return buildBrandGroups(await this.db.query<BrandGroupRow>(BRAND_GROUP_QUERY));
+    } catch (error) {
+      // Licence columns might not exist yet (migration 015) - no groups to explain
+      return new Map();
+    }
+  }
+
   /**
    * Determine liquidity tier based on term and notice period
    */
@@ -9,20 +9,27 @@ import {
   OptimizationOptions,
   RecommendationResult,
   PendingDeposit,
-  OptimizationMetadata
+  OptimizationMetadata,
+  ScenarioResult
 } from './recommendation-service';
 import { 
   Recommendation,
-  DatabaseConnection
+  DatabaseConnection,
+  OptimizationOverrides,
+  PortfolioAnalysis,
+  Portfolio,
+  ScenarioOverlay,
+  ScenarioCompliance
 } from '../types';
-import { EasyAccessOptimizer } from '../optimization/easy-access';
-import { FSCSComplianceEngine } from '../compliance/fscs';
+import { Optimizer } from '../optimization/optimizer';
 import { OptimizationRulesEngine } from '../rules/engine';
 import { ConfigurationLoader } from '../configuration/loader';
 import { UnifiedConfigurationLoader } from '../configuration/unified-loader';
 import { SQLiteConnection } from '../database/connection';
 import { ProductLoader } from '../products/loader';
 import { PortfolioLoader } from '../portfolio/loader';
+import { FSCSComplianceEngine } from '../compliance/fscs';
+import { applyScenario, ScenarioProductLoader, summarizeScenario, diffScenario } from '../optimization/scenario';
 import { getLogger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -35,24 +42,16 @@ export class RecommendationServiceImpl implements RecommendationService {
   private rulesEngine: OptimizationRulesEngine;
   private productLoader: ProductLoader;
   private portfolioLoader: PortfolioLoader;
-  private optimizer: EasyAccessOptimizer;
+  private databasePath: string;
 
   constructor(databasePath?: string) {
     this.db = new SQLiteConnection(databasePath);
+    this.databasePath = databasePath!;
     this.configLoader = new ConfigurationLoader(this.db);
     this.unifiedConfigLoader = new UnifiedConfigurationLoader(this.db);
     this.rulesEngine = new OptimizationRulesEngine(this.configLoader);
     this.productLoader = new ProductLoader(this.db);
     this.portfolioLoader = new PortfolioLoader(this.db);
-    
-    // Note: We don't pass FSCSComplianceEngine to EasyAccessOptimizer anymore
-    // as rate optimization is separate from FSCS compliance
-    this.optimizer = new EasyAccessOptimizer(
-      new FSCSComplianceEngine(databasePath || this.db.databasePath), // Still passed but not used for validation
-      this.rulesEngine,
-      this.configLoader,
-      this.productLoader
-    );
   }
 
   async generateRecommendations(options: OptimizationOptions): Promise<RecommendationResult> {
@@ -79,12 +78,7 @@ export class RecommendationServiceImpl implements RecommendationService {
     // Run optimization
     logger.info(`Starting rate optimization for ${portfolio.accounts.length} accounts`);
     
-    const result = await this.optimizer.optimizeEasyAccess(
-      portfolio,
-      {
-        allowShariaBanks: options.includeShariaBanks ?? true
-      }
-    );
+    const result = await this.createOptimizer(options).optimizeWithLadder(portfolio);
     
     const recommendations = result.recommendations;
     
@@ -135,10 +129,132 @@ export class RecommendationServiceImpl implements RecommendationService {
       metadata,
       warnings: [], // Collect warnings from optimizer
       skippedAccounts: new Map(), // TODO: Collect from optimizer
-      ruleEvents: [] // TODO: Collect from rules engine
+      ruleEvents: [], // TODO: Collect from rules engine
+      maturityLadder: result.maturityLadder
+    };
+  }
+
+  async analyzePortfolio(options: OptimizationOptions): Promise<PortfolioAnalysis> {
+    const portfolio = options.portfolio || await this.portfolioLoader.loadPortfolio();
+    
+    if (options.progressCallback) {
+      options.progressCallback(50, 'Loaded portfolio');
+    }
+    
+    const analysis = await this.createOptimizer(options).analyzePortfolio(portfolio);
+    
+    if (options.progressCallback) {
+      options.progressCallback(100, 'Complete');
+    }
+    
+    return analysis;
+  }
+
+  async runScenario(overlay: ScenarioOverlay, options: OptimizationOptions): Promise<ScenarioResult> {
+    const baselinePortfolio = options.portfolio || await this.portfolioLoader.loadPortfolio();
+    const { portfolio: scenarioPortfolio, warnings } = applyScenario(baselinePortfolio, overlay, this.portfolioLoader);
+    
+    await this.rulesEngine.initialize();
+    
+    if (options.progressCallback) {
+      options.progressCallback(10, 'Applied scenario');
+    }
+    
+    const baselineResult = await this.createOptimizer(options).optimizeWithLadder(baselinePortfolio);
+    
+    if (options.progressCallback) {
+      options.progressCallback(40, 'Optimized current portfolio');
+    }
+    
+    const scenarioOptimizer = this.createOptimizer(
+      options,
+      new ScenarioProductLoader(this.db, overlay.rateChanges || []),
+      overlay.excludedFRNs || []
+    );
+    const scenarioResult = await scenarioOptimizer.optimizeWithLadder(scenarioPortfolio);
+    
+    if (options.progressCallback) {
+      options.progressCallback(70, 'Optimized scenario');
+    }
+    
+    const baseline = summarizeScenario(
+      baselinePortfolio,
+      baselineResult.recommendations,
+      await this.checkCompliance(baselinePortfolio)
+    );
+    const scenario = summarizeScenario(
+      scenarioPortfolio,
+      scenarioResult.recommendations,
+      await this.checkCompliance(scenarioPortfolio)
+    );
+    
+    if (options.progressCallback) {
+      options.progressCallback(100, 'Complete');
+    }
+    
+    return {
+      overlay,
+      baseline,
+      scenario,
+      diff: diffScenario(baseline, scenario),
+      warnings
     };
   }
 
+  /**
+   * FSCS compliance for a portfolio's accounts, including stored pending deposits
+   */
+  private async checkCompliance(portfolio: Portfolio): Promise<ScenarioCompliance> {
+    const engine = new FSCSComplianceEngine(this.databasePath);
+    try {
+      const report = await engine.generateComplianceReport({
+        includePendingDeposits: true,
+        accounts: portfolio.accounts.map(account => ({
+          id: account.id,
+          institutionFRN: account.institutionFRN,
+          bankName: account.bankName,
+          balance: account.balance.amount,
+          accountType: account.accountSubType,
+          isJointAccount: account.isJointAccount,
+          isActive: account.isActive
+        }))
+      });
+      
+      return {
+        status: report.status,
+        breachCount: report.summary.breachCount,
+        warningCount: report.summary.warningCount,
+        totalAtRisk: report.summary.totalAtRisk,
+        breachedFRNs: report.breaches.map(breach => breach.frn)
+      };
+    } finally {
+      engine.close();
+    }
+  }
+
+  /**
+   * Optimizer for one run, with the request's options applied over the stored configuration
+   * Scenario runs pass their own product loader and the institutions they exclude
+   */
+  private createOptimizer(
+    options: OptimizationOptions,
+    productLoader: ProductLoader = this.productLoader,
+    excludedFRNs: string[] = []
+  ): Optimizer {
+    const overrides: OptimizationOverrides = {
+      allowShariaBanks: options.includeShariaBanks ?? true
+    };
+    const excludedProducts = [...(options.excludedProducts || []), ...excludedFRNs];
+    if (excludedProducts.length > 0) overrides.excludedProducts = excludedProducts;
+    if (options.preferredPlatforms) overrides.preferredPlatforms = options.preferredPlatforms;
+    if (options.minimumBalance !== undefined) overrides.minimumBalance = options.minimumBalance;
+    if (options.minMoveAmount !== undefined) overrides.minMoveAmount = options.minMoveAmount;
+    if (options.minBenefit !== undefined) overrides.minBenefit = options.minBenefit;
+    if (options.horizonMonths !== undefined) overrides.horizonMonths = options.horizonMonths;
+    
+    return new Optimizer(this.rulesEngine, this.configLoader, productLoader, overrides);
+  }
+
   formatAsJSON(result: RecommendationResult): string {
     return JSON.stringify({
       recommendations: result.recommendations.map(rec => ({
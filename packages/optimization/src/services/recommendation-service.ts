@@ -8,7 +8,12 @@
 import { 
   Portfolio, 
   Recommendation,
-  RuleEvent
+  RuleEvent,
+  MaturityLadder,
+  PortfolioAnalysis,
+  ScenarioOverlay,
+  ScenarioSnapshot,
+  ScenarioDiff
 } from '../types';
 
 /**
@@ -21,11 +26,23 @@ export interface OptimizationOptions {
   /** Include Sharia-compliant banks in recommendations */
   includeShariaBanks?: boolean;
   
-  /** Products to exclude from recommendations */
-  excludedProducts?: any[];
+  /** Products to exclude from recommendations (product ids, FRNs or bank names) */
+  excludedProducts?: string[];
   
-  /** Preferred platforms for convenience bonus */
-  preferredPlatforms?: any[];
+  /** Preferred platforms for convenience bonus (replaces the configured list) */
+  preferredPlatforms?: string[];
+  
+  /** Smallest account balance considered for a move */
+  minimumBalance?: number;
+  
+  /** Smallest amount worth moving (replaces the configured minimum) */
+  minMoveAmount?: number;
+  
+  /** Minimum annual benefit for a recommendation (replaces the configured minimum) */
+  minBenefit?: number;
+  
+  /** Months recommendations are valued over, net of switching costs (replaces the configured horizon) */
+  horizonMonths?: number;
   
   /** Output format for results */
   outputFormat?: 'text' | 'json' | 'database';
@@ -84,6 +101,29 @@ export interface RecommendationResult {
   
   /** Rule events fired during optimization */
   ruleEvents?: RuleEvent[];
+  
+  /** Maturity ladder after the recommendations are executed */
+  maturityLadder?: MaturityLadder;
+}
+
+/**
+ * Result of a what-if scenario run
+ */
+export interface ScenarioResult {
+  /** Overlay that was applied */
+  overlay: ScenarioOverlay;
+  
+  /** Current portfolio, its recommendations and compliance */
+  baseline: ScenarioSnapshot;
+  
+  /** The same with the overlay applied */
+  scenario: ScenarioSnapshot;
+  
+  /** Scenario compared with the baseline */
+  diff: ScenarioDiff;
+  
+  /** Parts of the overlay that could not be applied */
+  warnings: string[];
 }
 
 /**
@@ -109,6 +149,17 @@ export interface RecommendationService {
    */
   generateRecommendations(options: OptimizationOptions): Promise<RecommendationResult>;
   
+  /**
+   * Analyze portfolio rates against the best eligible products without recommending anything
+   */
+  analyzePortfolio(options: OptimizationOptions): Promise<PortfolioAnalysis>;
+  
+  /**
+   * Run the optimizer and FSCS compliance against a what-if overlay and compare with the current portfolio
+   * Nothing is saved to the database
+   */
+  runScenario(overlay: ScenarioOverlay, options: OptimizationOptions): Promise<ScenarioResult>;
+  
   /**
    * Format recommendations as JSON string
    */
@@ -53,6 +53,7 @@ export interface Account {
   id: string;
   institutionFRN: string;
   bankName: string;
+  accountName?: string;
   accountType: AccountType;
   accountSubType: AccountSubType;
   platform?: string;
@@ -62,9 +63,15 @@ export interface Account {
   canWithdrawImmediately: boolean;
   earliestWithdrawalDate?: Date;
   
+  // Term and notice details (locked tiers)
+  termMonths?: number;
+  noticePeriodDays?: number;
+  termEnds?: Date;
+  
   // Joint account support (NEW)
   isJointAccount: boolean;
   numAccountHolders?: number; // Default 2 for joint accounts
+  accountHolders?: string[];  // Holder identifiers; derived from the joint flag when absent
   
   // Minimum balance requirement (for current accounts)
   minimumBalance?: number;
@@ -95,6 +102,7 @@ export interface PendingDeposit {
   // Joint account support (NEW)
   isJointAccount: boolean;
   numAccountHolders?: number;
+  accountHolders?: string[];
   
   // Metadata
   isActive: boolean;
@@ -161,6 +169,68 @@ export interface PreferredPlatform {
   updatedAt: Date;
 }
 
+// ===== WHAT-IF SCENARIOS =====
+
+export interface ScenarioDeposit {
+  bankName: string;
+  frn: string;
+  amount: number;
+  rate: number;
+  liquidityTier?: LiquidityTier;   // Default easy_access
+  isISA?: boolean;
+  accountHolders?: string[];
+}
+
+export interface ScenarioWithdrawal {
+  accountId: string;
+  amount?: number;                 // Whole balance when omitted
+}
+
+export interface ScenarioRateChange {
+  // Matches held accounts and available products by FRN or bank name, or one held account by id
+  frn?: string;
+  bankName?: string;
+  accountId?: string;
+  newRate: number;
+}
+
+export interface ScenarioOverlay {
+  name?: string;
+  deposits?: ScenarioDeposit[];
+  withdrawals?: ScenarioWithdrawal[];
+  rateChanges?: ScenarioRateChange[];
+  excludedFRNs?: string[];         // Institutions the scenario will not recommend
+}
+
+export interface ScenarioCompliance {
+  status: 'COMPLIANT' | 'WARNING' | 'BREACH';
+  breachCount: number;
+  warningCount: number;
+  totalAtRisk: number;
+  breachedFRNs: string[];
+}
+
+export interface ScenarioSnapshot {
+  accountCount: number;
+  totalValue: number;
+  weightedAverageRate: number;
+  annualInterest: number;
+  recommendations: Recommendation[];
+  totalBenefit: number;            // Annual benefit across the recommendations
+  compliance: ScenarioCompliance;
+}
+
+export interface ScenarioDiff {
+  totalValueChange: number;
+  weightedAverageRateChange: number;
+  annualInterestChange: number;
+  totalBenefitChange: number;
+  addedRecommendations: Recommendation[];    // Matched by source account and target institution
+  removedRecommendations: Recommendation[];
+  newBreaches: string[];                     // FRNs
+  resolvedBreaches: string[];
+}
+
 // ===== COMPLIANCE AND FSCS =====
 
 export interface ComplianceOptions {
@@ -176,7 +246,7 @@ export interface FSCSCompliance {
   totalExposure: Money;
   accountCount: number;
   effectiveLimit: Money;          // May be higher for joint accounts or institution preferences
-  regulatoryLimit: Money;         // Standard £85,000
+  regulatoryLimit: Money;         // Statutory limit in force on the report date (fscs_limit_regime)
   protectionType: 'standard_fscs' | 'personal_preference' | 'government_protected';
   trustLevel?: TrustLevel | undefined;
   amountOverLimit: Money;
@@ -273,13 +343,20 @@ export interface RecommendationTarget {
   liquidityTier: LiquidityTier;
   minimumDeposit?: Money;
   maximumDeposit?: Money;
+  termMonths?: number;
+  noticePeriodDays?: number;
+  maturityDate?: Date;             // When the money becomes accessible again
+  accountHolder?: string;          // Person the account should be opened for (FSCS headroom is per person)
+  isaAllowanceUsed?: Money;        // ISA subscription allowance the move would use
 }
 
 export interface RecommendationBenefits {
   annualBenefit: Money;
+  netAnnualBenefit?: Money; // After income tax on interest, when tax profiles are loaded
   rateImprovement: Percentage;
   paybackPeriod?: number; // Days
   cumulativeBenefit: Money; // Over expected holding period
+  switchingCost?: SwitchingCost; // Costs and bonus expiry behind cumulativeBenefit
 }
 
 export interface RecommendationCompliance {
@@ -328,6 +405,82 @@ export interface Recommendation {
   missingFRN?: boolean;            // Target product has no FRN (FSCS protection uncertain)
 }
 
+// ===== MATURITY LADDER =====
+
+export interface TierPosition {
+  liquidityTier: LiquidityTier;
+  targetPercentage: number;
+  targetAmount: Money;
+  currentAmount: Money;            // Excludes money maturing inside the planning window
+  projectedAmount: Money;          // After the ladder recommendations are executed
+}
+
+export interface MaturityLadderRung {
+  liquidityTier: LiquidityTier;
+  bankName: string;
+  amount: Money;
+  rate: number;
+  maturityDate?: Date;             // Undefined for notice accounts where notice has not been given
+  accountId?: string;              // Existing account, when the rung is already held
+  recommendationId?: string;       // Recommendation that creates the rung
+  status: 'held' | 'maturing' | 'recommended';
+}
+
+export interface MaturityLadder {
+  rungs: MaturityLadderRung[];
+  tiers: TierPosition[];
+  emergencyLiquidity: Money;       // Easy access money left after the ladder is funded
+  emergencyLiquidityTarget: Money;
+  maturityWindowDays: number;
+  generatedAt: Date;
+}
+
+export interface OptimizationResult {
+  recommendations: Recommendation[];
+  maturityLadder: MaturityLadder;
+}
+
+// ===== RUN OVERRIDES AND ANALYSIS =====
+
+export interface OptimizationOverrides {
+  allowShariaBanks?: boolean;
+  excludedProducts?: string[];     // Product ids, FRNs or bank names, on top of the configured exclusions
+  preferredPlatforms?: string[];   // Replaces the configured preferred platforms
+  minimumBalance?: number;         // Smallest account balance considered for a move
+  minMoveAmount?: number;          // Replaces risk tolerance min_move_amount
+  minBenefit?: number;             // Replaces risk tolerance min_rebalancing_benefit
+  horizonMonths?: number;          // Replaces switching_horizon_months
+}
+
+export interface TierAnalysis {
+  liquidityTier: LiquidityTier;
+  accountCount: number;
+  totalBalance: Money;
+  weightedAverageRate: number;
+  bestAvailableRate?: number;      // Undefined when no eligible product is on file
+  potentialAnnualGain: Money;
+}
+
+export interface AccountRateGap {
+  accountId: string;
+  bankName: string;
+  liquidityTier: LiquidityTier;
+  balance: Money;
+  currentRate: number;
+  bestAvailableRate: number;
+  bestAvailableBank: string;
+  annualGain: Money;
+}
+
+export interface PortfolioAnalysis {
+  totalValue: Money;
+  weightedAverageRate: number;
+  tiers: TierAnalysis[];
+  underperformingAccounts: AccountRateGap[]; // Largest gain first
+  potentialAnnualGain: Money;      // Moving every underperforming account, before FSCS limits and tax
+  generatedAt: Date;
+}
+
 // ===== OPTIMIZATION AND OPPORTUNITIES =====
 
 export interface RateOpportunity {
@@ -374,6 +527,35 @@ export interface AvailableProduct {
   
   // FRN handling
   missingFRN?: boolean;  // Flag to indicate product has no FRN (FSCS risk)
+  
+  // Tax treatment
+  isISA?: boolean;  // Cash ISA - interest is tax free
+}
+
+// Rate history recorded by the pipeline on each run (product_history)
+export interface ProductRateChange {
+  date: Date;
+  previousRate?: number;  // Absent for the first listing
+  rate: number;
+}
+
+export interface ProductRateHistory {
+  bankName: string;
+  platform: string;
+  frn?: string;
+  accountType: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  withdrawnOn?: Date;
+  changes: ProductRateChange[];
+}
+
+export interface MarketRatePoint {
+  date: Date;
+  accountType: string;
+  bestRate: number;
+  averageRate: number;
+  productCount: number;
 }
 
 // ===== CONFIGURATION =====
@@ -393,6 +575,61 @@ export interface ComplianceConfig {
   includeProductsWithoutFRN: boolean;
 }
 
+export interface FSCSLimitRegime {
+  regulatoryLimit: Money;
+  jointMultiplier: number;
+  nearLimitThreshold: Money; // Exposure from which an institution is reported as near the limit
+  effectiveFrom: Date;
+  source?: string | undefined;
+}
+
+export type TaxBand = 'non_taxpayer' | 'basic' | 'higher' | 'additional';
+
+export interface SavingsTaxProfile {
+  holder: string; // Owner name, as used in Account.accountHolders
+  taxBand: TaxBand;
+  allowance: Money; // Personal Savings Allowance plus unused starting rate band
+  taxRate: number; // Percentage charged on interest above the allowance
+}
+
+export interface IsaAllowanceStatus {
+  taxYear: string; // e.g. 2026/27
+  annualAllowance: Money;
+  remainingByHolder: Map<string, number>; // Holders without an entry have the full allowance
+}
+
+export interface SavingsTaxConfig {
+  defaultProfile: Omit<SavingsTaxProfile, 'holder'>; // Holders without a profile of their own
+  profiles: SavingsTaxProfile[];
+}
+
+export interface ProductPromotion {
+  frn?: string;
+  bankName?: string;               // Used when the promotion has no FRN
+  platform?: string;               // Any platform when omitted
+  bonusMonths: number;             // Months the advertised rate lasts
+  underlyingRate: number;          // Rate paid once the bonus ends
+}
+
+export interface SwitchingCostConfig {
+  horizonMonths: number;           // Period recommendations are valued over
+  defaultTransferDays: number;
+  transferDaysByPlatform: Map<string, number>;
+  earlyClosurePenaltyDays: number; // Days of interest forfeited to break a fixed term
+  promotions: ProductPromotion[];
+}
+
+export interface SwitchingCost {
+  transferDays: number;
+  transferCost: number;            // Interest lost while the money is in transit
+  exitCost: number;                // Leaving a notice or fixed term account early, or waiting
+  exitMethod: 'none' | 'penalty' | 'wait';
+  horizonMonths: number;
+  horizonGain: number;             // Gross extra interest over the horizon, after any bonus ends
+  netHorizonBenefit: number;       // Less tax and switching costs
+  promotion?: ProductPromotion;
+}
+
 export interface RiskToleranceConfig {
   meaningfulRateThreshold: Percentage;
   minMoveAmount: Money;
@@ -11,6 +11,10 @@
  *   npm run cli                                    # Run full pipeline
  *   npm run cli -- --stop-after json_ingestion     # Stop after specific stage
  *   npm run cli -- --rebuild-only                  # Rebuild from raw data only
+ *   npm run cli -- --dry-run                       # Diff against available_products without persisting
+ *   npm run cli -- --sources                       # Product counts and age of each source
+ *   npm run cli -- --progress jsonl --progress-file <path>  # Headless run logging events as JSON lines
+ *   npm run cli -- --import-boe <file> [--apply]   # Diff (and apply) a BoE register file
  *   npm run cli -- --help                          # Show help
  *
  * Environment Variables:
@@ -18,12 +22,18 @@
  *   PIPELINE_DEBUG=true      # Show detailed file-by-file progress
  *   PIPELINE_ATOMIC=false    # Use incremental mode (default: true)
  *   DATABASE_PATH=<path>     # Override database path
+ *
+ * Scheduled refreshes run the same pipeline as the app; only the progress
+ * sink differs. Use `npm run cli:node` where Electron is not installed.
  */
 
 import * as path from 'path';
 import * as fs from 'fs';
 import Database from 'better-sqlite3';
-import { OrchestrationService, PipelineStage } from './services/OrchestrationService';
+import { OrchestrationService, PipelineStage, PipelineSourceStatus } from './services/OrchestrationService';
+import { ProductDiff, ProductDiffEntry } from './services/ProductDiffService';
+import { PipelineProgressSink, ConsoleProgressSink, JsonLinesProgressSink } from './utils/PipelineProgressSink';
+import { BOERegisterImportService, BOERegisterDiff } from './services/BOERegisterImportService';
 import { logger } from './utils/PipelineLogger';
 
 // ANSI color codes for pretty output
@@ -42,7 +52,14 @@ const colors = {
 interface CLIOptions {
   stopAfter?: PipelineStage;
   rebuildOnly?: boolean;
+  dryRun?: boolean;
+  sources?: boolean;
+  progress?: 'console' | 'jsonl';
+  progressFile?: string;
   files?: string[];
+  importBoe?: string;
+  apply?: boolean;
+  confirmRemovals?: boolean;
   help?: boolean;
   version?: boolean;
 }
@@ -87,6 +104,28 @@ function parseArgs(): CLIOptions {
         options.rebuildOnly = true;
         break;
 
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+
+      case '--progress':
+        const progress = args[++i];
+        if (progress !== 'console' && progress !== 'jsonl') {
+          console.error(`${colors.red}Error: --progress must be 'console' or 'jsonl'${colors.reset}`);
+          process.exit(1);
+        }
+        options.progress = progress;
+        break;
+
+      case '--progress-file':
+        const progressFile = args[++i];
+        if (!progressFile) {
+          console.error(`${colors.red}Error: --progress-file requires a file path${colors.reset}`);
+          process.exit(1);
+        }
+        options.progressFile = progressFile;
+        break;
+
       case '--files':
         // Collect all file paths until next flag
         options.files = [];
@@ -95,6 +134,27 @@ function parseArgs(): CLIOptions {
         }
         break;
 
+      case '--import-boe':
+        const registerFile = args[++i];
+        if (!registerFile) {
+          console.error(`${colors.red}Error: --import-boe requires a CSV or XLSX file${colors.reset}`);
+          process.exit(1);
+        }
+        options.importBoe = registerFile;
+        break;
+
+      case '--apply':
+        options.apply = true;
+        break;
+
+      case '--confirm-removals':
+        options.confirmRemovals = true;
+        break;
+
+      case '--sources':
+        options.sources = true;
+        break;
+
       default:
         if (arg.startsWith('--')) {
           console.error(`${colors.red}Error: Unknown option '${arg}'${colors.reset}`);
@@ -104,6 +164,19 @@ function parseArgs(): CLIOptions {
     }
   }
 
+  if (options.progressFile) {
+    if (options.progress === 'console') {
+      console.error(`${colors.red}Error: --progress-file writes JSON lines and cannot be used with --progress console${colors.reset}`);
+      process.exit(1);
+    }
+    options.progress = 'jsonl';
+  }
+
+  if (options.dryRun && (options.rebuildOnly || options.stopAfter)) {
+    console.error(`${colors.red}Error: --dry-run always runs through deduplication and cannot be combined with --rebuild-only or --stop-after${colors.reset}`);
+    process.exit(1);
+  }
+
   return options;
 }
 
@@ -123,7 +196,14 @@ ${colors.bright}OPTIONS:${colors.reset}
   ${colors.green}--stop-after <stage>${colors.reset}    Stop pipeline after specified stage
                             Stages: json_ingestion, frn_matching, deduplication, data_quality
   ${colors.green}--rebuild-only${colors.reset}          Only rebuild from raw data (skip ingestion)
-  ${colors.green}--files <paths...>${colors.reset}      Process specific JSON files
+  ${colors.green}--dry-run${colors.reset}               Run through deduplication and diff against available_products; nothing is persisted
+  ${colors.green}--sources${colors.reset}               Show product counts and age of each source, flagging stale ones
+  ${colors.green}--files <paths...>${colors.reset}      Process specific files (scraper JSON, CSV exports, saved best buy tables)
+  ${colors.green}--progress <format>${colors.reset}     Report pipeline events: console (readable lines) or jsonl (JSON lines)
+  ${colors.green}--progress-file <path>${colors.reset}  Append JSON-lines events to a file (implies --progress jsonl)
+  ${colors.green}--import-boe <file>${colors.reset}     Diff a BoE/PRA deposit-taker list (CSV or XLSX) against boe_institutions
+  ${colors.green}--apply${colors.reset}                 With --import-boe: apply the changes and rebuild the FRN lookup cache
+  ${colors.green}--confirm-removals${colors.reset}      With --apply: accept a file that removes a large part of the register
 
 ${colors.bright}ENVIRONMENT VARIABLES:${colors.reset}
   ${colors.yellow}PIPELINE_VERBOSE=true${colors.reset}     Show stage progress and summaries
@@ -144,9 +224,23 @@ ${colors.bright}EXAMPLES:${colors.reset}
   # Process specific JSON files with debug logging
   ${colors.dim}PIPELINE_DEBUG=true npm run cli -- --files ../scrapers/data/moneyfacts/*.json${colors.reset}
 
+  # Check what a scrape would change before committing it
+  ${colors.dim}npm run cli -- --dry-run${colors.reset}
+
+  # Re-run one scrape; the other sources are kept from earlier runs
+  ${colors.dim}npm run cli -- --files ../scrapers/data/ajbell/*.json${colors.reset}
+  ${colors.dim}npm run cli -- --sources${colors.reset}
+
   # Run in incremental mode (useful for testing)
   ${colors.dim}PIPELINE_ATOMIC=false npm run cli${colors.reset}
 
+  # Scheduled headless refresh (cron) logging events to a file
+  ${colors.dim}npm run cli:node -- --progress-file logs/pipeline-events.jsonl${colors.reset}
+
+  # Review, then apply, a newer BoE list of deposit takers
+  ${colors.dim}npm run cli -- --import-boe ~/Downloads/banks-list.xlsx${colors.reset}
+  ${colors.dim}npm run cli -- --import-boe ~/Downloads/banks-list.xlsx --apply${colors.reset}
+
 ${colors.bright}DOCUMENTATION:${colors.reset}
   See CLI-DEBUG-GUIDE.md for comprehensive debugging workflows
 `);
@@ -230,6 +324,19 @@ function findJSONFiles(patterns?: string[]): string[] {
   return files;
 }
 
+/**
+ * Progress sink for --progress / --progress-file (none by default; the logger still reports)
+ */
+function createProgressSink(options: CLIOptions): (PipelineProgressSink & { close?(): void }) | undefined {
+  if (options.progress === 'console') {
+    return new ConsoleProgressSink();
+  }
+  if (options.progress === 'jsonl') {
+    return new JsonLinesProgressSink(options.progressFile);
+  }
+  return undefined;
+}
+
 /**
  * Print pipeline summary
  */
@@ -275,6 +382,11 @@ function printSummary(result: any, duration: number): void {
     if (result.dataQualityReport.anomalies.length > 0) {
       console.log(`  Anomalies: ${colors.yellow}${result.dataQualityReport.anomalies.length}${colors.reset}`);
     }
+
+    const quarantined = result.dataQualityReport.rateAnomalies.filter((anomaly: any) => anomaly.quarantined);
+    if (quarantined.length > 0) {
+      console.log(`  Quarantined: ${colors.red}${quarantined.length}${colors.reset} products kept out of available_products`);
+    }
   }
 
   // Performance
@@ -284,6 +396,12 @@ function printSummary(result: any, duration: number): void {
     console.log(`  Throughput: ${colors.cyan}${result.performanceMetrics.throughputPerSecond.toFixed(1)}${colors.reset} products/sec`);
   }
 
+  // Sources kept from earlier runs that are out of date
+  if (result.staleSources && result.staleSources.length > 0) {
+    console.log(`\n${colors.bright}Stale Sources:${colors.reset} ${colors.yellow}${result.staleSources.join(', ')}${colors.reset}`);
+    console.log(`  ${colors.dim}Run with --sources for counts and ages${colors.reset}`);
+  }
+
   // Errors
   if (result.errors.length > 0) {
     console.log(`\n${colors.bright}${colors.red}Errors:${colors.reset}`);
@@ -295,6 +413,123 @@ function printSummary(result: any, duration: number): void {
   console.log(`\n${colors.bright}${colors.cyan}═══════════════════════════════════════════════════${colors.reset}\n`);
 }
 
+/**
+ * Print each source's product counts and age
+ */
+function printSourceStatus(sources: PipelineSourceStatus[]): void {
+  console.log(`${colors.bright}Sources${colors.reset}`);
+  if (sources.length === 0) {
+    console.log(`  ${colors.dim}No sources recorded yet (run migration 017, then the pipeline)${colors.reset}\n`);
+    return;
+  }
+
+  for (const source of sources) {
+    const age = source.ageHours === null ? 'unknown age' : source.ageHours < 48 ? `${source.ageHours}h old` : `${Math.round(source.ageHours / 24)}d old`;
+    const flag = source.stale ? ` ${colors.yellow}stale${source.carriedForward ? ' (no raw products, carried forward)' : ''}${colors.reset}` : '';
+    console.log(`  ${source.source.padEnd(22)} ${String(source.rawProductCount).padStart(5)} raw ${String(source.finalProductCount).padStart(5)} final  ${colors.dim}${age}${colors.reset}${flag}`);
+  }
+  console.log();
+}
+
+/**
+ * Print a dry run's diff against available_products
+ */
+function printProductDiff(diff: ProductDiff): void {
+  console.log(`${colors.bright}Dry Run - Product Changes${colors.reset}`);
+  console.log(`  Live products:   ${colors.cyan}${diff.liveCount}${colors.reset}`);
+  console.log(`  Staged products: ${colors.cyan}${diff.stagedCount}${colors.reset}`);
+  console.log(`  Unchanged:       ${colors.cyan}${diff.unchanged}${colors.reset}\n`);
+
+  const describe = (entry: ProductDiffEntry) => {
+    const term = entry.termMonths ? ` ${entry.termMonths}m` : entry.noticePeriodDays ? ` ${entry.noticePeriodDays}d notice` : '';
+    return `${entry.bankName} ${entry.accountType}${term} (${entry.platform})`;
+  };
+  const section = (title: string, color: string, lines: string[]) => {
+    console.log(`${colors.bright}${title}:${colors.reset} ${lines.length}`);
+    lines.forEach(line => console.log(`  ${color}•${colors.reset} ${line}`));
+  };
+
+  section('Added', colors.green, diff.added.map(e => `${describe(e)} ${e.aerRate}%`));
+  section('Removed', colors.red, diff.removed.map(e => `${describe(e)} ${e.aerRate}%`));
+  section('Rate up', colors.green, diff.rateUp.map(e => `${describe(e)} ${e.previousRate}% → ${e.aerRate}%`));
+  section('Rate down', colors.yellow, diff.rateDown.map(e => `${describe(e)} ${e.previousRate}% → ${e.aerRate}%`));
+  section('FRN changed', colors.yellow, diff.frnChanged.map(e => `${describe(e)} ${e.previousFrn || 'none'} → ${e.frn || 'none'}`));
+  console.log();
+}
+
+/**
+ * Print a BoE register diff
+ */
+function printRegisterDiff(diff: BOERegisterDiff): void {
+  console.log(`${colors.bright}BoE Register: ${diff.sourceFile}${colors.reset}`);
+  console.log(`  Firms in file:     ${colors.cyan}${diff.firmsInFile}${colors.reset}`);
+  console.log(`  Firms in register: ${colors.cyan}${diff.firmsInRegister}${colors.reset}\n`);
+
+  const section = (title: string, color: string, lines: string[]) => {
+    console.log(`${colors.bright}${title}:${colors.reset} ${lines.length}`);
+    lines.forEach(line => console.log(`  ${color}•${colors.reset} ${line}`));
+  };
+
+  section('New firms', colors.green, diff.added.map(c => `${c.frn} ${c.firmName}`));
+  section('Removed firms', colors.red, diff.removed.map(c => `${c.frn} ${c.firmName}`));
+  section('Renamed', colors.yellow, diff.renamed.map(c => `${c.frn} ${c.previousFirmName} → ${c.firmName}`));
+  section('FRN changes', colors.yellow, diff.frnChanged.map(c => `${c.previousFrn} → ${c.frn} ${c.firmName}`));
+  section('Trading names added', colors.green, diff.tradingNamesAdded.map(c => `${c.frn} ${c.tradingName}`));
+  section('Trading names removed', colors.red, diff.tradingNamesRemoved.map(c => `${c.frn} ${c.tradingName}`));
+  section('Trading names kept (entered by hand)', colors.cyan, diff.tradingNamesKept.map(c => `${c.frn} ${c.tradingName}`));
+
+  if (diff.affectedDeposits.length > 0) {
+    console.log(`\n${colors.bright}${colors.red}Held deposits affected:${colors.reset} ${diff.affectedDeposits.length}`);
+    diff.affectedDeposits.forEach(d => {
+      const detail = d.reason === 'removed' ? 'FRN removed' : `FRN now ${d.newFrn}`;
+      console.log(`  ${colors.red}•${colors.reset} ${d.bank} (FRN ${d.frn}) £${d.balance.toLocaleString('en-GB')} - ${detail}`);
+    });
+  }
+  if (diff.droppedPreferences > 0) {
+    console.log(`\n${colors.yellow}Institution preferences of removed firms to drop: ${diff.droppedPreferences} (kept in the import's change record)${colors.reset}`);
+  }
+  if (diff.largeRemoval) {
+    console.log(`\n${colors.bright}${colors.red}${diff.removed.length} of ${diff.firmsInRegister} registered firms would be removed.${colors.reset} ` +
+      `${colors.yellow}Check the file is the complete list; applying it needs --confirm-removals${colors.reset}`);
+  }
+  console.log();
+}
+
+/**
+ * Diff a BoE register file against boe_institutions, applying it with --apply
+ */
+async function importBOERegister(db: Database.Database, options: CLIOptions): Promise<void> {
+  const importer = new BOERegisterImportService(db);
+  const file = BOERegisterImportService.parseFile(options.importBoe!);
+  if (file.skippedRows > 0) {
+    console.log(`${colors.yellow}Skipped ${file.skippedRows} row(s) without a valid FRN and firm name${colors.reset}\n`);
+  }
+
+  const diff = importer.diff(file);
+  printRegisterDiff(diff);
+
+  if (!options.apply) {
+    console.log(`${colors.dim}Dry run - re-run with --apply to update the register${colors.reset}\n`);
+    return;
+  }
+
+  const result = importer.apply(diff, { confirmRemovals: options.confirmRemovals });
+  console.log(`${colors.green}✓${colors.reset} Register updated (import ${result.importId})`);
+
+  try {
+    await importer.rebuildLookupCache();
+    console.log(`${colors.green}✓${colors.reset} FRN lookup cache rebuilt`);
+  } catch (error) {
+    // The register is already committed; the cache is rebuilt again when the pipeline next starts
+    console.warn(`${colors.yellow}Warning: FRN lookup cache not rebuilt: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+  }
+
+  if (result.flaggedDeposits > 0) {
+    console.log(`${colors.yellow}${result.flaggedDeposits} deposit(s) flagged for review in action items${colors.reset}`);
+  }
+  console.log();
+}
+
 /**
  * Main CLI entry point
  */
@@ -312,46 +547,81 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Banner
-  console.log(`${colors.bright}${colors.cyan}Pipeline CLI Debug Tool${colors.reset}`);
-  console.log(`${colors.dim}────────────────────────────────────────────────────${colors.reset}\n`);
-
-  // Configuration summary
-  console.log(`${colors.bright}Configuration:${colors.reset}`);
-  console.log(`  Verbose:  ${process.env.PIPELINE_VERBOSE === 'true' ? colors.green + 'enabled' : colors.dim + 'disabled'}${colors.reset}`);
-  console.log(`  Debug:    ${process.env.PIPELINE_DEBUG === 'true' ? colors.green + 'enabled' : colors.dim + 'disabled'}${colors.reset}`);
-  console.log(`  Atomic:   ${process.env.PIPELINE_ATOMIC !== 'false' ? colors.green + 'enabled' : colors.yellow + 'disabled'}${colors.reset}`);
-
-  if (options.stopAfter) {
-    console.log(`  Stop After: ${colors.cyan}${options.stopAfter}${colors.reset}`);
+  // JSON lines on stdout are for another program to read, so keep stdout to the events alone
+  const quiet = options.progress === 'jsonl' && !options.progressFile;
+  if (quiet) {
+    logger.logToStderr();
   }
 
-  if (options.rebuildOnly) {
-    console.log(`  Mode:     ${colors.cyan}rebuild-only${colors.reset}`);
+  // Banner
+  if (!quiet) {
+    console.log(`${colors.bright}${colors.cyan}Pipeline CLI Debug Tool${colors.reset}`);
+    console.log(`${colors.dim}────────────────────────────────────────────────────${colors.reset}\n`);
   }
 
-  console.log();
+  if (options.importBoe) {
+    const db = new Database(getDatabasePath());
+    let exitCode = 0;
+    try {
+      await importBOERegister(db, options);
+    } catch (error) {
+      console.error(`${colors.red}BoE register import failed: ${error instanceof Error ? error.message : String(error)}${colors.reset}\n`);
+      exitCode = 1;
+    } finally {
+      db.close();
+    }
+    process.exit(exitCode);
+  }
 
   // Initialize database
   const dbPath = getDatabasePath();
-  console.log(`${colors.dim}Database: ${dbPath}${colors.reset}\n`);
+
+  // Configuration summary
+  if (!quiet) {
+    console.log(`${colors.bright}Configuration:${colors.reset}`);
+    console.log(`  Verbose:  ${process.env.PIPELINE_VERBOSE === 'true' ? colors.green + 'enabled' : colors.dim + 'disabled'}${colors.reset}`);
+    console.log(`  Debug:    ${process.env.PIPELINE_DEBUG === 'true' ? colors.green + 'enabled' : colors.dim + 'disabled'}${colors.reset}`);
+    console.log(`  Atomic:   ${process.env.PIPELINE_ATOMIC !== 'false' ? colors.green + 'enabled' : colors.yellow + 'disabled'}${colors.reset}`);
+
+    if (options.stopAfter) {
+      console.log(`  Stop After: ${colors.cyan}${options.stopAfter}${colors.reset}`);
+    }
+
+    if (options.rebuildOnly) {
+      console.log(`  Mode:     ${colors.cyan}rebuild-only${colors.reset}`);
+    }
+
+    if (options.dryRun) {
+      console.log(`  Mode:     ${colors.cyan}dry-run${colors.reset}`);
+    }
+
+    console.log();
+    console.log(`${colors.dim}Database: ${dbPath}${colors.reset}\n`);
+  }
 
   let db: Database.Database | null = null;
   let orchestrator: OrchestrationService | null = null;
+  const progressSink = createProgressSink(options);
 
   try {
     // Connect to database
     db = new Database(dbPath);
-    console.log(`${colors.green}✓${colors.reset} Database connection established\n`);
+    if (!quiet) {
+      console.log(`${colors.green}✓${colors.reset} Database connection established\n`);
+    }
 
     // Initialize orchestrator
     orchestrator = new OrchestrationService(db, dbPath);
+    orchestrator.setProgressSink(progressSink);
     await orchestrator.initialize();
 
     const startTime = Date.now();
 
     // Execute pipeline based on options
-    if (options.rebuildOnly) {
+    if (options.sources) {
+      printSourceStatus(orchestrator.getSourceStatus());
+
+    } else if (options.rebuildOnly) {
       // Rebuild from raw data only
       logger.info('🔄 Rebuilding from raw data...');
       await orchestrator.rebuildFromRawData({ stopAfterStage: options.stopAfter });
@@ -360,8 +630,9 @@ async function main(): Promise<void> {
       const duration = Date.now() - startTime;
       const finalCount = db.prepare('SELECT COUNT(*) as count FROM available_products').get() as { count: number };
 
-      console.log(`\n${colors.green}✓${colors.reset} Rebuild complete: ${finalCount.count} products`);
-      console.log(`  Duration: ${colors.cyan}${(duration / 1000).toFixed(2)}s${colors.reset}\n`);
+      const report = quiet ? console.error : console.log;
+      report(`\n${colors.green}✓${colors.reset} Rebuild complete: ${finalCount.count} products`);
+      report(`  Duration: ${colors.cyan}${(duration / 1000).toFixed(2)}s${colors.reset}\n`);
 
     } else {
       // Full pipeline execution
@@ -369,22 +640,30 @@ async function main(): Promise<void> {
 
       if (inputFiles.length === 0) {
         console.warn(`${colors.yellow}Warning: No JSON files found to process${colors.reset}`);
-        console.log(`Run scrapers first or specify files with --files option\n`);
+        console.warn(`Run scrapers first or specify files with --files option\n`);
         process.exit(0);
       }
 
-      console.log(`${colors.dim}Processing ${inputFiles.length} file(s)...${colors.reset}\n`);
+      if (!quiet) {
+        console.log(`${colors.dim}Processing ${inputFiles.length} file(s)...${colors.reset}\n`);
+      }
 
-      const result = await orchestrator.executePipelineWithUI(
+      const result = await orchestrator.executePipeline(
         inputFiles,
-        undefined,
-        { stopAfterStage: options.stopAfter }
+        { stopAfterStage: options.stopAfter, dryRun: options.dryRun }
       );
 
       const duration = Date.now() - startTime;
 
       // Print summary
-      printSummary(result, duration);
+      if (!quiet) {
+        printSummary(result, duration);
+
+        if (result.productDiff) {
+          printProductDiff(result.productDiff);
+          console.log(`${colors.dim}Dry run - nothing persisted and input files kept. Re-run without --dry-run to apply${colors.reset}\n`);
+        }
+      }
 
       // Exit with appropriate code
       process.exit(result.success ? 0 : 1);
@@ -405,9 +684,12 @@ async function main(): Promise<void> {
     if (orchestrator) {
       orchestrator.reset();
     }
+    progressSink?.close?.();
     if (db) {
       db.close();
-      console.log(`${colors.dim}Database connection closed${colors.reset}`);
+      if (!quiet) {
+        console.log(`${colors.dim}Database connection closed${colors.reset}`);
+      }
     }
   }
 }
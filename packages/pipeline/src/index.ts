@@ -1,10 +1,40 @@
 // Services
 export { OrchestrationService } from './services/OrchestrationService';
+export type { ProductHistoryRunSummary } from './services/ProductHistoryService';
+export type { ProductWriteOptions, ProductWriteResult } from './services/ProductRepository';
+export type { ProductDiff, ProductDiffEntry } from './services/ProductDiffService';
+export type { RateAnomaly, RateAnomalyType, RateAnomalyConfig, RateAnomalyResult } from './services/RateAnomalyDetector';
+export type {
+  BOERegisterEntry,
+  BOERegisterFile,
+  BOERegisterDiff,
+  BOERegisterImportResult,
+  BOEAffectedDeposit
+} from './services/BOERegisterImportService';
 export { JSONIngestionService } from './services/JSONIngestionService';
 export { FRNMatchingService } from './services/FRNMatchingService';
 export { DeduplicationService} from './services/DeduplicationService';
 export { DataQualityAnalyzer } from './services/DataQualityAnalyzer';
 export { PipelineAudit } from './services/PipelineAudit';
+export { ProductHistoryService } from './services/ProductHistoryService';
+export { ProductRepository, AVAILABLE_PRODUCT_COLUMNS } from './services/ProductRepository';
+export { BOERegisterImportService } from './services/BOERegisterImportService';
+export { ProductDiffService } from './services/ProductDiffService';
+export { RateAnomalyDetector } from './services/RateAnomalyDetector';
+export { SourceStatusService } from './services/SourceStatusService';
+export {
+  IngestionAdapterRegistry,
+  ScraperJSONAdapter,
+  CSVProductAdapter,
+  BestBuyTableAdapter,
+  MappedJSONAdapter,
+  createDefaultAdapterRegistry
+} from './services/IngestionAdapters';
+export type { IngestionAdapter, AdaptedFile, AdapterContext, MappedJSONAdapterConfig } from './services/IngestionAdapters';
+
+// Progress reporting
+export { ElectronIpcProgressSink, ConsoleProgressSink, JsonLinesProgressSink } from './utils/PipelineProgressSink';
+export type { PipelineProgressSink, PipelineEvent, IpcProgressTarget } from './utils/PipelineProgressSink';
 
 // Types
 export * from './types/FRNMatchingConfig';
@@ -13,6 +43,11 @@ export * from './types/FRNMatchingConfig';
 export { PipelineStage } from './services/OrchestrationService';
 export type {
   PipelineOptions,
+  PipelineResult,
+  PipelineProgress,
+  StagedPipelineRun,
+  StagedRunCommitResult,
+  PipelineSourceStatus,
   OrchestrationConfig,
   PipelineRequest,
   OrchestratorCriticalErrorType,
@@ -0,0 +1,582 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import { FRNMatchingService } from './FRNMatchingService';
+import { readSpreadsheet, SpreadsheetSheet } from '../utils/SpreadsheetReader';
+import { logger } from '../utils/PipelineLogger';
+
+export interface BOERegisterEntry {
+  frn: string;
+  firmName: string;
+  tradingNames: string[];
+}
+
+export interface BOERegisterFile {
+  sourceFile: string;
+  entries: BOERegisterEntry[];
+  hasTradingNames: boolean; // Trading names are only diffed when the file lists them
+  skippedRows: number;      // Rows under a header without a valid FRN or firm name
+}
+
+export interface BOEFirmChange {
+  frn: string;
+  firmName: string;
+  previousFrn?: string;      // frn_changed
+  previousFirmName?: string; // renamed, frn_changed
+}
+
+export interface BOETradingNameChange {
+  frn: string;
+  firmName: string;
+  tradingName: string;
+}
+
+export interface BOEAffectedDeposit {
+  depositId: number;
+  bank: string;
+  frn: string;
+  balance: number;
+  reason: 'removed' | 'frn_changed';
+  newFrn?: string;
+}
+
+export interface BOERegisterDiff {
+  sourceFile: string;
+  firmsInFile: number;
+  firmsInRegister: number;
+  added: BOEFirmChange[];
+  removed: BOEFirmChange[];
+  renamed: BOEFirmChange[];
+  frnChanged: BOEFirmChange[];
+  tradingNamesAdded: BOETradingNameChange[];
+  tradingNamesRemoved: BOETradingNameChange[];
+  tradingNamesKept: BOETradingNameChange[]; // Hand-entered names missing from the file, left in place
+  affectedDeposits: BOEAffectedDeposit[];
+  droppedPreferences: number; // institution_preferences rows of removed firms, kept on their change rows
+  largeRemoval: boolean;      // Removes more of the register than apply() accepts without confirmation
+}
+
+export interface BOERegisterApplyOptions {
+  confirmRemovals?: boolean; // Apply a diff that removes a large part of the register
+}
+
+export interface BOERegisterImportResult {
+  importId: number;
+  diff: BOERegisterDiff;
+  flaggedDeposits: number;
+}
+
+const IMPORT_TABLES = ['boe_register_imports', 'boe_register_changes'];
+
+// Removing more firms than this (and more than a tenth of the register) suggests a partial or wrong file
+const LARGE_REMOVAL_MIN_FIRMS = 5;
+const LARGE_REMOVAL_FRACTION = 0.1;
+
+// Legal forms ignored when pairing a removed FRN with an added one for the same firm
+const LEGAL_SUFFIXES = /\b(PLC|LIMITED|LTD|PUBLIC LIMITED COMPANY|COMPANY|CO|UK|THE)\b/g;
+
+/**
+ * BoE Register Import Service
+ *
+ * Brings boe_institutions up to date with a newer Bank of England / PRA list
+ * of deposit takers (CSV or XLSX). diff() compares the file with the
+ * register without writing anything; apply() makes the changes in one
+ * transaction and records them against an import row (migration 014).
+ *
+ * - added / removed: FRNs only in the file / only in the register
+ * - renamed: same FRN, firm name differs beyond case, spacing and punctuation
+ * - frn_changed: a removed and an added FRN whose names match once legal
+ *   forms are ignored, paired only when the match is unambiguous. The firm's
+ *   shared brands, manual overrides and preferences move to the new FRN
+ * - trading names: boe_shared_brands 'trading_name' rows, when the file has them.
+ *   Only names an earlier import added are removed; names entered by hand
+ *   that the file does not list are reported as kept
+ *
+ * Active deposits held under a removed or changed FRN are flagged as
+ * compliance action items, since their FSCS cover can no longer be resolved
+ * from the register. Deposits themselves are never changed.
+ *
+ * A removed firm's shared brands and institution preferences are deleted
+ * with it and kept as JSON on its 'removed' change row. A diff that removes
+ * a large part of the register is only applied once the removals are confirmed.
+ */
+export class BOERegisterImportService {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Read a register file, combining the firms listed on every sheet
+   */
+  static parseFile(filePath: string): BOERegisterFile {
+    return BOERegisterImportService.parseSheets(readSpreadsheet(filePath), path.basename(filePath));
+  }
+
+  /**
+   * Extract firms from sheets, using the first row on each sheet that names
+   * an FRN column and a firm name column as its header. Sheets without such
+   * a header (notes, cover pages) are ignored
+   */
+  static parseSheets(sheets: SpreadsheetSheet[], sourceFile: string): BOERegisterFile {
+    const byFrn = new Map<string, BOERegisterEntry>();
+    let hasTradingNames = false;
+    let skippedRows = 0;
+
+    for (const sheet of sheets) {
+      const headerIndex = sheet.rows.findIndex(row => BOERegisterImportService.findColumns(row) !== null);
+      if (headerIndex < 0) continue;
+
+      const columns = BOERegisterImportService.findColumns(sheet.rows[headerIndex]!)!;
+      if (columns.tradingNames !== undefined) hasTradingNames = true;
+
+      for (const row of sheet.rows.slice(headerIndex + 1)) {
+        const frn = (row[columns.frn] || '').trim().replace(/\.0+$/, '');
+        const firmName = (row[columns.firmName] || '').replace(/\s+/g, ' ').trim();
+        if (!/^\d{6,7}$/.test(frn) || !firmName) {
+          skippedRows++;
+          continue;
+        }
+
+        const tradingNames = columns.tradingNames !== undefined
+          ? (row[columns.tradingNames] || '')
+              .split(/[;\n]/)
+              .map(name => name.replace(/\s+/g, ' ').trim())
+              .filter(name => name && !BOERegisterImportService.sameName(name, firmName))
+          : [];
+
+        const existing = byFrn.get(frn);
+        if (existing) {
+          for (const name of tradingNames) {
+            if (!existing.tradingNames.some(t => BOERegisterImportService.sameName(t, name))) {
+              existing.tradingNames.push(name);
+            }
+          }
+        } else {
+          byFrn.set(frn, { frn, firmName, tradingNames });
+        }
+      }
+    }
+
+    return { sourceFile, entries: Array.from(byFrn.values()), hasTradingNames, skippedRows };
+  }
+
+  /**
+   * Compare a register file with boe_institutions without writing anything
+   */
+  diff(file: BOERegisterFile): BOERegisterDiff {
+    if (file.entries.length === 0) {
+      throw new Error(`No firms found in ${file.sourceFile} - expected a header row with FRN and firm name columns`);
+    }
+
+    const register = new Map<string, string>();
+    for (const row of this.db.prepare(`SELECT frn, firm_name FROM boe_institutions`).all() as Array<{ frn: string; firm_name: string }>) {
+      register.set(row.frn, row.firm_name);
+    }
+    const incoming = new Map(file.entries.map(entry => [entry.frn, entry]));
+
+    const added: BOEFirmChange[] = [];
+    const removed: BOEFirmChange[] = [];
+    const renamed: BOEFirmChange[] = [];
+
+    for (const entry of file.entries) {
+      const current = register.get(entry.frn);
+      if (current === undefined) {
+        added.push({ frn: entry.frn, firmName: entry.firmName });
+      } else if (!BOERegisterImportService.sameName(current, entry.firmName)) {
+        renamed.push({ frn: entry.frn, firmName: entry.firmName, previousFirmName: current });
+      }
+    }
+    for (const [frn, firmName] of register) {
+      if (!incoming.has(frn)) {
+        removed.push({ frn, firmName });
+      }
+    }
+
+    const frnChanged = this.pairFRNChanges(added, removed);
+    const changedFrom = new Set(frnChanged.map(change => change.previousFrn));
+    const changedTo = new Set(frnChanged.map(change => change.frn));
+
+    const tradingNames = file.hasTradingNames
+      ? this.diffTradingNames(file.entries, register, new Map(frnChanged.map(change => [change.frn, change.previousFrn!])))
+      : { added: [], removed: [], kept: [] };
+
+    const finalRemoved = removed.filter(change => !changedFrom.has(change.frn));
+
+    return {
+      sourceFile: file.sourceFile,
+      firmsInFile: file.entries.length,
+      firmsInRegister: register.size,
+      added: added.filter(change => !changedTo.has(change.frn)),
+      removed: finalRemoved,
+      renamed,
+      frnChanged,
+      tradingNamesAdded: tradingNames.added,
+      tradingNamesRemoved: tradingNames.removed,
+      tradingNamesKept: tradingNames.kept,
+      affectedDeposits: this.findAffectedDeposits(finalRemoved, frnChanged),
+      droppedPreferences: this.countPreferences(finalRemoved.map(change => change.frn)),
+      largeRemoval: finalRemoved.length > Math.max(LARGE_REMOVAL_MIN_FIRMS, register.size * LARGE_REMOVAL_FRACTION)
+    };
+  }
+
+  /**
+   * Apply a diff to the register, record it and flag affected deposits, all
+   * in one transaction
+   */
+  apply(diff: BOERegisterDiff, options: BOERegisterApplyOptions = {}): BOERegisterImportResult {
+    if (diff.largeRemoval && !options.confirmRemovals) {
+      throw new Error(
+        `${diff.sourceFile} removes ${diff.removed.length} of ${diff.firmsInRegister} registered firms - ` +
+        'check it is the complete list, then confirm the removals to apply it'
+      );
+    }
+
+    const tables = this.db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (${IMPORT_TABLES.map(() => '?').join(', ')})
+    `).all(...IMPORT_TABLES) as Array<{ name: string }>;
+    if (tables.length !== IMPORT_TABLES.length) {
+      throw new Error('BoE register import tables missing - run migration 014 first');
+    }
+
+    const run = this.db.transaction((): BOERegisterImportResult => {
+      const importRow = this.db.prepare(`
+        INSERT INTO boe_register_imports (
+          source_file, firms_in_file, added_count, removed_count, renamed_count,
+          frn_changed_count, trading_name_changes, flagged_deposits
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        diff.sourceFile,
+        diff.firmsInFile,
+        diff.added.length,
+        diff.removed.length,
+        diff.renamed.length,
+        diff.frnChanged.length,
+        diff.tradingNamesAdded.length + diff.tradingNamesRemoved.length,
+        diff.affectedDeposits.length
+      );
+      const importId = Number(importRow.lastInsertRowid);
+
+      const recordChange = this.db.prepare(`
+        INSERT INTO boe_register_changes (
+          import_id, change_type, frn, previous_frn, firm_name, previous_firm_name, trading_name
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      const insertFirm = this.db.prepare(`
+        INSERT INTO boe_institutions (frn, firm_name, created_at, updated_at)
+        VALUES (?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      `);
+      const deleteFirm = this.db.prepare(`DELETE FROM boe_institutions WHERE frn = ?`);
+
+      for (const change of diff.added) {
+        insertFirm.run(change.frn, change.firmName);
+        recordChange.run(importId, 'added', change.frn, null, change.firmName, null, null);
+      }
+
+      for (const change of diff.renamed) {
+        this.db.prepare(`
+          UPDATE boe_institutions SET firm_name = ?, updated_at = CURRENT_TIMESTAMP WHERE frn = ?
+        `).run(change.firmName, change.frn);
+        this.db.prepare(`
+          UPDATE boe_shared_brands SET primary_firm_name = ? WHERE primary_frn = ?
+        `).run(change.firmName, change.frn);
+        recordChange.run(importId, 'renamed', change.frn, null, change.firmName, change.previousFirmName, null);
+      }
+
+      for (const change of diff.frnChanged) {
+        // New firm first so everything pointing at the old FRN can move across
+        insertFirm.run(change.frn, change.firmName);
+        this.db.prepare(`
+          UPDATE boe_shared_brands SET primary_frn = ?, primary_firm_name = ? WHERE primary_frn = ?
+        `).run(change.frn, change.firmName, change.previousFrn);
+        this.db.prepare(`UPDATE frn_manual_overrides SET frn = ? WHERE frn = ?`).run(change.frn, change.previousFrn);
+        this.repointPreferences(change.previousFrn!, change.frn);
+        deleteFirm.run(change.previousFrn);
+        recordChange.run(importId, 'frn_changed', change.frn, change.previousFrn, change.firmName, change.previousFirmName, null);
+      }
+
+      for (const change of diff.removed) {
+        const sharedBrands = this.db.prepare(`SELECT * FROM boe_shared_brands WHERE primary_frn = ?`).all(change.frn);
+        const preferences = this.findPreferences(change.frn);
+
+        this.db.prepare(`DELETE FROM boe_shared_brands WHERE primary_frn = ?`).run(change.frn);
+        if (preferences.length > 0) {
+          this.db.prepare(`DELETE FROM institution_preferences WHERE frn = ?`).run(change.frn);
+        }
+        deleteFirm.run(change.frn);
+
+        this.db.prepare(`
+          INSERT INTO boe_register_changes (import_id, change_type, frn, firm_name, removed_rows)
+          VALUES (?, 'removed', ?, ?, ?)
+        `).run(importId, change.frn, change.firmName, JSON.stringify({ sharedBrands, preferences }));
+      }
+
+      for (const change of diff.tradingNamesAdded) {
+        this.db.prepare(`
+          INSERT INTO boe_shared_brands (primary_frn, primary_firm_name, trading_name, brand_type, created_at)
+          VALUES (?, ?, ?, 'trading_name', CURRENT_TIMESTAMP)
+        `).run(change.frn, change.firmName, change.tradingName);
+        recordChange.run(importId, 'trading_name_added', change.frn, null, change.firmName, null, change.tradingName);
+      }
+
+      for (const change of diff.tradingNamesRemoved) {
+        this.db.prepare(`
+          DELETE FROM boe_shared_brands
+          WHERE primary_frn = ? AND brand_type = 'trading_name' AND UPPER(trading_name) = UPPER(?)
+        `).run(change.frn, change.tradingName);
+        recordChange.run(importId, 'trading_name_removed', change.frn, null, change.firmName, null, change.tradingName);
+      }
+
+      const flaggedDeposits = this.flagAffectedDeposits(importId, diff.affectedDeposits);
+
+      return { importId, diff, flaggedDeposits };
+    });
+
+    const result = run();
+    logger.info(
+      `🏦 BoE register import ${result.importId}: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+      `${diff.renamed.length} renamed, ${diff.frnChanged.length} FRN changes, ${result.flaggedDeposits} deposits flagged`
+    );
+    return result;
+  }
+
+  /**
+   * Rebuild frn_lookup_helper_cache so FRN matching sees the updated register
+   */
+  async rebuildLookupCache(): Promise<void> {
+    // loadConfiguration() always rebuilds the cache from the source tables
+    await new FRNMatchingService(this.db).loadConfiguration();
+  }
+
+  /**
+   * Pair removed and added FRNs that are the same firm under a new FRN.
+   * Names that match more than one removed or added firm are left unpaired
+   */
+  private pairFRNChanges(added: BOEFirmChange[], removed: BOEFirmChange[]): BOEFirmChange[] {
+    const group = (changes: BOEFirmChange[]) => {
+      const groups = new Map<string, BOEFirmChange[]>();
+      for (const change of changes) {
+        const key = BOERegisterImportService.firmKey(change.firmName);
+        groups.set(key, [...(groups.get(key) || []), change]);
+      }
+      return groups;
+    };
+
+    const addedByName = group(added);
+    const changes: BOEFirmChange[] = [];
+
+    for (const [key, removedFirms] of group(removed)) {
+      const addedFirms = addedByName.get(key);
+      if (!key || removedFirms.length !== 1 || addedFirms?.length !== 1) continue;
+
+      changes.push({
+        frn: addedFirms[0]!.frn,
+        firmName: addedFirms[0]!.firmName,
+        previousFrn: removedFirms[0]!.frn,
+        previousFirmName: removedFirms[0]!.firmName
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Trading names added to or dropped from firms that remain on the register
+   */
+  private diffTradingNames(
+    entries: BOERegisterEntry[],
+    register: Map<string, string>,
+    previousFrns: Map<string, string>
+  ): { added: BOETradingNameChange[]; removed: BOETradingNameChange[]; kept: BOETradingNameChange[] } {
+    const existing = new Map<string, string[]>();
+    const rows = this.db.prepare(`
+      SELECT primary_frn, trading_name FROM boe_shared_brands WHERE brand_type = 'trading_name'
+    `).all() as Array<{ primary_frn: string; trading_name: string }>;
+    for (const row of rows) {
+      existing.set(row.primary_frn, [...(existing.get(row.primary_frn) || []), row.trading_name]);
+    }
+    const imported = this.findImportedTradingNames();
+
+    const added: BOETradingNameChange[] = [];
+    const removed: BOETradingNameChange[] = [];
+    const kept: BOETradingNameChange[] = [];
+
+    for (const entry of entries) {
+      // New firms get their trading names too; removed firms lose theirs with the firm.
+      // A firm under a new FRN keeps the trading names moved across from its old one
+      const registeredFrn = register.has(entry.frn) ? entry.frn : previousFrns.get(entry.frn);
+      const current = registeredFrn ? existing.get(registeredFrn) || [] : [];
+      for (const name of entry.tradingNames) {
+        if (!current.some(t => BOERegisterImportService.sameName(t, name))) {
+          added.push({ frn: entry.frn, firmName: entry.firmName, tradingName: name });
+        }
+      }
+      const importedForFirm = registeredFrn ? imported.get(registeredFrn) || [] : [];
+      for (const name of current) {
+        if (!entry.tradingNames.some(t => BOERegisterImportService.sameName(t, name))) {
+          const change = { frn: entry.frn, firmName: entry.firmName, tradingName: name };
+          if (importedForFirm.some(t => BOERegisterImportService.sameName(t, name))) {
+            removed.push(change);
+          } else {
+            kept.push(change);
+          }
+        }
+      }
+    }
+
+    return { added, removed, kept };
+  }
+
+  /**
+   * Trading names earlier imports added, by the FRN they are now held under
+   */
+  private findImportedTradingNames(): Map<string, string[]> {
+    const imported = new Map<string, string[]>();
+    const hasChanges = this.db.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'boe_register_changes'
+    `).get();
+    if (!hasChanges) return imported;
+
+    const changes = this.db.prepare(`
+      SELECT change_type, frn, previous_frn, trading_name FROM boe_register_changes
+      WHERE change_type IN ('trading_name_added', 'trading_name_removed', 'frn_changed')
+      ORDER BY id
+    `).all() as Array<{ change_type: string; frn: string; previous_frn: string | null; trading_name: string | null }>;
+    for (const change of changes) {
+      const names = imported.get(change.frn) || [];
+      if (change.change_type === 'trading_name_added') {
+        imported.set(change.frn, [...names, change.trading_name!]);
+      } else if (change.change_type === 'trading_name_removed') {
+        imported.set(change.frn, names.filter(name => !BOERegisterImportService.sameName(name, change.trading_name!)));
+      } else {
+        // Brands move to the new FRN with the firm
+        imported.set(change.frn, [...names, ...(imported.get(change.previous_frn!) || [])]);
+        imported.delete(change.previous_frn!);
+      }
+    }
+    return imported;
+  }
+
+  private findAffectedDeposits(removed: BOEFirmChange[], frnChanged: BOEFirmChange[]): BOEAffectedDeposit[] {
+    const reasons = new Map<string, { reason: 'removed' | 'frn_changed'; newFrn?: string }>();
+    removed.forEach(change => reasons.set(change.frn, { reason: 'removed' }));
+    frnChanged.forEach(change => reasons.set(change.previousFrn!, { reason: 'frn_changed', newFrn: change.frn }));
+    if (reasons.size === 0) return [];
+
+    const frns = Array.from(reasons.keys());
+    const deposits = this.db.prepare(`
+      SELECT id, bank, frn, balance FROM my_deposits
+      WHERE is_active = 1 AND frn IN (${frns.map(() => '?').join(', ')})
+      ORDER BY bank
+    `).all(...frns) as Array<{ id: number; bank: string; frn: string; balance: number }>;
+
+    return deposits.map(deposit => ({
+      depositId: deposit.id,
+      bank: deposit.bank,
+      frn: deposit.frn,
+      balance: deposit.balance,
+      ...reasons.get(deposit.frn)!
+    }));
+  }
+
+  /**
+   * One action item per affected deposit, keyed by import so re-running an
+   * import never duplicates them
+   */
+  private flagAffectedDeposits(importId: number, deposits: BOEAffectedDeposit[]): number {
+    if (deposits.length === 0) return 0;
+
+    try {
+      const insert = this.db.prepare(`
+        INSERT OR IGNORE INTO action_items (
+          action_id, module, title, description,
+          priority, category, timeline, bank,
+          amount_affected, expected_benefit, source_data, status
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      for (const deposit of deposits) {
+        const description = deposit.reason === 'removed'
+          ? `FRN ${deposit.frn} is no longer on the BoE list of deposit takers. Check the firm's status and whether this deposit is still FSCS protected`
+          : `FRN ${deposit.frn} has been replaced by FRN ${deposit.newFrn} on the BoE list of deposit takers. Confirm and update the deposit's FRN`;
+
+        insert.run(
+          `boe-register-${importId}-${deposit.depositId}`,
+          'fscs-compliance',
+          deposit.reason === 'removed'
+            ? `Review: ${deposit.bank} removed from BoE register`
+            : `Review: ${deposit.bank} FRN changed`,
+          description,
+          'HIGH',
+          'COMPLIANCE',
+          'This week',
+          deposit.bank,
+          deposit.balance,
+          null,
+          JSON.stringify({ importId, ...deposit }),
+          'pending'
+        );
+      }
+      return deposits.length;
+    } catch (error) {
+      // action_items might not exist yet - the import still records the affected count
+      logger.warn(`⚠️ Could not flag affected deposits: ${error instanceof Error ? error.message : String(error)}`);
+      return 0;
+    }
+  }
+
+  private countPreferences(frns: string[]): number {
+    if (frns.length === 0) return 0;
+    try {
+      const row = this.db.prepare(`
+        SELECT COUNT(*) as count FROM institution_preferences WHERE frn IN (${frns.map(() => '?').join(', ')})
+      `).get(...frns) as { count: number };
+      return row.count;
+    } catch {
+      // institution_preferences might not exist yet - nothing to drop
+      return 0;
+    }
+  }
+
+  private repointPreferences(previousFrn: string, frn: string): void {
+    try {
+      this.db.prepare(`UPDATE institution_preferences SET frn = ? WHERE frn = ?`).run(frn, previousFrn);
+    } catch {
+      // institution_preferences might not exist yet - nothing to move
+    }
+  }
+
+  private findPreferences(frn: string): unknown[] {
+    try {
+      return this.db.prepare(`SELECT * FROM institution_preferences WHERE frn = ?`).all(frn);
+    } catch {
+      // institution_preferences might not exist yet - nothing to drop
+      return [];
+    }
+  }
+
+  /**
+   * Header columns of a register sheet, or null if the row is not a header
+   */
+  private static findColumns(row: string[]): { frn: number; firmName: number; tradingNames?: number } | null {
+    const cells = row.map(cell => cell.toLowerCase().replace(/\s+/g, ' ').trim());
+    const frn = cells.findIndex(cell => cell === 'frn' || cell.includes('firm reference number'));
+    const firmName = cells.findIndex(cell =>
+      !cell.includes('trading') && (cell === 'name' || cell.includes('firm name') || cell.includes('institution') || cell.includes('bank name'))
+    );
+    if (frn < 0 || firmName < 0) return null;
+
+    const tradingNames = cells.findIndex(cell => cell.includes('trading name'));
+    return tradingNames >= 0 ? { frn, firmName, tradingNames } : { frn, firmName };
+  }
+
+  /**
+   * Names equal ignoring case, spacing and punctuation
+   */
+  private static sameName(a: string, b: string): boolean {
+    const normalize = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Firm name without punctuation or legal form, for pairing FRN changes
+   */
+  private static firmKey(name: string): string {
+    return name.toUpperCase().replace(/&/g, ' AND ').replace(/[^A-Z0-9]+/g, ' ').replace(LEGAL_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
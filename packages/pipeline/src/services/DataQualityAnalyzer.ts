@@ -1,5 +1,6 @@
 import * as Database from 'better-sqlite3';
 import { logger } from '../utils/PipelineLogger';
+import { RateAnomaly, RateAnomalyType } from './RateAnomalyDetector';
 import {
   RulesBasedModule,
   ConfigCategory,
@@ -17,6 +18,7 @@ import {
  * - Data integrity validation
  * - Deduplication effectiveness assessment
  * - Anomaly detection (outliers, inconsistencies)
+ * - Statistical rate anomalies from RateAnomalyDetector, stored per product
  * - Actionable recommendations
  * - Historical quality tracking
  */
@@ -72,7 +74,7 @@ export interface DeduplicationAnalysis {
 }
 
 export interface QualityAnomaly {
-  type: 'high_rate' | 'duplicate_frn' | 'missing_frn' | 'unusual_platform' | 'rate_outlier' | 'processing_time';
+  type: 'high_rate' | 'duplicate_frn' | 'missing_frn' | 'unusual_platform' | 'rate_outlier' | 'processing_time' | RateAnomalyType;
   severity: 'low' | 'medium' | 'high';
   description: string;
   affectedProducts: number;
@@ -94,6 +96,7 @@ export interface DataQualityReport {
 
   // Issues and recommendations
   anomalies: QualityAnomaly[];
+  rateAnomalies: RateAnomaly[]; // Per product/platform detail behind the rate anomaly summaries
   recommendations: string[];
 
   // Summary scoring
@@ -207,8 +210,9 @@ export class DataQualityAnalyzer {
 
   /**
    * Main entry point - analyze complete pipeline quality
+   * rateAnomalies are those RateAnomalyDetector found before persistence
    */
-  async analyzePipeline(): Promise<DataQualityReport> {
+  async analyzePipeline(rateAnomalies: RateAnomaly[] = []): Promise<DataQualityReport> {
     const analysisStart = Date.now();
 
     if (this.config.verbose) {
@@ -223,10 +227,10 @@ export class DataQualityAnalyzer {
 
       // Advanced analysis
       const anomalies = this.config.enableAnomalyDetection
-        ? await this.detectAnomalies(pipeline, dataIntegrity, deduplication)
+        ? await this.detectAnomalies(pipeline, dataIntegrity, deduplication, rateAnomalies)
         : [];
 
-      const recommendations = this.generateRecommendations(pipeline, dataIntegrity, deduplication, anomalies);
+      const recommendations = this.generateRecommendations(pipeline, dataIntegrity, deduplication, anomalies, rateAnomalies);
 
       // Calculate scoring
       const scores = this.calculateQualityScores(pipeline, dataIntegrity, deduplication, anomalies);
@@ -241,6 +245,7 @@ export class DataQualityAnalyzer {
         dataIntegrity,
         deduplication,
         anomalies,
+        rateAnomalies: this.config.enableAnomalyDetection ? rateAnomalies : [],
         recommendations,
 
         overallScore: scores.overall,
@@ -565,7 +570,8 @@ export class DataQualityAnalyzer {
   private async detectAnomalies(
     pipeline: PipelineFlowAnalysis,
     integrity: DataIntegrityAnalysis,
-    deduplication: DeduplicationAnalysis
+    deduplication: DeduplicationAnalysis,
+    rateAnomalies: RateAnomaly[]
   ): Promise<QualityAnomaly[]> {
     const anomalies: QualityAnomaly[] = [];
 
@@ -616,6 +622,49 @@ export class DataQualityAnalyzer {
       });
     }
 
+    // Statistical rate anomalies, one summary per type so many products don't swamp the score
+    anomalies.push(...this.summarizeRateAnomalies(rateAnomalies, pipeline.finalCount));
+
+    return anomalies;
+  }
+
+  private summarizeRateAnomalies(rateAnomalies: RateAnomaly[], finalCount: number): QualityAnomaly[] {
+    const summaries: Record<RateAnomalyType, {subject: string; recommendation: string}> = {
+      rate_jump: {
+        subject: 'products with rates far beyond their own history',
+        recommendation: 'Check the listed rates against the provider before relying on them'
+      },
+      cross_platform_spread: {
+        subject: 'products quoted very differently across platforms',
+        recommendation: 'Compare the quotes on each platform for scraping or parsing errors'
+      },
+      product_count_collapse: {
+        subject: 'platforms whose product count collapsed',
+        recommendation: 'Check the affected scrapers - a collapse usually means a page layout change'
+      },
+      term_inversion: {
+        subject: 'fixed terms inverted against the market curve',
+        recommendation: 'Check the term lengths parsed for these products'
+      }
+    };
+
+    const anomalies: QualityAnomaly[] = [];
+    for (const type of Object.keys(summaries) as RateAnomalyType[]) {
+      const ofType = rateAnomalies.filter(a => a.type === type);
+      if (ofType.length === 0) continue;
+
+      const quarantined = ofType.filter(a => a.quarantined).length;
+      const affectedProducts = type === 'product_count_collapse' ? 0 : ofType.length;
+      anomalies.push({
+        type,
+        severity: ofType.some(a => a.severity === 'high') ? 'high' : 'medium',
+        description: `${ofType.length} ${summaries[type].subject}${quarantined > 0 ? ` (${quarantined} quarantined)` : ''}`,
+        affectedProducts,
+        affectedPercentage: finalCount > 0 ? (affectedProducts / finalCount) * 100 : 0,
+        recommendation: summaries[type].recommendation,
+        actualValue: ofType.length
+      });
+    }
     return anomalies;
   }
 
@@ -626,7 +675,8 @@ export class DataQualityAnalyzer {
     pipeline: PipelineFlowAnalysis,
     integrity: DataIntegrityAnalysis,
     deduplication: DeduplicationAnalysis,
-    anomalies: QualityAnomaly[]
+    anomalies: QualityAnomaly[],
+    rateAnomalies: RateAnomaly[]
   ): string[] {
     const recommendations: string[] = [];
 
@@ -656,6 +706,11 @@ export class DataQualityAnalyzer {
       recommendations.push(`Address ${criticalAnomalies.length} critical anomalies immediately`);
     }
 
+    // Collapsed platforms point at a specific scraper
+    for (const collapse of rateAnomalies.filter(a => a.type === 'product_count_collapse')) {
+      recommendations.push(`Check the ${collapse.platform} scraper - ${collapse.actualValue} products against ${Math.round(collapse.baselineValue)} recently`);
+    }
+
     return recommendations;
   }
 
@@ -821,6 +876,8 @@ export class DataQualityAnalyzer {
         JSON.stringify(report.configSnapshot)
       );
 
+      this.storeRateAnomalies(report);
+
       if (this.config.verbose) {
         logger.debug(`💾 Data quality report stored for batch ${report.batchId}`);
       }
@@ -830,6 +887,40 @@ export class DataQualityAnalyzer {
     }
   }
 
+  /**
+   * Store the per product rate anomalies alongside the report (a rerun of the batch replaces them)
+   */
+  private storeRateAnomalies(report: DataQualityReport): void {
+    try {
+      const insert = this.db.prepare(`
+        INSERT INTO data_quality_anomalies (
+          batch_id, anomaly_type, severity, platform, bank_name, business_key, frn,
+          actual_value, baseline_value, description, quarantined
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      this.db.prepare(`DELETE FROM data_quality_anomalies WHERE batch_id = ?`).run(report.batchId);
+      for (const anomaly of report.rateAnomalies) {
+        insert.run(
+          report.batchId,
+          anomaly.type,
+          anomaly.severity,
+          anomaly.platform,
+          anomaly.bankName || null,
+          anomaly.businessKey || null,
+          anomaly.frn || null,
+          anomaly.actualValue,
+          anomaly.baselineValue,
+          anomaly.description,
+          anomaly.quarantined ? 1 : 0
+        );
+      }
+    } catch (error) {
+      // Table might not exist yet (migration 016) - the report keeps them in full_report
+      logger.warn('Failed to store rate anomalies:', error);
+    }
+  }
+
   /**
    * Output detailed console report
    */
@@ -875,6 +966,9 @@ export class DataQualityAnalyzer {
         const icon = anomaly.severity === 'high' ? '🔴' : anomaly.severity === 'medium' ? '⚠' : 'ℹ';
         logger.info(`${icon} [${anomaly.severity.toUpperCase()}] ${anomaly.description}`);
       });
+      report.rateAnomalies.forEach(anomaly => {
+        logger.info(`   - ${anomaly.description}${anomaly.quarantined ? ' [QUARANTINED]' : ''}`);
+      });
     }
 
     if (report.recommendations.length > 0) {
@@ -1275,7 +1275,7 @@ export class DeduplicationService extends EventEmitter {
    */
   private persistBusinessKeysToRaw(enrichedProducts: Array<{bankName: string, platform: string, accountType: string, aerRate: number, businessKey: string}>): void {
     if (!enrichedProducts.length) {
-      console.log(`⚠️ No products to persist business keys for`);
+      logger.warn(`⚠️ No products to persist business keys for`);
       return;
     }
 
@@ -0,0 +1,121 @@
+/**
+ * FRN Match Index
+ *
+ * In-memory trigram index over frn_lookup_helper search names for fuzzy FRN
+ * matching. A lookup gathers the entries sharing the most trigrams with the
+ * name, then re-ranks that small pool with the caller's similarity scorer,
+ * so each product compares against a few dozen names rather than every
+ * institution.
+ */
+
+export interface FRNIndexEntry {
+  frn: string;
+  canonicalName: string;
+  searchName: string;
+  matchType?: string;
+  key: string; // Name normalized for similarity (no spaces)
+}
+
+export interface FRNMatchCandidate extends FRNIndexEntry {
+  score: number;   // Scorer similarity, 0-1
+  overlap: number; // Trigram Dice coefficient, 0-1
+}
+
+export class FRNMatchIndex {
+  private entries: FRNIndexEntry[] = [];
+  private trigramCounts: number[] = [];
+  private postings = new Map<string, number[]>();
+
+  /**
+   * @param scorer Similarity between two normalized keys, 0-1
+   * @param poolSize Entries re-ranked by the scorer for each lookup
+   */
+  constructor(
+    private scorer: (a: string, b: string) => number,
+    private poolSize: number = 50
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Replace the index contents
+   */
+  build(entries: FRNIndexEntry[]): void {
+    this.entries = [];
+    this.trigramCounts = [];
+    this.postings.clear();
+
+    for (const entry of entries) {
+      if (!entry.key) continue;
+      const id = this.entries.length;
+      const trigrams = FRNMatchIndex.trigrams(entry.key);
+      this.entries.push(entry);
+      this.trigramCounts.push(trigrams.size);
+      for (const trigram of trigrams) {
+        const list = this.postings.get(trigram);
+        if (list) {
+          list.push(id);
+        } else {
+          this.postings.set(trigram, [id]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Closest entries to a normalized key, best first, at most one per FRN
+   */
+  search(key: string, limit: number): FRNMatchCandidate[] {
+    if (!key || limit <= 0 || this.entries.length === 0) return [];
+
+    const trigrams = FRNMatchIndex.trigrams(key);
+    const shared = new Map<number, number>();
+    for (const trigram of trigrams) {
+      for (const id of this.postings.get(trigram) || []) {
+        shared.set(id, (shared.get(id) || 0) + 1);
+      }
+    }
+
+    const pool = Array.from(shared, ([id, count]) => ({
+      id,
+      overlap: (2 * count) / (trigrams.size + this.trigramCounts[id]!)
+    }))
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, this.poolSize);
+
+    const ranked = pool
+      .map(({ id, overlap }) => {
+        const entry = this.entries[id]!;
+        return { ...entry, score: this.scorer(key, entry.key), overlap };
+      })
+      .sort((a, b) =>
+        b.score - a.score ||
+        b.overlap - a.overlap ||
+        a.key.length - b.key.length // Shorter names win ties, as the full scan did
+      );
+
+    const seenFRNs = new Set<string>();
+    const candidates: FRNMatchCandidate[] = [];
+    for (const candidate of ranked) {
+      if (seenFRNs.has(candidate.frn)) continue;
+      seenFRNs.add(candidate.frn);
+      candidates.push(candidate);
+      if (candidates.length >= limit) break;
+    }
+    return candidates;
+  }
+
+  /**
+   * Character trigrams of a key, padded so short names and word ends still index
+   */
+  static trigrams(key: string): Set<string> {
+    const padded = `  ${key} `;
+    const trigrams = new Set<string>();
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.add(padded.substring(i, i + 3));
+    }
+    return trigrams;
+  }
+}
@@ -15,6 +15,7 @@ import { DatabaseValidator } from '@cash-mgmt/shared';
 import { EnhancedLogger } from '@cash-mgmt/shared';
 import { logger } from '../utils/PipelineLogger';
 import { FRNMatchingConfig, FRNConfigurationError } from '../types/FRNMatchingConfig';
+import { FRNMatchIndex, FRNMatchCandidate } from './FRNMatchIndex';
 
 // Pipeline-aligned types (import from actual pipeline types when available)
 export interface ParsedProduct {
@@ -117,13 +118,16 @@ export class FRNMatchingService extends EventEmitter {
   private config: FRNMatchingConfig;
   private currentBatchId: string = '';
 
+  // Trigram index over frn_lookup_helper, built with the cache
+  private fuzzyIndex: FRNMatchIndex;
+
   // Prepared statements for performance
   private stmts: {
     exactMatch: Database.Statement;
     fuzzyMatch: Database.Statement;
     aliasMatch: Database.Statement;
     insertResearch: Database.Statement;
-    allBanksForFuzzy: Database.Statement;
+    researchHasCandidates: boolean;
   } | null = null;
 
   constructor(db: Database.Database) {
@@ -136,12 +140,15 @@ export class FRNMatchingService extends EventEmitter {
     this.config = null as any; // Will be set in loadConfiguration()
 
     // Initialize logger with default level (will be updated after config load)
+    // and the pipeline logger's stream, so JSON-lines progress keeps stdout to itself
     this.logger = new EnhancedLogger({
       componentName: 'FRN-Matching',
       logLevel: 'info' as any,
-      verboseMode: false
+      verboseMode: false,
+      useStderr: logger.isLoggingToStderr()
     });
 
+    this.fuzzyIndex = new FRNMatchIndex((a, b) => this.levenshteinRatio(a, b));
   }
 
   /**
@@ -232,6 +239,7 @@ export class FRNMatchingService extends EventEmitter {
           case 'research_queue_max_size':
           case 'timeout_ms':
           case 'max_concurrent_lookups':
+          case 'fuzzy_candidate_count':
             const numValue = parseFloat(value);
             if (isNaN(numValue)) {
               throw new FRNConfigurationError(`Invalid number value for ${key}: ${value}`, key);
@@ -272,6 +280,11 @@ export class FRNMatchingService extends EventEmitter {
       }
     }
 
+    // Candidate count was added after the original configuration set
+    if (config.fuzzyCandidateCount === undefined) {
+      config.fuzzyCandidateCount = 3;
+    }
+
     // Validate all required parameters are present and valid
     this.validateConfiguration(config as FRNMatchingConfig);
 
@@ -305,6 +318,10 @@ export class FRNMatchingService extends EventEmitter {
       throw new FRNConfigurationError('exact_match_confidence must be between 0 and 1', 'exact_match_confidence');
     }
 
+    if (config.fuzzyCandidateCount < 1) {
+      throw new FRNConfigurationError('fuzzy_candidate_count must be >= 1', 'fuzzy_candidate_count');
+    }
+
     if (config.confidenceThresholdHigh < config.confidenceThresholdLow) {
       throw new FRNConfigurationError('confidence_threshold_high must be >= confidence_threshold_low', 'confidence_threshold_high');
     }
@@ -357,6 +374,16 @@ export class FRNMatchingService extends EventEmitter {
     return (longer.length - distance) / longer.length;
   }
 
+  /**
+   * Levenshtein similarity without the edit distance limit
+   * Ranks fuzzy candidates, including those too far apart to match
+   */
+  private levenshteinRatio(str1: string, str2: string): number {
+    const longest = Math.max(str1.length, str2.length);
+    if (longest === 0) return 1.0;
+    return (longest - this.levenshteinDistance(str1, str2)) / longest;
+  }
+
   /**
    * Calculate Levenshtein distance between two strings
    */
@@ -770,52 +797,61 @@ export class FRNMatchingService extends EventEmitter {
   }
 
   /**
-   * Find fuzzy match using Levenshtein distance similarity
+   * Find fuzzy match among the closest candidates from the trigram index
    */
   private findFuzzyMatch(normalizedBankName: string): FRNLookupRecord & { source: string } | null {
     try {
-      if (!this.stmts) return null;
-
-      // Get ALL banks from frn_lookup_helper and use Levenshtein distance for matching
-      // This eliminates space-sensitivity issues with LIKE patterns
-      const allBanks = this.stmts.allBanksForFuzzy.all() as any[];
-
-      let bestMatch: any = null;
-      let bestSimilarity = 0;
-
-      for (const bank of allBanks) {
-        // Use space-insensitive normalization for similarity comparison
-        const inputForSimilarity = this.normalizeForSimilarity(normalizedBankName);
-        const dbForSimilarity = this.normalizeForSimilarity(bank.search_name);
-        const similarity = this.calculateSimilarity(inputForSimilarity, dbForSimilarity);
-
-        // Keep track of the best match that exceeds our threshold
-        if (similarity >= this.config.fuzzyThreshold && similarity > bestSimilarity) {
-          bestMatch = bank;
-          bestSimilarity = similarity;
+      const inputForSimilarity = this.normalizeForSimilarity(normalizedBankName);
+
+      // Candidates are ranked by similarity ignoring the edit distance limit;
+      // the best one within the limit and above the threshold is the match
+      for (const candidate of this.findFuzzyCandidates(inputForSimilarity)) {
+        const similarity = this.calculateSimilarity(inputForSimilarity, candidate.key);
+        if (similarity >= this.config.fuzzyThreshold) {
+          return {
+            frn: candidate.frn,
+            bankName: candidate.canonicalName,
+            tradingName: candidate.canonicalName,
+            isActive: true,
+            fscsProtected: true,
+            confidence: similarity * this.config.fuzzyMatchConfidence,
+            source: 'FUZZY'
+          };
         }
-
-        // Early exit for perfect matches
-        if (bestSimilarity >= 0.99) break;
-      }
-
-      if (bestMatch) {
-        return {
-          frn: bestMatch.frn,
-          bankName: bestMatch.canonical_name,
-          tradingName: bestMatch.canonical_name,
-          isActive: true,
-          fscsProtected: true,
-          confidence: bestSimilarity * this.config.fuzzyMatchConfidence,
-          source: 'FUZZY'
-        };
       }
     } catch (error) {
-      this.logger.error(`Fuzzy match query failed: ${error}`);
+      this.logger.error(`Fuzzy match lookup failed: ${error}`);
     }
     return null;
   }
 
+  /**
+   * Closest institutions to a similarity-normalized name, best first
+   */
+  private findFuzzyCandidates(inputForSimilarity: string): FRNMatchCandidate[] {
+    return this.fuzzyIndex.search(inputForSimilarity, this.config.fuzzyCandidateCount);
+  }
+
+  /**
+   * Build the fuzzy index from the rank-1 lookup helper entries
+   */
+  private buildFuzzyIndex(): void {
+    const rows = this.db.prepare(`
+      SELECT frn, canonical_name, search_name, match_type
+      FROM frn_lookup_helper
+      WHERE match_rank = 1
+      ORDER BY LENGTH(search_name)
+    `).all() as Array<{ frn: string; canonical_name: string; search_name: string; match_type: string }>;
+
+    this.fuzzyIndex.build(rows.map(row => ({
+      frn: row.frn,
+      canonicalName: row.canonical_name,
+      searchName: row.search_name,
+      matchType: row.match_type,
+      key: this.normalizeForSimilarity(row.search_name)
+    })));
+  }
+
 
   /**
    * Normalize bank name for matching using configurable rules
@@ -930,13 +966,18 @@ export class FRNMatchingService extends EventEmitter {
 
       const wasNew = (existing?.count || 0) === 0;
 
-      // Insert or update with product count
-      this.stmts.insertResearch.run(
+      const params: Array<string | null> = [
         originalBankName,    // bank_name (use original, not normalized)
         'pipeline',         // platform
         'frn_matching',     // source
         new Date().toISOString() // first_seen
-      );
+      ];
+      if (this.stmts.researchHasCandidates) {
+        params.push(this.describeCandidates(normalizedBankName));
+      }
+
+      // Insert or update with product count
+      this.stmts.insertResearch.run(...params);
 
       return wasNew;
     } catch (error) {
@@ -946,10 +987,28 @@ export class FRNMatchingService extends EventEmitter {
     }
   }
 
+  /**
+   * Closest institutions for the research queue, as JSON (null when there are none)
+   */
+  private describeCandidates(normalizedBankName: string): string | null {
+    const candidates = this.findFuzzyCandidates(this.normalizeForSimilarity(normalizedBankName));
+    if (candidates.length === 0) return null;
+
+    return JSON.stringify(candidates.map(candidate => ({
+      frn: candidate.frn,
+      name: candidate.canonicalName,
+      score: Math.round(candidate.score * 100) / 100
+    })));
+  }
+
   /**
    * Prepare SQL statements for performance
    */
   private prepareStatements(): void {
+    // candidate_matches arrives with migration 013
+    const researchColumns = this.db.prepare(`PRAGMA table_info(frn_research_queue)`).all() as Array<{ name: string }>;
+    const researchHasCandidates = researchColumns.some(column => column.name === 'candidate_matches');
+
     this.stmts = {
       exactMatch: this.db.prepare(`
         SELECT frn, canonical_name as bank_name, canonical_name as trading_name, 1 as is_active, 1 as fscs_protected, match_type, confidence_score
@@ -965,13 +1024,6 @@ export class FRNMatchingService extends EventEmitter {
         LIMIT 1
       `),
 
-      allBanksForFuzzy: this.db.prepare(`
-        SELECT frn, canonical_name, search_name, match_type
-        FROM frn_lookup_helper
-        WHERE match_rank = 1
-        ORDER BY LENGTH(search_name)
-      `),
-
       aliasMatch: this.db.prepare(`
         SELECT frn, canonical_name as bank_name, canonical_name as trading_name, 1 as is_active, 1 as fscs_protected, match_type
         FROM frn_lookup_helper
@@ -979,14 +1031,26 @@ export class FRNMatchingService extends EventEmitter {
         LIMIT 1
       `),
 
-      insertResearch: this.db.prepare(`
-        INSERT INTO frn_research_queue
-        (bank_name, platform, source, product_count, first_seen)
-        VALUES (?, ?, ?, 1, ?)
-        ON CONFLICT(bank_name) DO UPDATE SET
-          product_count = product_count + 1,
-          last_seen = CURRENT_TIMESTAMP
-      `)
+      insertResearch: researchHasCandidates
+        ? this.db.prepare(`
+          INSERT INTO frn_research_queue
+          (bank_name, platform, source, product_count, first_seen, candidate_matches)
+          VALUES (?, ?, ?, 1, ?, ?)
+          ON CONFLICT(bank_name) DO UPDATE SET
+            product_count = product_count + 1,
+            last_seen = CURRENT_TIMESTAMP,
+            candidate_matches = excluded.candidate_matches
+        `)
+        : this.db.prepare(`
+          INSERT INTO frn_research_queue
+          (bank_name, platform, source, product_count, first_seen)
+          VALUES (?, ?, ?, 1, ?)
+          ON CONFLICT(bank_name) DO UPDATE SET
+            product_count = product_count + 1,
+            last_seen = CURRENT_TIMESTAMP
+        `),
+
+      researchHasCandidates
     };
   }
 
@@ -1076,10 +1140,13 @@ export class FRNMatchingService extends EventEmitter {
       // Rank entries by priority
       this.rankCacheEntries();
 
+      // Index the rank-1 names for fuzzy matching
+      this.buildFuzzyIndex();
+
       const count = this.db.prepare('SELECT COUNT(*) as count FROM frn_lookup_helper_cache').get() as { count: number };
       const elapsed = Date.now() - startTime;
 
-      console.log(`✅ FRN lookup cache rebuilt: ${count.count} entries (${elapsed}ms)`);
+      logger.info(`✅ FRN lookup cache rebuilt: ${count.count} entries, ${this.fuzzyIndex.size} indexed for fuzzy matching (${elapsed}ms)`);
     } catch (error) {
       this.logger.error(`Failed to rebuild lookup helper cache: ${error}`);
       throw error;
@@ -1145,12 +1212,19 @@ export class FRNMatchingService extends EventEmitter {
 
   /**
    * Generate cache entries from boe_shared_brands
+   * A brand with a separate licence (migration 015) matches its own FRN, not the group's,
+   * and the group's until its own FRN is known
    */
   private generateSharedBrandEntries(): void {
+    const columns = this.db.prepare(`PRAGMA table_info(boe_shared_brands)`).all() as Array<{ name: string }>;
+    const licenceFRN = columns.some(column => column.name === 'licence_type')
+      ? `CASE WHEN sb.licence_type = 'separate' THEN COALESCE(sb.licence_frn, sb.primary_frn) ELSE sb.primary_frn END`
+      : 'sb.primary_frn';
+
     const brands = this.db.prepare(`
       SELECT DISTINCT sb.trading_name, boe.frn, boe.firm_name
       FROM boe_shared_brands sb
-      JOIN boe_institutions boe ON sb.primary_frn = boe.frn
+      JOIN boe_institutions boe ON boe.frn = ${licenceFRN}
       WHERE UPPER(sb.trading_name) != UPPER(boe.firm_name)
     `).all() as Array<{ trading_name: string; frn: string; firm_name: string }>;
 
@@ -0,0 +1,464 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProductData, InvalidProduct } from './JSONIngestionService';
+import { parseCsv } from '../utils/SpreadsheetReader';
+import { logger } from '../utils/PipelineLogger';
+
+/**
+ * Ingestion Adapters
+ *
+ * JSON ingestion validates ProductData records with source/method metadata.
+ * An adapter turns one input file into that shape, so sources other than our
+ * scrapers (CSV exports, saved best buy tables, third-party JSON feeds) can be
+ * ingested without changes to JSONIngestionService. Records an adapter cannot
+ * map are returned as InvalidProduct entries and reported with the products
+ * the ingestion rules reject.
+ */
+
+export interface AdapterContext {
+  filePath: string;
+  fileName: string;
+  modifiedAt: string;            // ISO timestamp, used as scrapedAt when records carry none
+}
+
+export interface AdaptedFile {
+  adapter: string;
+  metadata: {
+    source: string;
+    method: string;
+  };
+  products: ProductData[];
+  rejected: InvalidProduct[];
+}
+
+export interface IngestionAdapter {
+  readonly name: string;
+  /** Filenames this adapter handles */
+  readonly filePattern?: RegExp;
+  /** Whether content is in this adapter's format, checked when no filename pattern matches */
+  canParse?(content: string, context: AdapterContext): boolean;
+  parse(content: string, context: AdapterContext): AdaptedFile;
+}
+
+/**
+ * Field mapping for a third-party JSON schema (json_ingestion_custom_adapters)
+ */
+export interface MappedJSONAdapterConfig {
+  name: string;
+  source: string;
+  method?: string;
+  filePattern?: string;          // Regular expression matched against the filename
+  productsPath?: string;         // Dotted path to the record array; the document itself when omitted
+  platform?: string;             // Platform for records without a mapped platform
+  fields: Partial<Record<ProductField, string>>;  // ProductData field -> dotted path within a record
+}
+
+type ProductField =
+  | 'bankName' | 'platform' | 'accountType' | 'aerRate' | 'grossRate'
+  | 'termMonths' | 'noticePeriodDays' | 'minDeposit' | 'maxDeposit' | 'fscsProtected'
+  | 'interestPaymentFrequency' | 'applyByDate' | 'specialFeatures' | 'scrapedAt';
+
+/**
+ * Column headings recognised in CSV exports and HTML tables, after normalizeHeading
+ */
+const HEADING_ALIASES: Record<ProductField, string[]> = {
+  bankName: ['bank', 'bank name', 'provider', 'institution', 'account provider'],
+  platform: ['platform'],
+  accountType: ['account type', 'type', 'product type', 'account'],
+  aerRate: ['aer', 'aer rate', 'aer %', 'rate', 'interest rate'],
+  grossRate: ['gross', 'gross rate', 'gross %'],
+  termMonths: ['term', 'term months', 'fixed term'],
+  noticePeriodDays: ['notice', 'notice period', 'notice days', 'notice period days'],
+  minDeposit: ['min deposit', 'minimum deposit', 'min', 'minimum'],
+  maxDeposit: ['max deposit', 'maximum deposit', 'max', 'maximum'],
+  fscsProtected: ['fscs', 'fscs protected'],
+  interestPaymentFrequency: ['interest paid', 'interest frequency', 'interest payment frequency'],
+  applyByDate: ['apply by', 'apply by date', 'closes'],
+  specialFeatures: ['features', 'special features', 'notes'],
+  scrapedAt: ['scraped at', 'scrape date']
+};
+
+export class IngestionAdapterRegistry {
+  private adapters: IngestionAdapter[] = [];
+
+  /**
+   * Register an adapter; later registrations are checked first, and one
+   * with the same name as an existing adapter replaces it
+   */
+  register(adapter: IngestionAdapter): void {
+    this.adapters = [adapter, ...this.adapters.filter(existing => existing.name !== adapter.name)];
+  }
+
+  get(name: string): IngestionAdapter | undefined {
+    return this.adapters.find(adapter => adapter.name === name);
+  }
+
+  list(): string[] {
+    return this.adapters.map(adapter => adapter.name);
+  }
+
+  /**
+   * Choose the adapter for a file: one named by the file's metadata.adapter,
+   * then the first whose filename pattern matches, then the first that
+   * recognises the content
+   */
+  select(content: string, context: AdapterContext): IngestionAdapter {
+    const named = readJSON(content)?.metadata?.adapter;
+    if (typeof named === 'string') {
+      const adapter = this.get(named);
+      if (!adapter) {
+        throw new Error(`Unknown ingestion adapter '${named}' in ${context.fileName} - registered: ${this.list().join(', ')}`);
+      }
+      return adapter;
+    }
+
+    const byName = this.adapters.find(adapter => adapter.filePattern?.test(context.fileName));
+    if (byName) return byName;
+
+    const byContent = this.adapters.find(adapter => adapter.canParse?.(content, context));
+    if (byContent) return byContent;
+
+    throw new Error(`No ingestion adapter recognises ${context.fileName} - registered: ${this.list().join(', ')}`);
+  }
+
+  /**
+   * Read a file and map it to ProductData with the selected adapter
+   */
+  async read(filePath: string): Promise<AdaptedFile> {
+    const [content, stat] = await Promise.all([
+      fs.promises.readFile(filePath, 'utf8'),
+      fs.promises.stat(filePath)
+    ]);
+    const context: AdapterContext = {
+      filePath,
+      fileName: path.basename(filePath),
+      modifiedAt: stat.mtime.toISOString()
+    };
+
+    const adapter = this.select(content, context);
+    const adapted = adapter.parse(content, context);
+    logger.debug(`📄 ${context.fileName}: ${adapter.name} adapter mapped ${adapted.products.length} products (${adapted.rejected.length} rejected)`);
+    return adapted;
+  }
+}
+
+/**
+ * Registry with the built-in adapters; scraper output is matched before the others
+ */
+export function createDefaultAdapterRegistry(): IngestionAdapterRegistry {
+  const registry = new IngestionAdapterRegistry();
+  registry.register(new BestBuyTableAdapter());
+  registry.register(new CSVProductAdapter());
+  registry.register(new ScraperJSONAdapter());
+  return registry;
+}
+
+/**
+ * Normalized scraper output: {metadata: {source, method}, products: ProductData[]}
+ */
+export class ScraperJSONAdapter implements IngestionAdapter {
+  readonly name = 'scraper-json';
+  readonly filePattern = /-normalized-.*\.json$/i;
+
+  // Any JSON with metadata or products, so malformed scraper output is reported as such
+  canParse(content: string): boolean {
+    const data = readJSON(content);
+    return !!data && typeof data === 'object' && ('metadata' in data || 'products' in data);
+  }
+
+  parse(content: string, context: AdapterContext): AdaptedFile {
+    const data = JSON.parse(content);
+
+    if (!data.metadata || !data.metadata.source || !data.metadata.method) {
+      throw new Error(`Invalid JSON file format: missing metadata in ${context.fileName}`);
+    }
+
+    if (!Array.isArray(data.products)) {
+      throw new Error(`Invalid JSON file format: products must be an array in ${context.fileName}`);
+    }
+
+    return {
+      adapter: this.name,
+      metadata: { source: data.metadata.source, method: data.metadata.method },
+      products: data.products,
+      rejected: []
+    };
+  }
+}
+
+/**
+ * CSV export with a heading row, one product per row
+ * The source is the filename up to its first '-' or '_' (moneysavers-export.csv -> moneysavers)
+ */
+export class CSVProductAdapter implements IngestionAdapter {
+  readonly name = 'csv';
+  readonly filePattern = /\.csv$/i;
+
+  parse(content: string, context: AdapterContext): AdaptedFile {
+    const [headings, ...rows] = parseCsv(content);
+    if (!headings) {
+      throw new Error(`Empty CSV file: ${context.fileName}`);
+    }
+
+    const records = rows.map(row => Object.fromEntries(headings.map((heading, i) => [heading, (row[i] ?? '').trim()])));
+    return mapTabularRecords(this.name, sourceFromFileName(context.fileName), 'csv-export', headings, records, context);
+  }
+}
+
+/**
+ * HTML page saved from a best buy table; the first table whose headings
+ * include a bank and an AER is read, one product per row
+ * The source is the filename up to its first '-' or '_'
+ */
+export class BestBuyTableAdapter implements IngestionAdapter {
+  readonly name = 'best-buy-html';
+  readonly filePattern = /\.html?$/i;
+
+  parse(content: string, context: AdapterContext): AdaptedFile {
+    for (const table of content.match(/<table[\s\S]*?<\/table>/gi) || []) {
+      const rows = (table.match(/<tr[\s\S]*?<\/tr>/gi) || [])
+        .map(row => (row.match(/<t[hd][^>]*>[\s\S]*?<\/t[hd]>/gi) || []).map(cell => htmlText(cell)))
+        .filter(cells => cells.length > 0);
+
+      const [headings, ...body] = rows;
+      if (!headings) continue;
+
+      const fields = mapHeadings(headings);
+      if (!fields.has('bankName') || !fields.has('aerRate')) continue;
+
+      const records = body.map(cells => Object.fromEntries(headings.map((heading, i) => [heading, cells[i] ?? ''])));
+      return mapTabularRecords(this.name, sourceFromFileName(context.fileName), 'html-best-buy-table', headings, records, context);
+    }
+
+    throw new Error(`No best buy table (with bank and AER columns) found in ${context.fileName}`);
+  }
+}
+
+/**
+ * Third-party JSON schema mapped field by field to ProductData
+ */
+export class MappedJSONAdapter implements IngestionAdapter {
+  readonly name: string;
+  readonly filePattern?: RegExp;
+
+  constructor(private config: MappedJSONAdapterConfig) {
+    if (!config.name || !config.source || !config.fields?.bankName || !config.fields?.aerRate) {
+      throw new Error(`Invalid adapter mapping '${config.name}': name, source and bankName/aerRate fields are required`);
+    }
+    this.name = config.name;
+    this.filePattern = config.filePattern ? new RegExp(config.filePattern, 'i') : undefined;
+  }
+
+  parse(content: string, context: AdapterContext): AdaptedFile {
+    const data = JSON.parse(content);
+    const records = this.config.productsPath ? valueAtPath(data, this.config.productsPath) : data;
+
+    if (!Array.isArray(records)) {
+      throw new Error(`${this.name} adapter: ${this.config.productsPath || 'document'} is not an array in ${context.fileName}`);
+    }
+
+    const result: AdaptedFile = {
+      adapter: this.name,
+      metadata: { source: this.config.source, method: this.config.method || this.name },
+      products: [],
+      rejected: []
+    };
+
+    records.forEach((record, index) => {
+      const values: Partial<Record<ProductField, unknown>> = {};
+      for (const [field, fieldPath] of Object.entries(this.config.fields) as Array<[ProductField, string]>) {
+        values[field] = valueAtPath(record, fieldPath);
+      }
+      addRecord(result, values, record, `Record ${index + 1}`, this.config.platform || this.config.source, context);
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Map rows keyed by their column heading
+ */
+function mapTabularRecords(
+  adapter: string,
+  source: string,
+  method: string,
+  headings: string[],
+  records: Array<Record<string, string>>,
+  context: AdapterContext
+): AdaptedFile {
+  const fields = mapHeadings(headings);
+  if (!fields.has('bankName') || !fields.has('aerRate')) {
+    throw new Error(`${context.fileName}: bank and AER columns are required (found: ${headings.join(', ')})`);
+  }
+
+  const result: AdaptedFile = { adapter, metadata: { source, method }, products: [], rejected: [] };
+
+  records.forEach((record, index) => {
+    const values: Partial<Record<ProductField, unknown>> = {};
+    for (const [field, heading] of fields) {
+      values[field] = record[heading];
+    }
+    // Row 1 is the heading row
+    addRecord(result, values, record, `Row ${index + 2}`, 'direct', context);
+  });
+
+  return result;
+}
+
+/**
+ * Map each recognised heading to its ProductData field; the first heading wins
+ */
+function mapHeadings(headings: string[]): Map<ProductField, string> {
+  const fields = new Map<ProductField, string>();
+  for (const heading of headings) {
+    const normalized = normalizeHeading(heading);
+    const field = (Object.keys(HEADING_ALIASES) as ProductField[])
+      .find(candidate => HEADING_ALIASES[candidate].includes(normalized));
+    if (field && !fields.has(field)) {
+      fields.set(field, heading);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Convert one record's values to ProductData, adding it to the products or,
+ * when a value cannot be read, to the rejected list with the reasons
+ */
+function addRecord(
+  result: AdaptedFile,
+  values: Partial<Record<ProductField, unknown>>,
+  record: unknown,
+  label: string,
+  defaultPlatform: string,
+  context: AdapterContext
+): void {
+  const errors: string[] = [];
+  const read = <T>(field: ProductField, parser: (text: string) => T | null, description: string): T | null => {
+    const text = toText(values[field]);
+    if (text === '') return null;
+    const value = parser(text);
+    if (value === null) errors.push(`${label}: unrecognised ${description} '${text}'`);
+    return value;
+  };
+
+  const bankName = toText(values.bankName);
+  if (!bankName) errors.push(`${label}: missing bank name`);
+
+  const aerRate = read('aerRate', parseRate, 'AER');
+  if (toText(values.aerRate) === '') errors.push(`${label}: missing AER`);
+  const grossRate = read('grossRate', parseRate, 'gross rate');
+  const termMonths = read('termMonths', parseTermMonths, 'term');
+  const noticePeriodDays = read('noticePeriodDays', parseNoticeDays, 'notice period');
+  const minDeposit = read('minDeposit', parseAmount, 'minimum deposit');
+  const maxDeposit = read('maxDeposit', parseAmount, 'maximum deposit');
+  const fscsProtected = read('fscsProtected', parseYesNo, 'FSCS protection');
+
+  const product: ProductData = {
+    bankName,
+    platform: toText(values.platform) || defaultPlatform,
+    accountType: parseAccountType(toText(values.accountType), termMonths, noticePeriodDays),
+    aerRate: aerRate ?? 0,
+    grossRate: grossRate ?? aerRate ?? 0,
+    termMonths,
+    noticePeriodDays,
+    minDeposit,
+    maxDeposit,
+    // Best buy tables list deposit-takers; FRN matching confirms the licence
+    fscsProtected: fscsProtected ?? true,
+    interestPaymentFrequency: toText(values.interestPaymentFrequency) || null,
+    applyByDate: toText(values.applyByDate) || null,
+    specialFeatures: toText(values.specialFeatures) || null,
+    scrapedAt: toText(values.scrapedAt) || context.modifiedAt,
+    originalData: record as Record<string, unknown>
+  };
+
+  if (errors.length > 0) {
+    result.rejected.push({ originalData: product, validationErrors: errors, rejectionReason: 'validation_failed' });
+  } else {
+    result.products.push(product);
+  }
+}
+
+function parseAccountType(text: string, termMonths: number | null, noticePeriodDays: number | null): string {
+  const value = text.toLowerCase();
+  if (value.includes('isa')) return 'cash_isa';
+  if (value.includes('fixed') || value.includes('bond')) return 'fixed_term';
+  if (value.includes('notice')) return 'notice';
+  if (value.includes('limited')) return 'limited_access';
+  if (value.includes('easy') || value.includes('instant') || value.includes('variable')) return 'easy_access';
+  if (!value && termMonths !== null) return 'fixed_term';
+  if (!value && noticePeriodDays !== null) return 'notice';
+  // Anything else is left for the ingestion rules to reject
+  return value.replace(/[\s-]+/g, '_');
+}
+
+function parseRate(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*%?(?:\s*aer)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function parseAmount(text: string): number | null {
+  if (/^(none|no (max|limit|minimum)|unlimited|n\/a|-)$/i.test(text)) return null;
+  const match = text.replace(/[£,\s]/g, '').match(/^(\d+(?:\.\d+)?)(k|m)?$/i);
+  if (!match) return null;
+  const multiplier = match[2]?.toLowerCase() === 'k' ? 1_000 : match[2]?.toLowerCase() === 'm' ? 1_000_000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+function parseTermMonths(text: string): number | null {
+  const match = text.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(months?|mths?|m|years?|yrs?|y)?\b/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2]?.startsWith('y') ? Math.round(amount * 12) : Math.round(amount);
+}
+
+function parseNoticeDays(text: string): number | null {
+  const match = text.toLowerCase().match(/^(\d+)\s*(days?|d)?\b/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function parseYesNo(text: string): boolean | null {
+  if (/^(yes|y|true|1|protected)$/i.test(text)) return true;
+  if (/^(no|n|false|0)$/i.test(text)) return false;
+  return null;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+}
+
+function sourceFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').split(/[-_]/)[0].toLowerCase();
+}
+
+function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function valueAtPath(value: unknown, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+function readJSON(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function htmlText(cell: string): string {
+  return cell
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&pound;/gi, '£')
+    .replace(/&amp;/gi, '&')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
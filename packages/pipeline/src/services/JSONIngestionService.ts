@@ -11,6 +11,7 @@ import {
   ValidationResult
 } from '@cash-mgmt/shared';
 import { logger } from '../utils/PipelineLogger';
+import { IngestionAdapterRegistry, AdaptedFile, MappedJSONAdapter, MappedJSONAdapterConfig, createDefaultAdapterRegistry } from './IngestionAdapters';
 
 // Valid account types for cash management (from database CHECK constraint)
 const VALID_ACCOUNT_TYPES = ['easy_access', 'notice', 'fixed_term', 'limited_access', 'cash_isa'] as const;
@@ -205,7 +206,7 @@ export interface ProductData {
   applyByDate: string | null;
   specialFeatures: string | null;
   scrapedAt: string;
-  originalData?: ProductData;
+  originalData?: ProductData | Record<string, unknown>;  // Scraper or adapter record the product was mapped from
 }
 
 export class JSONIngestionService {
@@ -223,6 +224,7 @@ export class JSONIngestionService {
   // Corruption detection
   private validationTracker: ValidationTracker | null = null;
   private currentBatchId: string = '';
+  private adapters: IngestionAdapterRegistry = createDefaultAdapterRegistry();
 
   constructor(db: Database.Database) {
     this.db = db;
@@ -421,6 +423,14 @@ export class JSONIngestionService {
           case 'json_ingestion_track_files':
             config.trackFiles = value as boolean;
             break;
+          case 'json_ingestion_custom_adapters':
+            // Optional: third-party JSON schemas mapped to ProductData
+            if (Array.isArray(value)) {
+              for (const mapping of value as MappedJSONAdapterConfig[]) {
+                this.adapters.register(new MappedJSONAdapter(mapping));
+              }
+            }
+            break;
         }
       }
 
@@ -970,24 +980,58 @@ export class JSONIngestionService {
 
 
   /**
-   * Process JSON file using rules-based logic (RulesBasedModule interface)
+   * Adapters that map input files to ProductData; register one to ingest a new source
    */
-  async processFile(filePath: string): Promise<IngestionResult> {
-    try {
-      const content = await fs.promises.readFile(filePath, 'utf8');
-      const data: JSONFileData = JSON.parse(content);
+  getAdapterRegistry(): IngestionAdapterRegistry {
+    return this.adapters;
+  }
 
-      // Validate metadata structure
-      if (!data.metadata || !data.metadata.source || !data.metadata.method) {
-        throw new Error('Invalid JSON format: missing metadata with source and method');
-      }
+  /**
+   * Read an input file with the adapter selected by its filename or metadata
+   */
+  async readProductFile(filePath: string): Promise<AdaptedFile> {
+    return this.adapters.read(filePath);
+  }
 
-      if (!Array.isArray(data.products)) {
-        throw new Error('Invalid JSON format: products must be an array');
+  /**
+   * Pure transform of one input file: adapter mapping, then rules validation
+   * Records the adapter could not map are reported with the rejected products
+   */
+  async ingestFile(filePath: string): Promise<IngestionServiceResult> {
+    const adapted = await this.readProductFile(filePath);
+    const result = await this.processForProducts(adapted.products, adapted.metadata);
+
+    if (adapted.rejected.length > 0) {
+      logger.warn(`⚠️ ${path.basename(filePath)}: ${adapted.rejected.length} records could not be mapped by the ${adapted.adapter} adapter`);
+      result.rejected.push(...adapted.rejected);
+      result.statistics.processed += adapted.rejected.length;
+      result.statistics.rejected += adapted.rejected.length;
+      result.statistics.validationErrors += adapted.rejected.length;
+
+      for (const invalid of adapted.rejected) {
+        const platform = (invalid.originalData.platform || 'unknown').toLowerCase();
+        if (!result.statistics.byPlatform[platform]) {
+          result.statistics.byPlatform[platform] = { processed: 0, passed: 0, rejected: 0 };
+        }
+        result.statistics.byPlatform[platform].processed++;
+        result.statistics.byPlatform[platform].rejected++;
       }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process an input file using rules-based logic (RulesBasedModule interface)
+   */
+  async processFile(filePath: string): Promise<IngestionResult> {
+    try {
+      const adapted = await this.readProductFile(filePath);
 
       // Process with metadata
-      return await this.process(data.products, data.metadata);
+      const result = await this.process(adapted.products, adapted.metadata);
+      result.statistics.qualityMetrics.validationErrors += adapted.rejected.length;
+      return result;
     } catch (error) {
       const startTime = Date.now();
       return {
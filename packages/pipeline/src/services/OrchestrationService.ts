@@ -1,21 +1,28 @@
 import Database from 'better-sqlite3';
 import { EventEmitter } from 'events';
 import { Engine } from 'json-rules-engine';
-import { BrowserWindow } from 'electron';
 import {
   RulesBasedModule,
   BusinessRule,
   ParsedBusinessRule,
   ConfigCategory,
   ModuleStatus,
-  ValidationResult
+  ValidationResult,
+  StagedPipelineRun,
+  PipelineSourceStatus
 } from '@cash-mgmt/shared';
-import { JSONIngestionService, IngestionResult, ProductData, IngestionServiceResult, ParsedProduct, RuleEvaluationResult, JSONFileData } from './JSONIngestionService';
-import { FRNMatchingService, FRNMatchingServiceResult } from './FRNMatchingService';
+import { JSONIngestionService, IngestionResult, ProductData, IngestionServiceResult, ParsedProduct, RuleEvaluationResult } from './JSONIngestionService';
+import { FRNMatchingService, FRNMatchingServiceResult, EnrichedProduct } from './FRNMatchingService';
 import { DeduplicationService, DeduplicationOutput, FinalProduct } from './DeduplicationService';
 import { PipelineAudit } from './PipelineAudit';
+import { ProductHistoryService } from './ProductHistoryService';
+import { RateAnomalyDetector, RateAnomaly } from './RateAnomalyDetector';
+import { SourceStatusService } from './SourceStatusService';
+import { ProductRepository } from './ProductRepository';
+import { ProductDiffService, ProductDiff } from './ProductDiffService';
 import { DataQualityAnalyzer, DataQualityReport } from './DataQualityAnalyzer';
 import { logger } from '../utils/PipelineLogger';
+import { PipelineProgressSink, PipelineEvent } from '../utils/PipelineProgressSink';
 
 export interface OrchestrationConfig {
   // Core pipeline control (simplified - no retry logic)
@@ -33,6 +40,9 @@ export interface OrchestrationConfig {
   dataQualityEnabled: boolean; // Enable data quality analysis stage
   dataQualityVerbose: boolean; // Show detailed quality reports
 
+  // Incremental runs: sources not ingested for this long are reported as stale
+  sourceStaleHours: number;
+
   // Legacy fields for compatibility (will be phased out)
   preservePartialSuccess?: boolean;
   continueOnError?: boolean;
@@ -62,6 +72,12 @@ export interface PipelineResult {
   deduplicationResult?: DeduplicationOutput;
   dataQualityReport?: DataQualityReport;
 
+  // Dry run: the staged products compared with available_products (nothing persisted)
+  productDiff?: ProductDiff;
+
+  // Sources in the merged product set that were not refreshed recently
+  staleSources?: string[];
+
   // Error handling
   errors: PipelineError[];
   partialSuccess: boolean;
@@ -107,6 +123,44 @@ export enum PipelineStage {
 export interface PipelineOptions {
   stopAfterStage?: PipelineStage;
   skipDataQuality?: boolean;
+  dryRun?: boolean; // Run through deduplication, diff and stage the result instead of persisting it
+}
+
+export type { StagedPipelineRun, PipelineSourceStatus };
+
+export interface StagedRunCommitResult {
+  batchId: string;
+  productCount: number;
+  diff: ProductDiff;
+}
+
+// What a commit writes: the final products and the raw rows they were built from
+interface StagedRunData extends StagedPipelineRun {
+  products: FinalProduct[];
+  rawProducts: Record<string, unknown>[];
+  ingestedSources: string[];
+  liveFingerprint: string;
+}
+
+// available_products(_raw) columns a rebuild reads back into the pipeline
+interface ProductRow {
+  platform: string | null;
+  source: string | null;
+  bank_name: string | null;
+  account_type: string | null;
+  aer_rate: number | null;
+  gross_rate: number | null;
+  term_months: number | null;
+  notice_period_days: number | null;
+  min_deposit: number | null;
+  max_deposit: number | null;
+  fscs_protected: number | null;
+  interest_payment_frequency: string | null;
+  apply_by_date: string | null;
+  special_features: string | null;
+  scrape_date: string | null;
+  confidence_score: number | null;
+  frn: string | null;
 }
 
 // Simplified error types for fail-fast approach
@@ -135,13 +189,23 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
   private rules: ParsedBusinessRule[] = [];
   private engine: Engine = new Engine();
   private initialized: boolean = false;
-  private mainWindow?: BrowserWindow; // For UI integration
+  private progressSink?: PipelineProgressSink; // UI, console or log file; kept across reset()
 
   // Service instances
   private jsonIngestionService: JSONIngestionService;
   private frnMatchingService: FRNMatchingService;
   private deduplicationService: DeduplicationService;
   private pipelineAudit: PipelineAudit;
+  private productHistoryService: ProductHistoryService;
+  private productRepository: ProductRepository;
+  private productDiffService: ProductDiffService;
+  private sourceStatusService: SourceStatusService;
+
+  // Latest dry run awaiting commit or discard (held in memory only)
+  private stagedRun: StagedRunData | null = null;
+
+  // Rate anomalies found in the current rebuild, stored with its quality report
+  private rateAnomalies: RateAnomaly[] = [];
 
   constructor(db: Database.Database, dbPath?: string) {
     super();
@@ -152,6 +216,10 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     this.frnMatchingService = new FRNMatchingService(db);
     this.deduplicationService = new DeduplicationService(db);
     this.pipelineAudit = new PipelineAudit('orchestration', db);
+    this.productHistoryService = new ProductHistoryService(db);
+    this.productRepository = new ProductRepository(db);
+    this.productDiffService = new ProductDiffService(db);
+    this.sourceStatusService = new SourceStatusService(db);
   }
 
   /**
@@ -218,6 +286,8 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
           ? process.env.DATA_QUALITY_VERBOSE === 'true'
           : Boolean(configData.orchestrator_data_quality_verbose ?? false),
 
+        sourceStaleHours: Number(configData.orchestrator_source_stale_hours ?? 48),
+
         // Legacy compatibility
         preservePartialSuccess: Boolean(configData.preservePartialSuccess ?? true),
         continueOnError: Boolean(configData.continueOnError ?? false),
@@ -371,26 +441,29 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
    * Core pipeline processing (RulesBasedModule interface)
    */
   async process(input: PipelineRequest): Promise<PipelineResult> {
-    return this.executePipelineWithUI(input.inputFiles || [], this.mainWindow);
+    return this.executePipeline(input.inputFiles || []);
   }
 
   /**
    * Process from file (RulesBasedModule interface)
    */
   async processFile(filePath: string, options?: PipelineOptions): Promise<PipelineResult> {
-    return this.executePipelineWithUI([filePath], this.mainWindow, options);
+    return this.executePipeline([filePath], options);
   }
 
   /**
-   * Enhanced pipeline execution with UI integration and concurrent execution protection
+   * Report pipeline events to a sink (Electron IPC, console or JSON lines)
+   * Events are also emitted on this service for in-process listeners
    */
-  async executePipelineWithUI(
-    inputFiles: string[],
-    mainWindow?: BrowserWindow,
-    options?: PipelineOptions
-  ): Promise<PipelineResult> {
-    this.mainWindow = mainWindow;
+  setProgressSink(sink: PipelineProgressSink | undefined): void {
+    this.progressSink = sink;
+  }
 
+  /**
+   * Pipeline execution with progress reporting and concurrent execution protection
+   * Behaves the same from the app, the CLI or a scheduled job; only the progress sink differs
+   */
+  async executePipeline(inputFiles: string[], options?: PipelineOptions): Promise<PipelineResult> {
     if (!this.initialized) {
       await this.initialize();
     }
@@ -452,6 +525,11 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       // Initialize all pipeline_audit entries upfront so other services can reference them
       this.pipelineAudit.initializeAllStages();
 
+      if (options?.dryRun) {
+        logger.info('🧪 Pipeline executing as a dry run - results will be staged for review, not persisted');
+        return await this.executeDryRunPipeline(inputFiles, batchId, auditBatchId, result, startTime, options);
+      }
+
       // Execute pipeline in atomic transaction if enabled
       if (this.config?.pipelineAtomicMode) {
         logger.info('🔒 Pipeline executing in atomic mode - data will be committed only on success');
@@ -505,6 +583,45 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     }
   }
 
+  /**
+   * Execute pipeline as a dry run - every write is rolled back
+   * The final products, their raw rows and the diff against available_products are staged for commitStagedRun()
+   */
+  private async executeDryRunPipeline(
+    inputFiles: string[],
+    batchId: string,
+    auditBatchId: string,
+    result: PipelineResult,
+    startTime: number,
+    options: PipelineOptions
+  ): Promise<PipelineResult> {
+    if (options.stopAfterStage) {
+      throw new Error('A dry run always runs through deduplication - stopAfterStage is not supported');
+    }
+
+    // A new dry run replaces any result still awaiting review
+    this.discardStagedRun();
+    const liveFingerprint = this.productDiffService.fingerprint();
+
+    this.db.exec('BEGIN');
+
+    try {
+      const pipelineResult = await this.executePipelineStages(inputFiles, batchId, auditBatchId, result, startTime, options);
+
+      if (pipelineResult.success && this.stagedRun) {
+        this.stagedRun.liveFingerprint = liveFingerprint;
+        logger.info(`🧪 Dry run staged ${this.stagedRun.productCount} products for review`);
+      } else {
+        this.stagedRun = null;
+      }
+
+      return pipelineResult;
+    } finally {
+      this.db.exec('ROLLBACK');
+      logger.debug('🧪 Dry run transaction rolled back');
+    }
+  }
+
   /**
    * Execute pipeline with incremental commits - visible after each stage
    */
@@ -530,15 +647,17 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     startTime: number,
     options?: PipelineOptions
   ): Promise<PipelineResult> {
+    let ingestedSources: string[] = [];
+
     try {
 
       // Emit pipeline start
-      this.emit('pipeline:started', { batchId, inputFiles: inputFiles.length });
+      this.notify({ type: 'started', batchId, inputFiles: inputFiles.length, dryRun: !!options?.dryRun });
       this.emitProgress(batchId, PipelineStage.JSON_INGESTION, 0, 0, 'Starting pipeline execution');
 
       // Stage 1: JSON Ingestion
       await this.setPipelineStatus(true, 'json_ingestion', batchId);
-      this.emit('pipeline:stage-started', { stage: 'json_ingestion', batchId });
+      this.notify({ type: 'stage-started', stage: 'json_ingestion', batchId });
 
       const ingestionResult = await this.executeJSONIngestionStage(inputFiles);
 
@@ -555,7 +674,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       result.ingestionResult = ingestionResult;
       result.totalProductsProcessed = ingestionResult.statistics.processed;
 
-      this.emit('pipeline:stage-completed', {
+      this.notify({ type: 'stage-completed',
         stage: 'json_ingestion',
         batchId,
         productsProcessed: ingestionResult.statistics.passed
@@ -566,6 +685,10 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       if (ingestionSuccessful) {
         result.stagesCompleted.push(PipelineStage.JSON_INGESTION);
 
+        // Only these sources were replaced in the raw table; the others carry on as they were
+        ingestedSources = ingestionResult.passed.map(p => p.source || 'unknown');
+        this.sourceStatusService.recordIngestion(auditBatchId, ingestedSources);
+
         // Check if we should stop after JSON ingestion
         if (options?.stopAfterStage === PipelineStage.JSON_INGESTION) {
           logger.info('⏹️ Stopping pipeline after JSON Ingestion as requested');
@@ -583,28 +706,47 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       // Stage 2: Rebuild from Complete Raw Dataset
       // New accumulation architecture: process all sources together for true cross-scraper deduplication
       await this.setPipelineStatus(true, 'rebuild', batchId);
-      this.emit('pipeline:stage-started', { stage: 'rebuild', batchId });
+      this.notify({ type: 'stage-started', stage: 'rebuild', batchId });
       this.emitProgress(batchId, PipelineStage.DEDUPLICATION, 0, 66, 'JSON ingestion completed, rebuilding from complete raw dataset');
 
-      await this.rebuildFromRawData(options);
-
-      // Get final product count for reporting
-      const finalCount = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
-      result.finalProductCount = finalCount.count;
+      const selectedProducts = await this.rebuildFromRawData(options);
+
+      if (options?.dryRun) {
+        // Stage instead of persisting; the caller rolls back everything else this run wrote
+        result.productDiff = this.productDiffService.diff(selectedProducts);
+        result.finalProductCount = selectedProducts.length;
+        this.stagedRun = {
+          batchId: auditBatchId,
+          stagedAt: new Date(),
+          inputFiles,
+          productCount: selectedProducts.length,
+          diff: result.productDiff,
+          products: selectedProducts,
+          rawProducts: this.db.prepare(`SELECT * FROM available_products_raw ORDER BY id`).all() as Record<string, unknown>[],
+          ingestedSources,
+          liveFingerprint: ''
+        };
+      } else {
+        // Get final product count for reporting
+        const finalCount = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
+        result.finalProductCount = finalCount.count;
+      }
 
       result.stagesCompleted.push(PipelineStage.FRN_MATCHING);
       result.stagesCompleted.push(PipelineStage.DEDUPLICATION);
 
-      this.emit('pipeline:stage-completed', {
+      this.notify({ type: 'stage-completed',
         stage: 'rebuild',
         batchId,
-        productsSelected: finalCount.count
+        productsSelected: result.finalProductCount
       });
 
       // Stage 3: Data Quality Analysis (optional)
-      if (this.config?.dataQualityEnabled) {
+      // Skipped on a dry run: it analyses the persisted tables
+      const runDataQuality = !!this.config?.dataQualityEnabled && !options?.dryRun;
+      if (runDataQuality && this.config) {
         await this.setPipelineStatus(true, 'data_quality', batchId);
-        this.emit('pipeline:stage-started', { stage: 'data_quality', batchId });
+        this.notify({ type: 'stage-started', stage: 'data_quality', batchId });
 
         this.emitProgress(batchId, PipelineStage.DATA_QUALITY, 0, 75, 'Starting data quality analysis');
 
@@ -616,7 +758,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
         });
 
         await dataQualityAnalyzer.initialize();
-        const qualityReport = await dataQualityAnalyzer.analyzePipeline();
+        const qualityReport = await dataQualityAnalyzer.analyzePipeline(this.rateAnomalies);
 
         if (this.config.dataQualityVerbose) {
           logger.info('📊 Data quality analysis completed');
@@ -626,7 +768,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
 
         result.dataQualityReport = qualityReport;
 
-        this.emit('pipeline:stage-completed', {
+        this.notify({ type: 'stage-completed',
           stage: 'data_quality',
           batchId,
           score: qualityReport.overallScore
@@ -641,11 +783,18 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
 
       // Check overall success
       const expectedStages = [PipelineStage.JSON_INGESTION, PipelineStage.FRN_MATCHING, PipelineStage.DEDUPLICATION];
-      if (this.config?.dataQualityEnabled) {
+      if (runDataQuality) {
         expectedStages.push(PipelineStage.DATA_QUALITY);
       }
       result.success = result.stagesCompleted.length === expectedStages.length;
 
+      if (result.success && !options?.dryRun) {
+        result.staleSources = this.getSourceStatus().filter(s => s.stale).map(s => s.source);
+        if (result.staleSources.length > 0) {
+          logger.warn(`⚠️ Stale sources kept from earlier runs: ${result.staleSources.join(', ')}`);
+        }
+      }
+
     } catch (error) {
       const currentStage = result.stagesCompleted[result.stagesCompleted.length - 1] || PipelineStage.JSON_INGESTION;
 
@@ -682,16 +831,20 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
 
     // Emit completion
     if (result.success) {
-      this.emit('pipeline:completed', {
+      this.notify({ type: 'completed',
         batchId,
         duration: result.totalDuration,
-        finalProductCount: result.finalProductCount
+        finalProductCount: result.finalProductCount,
+        dryRun: !!options?.dryRun
       });
 
       // Clean up processed files after successful pipeline
-      await this.cleanupProcessedFiles(inputFiles);
+      // A dry run keeps them until its result is committed
+      if (!options?.dryRun) {
+        await this.cleanupProcessedFiles(inputFiles);
+      }
     } else {
-      this.emit('pipeline:failed', {
+      this.notify({ type: 'failed',
         batchId,
         error: result.errors[0]?.message || 'Unknown error',
         stage: result.errors[0]?.stage || 'unknown'
@@ -728,24 +881,9 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       };
 
       // Process each file individually to preserve source/method
+      // The adapter registry maps scraper output, CSV exports and other sources to products
       for (const filePath of inputFiles) {
-        const content = await require('fs').promises.readFile(filePath, 'utf8');
-        const data: JSONFileData = JSON.parse(content);
-
-        // Validate metadata format
-        if (!data.metadata || !data.metadata.source || !data.metadata.method) {
-          throw new Error(`Invalid JSON file format: missing metadata in ${filePath}`);
-        }
-
-        if (!Array.isArray(data.products)) {
-          throw new Error(`Invalid JSON file format: products must be an array in ${filePath}`);
-        }
-
-        // Process this file with its specific source/method metadata
-        const fileResult = await this.jsonIngestionService.processForProducts(
-          data.products,
-          data.metadata  // Preserve original source/method from file
-        );
+        const fileResult = await this.jsonIngestionService.ingestFile(filePath);
 
         // Accumulate results
         combinedResult.passed.push(...fileResult.passed);
@@ -831,133 +969,25 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
   }
 
   /**
-   * Non-atomic persistence with complete data replacement
+   * Replace available_products with the final products
+   * Atomic transactions make the replacement and product history all or nothing
    */
-  private async persistResultsNonAtomic(selectedProducts: FinalProduct[]): Promise<void> {
-    logger.debug(`💾 Starting non-atomic persistence of ${selectedProducts.length} products`);
+  private async persistResults(selectedProducts: FinalProduct[]): Promise<void> {
+    const atomic = !!this.config?.enableAtomicTransactions;
+    logger.debug(`💾 Starting ${atomic ? 'atomic' : 'non-atomic'} persistence of ${selectedProducts.length} products`);
 
     try {
-      // Clear existing products
-      const deleteStmt = this.db.prepare(`DELETE FROM available_products`);
-      deleteStmt.run();
-      logger.debug(`🗑️ Cleared existing products from available_products`);
-
-      // Insert new products
-      if (selectedProducts.length > 0) {
-        const insertStmt = this.db.prepare(`
-          INSERT INTO available_products (
-            platform, bank_name, account_type, aer_rate, gross_rate, term_months,
-            notice_period_days, min_deposit, max_deposit, fscs_protected, frn,
-            interest_payment_frequency, apply_by_date, special_features, scrape_date,
-            confidence_score, source, business_key, deduplication_metadata, raw_platform
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `);
-
-        for (const product of selectedProducts) {
-          insertStmt.run([
-            product.platform,
-            product.bankName,
-            product.accountType,
-            product.aerRate,
-            product.grossRate || null,
-            product.termMonths || null,
-            product.noticePeriodDays || null,
-            product.minDeposit || null,
-            product.maxDeposit || null,
-            product.fscsProtected ? 1 : 0,
-            product.frn || null,
-            product.interestPaymentFrequency || null,
-            product.applyByDate || null,
-            product.specialFeatures || null,
-            product.scrapeDate,
-            product.confidenceScore || 1.0,
-            product.source,
-            product.businessKey || null,
-            product.deduplicationMetadata || null,
-            product.platform // raw_platform same as platform
-          ]);
+      this.productRepository.replaceAll(selectedProducts, {
+        atomic,
+        afterWrite: products => {
+          // Record rate changes and withdrawals against the previous runs
+          this.productHistoryService.recordRun(products);
+          this.sourceStatusService.refreshCounts();
         }
-        logger.debug(`✅ Inserted ${selectedProducts.length} products into available_products`);
-      }
-    } catch (error) {
-      logger.error('❌ Non-atomic persistence failed:', error);
-      throw error;
-    }
-  }
-
-
-  /**
-   * Atomic persistence with complete data replacement
-   */
-  private async persistResultsWithTransaction(selectedProducts: FinalProduct[]): Promise<void> {
-    if (!this.config?.enableAtomicTransactions) {
-      logger.warn('⚠️ Atomic transactions disabled, skipping persistence');
-      return;
-    }
-
-    logger.debug(`💾 Starting atomic persistence of ${selectedProducts.length} products`);
-
-    const transaction = this.db.transaction(() => {
-      try {
-        // 1. Validate current data state
-        const currentCount = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
-        logger.debug(`Replacing ${currentCount.count} existing products with ${selectedProducts.length} new products`);
-
-        // 2. Clear current data
-        this.db.prepare(`DELETE FROM available_products`).run();
-
-        // 3. Insert new data with validation
-        const insertStmt = this.db.prepare(`
-          INSERT INTO available_products (
-            bank_name, account_type, aer_rate, term_months,
-            notice_period_days, platform, source, business_key, frn,
-            scrape_date, confidence_score, fscs_protected, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-        `);
-
-        let insertedCount = 0;
-        for (const product of selectedProducts) {
-          // Validate each product before insertion
-          if (!product.bankName || typeof product.aerRate !== 'number') {
-            throw new Error(`Invalid product data: missing required fields`);
-          }
-
-          insertStmt.run(
-            product.bankName,
-            product.accountType,
-            product.aerRate,
-            product.termMonths || null,
-            product.noticePeriodDays || null,
-            product.platform,
-            product.source,
-            product.businessKey,
-            product.frn,
-            product.scrapeDate || new Date().toISOString().split('T')[0],
-            product.confidenceScore || 1.0,
-            product.fscsProtected ? 1 : 0
-          );
-          insertedCount++;
-        }
-
-        // 4. Validate final state
-        const finalCount = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
-        if (finalCount.count !== selectedProducts.length) {
-          throw new Error(`Data integrity error: expected ${selectedProducts.length}, got ${finalCount.count}`);
-        }
-
-        logger.debug(`Successfully replaced ${currentCount.count} products with ${insertedCount} new products`);
-
-      } catch (error) {
-        logger.error('Transaction failed, rolling back:', error);
-        throw error; // This will cause transaction rollback
-      }
-    });
-
-    try {
-      // Execute transaction (atomic - all or nothing)
-      transaction();
-      logger.info('✅ Atomic persistence completed successfully');
+      });
+      logger.info(`✅ ${atomic ? 'Atomic' : 'Non-atomic'} persistence completed successfully`);
     } catch (error) {
+      logger.error(`❌ ${atomic ? 'Atomic' : 'Non-atomic'} persistence failed:`, error);
       await this.handleCriticalError(
         OrchestratorCriticalErrorType.PERSISTENCE_FAILED,
         'persistence',
@@ -968,7 +998,6 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     }
   }
 
-
   /**
    * Check for concurrent execution (CRITICAL for data integrity)
    */
@@ -1123,9 +1152,10 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     // Reset pipeline status to ready
     await this.resetPipelineStatus();
 
-    // Report to UI via IPC
-    if (this.mainWindow && this.config?.errorNotificationEnabled) {
-      this.mainWindow.webContents.send('orchestrator:pipeline-failed', {
+    // Report to the progress sink only; the run's own failure event follows from executePipelineStages
+    if (this.config?.errorNotificationEnabled) {
+      this.progressSink?.report({
+        type: 'failed',
         error: error.errorType,
         stage: error.stage,
         message: error.message,
@@ -1165,6 +1195,26 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     };
   }
 
+  /**
+   * Emit a pipeline event to in-process listeners and the progress sink
+   * Listeners receive the event without its type, on 'progress' or 'pipeline:<type>'
+   */
+  private notify(event: PipelineEvent): void {
+    if (event.type === 'progress') {
+      this.emit('progress', event.progress);
+    } else {
+      const { type, ...data } = event;
+      this.emit(`pipeline:${type}`, data);
+    }
+
+    try {
+      this.progressSink?.report(event);
+    } catch (error) {
+      // A broken sink (closed window, full disk) must not fail the run
+      logger.warn(`⚠️ Progress sink failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Emit progress events for UI integration
    */
@@ -1185,7 +1235,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
         timestamp: new Date()
       };
 
-      this.emit('progress', progress);
+      this.notify({ type: 'progress', progress });
     }
   }
 
@@ -1293,8 +1343,9 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
   /**
    * Rebuild available_products from complete raw dataset
    * This enables true cross-scraper deduplication
+   * Returns the selected products; on a dry run they are returned without being persisted
    */
-  public async rebuildFromRawData(options?: PipelineOptions): Promise<void> {
+  public async rebuildFromRawData(options?: PipelineOptions): Promise<FinalProduct[]> {
     logger.info('🔄 Rebuilding available_products from complete raw dataset...');
 
     try {
@@ -1306,15 +1357,18 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
                special_features, scrape_date, confidence_score, frn
         FROM available_products_raw
         ORDER BY source, bank_name, account_type
-      `).all() as any[];
+      `).all() as ProductRow[];
 
       logger.info(`📊 Loading ${rawProducts.length} products from raw table for reprocessing`);
 
       if (rawProducts.length === 0) {
         logger.warn('⚠️ No products in raw table, skipping rebuild');
-        return;
+        return [];
       }
 
+      // 1b. Sources with final products but nothing left in the raw table join the merged set as they are
+      rawProducts.push(...this.loadCarriedForwardProducts());
+
       // 2. Convert to ParsedProduct format for FRN matching
       const parsedProducts: ParsedProduct[] = rawProducts.map(raw => ({
         platform: raw.platform || 'unknown',
@@ -1344,7 +1398,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
       if (options?.stopAfterStage === PipelineStage.FRN_MATCHING) {
         logger.info('⏹️ Stopping pipeline after FRN Matching as requested');
         logger.info(`✅ FRN matching completed: ${frnResult.enrichedProducts.length} products enriched`);
-        return;
+        return [];
       }
 
       // 4. Process through deduplication
@@ -1356,40 +1410,38 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
         logger.info('⏹️ Stopping pipeline after Deduplication as requested');
         // Persist the deduplicated results and exit before data quality analysis
         if (deduplicationResult.selectedProducts && deduplicationResult.selectedProducts.length > 0) {
-          if (this.config?.enableAtomicTransactions) {
-            await this.persistResultsWithTransaction(deduplicationResult.selectedProducts);
-          } else {
-            await this.persistResultsNonAtomic(deduplicationResult.selectedProducts);
-          }
+          await this.persistResults(deduplicationResult.selectedProducts);
           logger.info(`✅ Pipeline stopped after deduplication: ${deduplicationResult.selectedProducts.length} products persisted`);
         } else {
           logger.warn('⚠️ No products to persist after deduplication');
         }
-        return;
+        return deduplicationResult.selectedProducts || [];
+      }
+
+      // 5. Check rates against their baselines, leaving out any quarantined products
+      const selectedProducts = this.checkRateAnomalies(frnResult.enrichedProducts, deduplicationResult.selectedProducts || []);
+
+      if (options?.dryRun) {
+        logger.info(`🧪 Dry run: ${selectedProducts.length} products selected, available_products not replaced`);
+        return selectedProducts;
       }
 
-      if (!deduplicationResult.selectedProducts || deduplicationResult.selectedProducts.length === 0) {
+      if (selectedProducts.length === 0) {
         logger.warn('⚠️ No products selected from complete dataset - this is expected when raw table is empty');
         // Clear the final table since there are no products to process
-        if (this.config?.enableAtomicTransactions) {
-          await this.persistResultsWithTransaction([]);
-        } else {
-          await this.persistResultsNonAtomic([]);
-        }
+        await this.persistResults([]);
         logger.info('✅ Rebuild complete: empty dataset handled gracefully');
-        return;
+        return [];
       }
 
-      // 5. Replace available_products table (using existing persistence logic)
-      logger.info(`💾 Replacing available_products with ${deduplicationResult.selectedProducts.length} deduplicated products`);
+      // 6. Replace available_products table (using existing persistence logic)
+      logger.info(`💾 Replacing available_products with ${selectedProducts.length} deduplicated products`);
 
-      if (this.config?.enableAtomicTransactions) {
-        await this.persistResultsWithTransaction(deduplicationResult.selectedProducts);
-      } else {
-        await this.persistResultsNonAtomic(deduplicationResult.selectedProducts);
-      }
+      await this.persistResults(selectedProducts);
+
+      logger.info(`✅ Rebuild complete: ${rawProducts.length} raw → ${selectedProducts.length} final products`);
 
-      logger.info(`✅ Rebuild complete: ${rawProducts.length} raw → ${deduplicationResult.selectedProducts.length} final products`);
+      return selectedProducts;
 
     } catch (error) {
       logger.error('❌ Rebuild from raw data failed:', error);
@@ -1397,6 +1449,136 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     }
   }
 
+  /**
+   * available_products rows from sources with no raw products to rebuild from
+   * Without them a rebuild would drop every source that was not re-ingested into the raw table
+   */
+  private loadCarriedForwardProducts(): ProductRow[] {
+    const carried = this.db.prepare(`
+      SELECT platform, source, bank_name, account_type, aer_rate, gross_rate,
+             term_months, notice_period_days, min_deposit, max_deposit,
+             fscs_protected, interest_payment_frequency, apply_by_date,
+             special_features, scrape_date, confidence_score, frn
+      FROM available_products
+      WHERE source NOT IN (SELECT DISTINCT source FROM available_products_raw WHERE source IS NOT NULL)
+      ORDER BY source, bank_name, account_type
+    `).all() as ProductRow[];
+
+    if (carried.length > 0) {
+      const sources = Array.from(new Set(carried.map(row => row.source)));
+      logger.info(`📦 Carrying forward ${carried.length} products from sources without raw products: ${sources.join(', ')}`);
+    }
+    return carried;
+  }
+
+  /**
+   * Every source in the merged product set with its counts and age
+   */
+  getSourceStatus(): PipelineSourceStatus[] {
+    return this.sourceStatusService.getStatus(this.config?.sourceStaleHours ?? 48);
+  }
+
+  /**
+   * Statistical rate anomaly checks, part of data quality analysis
+   * Runs before persistence so high severity products can be quarantined;
+   * the anomalies are stored with the quality report
+   */
+  private checkRateAnomalies(listings: EnrichedProduct[], selected: FinalProduct[]): FinalProduct[] {
+    this.rateAnomalies = [];
+    if (!this.config?.dataQualityEnabled || selected.length === 0) {
+      return selected;
+    }
+
+    const detector = new RateAnomalyDetector(this.db);
+    detector.loadConfiguration();
+    const result = detector.detect(this.pipelineAudit.getBatchId(), listings, selected);
+
+    this.rateAnomalies = result.anomalies;
+    if (result.quarantined.length > 0) {
+      logger.warn(`🚧 Quarantined ${result.quarantined.length} products with high severity rate anomalies`);
+    }
+    return result.products;
+  }
+
+  /**
+   * The dry run awaiting review, if any
+   */
+  getStagedRun(): StagedPipelineRun | null {
+    if (!this.stagedRun) return null;
+    const { batchId, stagedAt, inputFiles, productCount, diff } = this.stagedRun;
+    return { batchId, stagedAt, inputFiles, productCount, diff };
+  }
+
+  /**
+   * Commit the staged dry run: restore its raw rows and replace available_products with its products
+   * Refused if the product tables have changed since the dry run, as the diff would no longer hold
+   */
+  async commitStagedRun(): Promise<StagedRunCommitResult> {
+    const staged = this.stagedRun;
+    if (!staged) {
+      throw new Error('No staged pipeline run to commit');
+    }
+
+    if (!this.initialized) {
+      await this.initialize();
+    }
+    await this.checkConcurrentExecution();
+
+    if (this.productDiffService.fingerprint() !== staged.liveFingerprint) {
+      throw new Error('Products have changed since the dry run - run it again before committing');
+    }
+
+    logger.info(`💾 Committing staged pipeline run ${staged.batchId} (${staged.productCount} products)`);
+    this.db.exec('BEGIN');
+
+    try {
+      this.restoreRawProducts(staged.rawProducts);
+      // The dry run's ingestion record was rolled back with everything else it wrote
+      this.sourceStatusService.recordIngestion(staged.batchId, staged.ingestedSources, staged.stagedAt);
+      await this.persistResults(staged.products);
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      logger.error('❌ Staged run commit rolled back - no data persisted');
+      throw error;
+    }
+
+    this.stagedRun = null;
+    this.notify({ type: 'staged-committed', batchId: staged.batchId, finalProductCount: staged.productCount });
+
+    await this.cleanupProcessedFiles(staged.inputFiles);
+
+    return { batchId: staged.batchId, productCount: staged.productCount, diff: staged.diff };
+  }
+
+  /**
+   * Discard the staged dry run; its input files are kept
+   */
+  discardStagedRun(): boolean {
+    if (!this.stagedRun) return false;
+    logger.info(`🗑️ Discarded staged pipeline run ${this.stagedRun.batchId}`);
+    this.stagedRun = null;
+    return true;
+  }
+
+  /**
+   * Replace available_products_raw with the rows a dry run ingested
+   */
+  private restoreRawProducts(rawProducts: Record<string, unknown>[]): void {
+    this.db.prepare(`DELETE FROM available_products_raw`).run();
+    if (rawProducts.length === 0) return;
+
+    const columns = Object.keys(rawProducts[0]!);
+    const insert = this.db.prepare(`
+      INSERT INTO available_products_raw (${columns.join(', ')})
+      VALUES (${columns.map(column => `@${column}`).join(', ')})
+    `);
+    for (const row of rawProducts) {
+      insert.run(row);
+    }
+    logger.debug(`✅ Restored ${rawProducts.length} staged raw products`);
+  }
+
   /**
    * Clean up processed files after successful pipeline completion
    * Uses graceful failure - warnings only if files are missing or can't be deleted
@@ -1476,6 +1658,7 @@ export class OrchestrationService extends EventEmitter implements RulesBasedModu
     this.rules = [];
     this.engine = new Engine();
     this.initialized = false;
-    this.mainWindow = undefined;
+    this.stagedRun = null;
+    this.rateAnomalies = [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { ProductDiff, ProductDiffEntry } from '@cash-mgmt/shared';
+import { FinalProduct } from './DeduplicationService';
+
+export type { ProductDiff, ProductDiffEntry };
+
+interface LiveProductRow {
+  business_key: string | null;
+  platform: string;
+  bank_name: string;
+  account_type: string;
+  term_months: number | null;
+  notice_period_days: number | null;
+  aer_rate: number;
+  frn: string | null;
+}
+
+// Rates are stored as REAL; smaller differences are float noise
+const RATE_TOLERANCE = 0.0001;
+
+/**
+ * Product Diff Service
+ *
+ * Compares a run's final products with the live available_products table,
+ * product by product (business key and platform, as product history does),
+ * so a run can be reviewed before it replaces the table.
+ */
+export class ProductDiffService {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Diff staged final products against available_products
+   */
+  diff(products: FinalProduct[]): ProductDiff {
+    const live = new Map<string, ProductDiffEntry>();
+    const rows = this.db.prepare(`
+      SELECT business_key, platform, bank_name, account_type, term_months,
+             notice_period_days, aer_rate, frn
+      FROM available_products
+    `).all() as LiveProductRow[];
+    for (const row of rows) {
+      const entry: ProductDiffEntry = {
+        businessKey: row.business_key || this.fallbackKey(row.bank_name, row.account_type, row.term_months, row.notice_period_days),
+        platform: row.platform,
+        bankName: row.bank_name,
+        accountType: row.account_type,
+        termMonths: row.term_months,
+        noticePeriodDays: row.notice_period_days,
+        aerRate: row.aer_rate,
+        frn: row.frn
+      };
+      const key = this.productKey(entry.businessKey, entry.platform);
+      if (!live.has(key)) live.set(key, entry);
+    }
+
+    const diff: ProductDiff = {
+      liveCount: rows.length,
+      stagedCount: products.length,
+      unchanged: 0,
+      added: [],
+      removed: [],
+      rateUp: [],
+      rateDown: [],
+      frnChanged: []
+    };
+
+    const seen = new Set<string>();
+    for (const product of products) {
+      const key = this.productKey(product.businessKey, product.platform);
+      if (seen.has(key)) continue; // Same product selected twice in one run
+      seen.add(key);
+
+      const entry: ProductDiffEntry = {
+        businessKey: product.businessKey,
+        platform: product.platform,
+        bankName: product.bankName,
+        accountType: product.accountType,
+        termMonths: product.termMonths ?? null,
+        noticePeriodDays: product.noticePeriodDays ?? null,
+        aerRate: product.aerRate,
+        frn: product.frn || null
+      };
+
+      const previous = live.get(key);
+      if (!previous) {
+        diff.added.push(entry);
+        continue;
+      }
+
+      let changed = false;
+      const rateChange = product.aerRate - previous.aerRate;
+      if (Math.abs(rateChange) > RATE_TOLERANCE) {
+        (rateChange > 0 ? diff.rateUp : diff.rateDown).push({ ...entry, previousRate: previous.aerRate });
+        changed = true;
+      }
+      if ((previous.frn || null) !== entry.frn) {
+        diff.frnChanged.push({ ...entry, previousFrn: previous.frn });
+        changed = true;
+      }
+      if (!changed) diff.unchanged++;
+    }
+
+    for (const [key, entry] of live) {
+      if (!seen.has(key)) diff.removed.push(entry);
+    }
+
+    return diff;
+  }
+
+  /**
+   * Fingerprint of the live and raw product tables
+   * A staged run is only committed while this is unchanged since the dry run
+   */
+  fingerprint(): string {
+    const hash = createHash('sha1');
+    const products = this.db.prepare(`
+      SELECT business_key, platform, aer_rate, frn FROM available_products ORDER BY id
+    `).raw().all();
+    hash.update(JSON.stringify(products));
+    const raw = this.db.prepare(`SELECT COUNT(*), MAX(id), MAX(imported_at) FROM available_products_raw`).raw().get();
+    hash.update(JSON.stringify(raw));
+    return hash.digest('hex');
+  }
+
+  private productKey(businessKey: string, platform: string): string {
+    return `${businessKey}::${platform}`;
+  }
+
+  private fallbackKey(bankName: string, accountType: string, termMonths: number | null, noticePeriodDays: number | null): string {
+    return [bankName.toUpperCase(), accountType, termMonths ? `term_${termMonths}` : null, noticePeriodDays ? `notice_${noticePeriodDays}` : null]
+      .filter(Boolean)
+      .join('|');
+  }
+}
@@ -0,0 +1,169 @@
+import Database from 'better-sqlite3';
+import { FinalProduct } from './DeduplicationService';
+import { logger } from '../utils/PipelineLogger';
+
+export interface ProductHistoryRunSummary {
+  runDate: string;
+  newProducts: number;      // First listing, or back on sale after being withdrawn
+  rateChanges: number;
+  withdrawn: number;
+  unchanged: number;
+}
+
+interface ProductHistoryRow {
+  id: number;
+  business_key: string;
+  platform: string;
+  current_rate: number;
+  withdrawn_on: string | null;
+}
+
+const HISTORY_TABLES = ['product_history', 'product_rate_changes', 'market_rate_snapshots'];
+
+/**
+ * Product History Service
+ *
+ * Records each run's final products against the market history kept by
+ * migration 012: first/last seen dates, rate changes and withdrawals per
+ * business key and platform, plus a best-buy snapshot per account type.
+ * Each run is treated as the whole market, as it is for available_products,
+ * so anything missing from a run is marked withdrawn.
+ *
+ * All methods are synchronous so they can run inside the persistence transaction.
+ */
+export class ProductHistoryService {
+  private available: boolean | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Whether the history tables have been migrated
+   */
+  isAvailable(): boolean {
+    if (this.available === null) {
+      const rows = this.db.prepare(`
+        SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (${HISTORY_TABLES.map(() => '?').join(', ')})
+      `).all(...HISTORY_TABLES) as Array<{ name: string }>;
+      this.available = rows.length === HISTORY_TABLES.length;
+    }
+    return this.available;
+  }
+
+  /**
+   * Record a run's products in the history
+   * Returns null when the history tables have not been migrated
+   */
+  recordRun(products: FinalProduct[], runDate: string = new Date().toISOString().split('T')[0]!): ProductHistoryRunSummary | null {
+    if (!this.isAvailable()) {
+      logger.warn('⚠️ Product history tables missing (run migration 012) - history not recorded');
+      return null;
+    }
+
+    const summary: ProductHistoryRunSummary = { runDate, newProducts: 0, rateChanges: 0, withdrawn: 0, unchanged: 0 };
+
+    // An empty run (failed scrape or cleared dataset) says nothing about the market
+    if (products.length === 0) {
+      logger.debug('📈 No products in run - product history unchanged');
+      return summary;
+    }
+
+    const existing = new Map<string, ProductHistoryRow>();
+    const rows = this.db.prepare(`
+      SELECT id, business_key, platform, current_rate, withdrawn_on FROM product_history
+    `).all() as ProductHistoryRow[];
+    for (const row of rows) {
+      existing.set(this.historyKey(row.business_key, row.platform), row);
+    }
+
+    const insertProduct = this.db.prepare(`
+      INSERT INTO product_history (
+        business_key, platform, bank_name, frn, account_type, term_months,
+        notice_period_days, current_rate, first_seen, last_seen
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const updateProduct = this.db.prepare(`
+      UPDATE product_history
+      SET bank_name = ?, frn = ?, current_rate = ?, last_seen = ?, withdrawn_on = NULL
+      WHERE id = ?
+    `);
+    const insertRateChange = this.db.prepare(`
+      INSERT INTO product_rate_changes (product_history_id, change_date, previous_rate, new_rate)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    const seen = new Set<string>();
+    for (const product of products) {
+      const key = this.historyKey(product.businessKey, product.platform);
+      if (seen.has(key)) continue; // Same product selected twice in one run
+      seen.add(key);
+
+      const row = existing.get(key);
+      if (!row) {
+        const result = insertProduct.run(
+          product.businessKey,
+          product.platform,
+          product.bankName,
+          product.frn || null,
+          product.accountType,
+          product.termMonths || null,
+          product.noticePeriodDays || null,
+          product.aerRate,
+          runDate,
+          runDate
+        );
+        insertRateChange.run(result.lastInsertRowid, runDate, null, product.aerRate);
+        summary.newProducts++;
+        continue;
+      }
+
+      updateProduct.run(product.bankName, product.frn || null, product.aerRate, runDate, row.id);
+      if (row.current_rate !== product.aerRate) {
+        insertRateChange.run(row.id, runDate, row.current_rate, product.aerRate);
+        summary.rateChanges++;
+      }
+      if (row.withdrawn_on) {
+        summary.newProducts++;
+      } else if (row.current_rate === product.aerRate) {
+        summary.unchanged++;
+      }
+    }
+
+    const markWithdrawn = this.db.prepare(`UPDATE product_history SET withdrawn_on = ? WHERE id = ?`);
+    for (const [key, row] of existing) {
+      if (!seen.has(key) && !row.withdrawn_on) {
+        markWithdrawn.run(runDate, row.id);
+        summary.withdrawn++;
+      }
+    }
+
+    this.recordMarketSnapshot(products, runDate);
+
+    logger.info(`📈 Product history: ${summary.newProducts} new, ${summary.rateChanges} rate changes, ${summary.withdrawn} withdrawn`);
+    return summary;
+  }
+
+  /**
+   * Best and average rate per account type for the run date (a rerun replaces it)
+   */
+  private recordMarketSnapshot(products: FinalProduct[], runDate: string): void {
+    const byType = new Map<string, number[]>();
+    for (const product of products) {
+      const rates = byType.get(product.accountType) || [];
+      rates.push(product.aerRate);
+      byType.set(product.accountType, rates);
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO market_rate_snapshots (snapshot_date, account_type, best_rate, average_rate, product_count)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const [accountType, rates] of byType) {
+      const average = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+      upsert.run(runDate, accountType, Math.max(...rates), average, rates.length);
+    }
+  }
+
+  private historyKey(businessKey: string, platform: string): string {
+    return `${businessKey}|${platform}`;
+  }
+}
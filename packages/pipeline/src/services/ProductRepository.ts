@@ -0,0 +1,158 @@
+import Database from 'better-sqlite3';
+import { FinalProduct } from './DeduplicationService';
+import { logger } from '../utils/PipelineLogger';
+
+/**
+ * available_products columns written for each final product, in insert order
+ * created_at is left to the table default
+ */
+export const AVAILABLE_PRODUCT_COLUMNS = [
+  'platform',
+  'bank_name',
+  'account_type',
+  'aer_rate',
+  'gross_rate',
+  'term_months',
+  'notice_period_days',
+  'min_deposit',
+  'max_deposit',
+  'fscs_protected',
+  'frn',
+  'interest_payment_frequency',
+  'apply_by_date',
+  'special_features',
+  'scrape_date',
+  'confidence_score',
+  'source',
+  'business_key',
+  'deduplication_metadata',
+  'raw_platform'
+] as const;
+
+export interface ProductWriteOptions {
+  // All or nothing: the table is left as it was if any part of the stage fails
+  atomic: boolean;
+  // Further writes that belong to the same stage (e.g. product history), run after the inserts
+  afterWrite?: (products: FinalProduct[]) => void;
+}
+
+export interface ProductWriteResult {
+  previousCount: number;
+  insertedCount: number;
+  atomic: boolean;
+}
+
+/**
+ * Product Repository
+ *
+ * The single write path for available_products. Each pipeline run replaces
+ * the table with its final products through replaceAll(), which checks the
+ * table has every column written and validates every product before
+ * touching the table.
+ *
+ * Stage contract:
+ * - atomic: the delete, inserts, count check and afterWrite run as one unit.
+ *   On any error the stage is rolled back (to a savepoint when the caller
+ *   already holds a transaction, as the atomic pipeline does) and rethrown.
+ * - non-atomic: statements commit as they run. A failure part way through
+ *   can leave the table partially written; the error is rethrown for the
+ *   caller to report. Validation failures never write anything in either mode.
+ */
+export class ProductRepository {
+  private schemaChecked: boolean = false;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Replace available_products with a run's final products
+   */
+  replaceAll(products: FinalProduct[], options: ProductWriteOptions): ProductWriteResult {
+    this.ensureSchema();
+    products.forEach((product, index) => this.validateProduct(product, index));
+
+    const write = (): ProductWriteResult => {
+      const previous = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
+
+      this.db.prepare(`DELETE FROM available_products`).run();
+
+      const insertStmt = this.db.prepare(`
+        INSERT INTO available_products (${AVAILABLE_PRODUCT_COLUMNS.join(', ')})
+        VALUES (${AVAILABLE_PRODUCT_COLUMNS.map(() => '?').join(', ')})
+      `);
+      for (const product of products) {
+        insertStmt.run(this.toRow(product));
+      }
+
+      const final = this.db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number };
+      if (final.count !== products.length) {
+        throw new Error(`Data integrity error: expected ${products.length}, got ${final.count}`);
+      }
+
+      options.afterWrite?.(products);
+
+      logger.debug(`Replaced ${previous.count} products with ${products.length} new products`);
+      return { previousCount: previous.count, insertedCount: products.length, atomic: options.atomic };
+    };
+
+    return options.atomic ? this.db.transaction(write)() : write();
+  }
+
+  /**
+   * Column values for a product, in AVAILABLE_PRODUCT_COLUMNS order
+   */
+  toRow(product: FinalProduct): Array<string | number | null> {
+    return [
+      product.platform,
+      product.bankName,
+      product.accountType,
+      product.aerRate,
+      product.grossRate ?? null,
+      product.termMonths || null,
+      product.noticePeriodDays || null,
+      product.minDeposit ?? null,
+      product.maxDeposit ?? null,
+      product.fscsProtected ? 1 : 0,
+      product.frn || null,
+      product.interestPaymentFrequency || null,
+      product.applyByDate || null,
+      product.specialFeatures || null,
+      product.scrapeDate || new Date().toISOString().split('T')[0]!,
+      product.confidenceScore || 1.0,
+      product.source || null,
+      product.businessKey || null,
+      this.serializeMetadata(product.deduplicationMetadata),
+      product.platform // raw_platform same as platform
+    ];
+  }
+
+  /**
+   * Fail before writing if available_products is missing a column we write
+   */
+  private ensureSchema(): void {
+    if (this.schemaChecked) return;
+
+    const columns = this.db.prepare(`PRAGMA table_info(available_products)`).all() as Array<{ name: string }>;
+    if (columns.length === 0) {
+      throw new Error('available_products table does not exist');
+    }
+
+    const existing = new Set(columns.map(column => column.name));
+    const missing = AVAILABLE_PRODUCT_COLUMNS.filter(column => !existing.has(column));
+    if (missing.length > 0) {
+      throw new Error(`available_products is missing columns: ${missing.join(', ')}`);
+    }
+
+    this.schemaChecked = true;
+  }
+
+  private validateProduct(product: FinalProduct, index: number): void {
+    if (!product.bankName || !product.platform || typeof product.aerRate !== 'number' || isNaN(product.aerRate)) {
+      throw new Error(`Invalid product data at index ${index}: missing required fields`);
+    }
+  }
+
+  private serializeMetadata(metadata: unknown): string | null {
+    if (metadata === undefined || metadata === null) return null;
+    return typeof metadata === 'string' ? metadata : JSON.stringify(metadata);
+  }
+}
@@ -0,0 +1,447 @@
+import Database from 'better-sqlite3';
+import { EnrichedProduct } from './FRNMatchingService';
+import { FinalProduct } from './DeduplicationService';
+import { ProductHistoryService } from './ProductHistoryService';
+import { logger } from '../utils/PipelineLogger';
+
+export type RateAnomalyType = 'rate_jump' | 'cross_platform_spread' | 'product_count_collapse' | 'term_inversion';
+
+export interface RateAnomaly {
+  type: RateAnomalyType;
+  severity: 'medium' | 'high';
+  platform: string;
+  bankName?: string;        // Not set for platform-level anomalies
+  businessKey?: string;
+  frn?: string;
+  actualValue: number;      // Rate, or product count for a collapse
+  baselineValue: number;    // What the actual value was compared with
+  description: string;
+  quarantined: boolean;
+}
+
+export interface RateAnomalyConfig {
+  enabled: boolean;
+  rateJumpThreshold: number;          // Percentage points from the last listed rate
+  rateJumpZScore: number;             // Applied once a product has 3+ rates
+  rateHistoryWindow: number;
+  crossPlatformThreshold: number;     // Percentage points from the other platforms' median
+  countCollapseThreshold: number;     // Fractional drop versus recent batches
+  countHistoryBatches: number;
+  termInversionTolerance: number;     // Percentage points beyond the market curve
+  quarantineAnomalies: boolean;
+}
+
+export interface RateAnomalyResult {
+  anomalies: RateAnomaly[];
+  products: FinalProduct[];           // Selected products less any quarantined
+  quarantined: FinalProduct[];
+}
+
+// Previous batches needed before a platform's count is judged
+const MIN_COUNT_HISTORY = 2;
+
+/**
+ * Rate Anomaly Detector
+ *
+ * Statistical checks on a run's products before they are persisted, against
+ * baselines the hard-coded data quality checks cannot see:
+ * - rate_jump: a product's rate far from its own history (migration 012)
+ * - cross_platform_spread: the same bank and term quoted very differently across platforms
+ * - product_count_collapse: a platform listing far fewer products than in its last
+ *   batches, usually a broken scraper (migration 016 keeps the counts)
+ * - term_inversion: a bank's longer term paying less than its shorter term by more
+ *   than the market curve does
+ *
+ * High severity anomalies that belong to a single product can be quarantined:
+ * the product is left out of the products to persist and the anomaly is marked.
+ * All methods are synchronous so they can run inside the pipeline transaction.
+ */
+export class RateAnomalyDetector {
+  private config: RateAnomalyConfig;
+  private historyService: ProductHistoryService;
+  private countsAvailable: boolean | null = null;
+
+  constructor(private db: Database.Database, config?: Partial<RateAnomalyConfig>) {
+    this.historyService = new ProductHistoryService(db);
+    this.config = {
+      enabled: config?.enabled ?? true,
+      rateJumpThreshold: config?.rateJumpThreshold ?? 1.0,
+      rateJumpZScore: config?.rateJumpZScore ?? 3,
+      rateHistoryWindow: config?.rateHistoryWindow ?? 10,
+      crossPlatformThreshold: config?.crossPlatformThreshold ?? 1.0,
+      countCollapseThreshold: config?.countCollapseThreshold ?? 0.5,
+      countHistoryBatches: config?.countHistoryBatches ?? 5,
+      termInversionTolerance: config?.termInversionTolerance ?? 0.75,
+      quarantineAnomalies: config?.quarantineAnomalies ?? false
+    };
+  }
+
+  /**
+   * Load thresholds from unified_config (data_quality category)
+   */
+  loadConfiguration(): void {
+    const rows = this.db.prepare(`
+      SELECT config_key, config_value
+      FROM unified_config
+      WHERE category = 'data_quality'
+    `).all() as Array<{ config_key: string; config_value: string }>;
+
+    for (const row of rows) {
+      const value = row.config_value;
+      switch (row.config_key.replace('data_quality_', '')) {
+        case 'enable_anomaly_detection':
+          this.config.enabled = value === 'true';
+          break;
+        case 'rate_jump_threshold':
+          this.config.rateJumpThreshold = parseFloat(value);
+          break;
+        case 'rate_jump_z_score':
+          this.config.rateJumpZScore = parseFloat(value);
+          break;
+        case 'rate_history_window':
+          this.config.rateHistoryWindow = parseInt(value);
+          break;
+        case 'cross_platform_threshold':
+          this.config.crossPlatformThreshold = parseFloat(value);
+          break;
+        case 'count_collapse_threshold':
+          this.config.countCollapseThreshold = parseFloat(value);
+          break;
+        case 'count_history_batches':
+          this.config.countHistoryBatches = parseInt(value);
+          break;
+        case 'term_inversion_tolerance':
+          this.config.termInversionTolerance = parseFloat(value);
+          break;
+        case 'quarantine_anomalies':
+          this.config.quarantineAnomalies = value === 'true';
+          break;
+      }
+    }
+  }
+
+  /**
+   * Check a run's products against their baselines
+   * listings are every enriched product before deduplication (all platforms);
+   * selected are the deduplicated products that would be persisted
+   */
+  detect(batchId: string, listings: EnrichedProduct[], selected: FinalProduct[]): RateAnomalyResult {
+    if (!this.config.enabled) {
+      return { anomalies: [], products: selected, quarantined: [] };
+    }
+
+    // Product-level anomalies keyed by the product they belong to, for quarantine
+    const flagged: Array<{ anomaly: RateAnomaly; productKey?: string }> = [
+      ...this.detectRateJumps(selected),
+      ...this.detectCrossPlatformSpreads(listings, selected),
+      ...this.detectCountCollapses(batchId, listings),
+      ...this.detectTermInversions(selected)
+    ];
+
+    const quarantineKeys = new Set<string>();
+    if (this.config.quarantineAnomalies) {
+      for (const entry of flagged) {
+        if (entry.productKey && entry.anomaly.severity === 'high') {
+          entry.anomaly.quarantined = true;
+          quarantineKeys.add(entry.productKey);
+        }
+      }
+    }
+
+    const products: FinalProduct[] = [];
+    const quarantined: FinalProduct[] = [];
+    for (const product of selected) {
+      (quarantineKeys.has(this.productKey(product)) ? quarantined : products).push(product);
+    }
+
+    const anomalies = flagged.map(entry => entry.anomaly);
+    if (anomalies.length > 0) {
+      logger.warn(`⚠️ ${anomalies.length} rate anomalies detected${quarantined.length > 0 ? `, ${quarantined.length} products quarantined` : ''}`);
+    }
+
+    return { anomalies, products, quarantined };
+  }
+
+  /**
+   * Rates that moved further from the product's last listed rate than the threshold,
+   * and further from its recent history than its own volatility explains
+   */
+  private detectRateJumps(selected: FinalProduct[]): Array<{ anomaly: RateAnomaly; productKey: string }> {
+    if (!this.historyService.isAvailable()) return [];
+
+    const recentRates = this.db.prepare(`
+      SELECT c.new_rate
+      FROM product_rate_changes c
+      JOIN product_history h ON h.id = c.product_history_id
+      WHERE h.business_key = ? AND h.platform = ?
+      ORDER BY c.change_date DESC, c.id DESC
+      LIMIT ?
+    `);
+
+    const flagged: Array<{ anomaly: RateAnomaly; productKey: string }> = [];
+    for (const product of selected) {
+      const rates = (recentRates.all(product.businessKey, product.platform, this.config.rateHistoryWindow) as Array<{ new_rate: number }>)
+        .map(row => row.new_rate);
+      if (rates.length === 0) continue; // First listing - no history to compare with
+
+      const lastRate = rates[0]!;
+      const jump = product.aerRate - lastRate;
+      if (Math.abs(jump) < this.config.rateJumpThreshold) continue;
+
+      // A product that has moved this much before is not anomalous
+      if (rates.length >= 3) {
+        const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+        const stdDev = Math.sqrt(rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / rates.length);
+        if (stdDev > 0 && Math.abs(product.aerRate - mean) / stdDev < this.config.rateJumpZScore) continue;
+      }
+
+      flagged.push({
+        productKey: this.productKey(product),
+        anomaly: {
+          type: 'rate_jump',
+          severity: Math.abs(jump) >= this.config.rateJumpThreshold * 2 ? 'high' : 'medium',
+          platform: product.platform,
+          bankName: product.bankName,
+          businessKey: product.businessKey,
+          frn: product.frn,
+          actualValue: product.aerRate,
+          baselineValue: lastRate,
+          description: `${this.describeProduct(product)} moved from ${lastRate.toFixed(2)}% to ${product.aerRate.toFixed(2)}% (${this.formatPoints(jump)})`,
+          quarantined: false
+        }
+      });
+    }
+    return flagged;
+  }
+
+  /**
+   * The same bank and term quoted far from its median across platforms
+   * With only two platforms the outlier cannot be told apart, so the higher quote
+   * is compared with the other, flagged at medium severity and never quarantined
+   */
+  private detectCrossPlatformSpreads(
+    listings: EnrichedProduct[],
+    selected: FinalProduct[]
+  ): Array<{ anomaly: RateAnomaly; productKey?: string }> {
+    // Best quote per platform for each bank and term
+    const groups = new Map<string, Map<string, EnrichedProduct>>();
+    for (const listing of listings) {
+      const key = this.marketKey(listing);
+      const byPlatform = groups.get(key) || new Map<string, EnrichedProduct>();
+      const current = byPlatform.get(listing.platform);
+      if (!current || listing.aerRate > current.aerRate) {
+        byPlatform.set(listing.platform, listing);
+      }
+      groups.set(key, byPlatform);
+    }
+
+    const selectedByKey = new Map(selected.map(product => [this.productKey(product), product]));
+    const flagged: Array<{ anomaly: RateAnomaly; productKey?: string }> = [];
+
+    for (const byPlatform of groups.values()) {
+      if (byPlatform.size < 2) continue;
+      const quotes = Array.from(byPlatform.values());
+
+      const candidates = quotes.length === 2
+        ? [quotes[0]!.aerRate >= quotes[1]!.aerRate ? quotes[0]! : quotes[1]!]
+        : quotes;
+
+      const median = this.median(quotes.map(quote => quote.aerRate));
+      for (const quote of candidates) {
+        const baseline = quotes.length === 2 ? quotes.find(other => other !== quote)!.aerRate : median;
+        const gap = quote.aerRate - baseline;
+        if (Math.abs(gap) <= this.config.crossPlatformThreshold) continue;
+
+        const productKey = this.productKey(quote);
+        const product = selectedByKey.get(productKey);
+        flagged.push({
+          productKey: quotes.length > 2 && product ? productKey : undefined,
+          anomaly: {
+            type: 'cross_platform_spread',
+            severity: quotes.length > 2 && Math.abs(gap) >= this.config.crossPlatformThreshold * 2 ? 'high' : 'medium',
+            platform: quote.platform,
+            bankName: quote.bankName,
+            businessKey: product?.businessKey,
+            frn: quote.frn,
+            actualValue: quote.aerRate,
+            baselineValue: baseline,
+            description: `${this.describeProduct(quote)} at ${quote.aerRate.toFixed(2)}% against ${quotes.length === 2 ? `${baseline.toFixed(2)}% on the other platform` : `a ${baseline.toFixed(2)}% median across ${quotes.length} platforms`} (${this.formatPoints(gap)})`,
+            quarantined: false
+          }
+        });
+      }
+    }
+    return flagged;
+  }
+
+  /**
+   * Platforms listing far fewer products than their recent average, then records
+   * this batch's counts as the baseline for the next run
+   */
+  private detectCountCollapses(batchId: string, listings: EnrichedProduct[]): Array<{ anomaly: RateAnomaly }> {
+    if (!this.isCountHistoryAvailable()) {
+      logger.warn('⚠️ platform_product_counts table missing (run migration 016) - product count collapses not checked');
+      return [];
+    }
+
+    const counts = new Map<string, number>();
+    for (const listing of listings) {
+      counts.set(listing.platform, (counts.get(listing.platform) || 0) + 1);
+    }
+
+    // Most recent batches first, limited per platform below
+    const rows = this.db.prepare(`
+      SELECT platform, product_count
+      FROM platform_product_counts
+      WHERE batch_id != ?
+      ORDER BY recorded_at DESC, rowid DESC
+    `).all(batchId) as Array<{ platform: string; product_count: number }>;
+
+    const history = new Map<string, number[]>();
+    for (const row of rows) {
+      const previous = history.get(row.platform) || [];
+      if (previous.length < this.config.countHistoryBatches) {
+        previous.push(row.product_count);
+      }
+      history.set(row.platform, previous);
+    }
+
+    const flagged: Array<{ anomaly: RateAnomaly }> = [];
+    for (const [platform, previous] of history) {
+      if (previous.length < MIN_COUNT_HISTORY) continue;
+
+      const average = previous.reduce((sum, count) => sum + count, 0) / previous.length;
+      const count = counts.get(platform) || 0;
+      const drop = average > 0 ? (average - count) / average : 0;
+      if (drop < this.config.countCollapseThreshold) continue;
+
+      flagged.push({
+        anomaly: {
+          type: 'product_count_collapse',
+          severity: drop >= (1 + this.config.countCollapseThreshold) / 2 ? 'high' : 'medium',
+          platform,
+          actualValue: count,
+          baselineValue: average,
+          description: `${platform} listed ${count} products against an average of ${Math.round(average)} over its last ${previous.length} batches (${Math.round(drop * 100)}% drop) - check the scraper`,
+          quarantined: false
+        }
+      });
+    }
+
+    const record = this.db.prepare(`
+      INSERT OR REPLACE INTO platform_product_counts (batch_id, platform, product_count)
+      VALUES (?, ?, ?)
+    `);
+    for (const [platform, count] of counts) {
+      record.run(batchId, platform, count);
+    }
+
+    return flagged;
+  }
+
+  /**
+   * A bank's longer fixed term paying less than its next shorter term, by more
+   * than the market's median curve falls between the same two terms
+   * The anomaly belongs to whichever of the two rates is further from its term's median
+   */
+  private detectTermInversions(selected: FinalProduct[]): Array<{ anomaly: RateAnomaly; productKey: string }> {
+    const fixedTerm = selected.filter(product => product.accountType === 'fixed_term' && product.termMonths);
+
+    const ratesByTerm = new Map<number, number[]>();
+    for (const product of fixedTerm) {
+      const rates = ratesByTerm.get(product.termMonths!) || [];
+      rates.push(product.aerRate);
+      ratesByTerm.set(product.termMonths!, rates);
+    }
+    const marketCurve = new Map(Array.from(ratesByTerm, ([term, rates]) => [term, this.median(rates)]));
+
+    // Best rate per term for each bank on each platform
+    const ladders = new Map<string, Map<number, FinalProduct>>();
+    for (const product of fixedTerm) {
+      const key = `${product.frn || product.bankNameNormalized}|${product.platform}`;
+      const ladder = ladders.get(key) || new Map<number, FinalProduct>();
+      const current = ladder.get(product.termMonths!);
+      if (!current || product.aerRate > current.aerRate) {
+        ladder.set(product.termMonths!, product);
+      }
+      ladders.set(key, ladder);
+    }
+
+    const flagged: Array<{ anomaly: RateAnomaly; productKey: string }> = [];
+    for (const ladder of ladders.values()) {
+      const rungs = Array.from(ladder.values()).sort((a, b) => a.termMonths! - b.termMonths!);
+
+      for (let i = 1; i < rungs.length; i++) {
+        const shorter = rungs[i - 1]!;
+        const longer = rungs[i]!;
+        const bankSlope = longer.aerRate - shorter.aerRate;
+        if (bankSlope >= 0) continue;
+
+        const shorterMarket = marketCurve.get(shorter.termMonths!)!;
+        const longerMarket = marketCurve.get(longer.termMonths!)!;
+        const excess = (longerMarket - shorterMarket) - bankSlope;
+        if (excess <= this.config.termInversionTolerance) continue;
+
+        const outlier = shorter.aerRate - shorterMarket >= longerMarket - longer.aerRate ? shorter : longer;
+        const outlierMarket = outlier === shorter ? shorterMarket : longerMarket;
+
+        flagged.push({
+          productKey: this.productKey(outlier),
+          anomaly: {
+            type: 'term_inversion',
+            severity: excess >= this.config.termInversionTolerance * 2 ? 'high' : 'medium',
+            platform: outlier.platform,
+            bankName: outlier.bankName,
+            businessKey: outlier.businessKey,
+            frn: outlier.frn,
+            actualValue: outlier.aerRate,
+            baselineValue: outlierMarket,
+            description: `${outlier.bankName} (${outlier.platform}) ${longer.termMonths}m fixed at ${longer.aerRate.toFixed(2)}% is below its ${shorter.termMonths}m fixed at ${shorter.aerRate.toFixed(2)}%; the market pays ${longerMarket.toFixed(2)}% and ${shorterMarket.toFixed(2)}%`,
+            quarantined: false
+          }
+        });
+      }
+    }
+    return flagged;
+  }
+
+  private isCountHistoryAvailable(): boolean {
+    if (this.countsAvailable === null) {
+      const row = this.db.prepare(`
+        SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'platform_product_counts'
+      `).get();
+      this.countsAvailable = !!row;
+    }
+    return this.countsAvailable;
+  }
+
+  /**
+   * Bank, account type and term/notice - the same product whatever the platform
+   */
+  private marketKey(product: EnrichedProduct): string {
+    return `${product.frn || product.bankNameNormalized}|${product.accountType}|${product.termMonths ?? ''}|${product.noticePeriodDays ?? ''}`;
+  }
+
+  private productKey(product: EnrichedProduct): string {
+    return `${this.marketKey(product)}|${product.platform}`;
+  }
+
+  private describeProduct(product: EnrichedProduct): string {
+    const term = product.termMonths
+      ? `${product.termMonths}m fixed`
+      : product.noticePeriodDays
+        ? `${product.noticePeriodDays}d notice`
+        : product.accountType.replace(/_/g, ' ');
+    return `${product.bankName} (${product.platform}) ${term}`;
+  }
+
+  private formatPoints(change: number): string {
+    return `${change > 0 ? '+' : ''}${change.toFixed(2)}pp`;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+  }
+}
@@ -0,0 +1,174 @@
+import Database from 'better-sqlite3';
+import { PipelineSourceStatus } from '@cash-mgmt/shared';
+import { logger } from '../utils/PipelineLogger';
+
+interface SourceStatusRow {
+  source: string;
+  platforms: string | null;
+  last_batch_id: string | null;
+  last_ingested_at: string | null;
+  last_scrape_date: string | null;
+  raw_product_count: number;
+  final_product_count: number;
+  carried_forward: number;
+}
+
+/**
+ * Source Status Service
+ *
+ * Tracks each scraper source in the merged product set kept by migration 017:
+ * when it was last ingested, its raw and final product counts, and whether its
+ * products were carried forward from available_products because it has no raw
+ * products to rebuild from. A source not ingested within the stale threshold
+ * is reported as stale.
+ *
+ * All methods are synchronous so they can run inside the persistence transaction.
+ */
+export class SourceStatusService {
+  private available: boolean | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Whether the source status table has been migrated
+   */
+  isAvailable(): boolean {
+    if (this.available === null) {
+      const row = this.db.prepare(`
+        SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'pipeline_source_status'
+      `).get();
+      this.available = !!row;
+    }
+    return this.available;
+  }
+
+  /**
+   * Record the sources a batch ingested
+   */
+  recordIngestion(batchId: string, sources: string[], ingestedAt: Date = new Date()): void {
+    if (!this.isAvailable()) {
+      logger.warn('⚠️ pipeline_source_status table missing (run migration 017) - source freshness not recorded');
+      return;
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT INTO pipeline_source_status (source, last_batch_id, last_ingested_at, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(source) DO UPDATE SET
+        last_batch_id = excluded.last_batch_id,
+        last_ingested_at = excluded.last_ingested_at,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    for (const source of new Set(sources)) {
+      upsert.run(source, batchId, ingestedAt.toISOString());
+    }
+  }
+
+  /**
+   * Refresh every source's counts from the raw and final tables
+   * A source with final products but no raw products was carried forward
+   */
+  refreshCounts(): void {
+    if (!this.isAvailable()) return;
+
+    const raw = this.db.prepare(`
+      SELECT source, GROUP_CONCAT(DISTINCT platform) as platforms, COUNT(*) as count,
+             MAX(scrape_date) as last_scrape_date, MAX(created_at) as last_created_at
+      FROM available_products_raw
+      GROUP BY source
+    `).all() as Array<{ source: string; platforms: string | null; count: number; last_scrape_date: string | null; last_created_at: string | null }>;
+
+    const final = this.db.prepare(`
+      SELECT source, GROUP_CONCAT(DISTINCT platform) as platforms, COUNT(*) as count, MAX(scrape_date) as last_scrape_date
+      FROM available_products
+      GROUP BY source
+    `).all() as Array<{ source: string; platforms: string | null; count: number; last_scrape_date: string | null }>;
+
+    const rawBySource = new Map(raw.map(row => [row.source, row]));
+    const finalBySource = new Map(final.map(row => [row.source, row]));
+    const sources = new Set([...rawBySource.keys(), ...finalBySource.keys()]);
+
+    // Sources ingested before tracking began take the age of their raw products
+    const upsert = this.db.prepare(`
+      INSERT INTO pipeline_source_status (
+        source, platforms, last_ingested_at, last_scrape_date,
+        raw_product_count, final_product_count, carried_forward, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(source) DO UPDATE SET
+        platforms = excluded.platforms,
+        last_ingested_at = COALESCE(pipeline_source_status.last_ingested_at, excluded.last_ingested_at),
+        last_scrape_date = excluded.last_scrape_date,
+        raw_product_count = excluded.raw_product_count,
+        final_product_count = excluded.final_product_count,
+        carried_forward = excluded.carried_forward,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    const zeroMissing = this.db.prepare(`
+      UPDATE pipeline_source_status
+      SET raw_product_count = 0, final_product_count = 0, carried_forward = 0, updated_at = CURRENT_TIMESTAMP
+      WHERE source = ?
+    `);
+
+    for (const source of sources) {
+      const rawRow = rawBySource.get(source);
+      const finalRow = finalBySource.get(source);
+      upsert.run(
+        source,
+        rawRow?.platforms ?? finalRow?.platforms ?? null,
+        this.toIsoTimestamp(rawRow?.last_created_at ?? null),
+        rawRow?.last_scrape_date ?? finalRow?.last_scrape_date ?? null,
+        rawRow?.count ?? 0,
+        finalRow?.count ?? 0,
+        !rawRow && finalRow ? 1 : 0
+      );
+    }
+
+    // Sources no longer in either table keep their history with no products
+    const tracked = this.db.prepare(`SELECT source FROM pipeline_source_status`).all() as Array<{ source: string }>;
+    for (const { source } of tracked) {
+      if (!sources.has(source)) zeroMissing.run(source);
+    }
+  }
+
+  /**
+   * Every tracked source, oldest first
+   */
+  getStatus(staleHours: number, now: Date = new Date()): PipelineSourceStatus[] {
+    if (!this.isAvailable()) return [];
+
+    const rows = this.db.prepare(`
+      SELECT source, platforms, last_batch_id, last_ingested_at, last_scrape_date,
+             raw_product_count, final_product_count, carried_forward
+      FROM pipeline_source_status
+      ORDER BY last_ingested_at IS NOT NULL, last_ingested_at, source
+    `).all() as SourceStatusRow[];
+
+    return rows.map(row => {
+      const ageHours = row.last_ingested_at
+        ? Math.max(0, (now.getTime() - new Date(row.last_ingested_at).getTime()) / 3_600_000)
+        : null;
+      const hasProducts = row.raw_product_count > 0 || row.final_product_count > 0;
+      return {
+        source: row.source,
+        platforms: row.platforms ? row.platforms.split(',') : [],
+        lastBatchId: row.last_batch_id,
+        lastIngestedAt: row.last_ingested_at,
+        lastScrapeDate: row.last_scrape_date,
+        rawProductCount: row.raw_product_count,
+        finalProductCount: row.final_product_count,
+        carriedForward: row.carried_forward === 1,
+        ageHours: ageHours === null ? null : Math.round(ageHours * 10) / 10,
+        // A source with products that is old or of unknown age; one with none has nothing to go stale
+        stale: hasProducts && (ageHours === null || ageHours > staleHours || row.carried_forward === 1)
+      };
+    });
+  }
+
+  /**
+   * SQLite CURRENT_TIMESTAMP is UTC without a zone ('YYYY-MM-DD HH:MM:SS')
+   */
+  private toIsoTimestamp(value: string | null): string | null {
+    if (!value) return null;
+    return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}.000Z` : value;
+  }
+}
@@ -0,0 +1,241 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * In-memory database for service tests
+ *
+ * Builds the product tables the pipeline writes, the BoE register tables
+ * and lookup cache FRN matching uses and the unified_config table the migrations seed,
+ * then applies the named migrations, so suites
+ * that only exercise a few services do not need the Phase 4 template
+ * database that TestDatabase copies.
+ */
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../../data/database/migrations');
+
+const BASE_SCHEMA = `
+  CREATE TABLE available_products_raw (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    platform TEXT,
+    source TEXT,
+    method TEXT,
+    bank_name TEXT,
+    frn TEXT,
+    account_type TEXT,
+    aer_rate REAL,
+    gross_rate REAL,
+    term_months INT,
+    notice_period_days INT,
+    min_deposit INT,
+    max_deposit INT,
+    fscs_protected NUM,
+    interest_payment_frequency TEXT,
+    apply_by_date NUM,
+    special_features TEXT,
+    scrape_date NUM,
+    confidence_score REAL,
+    fuzzy_match_notes TEXT,
+    created_at NUM,
+    business_key TEXT,
+    deduplication_metadata TEXT,
+    raw_platform TEXT,
+    imported_at,
+    processed_at,
+    dedup_status,
+    dedup_reason
+  );
+
+  CREATE TABLE available_products (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    platform TEXT,
+    source TEXT,
+    bank_name TEXT,
+    frn TEXT,
+    account_type TEXT,
+    aer_rate REAL,
+    gross_rate REAL,
+    term_months INT,
+    notice_period_days INT,
+    min_deposit INT,
+    max_deposit INT,
+    fscs_protected NUM,
+    interest_payment_frequency TEXT,
+    apply_by_date NUM,
+    special_features TEXT,
+    scrape_date NUM,
+    confidence_score REAL,
+    business_key TEXT,
+    deduplication_metadata TEXT,
+    raw_platform TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE boe_institutions (
+    frn TEXT PRIMARY KEY,
+    firm_name TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE boe_shared_brands (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    primary_frn TEXT NOT NULL REFERENCES boe_institutions(frn),
+    primary_firm_name TEXT NOT NULL,
+    trading_name TEXT NOT NULL,
+    brand_type TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE frn_manual_overrides (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    scraped_name TEXT NOT NULL,
+    frn TEXT,
+    firm_name TEXT,
+    confidence_score REAL DEFAULT 1.0,
+    notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE frn_lookup_helper_cache (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    frn TEXT NOT NULL,
+    canonical_name TEXT NOT NULL,
+    search_name TEXT NOT NULL,
+    match_type TEXT NOT NULL,
+    confidence_score REAL NOT NULL,
+    priority_rank INTEGER NOT NULL,
+    match_rank INTEGER NOT NULL DEFAULT 1,
+    source_table TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE VIEW frn_lookup_helper AS
+  SELECT frn, canonical_name, search_name, match_type, confidence_score, match_rank
+  FROM frn_lookup_helper_cache;
+
+  CREATE TABLE frn_research_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bank_name TEXT NOT NULL UNIQUE,
+    platform TEXT,
+    source TEXT,
+    product_count INTEGER DEFAULT 1,
+    min_rate REAL,
+    max_rate REAL,
+    avg_rate REAL,
+    first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+    status TEXT DEFAULT 'pending',
+    priority INTEGER DEFAULT 0,
+    researched_frn TEXT,
+    researched_firm_name TEXT,
+    research_notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE frn_matching_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id TEXT NOT NULL,
+    product_id TEXT,
+    original_bank_name TEXT NOT NULL,
+    normalized_bank_name TEXT,
+    normalization_steps TEXT,
+    database_query_method TEXT,
+    candidate_frns TEXT,
+    final_frn TEXT,
+    final_confidence DECIMAL(3,2),
+    decision_routing TEXT,
+    confidence_threshold_used TEXT,
+    added_to_research_queue NUMERIC DEFAULT 0,
+    research_queue_priority TEXT,
+    manual_override_frn TEXT,
+    manual_override_timestamp DATETIME,
+    processing_time_ms INTEGER,
+    database_query_time_ms INTEGER,
+    normalization_quality_score DECIMAL(3,2),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    match_type TEXT
+  );
+
+  CREATE TABLE institution_preferences (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    frn TEXT NOT NULL REFERENCES boe_institutions(frn),
+    bank_name TEXT NOT NULL,
+    personal_limit INTEGER DEFAULT 85000,
+    easy_access_required_above_fscs NUMERIC DEFAULT TRUE,
+    risk_notes TEXT,
+    trust_level TEXT DEFAULT 'medium',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE my_deposits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bank TEXT NOT NULL,
+    frn TEXT,
+    balance REAL DEFAULT 0,
+    is_active INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE unified_config (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    config_key TEXT NOT NULL UNIQUE,
+    config_value TEXT NOT NULL,
+    config_type TEXT NOT NULL DEFAULT 'string',
+    category TEXT NOT NULL,
+    description TEXT,
+    is_active INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+/**
+ * Open an in-memory database with the base tables and the named migrations
+ */
+export function createInMemoryDatabase(migrations: string[] = []): Database.Database {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  db.exec(BASE_SCHEMA);
+  for (const migration of migrations) {
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, migration), 'utf8'));
+  }
+  return db;
+}
+
+// The FRN matching parameters loadConfiguration requires, which the template database seeds
+const FRN_MATCHING_CONFIG: Array<[string, string, string]> = [
+  ['frn_matching_enabled', 'true', 'boolean'],
+  ['frn_matching_fuzzy_threshold', '0.85', 'number'],
+  ['frn_matching_max_edit_distance', '3', 'number'],
+  ['frn_matching_batch_size', '100', 'number'],
+  ['frn_matching_exact_match_confidence', '1.0', 'number'],
+  ['frn_matching_alias_match_confidence', '0.95', 'number'],
+  ['frn_matching_fuzzy_match_confidence', '0.85', 'number'],
+  ['frn_matching_confidence_threshold_high', '0.9', 'number'],
+  ['frn_matching_confidence_threshold_low', '0.7', 'number'],
+  ['frn_matching_enable_fuzzy', 'true', 'boolean'],
+  ['frn_matching_enable_alias', 'true', 'boolean'],
+  ['frn_matching_enable_audit_trail', 'true', 'boolean'],
+  ['frn_matching_enable_research_queue', 'true', 'boolean'],
+  ['frn_matching_normalization_enabled', 'true', 'boolean'],
+  ['frn_matching_normalization_prefixes', '["THE "]', 'json'],
+  ['frn_matching_normalization_suffixes', '[" PLC", " LIMITED", " LTD"]', 'json'],
+  ['frn_matching_normalization_abbreviations', '{"&": "AND"}', 'json'],
+  ['frn_matching_research_queue_max_size', '1000', 'number'],
+  ['frn_matching_auto_flag_unmatched', 'true', 'boolean'],
+  ['frn_matching_timeout_ms', '0', 'number'],
+  ['frn_matching_max_concurrent_lookups', '10', 'number'],
+  ['frn_matching_log_level', 'info', 'string']
+];
+
+/**
+ * Seed the FRN matching configuration so FRNMatchingService can load
+ */
+export function seedFRNMatchingConfig(db: Database.Database): void {
+  const insertConfig = db.prepare(`
+    INSERT OR IGNORE INTO unified_config (config_key, config_value, config_type, category) VALUES (?, ?, ?, 'frn_matching')
+  `);
+  for (const [key, value, type] of FRN_MATCHING_CONFIG) insertConfig.run(key, value, type);
+}
@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { JSONIngestionService } from '../../../services/JSONIngestionService';
+
+describe('JSON Ingestion - Source Adapters', () => {
+  let db: Database.Database;
+  let service: JSONIngestionService;
+  let tempDir: string;
+
+  // The ingestion parameters loadConfiguration requires, which the template database seeds
+  const ingestionConfig: Array<[string, string, string]> = [
+    ['json_ingestion_rate_filtering_enabled', 'false', 'boolean'],
+    ['json_ingestion_easy_access_min_rate', '0', 'number'],
+    ['json_ingestion_notice_min_rate', '0', 'number'],
+    ['json_ingestion_fixed_term_min_rate', '0', 'number'],
+    ['json_ingestion_aer_rate_min', '0', 'number'],
+    ['json_ingestion_aer_rate_max', '15', 'number'],
+    ['json_ingestion_term_months_min', '1', 'number'],
+    ['json_ingestion_term_months_max', '120', 'number'],
+    ['json_ingestion_notice_days_min', '0', 'number'],
+    ['json_ingestion_notice_days_max', '730', 'number'],
+    ['json_ingestion_data_corruption_threshold', '0.5', 'number'],
+    ['json_ingestion_batch_size', '1000', 'number'],
+    ['json_ingestion_timeout_ms', '300000', 'number'],
+    ['json_ingestion_validate_schema', 'true', 'boolean'],
+    ['json_ingestion_track_files', 'false', 'boolean']
+  ];
+
+  const writeInput = (fileName: string, content: string) => {
+    const filePath = path.join(tempDir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['018_json_ingestion_adapters.sql']);
+    const insertConfig = db.prepare(`
+      INSERT INTO unified_config (config_key, config_value, config_type, category) VALUES (?, ?, ?, 'json_ingestion')
+    `);
+    for (const [key, value, type] of ingestionConfig) insertConfig.run(key, value, type);
+    service = new JSONIngestionService(db);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingestion-adapters-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    db.close();
+  });
+
+  test('keeps reading scraper output with the scraper adapter', async () => {
+    const adapted = await service.readProductFile(path.join(__dirname, '../../fixtures/ajbell-sample.json'));
+
+    expect(adapted.adapter).toBe('scraper-json');
+    expect(adapted.metadata).toEqual({ source: 'ajbell', method: 'ajbell-scraper' });
+    expect(adapted.products.length).toBeGreaterThan(0);
+    expect(adapted.rejected).toHaveLength(0);
+  });
+
+  test('maps CSV export rows and rejects those it cannot read', async () => {
+    const filePath = writeInput('moneysavers-export-20261019.csv', [
+      'Provider,Account Type,AER (%),Term,Min Deposit,FSCS',
+      'Atom Bank,Fixed Rate Bond,4.60%,1 year,"£1,000",Yes',
+      'Chase,Easy Access,4.10,,£1,Yes',
+      ',Easy Access,4.00,,,',
+      'Zopa,Notice,high,,,'
+    ].join('\n'));
+
+    const adapted = await service.readProductFile(filePath);
+
+    expect(adapted.adapter).toBe('csv');
+    expect(adapted.metadata).toEqual({ source: 'moneysavers', method: 'csv-export' });
+    expect(adapted.products).toEqual([
+      expect.objectContaining({ bankName: 'Atom Bank', accountType: 'fixed_term', aerRate: 4.6, termMonths: 12, minDeposit: 1000, fscsProtected: true }),
+      expect.objectContaining({ bankName: 'Chase', accountType: 'easy_access', aerRate: 4.1, termMonths: null, minDeposit: 1 })
+    ]);
+
+    expect(adapted.rejected).toHaveLength(2);
+    expect(adapted.rejected.map(r => r.validationErrors)).toEqual([
+      ['Row 4: missing bank name'],
+      ["Row 5: unrecognised AER 'high'"]
+    ]);
+    expect(adapted.rejected.every(r => r.rejectionReason === 'validation_failed')).toBe(true);
+  });
+
+  test('reads the best buy table from a saved HTML page', async () => {
+    const filePath = writeInput('ratewatch-best-buys.html', `
+      <html><body>
+        <table><tr><td>Navigation</td></tr></table>
+        <table class="best-buys">
+          <thead><tr><th>Bank</th><th>Type</th><th>AER</th><th>Notice</th><th>Min&nbsp;deposit</th></tr></thead>
+          <tbody>
+            <tr><td><a href="#">Oxbury Bank</a></td><td>Notice account</td><td>4.52% AER</td><td>95 days</td><td>&pound;5,000</td></tr>
+            <tr><td>Cynergy Bank</td><td>Easy access</td><td>4.35%</td><td></td><td>&pound;1</td></tr>
+          </tbody>
+        </table>
+      </body></html>
+    `);
+
+    const adapted = await service.readProductFile(filePath);
+
+    expect(adapted.adapter).toBe('best-buy-html');
+    expect(adapted.metadata).toEqual({ source: 'ratewatch', method: 'html-best-buy-table' });
+    expect(adapted.products).toEqual([
+      expect.objectContaining({ bankName: 'Oxbury Bank', platform: 'direct', accountType: 'notice', aerRate: 4.52, noticePeriodDays: 95, minDeposit: 5000 }),
+      expect.objectContaining({ bankName: 'Cynergy Bank', accountType: 'easy_access', aerRate: 4.35, minDeposit: 1 })
+    ]);
+  });
+
+  test('maps third-party JSON with a configured adapter chosen by filename or metadata', async () => {
+    db.prepare(`UPDATE unified_config SET config_value = ? WHERE config_key = 'json_ingestion_custom_adapters'`).run(JSON.stringify([{
+      name: 'partnerbank-feed',
+      source: 'partnerbank',
+      method: 'partnerbank-api',
+      filePattern: '^partnerbank-rates-.*\\.json$',
+      productsPath: 'data.offers',
+      fields: { bankName: 'provider.name', accountType: 'category', aerRate: 'rates.aer', termMonths: 'termMonths' }
+    }]));
+    await service.loadConfiguration();
+
+    const feed = {
+      data: {
+        offers: [
+          { provider: { name: 'Shawbrook Bank' }, category: 'fixed', rates: { aer: 4.41 }, termMonths: 24 },
+          { provider: { name: 'Vanquis Bank' }, category: 'fixed', rates: {}, termMonths: 12 }
+        ]
+      }
+    };
+
+    const byName = await service.readProductFile(writeInput('partnerbank-rates-20261019.json', JSON.stringify(feed)));
+    expect(byName.adapter).toBe('partnerbank-feed');
+    expect(byName.metadata).toEqual({ source: 'partnerbank', method: 'partnerbank-api' });
+    expect(byName.products).toEqual([
+      expect.objectContaining({ bankName: 'Shawbrook Bank', platform: 'partnerbank', accountType: 'fixed_term', aerRate: 4.41, termMonths: 24 })
+    ]);
+    expect(byName.rejected[0].validationErrors).toEqual(['Record 2: missing AER']);
+
+    const byMetadata = await service.readProductFile(writeInput('feed.json', JSON.stringify({ metadata: { adapter: 'partnerbank-feed' }, ...feed })));
+    expect(byMetadata.adapter).toBe('partnerbank-feed');
+
+    await expect(service.readProductFile(writeInput('other.json', JSON.stringify({ metadata: { adapter: 'missing' } }))))
+      .rejects.toThrow("Unknown ingestion adapter 'missing'");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { RateAnomalyDetector } from '../../../services/RateAnomalyDetector';
+import { ProductHistoryService } from '../../../services/ProductHistoryService';
+import { FinalProduct } from '../../../services/DeduplicationService';
+
+describe('Data Quality - Rate Anomalies', () => {
+  let db: Database.Database;
+
+  const createProduct = (bankName: string, overrides: Partial<FinalProduct> = {}): FinalProduct => ({
+    bankName,
+    platform: 'direct',
+    accountType: 'fixed_term',
+    aerRate: 4.5,
+    grossRate: 4.41,
+    balance: 0,
+    minimumBalance: 0,
+    maximumBalance: 0,
+    notice: '',
+    frn: undefined,
+    frnConfidence: 1,
+    frnStatus: 'MATCHED',
+    frnSource: 'EXACT',
+    fscsProtected: true,
+    bankNameNormalized: bankName.toUpperCase(),
+    termMonths: 12,
+    source: 'test',
+    scrapeDate: '2026-10-19',
+    sourceFile: 'test.json',
+    businessKey: `${bankName.toUpperCase()}|fixed_term|term_${overrides.termMonths ?? 12}`,
+    duplicateCount: 1,
+    qualityScore: 1,
+    selectionReason: 'highest rate',
+    competingProducts: [],
+    fscsCompliant: true,
+    platformCategory: 'direct',
+    fscsValidationDetails: '',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['012_product_history.sql', '016_rate_anomalies.sql']);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('flags a rate far from the product history unless the product is that volatile', () => {
+    const history = new ProductHistoryService(db);
+    history.recordRun([createProduct('Steady Bank', { aerRate: 4.5 }), createProduct('Volatile Bank', { aerRate: 3.0 })], '2026-09-01');
+    history.recordRun([createProduct('Steady Bank', { aerRate: 4.55 }), createProduct('Volatile Bank', { aerRate: 6.0 })], '2026-09-15');
+    history.recordRun([createProduct('Steady Bank', { aerRate: 4.5 }), createProduct('Volatile Bank', { aerRate: 3.5 })], '2026-10-01');
+
+    const detector = new RateAnomalyDetector(db);
+    const result = detector.detect('batch-1', [], [
+      createProduct('Steady Bank', { aerRate: 7.5 }),
+      createProduct('Volatile Bank', { aerRate: 5.5 })
+    ]);
+
+    expect(result.anomalies).toEqual([
+      expect.objectContaining({ type: 'rate_jump', severity: 'high', bankName: 'Steady Bank', actualValue: 7.5, baselineValue: 4.5 })
+    ]);
+    expect(result.products).toHaveLength(2);
+  });
+
+  test('quarantines a high severity cross-platform outlier only when enabled', () => {
+    const listings = [
+      createProduct('Spread Bank', { platform: 'direct', aerRate: 4.4 }),
+      createProduct('Spread Bank', { platform: 'flagstone', aerRate: 4.5 }),
+      createProduct('Spread Bank', { platform: 'ajbell', aerRate: 8.9 })
+    ];
+    const selected = [listings[0]!, listings[2]!];
+
+    const flagOnly = new RateAnomalyDetector(db).detect('batch-1', listings, selected);
+    expect(flagOnly.anomalies).toEqual([
+      expect.objectContaining({ type: 'cross_platform_spread', severity: 'high', platform: 'ajbell', baselineValue: 4.5, quarantined: false })
+    ]);
+    expect(flagOnly.products).toHaveLength(2);
+
+    const quarantining = new RateAnomalyDetector(db, { quarantineAnomalies: true });
+    const result = quarantining.detect('batch-2', listings, selected);
+    expect(result.anomalies[0]!.quarantined).toBe(true);
+    expect(result.quarantined.map(p => p.platform)).toEqual(['ajbell']);
+    expect(result.products.map(p => p.platform)).toEqual(['direct']);
+  });
+
+  test('flags a platform whose product count collapsed against its recent batches', () => {
+    const detector = new RateAnomalyDetector(db);
+    const listings = (platform: string, count: number) =>
+      Array.from({ length: count }, (_, i) => createProduct(`Bank ${i}`, { platform }));
+
+    detector.detect('batch-1', [...listings('direct', 20), ...listings('flagstone', 40)], []);
+    detector.detect('batch-2', [...listings('direct', 22), ...listings('flagstone', 38)], []);
+    const result = detector.detect('batch-3', [...listings('direct', 21), ...listings('flagstone', 6)], []);
+
+    expect(result.anomalies).toEqual([
+      expect.objectContaining({ type: 'product_count_collapse', severity: 'high', platform: 'flagstone', actualValue: 6, baselineValue: 39 })
+    ]);
+    const recorded = db
+      .prepare(`SELECT COUNT(*) as count FROM platform_product_counts WHERE batch_id = 'batch-3'`).get() as { count: number };
+    expect(recorded.count).toBe(2);
+  });
+
+  test('flags a term inversion out of line with the market curve', () => {
+    const ladder = (bankName: string, oneYear: number, twoYear: number) => [
+      createProduct(bankName, { termMonths: 12, aerRate: oneYear }),
+      createProduct(bankName, { termMonths: 24, aerRate: twoYear })
+    ];
+
+    const result = new RateAnomalyDetector(db).detect('batch-1', [], [
+      ...ladder('Market Bank A', 4.5, 4.3),
+      ...ladder('Market Bank B', 4.4, 4.2),
+      ...ladder('Market Bank C', 4.6, 4.4),
+      ...ladder('Inverted Bank', 4.5, 2.9)
+    ]);
+
+    expect(result.anomalies).toEqual([
+      expect.objectContaining({ type: 'term_inversion', bankName: 'Inverted Bank', actualValue: 2.9 })
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { BOERegisterImportService, BOERegisterFile } from '../../../services/BOERegisterImportService';
+import { parseCsv } from '../../../utils/SpreadsheetReader';
+
+describe('FRN Matching - BoE Register Import', () => {
+  let db: Database.Database;
+  let importer: BOERegisterImportService;
+  let register: Array<{ frn: string; firm_name: string }>;
+
+  // The current register with test firms changed, as a newer BoE list would present it
+  const registerFile = (changes: { add?: string[][]; remove?: string[]; rename?: Record<string, string> }): BOERegisterFile => {
+    const rows = [['Firm Name', 'FRN']];
+    for (const firm of register) {
+      if (changes.remove?.includes(firm.frn)) continue;
+      rows.push([changes.rename?.[firm.frn] ?? firm.firm_name, firm.frn]);
+    }
+    rows.push(...(changes.add || []));
+    return BOERegisterImportService.parseSheets([{ name: 'Banks', rows }], 'test-register.csv');
+  };
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['014_boe_register_imports.sql']);
+
+    const insertFirm = db.prepare(`INSERT INTO boe_institutions (frn, firm_name) VALUES (?, ?)`);
+    insertFirm.run('990001', 'Test Savings Bank PLC');
+    insertFirm.run('990002', 'Closing Bank Limited');
+    insertFirm.run('990003', 'Moving Bank Ltd');
+    db.prepare(`
+      INSERT INTO boe_shared_brands (primary_frn, primary_firm_name, trading_name, brand_type)
+      VALUES ('990003', 'Moving Bank Ltd', 'Moving Direct', 'trading_name')
+    `).run();
+
+    register = db.prepare(`SELECT frn, firm_name FROM boe_institutions`).all() as typeof register;
+    importer = new BOERegisterImportService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('finds the header below preamble rows and skips rows without an FRN', () => {
+    const file = BOERegisterImportService.parseSheets([
+      { name: 'Notes', rows: [['Published by the PRA']] },
+      {
+        name: 'Banks',
+        rows: parseCsv('List of banks as at 30 September\n"Firm Name",FRN,"Trading Names"\n"Bank, The",123456,"Bank Online; Bank Direct"\nTotal,,\n')
+      }
+    ], 'banks.csv');
+
+    expect(file.entries).toEqual([
+      { frn: '123456', firmName: 'Bank, The', tradingNames: ['Bank Online', 'Bank Direct'] }
+    ]);
+    expect(file.hasTradingNames).toBe(true);
+    expect(file.skippedRows).toBe(1);
+  });
+
+  test('diffs new, removed, renamed and re-registered firms', () => {
+    const diff = importer.diff(registerFile({
+      add: [['New Challenger Bank Limited', '990010'], ['Moving Bank Limited', '990011']],
+      remove: ['990002', '990003'],
+      rename: { '990001': 'Renamed Savings Bank PLC' }
+    }));
+
+    expect(diff.added).toEqual([{ frn: '990010', firmName: 'New Challenger Bank Limited' }]);
+    expect(diff.removed).toEqual([{ frn: '990002', firmName: 'Closing Bank Limited' }]);
+    expect(diff.renamed).toEqual([
+      { frn: '990001', firmName: 'Renamed Savings Bank PLC', previousFirmName: 'Test Savings Bank PLC' }
+    ]);
+    expect(diff.frnChanged).toEqual([
+      { frn: '990011', firmName: 'Moving Bank Limited', previousFrn: '990003', previousFirmName: 'Moving Bank Ltd' }
+    ]);
+  });
+
+  test('ignores case and spacing differences in firm names', () => {
+    const diff = importer.diff(registerFile({ rename: { '990001': 'TEST  SAVINGS BANK PLC' } }));
+
+    expect(diff.renamed).toHaveLength(0);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  test('applies the diff, moves brands to the new FRN and records every change', () => {
+    const diff = importer.diff(registerFile({
+      add: [['Moving Bank Limited', '990011']],
+      remove: ['990002', '990003']
+    }));
+    const result = importer.apply(diff);
+
+    const frns = (db.prepare(`SELECT frn FROM boe_institutions ORDER BY frn`).all() as Array<{ frn: string }>)
+      .map(row => row.frn);
+    expect(frns).toEqual(['990001', '990011']);
+
+    expect(db.prepare(`SELECT primary_frn FROM boe_shared_brands WHERE trading_name = 'Moving Direct'`).get())
+      .toEqual({ primary_frn: '990011' });
+
+    const changes = db.prepare(`
+      SELECT change_type, frn, previous_frn FROM boe_register_changes WHERE import_id = ? ORDER BY change_type
+    `).all(result.importId);
+    expect(changes).toEqual([
+      { change_type: 'frn_changed', frn: '990011', previous_frn: '990003' },
+      { change_type: 'removed', frn: '990002', previous_frn: null }
+    ]);
+  });
+
+  test('keeps the brands and preferences deleted with a removed firm on its change row', () => {
+    db.prepare(`
+      INSERT INTO boe_shared_brands (primary_frn, primary_firm_name, trading_name, brand_type)
+      VALUES ('990002', 'Closing Bank Limited', 'Closing Direct', 'trading_name')
+    `).run();
+    db.prepare(`
+      INSERT INTO institution_preferences (frn, bank_name, personal_limit, trust_level) VALUES ('990002', 'Closing Bank', 50000, 'low')
+    `).run();
+
+    const diff = importer.diff(registerFile({ remove: ['990002'] }));
+    expect(diff.droppedPreferences).toBe(1);
+    const result = importer.apply(diff);
+
+    expect(db.prepare(`SELECT COUNT(*) as count FROM institution_preferences`).get()).toEqual({ count: 0 });
+    const change = db.prepare(`
+      SELECT removed_rows FROM boe_register_changes WHERE import_id = ? AND change_type = 'removed'
+    `).get(result.importId) as { removed_rows: string };
+    const removedRows = JSON.parse(change.removed_rows);
+    expect(removedRows.sharedBrands).toEqual([expect.objectContaining({ trading_name: 'Closing Direct' })]);
+    expect(removedRows.preferences).toEqual([
+      expect.objectContaining({ frn: '990002', bank_name: 'Closing Bank', personal_limit: 50000, trust_level: 'low' })
+    ]);
+  });
+
+  test('removes only trading names an import added and keeps those entered by hand', () => {
+    const withTradingNames = (movingBankNames: string) => BOERegisterImportService.parseSheets([{
+      name: 'Banks',
+      rows: [
+        ['Firm Name', 'FRN', 'Trading Names'],
+        ...register.map(firm => [firm.firm_name, firm.frn, firm.frn === '990003' ? movingBankNames : ''])
+      ]
+    }], 'test-register.csv');
+
+    importer.apply(importer.diff(withTradingNames('Moving Online')));
+
+    const diff = importer.diff(withTradingNames(''));
+    expect(diff.tradingNamesRemoved).toEqual([{ frn: '990003', firmName: 'Moving Bank Ltd', tradingName: 'Moving Online' }]);
+    expect(diff.tradingNamesKept).toEqual([{ frn: '990003', firmName: 'Moving Bank Ltd', tradingName: 'Moving Direct' }]);
+
+    importer.apply(diff);
+    const names = (db.prepare(`SELECT trading_name FROM boe_shared_brands WHERE primary_frn = '990003'`).all() as Array<{ trading_name: string }>)
+      .map(row => row.trading_name);
+    expect(names).toEqual(['Moving Direct']);
+  });
+
+  test('only applies a file that removes much of the register once the removals are confirmed', () => {
+    const insertFirm = db.prepare(`INSERT INTO boe_institutions (frn, firm_name) VALUES (?, ?)`);
+    for (let i = 0; i < 10; i++) insertFirm.run(`99100${i}`, `Regional Bank ${i} PLC`);
+
+    const diff = importer.diff(registerFile({}));
+    expect(diff.removed).toHaveLength(10);
+    expect(diff.largeRemoval).toBe(true);
+
+    expect(() => importer.apply(diff)).toThrow('removes 10 of 13 registered firms');
+    expect(db.prepare(`SELECT COUNT(*) as count FROM boe_institutions`).get()).toEqual({ count: 13 });
+
+    importer.apply(diff, { confirmRemovals: true });
+    expect(db.prepare(`SELECT COUNT(*) as count FROM boe_institutions`).get()).toEqual({ count: 3 });
+  });
+
+  test('refuses a file with no recognisable firms', () => {
+    const file = BOERegisterImportService.parseSheets([{ name: 'Sheet1', rows: [['Name only']] }], 'empty.csv');
+
+    expect(() => importer.diff(file)).toThrow('No firms found');
+  });
+});
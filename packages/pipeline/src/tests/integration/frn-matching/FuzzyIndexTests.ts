@@ -0,0 +1,86 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { FRNMatchIndex, FRNIndexEntry } from '../../../services/FRNMatchIndex';
+
+describe('FRN Matching - Fuzzy Candidate Index', () => {
+  let index: FRNMatchIndex;
+
+  // Plain Levenshtein ratio, as the service uses for ranking
+  const ratio = (a: string, b: string): number => {
+    const dp = Array.from({ length: b.length + 1 }, (_, j) => [j, ...Array(a.length).fill(0)]);
+    for (let i = 1; i <= a.length; i++) dp[0]![i] = i;
+    for (let j = 1; j <= b.length; j++) {
+      for (let i = 1; i <= a.length; i++) {
+        dp[j]![i] = Math.min(dp[j]![i - 1]! + 1, dp[j - 1]![i]! + 1, dp[j - 1]![i - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+    }
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 1 : (longest - dp[b.length]![a.length]!) / longest;
+  };
+
+  const entry = (frn: string, name: string): FRNIndexEntry => ({
+    frn,
+    canonicalName: name,
+    searchName: name,
+    key: name.toUpperCase().replace(/\s+/g, '')
+  });
+
+  beforeEach(() => {
+    index = new FRNMatchIndex(ratio);
+    index.build([
+      entry('100001', 'Santander UK'),
+      entry('100002', 'Sainsburys Bank'),
+      entry('100003', 'Secure Trust Bank'),
+      entry('100004', 'Shawbrook Bank'),
+      entry('100005', 'Skipton Building Society'),
+      entry('100006', 'Nationwide Building Society'),
+      entry('100007', 'Santander Financial Services')
+    ]);
+  });
+
+  test('ranks a misspelt name first with its similarity score', () => {
+    const [best] = index.search('SANTANDRUK', 3);
+
+    expect(best?.frn).toBe('100001');
+    expect(best?.score).toBeCloseTo(ratio('SANTANDRUK', 'SANTANDERUK'));
+  });
+
+  test('returns runner-up candidates best first, one per FRN', () => {
+    index.build([
+      entry('100001', 'Shawbrook Bank'),
+      entry('100001', 'Shawbrook'),
+      entry('100002', 'Sainsburys Bank'),
+      entry('100003', 'Starling Bank')
+    ]);
+
+    const candidates = index.search('SHAWBROKBANK', 3);
+
+    expect(candidates).toHaveLength(3);
+    expect(candidates[0]?.frn).toBe('100001');
+    expect(new Set(candidates.map(c => c.frn)).size).toBe(3);
+    for (let i = 1; i < candidates.length; i++) {
+      expect(candidates[i - 1]!.score).toBeGreaterThanOrEqual(candidates[i]!.score);
+    }
+  });
+
+  test('limits results and handles names with no shared trigrams', () => {
+    expect(index.search('SKIPTONBUILDINGSOCIETY', 1)).toHaveLength(1);
+    expect(index.search('QQQ', 3)).toEqual([]);
+    expect(index.search('', 3)).toEqual([]);
+  });
+
+  test('only re-ranks the candidate pool rather than every institution', () => {
+    let comparisons = 0;
+    const counted = new FRNMatchIndex((a, b) => { comparisons++; return ratio(a, b); }, 20);
+    const entries: FRNIndexEntry[] = [];
+    for (let i = 0; i < 2000; i++) {
+      entries.push(entry(String(200000 + i), `Institution ${i.toString(36)} Bank`));
+    }
+    entries.push(entry('100001', 'Santander UK'));
+    counted.build(entries);
+
+    const [best] = counted.search('SANTANDERUK', 3);
+
+    expect(best?.frn).toBe('100001');
+    expect(comparisons).toBeLessThanOrEqual(20);
+  });
+});
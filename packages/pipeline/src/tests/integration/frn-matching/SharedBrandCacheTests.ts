@@ -0,0 +1,47 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase, seedFRNMatchingConfig } from '../../helpers/InMemoryDatabase';
+import { FRNMatchingService } from '../../../services/FRNMatchingService';
+
+describe('FRN Matching - Shared Brand Cache', () => {
+  let db: Database.Database;
+
+  const addBrand = (tradingName: string, licenceType: 'shared' | 'separate', licenceFRN: string | null) =>
+    db.prepare(`
+      INSERT INTO boe_shared_brands (primary_frn, primary_firm_name, trading_name, brand_type, licence_type, licence_frn)
+      VALUES ('300', 'Group Bank PLC', ?, 'trading_name', ?, ?)
+    `).run(tradingName, licenceType, licenceFRN);
+
+  const brandEntry = (searchName: string) => db.prepare(`
+    SELECT frn, canonical_name FROM frn_lookup_helper_cache
+    WHERE source_table = 'boe_shared_brands' AND search_name = ?
+  `).get(searchName);
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['015_fscs_brand_groups.sql']);
+    seedFRNMatchingConfig(db);
+    db.prepare(`INSERT INTO boe_institutions (frn, firm_name) VALUES ('300', 'Group Bank PLC'), ('400', 'Sister Bank Ltd')`).run();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('matches shared brands to the group and separately licensed brands to their own FRN', async () => {
+    addBrand('Brand A', 'shared', null);
+    addBrand('Sister Savings', 'separate', '400');
+
+    await new FRNMatchingService(db).loadConfiguration();
+
+    expect(brandEntry('BRAND A')).toEqual({ frn: '300', canonical_name: 'Group Bank PLC' });
+    expect(brandEntry('SISTER SAVINGS')).toEqual({ frn: '400', canonical_name: 'Sister Bank Ltd' });
+  });
+
+  test('keeps a separately licensed brand under the group until its own FRN is recorded', async () => {
+    addBrand('New Brand', 'separate', null);
+
+    await new FRNMatchingService(db).loadConfiguration();
+
+    expect(brandEntry('NEW BRAND')).toEqual({ frn: '300', canonical_name: 'Group Bank PLC' });
+  });
+});
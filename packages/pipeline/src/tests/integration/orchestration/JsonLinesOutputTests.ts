@@ -0,0 +1,64 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase, seedFRNMatchingConfig } from '../../helpers/InMemoryDatabase';
+import { FRNMatchingService } from '../../../services/FRNMatchingService';
+import { JsonLinesProgressSink } from '../../../utils/PipelineProgressSink';
+import { logger } from '../../../utils/PipelineLogger';
+
+describe('Orchestration - JSON Lines Output', () => {
+  let db: Database.Database;
+  let stdout: string[];
+  let stderr: string[];
+
+  const capture = (lines: string[]) => (...args: unknown[]) => {
+    lines.push(args.map(String).join(' '));
+  };
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['013_fuzzy_frn_candidates.sql']);
+    seedFRNMatchingConfig(db);
+    db.prepare(`INSERT INTO boe_institutions (frn, firm_name) VALUES ('100001', 'Alpha Bank')`).run();
+
+    stdout = [];
+    stderr = [];
+    jest.spyOn(console, 'log').mockImplementation(capture(stdout));
+    jest.spyOn(console, 'info').mockImplementation(capture(stdout));
+    jest.spyOn(process.stdout, 'write').mockImplementation(((chunk: string) => capture(stdout)(chunk)) as any);
+    jest.spyOn(console, 'warn').mockImplementation(capture(stderr));
+    jest.spyOn(console, 'error').mockImplementation(capture(stderr));
+
+    // The JSON lines sink writes straight to file descriptor 1
+    const nodeFs = jest.requireActual<typeof fs>('fs');
+    const writeSync = nodeFs.writeSync;
+    jest.spyOn(nodeFs, 'writeSync').mockImplementation(((fd: number, data: string, ...rest: any[]) =>
+      fd === 1 ? (capture(stdout)(data), data.length) : (writeSync as any)(fd, data, ...rest)) as any);
+
+    // What the CLI does for --progress jsonl without --progress-file
+    logger.logToStderr();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  test('keeps stdout to one JSON object per line through FRN matching', async () => {
+    const sink = new JsonLinesProgressSink();
+    sink.report({ type: 'stage-started', batchId: 'batch-1', stage: 'frn_matching' });
+
+    const service = new FRNMatchingService(db);
+    await service.loadConfiguration();
+    const result = await service.processProducts([
+      { bankName: 'Alpha Bank', platform: 'direct', source: 'moneyfacts', aerRate: 4.5 },
+      { bankName: 'Unknown Bank', platform: 'direct', source: 'moneyfacts', aerRate: 4.1 }
+    ]);
+
+    sink.report({ type: 'stage-completed', batchId: 'batch-1', stage: 'frn_matching', productsProcessed: result.processedCount });
+
+    const lines = stdout.join('').split('\n').filter(line => line.length > 0);
+    expect(lines.map(line => JSON.parse(line).type)).toEqual(['stage-started', 'stage-completed']);
+    expect(stderr.join('\n')).toContain('Processing 2 products for FRN matching');
+    expect(stderr.join('\n')).toContain('FRN matching completed');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ElectronIpcProgressSink,
+  ConsoleProgressSink,
+  JsonLinesProgressSink,
+  IpcProgressTarget
+} from '../../../utils/PipelineProgressSink';
+import { PipelineStage } from '../../../services/OrchestrationService';
+
+describe('Orchestration - Progress Sinks', () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = null;
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('IPC sink sends each event on its orchestrator channel without the type', () => {
+    const sent: Array<[string, unknown]> = [];
+    const target: IpcProgressTarget = { webContents: { send: (channel: string, data: unknown) => sent.push([channel, data]) } };
+    const sink = new ElectronIpcProgressSink(target);
+    const progress = {
+      requestId: 'batch-1',
+      currentStage: PipelineStage.FRN_MATCHING,
+      stageProgress: 0,
+      totalProgress: 33,
+      message: 'Matching',
+      timestamp: new Date()
+    };
+
+    sink.report({ type: 'started', batchId: 'batch-1', inputFiles: 2 });
+    sink.report({ type: 'progress', progress });
+    sink.report({ type: 'completed', batchId: 'batch-1', duration: 1500, finalProductCount: 40 });
+
+    expect(sent).toEqual([
+      ['orchestrator:pipeline-started', { batchId: 'batch-1', inputFiles: 2 }],
+      ['orchestrator:progress', progress],
+      ['orchestrator:pipeline-completed', { batchId: 'batch-1', duration: 1500, finalProductCount: 40 }]
+    ]);
+  });
+
+  test('IPC sink stops sending once the window is destroyed', () => {
+    const send = jest.fn();
+    const sink = new ElectronIpcProgressSink({ webContents: { send }, isDestroyed: () => true });
+
+    sink.report({ type: 'started', batchId: 'batch-1', inputFiles: 1 });
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('JSON lines sink appends one timestamped object per event', () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-events-'));
+    const file = path.join(tempDir, 'events.jsonl');
+    const sink = new JsonLinesProgressSink(file);
+
+    sink.report({ type: 'stage-started', batchId: 'batch-1', stage: 'json_ingestion' });
+    sink.report({ type: 'failed', batchId: 'batch-1', error: 'No products', stage: 'json_ingestion' });
+    sink.close();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      expect.objectContaining({ type: 'stage-started', stage: 'json_ingestion', timestamp: expect.any(String) }),
+      expect.objectContaining({ type: 'failed', error: 'No products' })
+    ]);
+  });
+
+  test('console sink writes one readable line per event', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    new ConsoleProgressSink().report({ type: 'stage-completed', batchId: 'batch-1', stage: 'rebuild', productsSelected: 12 });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(String(log.mock.calls[0]![0])).toContain('✓ rebuild (12 products)');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { ProductRepository } from '../../../services/ProductRepository';
+import { ProductDiffService } from '../../../services/ProductDiffService';
+import { FinalProduct } from '../../../services/DeduplicationService';
+
+describe('Product Persistence - Dry Run Diff', () => {
+  let db: Database.Database;
+  let repository: ProductRepository;
+  let differ: ProductDiffService;
+
+  const createFinalProduct = (bankName: string, overrides: Partial<FinalProduct> = {}): FinalProduct => ({
+    bankName,
+    platform: 'test',
+    accountType: 'fixed_term',
+    aerRate: 4.5,
+    grossRate: 4.41,
+    balance: 0,
+    minimumBalance: 0,
+    maximumBalance: 0,
+    notice: '',
+    frn: '123456',
+    frnConfidence: 1,
+    frnStatus: 'MATCHED',
+    frnSource: 'EXACT',
+    fscsProtected: true,
+    bankNameNormalized: bankName.toUpperCase(),
+    termMonths: 12,
+    source: 'test',
+    confidenceScore: 0.95,
+    scrapeDate: '2026-10-19',
+    sourceFile: 'test.json',
+    businessKey: `${bankName.toUpperCase()}|fixed_term|term_12`,
+    duplicateCount: 1,
+    qualityScore: 1,
+    selectionReason: 'highest rate',
+    competingProducts: [],
+    fscsCompliant: true,
+    platformCategory: 'direct',
+    fscsValidationDetails: '',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    repository = new ProductRepository(db);
+    differ = new ProductDiffService(db);
+
+    repository.replaceAll([
+      createFinalProduct('Atom Bank'),
+      createFinalProduct('Chase', { aerRate: 4.1 }),
+      createFinalProduct('Kent Reliance', { aerRate: 4.3 }),
+      createFinalProduct('Closing Bank'),
+      createFinalProduct('Moved Bank', { frn: '111111' })
+    ], { atomic: true });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('classifies added, removed, rate and FRN changes against the live table', () => {
+    const diff = differ.diff([
+      createFinalProduct('Atom Bank'),
+      createFinalProduct('Chase', { aerRate: 4.35 }),
+      createFinalProduct('Kent Reliance', { aerRate: 4.05 }),
+      createFinalProduct('Moved Bank', { frn: '222222' }),
+      createFinalProduct('New Bank', { aerRate: 5.1 })
+    ]);
+
+    expect(diff.liveCount).toBe(5);
+    expect(diff.stagedCount).toBe(5);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added.map(e => e.bankName)).toEqual(['New Bank']);
+    expect(diff.removed.map(e => e.bankName)).toEqual(['Closing Bank']);
+    expect(diff.rateUp).toEqual([expect.objectContaining({ bankName: 'Chase', previousRate: 4.1, aerRate: 4.35 })]);
+    expect(diff.rateDown).toEqual([expect.objectContaining({ bankName: 'Kent Reliance', previousRate: 4.3, aerRate: 4.05 })]);
+    expect(diff.frnChanged).toEqual([expect.objectContaining({ bankName: 'Moved Bank', previousFrn: '111111', frn: '222222' })]);
+  });
+
+  test('treats the same product on another platform as a separate product', () => {
+    const diff = differ.diff([
+      createFinalProduct('Atom Bank', { platform: 'other' })
+    ]);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(5);
+  });
+
+  test('fingerprint changes when the live products are replaced', () => {
+    const before = differ.fingerprint();
+    expect(differ.fingerprint()).toBe(before);
+
+    repository.replaceAll([createFinalProduct('Atom Bank', { aerRate: 4.6 })], { atomic: true });
+
+    expect(differ.fingerprint()).not.toBe(before);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { ProductHistoryService } from '../../../services/ProductHistoryService';
+import { FinalProduct } from '../../../services/DeduplicationService';
+
+describe('Product Persistence - Product History', () => {
+  let db: Database.Database;
+  let service: ProductHistoryService;
+
+  const createProduct = (bankName: string, overrides: Partial<FinalProduct> = {}): FinalProduct => ({
+    bankName,
+    platform: 'direct',
+    accountType: 'easy_access',
+    aerRate: 4.5,
+    grossRate: 4.41,
+    balance: 0,
+    minimumBalance: 0,
+    maximumBalance: 0,
+    notice: '',
+    frn: undefined,
+    frnConfidence: 1,
+    frnStatus: 'MATCHED',
+    frnSource: 'EXACT',
+    fscsProtected: true,
+    bankNameNormalized: bankName.toUpperCase(),
+    source: 'moneyfacts',
+    scrapeDate: '2026-10-19',
+    sourceFile: 'test.json',
+    businessKey: `${bankName.toUpperCase()}|easy_access`,
+    duplicateCount: 1,
+    qualityScore: 1,
+    selectionReason: 'highest rate',
+    competingProducts: [],
+    fscsCompliant: true,
+    platformCategory: 'direct',
+    fscsValidationDetails: '',
+    ...overrides
+  });
+
+  const history = (bankName: string) => db.prepare(`
+    SELECT current_rate, first_seen, last_seen, withdrawn_on FROM product_history WHERE bank_name = ?
+  `).get(bankName);
+
+  const rateChanges = (bankName: string) => db.prepare(`
+    SELECT c.change_date, c.previous_rate, c.new_rate
+    FROM product_rate_changes c
+    JOIN product_history h ON h.id = c.product_history_id
+    WHERE h.bank_name = ?
+    ORDER BY c.change_date, c.id
+  `).all(bankName);
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['012_product_history.sql']);
+    service = new ProductHistoryService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('records a new product with its first rate', () => {
+    const summary = service.recordRun([createProduct('Alpha Bank', { aerRate: 4.2 })], '2026-10-01');
+
+    expect(summary).toEqual({ runDate: '2026-10-01', newProducts: 1, rateChanges: 0, withdrawn: 0, unchanged: 0 });
+    expect(history('Alpha Bank')).toEqual({ current_rate: 4.2, first_seen: '2026-10-01', last_seen: '2026-10-01', withdrawn_on: null });
+    expect(rateChanges('Alpha Bank')).toEqual([{ change_date: '2026-10-01', previous_rate: null, new_rate: 4.2 }]);
+  });
+
+  test('records a rate change against the previous rate and leaves unchanged products alone', () => {
+    service.recordRun([createProduct('Alpha Bank', { aerRate: 4.2 }), createProduct('Beta Bank')], '2026-10-01');
+
+    const summary = service.recordRun([createProduct('Alpha Bank', { aerRate: 4.35 }), createProduct('Beta Bank')], '2026-10-08');
+
+    expect(summary).toEqual({ runDate: '2026-10-08', newProducts: 0, rateChanges: 1, withdrawn: 0, unchanged: 1 });
+    expect(history('Alpha Bank')).toEqual(expect.objectContaining({ current_rate: 4.35, first_seen: '2026-10-01', last_seen: '2026-10-08' }));
+    expect(rateChanges('Alpha Bank')).toEqual([
+      { change_date: '2026-10-01', previous_rate: null, new_rate: 4.2 },
+      { change_date: '2026-10-08', previous_rate: 4.2, new_rate: 4.35 }
+    ]);
+    expect(rateChanges('Beta Bank')).toHaveLength(1);
+  });
+
+  test('marks a product missing from a run as withdrawn, once', () => {
+    service.recordRun([createProduct('Alpha Bank'), createProduct('Beta Bank')], '2026-10-01');
+
+    expect(service.recordRun([createProduct('Beta Bank')], '2026-10-08')).toEqual(expect.objectContaining({ withdrawn: 1, unchanged: 1 }));
+    expect(service.recordRun([createProduct('Beta Bank')], '2026-10-15')).toEqual(expect.objectContaining({ withdrawn: 0 }));
+    expect(history('Alpha Bank')).toEqual(expect.objectContaining({ last_seen: '2026-10-01', withdrawn_on: '2026-10-08' }));
+  });
+
+  test('counts a relisted product as new and records a rate it comes back at', () => {
+    service.recordRun([createProduct('Alpha Bank', { aerRate: 4.2 }), createProduct('Beta Bank')], '2026-10-01');
+    service.recordRun([createProduct('Beta Bank')], '2026-10-08');
+
+    const summary = service.recordRun([createProduct('Alpha Bank', { aerRate: 4.4 }), createProduct('Beta Bank')], '2026-10-15');
+
+    expect(summary).toEqual(expect.objectContaining({ newProducts: 1, rateChanges: 1, unchanged: 1 }));
+    expect(history('Alpha Bank')).toEqual({ current_rate: 4.4, first_seen: '2026-10-01', last_seen: '2026-10-15', withdrawn_on: null });
+    expect(rateChanges('Alpha Bank')).toHaveLength(2);
+  });
+
+  test('keeps products carried forward by an incremental run on sale', () => {
+    const flagstone = createProduct('Gamma Bank', { platform: 'flagstone', source: 'flagstone' });
+    service.recordRun([createProduct('Alpha Bank', { aerRate: 4.2 }), flagstone], '2026-10-01');
+
+    // Only moneyfacts was re-ingested; flagstone's products come through unchanged from available_products
+    const summary = service.recordRun([createProduct('Alpha Bank', { aerRate: 4.3 }), flagstone], '2026-10-02');
+
+    expect(summary).toEqual({ runDate: '2026-10-02', newProducts: 0, rateChanges: 1, withdrawn: 0, unchanged: 1 });
+    expect(history('Gamma Bank')).toEqual(expect.objectContaining({ last_seen: '2026-10-02', withdrawn_on: null }));
+  });
+
+  test('keeps the same business key on different platforms apart', () => {
+    service.recordRun([
+      createProduct('Alpha Bank', { platform: 'direct', aerRate: 4.2 }),
+      createProduct('Alpha Bank', { platform: 'ajbell', aerRate: 4.1 })
+    ], '2026-10-01');
+
+    const summary = service.recordRun([createProduct('Alpha Bank', { platform: 'ajbell', aerRate: 4.1 })], '2026-10-08');
+
+    expect(summary).toEqual(expect.objectContaining({ withdrawn: 1, unchanged: 1 }));
+  });
+
+  test('leaves the history alone for an empty run', () => {
+    service.recordRun([createProduct('Alpha Bank')], '2026-10-01');
+
+    expect(service.recordRun([], '2026-10-08')).toEqual({ runDate: '2026-10-08', newProducts: 0, rateChanges: 0, withdrawn: 0, unchanged: 0 });
+    expect(history('Alpha Bank')).toEqual(expect.objectContaining({ withdrawn_on: null }));
+  });
+
+  test('snapshots the best and average rate per account type, replacing a rerun', () => {
+    service.recordRun([createProduct('Alpha Bank', { aerRate: 4 }), createProduct('Beta Bank', { aerRate: 5 })], '2026-10-01');
+    service.recordRun([createProduct('Alpha Bank', { aerRate: 4 }), createProduct('Beta Bank', { aerRate: 4.5 })], '2026-10-01');
+
+    expect(db.prepare(`SELECT * FROM market_rate_snapshots`).all()).toEqual([
+      { snapshot_date: '2026-10-01', account_type: 'easy_access', best_rate: 4.5, average_rate: 4.25, product_count: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { ProductRepository, AVAILABLE_PRODUCT_COLUMNS } from '../../../services/ProductRepository';
+import { FinalProduct } from '../../../services/DeduplicationService';
+
+describe('Product Persistence - Atomic and Non-Atomic Modes', () => {
+  let db: Database.Database;
+  let repository: ProductRepository;
+
+  // Helper function to create a final product with every persisted field populated
+  const createFinalProduct = (bankName: string, overrides: Partial<FinalProduct> = {}): FinalProduct => ({
+    bankName,
+    platform: 'test',
+    accountType: 'fixed_term',
+    aerRate: 4.5,
+    grossRate: 4.41,
+    balance: 0,
+    minimumBalance: 0,
+    maximumBalance: 0,
+    notice: '',
+    frn: '123456',
+    frnConfidence: 1,
+    frnStatus: 'MATCHED',
+    frnSource: 'EXACT',
+    fscsProtected: true,
+    bankNameNormalized: bankName.toUpperCase(),
+    termMonths: 12,
+    source: 'test',
+    minDeposit: 1000,
+    maxDeposit: 250000,
+    interestPaymentFrequency: 'annually',
+    applyByDate: '2026-12-31',
+    specialFeatures: 'Online only',
+    confidenceScore: 0.95,
+    deduplicationMetadata: { selectedFrom: 2 },
+    scrapeDate: '2026-10-19',
+    sourceFile: 'test.json',
+    businessKey: `${bankName}|fixed_term|12`,
+    duplicateCount: 1,
+    qualityScore: 1,
+    selectionReason: 'highest rate',
+    competingProducts: [],
+    fscsCompliant: true,
+    platformCategory: 'direct',
+    fscsValidationDetails: '',
+    ...overrides
+  });
+
+  const readProducts = () => db.prepare(`
+    SELECT ${AVAILABLE_PRODUCT_COLUMNS.join(', ')}
+    FROM available_products
+    ORDER BY bank_name, platform
+  `).all();
+
+  const countProducts = () =>
+    (db.prepare(`SELECT COUNT(*) as count FROM available_products`).get() as { count: number }).count;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    repository = new ProductRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('both modes persist identical rows', () => {
+    const products = [
+      createFinalProduct('Atom Bank'),
+      createFinalProduct('Chase', { accountType: 'easy_access', termMonths: undefined, minDeposit: null })
+    ];
+
+    repository.replaceAll(products, { atomic: true });
+    const atomicRows = readProducts();
+
+    repository.replaceAll(products, { atomic: false });
+    const nonAtomicRows = readProducts();
+
+    expect(atomicRows).toHaveLength(2);
+    expect(nonAtomicRows).toEqual(atomicRows);
+  });
+
+  test('columns previously dropped in atomic mode are persisted', () => {
+    repository.replaceAll([createFinalProduct('Atom Bank')], { atomic: true });
+
+    const row = readProducts()[0] as Record<string, unknown>;
+    expect(row.gross_rate).toBe(4.41);
+    expect(row.min_deposit).toBe(1000);
+    expect(row.max_deposit).toBe(250000);
+    expect(row.interest_payment_frequency).toBe('annually');
+    expect(row.apply_by_date).toBe('2026-12-31');
+    expect(row.special_features).toBe('Online only');
+    expect(row.deduplication_metadata).toBe(JSON.stringify({ selectedFrom: 2 }));
+    expect(row.raw_platform).toBe('test');
+  });
+
+  test('atomic mode rolls back the whole stage when a later write fails', () => {
+    repository.replaceAll([createFinalProduct('Atom Bank')], { atomic: true });
+    const before = readProducts();
+
+    expect(() => repository.replaceAll(
+      [createFinalProduct('Chase'), createFinalProduct('Zopa')],
+      { atomic: true, afterWrite: () => { throw new Error('history write failed'); } }
+    )).toThrow('history write failed');
+
+    expect(readProducts()).toEqual(before);
+  });
+
+  test('non-atomic mode keeps statements already run when a later write fails', () => {
+    repository.replaceAll([createFinalProduct('Atom Bank')], { atomic: false });
+
+    expect(() => repository.replaceAll(
+      [createFinalProduct('Chase'), createFinalProduct('Zopa')],
+      { atomic: false, afterWrite: () => { throw new Error('history write failed'); } }
+    )).toThrow('history write failed');
+
+    expect(countProducts()).toBe(2);
+  });
+
+  test('invalid products are rejected before anything is written in either mode', () => {
+    repository.replaceAll([createFinalProduct('Atom Bank')], { atomic: false });
+
+    for (const atomic of [true, false]) {
+      expect(() => repository.replaceAll(
+        [createFinalProduct('Chase'), createFinalProduct('', { aerRate: NaN })],
+        { atomic }
+      )).toThrow('Invalid product data at index 1');
+      expect(countProducts()).toBe(1);
+    }
+  });
+
+  test('atomic stage nests inside an open pipeline transaction', () => {
+    repository.replaceAll([createFinalProduct('Atom Bank')], { atomic: false });
+
+    db.exec('BEGIN');
+    expect(() => repository.replaceAll(
+      [createFinalProduct('Chase')],
+      { atomic: true, afterWrite: () => { throw new Error('history write failed'); } }
+    )).toThrow();
+    expect(db.inTransaction).toBe(true);
+    db.exec('ROLLBACK');
+
+    expect(countProducts()).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../helpers/InMemoryDatabase';
+import { SourceStatusService } from '../../../services/SourceStatusService';
+import { OrchestrationService } from '../../../services/OrchestrationService';
+import { ProductDiffService } from '../../../services/ProductDiffService';
+import { FinalProduct } from '../../../services/DeduplicationService';
+
+describe('Product Persistence - Source Status', () => {
+  let db: Database.Database;
+  let service: SourceStatusService;
+
+  const insertRaw = (source: string, platform: string, count: number, createdAt = '2026-10-18 09:00:00') => {
+    const stmt = db.prepare(`
+      INSERT INTO available_products_raw (platform, source, method, bank_name, account_type, aer_rate, scrape_date, created_at)
+      VALUES (?, ?, ?, ?, 'easy_access', 4.5, '2026-10-18', ?)
+    `);
+    for (let i = 0; i < count; i++) stmt.run(platform, source, source, `Bank ${i}`, createdAt);
+  };
+
+  const insertFinal = (source: string, platform: string, count: number) => {
+    const stmt = db.prepare(`
+      INSERT INTO available_products (platform, source, bank_name, account_type, aer_rate, scrape_date)
+      VALUES (?, ?, ?, 'easy_access', 4.5, '2026-10-01')
+    `);
+    for (let i = 0; i < count; i++) stmt.run(platform, source, `Bank ${i}`);
+  };
+
+  beforeEach(() => {
+    db = createInMemoryDatabase(['012_product_history.sql', '017_pipeline_source_status.sql']);
+    service = new SourceStatusService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('counts each source and records when the batch ingested it', () => {
+    insertRaw('ajbell', 'ajbell', 3);
+    insertRaw('moneyfacts', 'direct', 2);
+    insertFinal('ajbell', 'ajbell', 2);
+    insertFinal('moneyfacts', 'direct', 2);
+
+    service.recordIngestion('batch-1', ['ajbell', 'ajbell'], new Date('2026-10-19T08:00:00Z'));
+    service.refreshCounts();
+
+    const status = service.getStatus(48, new Date('2026-10-19T12:00:00Z'));
+    expect(status).toEqual([
+      expect.objectContaining({
+        source: 'moneyfacts', rawProductCount: 2, finalProductCount: 2,
+        lastBatchId: null, lastIngestedAt: '2026-10-18T09:00:00.000Z', ageHours: 27, stale: false
+      }),
+      expect.objectContaining({
+        source: 'ajbell', platforms: ['ajbell'], rawProductCount: 3, finalProductCount: 2,
+        lastBatchId: 'batch-1', ageHours: 4, stale: false
+      })
+    ]);
+  });
+
+  test('flags sources older than the threshold and those carried forward without raw products', () => {
+    insertRaw('flagstone', 'flagstone', 1);
+    insertFinal('flagstone', 'flagstone', 1);
+    insertFinal('hargreaves_lansdown', 'hargreaves_lansdown', 4);
+
+    service.recordIngestion('batch-1', ['flagstone'], new Date('2026-10-15T08:00:00Z'));
+    service.refreshCounts();
+
+    const status = service.getStatus(48, new Date('2026-10-19T08:00:00Z'));
+    expect(status.find(s => s.source === 'flagstone')).toEqual(expect.objectContaining({ ageHours: 96, stale: true, carriedForward: false }));
+    expect(status.find(s => s.source === 'hargreaves_lansdown')).toEqual(expect.objectContaining({
+      rawProductCount: 0, finalProductCount: 4, carriedForward: true, ageHours: null, stale: true
+    }));
+  });
+
+  test('keeps a source that no longer has products, with zero counts and not stale', () => {
+    insertRaw('ajbell', 'ajbell', 2);
+    service.recordIngestion('batch-1', ['ajbell']);
+    service.refreshCounts();
+
+    db.exec(`DELETE FROM available_products_raw`);
+    service.refreshCounts();
+
+    expect(service.getStatus(48)).toEqual([
+      expect.objectContaining({ source: 'ajbell', rawProductCount: 0, finalProductCount: 0, stale: false })
+    ]);
+  });
+
+  test('records the ingestion of a dry run when it is committed', async () => {
+    const stagedAt = new Date('2026-10-19T08:00:00Z');
+    const liveFingerprint = new ProductDiffService(db).fingerprint();
+
+    // The dry run ingests and records inside a transaction it then rolls back
+    db.exec('BEGIN');
+    service.recordIngestion('dry-run-1', ['ajbell'], stagedAt);
+    insertRaw('ajbell', 'ajbell', 2);
+    const rawProducts = db.prepare(`SELECT * FROM available_products_raw ORDER BY id`).all() as Record<string, unknown>[];
+    db.exec('ROLLBACK');
+    expect(service.getStatus(48, stagedAt)).toEqual([]);
+
+    const products = ['Bank 0', 'Bank 1'].map(bankName => ({
+      bankName, platform: 'ajbell', source: 'ajbell', accountType: 'easy_access', aerRate: 4.5, businessKey: `${bankName}|easy_access`
+    })) as FinalProduct[];
+
+    const orchestrator = new OrchestrationService(db);
+    Object.assign(orchestrator as any, {
+      initialized: true,
+      config: { concurrentExecutionCheck: false, enableAtomicTransactions: true },
+      stagedRun: {
+        batchId: 'dry-run-1', stagedAt, inputFiles: [], productCount: products.length, diff: {},
+        products, rawProducts, ingestedSources: ['ajbell'], liveFingerprint
+      }
+    });
+    await orchestrator.commitStagedRun();
+
+    expect(service.getStatus(48, new Date('2026-10-19T12:00:00Z'))).toEqual([
+      expect.objectContaining({
+        source: 'ajbell', rawProductCount: 2, finalProductCount: 2,
+        lastBatchId: 'dry-run-1', lastIngestedAt: '2026-10-19T08:00:00.000Z', ageHours: 4, stale: false
+      })
+    ]);
+  });
+});
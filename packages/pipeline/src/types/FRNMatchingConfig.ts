@@ -25,6 +25,9 @@ export interface FRNMatchingConfig {
   enableAuditTrail: boolean;
   enableResearchQueue: boolean;
 
+  // Closest institutions kept per fuzzy lookup (optional, defaults to 3)
+  fuzzyCandidateCount: number;
+
   // Normalization rules
   normalizationEnabled: boolean;
   normalizationPrefixes: string[];
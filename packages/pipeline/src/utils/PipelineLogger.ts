@@ -11,6 +11,9 @@
  * - PIPELINE_VERBOSE=true: Show INFO + WARN + ERROR
  * - PIPELINE_DEBUG=true: Show DEBUG + INFO + WARN + ERROR
  * - Default: Show WARN + ERROR only
+ *
+ * INFO and DEBUG go to stdout unless logToStderr() is called, which keeps
+ * stdout free for machine-readable output such as JSON-lines progress events.
  */
 
 export enum LogLevel {
@@ -22,6 +25,7 @@ export enum LogLevel {
 
 class PipelineLogger {
   private level: LogLevel;
+  private toStderr = false;
 
   constructor() {
     // Determine log level from environment variables
@@ -54,7 +58,7 @@ class PipelineLogger {
    */
   info(message: string, ...args: any[]): void {
     if (this.level >= LogLevel.INFO) {
-      console.log(message, ...args);
+      this.write(message, ...args);
     }
   }
 
@@ -64,10 +68,24 @@ class PipelineLogger {
    */
   debug(message: string, ...args: any[]): void {
     if (this.level >= LogLevel.DEBUG) {
-      console.log(message, ...args);
+      this.write(message, ...args);
     }
   }
 
+  /**
+   * Send INFO and DEBUG messages to stderr (ERROR and WARN already go there)
+   */
+  logToStderr(): void {
+    this.toStderr = true;
+  }
+
+  /**
+   * Whether INFO and DEBUG messages go to stderr
+   */
+  isLoggingToStderr(): boolean {
+    return this.toStderr;
+  }
+
   /**
    * Get current log level for conditional logic
    */
@@ -81,6 +99,14 @@ class PipelineLogger {
   isEnabled(level: LogLevel): boolean {
     return this.level >= level;
   }
+
+  private write(message: string, ...args: any[]): void {
+    if (this.toStderr) {
+      console.error(message, ...args);
+    } else {
+      console.log(message, ...args);
+    }
+  }
 }
 
 // Export singleton instance
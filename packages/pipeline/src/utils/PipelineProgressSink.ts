@@ -0,0 +1,114 @@
+/**
+ * Pipeline Progress Sinks - Where pipeline events are reported
+ *
+ * OrchestrationService reports every lifecycle event through a sink, so the
+ * same run can drive the Electron UI, a terminal or a log file for scheduled
+ * refreshes. The package has no dependency on Electron: the IPC sink accepts
+ * anything with a webContents.send(), such as a BrowserWindow.
+ *
+ * Sinks:
+ * - ElectronIpcProgressSink: forwards to the renderer on the orchestrator:* channels
+ * - ConsoleProgressSink: one readable line per event, for interactive runs
+ * - JsonLinesProgressSink: one JSON object per line, for cron logs and tooling
+ */
+
+import * as fs from 'fs';
+import type { PipelineProgress } from '../services/OrchestrationService';
+
+export type PipelineEvent =
+  | { type: 'started'; batchId: string; inputFiles: number; dryRun?: boolean }
+  | { type: 'stage-started'; batchId: string; stage: string }
+  | { type: 'stage-completed'; batchId: string; stage: string; productsProcessed?: number; productsSelected?: number; score?: number }
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'completed'; batchId: string; duration: number; finalProductCount: number; dryRun?: boolean }
+  | { type: 'failed'; batchId?: string; error: string; stage: string; message?: string; timestamp?: Date }
+  | { type: 'staged-committed'; batchId: string; finalProductCount: number };
+
+export interface PipelineProgressSink {
+  report(event: PipelineEvent): void;
+}
+
+/**
+ * Anything that can send to a renderer (a BrowserWindow)
+ */
+export interface IpcProgressTarget {
+  webContents: { send(channel: string, ...args: any[]): void };
+  isDestroyed?(): boolean;
+}
+
+// Renderer channels, unchanged from when the orchestrator sent to the window itself
+const IPC_CHANNELS: Record<PipelineEvent['type'], string> = {
+  'started': 'orchestrator:pipeline-started',
+  'stage-started': 'orchestrator:stage-started',
+  'stage-completed': 'orchestrator:stage-completed',
+  'progress': 'orchestrator:progress',
+  'completed': 'orchestrator:pipeline-completed',
+  'failed': 'orchestrator:pipeline-failed',
+  'staged-committed': 'orchestrator:staged-committed'
+};
+
+export class ElectronIpcProgressSink implements PipelineProgressSink {
+  constructor(private target: IpcProgressTarget) {}
+
+  report(event: PipelineEvent): void {
+    // The window may close while a run carries on
+    if (this.target.isDestroyed?.()) return;
+
+    const { type, ...payload } = event;
+    this.target.webContents.send(IPC_CHANNELS[type], type === 'progress' ? event.progress : payload);
+  }
+}
+
+export class ConsoleProgressSink implements PipelineProgressSink {
+  report(event: PipelineEvent): void {
+    const time = new Date().toLocaleTimeString('en-GB');
+    console.log(`[${time}] ${this.describe(event)}`);
+  }
+
+  private describe(event: PipelineEvent): string {
+    switch (event.type) {
+      case 'started':
+        return `▶ Pipeline ${event.batchId} started${event.dryRun ? ' (dry run)' : ''}: ${event.inputFiles} file(s)`;
+      case 'stage-started':
+        return `  → ${event.stage}`;
+      case 'stage-completed': {
+        const count = event.productsProcessed ?? event.productsSelected;
+        const detail = event.score !== undefined ? ` (score ${event.score}%)` : count !== undefined ? ` (${count} products)` : '';
+        return `  ✓ ${event.stage}${detail}`;
+      }
+      case 'progress':
+        return `  ${String(event.progress.totalProgress).padStart(3)}% ${event.progress.message}`;
+      case 'completed':
+        return `✅ Pipeline ${event.batchId} ${event.dryRun ? 'dry run ' : ''}completed in ${(event.duration / 1000).toFixed(1)}s: ${event.finalProductCount} products`;
+      case 'failed':
+        return `❌ Pipeline failed in ${event.stage}: ${event.message || event.error}`;
+      case 'staged-committed':
+        return `💾 Staged run ${event.batchId} committed: ${event.finalProductCount} products`;
+    }
+  }
+}
+
+export class JsonLinesProgressSink implements PipelineProgressSink {
+  private fd: number;
+  private ownsFd: boolean;
+
+  /**
+   * Appends to filePath, or writes to stdout when none is given
+   * Writes are synchronous so nothing is lost when a scheduled run exits
+   */
+  constructor(filePath?: string) {
+    this.ownsFd = !!filePath;
+    this.fd = filePath ? fs.openSync(filePath, 'a') : 1;
+  }
+
+  report(event: PipelineEvent): void {
+    fs.writeSync(this.fd, JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + '\n');
+  }
+
+  close(): void {
+    if (this.ownsFd) {
+      fs.closeSync(this.fd);
+      this.ownsFd = false;
+    }
+  }
+}
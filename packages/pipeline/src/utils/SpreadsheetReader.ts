@@ -0,0 +1,248 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Reads rows of cell text from CSV files and from the worksheets of XLSX
+ * workbooks. XLSX support covers what published registers use: shared and
+ * inline strings and plain values, stored or deflated in the zip. Formulas,
+ * dates and styles are returned as their stored text.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+/**
+ * Read every sheet of a CSV (one sheet) or XLSX file
+ */
+export function readSpreadsheet(filePath: string): SpreadsheetSheet[] {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    return [{ name: path.basename(filePath), rows: parseCsv(fs.readFileSync(filePath, 'utf8')) }];
+  }
+  if (extension === '.xlsx') {
+    return readXlsx(fs.readFileSync(filePath));
+  }
+
+  throw new Error(`Unsupported spreadsheet format '${extension}' - expected .csv or .xlsx`);
+}
+
+/**
+ * Parse CSV text, honouring quoted fields with embedded commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Read the worksheets of an XLSX workbook in workbook order
+ */
+function readXlsx(buffer: Buffer): SpreadsheetSheet[] {
+  const files = unzip(buffer);
+  const text = (name: string) => files.get(name)?.toString('utf8');
+
+  const sharedStrings = parseSharedStrings(text('xl/sharedStrings.xml') || '');
+
+  const workbook = text('xl/workbook.xml');
+  const relationships = text('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    throw new Error('Not a valid XLSX workbook: workbook.xml missing');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(match[0], 'Id');
+    const target = attribute(match[0], 'Target');
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const match of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = decodeXml(attribute(match[0], 'name') || `Sheet${sheets.length + 1}`);
+    const target = targets.get(attribute(match[0], 'r:id') || '');
+    const xml = target ? text(target) : undefined;
+    if (xml) {
+      sheets.push({ name, rows: parseWorksheet(xml, sharedStrings) });
+    }
+  }
+  return sheets;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  for (const item of xml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    strings.push(textRuns(item[1]!));
+  }
+  return strings;
+}
+
+function parseWorksheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of rowMatch[1]!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]!;
+      const body = cellMatch[2] || '';
+      const reference = attribute(attributes, 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = attribute(attributes, 't');
+      let value: string;
+      if (type === 'inlineStr') {
+        value = textRuns(body);
+      } else {
+        const raw = decodeXml(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] || '');
+        value = type === 's' ? (sharedStrings[Number(raw)] ?? '') : raw;
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    if (cells.some(cell => cell.trim() !== '')) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Concatenated <t> runs of a rich or plain string
+ */
+function textRuns(xml: string): string {
+  let value = '';
+  for (const run of xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    value += decodeXml(run[1]!);
+  }
+  return value;
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name.replace(':', '\\:')}="([^"]*)"`))?.[1];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extract the files of a zip archive from its central directory
+ */
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+  const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a valid XLSX file: zip directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid XLSX file: corrupt zip directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // File data follows the local header, whose name and extra fields can differ in length
+    const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      files.set(name, zlib.inflateRawSync(data));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
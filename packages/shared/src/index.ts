@@ -13,16 +13,22 @@ export * from './types/TransactionTypes';
 export * from './services/AuditLogMonitorService';
 export { AuditService } from './services/AuditService'; // Excludes FieldChangeStats (already in types)
 export * from './services/BalanceUpdateService';
+export * from './services/CategorisationRuleService';
 export * from './services/ConfigurationService';
 export * from './services/DatabaseService';
 export * from './services/DocumentService';
 export { EnhancedLogger } from './services/EnhancedLogger'; // Excludes LogCategory (already in types)
+export * from './services/InterestAccrualService';
 export * from './services/InterestEventService';
 export * from './services/InterestPaymentService';
+export * from './services/RateHistoryService';
 export * from './services/ReconciliationService';
+export * from './services/StatementImportService';
 export * from './services/TransactionService';
 
 // Utilities
 export * from './utils/DatabaseValidator';
 export * from './utils/formatters';
 export * from './utils/RetryHelper';
+export * from './utils/savingsTax';
+export * from './utils/statementParsers';
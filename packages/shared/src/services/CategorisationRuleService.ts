@@ -0,0 +1,177 @@
+import { Database } from 'sqlite3';
+import {
+  CategorisationRuleDirection,
+  Transaction,
+  TransactionCategorisationRule,
+  TransactionType
+} from '../types/TransactionTypes';
+
+const RULE_TYPES: TransactionType[] = [
+  'account_opened', 'deposit', 'withdrawal', 'interest', 'fee', 'adjustment', 'account_closed'
+];
+const RULE_DIRECTIONS: CategorisationRuleDirection[] = ['credit', 'debit'];
+
+/**
+ * User-defined categorisation rules
+ * A rule matches a transaction on reference pattern, amount range, direction
+ * and account; active rules are tried lowest priority first and the first
+ * match supplies the transaction type and notes
+ */
+export class CategorisationRuleService {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  /**
+   * Rules in the order they are tried
+   */
+  async getRules(includeInactive: boolean = true): Promise<TransactionCategorisationRule[]> {
+    const rows = await this.all<any>(
+      `SELECT * FROM transaction_categorisation_rules
+       ${includeInactive ? '' : 'WHERE is_active = 1'}
+       ORDER BY priority, id`
+    );
+    return rows.map(row => ({ ...row, is_active: !!row.is_active }));
+  }
+
+  async createRule(rule: TransactionCategorisationRule): Promise<number> {
+    this.validateRule(rule);
+
+    return this.run(
+      `INSERT INTO transaction_categorisation_rules (
+         name, account_id, reference_pattern, min_amount, max_amount,
+         direction, transaction_type, notes, priority, is_active
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      this.ruleParams(rule)
+    );
+  }
+
+  async updateRule(id: number, rule: TransactionCategorisationRule): Promise<boolean> {
+    this.validateRule(rule);
+
+    const changes = await this.run(
+      `UPDATE transaction_categorisation_rules
+       SET name = ?, account_id = ?, reference_pattern = ?, min_amount = ?, max_amount = ?,
+           direction = ?, transaction_type = ?, notes = ?, priority = ?, is_active = ?,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [...this.ruleParams(rule), id],
+      true
+    );
+    return changes > 0;
+  }
+
+  async deleteRule(id: number): Promise<boolean> {
+    const changes = await this.run('DELETE FROM transaction_categorisation_rules WHERE id = ?', [id], true);
+    return changes > 0;
+  }
+
+  /**
+   * First rule, in priority order, whose every condition the transaction meets
+   */
+  findMatchingRule(
+    transaction: Partial<Transaction>,
+    rules: TransactionCategorisationRule[]
+  ): TransactionCategorisationRule | null {
+    const direction: CategorisationRuleDirection | null =
+      transaction.credit ? 'credit' : transaction.debit ? 'debit' : null;
+    const amount = Math.abs(transaction.credit || transaction.debit || 0);
+    const text = [transaction.reference, transaction.optional_notes].filter(Boolean).join(' ');
+
+    const ordered = [...rules].sort((a, b) => a.priority - b.priority || (a.id || 0) - (b.id || 0));
+    for (const rule of ordered) {
+      if (!rule.is_active) continue;
+      if (rule.account_id && rule.account_id !== transaction.account_id) continue;
+      if (rule.direction && rule.direction !== direction) continue;
+      if (rule.min_amount !== null && rule.min_amount !== undefined && amount < rule.min_amount) continue;
+      if (rule.max_amount !== null && rule.max_amount !== undefined && amount > rule.max_amount) continue;
+      if (rule.reference_pattern) {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(rule.reference_pattern, 'i');
+        } catch {
+          continue;
+        }
+        if (!pattern.test(text)) continue;
+      }
+      return rule;
+    }
+    return null;
+  }
+
+  private validateRule(rule: TransactionCategorisationRule): void {
+    if (!rule.name || !rule.name.trim()) {
+      throw new Error('Rule name is required');
+    }
+    if (!rule.transaction_type && !rule.notes) {
+      throw new Error('A rule must set a transaction type or notes');
+    }
+    if (rule.transaction_type && !RULE_TYPES.includes(rule.transaction_type)) {
+      throw new Error(`Unknown transaction type: ${rule.transaction_type}`);
+    }
+    if (rule.direction && !RULE_DIRECTIONS.includes(rule.direction)) {
+      throw new Error(`Unknown direction: ${rule.direction}`);
+    }
+    if (rule.reference_pattern) {
+      try {
+        new RegExp(rule.reference_pattern, 'i');
+      } catch (error: any) {
+        throw new Error(`Invalid reference pattern: ${error.message}`);
+      }
+    }
+    for (const bound of [rule.min_amount, rule.max_amount]) {
+      if (bound !== null && bound !== undefined && (!isFinite(bound) || bound < 0)) {
+        throw new Error('Amount limits must be zero or more');
+      }
+    }
+    if (rule.min_amount !== null && rule.min_amount !== undefined &&
+        rule.max_amount !== null && rule.max_amount !== undefined &&
+        rule.min_amount > rule.max_amount) {
+      throw new Error('Minimum amount cannot exceed maximum amount');
+    }
+  }
+
+  private ruleParams(rule: TransactionCategorisationRule): any[] {
+    return [
+      rule.name.trim(),
+      rule.account_id || null,
+      rule.reference_pattern || null,
+      rule.min_amount ?? null,
+      rule.max_amount ?? null,
+      rule.direction || null,
+      rule.transaction_type || null,
+      rule.notes || null,
+      rule.priority ?? 100,
+      rule.is_active === false ? 0 : 1
+    ];
+  }
+
+  private all<T>(query: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err, rows: T[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  /**
+   * Resolves with the new row id, or the number of rows changed
+   */
+  private run(query: string, params: any[] = [], returnChanges: boolean = false): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(query, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(returnChanges ? this.changes : this.lastID);
+        }
+      });
+    });
+  }
+}
@@ -15,17 +15,34 @@ import {
   BalanceUpdateSessionProgress,
   IncomeHistoryPoint,
   BalanceUpdateFilters,
-  Deposit
+  Deposit,
+  TemporaryHighBalance,
+  AccountOwner,
+  TaxBand,
+  OwnerTaxProfile,
+  OwnerInterestTax,
+  InterestTaxSummary,
+  OwnerIsaAllowance,
+  IsaAllowanceLedger,
+  IsaAllowanceCheckRequest,
+  IsaAllowanceCheck,
+  FSCSBrandGroup,
+  DepositRateHistoryEntry,
+  AppliedRateChangesResult
 } from '../types/PortfolioTypes';
+import { MarketProduct, ProductRateChange, MarketRateSnapshot, MarketHistorySummary } from '../types/ScraperTypes';
 import { AuditService, AuditConfig } from './AuditService';
 import { TransactionService } from './TransactionService';
 import { BalanceUpdateService } from './BalanceUpdateService';
+import { RateHistoryService } from './RateHistoryService';
 import { DatabaseValidator } from '../utils/DatabaseValidator';
+import { DEFAULT_SAVINGS_TAX_BANDS, SavingsTaxBandRates, TAX_BANDS, calculateSavingsTax, getTaxYear } from '../utils/savingsTax';
 
 export class DatabaseService {
   private db: Database;
   private auditService: AuditService | null = null;
   private transactionService: TransactionService | null = null;
+  private rateHistoryService: RateHistoryService | null = null;
 
   constructor(databasePath: string) {
     // Pre-flight validation
@@ -202,16 +219,51 @@ export class DatabaseService {
       
       // Initialize transaction service as well
       this.transactionService = new TransactionService(this.db);
+      this.rateHistoryService = new RateHistoryService(this.db, this.auditService);
     } catch (error) {
       console.error('Failed to initialize audit service:', error);
       // Continue without audit service if initialization fails
     }
   }
 
+  /**
+   * Deposits to summarise: the whole household, or one owner's share of each
+   * account when an owner is given (joint balances split equally between owners)
+   */
+  private ownedDepositsSource(ownerId?: number): string {
+    if (ownerId === undefined) return 'my_deposits';
+    if (!Number.isInteger(ownerId)) throw new Error(`Invalid owner id: ${ownerId}`);
+
+    return `(
+      SELECT d.id, d.frn, d.aer, d.is_active, d.liquidity_tier, d.can_withdraw_immediately,
+             d.balance * s.ownership_share AS balance
+      FROM my_deposits d
+      JOIN deposit_owner_shares s ON s.deposit_id = d.id
+      WHERE s.owner_id = ${ownerId}
+    )`;
+  }
+
+  /**
+   * Pending deposits to summarise, for the household or one owner's share
+   */
+  private ownedPendingDepositsSource(ownerId?: number): string {
+    if (ownerId === undefined) return 'my_pending_deposits';
+    if (!Number.isInteger(ownerId)) throw new Error(`Invalid owner id: ${ownerId}`);
+
+    return `(
+      SELECT p.id, p.frn, p.aer, p.status, p.is_active, p.liquidity_tier, p.source_account_id,
+             p.balance * s.ownership_share AS balance
+      FROM my_pending_deposits p
+      JOIN pending_deposit_owner_shares s ON s.pending_deposit_id = p.id
+      WHERE s.owner_id = ${ownerId}
+    )`;
+  }
+
   /**
    * Get portfolio summary statistics including projected income from pending deposits
+   * Household view by default; pass an owner to summarise that owner's share only
    */
-  async getPortfolioSummary(): Promise<PortfolioSummary> {
+  async getPortfolioSummary(ownerId?: number): Promise<PortfolioSummary> {
     return new Promise((resolve, reject) => {
       // Get current deposits summary
       const currentQuery = `
@@ -222,7 +274,7 @@ export class DatabaseService {
           SUM(balance * aer) / SUM(balance) as weighted_average_rate,
           SUM(CASE WHEN is_active = 1 THEN balance ELSE 0 END) as active_value,
           SUM(CASE WHEN liquidity_tier <= 2 THEN balance ELSE 0 END) as liquid_value
-        FROM my_deposits 
+        FROM ${this.ownedDepositsSource(ownerId)}
         WHERE balance > 0
       `;
 
@@ -245,7 +297,7 @@ export class DatabaseService {
               SUM(CASE WHEN aer IS NOT NULL THEN balance ELSE NULL END) as pending_weighted_rate,
             SUM(CASE WHEN source_account_id IS NULL AND aer IS NOT NULL THEN balance * aer ELSE 0 END) / 
               NULLIF(SUM(CASE WHEN source_account_id IS NULL AND aer IS NOT NULL THEN balance ELSE NULL END), 0) as external_weighted_rate
-          FROM my_pending_deposits 
+          FROM ${this.ownedPendingDepositsSource(ownerId)}
           WHERE balance > 0 
             AND status IN ('PENDING', 'APPROVED')
             AND is_active = 1
@@ -297,7 +349,20 @@ export class DatabaseService {
             pendingDepositValue: pendingValue
           };
           
-          resolve(summary);
+          // Tax is informational; the summary is still returned without it
+          // when owners or tax profiles have not been set up
+          this.getInterestTaxSummary('projected')
+            .then(tax => {
+              const totals = ownerId === undefined ? tax : tax.owners.find(owner => owner.owner_id === ownerId);
+              if (totals && tax.owners.length > 0) {
+                summary.taxFreeAnnualIncome = totals.tax_free_interest;
+                summary.taxableAnnualIncome = totals.taxable_interest;
+                summary.estimatedAnnualTax = totals.estimated_tax;
+                summary.netAnnualIncome = currentIncome - totals.estimated_tax;
+              }
+            })
+            .catch(() => undefined)
+            .then(() => resolve(summary));
         });
       });
     });
@@ -354,9 +419,11 @@ export class DatabaseService {
 
   /**
    * Get income history for trend analysis with enhanced granularity
+   * Snapshots are combined with income rebuilt from the ledger and rate
+   * history, which also fills the dates no snapshot was captured on
    */
   async getIncomeHistory(period: number = 12, unit: 'days' | 'weeks' | 'months' = 'months'): Promise<IncomeHistoryPoint[]> {
-    return new Promise((resolve, reject) => {
+    const snapshots = await new Promise<IncomeHistoryPoint[]>((resolve, reject) => {
       let query: string;
       let dateFilter: string;
 
@@ -407,12 +474,72 @@ export class DatabaseService {
             currentIncome: row.currentIncome || 0,
             projectedIncome: row.projectedIncome || 0,
             portfolioValue: row.portfolioValue || 0,
-            weightedRate: row.weightedRate || 0
+            weightedRate: row.weightedRate || 0,
+            snapshot: true
           }));
           resolve(historyPoints);
         }
       });
     });
+
+    const dates = Array.from(new Set([
+      ...snapshots.map(point => point.date),
+      ...this.getIncomeHistoryDates(period, unit)
+    ])).sort();
+
+    let rebuilt: Map<string, { annualIncome: number; portfolioValue: number; weightedRate: number }>;
+    try {
+      const points = await this.getRateHistoryService().getIncomeAtDates(dates);
+      rebuilt = new Map(points.map(point => [point.date, point]));
+    } catch (error) {
+      console.error('Error rebuilding income from rate history:', error);
+      return snapshots;
+    }
+
+    return dates.map(date => {
+      const rates = rebuilt.get(date)!;
+      const snapshot = snapshots.find(point => point.date === date);
+      if (snapshot) {
+        return { ...snapshot, rateIncome: rates.annualIncome };
+      }
+      return {
+        date,
+        currentIncome: rates.annualIncome,
+        projectedIncome: rates.annualIncome,
+        portfolioValue: rates.portfolioValue,
+        weightedRate: rates.weightedRate,
+        rateIncome: rates.annualIncome,
+        snapshot: false
+      };
+    });
+  }
+
+  /**
+   * Evenly spaced dates covering an income history period, ending today;
+   * weeks start on Monday to line up with the weekly snapshot averages
+   */
+  private getIncomeHistoryDates(period: number, unit: 'days' | 'weeks' | 'months'): string[] {
+    const today = new Date();
+    const dates: string[] = [];
+
+    for (let i = period; i >= 0; i--) {
+      const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+      if (unit === 'days') {
+        date.setUTCDate(date.getUTCDate() - i);
+      } else if (unit === 'weeks') {
+        if (i === period) continue;
+        date.setUTCDate(date.getUTCDate() - i * 7 - ((date.getUTCDay() + 6) % 7));
+      } else {
+        const day = date.getUTCDate();
+        date.setUTCDate(1);
+        date.setUTCMonth(date.getUTCMonth() - i);
+        const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+        date.setUTCDate(Math.min(day, lastDay));
+      }
+      dates.push(date.toISOString().split('T')[0]);
+    }
+
+    return dates;
   }
 
   /**
@@ -532,9 +659,12 @@ export class DatabaseService {
    * Get all portfolio holdings
    */
   async getPortfolioHoldings(): Promise<PortfolioHolding[]> {
+    const owners = await this.getOwnerIdMap('deposit');
+
     return new Promise((resolve, reject) => {
       const query = `
         SELECT 
+          id,
           bank,
           type as account_type,
           balance,
@@ -573,7 +703,9 @@ export class DatabaseService {
             frn: row.frn,
             isActive: Boolean(row.is_active),
             canWithdrawImmediately: Boolean(row.can_withdraw_immediately),
-            upcomingMaturity: Boolean(row.upcoming_maturity)
+            upcomingMaturity: Boolean(row.upcoming_maturity),
+            depositId: row.id,
+            ownerIds: owners.get(row.id) || []
           }));
           resolve(holdings);
         }
@@ -583,8 +715,13 @@ export class DatabaseService {
 
   /**
    * Get strategic allocation analysis
+   * Household view by default; pass an owner to analyse that owner's share only
    */
-  async getAllocationAnalysis(): Promise<AllocationAnalysis[]> {
+  async getAllocationAnalysis(ownerId?: number): Promise<AllocationAnalysis[]> {
+    if (ownerId !== undefined) {
+      return this.getOwnerAllocationAnalysis(ownerId);
+    }
+
     return new Promise((resolve, reject) => {
       const query = `
         SELECT 
@@ -632,6 +769,79 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Allocation analysis over one owner's share of the portfolio
+   * Mirrors the portfolio_allocation_summary view with balances weighted by ownership share
+   */
+  private async getOwnerAllocationAnalysis(ownerId: number): Promise<AllocationAnalysis[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        WITH owned AS (
+          SELECT liquidity_tier, balance
+          FROM ${this.ownedDepositsSource(ownerId)}
+          WHERE is_active = 1 AND balance IS NOT NULL AND liquidity_tier IS NOT NULL
+        ),
+        portfolio_total AS (
+          SELECT SUM(balance) as total_value FROM owned
+        ),
+        current_allocation AS (
+          SELECT 
+            liquidity_tier,
+            SUM(balance) as current_balance,
+            COUNT(*) as account_count
+          FROM owned
+          GROUP BY liquidity_tier
+        )
+        SELECT 
+          lac.liquidity_tier,
+          lac.tier_description,
+          lac.tier_short_name,
+          lac.target_percentage,
+          ROUND(ca.current_balance * 100.0 / pt.total_value, 2) as current_percentage,
+          ca.current_balance,
+          ca.current_balance as available_balance,
+          0 as locked_balance,
+          lac.target_percentage - ROUND(ca.current_balance * 100.0 / pt.total_value, 2) as allocation_gap,
+          CASE 
+            WHEN lac.target_percentage - ca.current_balance * 100.0 / pt.total_value > 3 THEN 'UNDER_ALLOCATED'
+            WHEN lac.target_percentage - ca.current_balance * 100.0 / pt.total_value < -3 THEN 'OVER_ALLOCATED'
+            ELSE 'WITHIN_TARGET'
+          END as allocation_status,
+          (lac.target_percentage / 100.0) * pt.total_value as target_balance,
+          ((lac.target_percentage - ca.current_balance * 100.0 / pt.total_value) / 100.0) * pt.total_value as rebalancing_amount,
+          ca.account_count
+        FROM liquidity_allocation_config lac
+        JOIN current_allocation ca ON ca.liquidity_tier = lac.liquidity_tier
+        CROSS JOIN portfolio_total pt
+        WHERE lac.is_active = 1 AND ca.current_balance > 0
+        ORDER BY lac.tier_order ASC
+      `;
+
+      this.db.all(query, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          const analysis: AllocationAnalysis[] = rows.map(row => ({
+            liquidityTier: row.liquidity_tier,
+            tierDescription: row.tier_description,
+            tierShortName: row.tier_short_name,
+            targetPercentage: row.target_percentage,
+            currentPercentage: row.current_percentage,
+            currentBalance: row.current_balance,
+            availableBalance: row.available_balance,
+            lockedBalance: row.locked_balance,
+            allocationGap: row.allocation_gap,
+            allocationStatus: row.allocation_status,
+            targetBalance: row.target_balance,
+            rebalancingAmount: row.rebalancing_amount,
+            accountCount: row.account_count
+          }));
+          resolve(analysis);
+        }
+      });
+    });
+  }
+
   /**
    * Get projected allocation analysis including pending moves
    */
@@ -916,26 +1126,664 @@ export class DatabaseService {
             const key = row.config_key.replace('audit_', '');
             let value = row.config_value;
 
-            // Convert value based on type
-            if (row.config_type === 'boolean') {
-              value = value.toLowerCase() === 'true';
-            } else if (row.config_type === 'number') {
-              value = parseInt(value, 10);
-            }
+            // Convert value based on type
+            if (row.config_type === 'boolean') {
+              value = value.toLowerCase() === 'true';
+            } else if (row.config_type === 'number') {
+              value = parseInt(value, 10);
+            }
+
+            (config as any)[key] = value;
+          });
+
+          resolve(config);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get household account owners with the balance each owns
+   * Joint balances are split equally between the account's owners
+   */
+  async getAccountOwners(includeInactive: boolean = false): Promise<AccountOwner[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT
+          o.*,
+          COUNT(d.id) as account_count,
+          COALESCE(SUM(d.balance * s.ownership_share), 0) as owned_balance
+        FROM account_owners o
+        LEFT JOIN deposit_owner_shares s ON s.owner_id = o.id
+        LEFT JOIN my_deposits d ON d.id = s.deposit_id AND d.is_active = 1 AND d.balance > 0
+        ${includeInactive ? '' : 'WHERE o.is_active = 1'}
+        GROUP BY o.id
+        ORDER BY o.is_primary DESC, o.name ASC
+      `;
+
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) {
+          console.error('Error fetching account owners:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            ...row,
+            is_primary: row.is_primary === 1,
+            is_active: row.is_active === 1
+          })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Create an account owner (a member of the household)
+   */
+  async createAccountOwner(owner: AccountOwner): Promise<number> {
+    if (!owner.name || !owner.name.trim()) {
+      throw new Error('Owner name is required');
+    }
+
+    if (owner.is_primary) {
+      await this.clearPrimaryOwner();
+    }
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO account_owners (name, is_primary, notes)
+        VALUES (?, ?, ?)
+      `;
+
+      const auditService = this.auditService;
+      this.db.run(query, [owner.name.trim(), owner.is_primary ? 1 : 0, owner.notes || null], async function(err) {
+        if (err) {
+          console.error('Error creating account owner:', err);
+          if (err.message.includes('UNIQUE constraint failed')) {
+            reject(new Error(`An owner named ${owner.name.trim()} already exists`));
+          } else {
+            reject(err);
+          }
+        } else {
+          const ownerId = this.lastID;
+
+          if (auditService) {
+            try {
+              await auditService.logDataChanges({
+                tableName: 'account_owners',
+                recordId: ownerId,
+                oldData: {}, // Empty for new records
+                newData: owner,
+                operationContext: 'CREATE_ACCOUNT_OWNER',
+                notes: `Account owner ${owner.name.trim()} added`
+              });
+            } catch (auditError) {
+              console.error('Audit logging failed for account owner creation:', auditError);
+            }
+          }
+
+          resolve(ownerId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Update an account owner's name, notes, primary flag or active state
+   */
+  async updateAccountOwner(owner: AccountOwner): Promise<boolean> {
+    if (!owner.id) {
+      throw new Error('Missing owner ID for update');
+    }
+
+    const oldData = await new Promise<any>((resolve, reject) => {
+      this.db.get('SELECT * FROM account_owners WHERE id = ?', [owner.id], (err, row) => err ? reject(err) : resolve(row));
+    });
+
+    if (owner.is_primary) {
+      await this.clearPrimaryOwner();
+    }
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE account_owners
+        SET name = COALESCE(?, name),
+            notes = ?,
+            is_primary = ?,
+            is_active = ?,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `;
+
+      const params = [
+        owner.name ? owner.name.trim() : null,
+        owner.notes || null,
+        owner.is_primary ? 1 : 0,
+        owner.is_active === false ? 0 : 1,
+        owner.id
+      ];
+
+      const auditService = this.auditService;
+      this.db.run(query, params, async function(err) {
+        if (err) {
+          console.error('Error updating account owner:', err);
+          reject(err);
+        } else {
+          const success = this.changes > 0;
+
+          if (success && auditService && oldData) {
+            try {
+              await auditService.logDataChanges({
+                tableName: 'account_owners',
+                recordId: owner.id!,
+                oldData: oldData,
+                newData: owner,
+                operationContext: 'UPDATE_ACCOUNT_OWNER',
+                notes: 'Account owner updated'
+              });
+            } catch (auditError) {
+              console.error('Audit logging failed for account owner update:', auditError);
+            }
+          }
+
+          resolve(success);
+        }
+      });
+    });
+  }
+
+  /**
+   * Remove the primary flag from all owners (only one owner is primary)
+   */
+  private clearPrimaryOwner(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE account_owners SET is_primary = 0 WHERE is_primary = 1', (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  /**
+   * Owner ids per deposit or pending deposit
+   * Resolves an empty map when the owner tables have not been migrated yet
+   */
+  private getOwnerIdMap(kind: 'deposit' | 'pending_deposit'): Promise<Map<number, number[]>> {
+    const query = kind === 'deposit'
+      ? 'SELECT deposit_id as record_id, owner_id FROM deposit_owners ORDER BY owner_id'
+      : 'SELECT pending_deposit_id as record_id, owner_id FROM pending_deposit_owners ORDER BY owner_id';
+
+    return new Promise((resolve) => {
+      this.db.all(query, [], (err, rows: any[]) => {
+        const owners = new Map<number, number[]>();
+        if (err) {
+          resolve(owners);
+          return;
+        }
+
+        for (const row of rows) {
+          const ids = owners.get(row.record_id) || [];
+          ids.push(row.owner_id);
+          owners.set(row.record_id, ids);
+        }
+        resolve(owners);
+      });
+    });
+  }
+
+  /**
+   * Default owners for new accounts: the primary owner, if one is set
+   * Resolves an empty list when the owner tables have not been migrated yet
+   */
+  private getPrimaryOwnerIds(): Promise<number[]> {
+    return new Promise((resolve) => {
+      this.db.get(
+        'SELECT id FROM account_owners WHERE is_primary = 1 AND is_active = 1',
+        [],
+        (err, row: any) => resolve(err || !row ? [] : [row.id])
+      );
+    });
+  }
+
+  /**
+   * Replace the owners of a deposit or pending deposit
+   * Keeps is_joint_account and num_account_holders in step so that FSCS and
+   * the optimizer treat multi-owner accounts as joint
+   */
+  private async setRecordOwners(kind: 'deposit' | 'pending_deposit', recordId: number, ownerIds: number[]): Promise<void> {
+    const uniqueOwnerIds = Array.from(new Set(ownerIds));
+    if (uniqueOwnerIds.length === 0) {
+      throw new Error('An account must have at least one owner');
+    }
+
+    const ownerTable = kind === 'deposit' ? 'deposit_owners' : 'pending_deposit_owners';
+    const recordColumn = kind === 'deposit' ? 'deposit_id' : 'pending_deposit_id';
+    const recordTable = kind === 'deposit' ? 'my_deposits' : 'my_pending_deposits';
+
+    const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+      this.db.run(sql, params, (err) => err ? reject(err) : resolve());
+    });
+
+    await run(`DELETE FROM ${ownerTable} WHERE ${recordColumn} = ?`, [recordId]);
+    for (const ownerId of uniqueOwnerIds) {
+      await run(`INSERT INTO ${ownerTable} (${recordColumn}, owner_id) VALUES (?, ?)`, [recordId, ownerId]);
+    }
+    await run(
+      `UPDATE ${recordTable} SET is_joint_account = ?, num_account_holders = ? WHERE id = ?`,
+      [uniqueOwnerIds.length > 1 ? 1 : 0, uniqueOwnerIds.length, recordId]
+    );
+  }
+
+  /**
+   * Personal Savings Allowance and tax rate for each band, from unified_config
+   * Falls back to the built-in rates when the tax configuration is missing
+   */
+  private getSavingsTaxBands(): Promise<{ bands: Record<TaxBand, SavingsTaxBandRates>; defaultBand: TaxBand }> {
+    return new Promise((resolve) => {
+      const bands: Record<TaxBand, SavingsTaxBandRates> = {
+        non_taxpayer: { ...DEFAULT_SAVINGS_TAX_BANDS.non_taxpayer },
+        basic: { ...DEFAULT_SAVINGS_TAX_BANDS.basic },
+        higher: { ...DEFAULT_SAVINGS_TAX_BANDS.higher },
+        additional: { ...DEFAULT_SAVINGS_TAX_BANDS.additional },
+      };
+      let defaultBand: TaxBand = 'basic';
+
+      this.db.all(
+        `SELECT config_key, config_value FROM unified_config WHERE category = 'tax' AND is_active = 1`,
+        [],
+        (err, rows: any[]) => {
+          if (!err) {
+            for (const row of rows) {
+              const match = /^tax_(psa|rate)_(basic|higher|additional)$/.exec(row.config_key);
+              if (match) {
+                const value = parseFloat(row.config_value);
+                if (!isNaN(value)) {
+                  bands[match[2] as TaxBand][match[1] === 'psa' ? 'allowance' : 'rate'] = value;
+                }
+              } else if (row.config_key === 'tax_default_band' && TAX_BANDS.includes(row.config_value)) {
+                defaultBand = row.config_value;
+              }
+            }
+          }
+          resolve({ bands, defaultBand });
+        }
+      );
+    });
+  }
+
+  /**
+   * Get each active owner's tax band and the allowance and rate that apply
+   * Owners without a profile are given the configured default band
+   */
+  async getOwnerTaxProfiles(): Promise<OwnerTaxProfile[]> {
+    const { bands, defaultBand } = await this.getSavingsTaxBands();
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT
+          o.id as owner_id,
+          o.name as owner_name,
+          p.tax_band,
+          p.personal_savings_allowance,
+          p.starting_rate_band,
+          p.notes,
+          p.updated_at
+        FROM account_owners o
+        LEFT JOIN owner_tax_profiles p ON p.owner_id = o.id
+        WHERE o.is_active = 1
+        ORDER BY o.is_primary DESC, o.name ASC
+      `;
+
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) {
+          console.error('Error fetching owner tax profiles:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => {
+            const taxBand: TaxBand = row.tax_band || defaultBand;
+            const allowance = row.personal_savings_allowance ?? bands[taxBand].allowance;
+            return {
+              ...row,
+              tax_band: taxBand,
+              starting_rate_band: row.starting_rate_band || 0,
+              effective_allowance: allowance + (row.starting_rate_band || 0),
+              tax_rate: bands[taxBand].rate
+            };
+          }));
+        }
+      });
+    });
+  }
+
+  /**
+   * Set an owner's tax band, allowance override and starting rate band
+   */
+  async updateOwnerTaxProfile(profile: OwnerTaxProfile): Promise<boolean> {
+    if (!profile.owner_id) {
+      throw new Error('Missing owner ID for tax profile update');
+    }
+    if (!TAX_BANDS.includes(profile.tax_band)) {
+      throw new Error(`Invalid tax band: ${profile.tax_band}`);
+    }
+
+    const oldData = await new Promise<any>((resolve, reject) => {
+      this.db.get('SELECT * FROM owner_tax_profiles WHERE owner_id = ?', [profile.owner_id], (err, row) => err ? reject(err) : resolve(row));
+    });
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO owner_tax_profiles (owner_id, tax_band, personal_savings_allowance, starting_rate_band, notes, updated_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(owner_id) DO UPDATE SET
+          tax_band = excluded.tax_band,
+          personal_savings_allowance = excluded.personal_savings_allowance,
+          starting_rate_band = excluded.starting_rate_band,
+          notes = excluded.notes,
+          updated_at = CURRENT_TIMESTAMP
+      `;
+
+      const params = [
+        profile.owner_id,
+        profile.tax_band,
+        profile.personal_savings_allowance ?? null,
+        profile.starting_rate_band || 0,
+        profile.notes || null
+      ];
+
+      const auditService = this.auditService;
+      this.db.run(query, params, async function(err) {
+        if (err) {
+          console.error('Error updating owner tax profile:', err);
+          reject(err);
+        } else {
+          if (auditService) {
+            try {
+              await auditService.logDataChanges({
+                tableName: 'owner_tax_profiles',
+                recordId: profile.owner_id,
+                oldData: oldData || {},
+                newData: profile,
+                operationContext: 'UPDATE_OWNER_TAX_PROFILE',
+                notes: `Tax band set to ${profile.tax_band}`
+              });
+            } catch (auditError) {
+              console.error('Audit logging failed for owner tax profile update:', auditError);
+            }
+          }
+
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * Split a tax year's interest into tax-free and taxable amounts per owner
+   * 'projected' uses current balances and rates; 'received' uses the interest
+   * transactions booked in the tax year containing the given date
+   * Joint account interest is split equally between the account's owners
+   */
+  async getInterestTaxSummary(
+    basis: 'projected' | 'received' = 'projected',
+    date?: string
+  ): Promise<InterestTaxSummary> {
+    const taxYear = getTaxYear(date ? new Date(date) : new Date());
+    const profiles = await this.getOwnerTaxProfiles();
+
+    const shares = await new Promise<any[]>((resolve, reject) => {
+      const query = `
+        SELECT s.deposit_id, s.owner_id, s.ownership_share, d.balance, d.aer, d.is_isa
+        FROM deposit_owner_shares s
+        JOIN my_deposits d ON d.id = s.deposit_id
+      `;
+      this.db.all(query, [], (err, rows: any[]) => err ? reject(err) : resolve(rows));
+    });
+
+    let interestByDeposit: Map<number, number>;
+    if (basis === 'received') {
+      // The transaction service is created with the audit service; it does not depend on it
+      const transactionService = this.transactionService || new TransactionService(this.db);
+      const received = await transactionService.getInterestReceivedByAccount(taxYear.startDate, taxYear.endDate);
+      interestByDeposit = new Map(received.map(row => [row.account_id, row.total_interest]));
+    } else {
+      interestByDeposit = new Map(
+        shares
+          .filter(row => row.balance > 0)
+          .map(row => [row.deposit_id, row.balance * (row.aer || 0) / 100])
+      );
+    }
+
+    const owners: OwnerInterestTax[] = profiles.map(profile => {
+      let isaInterest = 0;
+      let otherInterest = 0;
+      for (const share of shares.filter(row => row.owner_id === profile.owner_id)) {
+        const interest = (interestByDeposit.get(share.deposit_id) || 0) * share.ownership_share;
+        if (share.is_isa) {
+          isaInterest += interest;
+        } else {
+          otherInterest += interest;
+        }
+      }
+
+      const tax = calculateSavingsTax(otherInterest, profile.effective_allowance || 0, profile.tax_rate || 0);
+      return {
+        owner_id: profile.owner_id,
+        owner_name: profile.owner_name || `Owner ${profile.owner_id}`,
+        tax_band: profile.tax_band,
+        gross_interest: isaInterest + otherInterest,
+        isa_interest: isaInterest,
+        allowance_used: tax.allowanceUsed,
+        tax_free_interest: isaInterest + tax.allowanceUsed,
+        taxable_interest: tax.taxableInterest,
+        estimated_tax: tax.tax,
+        net_interest: isaInterest + otherInterest - tax.tax
+      };
+    });
+
+    const total = (field: keyof OwnerInterestTax) =>
+      owners.reduce((sum, owner) => sum + (owner[field] as number), 0);
+
+    return {
+      basis,
+      tax_year: taxYear.label,
+      start_date: taxYear.startDate,
+      end_date: taxYear.endDate,
+      owners,
+      gross_interest: total('gross_interest'),
+      tax_free_interest: total('tax_free_interest'),
+      taxable_interest: total('taxable_interest'),
+      estimated_tax: total('estimated_tax'),
+      net_interest: total('net_interest')
+    };
+  }
+
+  /**
+   * Annual ISA subscription allowance per person, from unified_config
+   */
+  private getIsaAnnualAllowance(): Promise<number> {
+    return new Promise((resolve) => {
+      this.db.get(
+        `SELECT config_value FROM unified_config WHERE config_key = 'isa_annual_allowance' AND is_active = 1`,
+        [],
+        (err, row: any) => resolve(!err && row && !isNaN(parseFloat(row.config_value)) ? parseFloat(row.config_value) : 20000)
+      );
+    });
+  }
+
+  /**
+   * Deposits flagged as flexible ISAs
+   * Resolves an empty set when the ISA tables have not been migrated yet
+   */
+  private getFlexibleIsaIds(): Promise<Set<number>> {
+    return new Promise((resolve) => {
+      this.db.all('SELECT deposit_id FROM isa_account_settings WHERE is_flexible = 1', [], (err, rows: any[]) => {
+        resolve(new Set(err ? [] : rows.map(row => row.deposit_id)));
+      });
+    });
+  }
+
+  /**
+   * Flag or unflag a deposit as a flexible ISA
+   */
+  private setFlexibleIsa(depositId: number, isFlexible: boolean): Promise<void> {
+    return new Promise((resolve) => {
+      this.db.run(
+        `INSERT INTO isa_account_settings (deposit_id, is_flexible, updated_at)
+         VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(deposit_id) DO UPDATE SET is_flexible = excluded.is_flexible, updated_at = CURRENT_TIMESTAMP`,
+        [depositId, isFlexible ? 1 : 0],
+        (err) => {
+          if (err) {
+            console.error('Warning: Could not save flexible ISA setting:', err);
+          }
+          resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * ISA subscription allowance used by each owner in a tax year
+   * Subscriptions come from deposits into ISA accounts; ISA to ISA transfers
+   * use no allowance, and withdrawals from a flexible ISA can be replaced in
+   * the same tax year. Pending moves into an ISA are reserved against the
+   * allowance until they are executed
+   */
+  async getIsaAllowanceLedger(date?: string, excludePendingDepositId?: number): Promise<IsaAllowanceLedger> {
+    const taxYear = getTaxYear(date ? new Date(date) : new Date());
+    const annualAllowance = await this.getIsaAnnualAllowance();
+    const owners = await this.getAccountOwners();
+
+    const all = (sql: string, params: any[]) => new Promise<any[]>((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => err ? reject(err) : resolve(rows));
+    });
+
+    const entryRows = await all(`
+      SELECT e.transaction_id, e.account_id, d.bank, s.owner_id, e.bank_date, e.entry_type, e.is_flexible,
+             e.amount * s.ownership_share AS amount
+      FROM isa_allowance_entries e
+      JOIN my_deposits d ON d.id = e.account_id
+      JOIN deposit_owner_shares s ON s.deposit_id = e.account_id
+      WHERE e.bank_date >= ? AND e.bank_date <= ?
+      ORDER BY e.bank_date ASC, e.transaction_id ASC
+    `, [taxYear.startDate, taxYear.endDate]);
+
+    const pendingRows = await all(`
+      SELECT s.owner_id, SUM(p.balance * s.ownership_share) AS pending_subscriptions
+      FROM my_pending_deposits p
+      JOIN pending_deposit_owner_shares s ON s.pending_deposit_id = p.id
+      LEFT JOIN my_deposits src ON src.id = p.source_account_id
+      LEFT JOIN my_deposits dest ON dest.id = p.destination_account_id
+      WHERE p.status IN ('PENDING', 'APPROVED')
+        AND p.is_active = 1
+        AND COALESCE(dest.is_isa, p.is_isa) = 1
+        AND COALESCE(src.is_isa, 0) = 0
+        AND p.id <> ?
+      GROUP BY s.owner_id
+    `, [excludePendingDepositId || 0]);
+    const pendingByOwner = new Map<number, number>(pendingRows.map(row => [row.owner_id, row.pending_subscriptions || 0]));
+
+    const ownerAllowances: OwnerIsaAllowance[] = owners.map(owner => {
+      // Flexible withdrawals can only be replaced into the ISA they came from
+      const byAccount = new Map<number, { subscribed: number; withdrawn: number; flexible: boolean }>();
+      for (const row of entryRows.filter(entry => entry.owner_id === owner.id)) {
+        const account = byAccount.get(row.account_id) || { subscribed: 0, withdrawn: 0, flexible: row.is_flexible === 1 };
+        if (row.entry_type === 'subscription') account.subscribed += row.amount;
+        if (row.entry_type === 'flexible_withdrawal') account.withdrawn += row.amount;
+        byAccount.set(row.account_id, account);
+      }
+
+      let subscribed = 0;
+      let replaced = 0;
+      for (const account of byAccount.values()) {
+        subscribed += account.subscribed;
+        if (account.flexible) {
+          replaced += Math.min(account.subscribed, account.withdrawn);
+        }
+      }
+
+      const allowanceUsed = subscribed - replaced;
+      const pending = pendingByOwner.get(owner.id!) || 0;
+      return {
+        owner_id: owner.id!,
+        owner_name: owner.name,
+        subscribed,
+        replaced,
+        allowance_used: allowanceUsed,
+        pending_subscriptions: pending,
+        remaining: Math.max(0, annualAllowance - allowanceUsed - pending)
+      };
+    });
+
+    return {
+      tax_year: taxYear.label,
+      start_date: taxYear.startDate,
+      end_date: taxYear.endDate,
+      annual_allowance: annualAllowance,
+      owners: ownerAllowances,
+      entries: entryRows.map(({ is_flexible, ...entry }) => entry)
+    };
+  }
+
+  /**
+   * Check whether a payment into an ISA would exceed its owners' allowance
+   * Used before saving or executing a pending move
+   */
+  async checkIsaAllowance(request: IsaAllowanceCheckRequest): Promise<IsaAllowanceCheck> {
+    let { amount = 0, is_isa: isIsa, source_account_id: sourceId, destination_account_id: destinationId, owner_ids: ownerIds } = request;
+
+    if (request.pending_deposit_id) {
+      const pending = await this.getPendingDepositById(request.pending_deposit_id);
+      if (!pending) {
+        throw new Error(`Pending deposit not found: ${request.pending_deposit_id}`);
+      }
+      const pendingOwners = await this.getOwnerIdMap('pending_deposit');
+      amount = request.amount ?? pending.balance;
+      isIsa = isIsa ?? pending.is_isa === 1;
+      sourceId = sourceId ?? pending.source_account_id;
+      destinationId = destinationId ?? pending.destination_account_id;
+      ownerIds = ownerIds ?? pendingOwners.get(pending.id);
+    }
+
+    const accountIsIsa = (id?: number | null) => id
+      ? this.getDepositById(id).then(account => account?.is_isa === 1)
+      : Promise.resolve(false);
 
-            (config as any)[key] = value;
-          });
+    if (destinationId) {
+      isIsa = await accountIsIsa(destinationId);
+    }
+    const isTransfer = !!isIsa && await accountIsIsa(sourceId);
+
+    const ledger = await this.getIsaAllowanceLedger(request.date, request.pending_deposit_id);
+    const owners = ownerIds && ownerIds.length > 0
+      ? ledger.owners.filter(owner => ownerIds!.includes(owner.owner_id))
+      : ledger.owners.slice(0, 1); // Primary owner first
+    const tightest = owners.reduce<OwnerIsaAllowance | null>(
+      (least, owner) => !least || owner.remaining < least.remaining ? owner : least,
+      null
+    );
 
-          resolve(config);
-        }
-      });
-    });
+    const consumesAllowance = !!isIsa && !isTransfer;
+    // Each owner of a (rare) multi-owner ISA subscribes an equal share
+    const share = amount / Math.max(owners.length, 1);
+    const remaining = tightest ? tightest.remaining : ledger.annual_allowance;
+    const excess = consumesAllowance ? Math.max(0, share - remaining) : 0;
+
+    return {
+      consumes_allowance: consumesAllowance,
+      is_transfer: isTransfer,
+      tax_year: ledger.tax_year,
+      amount,
+      remaining,
+      exceeds: excess > 0,
+      excess,
+      ...(tightest ? { owner_name: tightest.owner_name } : {})
+    };
   }
 
   /**
    * Get all deposits for CRUD operations
    */
   async getAllDeposits(): Promise<any[]> {
+    const owners = await this.getOwnerIdMap('deposit');
+    const flexibleIsas = await this.getFlexibleIsaIds();
+
     return new Promise((resolve, reject) => {
       const query = `
         SELECT * FROM my_deposits 
@@ -946,7 +1794,11 @@ export class DatabaseService {
         if (err) {
           reject(err);
         } else {
-          resolve(rows);
+          resolve(rows.map(row => ({
+            ...row,
+            owner_ids: owners.get(row.id) || [],
+            is_flexible_isa: flexibleIsas.has(row.id)
+          })));
         }
       });
     });
@@ -956,6 +1808,8 @@ export class DatabaseService {
    * Get all pending deposits for CRUD operations
    */
   async getAllPendingDeposits(): Promise<any[]> {
+    const owners = await this.getOwnerIdMap('pending_deposit');
+
     return new Promise((resolve, reject) => {
       const query = `
         SELECT pd.rowid as id, pd.*, 
@@ -978,7 +1832,7 @@ export class DatabaseService {
         if (err) {
           reject(err);
         } else {
-          resolve(rows);
+          resolve(rows.map(row => ({ ...row, owner_ids: owners.get(row.id) || [] })));
         }
       });
     });
@@ -1053,11 +1907,12 @@ export class DatabaseService {
   /**
    * Create a new deposit
    */
-  async createDeposit(deposit: any): Promise<number> {
+  async createDeposit(depositWithOwners: any): Promise<number> {
+    const { owner_ids: ownerIds, is_flexible_isa: isFlexibleIsa, ...deposit } = depositWithOwners;
     const auditService = this.auditService; // Store reference for callback
     const db = this.db; // Store db reference for callback
     
-    return new Promise((resolve, reject) => {
+    const depositId = await new Promise<number>((resolve, reject) => {
       const fields = Object.keys(deposit).filter(key => key !== 'id');
       const placeholders = fields.map(() => '?').join(', ');
       const values = fields.map(field => deposit[field]);
@@ -1101,18 +1956,43 @@ export class DatabaseService {
         }
       });
     });
+
+    const owners = Array.isArray(ownerIds) ? ownerIds : await this.getPrimaryOwnerIds();
+    if (owners.length > 0) {
+      await this.setRecordOwners('deposit', depositId, owners);
+    }
+
+    if (isFlexibleIsa) {
+      await this.setFlexibleIsa(depositId, true);
+    }
+
+    if (typeof deposit.aer === 'number') {
+      await this.recordRateFromDepositEdit(depositId, deposit.aer, deposit.deposit_date, 'Rate when the account was added');
+    }
+
+    return depositId;
   }
 
   /**
    * Update an existing deposit
    */
-  async updateDeposit(deposit: any): Promise<boolean> {
+  async updateDeposit(depositWithOwners: any): Promise<boolean> {
+    const { owner_ids: ownerIds, is_flexible_isa: isFlexibleIsa, ...deposit } = depositWithOwners;
+
     // Get current data for comparison (for audit logging)
     const oldData = await this.getDepositById(deposit.id);
     const auditService = this.auditService; // Store reference for callback
     const db = this.db; // Store db reference for callback
     
-    return new Promise((resolve, reject) => {
+    if (Array.isArray(ownerIds)) {
+      await this.setRecordOwners('deposit', deposit.id, ownerIds);
+    }
+
+    if (isFlexibleIsa !== undefined) {
+      await this.setFlexibleIsa(deposit.id, Boolean(isFlexibleIsa));
+    }
+
+    const updated = await new Promise<boolean>((resolve, reject) => {
       const fields = Object.keys(deposit).filter(key => key !== 'id');
       const setClause = fields.map(field => `${field} = ?`).join(', ');
       const values = fields.map(field => deposit[field]);
@@ -1158,6 +2038,31 @@ export class DatabaseService {
         }
       });
     });
+
+    // An AER edited by hand becomes the rate from today
+    if (updated && typeof deposit.aer === 'number' && oldData && oldData.aer !== deposit.aer) {
+      await this.recordRateFromDepositEdit(deposit.id, deposit.aer, undefined, 'AER edited on the account');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record an AER entered on the account form in its rate history
+   * Rate history is secondary to the deposit itself, so failures are logged only
+   */
+  private async recordRateFromDepositEdit(depositId: number, aer: number, effectiveFrom: string | undefined, notes: string): Promise<void> {
+    try {
+      await this.getRateHistoryService().recordRate({
+        deposit_id: depositId,
+        aer,
+        effective_from: effectiveFrom || new Date().toISOString().split('T')[0],
+        source: 'manual',
+        notes
+      });
+    } catch (error) {
+      console.error('Failed to record rate history for deposit:', error);
+    }
   }
 
   /**
@@ -1220,7 +2125,9 @@ export class DatabaseService {
   /**
    * Create a new pending deposit
    */
-  async createPendingDeposit(pendingDeposit: any): Promise<number> {
+  async createPendingDeposit(pendingDepositWithOwners: any): Promise<number> {
+    const { owner_ids: ownerIds, ...pendingDeposit } = pendingDepositWithOwners;
+
     // Add debug logging at the start
     console.log('[DEBUG: DatabaseService] Start createPendingDeposit:', {
       balance: pendingDeposit.balance,
@@ -1231,7 +2138,7 @@ export class DatabaseService {
     const auditService = this.auditService; // Store reference for callback
     const db = this.db; // Store db reference for callback
     
-    return new Promise((resolve, reject) => {
+    const pendingDepositId = await new Promise<number>((resolve, reject) => {
       try {
         // Validate required fields
         const requiredFields = ['bank', 'frn', 'type', 'sub_type', 'balance'];
@@ -1310,6 +2217,13 @@ export class DatabaseService {
         reject(new Error(`Validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`));
       }
     });
+
+    const owners = Array.isArray(ownerIds) ? ownerIds : await this.getPrimaryOwnerIds();
+    if (owners.length > 0) {
+      await this.setRecordOwners('pending_deposit', pendingDepositId, owners);
+    }
+
+    return pendingDepositId;
   }
 
   /**
@@ -1345,6 +2259,10 @@ export class DatabaseService {
     const oldData = recordId ? await this.getPendingDepositById(recordId) : null;
     const auditService = this.auditService; // Store reference for callback
     
+    if (recordId && Array.isArray(pendingDeposit.owner_ids)) {
+      await this.setRecordOwners('pending_deposit', recordId, pendingDeposit.owner_ids);
+    }
+    
     return new Promise((resolve, reject) => {
       try {
         // Validate record ID
@@ -1733,6 +2651,21 @@ export class DatabaseService {
 
         const newAccountId = this.lastID;
         
+        // The new account belongs to the pending deposit's owners
+        await new Promise<void>((resolveOwners) => {
+          db.run(
+            `INSERT OR IGNORE INTO deposit_owners (deposit_id, owner_id)
+             SELECT ?, owner_id FROM pending_deposit_owners WHERE pending_deposit_id = ?`,
+            [newAccountId, pendingMove.id],
+            (ownerErr: any) => {
+              if (ownerErr) {
+                console.error('Warning: Could not copy owners to new account:', ownerErr);
+              }
+              resolveOwners();
+            }
+          );
+        });
+        
         // Audit log the new account creation
         if (auditService) {
           try {
@@ -1755,6 +2688,26 @@ export class DatabaseService {
           }
         }
 
+        // Record the opening deposit (ISA subscriptions are derived from these)
+        if (self.transactionService) {
+          try {
+            await self.transactionService.createTransaction({
+              account_id: newAccountId,
+              transaction_date: new Date().toISOString().split('T')[0],
+              bank_date: new Date().toISOString().split('T')[0],
+              transaction_type: 'account_opened',
+              credit: pendingMove.balance,
+              balance_after: pendingMove.balance,
+              reference: `MOVE-${pendingMove.id}`,
+              optional_notes: `Account opened with £${pendingMove.balance.toLocaleString()} from ${sourceAccount ? `${sourceAccount.bank} ${sourceAccount.account_name || ''}`.trim() : 'external source'}`,
+              source: 'system'
+            });
+          } catch (transactionError) {
+            console.error('Failed to create automatic transaction for new account:', transactionError);
+            // Don't fail the whole operation if transaction creation fails
+          }
+        }
+
         // Get the newly created account for audit context
         db.get('SELECT * FROM my_deposits WHERE id = ?', [newAccountId], async (err: any, newAccount: any) => {
           if (err) {
@@ -1795,6 +2748,26 @@ export class DatabaseService {
                 }
               }
 
+              // Create automatic transaction for the source account
+              if (self.transactionService) {
+                try {
+                  await self.transactionService.createTransaction({
+                    account_id: sourceAccount.id,
+                    transaction_date: new Date().toISOString().split('T')[0],
+                    bank_date: new Date().toISOString().split('T')[0],
+                    transaction_type: 'withdrawal',
+                    debit: pendingMove.balance,
+                    balance_after: newSourceBalance,
+                    reference: `MOVE-${pendingMove.id}`,
+                    optional_notes: `£${pendingMove.balance.toLocaleString()} moved to new ${pendingMove.bank} account`,
+                    source: 'system'
+                  });
+                } catch (transactionError) {
+                  console.error('Failed to create automatic transaction for source:', transactionError);
+                  // Don't fail the whole operation if transaction creation fails
+                }
+              }
+
               // Mark pending move as executed
               self.completePendingMove(pendingMove.id, newAccountId, sourceAccount, newAccount, pendingMove, resolve, reject);
             });
@@ -2313,6 +3286,7 @@ export class DatabaseService {
       ];
 
       const auditService = this.auditService;
+      const rateHistoryService = this.getRateHistoryService();
       this.db.run(query, params, async function(err) {
         if (err) {
           console.error('Error creating rate change:', err);
@@ -2336,6 +3310,16 @@ export class DatabaseService {
               // Don't fail the main operation due to audit errors
             }
           }
+
+          // A change already in effect is applied straight away; later ones
+          // wait for the scheduled check on their effective date
+          if (rateChange.new_rate != null && rateChange.effective_date <= new Date().toISOString().split('T')[0]) {
+            try {
+              await rateHistoryService.applyDueRateChanges();
+            } catch (applyError) {
+              console.error('Failed to apply rate change to rate history:', applyError);
+            }
+          }
           
           resolve(rateChangeId);
         }
@@ -2343,6 +3327,48 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Rate history for an account, oldest first
+   */
+  async getDepositRateHistory(depositId: number): Promise<DepositRateHistoryEntry[]> {
+    return this.getRateHistoryService().getRateHistory(depositId);
+  }
+
+  /**
+   * Rate history for every account, keyed by deposit id
+   */
+  async getAllDepositRateHistory(): Promise<Record<number, DepositRateHistoryEntry[]>> {
+    return this.getRateHistoryService().getAllRateHistory();
+  }
+
+  /**
+   * Record a rate for an account from a bank letter, document or manual entry
+   */
+  async recordDepositRate(entry: DepositRateHistoryEntry): Promise<number> {
+    return this.getRateHistoryService().recordRate(entry);
+  }
+
+  /**
+   * Remove a rate history entry recorded in error
+   */
+  async deleteDepositRate(id: number): Promise<boolean> {
+    return this.getRateHistoryService().deleteRate(id);
+  }
+
+  /**
+   * Apply rate changes that have reached their effective date
+   */
+  async applyDueRateChanges(): Promise<AppliedRateChangesResult> {
+    return this.getRateHistoryService().applyDueRateChanges();
+  }
+
+  private getRateHistoryService(): RateHistoryService {
+    if (!this.rateHistoryService) {
+      this.rateHistoryService = new RateHistoryService(this.db, this.auditService);
+    }
+    return this.rateHistoryService;
+  }
+
   /**
    * Create a new notice event
    */
@@ -2517,6 +3543,142 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Get temporary high balance (THB) events with their account details
+   */
+  async getTemporaryHighBalances(includeInactive: boolean = false): Promise<TemporaryHighBalance[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT
+          thb.*,
+          COALESCE(d.bank, pd.bank) as bank,
+          COALESCE(d.account_name, pd.account_name) as account_name,
+          COALESCE(d.balance, pd.balance) as balance,
+          CAST(julianday(thb.expiry_date) - julianday(date('now')) AS INTEGER) as days_remaining
+        FROM temporary_high_balances thb
+        LEFT JOIN my_deposits d ON thb.deposit_id = d.id
+        LEFT JOIN my_pending_deposits pd ON thb.pending_deposit_id = pd.id
+        ${includeInactive ? '' : "WHERE thb.is_active = 1 AND thb.expiry_date > date('now')"}
+        ORDER BY thb.expiry_date ASC
+      `;
+
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) {
+          console.error('Error fetching temporary high balances:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({ ...row, is_active: row.is_active === 1 })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Record a temporary high balance event against a deposit or pending deposit
+   * The protection window defaults to thb_protection_months from the start date
+   */
+  async createTemporaryHighBalance(thb: TemporaryHighBalance): Promise<number> {
+    if (!thb.deposit_id === !thb.pending_deposit_id) {
+      throw new Error('A temporary high balance must reference exactly one deposit or pending deposit');
+    }
+
+    const protectionMonths = await new Promise<number>((resolve) => {
+      this.db.get(
+        `SELECT config_value FROM unified_config WHERE config_key = 'thb_protection_months' AND is_active = 1`,
+        [],
+        (err, row: any) => resolve(err || !row ? 6 : parseInt(row.config_value, 10))
+      );
+    });
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO temporary_high_balances (
+          deposit_id, pending_deposit_id, reason, start_date,
+          expiry_date, protected_amount, notes
+        ) VALUES (?, ?, ?, ?, COALESCE(?, date(?, '+' || ? || ' months')), ?, ?)
+      `;
+
+      const params = [
+        thb.deposit_id || null,
+        thb.pending_deposit_id || null,
+        thb.reason,
+        thb.start_date,
+        thb.expiry_date || null,
+        thb.start_date,
+        protectionMonths,
+        thb.protected_amount,
+        thb.notes || null
+      ];
+
+      const auditService = this.auditService;
+      this.db.run(query, params, async function(err) {
+        if (err) {
+          console.error('Error creating temporary high balance:', err);
+          reject(err);
+        } else {
+          const thbId = this.lastID;
+
+          // Add audit logging
+          if (auditService) {
+            try {
+              await auditService.logDataChanges({
+                tableName: 'temporary_high_balances',
+                recordId: thbId,
+                oldData: {}, // Empty for new records
+                newData: thb,
+                operationContext: 'CREATE_TEMPORARY_HIGH_BALANCE',
+                notes: `Temporary high balance recorded (${thb.reason})`
+              });
+            } catch (auditError) {
+              console.error('Audit logging failed for temporary high balance creation:', auditError);
+              // Don't fail the main operation due to audit errors
+            }
+          }
+
+          resolve(thbId);
+        }
+      });
+    });
+  }
+
+  /**
+   * End a temporary high balance event early (e.g. funds moved before expiry)
+   */
+  async endTemporaryHighBalance(id: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE temporary_high_balances
+        SET is_active = 0, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND is_active = 1
+      `;
+
+      const auditService = this.auditService;
+      this.db.run(query, [id], async function(err) {
+        if (err) {
+          console.error('Error ending temporary high balance:', err);
+          reject(err);
+        } else {
+          if (this.changes > 0 && auditService) {
+            try {
+              await auditService.logDataChanges({
+                tableName: 'temporary_high_balances',
+                recordId: id,
+                oldData: { is_active: true },
+                newData: { is_active: false },
+                operationContext: 'END_TEMPORARY_HIGH_BALANCE',
+                notes: 'Temporary high balance protection ended'
+              });
+            } catch (auditError) {
+              console.error('Audit logging failed for temporary high balance update:', auditError);
+            }
+          }
+
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
   /**
    * Get notice account status
    */
@@ -2658,6 +3820,15 @@ export class DatabaseService {
       date: string;
       description?: string;
     }>;
+    thb_protections: Array<{
+      id: number;
+      bank: string;
+      reason: string;
+      protected_amount: number;
+      start_date: string;
+      expiry_date: string;
+      days_remaining: number;
+    }>;
     summary_counts: {
       overdue_actions: number;
       urgent_actions: number;
@@ -2746,6 +3917,25 @@ export class DatabaseService {
         LIMIT 8
       `;
 
+      // Get temporary high balance protection countdowns
+      const thbQuery = `
+        SELECT 
+          thb.id,
+          COALESCE(d.bank, pd.bank) as bank,
+          thb.reason,
+          thb.protected_amount,
+          thb.start_date,
+          thb.expiry_date,
+          CAST(julianday(thb.expiry_date) - julianday(date('now')) AS INTEGER) as days_remaining
+        FROM temporary_high_balances thb
+        LEFT JOIN my_deposits d ON thb.deposit_id = d.id
+        LEFT JOIN my_pending_deposits pd ON thb.pending_deposit_id = pd.id
+        WHERE thb.is_active = 1 
+          AND thb.start_date <= date('now')
+          AND thb.expiry_date > date('now')
+        ORDER BY thb.expiry_date ASC
+      `;
+
       // Get summary counts
       const countQuery = `
         SELECT 
@@ -2769,15 +3959,20 @@ export class DatabaseService {
         new Promise((resolve, reject) => {
           this.db.all(recentQuery, [], (err, rows) => err ? reject(err) : resolve(rows || []));
         }),
+        new Promise((resolve) => {
+          // THB tracking is optional until migration 007 has been applied
+          this.db.all(thbQuery, [], (err, rows) => resolve(err ? [] : rows || []));
+        }),
         new Promise((resolve, reject) => {
           this.db.get(countQuery, [], (err, row) => err ? reject(err) : resolve(row || {}));
         })
-      ]).then(([urgent, thisWeek, health, recent, counts]: any[]) => {
+      ]).then(([urgent, thisWeek, health, recent, thb, counts]: any[]) => {
         resolve({
           urgent_actions: urgent,
           this_week: thisWeek,
           portfolio_health: health,
           recent_activity: recent,
+          thb_protections: thb,
           summary_counts: counts
         });
       }).catch(reject);
@@ -3903,13 +5098,40 @@ export class DatabaseService {
           LIMIT ? OFFSET ?
         `;
         
-        this.db.all(dataQuery, [...params, limit, offset], (err, rows) => {
+        this.db.all(dataQuery, [...params, limit, offset], (err, rows: any[]) => {
           if (err) {
             console.error('Error fetching research queue:', err);
             reject(err);
-          } else {
-            resolve({ items: rows || [], total });
+            return;
           }
+
+          const items = rows || [];
+          if (items.length === 0) {
+            resolve({ items, total });
+            return;
+          }
+
+          // Closest institutions from fuzzy matching
+          const candidateQuery = `
+            SELECT id, candidate_matches FROM frn_research_queue
+            WHERE id IN (${items.map(() => '?').join(', ')})
+          `;
+          this.db.all(candidateQuery, items.map(item => item.rowid), (candidateErr, candidateRows: any[]) => {
+            // candidate_matches column might not exist yet - items are returned without candidates
+            const candidatesById = new Map<number, any[]>();
+            if (!candidateErr) {
+              for (const row of candidateRows || []) {
+                if (row.candidate_matches) {
+                  candidatesById.set(row.id, JSON.parse(row.candidate_matches));
+                }
+              }
+            }
+
+            resolve({
+              items: items.map(item => ({ ...item, candidates: candidatesById.get(item.rowid) || [] })),
+              total
+            });
+          });
         });
       });
     });
@@ -4122,6 +5344,139 @@ export class DatabaseService {
     });
   }
 
+  // ============================================
+  // FSCS Brand Groups
+  // ============================================
+
+  /**
+   * Licence of each FRN held, with the brands sharing it
+   * Resolves [] until boe_shared_brands has its licence columns (migration 015)
+   */
+  async getFSCSBrandGroups(): Promise<FSCSBrandGroup[]> {
+    const query = `
+      SELECT bi.frn, bi.firm_name, sb.trading_name, sb.licence_type, sb.licence_frn
+      FROM boe_institutions bi
+      LEFT JOIN boe_shared_brands sb
+        ON sb.primary_frn = bi.frn AND UPPER(sb.trading_name) != UPPER(bi.firm_name)
+      WHERE bi.frn IN (SELECT DISTINCT frn FROM my_deposits WHERE is_active = 1 AND frn IS NOT NULL)
+      ORDER BY bi.frn, sb.trading_name
+    `;
+
+    return new Promise((resolve, reject) => {
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) {
+          if (err.message.includes('no such column')) {
+            resolve([]);
+            return;
+          }
+          console.error('Error fetching FSCS brand groups:', err);
+          reject(err);
+          return;
+        }
+
+        const groups = new Map<string, FSCSBrandGroup>();
+        for (const row of rows || []) {
+          let group = groups.get(row.frn);
+          if (!group) {
+            group = { frn: row.frn, firmName: row.firm_name, sharedBrands: [], separateLicences: [] };
+            groups.set(row.frn, group);
+          }
+          if (!row.trading_name) continue;
+
+          if (row.licence_type === 'separate') {
+            group.separateLicences.push({ tradingName: row.trading_name, frn: row.licence_frn });
+          } else {
+            group.sharedBrands.push(row.trading_name);
+          }
+        }
+        resolve(Array.from(groups.values()));
+      });
+    });
+  }
+
+  // ============================================
+  // Market History
+  // ============================================
+
+  /**
+   * Products new to market, withdrawn and repriced over the last N days, with
+   * the best-buy trend per account type. Empty until migration 012 has run
+   */
+  async getMarketHistory(days: number = 30, accountType?: string): Promise<MarketHistorySummary> {
+    const since = `-${days} days`;
+    const typeFilter = accountType ? ' AND account_type = ?' : '';
+    const typeParams = accountType ? [accountType] : [];
+
+    const [newToMarket, withdrawn, rateChanges, bestBuyTrend] = await Promise.all([
+      this.allMarketHistory<MarketProduct>(`
+        SELECT * FROM product_history
+        WHERE first_seen >= date('now', ?) AND withdrawn_on IS NULL${typeFilter}
+        ORDER BY first_seen DESC, current_rate DESC
+      `, [since, ...typeParams]),
+      this.allMarketHistory<MarketProduct>(`
+        SELECT * FROM product_history
+        WHERE withdrawn_on >= date('now', ?)${typeFilter}
+        ORDER BY withdrawn_on DESC, current_rate DESC
+      `, [since, ...typeParams]),
+      this.allMarketHistory<MarketProduct>(`
+        SELECT h.*, c.previous_rate, c.change_date
+        FROM product_rate_changes c
+        JOIN product_history h ON h.id = c.product_history_id
+        WHERE c.previous_rate IS NOT NULL AND c.change_date >= date('now', ?)${typeFilter.replace('account_type', 'h.account_type')}
+        ORDER BY c.change_date DESC, h.bank_name
+      `, [since, ...typeParams]),
+      this.allMarketHistory<MarketRateSnapshot>(`
+        SELECT * FROM market_rate_snapshots
+        WHERE snapshot_date >= date('now', ?)${typeFilter}
+        ORDER BY snapshot_date, account_type
+      `, [since, ...typeParams])
+    ]);
+
+    return { newToMarket, withdrawn, rateChanges, bestBuyTrend };
+  }
+
+  /**
+   * Every rate a product has been listed at, oldest first
+   */
+  async getProductRateHistory(productHistoryId: number): Promise<ProductRateChange[]> {
+    return this.allMarketHistory<ProductRateChange>(`
+      SELECT * FROM product_rate_changes
+      WHERE product_history_id = ?
+      ORDER BY change_date, id
+    `, [productHistoryId]);
+  }
+
+  /**
+   * Search products in the market history by bank name or FRN
+   */
+  async searchMarketProducts(searchTerm: string, limit: number = 50): Promise<MarketProduct[]> {
+    const pattern = `%${searchTerm}%`;
+    return this.allMarketHistory<MarketProduct>(`
+      SELECT * FROM product_history
+      WHERE bank_name LIKE ? OR frn LIKE ?
+      ORDER BY withdrawn_on IS NOT NULL, current_rate DESC
+      LIMIT ?
+    `, [pattern, pattern, limit]);
+  }
+
+  private allMarketHistory<T>(query: string, params: any[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err, rows: T[]) => {
+        if (err) {
+          // Market history tables might not exist yet - the pipeline records them once migrated
+          if (err.message.includes('no such table')) {
+            resolve([]);
+            return;
+          }
+          console.error('Error fetching market history:', err);
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
   /**
    * Close database connection
    */
@@ -23,6 +23,7 @@ export interface LoggerOptions {
   componentName?: string;
   platformName?: string;
   verboseMode?: boolean;
+  useStderr?: boolean;  // Keep stdout for machine-readable output
 }
 
 export class EnhancedLogger {
@@ -33,6 +34,7 @@ export class EnhancedLogger {
   private componentName: string;
   private platformName: string | null;
   private verboseMode: boolean;
+  private useStderr: boolean;
 
   constructor(options: LoggerOptions = {}) {
     this.logLevel = options.logLevel || 'info';
@@ -41,6 +43,7 @@ export class EnhancedLogger {
     this.componentName = options.componentName || 'component';
     this.platformName = options.platformName || null;
     this.verboseMode = options.verboseMode || false;
+    this.useStderr = options.useStderr || false;
 
     if (this.enableFileLogging) {
       this.initializeLogFile();
@@ -108,7 +111,11 @@ export class EnhancedLogger {
 
     // Console output based on log level
     if (this.shouldLog(level)) {
-      console.log(logMessage);
+      if (this.useStderr) {
+        console.error(logMessage);
+      } else {
+        console.log(logMessage);
+      }
     }
 
     // File output (always logged if enabled)
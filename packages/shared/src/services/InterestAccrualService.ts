@@ -0,0 +1,342 @@
+import { Database } from 'sqlite3';
+import {
+  InterestAccrual,
+  InterestAccrualDay,
+  InterestCompounding,
+  InterestConfiguration,
+  InterestDayCount,
+  InterestPaymentType,
+  InterestRatePeriod
+} from '../types/TransactionTypes';
+import { Deposit } from '../types/PortfolioTypes';
+
+type AccrualAccount = Deposit & InterestConfiguration;
+
+/**
+ * Day-count interest accrual
+ * Rebuilds the daily balance from the transaction ledger, applies the dated
+ * rate schedule (deposit_rate_history) and compounds at the product's frequency to
+ * give the interest expected for any period
+ */
+export class InterestAccrualService {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  /**
+   * Interest expected for the payment due on paymentDate, accrued since the
+   * previous payment
+   */
+  async calculatePaymentInterest(account: AccrualAccount, paymentDate: string): Promise<InterestAccrual> {
+    const periodStart = await this.getPeriodStart(account, paymentDate);
+    return this.calculateAccrual(account, periodStart, paymentDate);
+  }
+
+  /**
+   * Accrue interest day by day from periodStart up to (not including) periodEnd
+   */
+  async calculateAccrual(
+    account: AccrualAccount,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<InterestAccrual> {
+    const compounding: InterestCompounding = account.interest_compounding || 'At_Payment';
+    const dayCount: InterestDayCount = account.interest_day_count || 'ACT/365';
+    const compoundsPerYear = this.getCompoundsPerYear(compounding, account.interest_payment_type);
+
+    const ratePeriods = await this.getRateSchedule(account, periodStart, periodEnd);
+    const balances = await this.getDailyBalances(account, periodStart, periodEnd);
+
+    const daily: InterestAccrualDay[] = [];
+    let capitalised = 0;
+    let pending = 0;
+    let balanceTotal = 0;
+    let nextCompounding = this.nextCompoundingDate(periodStart, periodStart, compounding);
+
+    balances.forEach(({ date, balance }) => {
+      if (nextCompounding && date >= nextCompounding) {
+        capitalised += pending;
+        pending = 0;
+        nextCompounding = this.nextCompoundingDate(periodStart, date, compounding);
+      }
+
+      const aer = ratePeriods.find(period => date >= period.start_date && date < period.end_date)?.aer || 0;
+      const nominalRate = compoundsPerYear * (Math.pow(1 + aer / 100, 1 / compoundsPerYear) - 1);
+      const accrualBalance = Math.max(0, balance + capitalised);
+      const interest = (accrualBalance * nominalRate) / this.getDaysInYear(date, dayCount);
+
+      pending += interest;
+      balanceTotal += balance;
+      daily.push({ date, balance: accrualBalance, aer, interest });
+    });
+
+    return {
+      account_id: account.id!,
+      period_start: periodStart,
+      period_end: periodEnd,
+      days: daily.length,
+      compounding,
+      day_count: dayCount,
+      average_balance: daily.length > 0 ? Math.round((balanceTotal / daily.length) * 100) / 100 : 0,
+      expected_interest: Math.round((capitalised + pending) * 100) / 100,
+      rate_periods: ratePeriods,
+      daily
+    };
+  }
+
+  /**
+   * AER in force over a period, split where a new rate takes effect
+   * Rates come from the account's rate history plus scheduled rate changes not
+   * yet applied; before the first entry the earliest known rate applies,
+   * falling back to the account's current AER
+   */
+  async getRateSchedule(
+    account: AccrualAccount,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<InterestRatePeriod[]> {
+    const changes = await this.getRateChanges(account.id!);
+
+    let rate = changes.length > 0 ? changes[0].aer : (account.aer || 0);
+    for (const change of changes) {
+      if (change.effective_date <= periodStart) {
+        rate = change.aer;
+      }
+    }
+
+    const periods: InterestRatePeriod[] = [];
+    let start = periodStart;
+    for (const change of changes) {
+      if (change.effective_date <= periodStart || change.effective_date >= periodEnd) continue;
+      periods.push({ start_date: start, end_date: change.effective_date, aer: rate });
+      start = change.effective_date;
+      rate = change.aer;
+    }
+    periods.push({ start_date: start, end_date: periodEnd, aer: rate });
+
+    return periods.filter(period => period.start_date < period.end_date);
+  }
+
+  /**
+   * End-of-day balance for each day of a period, worked back from the account's
+   * current balance through the ledger so incomplete early history does not
+   * skew it; days after the last transaction keep the current balance
+   */
+  async getDailyBalances(
+    account: AccrualAccount,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<{ date: string; balance: number }[]> {
+    const movements = await this.getLedgerMovements(account.id!, periodStart);
+
+    // Balance at the end of periodStart: current balance less everything after it
+    let balance = (account.balance || 0) - movements.reduce((sum, movement) => sum + movement.net, 0);
+    let index = 0;
+
+    const balances: { date: string; balance: number }[] = [];
+    for (let date = periodStart; date < periodEnd; date = this.addDays(date, 1)) {
+      if (date > periodStart) {
+        while (index < movements.length && movements[index].date <= date) {
+          balance += movements[index].net;
+          index++;
+        }
+      }
+      balances.push({ date, balance: Math.round(balance * 100) / 100 });
+    }
+
+    return balances;
+  }
+
+  /**
+   * Start of the period a payment covers: the previous interest payment in the
+   * ledger, or one payment interval earlier, and never before the deposit date
+   */
+  async getPeriodStart(account: AccrualAccount, paymentDate: string): Promise<string> {
+    const previousPayment = await this.getPreviousInterestDate(account.id!, paymentDate);
+
+    let start = previousPayment;
+    if (!start) {
+      const months = this.getPaymentIntervalMonths(account);
+      start = months !== null
+        ? this.addMonths(paymentDate, -months)
+        : (account.deposit_date || this.addMonths(paymentDate, -(account.term_months || 12)));
+    }
+
+    if (account.deposit_date && start < account.deposit_date) {
+      start = account.deposit_date;
+    }
+    return start < paymentDate ? start : this.addDays(paymentDate, -1);
+  }
+
+  /**
+   * Compounding periods per year; At_Payment compounds once per payment
+   */
+  private getCompoundsPerYear(compounding: InterestCompounding, paymentType?: InterestPaymentType): number {
+    switch (compounding) {
+      case 'Daily':
+        return 365;
+      case 'Monthly':
+        return 12;
+      case 'Quarterly':
+        return 4;
+      case 'Annually':
+        return 1;
+      default:
+        switch (paymentType) {
+          case 'Monthly':
+            return 12;
+          case 'Quarterly':
+            return 4;
+          default:
+            return 1;
+        }
+    }
+  }
+
+  /**
+   * First compounding date after `after` in a period starting periodStart;
+   * null when interest only compounds when paid
+   */
+  private nextCompoundingDate(
+    periodStart: string,
+    after: string,
+    compounding: InterestCompounding
+  ): string | null {
+    if (compounding === 'Daily') {
+      return this.addDays(after, 1);
+    }
+
+    const months = compounding === 'Monthly' ? 1 : compounding === 'Quarterly' ? 3 : compounding === 'Annually' ? 12 : 0;
+    if (months === 0) {
+      return null;
+    }
+
+    let step = 1;
+    let next = this.addMonths(periodStart, months);
+    while (next <= after) {
+      step++;
+      next = this.addMonths(periodStart, months * step);
+    }
+    return next;
+  }
+
+  private getDaysInYear(date: string, dayCount: InterestDayCount): number {
+    switch (dayCount) {
+      case 'ACT/360':
+        return 360;
+      case 'ACT/ACT': {
+        const year = parseInt(date.slice(0, 4), 10);
+        return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+      }
+      default:
+        return 365;
+    }
+  }
+
+  private getPaymentIntervalMonths(account: AccrualAccount): number | null {
+    switch (account.interest_payment_type) {
+      case 'Monthly':
+        return 1;
+      case 'Quarterly':
+        return 3;
+      case 'Annually':
+      case 'Fixed_Date':
+        return 12;
+      case 'At_Maturity':
+        return null;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Dated rates for an account: its rate history, then scheduled changes the
+   * history has not picked up yet
+   */
+  private async getRateChanges(accountId: number): Promise<{ effective_date: string; aer: number }[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT effective_date, aer FROM (
+           SELECT effective_from as effective_date, aer, 0 as pending, id
+           FROM deposit_rate_history
+           WHERE deposit_id = ?
+           UNION ALL
+           SELECT effective_date, new_rate as aer, 1 as pending, id
+           FROM rate_changes
+           WHERE deposit_id = ? AND new_rate IS NOT NULL AND COALESCE(status, 'pending') != 'applied'
+         )
+         ORDER BY effective_date, pending, id`,
+        [accountId, accountId],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows || []);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Net ledger movement per day after a date, oldest first
+   */
+  private async getLedgerMovements(accountId: number, after: string): Promise<{ date: string; net: number }[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT COALESCE(bank_date, transaction_date) as date,
+                SUM(COALESCE(credit, 0) - COALESCE(debit, 0)) as net
+         FROM account_transactions
+         WHERE account_id = ? AND COALESCE(bank_date, transaction_date) > ?
+         GROUP BY COALESCE(bank_date, transaction_date)
+         ORDER BY date`,
+        [accountId, after],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows || []);
+          }
+        }
+      );
+    });
+  }
+
+  private async getPreviousInterestDate(accountId: number, before: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT MAX(COALESCE(bank_date, transaction_date)) as date
+         FROM account_transactions
+         WHERE account_id = ? AND transaction_type = 'interest'
+           AND COALESCE(bank_date, transaction_date) < ?`,
+        [accountId, before],
+        (err, row: any) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(row?.date || null);
+          }
+        }
+      );
+    });
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
+  /**
+   * Add months, keeping to the last day of shorter months
+   */
+  private addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().split('T')[0];
+  }
+}
@@ -2,7 +2,8 @@ import { Database } from 'sqlite3';
 import {
   InterestEventConfig,
   InterestPaymentEvent,
-  InterestPaymentType
+  InterestPaymentType,
+  MissedInterestPayment
 } from '../types/TransactionTypes';
 import { Deposit } from '../types/PortfolioTypes';
 import { InterestPaymentService } from './InterestPaymentService';
@@ -52,6 +53,7 @@ export class InterestEventService {
           else if (key === 'maturity') config.include_maturity = value;
           else if (key === 'days_before') config.days_before = value;
           else if (key === 'missed_payment_alert_days') config.missed_payment_alert_days = value;
+          else if (key === 'thb_expiry_days_before') config.thb_expiry_days_before = value;
         });
 
         resolve({
@@ -62,7 +64,8 @@ export class InterestEventService {
           include_fixed_date: config.include_fixed_date ?? true,
           include_maturity: config.include_maturity ?? true,
           days_before: config.days_before ?? 2,
-          missed_payment_alert_days: config.missed_payment_alert_days ?? 3
+          missed_payment_alert_days: config.missed_payment_alert_days ?? 3,
+          thb_expiry_days_before: config.thb_expiry_days_before ?? 30
         });
       });
     });
@@ -73,7 +76,7 @@ export class InterestEventService {
    */
   async updateConfig(key: string, value: string): Promise<{ success: boolean; error?: string }> {
     return new Promise((resolve, reject) => {
-      const fullKey = key.startsWith('interest_') ? key : `interest_events_${key}`;
+      const fullKey = key.startsWith('interest_') || key.startsWith('thb_') ? key : `interest_events_${key}`;
       
       const query = `
         UPDATE unified_config
@@ -138,7 +141,10 @@ export class InterestEventService {
     const reminderDate = new Date(nextPaymentDate);
     reminderDate.setDate(reminderDate.getDate() - config.days_before);
     
-    const estimatedAmount = this.interestPaymentService.calculateEstimatedInterest(account);
+    const estimatedAmount = await this.interestPaymentService.calculateExpectedInterest(
+      account,
+      nextPaymentDate.toISOString().split('T')[0]
+    );
     
     // Create reminder in the reminders table
     return new Promise((resolve, reject) => {
@@ -252,49 +258,20 @@ export class InterestEventService {
   }
 
   /**
-   * Check for missed interest payments
+   * Check for missed or short interest payments
    */
-  async checkMissedPayments(): Promise<any[]> {
+  async checkMissedPayments(): Promise<(Deposit & MissedInterestPayment)[]> {
     const config = await this.getConfig();
-    
-    return new Promise((resolve, reject) => {
-      const query = `
-        SELECT 
-          md.id,
-          md.bank,
-          md.account_name,
-          md.interest_payment_type,
-          md.interest_next_payment_date,
-          md.balance,
-          md.aer,
-          JULIANDAY('now') - JULIANDAY(md.interest_next_payment_date) as days_overdue
-        FROM my_deposits md
-        WHERE md.is_active = 1
-          AND md.interest_payment_type IS NOT NULL
-          AND md.interest_next_payment_date IS NOT NULL
-          AND JULIANDAY('now') - JULIANDAY(md.interest_next_payment_date) > ?
-          AND NOT EXISTS (
-            SELECT 1 FROM account_transactions at
-            WHERE at.account_id = md.id
-              AND at.transaction_type = 'interest'
-              AND at.bank_date >= md.interest_next_payment_date
-          )
-      `;
-
-      this.db.all(query, [config.missed_payment_alert_days], (err, rows: any[]) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows || []);
-        }
-      });
-    });
+    return this.interestPaymentService.detectMissedPayments(config.missed_payment_alert_days);
   }
 
   /**
    * Create alert for missed payment
    */
   async createMissedPaymentAlert(account: any): Promise<{ success: boolean; error?: string }> {
+    const expectedAmount: number = account.expected_amount ??
+      await this.interestPaymentService.calculateExpectedInterest(account, account.interest_next_payment_date);
+
     return new Promise((resolve, reject) => {
       const query = `
         INSERT INTO reminders (
@@ -308,12 +285,18 @@ export class InterestEventService {
         ) VALUES (?, ?, DATE('now'), ?, ?, 'urgent', CURRENT_TIMESTAMP)
       `;
 
-      const title = `Possible missed interest payment - ${account.bank}`;
+      const isShort = account.status === 'short';
+      const title = isShort
+        ? `Interest payment lower than expected - ${account.bank}`
+        : `Possible missed interest payment - ${account.bank}`;
       const description = [
         `Interest was due ${Math.floor(account.days_overdue)} days ago`,
         `Account: ${account.account_name || 'Savings'}`,
-        `Expected amount: £${this.interestPaymentService.calculateEstimatedInterest(account).toFixed(2)}`,
-        'Action required: Check account and record transaction if received'
+        `Expected amount: £${expectedAmount.toFixed(2)}`,
+        ...(isShort ? [`Received: £${account.received_amount.toFixed(2)}`] : []),
+        isShort
+          ? 'Action required: Check the rate and balance with the bank'
+          : 'Action required: Check account and record transaction if received'
       ].join('\n');
 
       this.db.run(
@@ -352,7 +335,10 @@ export class InterestEventService {
             account_name: account.account_name,
             payment_type: account.interest_payment_type,
             expected_date: nextPaymentDate.toISOString().split('T')[0],
-            estimated_amount: this.interestPaymentService.calculateEstimatedInterest(account),
+            estimated_amount: await this.interestPaymentService.calculateExpectedInterest(
+              account,
+              nextPaymentDate.toISOString().split('T')[0]
+            ),
             reminder_date: reminderDate.toISOString().split('T')[0],
             auto_generated: true,
             recurring: account.interest_payment_type !== 'At_Maturity'
@@ -389,9 +375,128 @@ export class InterestEventService {
       }
     }
     
+    const thbReminders = await this.processTHBExpiryReminders();
+    created += thbReminders.created;
+    errors.push(...thbReminders.errors);
+    
     return { created, errors };
   }
 
+  /**
+   * Create reminders before temporary high balance (THB) protection lapses
+   */
+  async processTHBExpiryReminders(): Promise<{ created: number; errors: string[] }> {
+    const config = await this.getConfig();
+    const events = await this.getTHBEventsWithoutReminder();
+    let created = 0;
+    const errors: string[] = [];
+    
+    for (const event of events) {
+      const result = await this.createTHBExpiryReminder(event, config.thb_expiry_days_before);
+      if (result.success) {
+        created++;
+      } else if (result.error) {
+        errors.push(`Temporary high balance ${event.id}: ${result.error}`);
+      }
+    }
+    
+    return { created, errors };
+  }
+
+  /**
+   * Get active THB events that have not had an expiry reminder raised
+   */
+  private async getTHBEventsWithoutReminder(): Promise<any[]> {
+    return new Promise((resolve) => {
+      const query = `
+        SELECT 
+          thb.*,
+          COALESCE(d.bank, pd.bank) as bank,
+          COALESCE(d.account_name, pd.account_name) as account_name
+        FROM temporary_high_balances thb
+        LEFT JOIN my_deposits d ON thb.deposit_id = d.id
+        LEFT JOIN my_pending_deposits pd ON thb.pending_deposit_id = pd.id
+        WHERE thb.is_active = 1
+          AND thb.expiry_date > DATE('now')
+          AND thb.expiry_reminder_id IS NULL
+      `;
+
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) {
+          // Table is absent until migration 007 has been applied
+          resolve([]);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create the expiry reminder for a THB event and link it back to the event
+   */
+  private async createTHBExpiryReminder(
+    event: any,
+    daysBefore: number
+  ): Promise<{ success: boolean; error?: string }> {
+    const expiryDate = new Date(event.expiry_date);
+    const reminderDate = new Date(expiryDate);
+    reminderDate.setDate(reminderDate.getDate() - daysBefore);
+    
+    // Events recorded late still get a reminder, raised today
+    const today = new Date();
+    const effectiveReminderDate = reminderDate < today ? today : reminderDate;
+    
+    const title = `Temporary high balance protection ending - ${event.bank || 'Unknown bank'}`;
+    const description = [
+      `Reason: ${event.reason.replace(/_/g, ' ')}`,
+      `Account: ${event.account_name || 'Savings'}`,
+      `Protected amount: £${(event.protected_amount || 0).toLocaleString()}`,
+      `Protection ends: ${expiryDate.toLocaleDateString('en-GB')}`,
+      'Action required: Move funds above the FSCS limit before protection lapses'
+    ].join('\n');
+    
+    return new Promise((resolve) => {
+      const query = `
+        INSERT INTO reminders (
+          deposit_id,
+          reminder_type,
+          lead_days,
+          reminder_date,
+          title,
+          description,
+          priority,
+          created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 'high', CURRENT_TIMESTAMP)
+      `;
+
+      const db = this.db;
+      db.run(
+        query,
+        [
+          event.deposit_id || null,
+          'THB_EXPIRY',
+          daysBefore,
+          effectiveReminderDate.toISOString().split('T')[0],
+          title,
+          description
+        ],
+        function(err) {
+          if (err) {
+            resolve({ success: false, error: err.message });
+            return;
+          }
+          
+          db.run(
+            'UPDATE temporary_high_balances SET expiry_reminder_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [this.lastID, event.id],
+            (updateErr) => resolve(updateErr ? { success: false, error: updateErr.message } : { success: true })
+          );
+        }
+      );
+    });
+  }
+
   /**
    * Check if reminder already exists
    */
@@ -494,7 +599,10 @@ export class InterestEventService {
       if (existingEvent) {
         // Update existing event
         await this.updateCalendarEvent(existingEvent.id, {
-          estimated_amount: this.interestPaymentService.calculateEstimatedInterest(account),
+          estimated_amount: await this.interestPaymentService.calculateExpectedInterest(
+            account,
+            paymentDate.toISOString().split('T')[0]
+          ),
           reminder_date: reminderDate.toISOString().split('T')[0]
         });
         updated++;
@@ -506,7 +614,10 @@ export class InterestEventService {
           account_name: account.account_name || account.type,
           payment_type: account.interest_payment_type,
           expected_date: paymentDate.toISOString().split('T')[0],
-          estimated_amount: this.interestPaymentService.calculateEstimatedInterest(account),
+          estimated_amount: await this.interestPaymentService.calculateExpectedInterest(
+            account,
+            paymentDate.toISOString().split('T')[0]
+          ),
           reminder_date: reminderDate.toISOString().split('T')[0],
           current_aer: account.aer
         });
@@ -1,22 +1,30 @@
 import { Database } from 'sqlite3';
 import {
+  InterestAccrual,
   InterestConfiguration,
   InterestPaymentType,
   InterestPaymentDestination,
   InterestPaymentAnalysis,
   InterestVarianceAnalysis,
+  MissedInterestPayment,
   Transaction
 } from '../types/TransactionTypes';
 import { Deposit } from '../types/PortfolioTypes';
 import { TransactionService } from './TransactionService';
+import { InterestAccrualService } from './InterestAccrualService';
+
+// An account past its interest date, with the interest received for that payment
+type OverdueAccount = Deposit & InterestConfiguration & Pick<MissedInterestPayment, 'days_overdue' | 'received_amount'>;
 
 export class InterestPaymentService {
   private db: Database;
   private transactionService: TransactionService;
+  private accrualService: InterestAccrualService;
 
   constructor(database: Database) {
     this.db = database;
     this.transactionService = new TransactionService(database);
+    this.accrualService = new InterestAccrualService(database);
   }
 
   /**
@@ -57,6 +65,41 @@ export class InterestPaymentService {
     }
   }
 
+  /**
+   * Interest expected for a payment, accrued day by day from the ledger and
+   * dated rates since the previous payment
+   * Defaults to the upcoming payment; accounts not yet saved fall back to
+   * calculateEstimatedInterest
+   */
+  async calculateExpectedInterest(
+    account: Deposit & InterestConfiguration,
+    paymentDate?: string
+  ): Promise<number> {
+    const nextPayment = account.interest_next_payment_date || this.calculateNextPaymentDate(account)?.toISOString().split('T')[0];
+    const date = paymentDate || nextPayment;
+    if (!account.id || !date) {
+      return this.calculateEstimatedInterest(account);
+    }
+
+    const accrual = await this.accrualService.calculatePaymentInterest(account, date);
+    return accrual.expected_interest;
+  }
+
+  /**
+   * Full accrual for a period, for display and checking
+   */
+  async getInterestAccrual(
+    accountId: number,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<InterestAccrual> {
+    const account = await this.getAccountById(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+    return this.accrualService.calculateAccrual(account, periodStart, periodEnd);
+  }
+
   /**
    * Detect if a transaction is likely an interest payment
    */
@@ -349,6 +392,8 @@ export class InterestPaymentService {
     const destination = account.interest_payment_destination || 'Same_Account';
     
     try {
+      const estimatedAmount = await this.calculateExpectedInterest(account, new Date().toISOString().split('T')[0]);
+
       if (destination === 'Same_Account') {
         // Single credit transaction
         const result = await this.transactionService.createTransaction({
@@ -358,7 +403,7 @@ export class InterestPaymentService {
           transaction_type: 'interest',
           credit: interestAmount,
           balance_after: (account.balance || 0) + interestAmount,
-          estimated_amount: this.calculateEstimatedInterest(account),
+          estimated_amount: estimatedAmount,
           optional_notes: `Interest payment credited to account`,
           source: 'system'
         });
@@ -390,7 +435,7 @@ export class InterestPaymentService {
           transaction_type: 'interest',
           debit: interestAmount,
           balance_after: account.balance, // Balance unchanged as interest paid elsewhere
-          estimated_amount: this.calculateEstimatedInterest(account),
+          estimated_amount: estimatedAmount,
           optional_notes: `Interest £${interestAmount.toFixed(2)} paid to ${destAccount.bank} ${destAccount.account_name || destAccount.type}`,
           source: 'system'
         });
@@ -465,12 +510,42 @@ export class InterestPaymentService {
         if (err) {
           reject(err);
         } else {
-          resolve(rows || []);
+          this.withAccruedEstimates(accountId, rows || []).then(resolve).catch(reject);
         }
       });
     });
   }
 
+  /**
+   * Replace the estimate stored with each payment by the accrual for the period
+   * it covers, with the AER in force when it was paid
+   */
+  private async withAccruedEstimates(
+    accountId: number,
+    payments: InterestPaymentAnalysis[]
+  ): Promise<InterestPaymentAnalysis[]> {
+    const account = await this.getAccountById(accountId);
+    if (!account || payments.length === 0) {
+      return payments;
+    }
+
+    const analysed: InterestPaymentAnalysis[] = [];
+    for (const payment of payments) {
+      const accrual = await this.accrualService.calculatePaymentInterest(account, payment.payment_date);
+      const estimated = accrual.expected_interest;
+      const variance = Math.round((payment.actual_amount - estimated) * 100) / 100;
+
+      analysed.push({
+        ...payment,
+        estimated_amount: estimated,
+        variance,
+        variance_percentage: estimated > 0 ? Math.round((variance / estimated) * 10000) / 100 : undefined,
+        current_rate: accrual.rate_periods[accrual.rate_periods.length - 1]?.aer ?? payment.current_rate
+      });
+    }
+    return analysed;
+  }
+
   /**
    * Analyze variance patterns to detect rate changes
    */
@@ -617,6 +692,14 @@ export class InterestPaymentService {
         updateFields.push('designated_account_id = ?');
         params.push(config.designated_account_id);
       }
+      if (config.interest_compounding !== undefined) {
+        updateFields.push('interest_compounding = ?');
+        params.push(config.interest_compounding);
+      }
+      if (config.interest_day_count !== undefined) {
+        updateFields.push('interest_day_count = ?');
+        params.push(config.interest_day_count);
+      }
 
       if (updateFields.length === 0) {
         resolve({ success: false, error: 'No fields to update' });
@@ -816,9 +899,13 @@ export class InterestPaymentService {
 
   /**
    * Detect missed interest payments
+   * An overdue payment counts as received when interest was recorded from a
+   * week before its due date up to a week before the payment after it; it is
+   * flagged as missed when none was, or as short when what arrived is
+   * significantly below the accrual for the period
    */
-  async detectMissedPayments(daysOverdue: number = 3): Promise<any[]> {
-    return new Promise((resolve, reject) => {
+  async detectMissedPayments(daysOverdue: number = 3): Promise<(Deposit & InterestConfiguration & MissedInterestPayment)[]> {
+    const overdue: OverdueAccount[] = await new Promise((resolve, reject) => {
       const query = `
         SELECT 
           d.*,
@@ -826,7 +913,21 @@ export class InterestPaymentService {
             WHEN d.interest_next_payment_date IS NOT NULL 
             THEN CAST((julianday('now') - julianday(d.interest_next_payment_date)) AS INTEGER)
             ELSE 0
-          END as days_overdue
+          END as days_overdue,
+          (
+            SELECT COALESCE(SUM(COALESCE(at.credit, 0) + COALESCE(at.debit, 0)), 0)
+            FROM account_transactions at
+            WHERE at.account_id = d.id
+              AND at.transaction_type = 'interest'
+              AND COALESCE(at.bank_date, at.transaction_date) >= date(d.interest_next_payment_date, '-7 days')
+              AND COALESCE(at.bank_date, at.transaction_date) < CASE d.interest_payment_type
+                WHEN 'At_Maturity' THEN '9999-12-31'
+                WHEN 'Quarterly' THEN date(d.interest_next_payment_date, '+3 months', '-7 days')
+                WHEN 'Annually' THEN date(d.interest_next_payment_date, '+1 year', '-7 days')
+                WHEN 'Fixed_Date' THEN date(d.interest_next_payment_date, '+1 year', '-7 days')
+                ELSE date(d.interest_next_payment_date, '+1 month', '-7 days')
+              END
+          ) as received_amount
         FROM my_deposits d
         WHERE d.is_active = 1
           AND d.interest_payment_type IS NOT NULL
@@ -835,7 +936,7 @@ export class InterestPaymentService {
         ORDER BY days_overdue DESC
       `;
 
-      this.db.all(query, [daysOverdue], (err, rows) => {
+      this.db.all(query, [daysOverdue], (err, rows: OverdueAccount[]) => {
         if (err) {
           reject(err);
         } else {
@@ -843,6 +944,19 @@ export class InterestPaymentService {
         }
       });
     });
+
+    const missed: (Deposit & InterestConfiguration & MissedInterestPayment)[] = [];
+    for (const account of overdue) {
+      const expected = await this.calculateExpectedInterest(account, account.interest_next_payment_date);
+      const received = Math.round(account.received_amount * 100) / 100;
+
+      if (received === 0) {
+        missed.push({ ...account, status: 'missed', expected_amount: expected, received_amount: 0 });
+      } else if (received < expected && this.isSignificantVariance(expected, received)) {
+        missed.push({ ...account, status: 'short', expected_amount: expected, received_amount: received });
+      }
+    }
+    return missed;
   }
 
   /**
@@ -0,0 +1,331 @@
+import { Database } from 'sqlite3';
+import {
+  AppliedRateChangesResult,
+  DepositRateHistoryEntry,
+  DepositRateSource,
+  HistoricalIncomePoint
+} from '../types/PortfolioTypes';
+import { AuditService } from './AuditService';
+
+const RATE_SOURCES: DepositRateSource[] = ['bank_letter', 'document', 'manual', 'rate_change'];
+
+/**
+ * Per-account rate history
+ * Every rate an account has paid is kept with its effective-from date and
+ * source; my_deposits.aer follows the latest entry in force, and scheduled
+ * rate changes join the history once their effective date arrives
+ */
+export class RateHistoryService {
+  private db: Database;
+  private auditService: AuditService | null;
+
+  constructor(database: Database, auditService: AuditService | null = null) {
+    this.db = database;
+    this.auditService = auditService;
+  }
+
+  /**
+   * Rate history for an account, oldest first
+   */
+  async getRateHistory(depositId: number): Promise<DepositRateHistoryEntry[]> {
+    return this.all<DepositRateHistoryEntry>(
+      `SELECT h.*, ad.document_title
+       FROM deposit_rate_history h
+       LEFT JOIN account_documents ad ON ad.id = h.document_id
+       WHERE h.deposit_id = ?
+       ORDER BY h.effective_from, h.id`,
+      [depositId]
+    );
+  }
+
+  /**
+   * Rate history for every account, keyed by deposit id
+   */
+  async getAllRateHistory(): Promise<Record<number, DepositRateHistoryEntry[]>> {
+    const rows = await this.all<DepositRateHistoryEntry>(
+      `SELECT h.*, ad.document_title
+       FROM deposit_rate_history h
+       LEFT JOIN account_documents ad ON ad.id = h.document_id
+       ORDER BY h.deposit_id, h.effective_from, h.id`
+    );
+
+    const history: Record<number, DepositRateHistoryEntry[]> = {};
+    rows.forEach(row => {
+      (history[row.deposit_id] = history[row.deposit_id] || []).push(row);
+    });
+    return history;
+  }
+
+  /**
+   * Record a rate from its effective date; the account's AER follows it once
+   * it is the latest rate in force
+   */
+  async recordRate(entry: DepositRateHistoryEntry): Promise<number> {
+    if (typeof entry.aer !== 'number' || !isFinite(entry.aer)) {
+      throw new Error('Rate must be a number');
+    }
+    if (!entry.effective_from || isNaN(new Date(entry.effective_from).getTime())) {
+      throw new Error('Effective date is required');
+    }
+    const source = entry.source || 'manual';
+    if (!RATE_SOURCES.includes(source)) {
+      throw new Error(`Unknown rate source: ${source}`);
+    }
+
+    const id = await this.run(
+      `INSERT INTO deposit_rate_history (deposit_id, aer, effective_from, source, document_id, rate_change_id, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.deposit_id,
+        entry.aer,
+        entry.effective_from,
+        source,
+        entry.document_id || null,
+        entry.rate_change_id || null,
+        entry.notes || null
+      ]
+    );
+
+    await this.syncCurrentRate(entry.deposit_id, 'RECORD_DEPOSIT_RATE');
+    return id;
+  }
+
+  /**
+   * Remove a rate recorded in error; the account's AER falls back to the
+   * previous rate in force
+   */
+  async deleteRate(id: number): Promise<boolean> {
+    const rows = await this.all<{ deposit_id: number }>(
+      'SELECT deposit_id FROM deposit_rate_history WHERE id = ?',
+      [id]
+    );
+    if (rows.length === 0) {
+      return false;
+    }
+
+    await this.run('DELETE FROM deposit_rate_history WHERE id = ?', [id]);
+    await this.syncCurrentRate(rows[0].deposit_id, 'DELETE_DEPOSIT_RATE');
+    return true;
+  }
+
+  /**
+   * Apply rate changes whose effective date has arrived and move each
+   * account's AER to the rate now in force
+   */
+  async applyDueRateChanges(asOf: string = this.today()): Promise<AppliedRateChangesResult> {
+    const result: AppliedRateChangesResult = { applied: 0, rate_change_ids: [], updated_deposit_ids: [], errors: [] };
+
+    const due = await this.all<{
+      id: number;
+      deposit_id: number;
+      new_rate: number;
+      effective_date: string;
+      notification_source: string | null;
+      notes: string | null;
+    }>(
+      `SELECT rc.id, rc.deposit_id, rc.new_rate, rc.effective_date, rc.notification_source, rc.notes
+       FROM rate_changes rc
+       JOIN my_deposits md ON md.id = rc.deposit_id
+       WHERE rc.new_rate IS NOT NULL
+         AND rc.effective_date <= ?
+         AND COALESCE(rc.status, 'pending') != 'applied'
+       ORDER BY rc.effective_date, rc.id`,
+      [asOf]
+    );
+
+    for (const change of due) {
+      try {
+        await this.run(
+          `INSERT OR IGNORE INTO deposit_rate_history (deposit_id, aer, effective_from, source, rate_change_id, notes)
+           VALUES (?, ?, ?, 'rate_change', ?, ?)`,
+          [change.deposit_id, change.new_rate, change.effective_date, change.id, change.notification_source || change.notes]
+        );
+        await this.run(`UPDATE rate_changes SET status = 'applied' WHERE id = ?`, [change.id]);
+
+        if (this.auditService) {
+          try {
+            await this.auditService.logDataChanges({
+              tableName: 'rate_changes',
+              recordId: change.id,
+              oldData: { status: 'pending' },
+              newData: { status: 'applied' },
+              operationContext: 'APPLY_RATE_CHANGE',
+              notes: `Rate change effective ${change.effective_date} applied to rate history`
+            });
+          } catch (auditError) {
+            console.error('Audit logging failed for rate change application:', auditError);
+          }
+        }
+
+        result.applied++;
+        result.rate_change_ids.push(change.id);
+      } catch (error: any) {
+        result.errors.push(`Rate change ${change.id}: ${error.message || error}`);
+      }
+    }
+
+    // Also picks up entries recorded ahead of their effective date
+    const stale = await this.all<{ id: number }>(
+      `SELECT md.id
+       FROM my_deposits md
+       JOIN (
+         SELECT h.deposit_id, h.aer
+         FROM deposit_rate_history h
+         WHERE h.id = (
+           SELECT h2.id FROM deposit_rate_history h2
+           WHERE h2.deposit_id = h.deposit_id AND h2.effective_from <= ?
+           ORDER BY h2.effective_from DESC, h2.id DESC LIMIT 1
+         )
+       ) current ON current.deposit_id = md.id
+       WHERE md.aer IS NULL OR ABS(md.aer - current.aer) > 0.000001`,
+      [asOf]
+    );
+
+    for (const deposit of stale) {
+      try {
+        if (await this.syncCurrentRate(deposit.id, 'APPLY_RATE_CHANGE', asOf)) {
+          result.updated_deposit_ids.push(deposit.id);
+        }
+      } catch (error: any) {
+        result.errors.push(`Deposit ${deposit.id}: ${error.message || error}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Annual income the portfolio was earning on each date: balances worked back
+   * from today's through the ledger, at the rate in force on the date
+   */
+  async getIncomeAtDates(dates: string[]): Promise<HistoricalIncomePoint[]> {
+    if (dates.length === 0) {
+      return [];
+    }
+    const earliest = dates.reduce((min, date) => (date < min ? date : min), dates[0]);
+
+    const deposits = await this.all<{ id: number; balance: number | null; aer: number | null; opened: string | null }>(
+      `SELECT id, balance, aer, COALESCE(deposit_date, date(created_at)) as opened FROM my_deposits`
+    );
+    const history = await this.getAllRateHistory();
+    const movements = await this.all<{ account_id: number; date: string; net: number }>(
+      `SELECT account_id, COALESCE(bank_date, transaction_date) as date,
+              SUM(COALESCE(credit, 0) - COALESCE(debit, 0)) as net
+       FROM account_transactions
+       WHERE COALESCE(bank_date, transaction_date) > ?
+       GROUP BY account_id, COALESCE(bank_date, transaction_date)`,
+      [earliest]
+    );
+
+    return dates.map(date => {
+      let income = 0;
+      let value = 0;
+
+      deposits.forEach(deposit => {
+        if (deposit.opened && deposit.opened > date) return;
+
+        const later = movements
+          .filter(movement => movement.account_id === deposit.id && movement.date > date)
+          .reduce((sum, movement) => sum + movement.net, 0);
+        const balance = (deposit.balance || 0) - later;
+        if (balance <= 0) return;
+
+        value += balance;
+        income += balance * this.rateOn(history[deposit.id], date, deposit.aer) / 100;
+      });
+
+      return {
+        date,
+        annualIncome: Math.round(income * 100) / 100,
+        portfolioValue: Math.round(value * 100) / 100,
+        weightedRate: value > 0 ? (income / value) * 100 : 0
+      };
+    });
+  }
+
+  /**
+   * Rate in force on a date; before the first entry the earliest known rate
+   * applies, and an account with no history keeps its current AER
+   */
+  private rateOn(entries: DepositRateHistoryEntry[] | undefined, date: string, fallback: number | null): number {
+    if (!entries || entries.length === 0) {
+      return fallback || 0;
+    }
+
+    let rate = entries[0].aer;
+    for (const entry of entries) {
+      if (entry.effective_from > date) break;
+      rate = entry.aer;
+    }
+    return rate;
+  }
+
+  /**
+   * Set the account's AER to its latest rate in force, audit-logging the change
+   */
+  private async syncCurrentRate(depositId: number, operationContext: string, asOf: string = this.today()): Promise<boolean> {
+    const rows = await this.all<{ current_aer: number | null; rate: number | null }>(
+      `SELECT md.aer as current_aer,
+              (SELECT h.aer FROM deposit_rate_history h
+               WHERE h.deposit_id = md.id AND h.effective_from <= ?
+               ORDER BY h.effective_from DESC, h.id DESC LIMIT 1) as rate
+       FROM my_deposits md
+       WHERE md.id = ?`,
+      [asOf, depositId]
+    );
+
+    const row = rows[0];
+    if (!row || row.rate === null || (row.current_aer !== null && Math.abs(row.current_aer - row.rate) < 0.000001)) {
+      return false;
+    }
+
+    await this.run(
+      'UPDATE my_deposits SET aer = ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
+      [row.rate, depositId]
+    );
+
+    if (this.auditService) {
+      try {
+        await this.auditService.logDataChanges({
+          tableName: 'my_deposits',
+          recordId: depositId,
+          oldData: { aer: row.current_aer },
+          newData: { aer: row.rate },
+          operationContext,
+          notes: 'AER updated from rate history'
+        });
+      } catch (auditError) {
+        console.error('Audit logging failed for rate history update:', auditError);
+      }
+    }
+    return true;
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private all<T>(query: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err, rows: T[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  private run(query: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(query, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+}
@@ -5,18 +5,37 @@ import {
   ReconciliationSummary,
   ReconciliationWizardState,
   ReconciliationResponse,
+  ReconciliationDecision,
+  ReconciliationDecisionType,
+  ReconciliationProposal,
+  StatementFormat,
+  StatementLine,
+  StatementLineMatch,
+  StatementReconciliationRequest,
+  StatementReconciliationResult,
   Transaction,
-  TransactionForm
+  TransactionForm,
+  TransactionValidationError
 } from '../types/TransactionTypes';
+import { Deposit } from '../types/PortfolioTypes';
 import { TransactionService } from './TransactionService';
+import { InterestPaymentService } from './InterestPaymentService';
+import {
+  detectStatementFormat,
+  isSameTransaction,
+  parseStatement,
+  statementLineToTransaction
+} from '../utils/statementParsers';
 
 export class ReconciliationService {
   private db: Database;
   private transactionService: TransactionService;
+  private interestPaymentService: InterestPaymentService;
 
   constructor(database: Database) {
     this.db = database;
     this.transactionService = new TransactionService(database);
+    this.interestPaymentService = new InterestPaymentService(database);
   }
 
   /**
@@ -425,16 +444,18 @@ export class ReconciliationService {
         reconciliation_session_id: sessionId
       };
 
-      const result = await this.transactionService.createTransaction(transaction);
+      // An adjustment keeps its type; categorisation rules are for real account activity
+      const result = await this.transactionService.createTransaction(transaction, { applyRules: false });
       
       if (result.success) {
         // Update session adjustments
-        const adjustments = JSON.parse(session.adjustments_made || '[]');
+        const adjustments: ReconciliationDecision[] = JSON.parse(session.adjustments_made || '[]');
         adjustments.push({
+          decision: 'adjustment',
           transaction_id: result.transaction?.id,
-          amount: adjustment.amount,
-          is_debit: adjustment.is_debit,
-          notes: adjustment.optional_notes
+          amount: adjustment.is_debit ? -adjustment.amount : adjustment.amount,
+          notes: adjustment.optional_notes,
+          decided_at: new Date().toISOString()
         });
 
         this.db.run(
@@ -575,4 +596,428 @@ export class ReconciliationService {
     // Ensure confidence is between 0 and 100
     return Math.max(0, Math.min(100, confidence));
   }
-}
\ No newline at end of file
+
+  /**
+   * Pair statement lines one-to-one with ledger transactions
+   * A pair needs the same amount (within tolerance) and bank dates inside the
+   * date window. Pairs statement import would treat as duplicates are taken
+   * first, then the best-scoring ones. Every transaction in
+   * the window is a candidate, so a line whose transaction was reconciled in an
+   * earlier session is reported as already reconciled rather than missing.
+   * Lines left over are proposed as missing transactions, and an adjustment is
+   * proposed for any gap they do not explain. Nothing is written until
+   * applyStatementMatches
+   */
+  async matchStatementLines(
+    sessionId: number,
+    request: StatementReconciliationRequest
+  ): Promise<StatementReconciliationResult> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    let format: StatementFormat | undefined;
+    let parseErrors: TransactionValidationError[] = [];
+    let lines = request.lines || [];
+    if (!request.lines && request.content) {
+      format = request.format || detectStatementFormat(request.content, request.file_name);
+      const parsed = parseStatement(request.content, format, {
+        profileId: request.profile_id,
+        dateOrder: request.date_order
+      });
+      lines = parsed.lines;
+      parseErrors = parsed.errors;
+    }
+    lines = [...lines].sort((a, b) => a.bank_date.localeCompare(b.bank_date) || a.line_number - b.line_number);
+
+    const windowDays = request.date_window_days ?? 4;
+    const tolerance = request.amount_tolerance ?? 0.01;
+    const ledger = await this.getStatementCandidates(session, lines, windowDays);
+
+    // Score every candidate pair, then pair greedily from the exact and best
+    const pairs: StatementLineMatch[] = [];
+    const exactPairs = new Set<StatementLineMatch>();
+    for (const line of lines) {
+      for (const transaction of ledger) {
+        if (Math.abs(this.signedAmount(transaction) - line.amount) > tolerance) continue;
+
+        const dateDifference = this.daysBetween(line.bank_date, this.ledgerDate(transaction));
+        if (Math.abs(dateDifference) > windowDays) continue;
+
+        const referenceSimilarity = this.referenceSimilarity(line, transaction);
+        const pair: StatementLineMatch = {
+          line,
+          status: 'matched',
+          transaction,
+          confidence: this.calculateLineConfidence(Math.abs(dateDifference), referenceSimilarity, windowDays),
+          date_difference: dateDifference,
+          reference_similarity: referenceSimilarity,
+          accept: true
+        };
+        pairs.push(pair);
+        if (isSameTransaction(transaction, line)) {
+          exactPairs.add(pair);
+        }
+      }
+    }
+    pairs.sort((a, b) =>
+      Number(exactPairs.has(b)) - Number(exactPairs.has(a)) ||
+      b.confidence - a.confidence ||
+      Math.abs(a.date_difference!) - Math.abs(b.date_difference!)
+    );
+
+    const pairedLines = new Map<StatementLine, StatementLineMatch>();
+    const pairedTransactions = new Set<number>();
+    for (const pair of pairs) {
+      if (pairedLines.has(pair.line) || pairedTransactions.has(pair.transaction!.id!)) continue;
+      pairedLines.set(pair.line, pair);
+      pairedTransactions.add(pair.transaction!.id!);
+    }
+
+    const matches: StatementLineMatch[] = lines.map(line => {
+      const pair = pairedLines.get(line);
+      if (!pair) {
+        return { line, status: 'missing', confidence: 0, accept: false };
+      }
+      return this.reconciledElsewhere(pair.transaction!, sessionId)
+        ? { ...pair, status: 'already_reconciled', accept: false }
+        : pair;
+    });
+    const unmatchedTransactions = lines.length === 0 ? [] : ledger.filter(transaction =>
+      !pairedTransactions.has(transaction.id!) &&
+      !this.reconciledElsewhere(transaction, sessionId) &&
+      this.ledgerDate(transaction) >= lines[0].bank_date &&
+      this.ledgerDate(transaction) <= session.statement_date
+    );
+
+    // Balance the statement lines move at the statement date: missing lines
+    // are added, and a matched transaction takes the statement's bank date
+    const ledgerBalance = await this.calculateAccountBalance(session.account_id, session.statement_date);
+    const gap = this.roundCurrency(session.statement_balance - ledgerBalance);
+    let explained = 0;
+    for (const match of matches) {
+      const onStatement = match.line.bank_date <= session.statement_date;
+      if (match.status === 'missing') {
+        explained += onStatement ? match.line.amount : 0;
+      } else {
+        const inLedger = this.ledgerDate(match.transaction!) <= session.statement_date;
+        explained += onStatement === inLedger ? 0 : onStatement ? match.line.amount : -match.line.amount;
+      }
+    }
+    const remainingGap = this.roundCurrency(gap - explained);
+
+    const account = await this.getAccount(session.account_id);
+    const proposals: ReconciliationProposal[] = [];
+    for (const match of matches.filter(m => m.status === 'missing')) {
+      const transaction = statementLineToTransaction(session.account_id, match.line);
+      if (account && match.line.amount > 0 &&
+          await this.interestPaymentService.detectInterestPayment(transaction as Transaction, account)) {
+        transaction.transaction_type = 'interest';
+      }
+      const categorised = await this.transactionService.applyCategorisationRules(transaction);
+      proposals.push({
+        kind: 'missing_transaction',
+        line_number: match.line.line_number,
+        transaction: categorised.transaction,
+        reason: 'On the statement but not in the ledger',
+        accept: true
+      });
+    }
+
+    if (Math.abs(remainingGap) >= 0.01) {
+      const unexplained = unmatchedTransactions.length > 0
+        ? `; ${unmatchedTransactions.length} ledger transaction(s) in the period are not on the statement`
+        : '';
+      proposals.push({
+        kind: 'adjustment',
+        transaction: {
+          account_id: session.account_id,
+          transaction_date: session.statement_date,
+          bank_date: session.statement_date,
+          transaction_type: 'adjustment',
+          credit: remainingGap > 0 ? remainingGap : undefined,
+          debit: remainingGap < 0 ? Math.abs(remainingGap) : undefined,
+          optional_notes: 'Reconciliation adjustment'
+        },
+        reason: `Statement balance differs from the ledger by ${remainingGap.toFixed(2)} after the statement lines${unexplained}`,
+        accept: unmatchedTransactions.length === 0
+      });
+    }
+
+    return {
+      session_id: sessionId,
+      format,
+      matches,
+      unmatched_transactions: unmatchedTransactions,
+      proposals,
+      parse_errors: parseErrors,
+      statement_balance: session.statement_balance,
+      ledger_balance: ledgerBalance,
+      gap,
+      remaining_gap: remainingGap
+    };
+  }
+
+  /**
+   * Apply the accepted matches and proposals of matchStatementLines
+   * Matched transactions take the statement's bank date and are reconciled;
+   * proposals are created already reconciled. Every decision, including ledger
+   * transactions left off the statement, is logged in adjustments_made, and
+   * lines or adjustments already logged there are not applied again
+   */
+  async applyStatementMatches(
+    sessionId: number,
+    result: StatementReconciliationResult
+  ): Promise<ReconciliationResponse> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (session.status !== 'in_progress') {
+      return { success: false, error: 'Session is not in progress' };
+    }
+
+    const decisions: ReconciliationDecision[] = JSON.parse(session.adjustments_made || '[]');
+    const decidedAt = new Date().toISOString();
+    const reconciledDate = decidedAt.split('T')[0];
+    const errors: string[] = [];
+
+    // Matches are keyed on the ledger transaction, created lines and adjustments
+    // on the line itself, so a second statement for the session with its own
+    // line numbers is applied while a repeated line is not
+    const matchedTransactions = new Set(
+      decisions.filter(d => d.decision === 'matched').map(d => d.transaction_id)
+    );
+    const loggedLines = new Set(
+      decisions
+        .filter(d => d.decision === 'created' || d.decision === 'adjustment')
+        .map(d => this.decisionKey(d.decision, d.bank_date, d.amount, d.reference))
+    );
+    const alreadyUnmatched = new Set(
+      decisions.filter(d => d.decision === 'unmatched').map(d => d.transaction_id)
+    );
+
+    const proposalAmount = (proposal: ReconciliationProposal) =>
+      (proposal.transaction.credit || 0) - (proposal.transaction.debit || 0);
+    const proposalDecision = (proposal: ReconciliationProposal): ReconciliationDecisionType =>
+      proposal.kind === 'adjustment' ? 'adjustment' : 'created';
+
+    const acceptedMatches = result.matches.filter(match => match.status === 'matched' && match.accept && match.transaction?.id);
+    const acceptedProposals = result.proposals.filter(proposal => proposal.accept);
+    const newProposals = acceptedProposals.filter(proposal => !loggedLines.has(this.decisionKey(
+      proposalDecision(proposal), proposal.transaction.bank_date, proposalAmount(proposal), proposal.transaction.reference
+    )));
+
+    if (acceptedMatches.length + acceptedProposals.length > 0 &&
+        acceptedMatches.every(match => matchedTransactions.has(match.transaction!.id)) &&
+        newProposals.length === 0) {
+      return { success: false, error: 'These statement matches have already been applied to the session' };
+    }
+
+    for (const match of result.matches) {
+      if (match.status !== 'matched' || !match.accept || !match.transaction?.id) continue;
+      if (matchedTransactions.has(match.transaction.id)) continue;
+
+      const response = await this.transactionService.updateTransaction(match.transaction.id, {
+        bank_date: match.line.bank_date,
+        reconciled: true,
+        reconciled_date: reconciledDate,
+        reconciliation_session_id: sessionId
+      });
+      if (!response.success) {
+        errors.push(`Line ${match.line.line_number}: ${response.error}`);
+        continue;
+      }
+      decisions.push({
+        decision: 'matched',
+        transaction_id: match.transaction.id,
+        line_number: match.line.line_number,
+        bank_date: match.line.bank_date,
+        amount: match.line.amount,
+        reference: match.line.reference,
+        confidence: match.confidence,
+        decided_at: decidedAt
+      });
+    }
+
+    for (const proposal of newProposals) {
+      const response = await this.transactionService.createTransaction({
+        ...proposal.transaction,
+        account_id: session.account_id,
+        source: proposal.kind === 'adjustment' ? 'manual' : 'import',
+        created_by: 'statement_reconciliation',
+        reconciled: true,
+        reconciled_date: reconciledDate,
+        reconciliation_session_id: sessionId
+      }, { applyRules: false });
+      const label = proposal.line_number ? `Line ${proposal.line_number}` : 'Adjustment';
+      if (!response.success) {
+        errors.push(`${label}: ${response.error}`);
+        continue;
+      }
+      decisions.push({
+        decision: proposalDecision(proposal),
+        transaction_id: response.transaction?.id,
+        line_number: proposal.line_number,
+        bank_date: proposal.transaction.bank_date,
+        amount: proposalAmount(proposal),
+        reference: proposal.transaction.reference,
+        notes: proposal.reason,
+        decided_at: decidedAt
+      });
+    }
+
+    for (const transaction of result.unmatched_transactions) {
+      if (alreadyUnmatched.has(transaction.id)) continue;
+      decisions.push({
+        decision: 'unmatched',
+        transaction_id: transaction.id,
+        bank_date: this.ledgerDate(transaction),
+        amount: this.signedAmount(transaction),
+        notes: 'In the ledger but not on the statement',
+        decided_at: decidedAt
+      });
+    }
+
+    const calculatedBalance = await this.calculateAccountBalance(session.account_id, session.statement_date);
+    const discrepancy = session.statement_balance - calculatedBalance;
+
+    return new Promise((resolve) => {
+      this.db.run(
+        `UPDATE reconciliation_sessions
+         SET adjustments_made = ?, calculated_balance = ?, discrepancy = ?
+         WHERE id = ?`,
+        [JSON.stringify(decisions), calculatedBalance, discrepancy, sessionId],
+        (err) => {
+          if (err) {
+            resolve({ success: false, error: err.message });
+            return;
+          }
+          resolve({
+            success: errors.length === 0,
+            session: {
+              ...session,
+              adjustments_made: JSON.stringify(decisions),
+              calculated_balance: calculatedBalance,
+              discrepancy
+            },
+            error: errors.length > 0 ? errors.join('; ') : undefined
+          });
+        }
+      );
+    });
+  }
+
+  /**
+   * Confidence of a statement line pairing whose amounts agree:
+   * closer bank dates and similar references score higher
+   */
+  private calculateLineConfidence(
+    daysApart: number,
+    referenceSimilarity: number,
+    windowDays: number
+  ): number {
+    const dateScore = 1 - daysApart / (windowDays + 1);
+    return Math.round(50 + dateScore * 30 + referenceSimilarity * 20);
+  }
+
+  /**
+   * Similarity (0-1) of a statement line's reference and description to a
+   * ledger transaction's reference and notes; identical references score 1
+   */
+  private referenceSimilarity(line: StatementLine, transaction: Transaction): number {
+    const normalise = (text?: string) => (text || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (line.reference && normalise(line.reference) === normalise(transaction.reference)) {
+      return 1;
+    }
+
+    const tokens = (text: string) =>
+      new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 3));
+    const lineTokens = tokens(`${line.reference || ''} ${line.description}`);
+    const ledgerTokens = tokens(`${transaction.reference || ''} ${transaction.optional_notes || ''}`);
+    if (lineTokens.size === 0 || ledgerTokens.size === 0) {
+      return 0;
+    }
+
+    const shared = [...lineTokens].filter(token => ledgerTokens.has(token)).length;
+    return shared / (lineTokens.size + ledgerTokens.size - shared);
+  }
+
+  /**
+   * Ledger transactions, reconciled or not, from the first statement line to
+   * the statement date, widened by the date window. Statement import checks
+   * duplicates against the whole ledger in the same way
+   */
+  private async getStatementCandidates(
+    session: ReconciliationSession,
+    lines: StatementLine[],
+    windowDays: number
+  ): Promise<Transaction[]> {
+    if (lines.length === 0) return [];
+
+    const lastDate = lines[lines.length - 1].bank_date > session.statement_date
+      ? lines[lines.length - 1].bank_date
+      : session.statement_date;
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM account_transactions
+         WHERE account_id = ?
+           AND COALESCE(bank_date, transaction_date) >= date(?, ?)
+           AND COALESCE(bank_date, transaction_date) <= date(?, ?)
+         ORDER BY COALESCE(bank_date, transaction_date), id`,
+        [session.account_id, lines[0].bank_date, `-${windowDays} days`, lastDate, `+${windowDays} days`],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows || []);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Reconciled in a session other than this one
+   */
+  private reconciledElsewhere(transaction: Transaction, sessionId: number): boolean {
+    return !!transaction.reconciled && transaction.reconciliation_session_id !== sessionId;
+  }
+
+  private async getAccount(accountId: number): Promise<Deposit | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM my_deposits WHERE id = ?', [accountId], (err, row: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Identity of a logged line: its decision, bank date, amount and reference
+   */
+  private decisionKey(decision: ReconciliationDecisionType, bankDate: string | undefined, amount: number, reference?: string): string {
+    return [decision, bankDate || '', amount.toFixed(2), (reference || '').trim().toUpperCase()].join('|');
+  }
+
+  private signedAmount(transaction: Transaction): number {
+    return (transaction.credit || 0) - (transaction.debit || 0);
+  }
+
+  private ledgerDate(transaction: Transaction): string {
+    return transaction.bank_date || transaction.transaction_date;
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / (1000 * 60 * 60 * 24));
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
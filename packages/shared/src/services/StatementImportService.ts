@@ -0,0 +1,209 @@
+import { Database } from 'sqlite3';
+import {
+  Transaction,
+  TransactionImportResult,
+  StatementCsvProfile,
+  StatementImportPreview,
+  StatementImportRequest,
+  StatementImportRow,
+  StatementLine
+} from '../types/TransactionTypes';
+import { Deposit } from '../types/PortfolioTypes';
+import { TransactionService } from './TransactionService';
+import { InterestPaymentService } from './InterestPaymentService';
+import {
+  detectStatementFormat,
+  isSameTransaction,
+  parseStatement,
+  statementLineToTransaction,
+  STATEMENT_CSV_PROFILES
+} from '../utils/statementParsers';
+
+/**
+ * Imports bank statements (CSV, OFX, QIF) as transactions
+ * A preview marks lines already recorded, classifies interest and applies
+ * categorisation rules; only the rows left included are created on commit, through TransactionService
+ */
+export class StatementImportService {
+  private db: Database;
+  private transactionService: TransactionService;
+  private interestPaymentService: InterestPaymentService;
+
+  constructor(database: Database) {
+    this.db = database;
+    this.transactionService = new TransactionService(database);
+    this.interestPaymentService = new InterestPaymentService(database);
+  }
+
+  /**
+   * CSV column profiles available for statement import
+   */
+  getCsvProfiles(): StatementCsvProfile[] {
+    return STATEMENT_CSV_PROFILES;
+  }
+
+  /**
+   * Parse a statement and preview the transactions it would create
+   */
+  async previewImport(request: StatementImportRequest): Promise<StatementImportPreview> {
+    const format = request.format || detectStatementFormat(request.content, request.file_name);
+    const parsed = parseStatement(request.content, format, {
+      profile: request.profile,
+      profileId: request.profile_id,
+      dateOrder: request.date_order
+    });
+
+    const account = await this.getAccount(request.account_id);
+    if (!account) {
+      throw new Error(`Account ${request.account_id} not found`);
+    }
+
+    const lines = [...parsed.lines].sort((a, b) =>
+      a.bank_date.localeCompare(b.bank_date) || a.line_number - b.line_number
+    );
+    const findDuplicate = await this.duplicateFinder(request.account_id, lines);
+    const rows: StatementImportRow[] = [];
+
+    for (const line of lines) {
+      const transaction = statementLineToTransaction(request.account_id, line);
+      const duplicate = findDuplicate(line);
+
+      const detectedInterest = !duplicate && line.amount > 0 &&
+        await this.interestPaymentService.detectInterestPayment(transaction as Transaction, account);
+      if (detectedInterest) {
+        transaction.transaction_type = 'interest';
+      }
+
+      // A matching rule overrides the default classification
+      const categorised = duplicate ? null : await this.transactionService.applyCategorisationRules(transaction);
+
+      rows.push({
+        line,
+        transaction: categorised ? categorised.transaction : transaction,
+        status: duplicate ? 'duplicate' : 'new',
+        duplicate_of: duplicate?.id,
+        detected_interest: detectedInterest,
+        rule_name: categorised?.rule?.name,
+        include: !duplicate,
+        errors: (categorised?.warnings || []).map(message => ({ field: 'transaction_type', message }))
+      });
+    }
+
+    return {
+      account_id: request.account_id,
+      format,
+      profile_id: parsed.profile_id,
+      rows,
+      parse_errors: parsed.errors,
+      summary: {
+        total: rows.length + parsed.errors.length,
+        new: rows.filter(row => row.status === 'new').length,
+        duplicates: rows.filter(row => row.status === 'duplicate').length,
+        invalid: parsed.errors.length,
+        interest: rows.filter(row => row.detected_interest).length
+      }
+    };
+  }
+
+  /**
+   * Create the included new rows of a preview, oldest first
+   * The ledger is checked again for duplicates, so a stale or resubmitted
+   * preview cannot record a line twice. Those rows, and rows
+   * TransactionService rejects, are counted as skipped with the reason
+   */
+  async commitImport(rows: StatementImportRow[]): Promise<TransactionImportResult> {
+    const result: TransactionImportResult = { imported: 0, skipped: 0, errors: [] };
+
+    const toImport = rows
+      .filter(row => row.status === 'new' && row.include)
+      .sort((a, b) => a.line.bank_date.localeCompare(b.line.bank_date) || a.line.line_number - b.line.line_number);
+    result.skipped = rows.length - toImport.length;
+    if (toImport.length === 0) {
+      return result;
+    }
+
+    const findDuplicate = await this.duplicateFinder(toImport[0].transaction.account_id!, toImport.map(row => row.line));
+
+    for (const row of toImport) {
+      const duplicate = findDuplicate(row.line);
+      if (duplicate) {
+        result.skipped++;
+        result.errors.push({ field: `line ${row.line.line_number}`, message: `Already recorded as transaction ${duplicate.id}` });
+        continue;
+      }
+
+      const response = await this.transactionService.createTransaction({
+        ...row.transaction,
+        source: 'import',
+        created_by: 'statement_import'
+      }, { applyRules: false });
+
+      if (response.success) {
+        result.imported++;
+      } else {
+        result.skipped++;
+        result.errors.push({ field: `line ${row.line.line_number}`, message: response.error || 'Transaction rejected' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds the ledger transaction already recording each line, reconciled or
+   * not. Each transaction can only account for one statement line
+   */
+  private async duplicateFinder(
+    accountId: number,
+    lines: StatementLine[]
+  ): Promise<(line: StatementLine) => Transaction | undefined> {
+    const existing = await this.getExistingTransactions(accountId, lines);
+    const matched = new Set<number>();
+
+    return (line: StatementLine) => {
+      const duplicate = existing.find(tx => !matched.has(tx.id!) && isSameTransaction(tx, line));
+      if (duplicate) {
+        matched.add(duplicate.id!);
+      }
+      return duplicate;
+    };
+  }
+
+  /**
+   * Transactions dated within the lines' bank dates; lines must be sorted by bank date
+   */
+  private async getExistingTransactions(accountId: number, lines: StatementLine[]): Promise<Transaction[]> {
+    if (lines.length === 0) return [];
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT id, transaction_date, bank_date, debit, credit, reference
+         FROM account_transactions
+         WHERE account_id = ?
+           AND COALESCE(bank_date, transaction_date) >= ?
+           AND COALESCE(bank_date, transaction_date) <= ?
+         ORDER BY COALESCE(bank_date, transaction_date), id`,
+        [accountId, lines[0].bank_date, lines[lines.length - 1].bank_date],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows || []);
+          }
+        }
+      );
+    });
+  }
+
+  private async getAccount(accountId: number): Promise<Deposit | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM my_deposits WHERE id = ?', [accountId], (err, row: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+}
@@ -11,11 +11,23 @@ import {
   TransactionValidationError,
   TransactionImportResult,
   TransactionType,
-  TransactionSource
+  TransactionSource,
+  BulkTransactionRequest,
+  BulkTransactionResult,
+  CategorisationResult
 } from '../types/TransactionTypes';
+import { CategorisationRuleService } from './CategorisationRuleService';
+
+// Types that only make sense for money in, or money out; 'adjustment' goes either way
+const CREDIT_TYPES: TransactionType[] = ['deposit', 'interest', 'account_opened'];
+const DEBIT_TYPES: TransactionType[] = ['withdrawal', 'fee', 'account_closed'];
+
+// audit_log record_id of a bulk change's batch entry, which covers many transactions
+const BULK_AUDIT_RECORD_ID = 0;
 
 export class TransactionService {
   private db: Database;
+  private categorisationRuleService: CategorisationRuleService;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY_MS = 100;
   private transactionCache: Map<string, { data: any; timestamp: number }> = new Map();
@@ -23,6 +35,7 @@ export class TransactionService {
 
   constructor(database: Database) {
     this.db = database;
+    this.categorisationRuleService = new CategorisationRuleService(database);
   }
 
   /**
@@ -332,8 +345,18 @@ export class TransactionService {
 
   /**
    * Create a new transaction
+   * Categorisation rules are applied to every transaction except system-generated
+   * ones, unless the caller has already applied them or opts out
    */
-  async createTransaction(transaction: Partial<Transaction>): Promise<TransactionResponse> {
+  async createTransaction(
+    transaction: Partial<Transaction>,
+    options: { applyRules?: boolean } = {}
+  ): Promise<TransactionResponse> {
+    const applyRules = options.applyRules ?? transaction.source !== 'system';
+    if (applyRules) {
+      transaction = (await this.applyCategorisationRules(transaction)).transaction;
+    }
+
     return new Promise(async (resolve, reject) => {
       console.log('🏦 TransactionService: Creating transaction:', JSON.stringify(transaction, null, 2));
 
@@ -425,8 +448,8 @@ export class TransactionService {
           transaction_type, debit, credit, balance_after,
           estimated_amount, variance_notes,
           reference, optional_notes, source,
-          reconciled, created_by
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          reconciled, reconciled_date, reconciliation_session_id, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
 
       const params = [
@@ -444,6 +467,8 @@ export class TransactionService {
         transaction.optional_notes || null,
         transaction.source || 'manual',
         transaction.reconciled ? 1 : 0,
+        transaction.reconciled ? transaction.reconciled_date || null : null,
+        transaction.reconciled ? transaction.reconciliation_session_id || null : null,
         transaction.created_by || 'system'
       ];
 
@@ -642,6 +667,294 @@ export class TransactionService {
     });
   }
 
+  /**
+   * Apply the first matching categorisation rule to a transaction
+   * The rule's type is only used where the account allows it and it suits the
+   * direction of the money; otherwise the transaction keeps its type and a
+   * warning explains why
+   */
+  async applyCategorisationRules(transaction: Partial<Transaction>): Promise<CategorisationResult> {
+    let rules;
+    try {
+      rules = await this.categorisationRuleService.getRules(false);
+    } catch (error) {
+      console.error('⚠️ TransactionService: Could not load categorisation rules:', error);
+      return { transaction, warnings: [] };
+    }
+
+    const rule = this.categorisationRuleService.findMatchingRule(transaction, rules);
+    if (!rule) {
+      return { transaction, warnings: [] };
+    }
+
+    const categorised: Partial<Transaction> = { ...transaction };
+    const warnings: string[] = [];
+
+    if (rule.transaction_type && rule.transaction_type !== transaction.transaction_type) {
+      const problem = await this.checkTransactionType(transaction, rule.transaction_type);
+      if (problem) {
+        warnings.push(`Rule '${rule.name}' type not applied: ${problem}`);
+      } else {
+        categorised.transaction_type = rule.transaction_type;
+      }
+    }
+
+    // Existing notes are kept after the rule's, once
+    if (rule.notes && !transaction.optional_notes?.startsWith(rule.notes)) {
+      categorised.optional_notes = transaction.optional_notes
+        ? `${rule.notes} (${transaction.optional_notes})`
+        : rule.notes;
+    }
+
+    return {
+      transaction: categorised,
+      rule: { id: rule.id!, name: rule.name },
+      warnings
+    };
+  }
+
+  /**
+   * Apply one operation to many transactions
+   * Transactions that fail their checks are reported and left alone; the rest
+   * change together in one database transaction with a single audit entry
+   */
+  async bulkUpdate(request: BulkTransactionRequest): Promise<BulkTransactionResult> {
+    switch (request.operation) {
+      case 'reclassify':
+        if (!request.transaction_type) {
+          throw new Error('A transaction type is required to reclassify');
+        }
+        return this.bulkReclassify(request.transaction_ids, request.transaction_type, request.optional_notes);
+      case 'reconcile':
+        return this.bulkSetReconciled(request.transaction_ids, true, request.reconciliation_session_id);
+      case 'unreconcile':
+        return this.bulkSetReconciled(request.transaction_ids, false);
+      case 'delete':
+        return this.bulkDelete(request.transaction_ids);
+      default:
+        throw new Error(`Unknown bulk operation: ${request.operation}`);
+    }
+  }
+
+  /**
+   * Change the type, and optionally the notes, of many transactions
+   */
+  async bulkReclassify(ids: number[], transactionType: TransactionType, notes?: string): Promise<BulkTransactionResult> {
+    const { rows, result } = await this.loadBulkRows('reclassify', ids);
+
+    const changed: any[] = [];
+    for (const row of rows) {
+      const problem = await this.checkTransactionType(row, transactionType);
+      if (problem) {
+        result.failed.push({ transaction_id: row.id, error: problem });
+      } else {
+        changed.push(row);
+      }
+    }
+
+    const setNotes = notes !== undefined;
+    return this.commitBulk(result, changed, {
+      statement: `UPDATE account_transactions
+        SET transaction_type = ?${setNotes ? ', optional_notes = ?' : ''}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?`,
+      params: row => setNotes ? [transactionType, notes || null, row.id] : [transactionType, row.id],
+      fieldName: 'transaction_type',
+      oldValue: row => row.transaction_type,
+      newValue: transactionType,
+      operationContext: 'BULK_RECLASSIFY'
+    });
+  }
+
+  /**
+   * Mark many transactions reconciled, or clear their reconciliation
+   */
+  async bulkSetReconciled(ids: number[], reconciled: boolean, sessionId?: number): Promise<BulkTransactionResult> {
+    const { rows, result } = await this.loadBulkRows(reconciled ? 'reconcile' : 'unreconcile', ids);
+
+    const changed: any[] = [];
+    for (const row of rows) {
+      if (!!row.reconciled === reconciled) {
+        result.failed.push({
+          transaction_id: row.id,
+          error: reconciled ? 'Already reconciled' : 'Not reconciled'
+        });
+      } else {
+        changed.push(row);
+      }
+    }
+
+    const reconciledDate = new Date().toISOString().split('T')[0];
+    return this.commitBulk(result, changed, {
+      statement: `UPDATE account_transactions
+        SET reconciled = ?, reconciled_date = ?, reconciliation_session_id = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?`,
+      params: row => reconciled
+        ? [1, reconciledDate, sessionId || null, row.id]
+        : [0, null, null, row.id],
+      fieldName: 'reconciled',
+      oldValue: row => !!row.reconciled,
+      newValue: reconciled,
+      operationContext: reconciled ? 'BULK_RECONCILE' : 'BULK_UNRECONCILE'
+    });
+  }
+
+  /**
+   * Delete many transactions; reconciled and system-generated ones are kept,
+   * as with deleteTransaction()
+   */
+  async bulkDelete(ids: number[]): Promise<BulkTransactionResult> {
+    const { rows, result } = await this.loadBulkRows('delete', ids);
+
+    const changed: any[] = [];
+    for (const row of rows) {
+      if (row.reconciled) {
+        result.failed.push({ transaction_id: row.id, error: 'Cannot delete reconciled transaction' });
+      } else if (row.source === 'system') {
+        result.failed.push({ transaction_id: row.id, error: 'Cannot delete system-generated transaction' });
+      } else {
+        changed.push(row);
+      }
+    }
+
+    return this.commitBulk(result, changed, {
+      statement: 'DELETE FROM account_transactions WHERE id = ?',
+      params: row => [row.id],
+      fieldName: 'deleted',
+      oldValue: row => ({
+        transaction_date: row.transaction_date,
+        transaction_type: row.transaction_type,
+        debit: row.debit,
+        credit: row.credit,
+        reference: row.reference
+      }),
+      newValue: true,
+      operationContext: 'BULK_DELETE'
+    });
+  }
+
+  /**
+   * Why a transaction cannot take a type, or null if it can: the account must
+   * allow the type and the type must suit a credit or a debit
+   */
+  private async checkTransactionType(transaction: Partial<Transaction>, transactionType: TransactionType): Promise<string | null> {
+    if (transaction.credit && DEBIT_TYPES.includes(transactionType)) {
+      return `'${transactionType}' cannot be used for a credit`;
+    }
+    if (transaction.debit && CREDIT_TYPES.includes(transactionType)) {
+      return `'${transactionType}' cannot be used for a debit`;
+    }
+
+    const errors = await this.validateTransactionWithContext({ ...transaction, transaction_type: transactionType });
+    const typeError = errors.find(e => e.field === 'transaction_type' || e.field === 'account_id');
+    return typeError ? typeError.message : null;
+  }
+
+  /**
+   * Load the transactions a bulk operation acts on, reporting ids not found
+   */
+  private async loadBulkRows(
+    operation: BulkTransactionResult['operation'],
+    ids: number[]
+  ): Promise<{ rows: any[]; result: BulkTransactionResult }> {
+    const uniqueIds = Array.from(new Set(ids));
+    const result: BulkTransactionResult = { operation, requested: uniqueIds.length, succeeded: [], failed: [] };
+    if (uniqueIds.length === 0) {
+      return { rows: [], result };
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM account_transactions WHERE id IN (${uniqueIds.map(() => '?').join(', ')})`,
+        uniqueIds,
+        (err, rows: any[]) => (err ? reject(err) : resolve(rows || []))
+      );
+    });
+
+    const found = new Set(rows.map(row => row.id));
+    uniqueIds
+      .filter(id => !found.has(id))
+      .forEach(id => result.failed.push({ transaction_id: id, error: 'Transaction not found' }));
+
+    return { rows, result };
+  }
+
+  /**
+   * Run a bulk change for the given rows and its audit entry in one database
+   * transaction; nothing changes if any statement fails. The audit entry is a
+   * batch record (record_id BULK_AUDIT_RECORD_ID) whose old and new values are
+   * keyed by transaction id
+   */
+  private commitBulk(
+    result: BulkTransactionResult,
+    rows: any[],
+    change: {
+      statement: string;
+      params: (row: any) => any[];
+      fieldName: string;
+      oldValue: (row: any) => any;
+      newValue: any;
+      operationContext: string;
+    }
+  ): Promise<BulkTransactionResult> {
+    if (rows.length === 0) {
+      return Promise.resolve(result);
+    }
+
+    const accountIds = Array.from(new Set(rows.map(row => row.account_id as number)));
+    const oldValues: Record<number, any> = {};
+    const newValues: Record<number, any> = {};
+    rows.forEach(row => {
+      oldValues[row.id] = change.oldValue(row);
+      newValues[row.id] = change.newValue;
+    });
+    const ids = rows.map(row => row.id as number);
+
+    const db = this.db;
+    const self = this;
+    return new Promise((resolve, reject) => {
+      db.serialize(() => {
+        db.run('BEGIN TRANSACTION');
+
+        let firstError: Error | null = null;
+
+        rows.forEach(row => {
+          db.run(change.statement, change.params(row), (err) => {
+            if (err && !firstError) firstError = err;
+          });
+        });
+
+        // Serialized, so this callback runs after every change above
+        db.run(
+          `INSERT INTO audit_log (
+            table_name, record_id, field_name, old_value, new_value, operation_context, notes
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            'account_transactions',
+            BULK_AUDIT_RECORD_ID,
+            change.fieldName,
+            JSON.stringify(oldValues),
+            JSON.stringify(newValues),
+            change.operationContext,
+            `${rows.length} transaction(s) across ${accountIds.length} account(s): ${ids.join(', ')}`
+          ],
+          function(err) {
+            if (err && !firstError) firstError = err;
+            const auditLogId = err ? undefined : this.lastID;
+
+            db.run(firstError ? 'ROLLBACK' : 'COMMIT', (endErr) => {
+              if (firstError || endErr) {
+                reject(firstError || endErr);
+                return;
+              }
+              accountIds.forEach(accountId => self.clearAccountCache(accountId));
+              resolve({ ...result, succeeded: ids, audit_log_id: auditLogId });
+            });
+          }
+        );
+      });
+    });
+  }
+
   /**
    * Verify balance consistency for an account
    */
@@ -893,6 +1206,38 @@ export class TransactionService {
     });
   }
 
+  /**
+   * Get net interest received per account between two bank dates (inclusive)
+   */
+  async getInterestReceivedByAccount(
+    startDate: string,
+    endDate: string
+  ): Promise<Array<{ account_id: number; total_interest: number }>> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT
+          account_id,
+          SUM(COALESCE(credit, 0) - COALESCE(debit, 0)) as total_interest
+        FROM account_transactions
+        WHERE transaction_type = 'interest'
+          AND bank_date >= ?
+          AND bank_date <= ?
+        GROUP BY account_id
+      `;
+
+      this.db.all(query, [startDate, endDate], (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve((rows || []).map(row => ({
+            account_id: row.account_id,
+            total_interest: row.total_interest || 0
+          })));
+        }
+      });
+    });
+  }
+
   /**
    * Create transaction from balance change
    */
@@ -0,0 +1,91 @@
+/**
+ * Categorisation rule tests
+ * Rule conditions, priority order and validation
+ */
+
+import { Database } from 'sqlite3';
+import { CategorisationRuleService } from '../CategorisationRuleService';
+import { TransactionCategorisationRule } from '../../types/TransactionTypes';
+import { closeDatabase, createTestDatabase } from './helpers/testDatabase';
+
+describe('CategorisationRuleService', () => {
+  let db: Database;
+  let service: CategorisationRuleService;
+
+  const rule = (overrides: Partial<TransactionCategorisationRule>): TransactionCategorisationRule => ({
+    name: 'Rule',
+    transaction_type: 'interest',
+    priority: 100,
+    is_active: true,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['021_transaction_categorisation_rules.sql']);
+    service = new CategorisationRuleService(db);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  describe('findMatchingRule', () => {
+    const interest = { account_id: 1, credit: 12.5, reference: 'GROSS INT MAR' };
+
+    test('matches the reference pattern case-insensitively against reference and notes', () => {
+      const pattern = rule({ id: 1, reference_pattern: 'gross\\s+int' });
+
+      expect(service.findMatchingRule(interest, [pattern])).toBe(pattern);
+      expect(service.findMatchingRule({ credit: 12.5, optional_notes: 'Gross Int' }, [pattern])).toBe(pattern);
+      expect(service.findMatchingRule({ credit: 12.5, reference: 'TRANSFER' }, [pattern])).toBeNull();
+    });
+
+    test('checks account, direction and amount range', () => {
+      expect(service.findMatchingRule(interest, [rule({ account_id: 2 })])).toBeNull();
+      expect(service.findMatchingRule(interest, [rule({ direction: 'debit' })])).toBeNull();
+      expect(service.findMatchingRule(interest, [rule({ min_amount: 20 })])).toBeNull();
+      expect(service.findMatchingRule(interest, [rule({ max_amount: 10 })])).toBeNull();
+
+      const all = rule({ account_id: 1, direction: 'credit', min_amount: 12.5, max_amount: 12.5 });
+      expect(service.findMatchingRule(interest, [all])).toBe(all);
+      expect(service.findMatchingRule({ debit: 40 }, [rule({ direction: 'debit', min_amount: 30 })])).not.toBeNull();
+    });
+
+    test('takes the first active rule by priority, then id', () => {
+      const later = rule({ id: 1, name: 'Later', priority: 50 });
+      const first = rule({ id: 3, name: 'First', priority: 10 });
+      const tie = rule({ id: 2, name: 'Tie', priority: 10 });
+      const inactive = rule({ id: 4, name: 'Inactive', priority: 1, is_active: false });
+
+      expect(service.findMatchingRule(interest, [later, first, tie, inactive])?.name).toBe('Tie');
+    });
+
+    test('skips a rule whose pattern no longer compiles', () => {
+      const broken = rule({ id: 1, priority: 1, reference_pattern: '(' });
+      const fallback = rule({ id: 2, priority: 2 });
+
+      expect(service.findMatchingRule(interest, [broken, fallback])).toBe(fallback);
+    });
+  });
+
+  describe('createRule', () => {
+    test('stores a rule and returns it in priority order', async () => {
+      await service.createRule(rule({ name: 'Fees', transaction_type: 'fee', direction: 'debit', priority: 20 }));
+      await service.createRule(rule({ name: ' Interest ', reference_pattern: 'INT', priority: 10 }));
+
+      const rules = await service.getRules();
+      expect(rules.map(r => r.name)).toEqual(['Interest', 'Fees']);
+      expect(rules[0].is_active).toBe(true);
+    });
+
+    test.each([
+      [{ name: '' }, 'Rule name is required'],
+      [{ transaction_type: null, notes: null }, 'must set a transaction type or notes'],
+      [{ reference_pattern: '[' }, 'Invalid reference pattern'],
+      [{ min_amount: -1 }, 'Amount limits must be zero or more'],
+      [{ min_amount: 10, max_amount: 5 }, 'Minimum amount cannot exceed maximum amount']
+    ] as const)('rejects %p', async (overrides, message) => {
+      await expect(service.createRule(rule(overrides as Partial<TransactionCategorisationRule>))).rejects.toThrow(message);
+    });
+  });
+});
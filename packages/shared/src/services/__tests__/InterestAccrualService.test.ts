@@ -0,0 +1,161 @@
+/**
+ * Interest accrual tests
+ * Day-count bases, compounding, rate periods and the daily balance rebuilt
+ * from the ledger
+ */
+
+import { Database } from 'sqlite3';
+import { InterestAccrualService } from '../InterestAccrualService';
+import { closeDatabase, createTestDatabase, insert } from './helpers/testDatabase';
+
+describe('InterestAccrualService', () => {
+  let db: Database;
+  let service: InterestAccrualService;
+  let accountId: number;
+
+  const account = (overrides: Record<string, any> = {}): any => ({
+    id: accountId,
+    bank: 'Test Bank',
+    balance: 10000,
+    aer: 3.65,
+    interest_payment_type: 'Annually',
+    ...overrides
+  });
+
+  const addRateHistory = (effectiveFrom: string, aer: number) =>
+    insert(db, `INSERT INTO deposit_rate_history (deposit_id, aer, effective_from) VALUES (?, ?, ?)`, [accountId, aer, effectiveFrom]);
+
+  const addTransaction = (date: string, amount: number, type = amount > 0 ? 'deposit' : 'withdrawal') =>
+    insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, bank_date, transaction_type, credit, debit)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [accountId, date, date, type, amount > 0 ? amount : null, amount < 0 ? -amount : null]
+    );
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['019_interest_accrual.sql', '020_deposit_rate_history.sql']);
+    service = new InterestAccrualService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 10000, 3.65)`);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  describe('day count', () => {
+    test.each([
+      ['ACT/365', '2026-03-01', 10],
+      ['ACT/360', '2026-03-01', 10.14],
+      ['ACT/ACT', '2028-03-01', 9.97],
+      ['ACT/ACT', '2026-03-01', 10]
+    ])('%s from %s', async (dayCount, start, expected) => {
+      const end = `${start.slice(0, 8)}11`;
+      const accrual = await service.calculateAccrual(account({ interest_day_count: dayCount }), start, end);
+
+      expect(accrual.days).toBe(10);
+      expect(accrual.expected_interest).toBe(expected);
+    });
+  });
+
+  describe('compounding', () => {
+    test.each(['Daily', 'Monthly', 'Quarterly', 'Annually', 'At_Payment'])(
+      '%s compounding earns the AER over a year',
+      async compounding => {
+        const accrual = await service.calculateAccrual(
+          account({ aer: 5, interest_compounding: compounding }),
+          '2026-01-01',
+          '2027-01-01'
+        );
+
+        expect(accrual.days).toBe(365);
+        expect(accrual.expected_interest).toBeCloseTo(500, 0);
+      }
+    );
+
+    test('adds compounded interest to the balance it earns on', async () => {
+      const accrual = await service.calculateAccrual(
+        account({ aer: 5, interest_compounding: 'Monthly' }),
+        '2026-01-01',
+        '2026-03-01'
+      );
+
+      const january = accrual.daily.filter(day => day.date < '2026-02-01').reduce((sum, day) => sum + day.interest, 0);
+      const february = accrual.daily.find(day => day.date === '2026-02-01')!;
+      expect(accrual.daily[0].balance).toBe(10000);
+      expect(february.balance).toBeCloseTo(10000 + january, 6);
+    });
+  });
+
+  describe('rate schedule', () => {
+    test('splits the period where a recorded or scheduled rate takes effect', async () => {
+      await addRateHistory('2025-06-01', 4);
+      await addRateHistory('2026-01-10', 4.5);
+      await insert(
+        db,
+        `INSERT INTO rate_changes (deposit_id, new_rate, effective_date, status) VALUES (?, 5, '2026-01-20', 'pending')`,
+        [accountId]
+      );
+      await insert(
+        db,
+        `INSERT INTO rate_changes (deposit_id, new_rate, effective_date, status) VALUES (?, 9, '2026-01-15', 'applied')`,
+        [accountId]
+      );
+
+      const schedule = await service.getRateSchedule(account(), '2026-01-01', '2026-02-01');
+
+      expect(schedule).toEqual([
+        { start_date: '2026-01-01', end_date: '2026-01-10', aer: 4 },
+        { start_date: '2026-01-10', end_date: '2026-01-20', aer: 4.5 },
+        { start_date: '2026-01-20', end_date: '2026-02-01', aer: 5 }
+      ]);
+    });
+
+    test('accrues each part of the period at its own rate', async () => {
+      await addRateHistory('2026-01-01', 3.65);
+      await addRateHistory('2026-01-11', 7.3);
+
+      const accrual = await service.calculateAccrual(account(), '2026-01-01', '2026-01-21');
+
+      // 10 days at £1.00 a day, then 10 days at £2.00 a day
+      expect(accrual.rate_periods).toHaveLength(2);
+      expect(accrual.expected_interest).toBe(30);
+    });
+
+    test("falls back to the account's AER without a rate history", async () => {
+      expect(await service.getRateSchedule(account({ aer: 2 }), '2026-01-01', '2026-02-01')).toEqual([
+        { start_date: '2026-01-01', end_date: '2026-02-01', aer: 2 }
+      ]);
+    });
+  });
+
+  describe('daily balances', () => {
+    test('works back from the current balance through the ledger', async () => {
+      await addTransaction('2026-01-11', 500);
+      await addTransaction('2026-02-15', -250);
+
+      const accrual = await service.calculateAccrual(account({ balance: 1250 }), '2026-01-01', '2026-01-21');
+
+      expect(accrual.daily[0].balance).toBe(1000);
+      expect(accrual.daily[10].balance).toBe(1500);
+      expect(accrual.average_balance).toBe(1250);
+      expect(accrual.expected_interest).toBe(2.5);
+    });
+  });
+
+  describe('getPeriodStart', () => {
+    test('starts at the previous interest payment in the ledger', async () => {
+      await addTransaction('2026-01-31', 30, 'interest');
+
+      expect(await service.getPeriodStart(account({ interest_payment_type: 'Monthly' }), '2026-02-28')).toBe('2026-01-31');
+    });
+
+    test('otherwise goes back one payment interval, but not before the deposit date', async () => {
+      expect(await service.getPeriodStart(account({ interest_payment_type: 'Quarterly' }), '2026-03-31')).toBe('2025-12-31');
+      expect(await service.getPeriodStart(
+        account({ interest_payment_type: 'Annually', deposit_date: '2025-09-01' }),
+        '2026-03-31'
+      )).toBe('2025-09-01');
+    });
+  });
+});
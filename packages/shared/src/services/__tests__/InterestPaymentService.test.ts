@@ -0,0 +1,74 @@
+/**
+ * Missed interest payment tests
+ * A payment is received by interest recorded around its due date, not by
+ * interest that belongs to the payment after it
+ */
+
+import { Database } from 'sqlite3';
+import { InterestPaymentService } from '../InterestPaymentService';
+import { closeDatabase, createTestDatabase, insert } from './helpers/testDatabase';
+
+describe('InterestPaymentService', () => {
+  let db: Database;
+  let service: InterestPaymentService;
+  let accountId: number;
+
+  const daysFromToday = (days: number) => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+  };
+
+  // Monthly payment due 40 days ago, so the following one is already due too
+  const dueDate = daysFromToday(-40);
+
+  const addInterest = (date: string, amount: number) =>
+    insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, bank_date, transaction_type, credit)
+       VALUES (?, ?, ?, 'interest', ?)`,
+      [accountId, date, date, amount]
+    );
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['019_interest_accrual.sql', '020_deposit_rate_history.sql']);
+    service = new InterestPaymentService(db);
+    accountId = await insert(
+      db,
+      `INSERT INTO my_deposits (bank, balance, aer, deposit_date, interest_payment_type, interest_next_payment_date)
+       VALUES ('Test Bank', 10000, 4, ?, 'Monthly', ?)`,
+      [daysFromToday(-400), dueDate]
+    );
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  describe('detectMissedPayments', () => {
+    test('counts interest paid around the due date as received', async () => {
+      await addInterest(daysFromToday(-42), 35);
+
+      expect(await service.detectMissedPayments()).toEqual([]);
+    });
+
+    test("flags the payment as missed when only the next period's interest arrived", async () => {
+      await addInterest(daysFromToday(-5), 35);
+
+      const missed = await service.detectMissedPayments();
+
+      expect(missed).toHaveLength(1);
+      expect(missed[0]).toEqual(expect.objectContaining({ id: accountId, status: 'missed', received_amount: 0 }));
+      expect(missed[0].days_overdue).toBe(40);
+    });
+
+    test('flags a short payment without adding interest paid after it', async () => {
+      await addInterest(daysFromToday(-40), 5);
+      await addInterest(daysFromToday(-5), 35);
+
+      const missed = await service.detectMissedPayments();
+
+      expect(missed).toEqual([expect.objectContaining({ id: accountId, status: 'short', received_amount: 5 })]);
+    });
+  });
+});
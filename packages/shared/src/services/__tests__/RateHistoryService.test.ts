@@ -0,0 +1,128 @@
+/**
+ * Rate history tests
+ * Scheduled rate changes join the history on their effective date, and the
+ * account's AER follows the latest rate in force
+ */
+
+import { Database } from 'sqlite3';
+import { RateHistoryService } from '../RateHistoryService';
+import { DepositRateHistoryEntry } from '../../types/PortfolioTypes';
+import { all, closeDatabase, createTestDatabase, insert } from './helpers/testDatabase';
+
+describe('RateHistoryService', () => {
+  let db: Database;
+  let service: RateHistoryService;
+  let accountId: number;
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const rate = (overrides: Partial<DepositRateHistoryEntry>): DepositRateHistoryEntry => ({
+    deposit_id: accountId,
+    aer: 4,
+    effective_from: '2026-01-01',
+    source: 'manual',
+    ...overrides
+  });
+
+  const currentAer = async () =>
+    (await all<{ aer: number }>(db, 'SELECT aer FROM my_deposits WHERE id = ?', [accountId]))[0].aer;
+
+  const history = async () =>
+    all<{ aer: number; effective_from: string; source: string; rate_change_id: number | null }>(
+      db,
+      'SELECT aer, effective_from, source, rate_change_id FROM deposit_rate_history WHERE deposit_id = ? ORDER BY effective_from, id',
+      [accountId]
+    );
+
+  const scheduleChange = (newRate: number, effectiveDate: string, status = 'pending') =>
+    insert(
+      db,
+      `INSERT INTO rate_changes (deposit_id, new_rate, effective_date, notification_source, status)
+       VALUES (?, ?, ?, 'Email', ?)`,
+      [accountId, newRate, effectiveDate, status]
+    );
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['020_deposit_rate_history.sql']);
+    service = new RateHistoryService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 10000, 4)`);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  describe('applyDueRateChanges', () => {
+    test('adds due changes to the history and moves the AER to the latest', async () => {
+      const first = await scheduleChange(4.25, '2026-02-01');
+      const second = await scheduleChange(4.5, '2026-03-01');
+      await scheduleChange(5, '2026-04-01');
+
+      const result = await service.applyDueRateChanges('2026-03-15');
+
+      expect(result).toEqual({ applied: 2, rate_change_ids: [first, second], updated_deposit_ids: [accountId], errors: [] });
+      expect(await history()).toEqual([
+        { aer: 4.25, effective_from: '2026-02-01', source: 'rate_change', rate_change_id: first },
+        { aer: 4.5, effective_from: '2026-03-01', source: 'rate_change', rate_change_id: second }
+      ]);
+      expect(await currentAer()).toBe(4.5);
+      expect((await all<{ status: string }>(db, 'SELECT status FROM rate_changes ORDER BY id')).map(row => row.status))
+        .toEqual(['applied', 'applied', 'pending']);
+    });
+
+    test('leaves changes already applied alone and does nothing the second time', async () => {
+      await scheduleChange(9, '2026-01-01', 'applied');
+      await scheduleChange(4.5, '2026-02-01');
+
+      await service.applyDueRateChanges('2026-03-01');
+      const again = await service.applyDueRateChanges('2026-03-01');
+
+      expect(again).toEqual({ applied: 0, rate_change_ids: [], updated_deposit_ids: [], errors: [] });
+      expect(await history()).toHaveLength(1);
+      expect(await currentAer()).toBe(4.5);
+    });
+
+    test('picks up a rate recorded ahead of its effective date once it is in force', async () => {
+      await service.recordRate(rate({ aer: 4, effective_from: '2026-01-01' }));
+      await service.recordRate(rate({ aer: 5, effective_from: '2099-01-01' }));
+      expect(await currentAer()).toBe(4);
+
+      const result = await service.applyDueRateChanges('2099-01-01');
+
+      expect(result.applied).toBe(0);
+      expect(result.updated_deposit_ids).toEqual([accountId]);
+      expect(await currentAer()).toBe(5);
+    });
+  });
+
+  describe('recordRate and deleteRate', () => {
+    test("keep the account's AER at the latest rate in force", async () => {
+      const earlier = await service.recordRate(rate({ aer: 3.5, effective_from: '2025-06-01', source: 'bank_letter' }));
+      expect(await currentAer()).toBe(3.5);
+
+      const latest = await service.recordRate(rate({ aer: 3.75, effective_from: today }));
+      expect(await currentAer()).toBe(3.75);
+
+      // A back-dated entry is not the latest, so the AER stays put
+      await service.recordRate(rate({ aer: 3, effective_from: '2025-01-01' }));
+      expect(await currentAer()).toBe(3.75);
+
+      expect(await service.deleteRate(latest)).toBe(true);
+      expect(await currentAer()).toBe(3.5);
+
+      expect(await service.deleteRate(earlier)).toBe(true);
+      expect(await currentAer()).toBe(3);
+      expect(await service.deleteRate(earlier)).toBe(false);
+    });
+
+    test.each([
+      [{ aer: NaN }, 'Rate must be a number'],
+      [{ effective_from: 'someday' }, 'Effective date is required'],
+      [{ source: 'rumour' }, 'Unknown rate source: rumour']
+    ] as const)('rejects %p', async (overrides, message) => {
+      await expect(service.recordRate(rate(overrides as Partial<DepositRateHistoryEntry>)))
+        .rejects.toThrow(message);
+      expect(await history()).toEqual([]);
+    });
+  });
+});
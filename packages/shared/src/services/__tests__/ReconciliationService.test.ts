@@ -0,0 +1,167 @@
+/**
+ * Statement matching tests
+ * One-to-one pairing of statement lines with the ledger, the gap the lines
+ * explain, overlap with earlier sessions and applying a result only once
+ */
+
+import { Database } from 'sqlite3';
+import { ReconciliationService } from '../ReconciliationService';
+import { StatementLine } from '../../types/TransactionTypes';
+import { all, closeDatabase, createTestDatabase, insert } from './helpers/testDatabase';
+
+describe('ReconciliationService statement matching', () => {
+  let db: Database;
+  let service: ReconciliationService;
+  let accountId: number;
+
+  const addTransaction = (bankDate: string, amount: number, extra: Record<string, any> = {}) =>
+    insert(
+      db,
+      `INSERT INTO account_transactions (
+         account_id, transaction_date, bank_date, transaction_type, credit, debit, reference,
+         reconciled, reconciliation_session_id, source
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'manual')`,
+      [
+        accountId, bankDate, bankDate, amount > 0 ? 'deposit' : 'withdrawal',
+        amount > 0 ? amount : null, amount < 0 ? -amount : null, extra.reference || null,
+        extra.reconciled ? 1 : 0, extra.sessionId || null
+      ]
+    );
+
+  const addSession = (statementDate: string, statementBalance: number, status = 'in_progress') =>
+    insert(
+      db,
+      `INSERT INTO reconciliation_sessions (account_id, statement_date, statement_balance, status)
+       VALUES (?, ?, ?, ?)`,
+      [accountId, statementDate, statementBalance, status]
+    );
+
+  const line = (lineNumber: number, bankDate: string, amount: number, reference?: string): StatementLine => ({
+    line_number: lineNumber,
+    bank_date: bankDate,
+    amount,
+    description: reference || 'Statement line',
+    reference
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['021_transaction_categorisation_rules.sql']);
+    service = new ReconciliationService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 1000, 4)`);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  it('pairs each ledger transaction with at most one statement line', async () => {
+    await addTransaction('2026-02-03', 50, { reference: 'TFR' });
+    const sessionId = await addSession('2026-02-28', 100);
+
+    const result = await service.matchStatementLines(sessionId, {
+      lines: [line(1, '2026-02-03', 50, 'TFR'), line(2, '2026-02-03', 50, 'TFR')]
+    });
+
+    expect(result.matches.map(match => match.status).sort()).toEqual(['matched', 'missing']);
+    expect(result.proposals.filter(p => p.kind === 'missing_transaction')).toHaveLength(1);
+    expect(result.remaining_gap).toBe(0);
+  });
+
+  it('prefers the closer date and matching reference', async () => {
+    const near = await addTransaction('2026-02-04', 25, { reference: 'ABC123' });
+    await addTransaction('2026-02-07', 25, { reference: 'OTHER' });
+    const sessionId = await addSession('2026-02-28', 50);
+
+    const result = await service.matchStatementLines(sessionId, { lines: [line(1, '2026-02-04', 25, 'ABC123')] });
+
+    expect(result.matches[0].transaction?.id).toBe(near);
+    expect(result.matches[0].confidence).toBe(100);
+    expect(result.unmatched_transactions).toHaveLength(1);
+  });
+
+  it('pairs the line statement import would treat as a duplicate before a closer reference', async () => {
+    const recorded = await addTransaction('2026-02-03', 25, { reference: 'ABC123' });
+    const sessionId = await addSession('2026-02-28', 50);
+
+    const result = await service.matchStatementLines(sessionId, {
+      lines: [line(1, '2026-02-04', 25, 'ABC123'), line(2, '2026-02-03', 25)]
+    });
+
+    expect(result.matches.find(match => match.line.line_number === 2)?.transaction?.id).toBe(recorded);
+    expect(result.matches.find(match => match.line.line_number === 1)?.status).toBe('missing');
+  });
+
+  it('proposes an adjustment for the gap the lines do not explain', async () => {
+    await addTransaction('2026-02-03', 50);
+    const sessionId = await addSession('2026-02-28', 57.5);
+
+    const result = await service.matchStatementLines(sessionId, { lines: [line(1, '2026-02-03', 50)] });
+
+    expect(result.gap).toBe(7.5);
+    expect(result.remaining_gap).toBe(7.5);
+    const adjustment = result.proposals.find(p => p.kind === 'adjustment');
+    expect(adjustment?.transaction.credit).toBe(7.5);
+    expect(adjustment?.accept).toBe(true);
+  });
+
+  it('reports lines reconciled in an earlier session instead of proposing duplicates', async () => {
+    const earlier = await addSession('2026-01-31', 100, 'completed');
+    await addTransaction('2026-01-05', 100, { reference: 'OPEN', reconciled: true, sessionId: earlier });
+    await addTransaction('2026-02-03', 50);
+    const sessionId = await addSession('2026-02-28', 160);
+
+    const result = await service.matchStatementLines(sessionId, {
+      lines: [line(1, '2026-01-05', 100, 'OPEN'), line(2, '2026-02-03', 50), line(3, '2026-02-20', 10)]
+    });
+
+    expect(result.matches.map(match => match.status)).toEqual(['already_reconciled', 'matched', 'missing']);
+    expect(result.matches[0].accept).toBe(false);
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0]).toMatchObject({ kind: 'missing_transaction', line_number: 3 });
+    expect(result.remaining_gap).toBe(0);
+  });
+
+  it('does not apply the same result twice', async () => {
+    await addTransaction('2026-02-03', 50);
+    const sessionId = await addSession('2026-02-28', 60);
+    const result = await service.matchStatementLines(sessionId, {
+      lines: [line(1, '2026-02-03', 50), line(2, '2026-02-20', 10)]
+    });
+
+    const first = await service.applyStatementMatches(sessionId, result);
+    expect(first.success).toBe(true);
+
+    const second = await service.applyStatementMatches(sessionId, result);
+    expect(second.success).toBe(false);
+    expect(second.error).toMatch(/already been applied/);
+
+    const transactions = await all(db, 'SELECT * FROM account_transactions WHERE account_id = ?', [accountId]);
+    expect(transactions).toHaveLength(2);
+    expect(transactions.every(tx => tx.reconciled === 1 && tx.reconciliation_session_id === sessionId)).toBe(true);
+  });
+
+  it('applies a second statement for the session whose line numbers start again', async () => {
+    const sessionId = await addSession('2026-02-28', 35);
+    const first = await service.matchStatementLines(sessionId, { lines: [line(1, '2026-02-03', 20, 'FIRST')] });
+    // The second statement explains the rest of the gap
+    first.proposals = first.proposals.filter(proposal => proposal.kind !== 'adjustment');
+    expect((await service.applyStatementMatches(sessionId, first)).success).toBe(true);
+
+    const second = await service.matchStatementLines(sessionId, { lines: [line(1, '2026-02-20', 15, 'SECOND')] });
+    const applied = await service.applyStatementMatches(sessionId, second);
+
+    expect(applied.success).toBe(true);
+    const references = await all<{ reference: string }>(
+      db, 'SELECT reference FROM account_transactions WHERE account_id = ? ORDER BY id', [accountId]
+    );
+    expect(references.map(row => row.reference)).toEqual(['FIRST', 'SECOND']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Statement import tests
+ * Lines already in the ledger are marked as duplicates in the preview and
+ * checked again on commit, so a preview can only be imported once
+ */
+
+import { Database } from 'sqlite3';
+import { StatementImportService } from '../StatementImportService';
+import { all, closeDatabase, createTestDatabase, insert } from './helpers/testDatabase';
+
+describe('StatementImportService', () => {
+  let db: Database;
+  let service: StatementImportService;
+  let accountId: number;
+
+  const statement = [
+    'Date,Description,Reference,Amount',
+    '03/02/2026,Transfer in,TFR1,50.00',
+    '10/02/2026,Transfer in,TFR2,25.00',
+    '10/02/2026,Transfer in,TFR2,25.00'
+  ].join('\n');
+
+  const countTransactions = async () =>
+    (await all(db, 'SELECT id FROM account_transactions WHERE account_id = ?', [accountId])).length;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['021_transaction_categorisation_rules.sql']);
+    service = new StatementImportService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 0, 4)`);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  it('marks lines the ledger already records, reconciled or not, one line per transaction', async () => {
+    await insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, transaction_type, credit, reference, reconciled)
+       VALUES (?, '2026-02-03', 'deposit', 50, 'TFR1', 1)`,
+      [accountId]
+    );
+    await insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, bank_date, transaction_type, credit)
+       VALUES (?, '2026-02-09', '2026-02-10', 'deposit', 25)`,
+      [accountId]
+    );
+
+    const preview = await service.previewImport({ account_id: accountId, content: statement, file_name: 'statement.csv' });
+
+    expect(preview.rows.map(row => row.status)).toEqual(['duplicate', 'duplicate', 'new']);
+    expect(preview.rows.map(row => row.include)).toEqual([false, false, true]);
+    expect(preview.summary).toMatchObject({ total: 3, new: 1, duplicates: 2, invalid: 0 });
+  });
+
+  it('does not import a preview twice', async () => {
+    const preview = await service.previewImport({ account_id: accountId, content: statement, file_name: 'statement.csv' });
+    const rows = preview.rows.slice(0, 1);
+
+    const first = await service.commitImport(rows);
+    expect(first).toEqual({ imported: 1, skipped: 0, errors: [] });
+
+    const second = await service.commitImport(rows);
+    expect(second.imported).toBe(0);
+    expect(second.skipped).toBe(1);
+    expect(second.errors[0]).toEqual({ field: 'line 2', message: expect.stringMatching(/^Already recorded as transaction \d+$/) });
+    expect(await countTransactions()).toBe(1);
+  });
+
+  it('skips lines recorded since the preview was made', async () => {
+    const preview = await service.previewImport({ account_id: accountId, content: statement, file_name: 'statement.csv' });
+    await insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, bank_date, transaction_type, credit, reference)
+       VALUES (?, '2026-02-03', '2026-02-03', 'deposit', 50, 'TFR1')`,
+      [accountId]
+    );
+
+    const result = await service.commitImport(preview.rows.slice(0, 1));
+
+    expect(result).toMatchObject({ imported: 0, skipped: 1 });
+    expect(await countTransactions()).toBe(1);
+  });
+});
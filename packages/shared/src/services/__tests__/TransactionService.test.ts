@@ -0,0 +1,155 @@
+/**
+ * Bulk transaction operation tests
+ * Transactions that fail their checks are reported and left alone; the rest
+ * change together with one audit entry, or not at all. New transactions are
+ * categorised unless system-generated
+ */
+
+import { Database } from 'sqlite3';
+import { TransactionService } from '../TransactionService';
+import { CategorisationRuleService } from '../CategorisationRuleService';
+import { all, closeDatabase, createTestDatabase, exec, insert } from './helpers/testDatabase';
+
+describe('TransactionService bulk operations', () => {
+  let db: Database;
+  let service: TransactionService;
+  let accountId: number;
+
+  const addTransaction = (amount: number, extra: Record<string, any> = {}) =>
+    insert(
+      db,
+      `INSERT INTO account_transactions (account_id, transaction_date, bank_date, transaction_type, credit, debit, reconciled, source)
+       VALUES (?, '2026-02-03', '2026-02-03', ?, ?, ?, ?, ?)`,
+      [
+        accountId, amount > 0 ? 'deposit' : 'withdrawal', amount > 0 ? amount : null, amount < 0 ? -amount : null,
+        extra.reconciled ? 1 : 0, extra.source || 'manual'
+      ]
+    );
+
+  const transactionIds = async () =>
+    (await all<{ id: number }>(db, 'SELECT id FROM account_transactions ORDER BY id')).map(row => row.id);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['021_transaction_categorisation_rules.sql']);
+    service = new TransactionService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 1000, 4)`);
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  it('deletes the transactions that pass their checks and audits them in one batch entry', async () => {
+    const first = await addTransaction(10);
+    const second = await addTransaction(-5);
+    const reconciled = await addTransaction(20, { reconciled: true });
+    const system = await addTransaction(30, { source: 'system' });
+
+    const result = await service.bulkUpdate({ operation: 'delete', transaction_ids: [first, second, reconciled, system, 999] });
+
+    expect(result.succeeded).toEqual([first, second]);
+    expect(result.failed).toEqual([
+      { transaction_id: 999, error: 'Transaction not found' },
+      { transaction_id: reconciled, error: 'Cannot delete reconciled transaction' },
+      { transaction_id: system, error: 'Cannot delete system-generated transaction' }
+    ]);
+    expect(await transactionIds()).toEqual([reconciled, system]);
+
+    const audit = await all(db, 'SELECT * FROM audit_log WHERE id = ?', [result.audit_log_id]);
+    expect(audit).toHaveLength(1);
+    expect(audit[0]).toMatchObject({ table_name: 'account_transactions', record_id: 0, operation_context: 'BULK_DELETE' });
+    expect(Object.keys(JSON.parse(audit[0].old_value)).map(Number)).toEqual([first, second]);
+    expect(JSON.parse(audit[0].new_value)).toEqual({ [first]: true, [second]: true });
+  });
+
+  it('changes nothing when one statement fails', async () => {
+    const first = await addTransaction(10);
+    const second = await addTransaction(20);
+    await exec(db, `
+      CREATE TRIGGER refuse_second BEFORE UPDATE ON account_transactions WHEN OLD.id = ${second}
+      BEGIN SELECT RAISE(ABORT, 'refused'); END;
+    `);
+
+    await expect(service.bulkUpdate({ operation: 'reconcile', transaction_ids: [first, second] })).rejects.toThrow('refused');
+
+    const rows = await all(db, 'SELECT reconciled FROM account_transactions ORDER BY id');
+    expect(rows).toEqual([{ reconciled: 0 }, { reconciled: 0 }]);
+    expect(await all(db, 'SELECT id FROM audit_log')).toHaveLength(0);
+  });
+
+  it('reclassifies only transactions the type suits', async () => {
+    const credit = await addTransaction(10);
+    const debit = await addTransaction(-5);
+
+    const result = await service.bulkUpdate({
+      operation: 'reclassify', transaction_ids: [credit, debit], transaction_type: 'interest', optional_notes: 'Monthly interest'
+    });
+
+    expect(result.succeeded).toEqual([credit]);
+    expect(result.failed).toEqual([{ transaction_id: debit, error: "'interest' cannot be used for a debit" }]);
+    expect(await all(db, 'SELECT transaction_type, optional_notes FROM account_transactions ORDER BY id')).toEqual([
+      { transaction_type: 'interest', optional_notes: 'Monthly interest' },
+      { transaction_type: 'withdrawal', optional_notes: null }
+    ]);
+  });
+});
+
+describe('TransactionService categorisation on create', () => {
+  let db: Database;
+  let service: TransactionService;
+  let accountId: number;
+
+  const create = (source: 'manual' | 'system') =>
+    service.createTransaction({
+      account_id: accountId,
+      transaction_date: '2026-02-03',
+      bank_date: '2026-02-03',
+      transaction_type: 'deposit',
+      credit: 12.5,
+      reference: 'GROSS INTEREST',
+      source
+    });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    db = await createTestDatabase(['021_transaction_categorisation_rules.sql']);
+    service = new TransactionService(db);
+    accountId = await insert(db, `INSERT INTO my_deposits (bank, balance, aer) VALUES ('Test Bank', 1000, 4)`);
+    await new CategorisationRuleService(db).createRule({
+      name: 'Interest', reference_pattern: 'INTEREST', direction: 'credit', transaction_type: 'interest', priority: 100, is_active: true
+    });
+  });
+
+  afterEach(async () => {
+    await closeDatabase(db);
+  });
+
+  it('applies the rules to a hand-entered transaction', async () => {
+    const response = await create('manual');
+
+    expect(response.success).toBe(true);
+    expect(response.transaction?.transaction_type).toBe('interest');
+  });
+
+  it('leaves a system-generated transaction as it is', async () => {
+    const response = await create('system');
+
+    expect(response.success).toBe(true);
+    expect(response.transaction?.transaction_type).toBe('deposit');
+  });
+});
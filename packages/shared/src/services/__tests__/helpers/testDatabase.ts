@@ -0,0 +1,137 @@
+/**
+ * In-memory database for service tests
+ * Builds only the tables the transaction, reconciliation, rate history and
+ * categorisation services touch, so no fixture database is required
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Database } from 'sqlite3';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../../../data/database/migrations');
+
+const CORE_SCHEMA = `
+  CREATE TABLE my_deposits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bank TEXT NOT NULL,
+    account_name TEXT,
+    type TEXT NOT NULL DEFAULT 'Savings',
+    sub_type TEXT NOT NULL DEFAULT 'Easy Access',
+    balance REAL DEFAULT 0,
+    aer REAL,
+    is_active INTEGER DEFAULT 1,
+    deposit_date DATE,
+    interest_payment_type TEXT,
+    interest_next_payment_date DATE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_updated DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE account_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER NOT NULL,
+    transaction_date DATE NOT NULL,
+    bank_date DATE,
+    value_date DATE,
+    transaction_type TEXT NOT NULL,
+    debit REAL,
+    credit REAL,
+    balance_after REAL,
+    estimated_amount REAL,
+    variance_notes TEXT,
+    reference TEXT,
+    optional_notes TEXT,
+    source TEXT DEFAULT 'manual',
+    reconciled INTEGER DEFAULT 0,
+    reconciled_date DATE,
+    reconciliation_session_id INTEGER,
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE reconciliation_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER NOT NULL,
+    statement_date DATE NOT NULL,
+    statement_balance REAL NOT NULL,
+    calculated_balance REAL,
+    discrepancy REAL,
+    status TEXT DEFAULT 'in_progress',
+    adjustments_made TEXT,
+    notes TEXT,
+    created_by TEXT,
+    completed_at DATETIME,
+    completed_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    table_name TEXT NOT NULL,
+    record_id INTEGER NOT NULL,
+    field_name TEXT,
+    old_value TEXT,
+    new_value TEXT,
+    operation_context TEXT,
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    notes TEXT
+  );
+
+  CREATE TABLE account_documents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER,
+    document_title TEXT
+  );
+
+  CREATE TABLE rate_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deposit_id INTEGER NOT NULL,
+    change_type TEXT,
+    current_rate REAL,
+    new_rate REAL,
+    effective_date DATE,
+    notification_source TEXT,
+    notes TEXT,
+    status TEXT DEFAULT 'pending'
+  );
+`;
+
+export function exec(db: Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => db.exec(sql, err => err ? reject(err) : resolve()));
+}
+
+export function all<T = any>(db: Database, sql: string, params: any[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) =>
+    db.all(sql, params, (err, rows: T[]) => err ? reject(err) : resolve(rows || []))
+  );
+}
+
+export function insert(db: Database, sql: string, params: any[] = []): Promise<number> {
+  return new Promise((resolve, reject) =>
+    db.run(sql, params, function(err) {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(this.lastID);
+      }
+    })
+  );
+}
+
+/**
+ * Open an in-memory database with the core tables and the named migrations
+ */
+export async function createTestDatabase(migrations: string[] = []): Promise<Database> {
+  const db = new Database(':memory:');
+  await exec(db, CORE_SCHEMA);
+  for (const migration of migrations) {
+    await exec(db, fs.readFileSync(path.join(MIGRATIONS_DIR, migration), 'utf8'));
+  }
+  return db;
+}
+
+export function closeDatabase(db: Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close(err => err ? reject(err) : resolve()));
+}
@@ -22,8 +22,30 @@ export interface OptimizationOptions {
   silent?: boolean;
   progress?: boolean;
   excludeShariaBanks?: boolean;
+  excludedProducts?: string[];
+  preferredPlatforms?: string[];
+  minimumBalance?: number;
   minBenefit?: number;
   minMoveAmount?: number;
+  horizonMonths?: number;
+  analyzeOnly?: boolean;
+}
+
+// What-if overlay applied over the current portfolio (optimize-cli --scenario)
+export interface ScenarioOverlay {
+  name?: string;
+  deposits?: Array<{
+    bankName: string;
+    frn: string;
+    amount: number;
+    rate: number;
+    liquidityTier?: string;
+    isISA?: boolean;
+    accountHolders?: string[];
+  }>;
+  withdrawals?: Array<{ accountId: string; amount?: number }>; // Whole balance when amount is omitted
+  rateChanges?: Array<{ frn?: string; bankName?: string; accountId?: string; newRate: number }>;
+  excludedFRNs?: string[];
 }
 
 export interface OptimizationProgress {
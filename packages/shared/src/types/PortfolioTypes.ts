@@ -15,6 +15,11 @@ export interface PortfolioSummary {
   projectedWeightedAverageRate: number;
   pendingDepositCount: number;
   pendingDepositValue: number;
+  // Tax on projected interest (absent when no tax profiles are configured)
+  taxFreeAnnualIncome?: number;
+  taxableAnnualIncome?: number;
+  estimatedAnnualTax?: number;
+  netAnnualIncome?: number;
 }
 
 // Historical Income Tracking Types
@@ -38,6 +43,8 @@ export interface IncomeHistoryPoint {
   projectedIncome: number;
   portfolioValue: number;
   weightedRate: number;
+  rateIncome?: number; // Annual income at the balances and rates in force on the date (ledger + rate history)
+  snapshot?: boolean;  // False when the point is rebuilt from rate history alone
 }
 
 // Portfolio Holdings Types
@@ -55,6 +62,16 @@ export interface PortfolioHolding {
   isActive: boolean;
   canWithdrawImmediately: boolean;
   upcomingMaturity: boolean;
+  depositId?: number;
+  ownerIds?: number[]; // More than one for joint accounts
+}
+
+// Brands trading under one FSCS licence (FRN) share a single limit per person
+export interface FSCSBrandGroup {
+  frn: string;
+  firmName: string;
+  sharedBrands: string[]; // Trading names covered by this FRN's limit
+  separateLicences: Array<{ tradingName: string; frn: string | null }>; // Group brands with their own licence
 }
 
 // Complete Deposit Interface for CRUD Operations
@@ -64,6 +81,7 @@ export interface Deposit {
   type: 'Current' | 'Savings' | '';
   sub_type: 'Easy Access' | 'Notice' | 'Term' | 'n/a' | '';
   is_isa: boolean;
+  is_flexible_isa?: boolean; // Withdrawals can be replaced in the same tax year
   platform?: string;
   frn?: string;
   account_name?: string;
@@ -84,10 +102,126 @@ export interface Deposit {
   earliest_withdrawal_date?: string;
   is_active: boolean;
   notes?: string;
+  owner_ids?: number[]; // Account owners (more than one for joint accounts)
   last_updated?: string;
   created_at?: string;
 }
 
+// Household Owner Types
+export interface AccountOwner {
+  id?: number;
+  name: string;
+  is_primary?: boolean;
+  notes?: string | null;
+  is_active?: boolean;
+  created_at?: string;
+  updated_at?: string;
+  // Aggregated fields
+  account_count?: number;
+  owned_balance?: number; // Joint balances split equally between owners
+}
+
+// Savings Tax Types
+export type TaxBand = 'non_taxpayer' | 'basic' | 'higher' | 'additional';
+
+export interface OwnerTaxProfile {
+  owner_id: number;
+  owner_name?: string;
+  tax_band: TaxBand;
+  personal_savings_allowance?: number | null; // Override; null uses the allowance for the band
+  starting_rate_band?: number; // Unused starting rate for savings
+  notes?: string | null;
+  updated_at?: string;
+  // Resolved from the tax configuration
+  effective_allowance?: number; // Personal Savings Allowance plus starting rate band
+  tax_rate?: number; // Percentage charged on interest above the allowance
+}
+
+export interface OwnerInterestTax {
+  owner_id: number;
+  owner_name: string;
+  tax_band: TaxBand;
+  gross_interest: number;
+  isa_interest: number;
+  allowance_used: number;
+  tax_free_interest: number; // ISA interest plus interest covered by the allowance
+  taxable_interest: number; // Interest above the allowance
+  estimated_tax: number;
+  net_interest: number;
+}
+
+export interface InterestTaxSummary {
+  basis: 'projected' | 'received';
+  tax_year: string; // e.g. 2026/27
+  start_date: string;
+  end_date: string;
+  owners: OwnerInterestTax[];
+  // Household totals
+  gross_interest: number;
+  tax_free_interest: number;
+  taxable_interest: number;
+  estimated_tax: number;
+  net_interest: number;
+}
+
+// ISA Subscription Allowance Types
+export type IsaAllowanceEntryType =
+  | 'subscription'        // Paid in from outside an ISA - uses allowance
+  | 'transfer_in'         // Moved in from another ISA - no allowance used
+  | 'flexible_withdrawal' // Can be replaced in the same tax year
+  | 'withdrawal'
+  | 'transfer_out';
+
+export interface IsaAllowanceEntry {
+  transaction_id: number;
+  account_id: number;
+  bank: string;
+  owner_id: number;
+  bank_date: string;
+  entry_type: IsaAllowanceEntryType;
+  amount: number; // Owner's share
+}
+
+export interface OwnerIsaAllowance {
+  owner_id: number;
+  owner_name: string;
+  subscribed: number;
+  replaced: number; // Subscriptions replacing flexible ISA withdrawals
+  allowance_used: number;
+  pending_subscriptions: number; // Pending moves into an ISA not yet executed
+  remaining: number;
+}
+
+export interface IsaAllowanceLedger {
+  tax_year: string;
+  start_date: string;
+  end_date: string;
+  annual_allowance: number;
+  owners: OwnerIsaAllowance[];
+  entries: IsaAllowanceEntry[];
+}
+
+export interface IsaAllowanceCheckRequest {
+  amount?: number;
+  is_isa?: boolean;
+  source_account_id?: number | null;
+  destination_account_id?: number | null;
+  owner_ids?: number[];
+  pending_deposit_id?: number; // Check an existing pending move (other fields default from it)
+  date?: string;
+}
+
+export interface IsaAllowanceCheck {
+  consumes_allowance: boolean;
+  is_transfer: boolean; // ISA to ISA transfer - no allowance used
+  tax_year: string;
+  amount: number;
+  remaining: number; // Before this payment, for the owner with least allowance left
+  exceeds: boolean;
+  excess: number;
+  owner_name?: string;
+}
+
 // Strategic Allocation Types
 export interface AllocationAnalysis {
   liquidityTier: number;
@@ -207,6 +341,38 @@ export interface RateChange {
   created_at?: string;
 }
 
+// Deposit Rate History Types
+export type DepositRateSource = 'bank_letter' | 'document' | 'manual' | 'rate_change';
+
+export interface DepositRateHistoryEntry {
+  id?: number;
+  deposit_id: number;
+  aer: number;
+  effective_from: string;
+  source: DepositRateSource;
+  document_id?: number | null;    // Uploaded letter or statement confirming the rate
+  rate_change_id?: number | null; // Rate change this entry applied
+  notes?: string | null;
+  created_at?: string;
+  // Joined fields
+  document_title?: string | null;
+}
+
+export interface AppliedRateChangesResult {
+  applied: number;
+  rate_change_ids: number[];
+  updated_deposit_ids: number[]; // Accounts whose AER moved to a rate now in force
+  errors: string[];
+}
+
+// Portfolio income on a past date, rebuilt from the ledger and rate history
+export interface HistoricalIncomePoint {
+  date: string;
+  annualIncome: number;
+  portfolioValue: number;
+  weightedRate: number;
+}
+
 export interface NoticeEvent {
   id?: number;
   deposit_id: number;
@@ -218,6 +384,36 @@ export interface NoticeEvent {
   created_at?: string;
 }
 
+export type TemporaryHighBalanceReason =
+  | 'property_sale'
+  | 'inheritance'
+  | 'insurance_payout'
+  | 'compensation'
+  | 'pension_lump_sum'
+  | 'redundancy'
+  | 'marriage_divorce'
+  | 'other';
+
+export interface TemporaryHighBalance {
+  id?: number;
+  deposit_id?: number | null;
+  pending_deposit_id?: number | null;
+  reason: TemporaryHighBalanceReason;
+  start_date: string;
+  expiry_date?: string; // Defaults to start_date + thb_protection_months
+  protected_amount: number;
+  notes?: string | null;
+  is_active?: boolean;
+  expiry_reminder_id?: number | null;
+  created_at?: string;
+  updated_at?: string;
+  // Joined fields
+  bank?: string;
+  account_name?: string | null;
+  balance?: number;
+  days_remaining?: number;
+}
+
 export interface Reminder {
   id?: number;
   deposit_id?: number | null;
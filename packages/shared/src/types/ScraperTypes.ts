@@ -111,4 +111,93 @@ export interface TriggerScraperResponse {
 export interface ScraperStatusResponse {
   processes: ScrapingProcess[];
   stats: ScraperStats;
-}
\ No newline at end of file
+}
+
+// Market history (product_history, product_rate_changes, market_rate_snapshots)
+export interface MarketProduct {
+  id: number;
+  business_key: string;
+  platform: string;
+  bank_name: string;
+  frn: string | null;
+  account_type: string | null;
+  term_months: number | null;
+  notice_period_days: number | null;
+  current_rate: number;
+  first_seen: string;
+  last_seen: string;
+  withdrawn_on: string | null;
+  previous_rate?: number | null;  // Rate before the latest change, when listing rate changes
+  change_date?: string;
+}
+
+export interface ProductRateChange {
+  id: number;
+  product_history_id: number;
+  change_date: string;
+  previous_rate: number | null;  // NULL for the first listing
+  new_rate: number;
+}
+
+export interface MarketRateSnapshot {
+  snapshot_date: string;
+  account_type: string;
+  best_rate: number;
+  average_rate: number;
+  product_count: number;
+}
+
+export interface MarketHistorySummary {
+  newToMarket: MarketProduct[];
+  withdrawn: MarketProduct[];
+  rateChanges: MarketProduct[];
+  bestBuyTrend: MarketRateSnapshot[];
+}
+
+// Pipeline dry run: a run's final products compared with available_products
+export interface ProductDiffEntry {
+  businessKey: string;
+  platform: string;
+  bankName: string;
+  accountType: string;
+  termMonths: number | null;
+  noticePeriodDays: number | null;
+  aerRate: number;               // Staged rate, or the live rate for removed products
+  previousRate?: number;         // Live rate, for rate changes
+  frn: string | null;
+  previousFrn?: string | null;   // Live FRN, for FRN changes
+}
+
+export interface ProductDiff {
+  liveCount: number;
+  stagedCount: number;
+  unchanged: number;
+  added: ProductDiffEntry[];
+  removed: ProductDiffEntry[];
+  rateUp: ProductDiffEntry[];
+  rateDown: ProductDiffEntry[];
+  frnChanged: ProductDiffEntry[];  // May also appear under a rate change
+}
+
+// A dry run's result, held until it is committed or discarded
+export interface StagedPipelineRun {
+  batchId: string;
+  stagedAt: Date;
+  inputFiles: string[];
+  productCount: number;
+  diff: ProductDiff;
+}
+
+// Freshness of one scraper source in the merged product set
+export interface PipelineSourceStatus {
+  source: string;
+  platforms: string[];
+  lastBatchId: string | null;
+  lastIngestedAt: string | null;
+  lastScrapeDate: string | null;
+  rawProductCount: number;
+  finalProductCount: number;
+  carriedForward: boolean; // Kept from available_products with no raw products to rebuild from
+  ageHours: number | null;
+  stale: boolean;
+}
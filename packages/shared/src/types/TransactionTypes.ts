@@ -130,6 +130,13 @@ export interface ReconciliationWizardState {
 export type InterestPaymentType = 'Monthly' | 'Quarterly' | 'Annually' | 'Fixed_Date' | 'At_Maturity';
 export type InterestPaymentDestination = 'Same_Account' | 'Other_Account_Same_Bank' | 'Designated_Account';
 
+// How often accrued interest is added to the balance it earns on; At_Payment
+// compounds only when interest is paid
+export type InterestCompounding = 'Daily' | 'Monthly' | 'Quarterly' | 'Annually' | 'At_Payment';
+
+// Day-count basis dividing the annual rate into daily accruals
+export type InterestDayCount = 'ACT/365' | 'ACT/ACT' | 'ACT/360';
+
 export interface InterestConfiguration {
   // Payment schedule
   interest_payment_type?: InterestPaymentType;
@@ -141,6 +148,38 @@ export interface InterestConfiguration {
   interest_payment_destination?: InterestPaymentDestination;
   interest_payment_account_id?: number;   // For Other_Account_Same_Bank
   designated_account_id?: number;         // For Designated_Account
+
+  // Accrual
+  interest_compounding?: InterestCompounding;  // Default At_Payment
+  interest_day_count?: InterestDayCount;        // Default ACT/365
+}
+
+// AER in force over part of an accrual period
+export interface InterestRatePeriod {
+  start_date: string;
+  end_date: string;                       // Exclusive
+  aer: number;
+}
+
+export interface InterestAccrualDay {
+  date: string;
+  balance: number;                        // End-of-day ledger balance plus interest compounded so far
+  aer: number;
+  interest: number;
+}
+
+// Interest expected over a period from the daily ledger balance and dated rates
+export interface InterestAccrual {
+  account_id: number;
+  period_start: string;
+  period_end: string;                     // Exclusive; the payment date
+  days: number;
+  compounding: InterestCompounding;
+  day_count: InterestDayCount;
+  average_balance: number;
+  expected_interest: number;
+  rate_periods: InterestRatePeriod[];
+  daily: InterestAccrualDay[];
 }
 
 export interface InterestPaymentAnalysis {
@@ -153,7 +192,18 @@ export interface InterestPaymentAnalysis {
   variance?: number;
   variance_percentage?: number;
   variance_notes?: string;
-  current_rate: number;
+  current_rate: number;                   // AER in force at the payment date
+}
+
+export type MissedInterestStatus = 'missed' | 'short';
+
+// Missed-payment check for an account whose interest is overdue or arrived
+// well short of the accrual
+export interface MissedInterestPayment {
+  days_overdue: number;
+  status: MissedInterestStatus;
+  expected_amount: number;
+  received_amount: number;
 }
 
 export interface InterestVarianceAnalysis {
@@ -178,6 +228,7 @@ export interface InterestEventConfig {
   include_maturity: boolean;
   days_before: number;
   missed_payment_alert_days: number;
+  thb_expiry_days_before: number;
 }
 
 export interface InterestPaymentEvent {
@@ -263,6 +314,145 @@ export interface TransactionImportResult {
   errors: TransactionValidationError[];
 }
 
+// ============================================
+// STATEMENT IMPORT TYPES
+// ============================================
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of day, month and year in statement dates that are not ISO
+export type StatementDateOrder = 'DMY' | 'MDY';
+
+// Column mapping for one bank's CSV export (headings matched case-insensitively)
+export interface StatementCsvProfile {
+  id: string;
+  name: string;
+  date_column: string;
+  date_order?: StatementDateOrder;  // Default DMY
+  description_column: string;
+  reference_column?: string;
+  amount_column?: string;           // Signed amount, money in positive
+  credit_column?: string;           // Or separate paid in / paid out columns
+  debit_column?: string;
+  balance_column?: string;
+}
+
+// One line read from a statement, before it becomes a transaction
+export interface StatementLine {
+  line_number: number;
+  bank_date: string;                // ISO date
+  amount: number;                   // Money in positive, money out negative
+  description: string;
+  reference?: string;
+  balance_after?: number;
+}
+
+export type StatementImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface StatementImportRow {
+  line: StatementLine;
+  transaction: Partial<Transaction>;
+  status: StatementImportRowStatus;
+  duplicate_of?: number;            // Existing transaction the line matches
+  detected_interest: boolean;
+  rule_name?: string;               // Categorisation rule that set the type or notes
+  include: boolean;                 // Imported on commit; the user can untick new rows
+  errors: TransactionValidationError[];
+}
+
+export interface StatementImportRequest {
+  account_id: number;
+  content: string;
+  file_name?: string;
+  format?: StatementFormat;         // Detected from content and file name when omitted
+  profile_id?: string;              // CSV profile; detected from the headings when omitted
+  profile?: StatementCsvProfile;    // Custom CSV mapping, used instead of profile_id
+  date_order?: StatementDateOrder;  // For QIF dates
+}
+
+export interface StatementImportPreview {
+  account_id: number;
+  format: StatementFormat;
+  profile_id?: string;
+  rows: StatementImportRow[];
+  parse_errors: TransactionValidationError[];
+  summary: {
+    total: number;
+    new: number;
+    duplicates: number;
+    invalid: number;
+    interest: number;
+  };
+}
+
+// ============================================
+// STATEMENT RECONCILIATION TYPES
+// ============================================
+
+// Statement lines for a reconciliation session: a statement file, pasted
+// rows (with their heading row) or lines already read
+export interface StatementReconciliationRequest {
+  content?: string;
+  file_name?: string;
+  format?: StatementFormat;
+  profile_id?: string;
+  date_order?: StatementDateOrder;
+  lines?: StatementLine[];          // Used instead of content
+  date_window_days?: number;        // Default 4
+  amount_tolerance?: number;        // Default 0.01
+}
+
+// already_reconciled: paired with a transaction reconciled in an earlier session
+export type StatementLineMatchStatus = 'matched' | 'already_reconciled' | 'missing';
+
+export interface StatementLineMatch {
+  line: StatementLine;
+  status: StatementLineMatchStatus;
+  transaction?: Transaction;        // Ledger transaction the line is paired with
+  confidence: number;               // 0-100
+  date_difference?: number;         // Days between ledger and statement bank dates
+  reference_similarity?: number;    // 0-1
+  accept: boolean;                  // Reconciled on apply; the user can untick matches
+}
+
+export type ReconciliationProposalKind = 'missing_transaction' | 'adjustment';
+
+export interface ReconciliationProposal {
+  kind: ReconciliationProposalKind;
+  line_number?: number;             // Statement line a missing transaction comes from
+  transaction: Partial<Transaction>;
+  reason: string;
+  accept: boolean;
+}
+
+export interface StatementReconciliationResult {
+  session_id: number;
+  format?: StatementFormat;
+  matches: StatementLineMatch[];
+  unmatched_transactions: Transaction[];  // Ledger transactions in the statement period with no line
+  proposals: ReconciliationProposal[];
+  parse_errors: TransactionValidationError[];
+  statement_balance: number;
+  ledger_balance: number;           // At the statement date, before any proposal
+  gap: number;                      // Statement balance less ledger balance
+  remaining_gap: number;            // Gap the statement lines do not explain
+}
+
+export type ReconciliationDecisionType = 'matched' | 'created' | 'adjustment' | 'unmatched';
+
+// One entry of a session's adjustments_made log
+export interface ReconciliationDecision {
+  decision: ReconciliationDecisionType;
+  transaction_id?: number;
+  line_number?: number;
+  bank_date?: string;
+  amount: number;                   // Money in positive, money out negative
+  reference?: string;               // Statement line reference, part of the line's identity
+  confidence?: number;
+  notes?: string;
+  decided_at: string;
+}
+
 // Helper function to determine if a transaction is a debit or credit
 export function isDebitTransaction(type: TransactionType): boolean {
   return ['withdrawal', 'fee'].includes(type);
@@ -320,4 +510,56 @@ export function formatPaymentDestination(destination?: InterestPaymentDestinatio
     'Designated_Account': 'Designated Current Account'
   };
   return destMap[destination] || destination;
-}
\ No newline at end of file
+}
+
+// ============================================
+// BULK OPERATION TYPES
+// ============================================
+
+export type BulkTransactionOperation = 'reclassify' | 'reconcile' | 'unreconcile' | 'delete';
+
+export interface BulkTransactionRequest {
+  operation: BulkTransactionOperation;
+  transaction_ids: number[];
+  transaction_type?: TransactionType;   // Required to reclassify
+  optional_notes?: string;              // Replaces the notes when reclassifying
+  reconciliation_session_id?: number;   // Session the transactions are reconciled in
+}
+
+export interface BulkTransactionResult {
+  operation: BulkTransactionOperation;
+  requested: number;
+  succeeded: number[];                  // Transaction ids changed
+  failed: { transaction_id: number; error: string }[];
+  audit_log_id?: number;                // The one audit entry recording the batch
+}
+
+// ============================================
+// CATEGORISATION RULE TYPES
+// ============================================
+
+export type CategorisationRuleDirection = 'credit' | 'debit';
+
+// Assigns a type and notes to new transactions matching every condition set;
+// rules are tried in priority order (lowest first) and the first match wins
+export interface TransactionCategorisationRule {
+  id?: number;
+  name: string;
+  account_id?: number | null;           // Any account when unset
+  reference_pattern?: string | null;    // Regex tested against the reference and notes
+  min_amount?: number | null;           // Amount range, inclusive, unsigned
+  max_amount?: number | null;
+  direction?: CategorisationRuleDirection | null;
+  transaction_type?: TransactionType | null;
+  notes?: string | null;
+  priority: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CategorisationResult {
+  transaction: Partial<Transaction>;
+  rule?: { id: number; name: string };
+  warnings: string[];                   // e.g. a rule type the account does not allow
+}
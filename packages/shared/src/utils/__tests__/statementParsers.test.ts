@@ -0,0 +1,207 @@
+/**
+ * Tests for the bank statement parsers
+ */
+
+import {
+  detectStatementFormat,
+  isSameTransaction,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  parseStatementAmount,
+  parseStatementDate
+} from '../statementParsers';
+
+describe('statementParsers', () => {
+  describe('parseCsvStatement', () => {
+    test('detects the profile from the headings and skips rows before them', () => {
+      const content = [
+        'Account Name:,Flex Saver',
+        'Account Balance:,£1,250.00',
+        '',
+        'Date,Description,Paid in,Paid out,Balance',
+        '05 Jan 2026,Interest,£2.50,,£1250.00',
+        '06/01/2026,Transfer out,,£100.00,£1150.00'
+      ].join('\n');
+
+      const result = parseCsvStatement(content);
+
+      expect(result.profile_id).toBe('nationwide');
+      expect(result.errors).toEqual([]);
+      expect(result.lines).toEqual([
+        { line_number: 5, bank_date: '2026-01-05', amount: 2.5, description: 'Interest', reference: undefined, balance_after: 1250 },
+        { line_number: 6, bank_date: '2026-01-06', amount: -100, description: 'Transfer out', reference: undefined, balance_after: 1150 }
+      ]);
+    });
+
+    test('reads signed amounts, references and quoted fields', () => {
+      const content = [
+        'Date,Counter Party,Reference,Type,Amount (GBP),Balance (GBP)',
+        '2026-02-01,"Smith, J",RENT,FASTER PAYMENT,-450.00,1000.00'
+      ].join('\n');
+
+      const result = parseCsvStatement(content);
+
+      expect(result.profile_id).toBe('starling');
+      expect(result.lines[0]).toMatchObject({ amount: -450, description: 'Smith, J', reference: 'RENT', balance_after: 1000 });
+    });
+
+    test('reads tab separated rows pasted from a web page', () => {
+      const result = parseCsvStatement('Date\tDescription\tAmount\n01/03/2026\tDeposit\t25.00');
+
+      expect(result.profile_id).toBe('generic');
+      expect(result.lines).toEqual([expect.objectContaining({ bank_date: '2026-03-01', amount: 25, description: 'Deposit' })]);
+    });
+
+    test('reports lines with an unreadable date or no amount and keeps the rest', () => {
+      const content = 'Date,Description,Amount\nyesterday,Bad date,10.00\n02/03/2026,No amount,\n03/03/2026,Good,5.00';
+
+      const result = parseCsvStatement(content);
+
+      expect(result.lines).toHaveLength(1);
+      expect(result.errors).toEqual([
+        { field: 'line 2', message: "Unrecognised date 'yesterday'" },
+        { field: 'line 3', message: 'Missing or zero amount' }
+      ]);
+    });
+
+    test('uses a custom profile when given one', () => {
+      const profile = {
+        id: 'custom', name: 'Custom', date_column: 'Posted', description_column: 'Details',
+        amount_column: 'Value', date_order: 'MDY' as const
+      };
+
+      const result = parseCsvStatement('Posted,Details,Value\n03/01/2026,Deposit,10', profile);
+
+      expect(result.profile_id).toBe('custom');
+      expect(result.lines[0].bank_date).toBe('2026-03-01');
+    });
+
+    test('reports a file whose headings match no profile', () => {
+      const result = parseCsvStatement('When,What,How much\n01/01/2026,Deposit,10');
+
+      expect(result.lines).toEqual([]);
+      expect(result.errors[0].field).toBe('file');
+    });
+  });
+
+  describe('parseOfxStatement', () => {
+    test('reads unclosed SGML tags and uses FITID as the reference', () => {
+      const content = [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260131120000<TRNAMT>12.34<FITID>ABC1<NAME>Interest<MEMO>Gross',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260201<TRNAMT>-50.00<FITID>ABC2<NAME>Transfer',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+      ].join('\n');
+
+      const result = parseOfxStatement(content);
+
+      expect(result.errors).toEqual([]);
+      expect(result.lines).toEqual([
+        { line_number: 1, bank_date: '2026-01-31', amount: 12.34, description: 'Interest - Gross', reference: 'ABC1' },
+        { line_number: 2, bank_date: '2026-02-01', amount: -50, description: 'Transfer', reference: 'ABC2' }
+      ]);
+    });
+
+    test('reports a file with no transactions', () => {
+      expect(parseOfxStatement('<OFX></OFX>').errors).toEqual([
+        { field: 'file', message: 'No transactions (STMTTRN) found in OFX file' }
+      ]);
+    });
+  });
+
+  describe('parseQifStatement', () => {
+    test('reads records in the given date order and ignores split lines', () => {
+      const content = [
+        '!Type:Bank',
+        "D01/31'26",
+        'T-20.00',
+        'PCoffee Shop',
+        'N1001',
+        'SFood',
+        '$-20.00',
+        '^',
+        'D02/01/2026',
+        'U1,000.00',
+        'MSalary',
+        '^'
+      ].join('\n');
+
+      const result = parseQifStatement(content, 'MDY');
+
+      expect(result.lines).toEqual([
+        { line_number: 1, bank_date: '2026-01-31', amount: -20, description: 'Coffee Shop', reference: '1001' },
+        { line_number: 2, bank_date: '2026-02-01', amount: 1000, description: 'Salary', reference: undefined }
+      ]);
+    });
+
+    test('reports records without a valid date or amount', () => {
+      const result = parseQifStatement('!Type:Bank\nD31/02/2026\nT10.00\n^');
+
+      expect(result.lines).toEqual([]);
+      expect(result.errors).toHaveLength(1);
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    test.each([
+      ['2026-01-05', 'DMY', '2026-01-05'],
+      ['20260105', 'DMY', '2026-01-05'],
+      ['05/01/2026', 'DMY', '2026-01-05'],
+      ['05/01/2026', 'MDY', '2026-05-01'],
+      ['5.1.26', 'DMY', '2026-01-05'],
+      ['5 January 2026', 'DMY', '2026-01-05'],
+      ['05-Jan-26', 'DMY', '2026-01-05']
+    ] as const)('reads %s (%s)', (text, order, expected) => {
+      expect(parseStatementDate(text, order)).toBe(expected);
+    });
+
+    test.each(['31/02/2026', '13/13/2026', 'not a date', ''])('rejects %p', text => {
+      expect(parseStatementDate(text)).toBeNull();
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    test.each([
+      ['£1,234.56', 1234.56],
+      ['-12.00', -12],
+      ['(12.00)', -12],
+      ['12.00 DR', -12],
+      ['12.00 CR', 12],
+      ['+0.105', 0.11]
+    ])('reads %s', (text, expected) => {
+      expect(parseStatementAmount(text)).toBe(expected);
+    });
+
+    test.each(['', 'abc', '12.00.00'])('rejects %p', text => {
+      expect(parseStatementAmount(text)).toBeNull();
+    });
+  });
+
+  describe('detectStatementFormat', () => {
+    test('prefers the file extension, then the content', () => {
+      expect(detectStatementFormat('<OFX>', 'statement.csv')).toBe('csv');
+      expect(detectStatementFormat('', 'statement.QFX')).toBe('ofx');
+      expect(detectStatementFormat('  OFXHEADER:100')).toBe('ofx');
+      expect(detectStatementFormat('!Type:Bank\n')).toBe('qif');
+      expect(detectStatementFormat('Date,Amount')).toBe('csv');
+    });
+  });
+
+  describe('isSameTransaction', () => {
+    const line = { line_number: 1, bank_date: '2026-02-03', amount: -50, description: 'Transfer', reference: 'TFR1' };
+
+    test('matches the same date and amount, and the reference when both have one', () => {
+      expect(isSameTransaction({ bank_date: '2026-02-03', debit: 50, reference: 'TFR1' }, line)).toBe(true);
+      expect(isSameTransaction({ bank_date: '2026-02-03', debit: 50 }, line)).toBe(true);
+      expect(isSameTransaction({ bank_date: '2026-02-03', debit: 50, reference: 'OTHER' }, line)).toBe(false);
+      expect(isSameTransaction({ bank_date: '2026-02-04', debit: 50 }, line)).toBe(false);
+      expect(isSameTransaction({ bank_date: '2026-02-03', credit: 50 }, line)).toBe(false);
+    });
+
+    test('uses the transaction date when there is no bank date', () => {
+      expect(isSameTransaction({ transaction_date: '2026-02-03', debit: 50 }, line)).toBe(true);
+    });
+  });
+});
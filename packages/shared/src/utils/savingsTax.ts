@@ -0,0 +1,60 @@
+/**
+ * UK savings tax helpers
+ * ISA interest is always tax free; other interest is tax free up to the
+ * Personal Savings Allowance (plus any unused starting rate for savings)
+ * and taxed at the owner's marginal rate above it
+ */
+
+import { TaxBand } from '../types/PortfolioTypes';
+
+export interface SavingsTaxBandRates {
+  allowance: number; // Personal Savings Allowance
+  rate: number; // Percentage
+}
+
+export const TAX_BANDS: TaxBand[] = ['non_taxpayer', 'basic', 'higher', 'additional'];
+
+export const DEFAULT_SAVINGS_TAX_BANDS: Record<TaxBand, SavingsTaxBandRates> = {
+  non_taxpayer: { allowance: 0, rate: 0 },
+  basic: { allowance: 1000, rate: 20 },
+  higher: { allowance: 500, rate: 40 },
+  additional: { allowance: 0, rate: 45 },
+};
+
+export interface SavingsTaxResult {
+  allowanceUsed: number;
+  taxableInterest: number;
+  tax: number;
+}
+
+export interface TaxYear {
+  label: string; // e.g. 2026/27
+  startDate: string; // 6 April
+  endDate: string; // 5 April the following year
+}
+
+/**
+ * Tax on a year's non-ISA interest given the tax-free allowance available
+ */
+export const calculateSavingsTax = (interest: number, allowance: number, rate: number): SavingsTaxResult => {
+  const allowanceUsed = Math.min(Math.max(interest, 0), Math.max(allowance, 0));
+  const taxableInterest = Math.max(interest - allowanceUsed, 0);
+  return {
+    allowanceUsed,
+    taxableInterest,
+    tax: taxableInterest * rate / 100,
+  };
+};
+
+/**
+ * The UK tax year (6 April to 5 April) containing a date
+ */
+export const getTaxYear = (date: Date = new Date()): TaxYear => {
+  const beforeStart = date.getMonth() < 3 || (date.getMonth() === 3 && date.getDate() < 6);
+  const startYear = beforeStart ? date.getFullYear() - 1 : date.getFullYear();
+  return {
+    label: `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`,
+    startDate: `${startYear}-04-06`,
+    endDate: `${startYear + 1}-04-05`,
+  };
+};
@@ -0,0 +1,415 @@
+/**
+ * Bank statement parsers
+ * Read CSV exports (through a per-bank column profile), OFX and QIF files into statement lines
+ */
+
+import {
+  StatementCsvProfile,
+  StatementDateOrder,
+  StatementFormat,
+  StatementLine,
+  Transaction,
+  TransactionType,
+  TransactionValidationError
+} from '../types/TransactionTypes';
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  profile_id?: string;
+  lines: StatementLine[];
+  errors: TransactionValidationError[];
+}
+
+/**
+ * Column profiles for the CSV exports of common UK banks
+ * The generic profile covers exports with Date / Description / Amount headings
+ */
+export const STATEMENT_CSV_PROFILES: StatementCsvProfile[] = [
+  {
+    id: 'nationwide',
+    name: 'Nationwide',
+    date_column: 'Date',
+    description_column: 'Description',
+    credit_column: 'Paid in',
+    debit_column: 'Paid out',
+    balance_column: 'Balance'
+  },
+  {
+    id: 'starling',
+    name: 'Starling',
+    date_column: 'Date',
+    description_column: 'Counter Party',
+    reference_column: 'Reference',
+    amount_column: 'Amount (GBP)',
+    balance_column: 'Balance (GBP)'
+  },
+  {
+    id: 'monzo',
+    name: 'Monzo',
+    date_column: 'Date',
+    description_column: 'Name',
+    reference_column: 'Transaction ID',
+    amount_column: 'Amount'
+  },
+  {
+    id: 'barclays',
+    name: 'Barclays',
+    date_column: 'Date',
+    description_column: 'Memo',
+    reference_column: 'Number',
+    amount_column: 'Amount'
+  },
+  {
+    id: 'generic',
+    name: 'Generic (Date, Description, Amount)',
+    date_column: 'Date',
+    description_column: 'Description',
+    reference_column: 'Reference',
+    amount_column: 'Amount',
+    balance_column: 'Balance'
+  }
+];
+
+/**
+ * Detect the statement format from the file name, then the content
+ */
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const start = content.trimStart().slice(0, 500).toUpperCase();
+  if (start.includes('<OFX>') || start.startsWith('OFXHEADER')) return 'ofx';
+  if (start.startsWith('!TYPE:')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Parse statement content in the given format
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  options: { profile?: StatementCsvProfile; profileId?: string; dateOrder?: StatementDateOrder } = {}
+): ParsedStatement {
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'qif':
+      return parseQifStatement(content, options.dateOrder);
+    default:
+      return parseCsvStatement(content, options.profile ?? STATEMENT_CSV_PROFILES.find(p => p.id === options.profileId));
+  }
+}
+
+/**
+ * Parse a CSV export; without a profile, the first whose headings are present is used
+ * Rows before the heading row (account details some banks export) are skipped
+ */
+export function parseCsvStatement(content: string, profile?: StatementCsvProfile): ParsedStatement {
+  const rows = parseCsvRows(content);
+  const candidates = profile ? [profile] : STATEMENT_CSV_PROFILES;
+
+  for (const candidate of candidates) {
+    const headerIndex = rows.slice(0, 20).findIndex(row => findColumns(row, candidate) !== null);
+    if (headerIndex === -1) continue;
+
+    const columns = findColumns(rows[headerIndex], candidate)!;
+    const lines: StatementLine[] = [];
+    const errors: TransactionValidationError[] = [];
+
+    rows.slice(headerIndex + 1).forEach((row, index) => {
+      // Blank rows are kept by parseCsvRows so line numbers match the file
+      if (row.every(cell => cell.trim() === '')) return;
+      const lineNumber = headerIndex + index + 2;
+      const cell = (column: number | undefined) => (column === undefined ? '' : (row[column] ?? '').trim());
+
+      const bankDate = parseStatementDate(cell(columns.date), candidate.date_order);
+      let amount: number | null = null;
+      if (columns.amount !== undefined) {
+        amount = parseStatementAmount(cell(columns.amount));
+      } else {
+        const credit = parseStatementAmount(cell(columns.credit)) ?? 0;
+        const debit = parseStatementAmount(cell(columns.debit)) ?? 0;
+        amount = credit || debit ? Math.abs(credit) - Math.abs(debit) : null;
+      }
+
+      if (!bankDate) {
+        errors.push({ field: `line ${lineNumber}`, message: `Unrecognised date '${cell(columns.date)}'` });
+        return;
+      }
+      if (amount === null || amount === 0) {
+        errors.push({ field: `line ${lineNumber}`, message: 'Missing or zero amount' });
+        return;
+      }
+
+      lines.push({
+        line_number: lineNumber,
+        bank_date: bankDate,
+        amount,
+        description: cell(columns.description),
+        reference: cell(columns.reference) || undefined,
+        balance_after: parseStatementAmount(cell(columns.balance)) ?? undefined
+      });
+    });
+
+    return { format: 'csv', profile_id: candidate.id, lines, errors };
+  }
+
+  const wanted = profile ? `${profile.date_column}, ${profile.description_column}` : 'Date, Description, Amount';
+  return {
+    format: 'csv',
+    lines: [],
+    errors: [{ field: 'file', message: `No heading row matches a statement profile (expected columns such as ${wanted})` }]
+  };
+}
+
+/**
+ * Parse an OFX/QFX file (SGML or XML); each STMTTRN is a line, FITID its reference
+ */
+export function parseOfxStatement(content: string): ParsedStatement {
+  const lines: StatementLine[] = [];
+  const errors: TransactionValidationError[] = [];
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  blocks.forEach((block, index) => {
+    // SGML OFX leaves tags unclosed, so read each value up to the next tag or line end
+    const tag = (name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+    const posted = tag('DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = parseStatementAmount(tag('TRNAMT'));
+
+    if (!posted || amount === null || amount === 0) {
+      errors.push({ field: `transaction ${index + 1}`, message: 'Missing DTPOSTED or TRNAMT' });
+      return;
+    }
+
+    lines.push({
+      line_number: index + 1,
+      bank_date: `${posted[1]}-${posted[2]}-${posted[3]}`,
+      amount,
+      description: [tag('NAME'), tag('MEMO')].filter(Boolean).join(' - '),
+      reference: tag('FITID') || tag('REFNUM') || tag('CHECKNUM') || undefined
+    });
+  });
+
+  if (blocks.length === 0) {
+    errors.push({ field: 'file', message: 'No transactions (STMTTRN) found in OFX file' });
+  }
+
+  return { format: 'ofx', lines, errors };
+}
+
+/**
+ * Parse a QIF file; records end with '^' (D date, T/U amount, P payee, M memo, N number)
+ */
+export function parseQifStatement(content: string, dateOrder: StatementDateOrder = 'DMY'): ParsedStatement {
+  const lines: StatementLine[] = [];
+  const errors: TransactionValidationError[] = [];
+  let record: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const finish = () => {
+    if (Object.keys(record).length === 0) return;
+    recordNumber++;
+
+    const bankDate = parseStatementDate(record.D || '', dateOrder);
+    const amount = parseStatementAmount(record.T || record.U || '');
+    if (!bankDate || amount === null || amount === 0) {
+      errors.push({ field: `record ${recordNumber}`, message: `Unrecognised date '${record.D || ''}' or amount '${record.T || record.U || ''}'` });
+    } else {
+      lines.push({
+        line_number: recordNumber,
+        bank_date: bankDate,
+        amount,
+        description: [record.P, record.M].filter(Boolean).join(' - '),
+        reference: record.N || undefined
+      });
+    }
+    record = {};
+  };
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line.startsWith('^')) {
+      finish();
+      continue;
+    }
+    // The first value of a code wins (split transactions repeat S/E/$ which are ignored)
+    const code = line[0].toUpperCase();
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  }
+  finish();
+
+  return { format: 'qif', lines, errors };
+}
+
+/**
+ * Parse a statement date to ISO: YYYY-MM-DD, YYYYMMDD, D/M/Y (or M/D/Y) with 2 or 4 digit
+ * years and any of / - . ' as separators, or '5 Jan 2026' style month names
+ */
+export function parseStatementDate(text: string, order: StatementDateOrder = 'DMY'): string | null {
+  const value = text.trim();
+  const months = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = value.match(/^(\d{1,2})[\s\-/.]+([A-Za-z]{3})[A-Za-z]*[\s\-/.]+(\d{2,4})$/))) {
+    [day, month, year] = [Number(match[1]), months.indexOf(match[2].toLowerCase()) + 1, Number(match[3])];
+  } else if ((match = value.match(/^(\d{1,2})\s*[-/.]\s*(\d{1,2})\s*[-/.']\s*(\d{2,4})$/))) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [day, month] = order === 'MDY' ? [second, first] : [first, second];
+    year = Number(match[3]);
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a statement amount: '£1,234.56', '-12.00', '(12.00)', '12.00 CR', '12.00 DR'
+ */
+export function parseStatementAmount(text: string): number | null {
+  let value = text.trim().replace(/[£$€,\s]/g, '');
+  if (!value) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(value)) {
+    sign = -1;
+    value = value.slice(1, -1);
+  }
+  if (/DR$/i.test(value)) {
+    sign = -1;
+    value = value.slice(0, -2);
+  } else if (/CR$/i.test(value)) {
+    value = value.slice(0, -2);
+  }
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(value)) return null;
+  return Math.round(sign * parseFloat(value) * 100) / 100;
+}
+
+/**
+ * Column positions of a profile's headings in a row, or null when a required one is missing
+ */
+function findColumns(row: string[], profile: StatementCsvProfile): {
+  date: number;
+  description: number;
+  reference?: number;
+  amount?: number;
+  credit?: number;
+  debit?: number;
+  balance?: number;
+} | null {
+  const headings = row.map(cell => cell.trim().toLowerCase());
+  const find = (heading?: string) => {
+    if (!heading) return undefined;
+    const index = headings.indexOf(heading.toLowerCase());
+    return index === -1 ? undefined : index;
+  };
+
+  const date = find(profile.date_column);
+  const description = find(profile.description_column);
+  const amount = find(profile.amount_column);
+  const credit = find(profile.credit_column);
+  const debit = find(profile.debit_column);
+
+  if (date === undefined || description === undefined) return null;
+  if (amount === undefined && (credit === undefined || debit === undefined)) return null;
+
+  return { date, description, reference: find(profile.reference_column), amount, credit, debit, balance: find(profile.balance_column) };
+}
+
+/**
+ * Transaction a statement line would create; the type follows the direction
+ * of the money unless the description names a fee
+ */
+export function statementLineToTransaction(accountId: number, line: StatementLine): Partial<Transaction> {
+  const isFee = line.amount < 0 && /\b(fee|charge)\b/i.test(line.description);
+  const transactionType: TransactionType = line.amount > 0 ? 'deposit' : isFee ? 'fee' : 'withdrawal';
+
+  return {
+    account_id: accountId,
+    transaction_date: line.bank_date,
+    bank_date: line.bank_date,
+    transaction_type: transactionType,
+    credit: line.amount > 0 ? line.amount : undefined,
+    debit: line.amount < 0 ? Math.abs(line.amount) : undefined,
+    balance_after: line.balance_after,
+    reference: line.reference,
+    optional_notes: line.description || undefined,
+    source: 'import'
+  };
+}
+
+/**
+ * Whether a ledger transaction already records a statement line: the same
+ * bank date (transaction date when it has none), the same amount to the
+ * penny, and the same reference when both have one. Statement import skips
+ * such lines and reconciliation pairs them before any looser match
+ */
+export function isSameTransaction(transaction: Partial<Transaction>, line: StatementLine): boolean {
+  const amount = (transaction.credit || 0) - (transaction.debit || 0);
+  if ((transaction.bank_date || transaction.transaction_date) !== line.bank_date || Math.abs(amount - line.amount) >= 0.01) {
+    return false;
+  }
+  return !transaction.reference || !line.reference || transaction.reference === line.reference;
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields; blank lines are kept as empty rows
+ * Rows copied from a bank's web page are tab separated, which the first line shows
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = input.split(/\r?\n/, 1)[0].includes('\t') ? '\t' : ',';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}